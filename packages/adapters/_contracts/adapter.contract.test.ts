@@ -157,6 +157,40 @@ export function createAdapterContractTests(createAdapter: () => KeyloomAdapter)
           }),
         ).rejects.toThrow()
       })
+
+      it('should list and unlink accounts by user', async () => {
+        const user = await testData.createUser()
+        const other = await testData.createUser()
+        await adapter.linkAccount({ userId: user.id, provider: 'github', providerAccountId: '1' })
+        await adapter.linkAccount({ userId: user.id, provider: 'google', providerAccountId: '2' })
+        await adapter.linkAccount({ userId: other.id, provider: 'github', providerAccountId: '3' })
+
+        const accounts = await adapter.getAccountsByUser(user.id)
+        expect(accounts.map((a) => a.provider).sort()).toEqual(['github', 'google'])
+
+        await adapter.unlinkAccount('github', '1')
+        expect(await adapter.getAccountByProvider('github', '1')).toBeNull()
+        expect(await adapter.getAccountsByUser(user.id)).toHaveLength(1)
+        expect(await adapter.getAccountByProvider('github', '3')).not.toBeNull()
+      })
+
+      it('should update account tokens', async () => {
+        const user = await testData.createUser()
+        const account = await adapter.linkAccount({
+          userId: user.id,
+          provider: 'github',
+          providerAccountId: '1',
+          accessToken: 'old',
+          refreshToken: 'refresh',
+        })
+
+        const updated = await adapter.updateAccount(account.id, {
+          accessToken: 'new',
+          expiresAt: 1_900_000_000,
+        })
+        expect(updated).toMatchObject({ accessToken: 'new', refreshToken: 'refresh' })
+        expect((await adapter.getAccountByProvider('github', '1'))?.accessToken).toBe('new')
+      })
     })
 
     describe('Session Management', () => {
@@ -195,6 +229,65 @@ export function createAdapterContractTests(createAdapter: () => KeyloomAdapter)
       it('should handle deletion of non-existent session gracefully', async () => {
         await expect(adapter.deleteSession('non-existent-id')).resolves.not.toThrow()
       })
+
+      it('should persist device metadata', async () => {
+        const user = await testData.createUser()
+        const session = await adapter.createSession({
+          userId: user.id,
+          expiresAt: futureDate(),
+          ip: '203.0.113.7',
+          userAgent: 'Mozilla/5.0 (contract-test)',
+        })
+
+        const retrieved = await adapter.getSession(session.id)
+        expect(retrieved?.ip).toBe('203.0.113.7')
+        expect(retrieved?.userAgent).toBe('Mozilla/5.0 (contract-test)')
+        expect(retrieved?.lastSeenAt).toBeInstanceOf(Date)
+      })
+
+      it('should update session expiry and last-seen time', async () => {
+        const user = await testData.createUser()
+        const session = await testData.createSession(user.id)
+        const expiresAt = futureDate(2 * 60 * 60_000)
+        const lastSeenAt = new Date(Date.now() + 1000)
+
+        const updated = await adapter.updateSession(session.id, { expiresAt, lastSeenAt })
+        expect(updated.id).toBe(session.id)
+        expect(updated.expiresAt).toEqual(expiresAt)
+        expect(updated.lastSeenAt).toEqual(lastSeenAt)
+
+        const retrieved = await adapter.getSession(session.id)
+        expect(retrieved?.expiresAt).toEqual(expiresAt)
+        expect(retrieved?.lastSeenAt).toEqual(lastSeenAt)
+      })
+
+      it('should list sessions by user', async () => {
+        const user = await testData.createUser()
+        const other = await testData.createUser()
+        const a = await testData.createSession(user.id)
+        const b = await testData.createSession(user.id)
+        await testData.createSession(other.id)
+
+        const sessions = await adapter.listSessionsByUser(user.id)
+        expect(sessions.map((s) => s.id).sort()).toEqual([a.id, b.id].sort())
+        expect(await adapter.listSessionsByUser('non-existent-user')).toEqual([])
+      })
+
+      it('should delete sessions by user, keeping the excepted one', async () => {
+        const user = await testData.createUser()
+        const other = await testData.createUser()
+        const keep = await testData.createSession(user.id)
+        await testData.createSession(user.id)
+        await testData.createSession(user.id)
+        const untouched = await testData.createSession(other.id)
+
+        expect(await adapter.deleteSessionsByUser(user.id, keep.id)).toBe(2)
+        expect((await adapter.listSessionsByUser(user.id)).map((s) => s.id)).toEqual([keep.id])
+        expect(await adapter.getSession(untouched.id)).not.toBeNull()
+
+        expect(await adapter.deleteSessionsByUser(user.id)).toBe(1)
+        expect(await adapter.listSessionsByUser(user.id)).toEqual([])
+      })
     })
 
     describe('Verification Tokens', () => {
@@ -274,6 +367,150 @@ export function createAdapterContractTests(createAdapter: () => KeyloomAdapter)
 
         await expect(adapter.appendAudit(auditEvent)).resolves.not.toThrow()
       })
+
+      it('should list audit events newest first with filters', async () => {
+        const user = await testData.createUser()
+        const orgId = `org_${Date.now()}`
+        const base = Date.now() - 60_000
+        await adapter.appendAudit({ type: 'user.login', userId: user.id, at: new Date(base) })
+        await adapter.appendAudit({
+          type: 'rbac.role.assigned',
+          userId: user.id,
+          orgId,
+          at: new Date(base + 1000),
+          meta: { role: 'admin' },
+        })
+        await adapter.appendAudit({
+          type: 'user.logout',
+          userId: user.id,
+          at: new Date(base + 2000),
+        })
+
+        const all = await adapter.listAudit({ userId: user.id })
+        expect(all.items.map((e) => e.type)).toEqual([
+          'user.logout',
+          'rbac.role.assigned',
+          'user.login',
+        ])
+        expect(all.nextCursor).toBeNull()
+
+        const byOrg = await adapter.listAudit({ orgId })
+        expect(byOrg.items).toHaveLength(1)
+        expect(byOrg.items[0]).toMatchObject({ orgId, meta: { role: 'admin' } })
+
+        const byType = await adapter.listAudit({
+          userId: user.id,
+          type: ['user.login', 'user.logout'],
+        })
+        expect(byType.items.map((e) => e.type)).toEqual(['user.logout', 'user.login'])
+
+        const windowed = await adapter.listAudit({
+          userId: user.id,
+          since: new Date(base + 1000),
+          until: new Date(base + 2000),
+        })
+        expect(windowed.items.map((e) => e.type)).toEqual(['rbac.role.assigned'])
+      })
+
+      it('should paginate audit events with a cursor', async () => {
+        const user = await testData.createUser()
+        const at = new Date(Date.now() - 60_000)
+        // Same timestamp for every entry: pagination must tie-break on id
+        for (let i = 0; i < 5; i++) {
+          await adapter.appendAudit({ type: `page.${i}`, userId: user.id, at })
+        }
+
+        const seen: string[] = []
+        let cursor: string | undefined
+        let pages = 0
+        do {
+          const page = await adapter.listAudit({ userId: user.id, limit: 2, cursor })
+          expect(page.items.length).toBeLessThanOrEqual(2)
+          seen.push(...page.items.map((e) => e.id))
+          cursor = page.nextCursor ?? undefined
+          pages++
+        } while (cursor)
+
+        expect(pages).toBe(3)
+        expect(new Set(seen).size).toBe(5)
+      })
+
+      it('should prune audit events older than a cutoff', async () => {
+        const user = await testData.createUser()
+        const now = Date.now()
+        await adapter.appendAudit({
+          type: 'old',
+          userId: user.id,
+          at: new Date(now - 40 * 24 * 60 * 60_000),
+        })
+        await adapter.appendAudit({ type: 'recent', userId: user.id, at: new Date(now) })
+
+        expect(await adapter.pruneAudit(new Date(now - 30 * 24 * 60 * 60_000))).toBe(1)
+        const { items } = await adapter.listAudit({ userId: user.id })
+        expect(items.map((e) => e.type)).toEqual(['recent'])
+      })
+    })
+
+    describe('API Keys', () => {
+      const newKey = (userId: string, orgId: string | null = null) => ({
+        name: 'CI',
+        prefix: 'klk_abcdefgh',
+        keyHash: `hash-${Math.random().toString(36).slice(2)}`,
+        userId,
+        orgId,
+        permissions: ['members:read'],
+        expiresAt: futureDate(),
+      })
+
+      it('should create and look up an API key by hash', async () => {
+        const user = await testData.createUser()
+        const input = newKey(user.id)
+        const key = await adapter.createApiKey(input)
+
+        expect(key.id).toBeDefined()
+        expect(key.createdAt).toBeInstanceOf(Date)
+        expect(key.lastUsedAt).toBeNull()
+
+        const found = await adapter.getApiKeyByHash(input.keyHash)
+        expect(found?.id).toBe(key.id)
+        expect(found?.permissions).toEqual(['members:read'])
+        expect(found?.orgId ?? null).toBeNull()
+        expectNotFound(await adapter.getApiKeyByHash('missing'))
+      })
+
+      it('should reject duplicate key hashes', async () => {
+        const user = await testData.createUser()
+        const input = newKey(user.id)
+        await adapter.createApiKey(input)
+        await expect(adapter.createApiKey(input)).rejects.toMatchObject({
+          code: 'ADAPTER_UNIQUE_VIOLATION',
+        })
+      })
+
+      it('should list personal and org keys separately', async () => {
+        const user = await testData.createUser()
+        const org = await testData.createOrg()
+        const personal = await adapter.createApiKey(newKey(user.id))
+        const orgKey = await adapter.createApiKey(newKey(user.id, org.id))
+
+        expect((await adapter.listApiKeys({ userId: user.id })).map((k) => k.id)).toEqual([
+          personal.id,
+        ])
+        expect((await adapter.listApiKeys({ orgId: org.id })).map((k) => k.id)).toEqual([orgKey.id])
+      })
+
+      it('should record last use and delete keys', async () => {
+        const user = await testData.createUser()
+        const input = newKey(user.id)
+        const key = await adapter.createApiKey(input)
+        const usedAt = new Date()
+
+        const updated = await adapter.updateApiKey(key.id, { lastUsedAt: usedAt })
+        expect(updated.lastUsedAt?.getTime()).toBe(usedAt.getTime())
+
+        await adapter.deleteApiKey(key.id)
+        expectNotFound(await adapter.getApiKeyByHash(input.keyHash))
+      })
     })
 
     describe('Health Check', () => {
@@ -294,6 +531,17 @@ export function createAdapterContractTests(createAdapter: () => KeyloomAdapter)
           expect(typeof result.refreshTokens).toBe('number')
         }
       })
+
+      it('should prune audit events past retention during cleanup', async () => {
+        if (adapter.cleanup) {
+          await adapter.appendAudit({
+            type: 'old',
+            at: new Date(Date.now() - 100 * 24 * 60 * 60_000),
+          })
+          const result = await adapter.cleanup({ auditRetentionDays: 90 })
+          expect(result.audit).toBeGreaterThanOrEqual(1)
+        }
+      })
     })
   })
 }
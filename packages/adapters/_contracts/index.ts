@@ -37,7 +37,7 @@ export function runCoreAdapterTests(createAdapter: () => KeyloomAdapter) {
 }
 
 /**
- * Run only RBAC tests (organizations, memberships, invites, entitlements)
+ * Run only RBAC tests (organizations, memberships, invites, domains, roles, entitlements)
  */
 export function runRbacTests(createAdapter: () => KeyloomAdapter) {
   createRbacContractTests(createAdapter)
@@ -112,6 +112,9 @@ export function validateAdapterMethods(adapter: KeyloomAdapter): {
     'updateUser',
     'linkAccount',
     'getAccountByProvider',
+    'getAccountsByUser',
+    'unlinkAccount',
+    'updateAccount',
     'createSession',
     'getSession',
     'deleteSession',
@@ -124,6 +127,9 @@ export function validateAdapterMethods(adapter: KeyloomAdapter): {
     'getOrganization',
     'getOrganizationBySlug',
     'updateOrganization',
+    'deleteOrganization',
+    'listDeletedOrganizations',
+    'getOrganizationByBillingCustomerId',
     'getUserOrganizations',
     'addMember',
     'getMembership',
@@ -132,9 +138,19 @@ export function validateAdapterMethods(adapter: KeyloomAdapter): {
     'getOrganizationMembers',
     'createInvite',
     'getInviteByToken',
+    'listPendingInvites',
     'acceptInvite',
     'getOrganizationInvites',
     'revokeInvite',
+    'createOrgDomain',
+    'listOrgDomains',
+    'getOrgDomainsByDomain',
+    'updateOrgDomain',
+    'removeOrgDomain',
+    'createOrgRole',
+    'listOrgRoles',
+    'updateOrgRole',
+    'removeOrgRole',
     'setEntitlement',
     'getEntitlement',
 
@@ -94,6 +94,51 @@ export function createRbacContractTests(createAdapter: () => KeyloomAdapter) {
         expect(orgs.map((o) => o.id)).toContain(org1.id)
         expect(orgs.map((o) => o.id)).toContain(org2.id)
       })
+
+      it('should hide organizations pending deletion', async () => {
+        const user = await testData.createUser()
+        const org = await testData.createOrg()
+        await adapter.addMember(org.id, user.id, 'owner')
+
+        const deletedAt = new Date()
+        await adapter.updateOrganization(org.id, { deletedAt })
+
+        expect(await adapter.getUserOrganizations(user.id)).toHaveLength(0)
+        const due = await adapter.listDeletedOrganizations(new Date(deletedAt.getTime() + 1000))
+        expect(due.map((o) => o.id)).toContain(org.id)
+        expect(
+          await adapter.listDeletedOrganizations(new Date(deletedAt.getTime() - 1000)),
+        ).toEqual([])
+      })
+
+      it('should find an organization by billing customer id', async () => {
+        const org = await testData.createOrg()
+        const customerId = `cus_${org.id}`
+        await adapter.updateOrganization(org.id, { billingCustomerId: customerId })
+
+        const found = await adapter.getOrganizationByBillingCustomerId(customerId)
+        expect(found?.id).toBe(org.id)
+        expectNotFound(await adapter.getOrganizationByBillingCustomerId('cus_missing'))
+      })
+
+      it('should delete an organization with its memberships and invites', async () => {
+        const user = await testData.createUser()
+        const org = await testData.createOrg()
+        await adapter.addMember(org.id, user.id, 'owner')
+        await adapter.createInvite({
+          orgId: org.id,
+          email: randomEmail(),
+          role: 'member',
+          tokenHash: 'delete-org-token',
+          expiresAt: futureDate(),
+        })
+
+        await adapter.deleteOrganization(org.id)
+
+        expectNotFound(await adapter.getOrganization(org.id))
+        expectNotFound(await adapter.getMembership(user.id, org.id))
+        expect(await adapter.getOrganizationInvites(org.id)).toHaveLength(0)
+      })
     })
 
     describe('Membership Management', () => {
@@ -255,6 +300,39 @@ export function createRbacContractTests(createAdapter: () => KeyloomAdapter) {
         expect(invites).toHaveLength(2)
       })
 
+      it('should list pending invitations only', async () => {
+        const user = await testData.createUser()
+        const org = await testData.createOrg()
+        for (const tokenHash of ['pending-token', 'accepted-token'])
+          await adapter.createInvite({
+            orgId: org.id,
+            email: randomEmail(),
+            role: 'member',
+            tokenHash,
+            expiresAt: futureDate(),
+          })
+        await adapter.acceptInvite(org.id, 'accepted-token', user.id)
+
+        const pending = await adapter.listPendingInvites(org.id)
+        expect(pending.map((i) => i.tokenHash)).toEqual(['pending-token'])
+      })
+
+      it('should run work under the organization lock', async () => {
+        const org = await testData.createOrg()
+        const result = await adapter.withOrgLock(org.id, async (tx) => {
+          await tx.createInvite({
+            orgId: org.id,
+            email: randomEmail(),
+            role: 'member',
+            tokenHash: 'locked-token',
+            expiresAt: futureDate(),
+          })
+          return 'done'
+        })
+        expect(result).toBe('done')
+        expect(await adapter.getInviteByToken(org.id, 'locked-token')).toBeTruthy()
+      })
+
       it('should revoke an invitation', async () => {
         const org = await testData.createOrg()
         const tokenHash = 'revoke-token'
@@ -274,6 +352,106 @@ export function createRbacContractTests(createAdapter: () => KeyloomAdapter) {
       })
     })
 
+    describe('Domain Management', () => {
+      it('should create and list claimed domains', async () => {
+        const org = await testData.createOrg()
+
+        const orgDomain = await adapter.createOrgDomain({
+          orgId: org.id,
+          domain: 'acme.example',
+          verificationToken: 'txt-token',
+          role: 'admin',
+        })
+
+        expect(orgDomain.orgId).toBe(org.id)
+        expect(orgDomain.domain).toBe('acme.example')
+        expect(orgDomain.verificationToken).toBe('txt-token')
+        expect(orgDomain.policy).toBe('auto-join')
+        expect(orgDomain.role).toBe('admin')
+        expect(orgDomain.verifiedAt ?? null).toBeNull()
+
+        const listed = await adapter.listOrgDomains(org.id)
+        expect(listed.map((d) => d.id)).toEqual([orgDomain.id])
+      })
+
+      it('should find every org claiming a domain', async () => {
+        const org1 = await testData.createOrg()
+        const org2 = await testData.createOrg()
+        for (const org of [org1, org2]) {
+          await adapter.createOrgDomain({
+            orgId: org.id,
+            domain: 'shared.example',
+            verificationToken: `token-${org.id}`,
+          })
+        }
+
+        const claims = await adapter.getOrgDomainsByDomain('shared.example')
+        expect(claims.map((d) => d.orgId).sort()).toEqual([org1.id, org2.id].sort())
+        expect(await adapter.getOrgDomainsByDomain('other.example')).toEqual([])
+      })
+
+      it('should enforce one claim per org and domain', async () => {
+        const org = await testData.createOrg()
+        const data = { orgId: org.id, domain: 'dup.example', verificationToken: 'token' }
+        await adapter.createOrgDomain(data)
+
+        await expect(adapter.createOrgDomain(data)).rejects.toThrow()
+      })
+
+      it('should update and remove a domain', async () => {
+        const org = await testData.createOrg()
+        const orgDomain = await adapter.createOrgDomain({
+          orgId: org.id,
+          domain: 'verify.example',
+          verificationToken: 'token',
+        })
+
+        const verifiedAt = new Date()
+        const updated = await adapter.updateOrgDomain(orgDomain.id, { verifiedAt, policy: 'sso' })
+        expect(updated.verifiedAt).toEqual(verifiedAt)
+        expect(updated.policy).toBe('sso')
+
+        await adapter.removeOrgDomain(orgDomain.id)
+        expect(await adapter.listOrgDomains(org.id)).toEqual([])
+      })
+    })
+
+    describe('Custom Role Management', () => {
+      it('should create, list, update and remove org roles', async () => {
+        const org = await testData.createOrg()
+        const other = await testData.createOrg()
+
+        const role = await adapter.createOrgRole({
+          orgId: org.id,
+          name: 'billing-viewer',
+          description: 'Reads invoices',
+          permissions: ['billing:read', 'members:read'],
+        })
+        expect(role.orgId).toBe(org.id)
+        expect(role.name).toBe('billing-viewer')
+        expect(role.description).toBe('Reads invoices')
+        expect(role.permissions).toEqual(['billing:read', 'members:read'])
+
+        await adapter.createOrgRole({ orgId: other.id, name: 'billing-viewer', permissions: [] })
+        expect((await adapter.listOrgRoles(org.id)).map((r) => r.id)).toEqual([role.id])
+
+        const updated = await adapter.updateOrgRole(role.id, { permissions: ['billing:*'] })
+        expect(updated.permissions).toEqual(['billing:*'])
+        expect(updated.name).toBe('billing-viewer')
+
+        await adapter.removeOrgRole(role.id)
+        expect(await adapter.listOrgRoles(org.id)).toEqual([])
+      })
+
+      it('should enforce unique role names per org', async () => {
+        const org = await testData.createOrg()
+        const data = { orgId: org.id, name: 'support', permissions: [] }
+        await adapter.createOrgRole(data)
+
+        await expect(adapter.createOrgRole(data)).rejects.toThrow()
+      })
+    })
+
     describe('Entitlement Management', () => {
       it('should set organization entitlement', async () => {
         const org = await testData.createOrg()
@@ -0,0 +1,100 @@
+import type { ApiKey, ApiKeyAdapter, ID } from '@keyloom/core'
+import { and, desc, eq, isNull } from 'drizzle-orm'
+import { withErrorMapping } from './errors'
+import type { DrizzleAdapterConfig } from './index'
+import * as schema from './schema'
+
+// Union type for supported Drizzle database instances
+type DrizzleDatabase = any // Keep loose for flexibility
+
+function toApiKey(row: any): ApiKey {
+  return {
+    id: row.id,
+    name: row.name,
+    prefix: row.prefix,
+    keyHash: row.keyHash,
+    userId: row.userId,
+    orgId: row.orgId ?? null,
+    // SQLite stores the JSON array as TEXT
+    permissions:
+      typeof row.permissions === 'string' ? JSON.parse(row.permissions) : (row.permissions ?? []),
+    expiresAt: row.expiresAt ?? null,
+    lastUsedAt: row.lastUsedAt ?? null,
+    createdAt: row.createdAt,
+  }
+}
+
+/**
+ * Create API key store for Drizzle
+ */
+export function createApiKeyStore(
+  db: DrizzleDatabase,
+  _config: DrizzleAdapterConfig,
+): ApiKeyAdapter {
+  return {
+    async createApiKey(key: Omit<ApiKey, 'id' | 'createdAt' | 'lastUsedAt'>) {
+      return withErrorMapping(async () => {
+        const [row] = await db
+          .insert(schema.apiKeys)
+          .values({
+            id: crypto.randomUUID(),
+            name: key.name,
+            prefix: key.prefix,
+            keyHash: key.keyHash,
+            userId: key.userId,
+            orgId: key.orgId || null,
+            permissions: key.permissions,
+            expiresAt: key.expiresAt,
+            lastUsedAt: null,
+            createdAt: new Date(),
+          })
+          .returning()
+        return toApiKey(row)
+      })
+    },
+
+    async getApiKeyByHash(keyHash: string) {
+      return withErrorMapping(async () => {
+        const [row] = await db
+          .select()
+          .from(schema.apiKeys)
+          .where(eq(schema.apiKeys.keyHash, keyHash))
+          .limit(1)
+        return row ? toApiKey(row) : null
+      })
+    },
+
+    async listApiKeys(owner: { userId: ID } | { orgId: ID }) {
+      return withErrorMapping(async () => {
+        const rows = await db
+          .select()
+          .from(schema.apiKeys)
+          .where(
+            'orgId' in owner
+              ? eq(schema.apiKeys.orgId, owner.orgId)
+              : and(eq(schema.apiKeys.userId, owner.userId), isNull(schema.apiKeys.orgId)),
+          )
+          .orderBy(desc(schema.apiKeys.createdAt))
+        return rows.map(toApiKey)
+      })
+    },
+
+    async updateApiKey(id: ID, data: Partial<Pick<ApiKey, 'name' | 'lastUsedAt'>>) {
+      return withErrorMapping(async () => {
+        const [row] = await db
+          .update(schema.apiKeys)
+          .set(data)
+          .where(eq(schema.apiKeys.id, id))
+          .returning()
+        if (!row) throw new Error('API key not found')
+        return toApiKey(row)
+      })
+    },
+
+    async deleteApiKey(id: ID) {
+      return withErrorMapping(async () => {
+        await db.delete(schema.apiKeys).where(eq(schema.apiKeys.id, id))
+      })
+    },
+  }
+}
@@ -1,22 +1,28 @@
 import type {
   Account,
+  AccountTokens,
   Adapter,
   AuditEvent,
+  AuditLog,
+  AuditQuery,
   ID,
   Session,
   User,
   VerificationToken,
 } from '@keyloom/core'
+import { auditPageSize, decodeAuditCursor, toAuditPage } from '@keyloom/core'
 import type {
   AdapterCapabilities,
   BaseAdapterConfig,
+  CleanupOptions,
   KeyloomAdapter,
 } from '@keyloom/core/adapter-types'
 import { normalizeEmail } from '@keyloom/core/adapter-types'
-import { and, eq, lt } from 'drizzle-orm'
+import { and, desc, eq, gte, inArray, lt, ne, or } from 'drizzle-orm'
 import type { DrizzleD1Database } from 'drizzle-orm/d1'
 import type { MySql2Database } from 'drizzle-orm/mysql2'
 import type { NodePgDatabase } from 'drizzle-orm/node-postgres'
+import { createApiKeyStore } from './api-keys'
 import { withErrorMapping } from './errors'
 import { createRbacAdapter } from './rbac'
 import { createRefreshTokenStore } from './refresh'
@@ -192,13 +198,59 @@ export default function drizzleAdapter(
       })
     },
 
+    async getAccountsByUser(userId: ID) {
+      return withErrorMapping(async () => {
+        const accounts = await db
+          .select()
+          .from(schema.accounts)
+          .where(eq(schema.accounts.userId, userId))
+
+        return accounts as Account[]
+      })
+    },
+
+    async updateAccount(id: ID, data: Partial<AccountTokens>) {
+      return withErrorMapping(async () => {
+        const updateData: any = { updatedAt: new Date() }
+        if (data.accessToken !== undefined) updateData.accessToken = data.accessToken
+        if (data.refreshToken !== undefined) updateData.refreshToken = data.refreshToken
+        if (data.tokenType !== undefined) updateData.tokenType = data.tokenType
+        if (data.expiresAt !== undefined) updateData.expiresAt = data.expiresAt
+        if (data.scope !== undefined) updateData.scope = data.scope
+
+        const [account] = await db
+          .update(schema.accounts)
+          .set(updateData)
+          .where(eq(schema.accounts.id, id))
+          .returning()
+
+        return account as Account
+      })
+    },
+
+    async unlinkAccount(provider: string, providerAccountId: string) {
+      return withErrorMapping(async () => {
+        await db
+          .delete(schema.accounts)
+          .where(
+            and(
+              eq(schema.accounts.provider, provider),
+              eq(schema.accounts.providerAccountId, providerAccountId),
+            ),
+          )
+      })
+    },
+
     // Sessions
-    async createSession(data: { userId: ID; expiresAt: Date }) {
+    async createSession(data: Omit<Session, 'id' | 'createdAt'>) {
       return withErrorMapping(async () => {
         const sessionData = {
           id: crypto.randomUUID(),
           userId: data.userId,
           expiresAt: data.expiresAt,
+          ip: data.ip ?? null,
+          userAgent: data.userAgent ?? null,
+          lastSeenAt: data.lastSeenAt ?? new Date(),
           createdAt: new Date(),
         }
 
@@ -225,6 +277,43 @@ export default function drizzleAdapter(
       })
     },
 
+    async updateSession(id: ID, data: Partial<Pick<Session, 'expiresAt' | 'lastSeenAt'>>) {
+      return withErrorMapping(async () => {
+        const [session] = await db
+          .update(schema.sessions)
+          .set(data)
+          .where(eq(schema.sessions.id, id))
+          .returning()
+
+        return session as Session
+      })
+    },
+
+    async listSessionsByUser(userId: ID) {
+      return withErrorMapping(async () => {
+        const sessions = await db
+          .select()
+          .from(schema.sessions)
+          .where(eq(schema.sessions.userId, userId))
+          .orderBy(desc(schema.sessions.createdAt))
+
+        return sessions as Session[]
+      })
+    },
+
+    async deleteSessionsByUser(userId: ID, except?: ID) {
+      return withErrorMapping(async () => {
+        const where = except
+          ? and(eq(schema.sessions.userId, userId), ne(schema.sessions.id, except))
+          : eq(schema.sessions.userId, userId)
+        const deleted = await db
+          .delete(schema.sessions)
+          .where(where)
+          .returning({ id: schema.sessions.id })
+        return deleted.length
+      })
+    },
+
     // Verification Tokens
     async createVerificationToken(data: { identifier: string; token: string; expiresAt: Date }) {
       return withErrorMapping(async () => {
@@ -266,6 +355,7 @@ export default function drizzleAdapter(
           id: crypto.randomUUID(),
           type: event.type,
           userId: event.userId || null,
+          orgId: event.orgId || null,
           ip: event.ip || null,
           userAgent: event.ua || null,
           timestamp: event.at || new Date(),
@@ -276,6 +366,62 @@ export default function drizzleAdapter(
       })
     },
 
+    async listAudit(query: AuditQuery) {
+      return withErrorMapping(async () => {
+        const t = schema.auditEvents
+        const limit = auditPageSize(query.limit)
+        const cursor = query.cursor ? decodeAuditCursor(query.cursor) : null
+        const rows = await db
+          .select()
+          .from(t)
+          .where(
+            and(
+              query.userId ? eq(t.userId, query.userId) : undefined,
+              query.orgId ? eq(t.orgId, query.orgId) : undefined,
+              query.type
+                ? Array.isArray(query.type)
+                  ? inArray(t.type, query.type)
+                  : eq(t.type, query.type)
+                : undefined,
+              query.since ? gte(t.timestamp, query.since) : undefined,
+              query.until ? lt(t.timestamp, query.until) : undefined,
+              cursor
+                ? or(
+                    lt(t.timestamp, cursor.at),
+                    and(eq(t.timestamp, cursor.at), lt(t.id, cursor.id)),
+                  )
+                : undefined,
+            ),
+          )
+          .orderBy(desc(t.timestamp), desc(t.id))
+          .limit(limit + 1)
+
+        const items: AuditLog[] = rows.map((r: any) => ({
+          id: r.id,
+          type: r.type,
+          at: r.timestamp,
+          ...(r.userId ? { userId: r.userId } : {}),
+          ...(r.orgId ? { orgId: r.orgId } : {}),
+          ...(r.ip ? { ip: r.ip } : {}),
+          ...(r.userAgent ? { ua: r.userAgent } : {}),
+          ...(r.metadata
+            ? { meta: typeof r.metadata === 'string' ? JSON.parse(r.metadata) : r.metadata }
+            : {}),
+        }))
+        return toAuditPage(items, limit)
+      })
+    },
+
+    async pruneAudit(before: Date) {
+      return withErrorMapping(async () => {
+        const deleted = await db
+          .delete(schema.auditEvents)
+          .where(lt(schema.auditEvents.timestamp, before))
+          .returning({ id: schema.auditEvents.id })
+        return deleted.length
+      })
+    },
+
     // Helper method for token hashing
     async hashToken(token: string): Promise<string> {
       const encoder = new TextEncoder()
@@ -286,16 +432,17 @@ export default function drizzleAdapter(
     },
   }
 
-  // Create RBAC and refresh token adapters
+  // Create RBAC, refresh token and API key adapters
   const rbacAdapter = createRbacAdapter(db, config)
   const refreshTokenStore = createRefreshTokenStore(db, config)
+  const apiKeyStore = createApiKeyStore(db, config)
 
   // Combine all adapters
-  const extended = Object.assign(base, rbacAdapter, refreshTokenStore, {
+  const extended = Object.assign(base, rbacAdapter, refreshTokenStore, apiKeyStore, {
     capabilities,
 
     // Optional methods
-    async cleanup() {
+    async cleanup(options: CleanupOptions = {}) {
       const now = new Date()
 
       // Clean up expired sessions
@@ -311,10 +458,18 @@ export default function drizzleAdapter(
       // Clean up expired refresh tokens
       const expiredRefreshTokens = await refreshTokenStore.cleanupExpired(now)
 
+      // Prune audit entries past retention
+      const audit = options.auditRetentionDays
+        ? await base.pruneAudit(
+            new Date(now.getTime() - options.auditRetentionDays * 24 * 60 * 60_000),
+          )
+        : 0
+
       return {
         sessions: expiredSessions.rowsAffected || 0,
         tokens: expiredTokens.rowsAffected || 0,
         refreshTokens: expiredRefreshTokens,
+        audit,
       }
     },
 
@@ -4,10 +4,13 @@ import type {
   Invite,
   Membership,
   Organization,
+  OrgDomain,
+  OrgDomainPolicy,
+  OrgRole,
   RbacAdapter,
   UserGlobalRole,
 } from '@keyloom/core'
-import { and, desc, eq, isNull } from 'drizzle-orm'
+import { and, desc, eq, isNull, lte } from 'drizzle-orm'
 import { withErrorMapping } from './errors'
 import type { DrizzleAdapterConfig } from './index'
 import * as schema from './schema'
@@ -15,10 +18,20 @@ import * as schema from './schema'
 // Union type for supported Drizzle database instances
 type DrizzleDatabase = unknown // Keep loose for flexibility
 
+function toOrgRole(row: any): OrgRole {
+  return {
+    ...row,
+    description: row.description ?? null,
+    // SQLite stores the JSON array as TEXT
+    permissions:
+      typeof row.permissions === 'string' ? JSON.parse(row.permissions) : (row.permissions ?? []),
+  }
+}
+
 /**
  * Create RBAC adapter for Drizzle
  */
-export function createRbacAdapter(db: DrizzleDatabase, _config: DrizzleAdapterConfig): RbacAdapter {
+export function createRbacAdapter(db: DrizzleDatabase, config: DrizzleAdapterConfig): RbacAdapter {
   return {
     // Organizations
     async createOrganization(data: { name: string; slug?: string }) {
@@ -68,6 +81,9 @@ export function createRbacAdapter(db: DrizzleDatabase, _config: DrizzleAdapterCo
 
         if (data.name !== undefined) updateData.name = data.name
         if (data.slug !== undefined) updateData.slug = data.slug
+        if (data.deletedAt !== undefined) updateData.deletedAt = data.deletedAt
+        if (data.billingCustomerId !== undefined)
+          updateData.billingCustomerId = data.billingCustomerId
 
         const [org] = await db
           .update(schema.organizations)
@@ -79,6 +95,42 @@ export function createRbacAdapter(db: DrizzleDatabase, _config: DrizzleAdapterCo
       })
     },
 
+    async getOrganizationByBillingCustomerId(customerId: string) {
+      return withErrorMapping(async () => {
+        const [org] = await db
+          .select()
+          .from(schema.organizations)
+          .where(eq(schema.organizations.billingCustomerId, customerId))
+          .limit(1)
+        return (org as Organization) ?? null
+      })
+    },
+
+    async deleteOrganization(id: ID) {
+      return withErrorMapping(async () => {
+        // Spelled out rather than left to ON DELETE CASCADE (SQLite only enforces it when enabled)
+        await (db as any).transaction(async (tx: any) => {
+          await tx.delete(schema.memberships).where(eq(schema.memberships.orgId, id))
+          await tx.delete(schema.invites).where(eq(schema.invites.orgId, id))
+          await tx.delete(schema.orgDomains).where(eq(schema.orgDomains.orgId, id))
+          await tx.delete(schema.orgRoles).where(eq(schema.orgRoles.orgId, id))
+          await tx.delete(schema.entitlements).where(eq(schema.entitlements.orgId, id))
+          await tx.delete(schema.apiKeys).where(eq(schema.apiKeys.orgId, id))
+          await tx.delete(schema.organizations).where(eq(schema.organizations.id, id))
+        })
+      })
+    },
+
+    async listDeletedOrganizations(before: Date) {
+      return withErrorMapping(async () => {
+        const orgs = await db
+          .select()
+          .from(schema.organizations)
+          .where(lte(schema.organizations.deletedAt, before))
+        return orgs as Organization[]
+      })
+    },
+
     async getUserOrganizations(userId: ID) {
       return withErrorMapping(async () => {
         const orgs = await db
@@ -86,6 +138,8 @@ export function createRbacAdapter(db: DrizzleDatabase, _config: DrizzleAdapterCo
             id: schema.organizations.id,
             name: schema.organizations.name,
             slug: schema.organizations.slug,
+            deletedAt: schema.organizations.deletedAt,
+            billingCustomerId: schema.organizations.billingCustomerId,
             createdAt: schema.organizations.createdAt,
             updatedAt: schema.organizations.updatedAt,
           })
@@ -98,6 +152,7 @@ export function createRbacAdapter(db: DrizzleDatabase, _config: DrizzleAdapterCo
               eq(schema.memberships.status, 'active'),
             ),
           )
+          .where(isNull(schema.organizations.deletedAt))
           .orderBy(schema.organizations.createdAt)
 
         return orgs as Organization[]
@@ -262,6 +317,16 @@ export function createRbacAdapter(db: DrizzleDatabase, _config: DrizzleAdapterCo
       })
     },
 
+    async listPendingInvites(orgId: ID) {
+      return withErrorMapping(async () => {
+        const invites = await db
+          .select()
+          .from(schema.invites)
+          .where(and(eq(schema.invites.orgId, orgId), isNull(schema.invites.acceptedAt)))
+        return invites as Invite[]
+      })
+    },
+
     async revokeInvite(orgId: ID, tokenHash: string) {
       return withErrorMapping(async () => {
         await db
@@ -270,7 +335,142 @@ export function createRbacAdapter(db: DrizzleDatabase, _config: DrizzleAdapterCo
       })
     },
 
+    // Claimed email domains
+    async createOrgDomain(data: {
+      orgId: ID
+      domain: string
+      verificationToken: string
+      policy?: OrgDomainPolicy
+      role?: string | null
+    }): Promise<OrgDomain> {
+      return withErrorMapping(async () => {
+        const [orgDomain] = await (db as any)
+          .insert(schema.orgDomains)
+          .values({
+            id: crypto.randomUUID(),
+            orgId: data.orgId,
+            domain: data.domain,
+            verificationToken: data.verificationToken,
+            verifiedAt: null,
+            policy: data.policy ?? 'auto-join',
+            role: data.role ?? null,
+            createdAt: new Date(),
+          })
+          .returning()
+        return orgDomain as OrgDomain
+      })
+    },
+
+    async listOrgDomains(orgId: ID): Promise<OrgDomain[]> {
+      return withErrorMapping(async () => {
+        const rows = await (db as any)
+          .select()
+          .from(schema.orgDomains)
+          .where(eq(schema.orgDomains.orgId, orgId))
+          .orderBy(schema.orgDomains.createdAt)
+        return rows as OrgDomain[]
+      })
+    },
+
+    async getOrgDomainsByDomain(domain: string): Promise<OrgDomain[]> {
+      return withErrorMapping(async () => {
+        const rows = await (db as any)
+          .select()
+          .from(schema.orgDomains)
+          .where(eq(schema.orgDomains.domain, domain))
+        return rows as OrgDomain[]
+      })
+    },
+
+    async updateOrgDomain(
+      id: ID,
+      data: Partial<Pick<OrgDomain, 'verifiedAt' | 'policy' | 'role'>>,
+    ): Promise<OrgDomain> {
+      return withErrorMapping(async () => {
+        const [orgDomain] = await (db as any)
+          .update(schema.orgDomains)
+          .set(data)
+          .where(eq(schema.orgDomains.id, id))
+          .returning()
+        if (!orgDomain) throw new Error('org_domain_not_found')
+        return orgDomain as OrgDomain
+      })
+    },
+
+    async removeOrgDomain(id: ID): Promise<void> {
+      return withErrorMapping(async () => {
+        await (db as any).delete(schema.orgDomains).where(eq(schema.orgDomains.id, id))
+      })
+    },
+
+    // Org-defined roles
+    async createOrgRole(data: {
+      orgId: ID
+      name: string
+      description?: string | null
+      permissions: string[]
+    }): Promise<OrgRole> {
+      return withErrorMapping(async () => {
+        const [role] = await (db as any)
+          .insert(schema.orgRoles)
+          .values({
+            id: crypto.randomUUID(),
+            orgId: data.orgId,
+            name: data.name,
+            description: data.description ?? null,
+            permissions: data.permissions,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+          })
+          .returning()
+        return toOrgRole(role)
+      })
+    },
+
+    async listOrgRoles(orgId: ID): Promise<OrgRole[]> {
+      return withErrorMapping(async () => {
+        const rows = await (db as any)
+          .select()
+          .from(schema.orgRoles)
+          .where(eq(schema.orgRoles.orgId, orgId))
+          .orderBy(schema.orgRoles.createdAt)
+        return rows.map(toOrgRole)
+      })
+    },
+
+    async updateOrgRole(
+      id: ID,
+      data: Partial<Pick<OrgRole, 'description' | 'permissions'>>,
+    ): Promise<OrgRole> {
+      return withErrorMapping(async () => {
+        const [role] = await (db as any)
+          .update(schema.orgRoles)
+          .set({ ...data, updatedAt: new Date() })
+          .where(eq(schema.orgRoles.id, id))
+          .returning()
+        if (!role) throw new Error('org_role_not_found')
+        return toOrgRole(role)
+      })
+    },
+
+    async removeOrgRole(id: ID): Promise<void> {
+      return withErrorMapping(async () => {
+        await (db as any).delete(schema.orgRoles).where(eq(schema.orgRoles.id, id))
+      })
+    },
+
     // Entitlements
+    async withOrgLock<T>(orgId: ID, fn: (adapter: RbacAdapter) => Promise<T>): Promise<T> {
+      return (db as any).transaction(async (tx: any) => {
+        // Touching the org row holds its write lock until the transaction ends
+        await tx
+          .update(schema.organizations)
+          .set({ updatedAt: new Date() })
+          .where(eq(schema.organizations.id, orgId))
+        return fn(createRbacAdapter(tx, config))
+      })
+    },
+
     async getEntitlement(orgId: ID) {
       return withErrorMapping(async () => {
         const [entitlement] = await db
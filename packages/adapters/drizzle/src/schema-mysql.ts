@@ -67,6 +67,9 @@ export const sessions = mysqlTable(
       .notNull()
       .references(() => users.id, { onDelete: 'cascade' }),
     expiresAt: timestamp('expiresAt').notNull(),
+    ip: varchar('ip', { length: 45 }),
+    userAgent: text('userAgent'),
+    lastSeenAt: timestamp('lastSeenAt'),
     createdAt: timestamp('createdAt').defaultNow().notNull(),
   },
   (table) => ({
@@ -95,6 +98,7 @@ export const auditEvents = mysqlTable(
     id: varchar('id', { length: 191 }).primaryKey(),
     type: varchar('type', { length: 191 }).notNull(),
     userId: varchar('userId', { length: 191 }).references(() => users.id, { onDelete: 'set null' }),
+    orgId: varchar('orgId', { length: 191 }),
     ip: varchar('ip', { length: 45 }),
     userAgent: text('userAgent'),
     timestamp: timestamp('timestamp').defaultNow().notNull(),
@@ -104,6 +108,7 @@ export const auditEvents = mysqlTable(
     typeIdx: index('AuditEvent_type_idx').on(table.type),
     userIdx: index('AuditEvent_userId_idx').on(table.userId),
     timestampIdx: index('AuditEvent_timestamp_idx').on(table.timestamp),
+    orgTimestampIdx: index('AuditEvent_orgId_timestamp_idx').on(table.orgId, table.timestamp),
   }),
 )
 
@@ -114,6 +119,8 @@ export const organizations = mysqlTable(
     id: varchar('id', { length: 191 }).primaryKey(),
     name: varchar('name', { length: 191 }).notNull(),
     slug: varchar('slug', { length: 191 }).unique(),
+    deletedAt: timestamp('deletedAt'),
+    billingCustomerId: varchar('billingCustomerId', { length: 191 }).unique(),
     createdAt: timestamp('createdAt').defaultNow().notNull(),
     updatedAt: timestamp('updatedAt').defaultNow().onUpdateNow().notNull(),
   },
@@ -186,6 +193,44 @@ export const invites = mysqlTable(
   }),
 )
 
+export const orgDomains = mysqlTable(
+  'OrgDomain',
+  {
+    id: varchar('id', { length: 191 }).primaryKey(),
+    orgId: varchar('orgId', { length: 191 })
+      .notNull()
+      .references(() => organizations.id, { onDelete: 'cascade' }),
+    domain: varchar('domain', { length: 191 }).notNull(),
+    verificationToken: varchar('verificationToken', { length: 191 }).notNull(),
+    verifiedAt: timestamp('verifiedAt'),
+    policy: varchar('policy', { length: 32 }).default('auto-join').notNull(),
+    role: varchar('role', { length: 191 }),
+    createdAt: timestamp('createdAt').defaultNow().notNull(),
+  },
+  (table) => ({
+    orgDomainIdx: uniqueIndex('OrgDomain_orgId_domain_key').on(table.orgId, table.domain),
+    domainIdx: index('OrgDomain_domain_idx').on(table.domain),
+  }),
+)
+
+export const orgRoles = mysqlTable(
+  'OrgRole',
+  {
+    id: varchar('id', { length: 191 }).primaryKey(),
+    orgId: varchar('orgId', { length: 191 })
+      .notNull()
+      .references(() => organizations.id, { onDelete: 'cascade' }),
+    name: varchar('name', { length: 64 }).notNull(),
+    description: text('description'),
+    permissions: json('permissions').$type<string[]>().notNull(),
+    createdAt: timestamp('createdAt').defaultNow().notNull(),
+    updatedAt: timestamp('updatedAt').defaultNow().notNull(),
+  },
+  (table) => ({
+    orgRoleIdx: uniqueIndex('OrgRole_orgId_name_key').on(table.orgId, table.name),
+  }),
+)
+
 export const entitlements = mysqlTable('Entitlement', {
   id: varchar('id', { length: 191 }).primaryKey(),
   orgId: varchar('orgId', { length: 191 })
@@ -201,6 +246,31 @@ export const entitlements = mysqlTable('Entitlement', {
   updatedAt: timestamp('updatedAt').defaultNow().onUpdateNow().notNull(),
 })
 
+// API Keys
+export const apiKeys = mysqlTable(
+  'ApiKey',
+  {
+    id: varchar('id', { length: 191 }).primaryKey(),
+    name: varchar('name', { length: 191 }).notNull(),
+    prefix: varchar('prefix', { length: 32 }).notNull(),
+    keyHash: varchar('keyHash', { length: 191 }).notNull().unique(),
+    userId: varchar('userId', { length: 191 })
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    orgId: varchar('orgId', { length: 191 }).references(() => organizations.id, {
+      onDelete: 'cascade',
+    }),
+    permissions: json('permissions').$type<string[]>().notNull(),
+    expiresAt: timestamp('expiresAt'),
+    lastUsedAt: timestamp('lastUsedAt'),
+    createdAt: timestamp('createdAt').defaultNow().notNull(),
+  },
+  (table) => ({
+    userIdx: index('ApiKey_userId_idx').on(table.userId),
+    orgIdx: index('ApiKey_orgId_idx').on(table.orgId),
+  }),
+)
+
 // JWT Refresh Tokens
 export const refreshTokens = mysqlTable(
   'RefreshToken',
@@ -248,7 +318,13 @@ export type Membership = typeof memberships.$inferSelect
 export type NewMembership = typeof memberships.$inferInsert
 export type Invite = typeof invites.$inferSelect
 export type NewInvite = typeof invites.$inferInsert
+export type OrgDomain = typeof orgDomains.$inferSelect
+export type NewOrgDomain = typeof orgDomains.$inferInsert
+export type OrgRole = typeof orgRoles.$inferSelect
+export type NewOrgRole = typeof orgRoles.$inferInsert
 export type Entitlement = typeof entitlements.$inferSelect
 export type NewEntitlement = typeof entitlements.$inferInsert
+export type ApiKey = typeof apiKeys.$inferSelect
+export type NewApiKey = typeof apiKeys.$inferInsert
 export type RefreshToken = typeof refreshTokens.$inferSelect
 export type NewRefreshToken = typeof refreshTokens.$inferInsert
@@ -65,6 +65,9 @@ export const sessions = sqliteTable(
       .notNull()
       .references(() => users.id, { onDelete: 'cascade' }),
     expiresAt: integer('expiresAt', { mode: 'timestamp' }).notNull(),
+    ip: text('ip'),
+    userAgent: text('userAgent'),
+    lastSeenAt: integer('lastSeenAt', { mode: 'timestamp' }),
     createdAt: integer('createdAt', { mode: 'timestamp' })
       .notNull()
       .$defaultFn(() => new Date()),
@@ -97,6 +100,7 @@ export const auditEvents = sqliteTable(
     id: text('id').primaryKey(),
     type: text('type').notNull(),
     userId: text('userId').references(() => users.id, { onDelete: 'set null' }),
+    orgId: text('orgId'),
     ip: text('ip'),
     userAgent: text('userAgent'),
     timestamp: integer('timestamp', { mode: 'timestamp' })
@@ -108,6 +112,7 @@ export const auditEvents = sqliteTable(
     typeIdx: index('AuditEvent_type_idx').on(table.type),
     userIdx: index('AuditEvent_userId_idx').on(table.userId),
     timestampIdx: index('AuditEvent_timestamp_idx').on(table.timestamp),
+    orgTimestampIdx: index('AuditEvent_orgId_timestamp_idx').on(table.orgId, table.timestamp),
   }),
 )
 
@@ -118,6 +123,8 @@ export const organizations = sqliteTable(
     id: text('id').primaryKey(),
     name: text('name').notNull(),
     slug: text('slug').unique(),
+    deletedAt: integer('deletedAt', { mode: 'timestamp' }),
+    billingCustomerId: text('billingCustomerId').unique(),
     createdAt: integer('createdAt', { mode: 'timestamp' })
       .notNull()
       .$defaultFn(() => new Date()),
@@ -204,6 +211,50 @@ export const invites = sqliteTable(
   }),
 )
 
+export const orgDomains = sqliteTable(
+  'OrgDomain',
+  {
+    id: text('id').primaryKey(),
+    orgId: text('orgId')
+      .notNull()
+      .references(() => organizations.id, { onDelete: 'cascade' }),
+    domain: text('domain').notNull(),
+    verificationToken: text('verificationToken').notNull(),
+    verifiedAt: integer('verifiedAt', { mode: 'timestamp' }),
+    policy: text('policy').default('auto-join').notNull(),
+    role: text('role'),
+    createdAt: integer('createdAt', { mode: 'timestamp' })
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (table) => ({
+    orgDomainIdx: uniqueIndex('OrgDomain_orgId_domain_key').on(table.orgId, table.domain),
+    domainIdx: index('OrgDomain_domain_idx').on(table.domain),
+  }),
+)
+
+export const orgRoles = sqliteTable(
+  'OrgRole',
+  {
+    id: text('id').primaryKey(),
+    orgId: text('orgId')
+      .notNull()
+      .references(() => organizations.id, { onDelete: 'cascade' }),
+    name: text('name').notNull(),
+    description: text('description'),
+    permissions: text('permissions').notNull(), // JSON array stored as TEXT in SQLite
+    createdAt: integer('createdAt', { mode: 'timestamp' })
+      .notNull()
+      .$defaultFn(() => new Date()),
+    updatedAt: integer('updatedAt', { mode: 'timestamp' })
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (table) => ({
+    orgRoleIdx: uniqueIndex('OrgRole_orgId_name_key').on(table.orgId, table.name),
+  }),
+)
+
 export const entitlements = sqliteTable('Entitlement', {
   id: text('id').primaryKey(),
   orgId: text('orgId')
@@ -223,6 +274,31 @@ export const entitlements = sqliteTable('Entitlement', {
     .$defaultFn(() => new Date()),
 })
 
+// API Keys
+export const apiKeys = sqliteTable(
+  'ApiKey',
+  {
+    id: text('id').primaryKey(),
+    name: text('name').notNull(),
+    prefix: text('prefix').notNull(),
+    keyHash: text('keyHash').notNull().unique(),
+    userId: text('userId')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    orgId: text('orgId').references(() => organizations.id, { onDelete: 'cascade' }),
+    permissions: text('permissions').notNull(), // JSON array stored as TEXT in SQLite
+    expiresAt: integer('expiresAt', { mode: 'timestamp' }),
+    lastUsedAt: integer('lastUsedAt', { mode: 'timestamp' }),
+    createdAt: integer('createdAt', { mode: 'timestamp' })
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (table) => ({
+    userIdx: index('ApiKey_userId_idx').on(table.userId),
+    orgIdx: index('ApiKey_orgId_idx').on(table.orgId),
+  }),
+)
+
 // JWT Refresh Tokens
 export const refreshTokens = sqliteTable(
   'RefreshToken',
@@ -270,7 +346,13 @@ export type Membership = typeof memberships.$inferSelect
 export type NewMembership = typeof memberships.$inferInsert
 export type Invite = typeof invites.$inferSelect
 export type NewInvite = typeof invites.$inferInsert
+export type OrgDomain = typeof orgDomains.$inferSelect
+export type NewOrgDomain = typeof orgDomains.$inferInsert
+export type OrgRole = typeof orgRoles.$inferSelect
+export type NewOrgRole = typeof orgRoles.$inferInsert
 export type Entitlement = typeof entitlements.$inferSelect
 export type NewEntitlement = typeof entitlements.$inferInsert
+export type ApiKey = typeof apiKeys.$inferSelect
+export type NewApiKey = typeof apiKeys.$inferInsert
 export type RefreshToken = typeof refreshTokens.$inferSelect
 export type NewRefreshToken = typeof refreshTokens.$inferInsert
@@ -5,7 +5,12 @@ export type ColumnRef = { name?: string } & Record<string, any>
 
 export type Expr =
   | { kind: 'eq'; left: any; right: any }
+  | { kind: 'ne'; left: any; right: any }
   | { kind: 'lt'; left: any; right: any }
+  | { kind: 'lte'; left: any; right: any }
+  | { kind: 'gte'; left: any; right: any }
+  | { kind: 'inArray'; left: any; values: any[] }
+  | { kind: 'or'; exprs: Expr[] }
   | { kind: 'and'; exprs: Expr[] }
   | { kind: 'isNull'; col: any }
   | { kind: 'isNotNull'; col: any }
@@ -14,10 +19,30 @@ export function eq(left: any, right: any): Expr {
   return { kind: 'eq', left, right }
 }
 
+export function ne(left: any, right: any): Expr {
+  return { kind: 'ne', left, right }
+}
+
 export function lt(left: any, right: any): Expr {
   return { kind: 'lt', left, right }
 }
 
+export function lte(left: any, right: any): Expr {
+  return { kind: 'lte', left, right }
+}
+
+export function gte(left: any, right: any): Expr {
+  return { kind: 'gte', left, right }
+}
+
+export function inArray(left: any, values: any[]): Expr {
+  return { kind: 'inArray', left, values }
+}
+
+export function or(...exprs: Expr[]): Expr {
+  return { kind: 'or', exprs }
+}
+
 export function and(...exprs: Expr[]): Expr {
   return { kind: 'and', exprs }
 }
@@ -45,6 +45,7 @@ function evalExpr(row: any, expr?: Expr): boolean {
     case 'eq': {
       const lv = getValue(row, expr.left)
       const rv = getValue(row, expr.right)
+      if (lv instanceof Date && rv instanceof Date) return lv.getTime() === rv.getTime()
       if (lv !== undefined) return lv === rv
       // fallback: if column name resolution failed, try matching by value among fields
       const src = row && row.__a ? { ...(row.__a || {}), ...(row.__b || {}) } : row
@@ -55,10 +56,23 @@ function evalExpr(row: any, expr?: Expr): boolean {
       }
       return false
     }
+    case 'ne':
+      return getValue(row, expr.left) !== getValue(row, expr.right)
     case 'lt':
       return getValue(row, expr.left) < getValue(row, expr.right)
+    case 'lte': {
+      // SQL comparisons with NULL are never true
+      const lv = getValue(row, expr.left)
+      return lv != null && lv <= getValue(row, expr.right)
+    }
+    case 'gte':
+      return getValue(row, expr.left) >= getValue(row, expr.right)
+    case 'inArray':
+      return expr.values.includes(getValue(row, expr.left))
     case 'and':
-      return expr.exprs.every((e) => evalExpr(row, e))
+      return expr.exprs.filter(Boolean).every((e) => evalExpr(row, e))
+    case 'or':
+      return expr.exprs.some((e) => evalExpr(row, e))
     case 'isNull':
       return getValue(row, expr.col) == null
     case 'isNotNull':
@@ -68,15 +82,16 @@ function evalExpr(row: any, expr?: Expr): boolean {
   }
 }
 
-function byOrder(order?: Order) {
-  if (!order) return undefined
-  const dir = order.dir
+function byOrder(orders: Order[]) {
+  if (!orders.length) return undefined
   return (a: any, b: any) => {
-    const av = getValue(a, order.col)
-    const bv = getValue(b, order.col)
-    if (av === bv) return 0
-    const cmp = av < bv ? -1 : 1
-    return dir === 'desc' ? -cmp : cmp
+    for (const order of orders) {
+      const av = getValue(a, order.col)
+      const bv = getValue(b, order.col)
+      if (av < bv) return order.dir === 'desc' ? 1 : -1
+      if (av > bv) return order.dir === 'desc' ? -1 : 1
+    }
+    return 0
   }
 }
 
@@ -110,9 +125,12 @@ function createTables() {
     organizations: [] as any[],
     memberships: [] as any[],
     invites: [] as any[],
+    orgDomains: [] as any[],
+    orgRoles: [] as any[],
     entitlements: [] as any[],
     refreshTokens: [] as any[],
     auditLogs: [] as any[],
+    apiKeys: [] as any[],
   }
 }
 
@@ -143,8 +161,11 @@ export function createInMemoryDrizzle(schema?: any) {
     if (schema.organizations) refMap.set(schema.organizations, tables.organizations)
     if (schema.memberships) refMap.set(schema.memberships, tables.memberships)
     if (schema.invites) refMap.set(schema.invites, tables.invites)
+    if (schema.orgDomains) refMap.set(schema.orgDomains, tables.orgDomains)
+    if (schema.orgRoles) refMap.set(schema.orgRoles, tables.orgRoles)
     if (schema.entitlements) refMap.set(schema.entitlements, tables.entitlements)
     if (schema.refreshTokens) refMap.set(schema.refreshTokens, tables.refreshTokens)
+    if (schema.apiKeys) refMap.set(schema.apiKeys, tables.apiKeys)
   }
 
   function tableByRef(ref: any) {
@@ -168,12 +189,18 @@ export function createInMemoryDrizzle(schema?: any) {
         return tables.memberships
       case 'Invite':
         return tables.invites
+      case 'OrgDomain':
+        return tables.orgDomains
+      case 'OrgRole':
+        return tables.orgRoles
       case 'Entitlement':
         return tables.entitlements
       case 'RefreshToken':
         return tables.refreshTokens
       case 'AuditEvent':
         return tables.auditLogs
+      case 'ApiKey':
+        return tables.apiKeys
       default:
         throw new Error('Unknown table reference')
     }
@@ -208,6 +235,16 @@ export function createInMemoryDrizzle(schema?: any) {
         if (t.some((r) => r.jti === data.jti || r.tokenHash === data.tokenHash))
           throw uniqueViolation()
         break
+      case 'apiKeys':
+        if (t.some((r) => r.keyHash === data.keyHash)) throw uniqueViolation()
+        break
+      case 'orgDomains':
+        if (t.some((r) => r.orgId === data.orgId && r.domain === data.domain))
+          throw uniqueViolation()
+        break
+      case 'orgRoles':
+        if (t.some((r) => r.orgId === data.orgId && r.name === data.name)) throw uniqueViolation()
+        break
       default:
         break
     }
@@ -231,6 +268,8 @@ export function createInMemoryDrizzle(schema?: any) {
               if (tbl === tables.organizations) row.id ||= makeId('org', next)
               if (tbl === tables.memberships) row.id ||= makeId('mem', next)
               if (tbl === tables.invites) row.id ||= makeId('inv', next)
+              if (tbl === tables.orgDomains) row.id ||= makeId('dom', next)
+              if (tbl === tables.orgRoles) row.id ||= makeId('role', next)
               if (tbl === tables.entitlements) row.id ||= makeId('ent', next)
               if (tbl === tables.verificationTokens) row.id ||= makeId('vt', next)
               row.createdAt ||= now()
@@ -278,7 +317,7 @@ export function createInMemoryDrizzle(schema?: any) {
       select(selection?: Record<string, any>) {
         let _from: any[] | null = null
         let _fromRef: any | null = null
-        let _order: Order | undefined
+        let _order: Order[] = []
         let _where: Expr | undefined
         let _joinTbl: any[] | null = null
         let _joinRef: any | null = null
@@ -363,8 +402,8 @@ export function createInMemoryDrizzle(schema?: any) {
             _where = expr
             return chain
           },
-          orderBy(order: Order) {
-            _order = order
+          orderBy(...orders: Order[]) {
+            _order = orders
             return chain
           },
           limit(n: number) {
@@ -1,10 +1,15 @@
-import type { Adapter } from "@keyloom/core";
+import type { Adapter, ApiKey, ApiKeyAdapter } from "@keyloom/core";
 import type {
   AdapterCapabilities,
   KeyloomAdapter,
 } from "@keyloom/core/adapter-types";
 import { normalizeEmail } from "@keyloom/core/adapter-types";
-import { tokenHash } from "@keyloom/core";
+import {
+  auditPageSize,
+  decodeAuditCursor,
+  toAuditPage,
+  tokenHash,
+} from "@keyloom/core";
 import { randomUUID } from "node:crypto";
 
 export interface CollectionLike {
@@ -12,6 +17,13 @@ export interface CollectionLike {
   insertOne: (doc: any) => Promise<any>;
   updateOne: (filter: any, update: any) => Promise<any>;
   deleteOne: (filter: any) => Promise<any>;
+  deleteMany: (filter: any) => Promise<{ deletedCount?: number }>;
+  find: (filter: any) => {
+    sort: (spec: any) => {
+      toArray: () => Promise<any[]>;
+      limit: (n: number) => { toArray: () => Promise<any[]> };
+    };
+  };
 }
 export interface DbLike {
   collection: (name: string) => CollectionLike;
@@ -48,6 +60,7 @@ export default function mongoAdapter(
   const Sessions = () => db.collection(coll("Session", cfg));
   const Tokens = () => db.collection(coll("VerificationToken", cfg));
   const Audit = () => db.collection(coll("AuditEvent", cfg));
+  const ApiKeys = () => db.collection(coll("ApiKey", cfg));
 
   const base: Adapter = {
     async createUser(data) {
@@ -91,12 +104,38 @@ export default function mongoAdapter(
         (await Accounts().findOne({ provider, providerAccountId })) ?? null
       );
     },
+    async getAccountsByUser(userId) {
+      return (await Accounts()
+        .find({ userId })
+        .sort({ provider: 1 })
+        .toArray()) as any[];
+    },
+    async unlinkAccount(provider, providerAccountId) {
+      await Accounts().deleteOne({ provider, providerAccountId });
+    },
+    async updateAccount(id, data) {
+      const $set: any = { updatedAt: new Date() };
+      for (const key of [
+        "accessToken",
+        "refreshToken",
+        "tokenType",
+        "expiresAt",
+        "scope",
+      ] as const) {
+        if (data[key] !== undefined) $set[key] = data[key];
+      }
+      await Accounts().updateOne({ id }, { $set });
+      return (await Accounts().findOne({ id })) as any;
+    },
 
     async createSession(s) {
       const doc = {
         id: randomUUID(),
         userId: s.userId,
         expiresAt: s.expiresAt,
+        ip: s.ip ?? null,
+        userAgent: s.userAgent ?? null,
+        lastSeenAt: s.lastSeenAt ?? new Date(),
         createdAt: new Date(),
       };
       await Sessions().insertOne(doc);
@@ -108,6 +147,23 @@ export default function mongoAdapter(
     async deleteSession(id) {
       await Sessions().deleteOne({ id });
     },
+    async updateSession(id, data) {
+      await Sessions().updateOne({ id }, { $set: data });
+      return (await Sessions().findOne({ id })) as any;
+    },
+    async listSessionsByUser(userId) {
+      return (await Sessions()
+        .find({ userId })
+        .sort({ createdAt: -1 })
+        .toArray()) as any[];
+    },
+    async deleteSessionsByUser(userId, except) {
+      const r = await Sessions().deleteMany({
+        userId,
+        ...(except ? { id: { $ne: except } } : {}),
+      });
+      return r.deletedCount ?? 0;
+    },
 
     async createVerificationToken(v) {
       const hash = await tokenHash(v.token, secret);
@@ -147,6 +203,7 @@ export default function mongoAdapter(
         id: randomUUID(),
         type: event.type,
         userId: event.userId ?? null,
+        orgId: event.orgId ?? null,
         ip: (event as any).ip ?? null,
         userAgent: (event as any).ua ?? null,
         timestamp: event.at ?? new Date(),
@@ -154,6 +211,52 @@ export default function mongoAdapter(
       };
       await Audit().insertOne(doc);
     },
+    async listAudit(query) {
+      const limit = auditPageSize(query.limit);
+      const filter: any = {};
+      if (query.userId) filter.userId = query.userId;
+      if (query.orgId) filter.orgId = query.orgId;
+      if (query.type) {
+        filter.type = Array.isArray(query.type)
+          ? { $in: query.type }
+          : query.type;
+      }
+      if (query.since || query.until) {
+        filter.timestamp = {
+          ...(query.since ? { $gte: query.since } : {}),
+          ...(query.until ? { $lt: query.until } : {}),
+        };
+      }
+      if (query.cursor) {
+        const c = decodeAuditCursor(query.cursor);
+        filter.$or = [
+          { timestamp: { $lt: c.at } },
+          { timestamp: c.at, id: { $lt: c.id } },
+        ];
+      }
+      const docs = await Audit()
+        .find(filter)
+        .sort({ timestamp: -1, id: -1 })
+        .limit(limit + 1)
+        .toArray();
+      return toAuditPage(
+        docs.map((d) => ({
+          id: d.id,
+          type: d.type,
+          userId: d.userId ?? undefined,
+          orgId: d.orgId ?? undefined,
+          ip: d.ip ?? undefined,
+          ua: d.userAgent ?? undefined,
+          at: d.timestamp,
+          meta: d.metadata ?? undefined,
+        })),
+        limit
+      );
+    },
+    async pruneAudit(before) {
+      const r = await Audit().deleteMany({ timestamp: { $lt: before } });
+      return r.deletedCount ?? 0;
+    },
   };
 
   const rbac = {
@@ -166,6 +269,18 @@ export default function mongoAdapter(
     async getOrganizationsByUser() {
       return [];
     },
+    async updateOrganization() {
+      throw new Error("RBAC not configured for raw mongo adapter");
+    },
+    async deleteOrganization() {
+      /* noop */
+    },
+    async listDeletedOrganizations() {
+      return [];
+    },
+    async getOrganizationByBillingCustomerId() {
+      return null;
+    },
     async addMember() {
       throw new Error("RBAC not configured for raw mongo adapter");
     },
@@ -190,6 +305,36 @@ export default function mongoAdapter(
     async consumeInvite() {
       /* noop */
     },
+    async listPendingInvites() {
+      return [];
+    },
+    async createOrgDomain() {
+      throw new Error("RBAC not configured for raw mongo adapter");
+    },
+    async listOrgDomains() {
+      return [];
+    },
+    async getOrgDomainsByDomain() {
+      return [];
+    },
+    async updateOrgDomain() {
+      throw new Error("RBAC not configured for raw mongo adapter");
+    },
+    async removeOrgDomain() {
+      /* noop */
+    },
+    async createOrgRole() {
+      throw new Error("RBAC not configured for raw mongo adapter");
+    },
+    async listOrgRoles() {
+      return [];
+    },
+    async updateOrgRole() {
+      throw new Error("RBAC not configured for raw mongo adapter");
+    },
+    async removeOrgRole() {
+      /* noop */
+    },
     async getEntitlements() {
       return null;
     },
@@ -198,6 +343,40 @@ export default function mongoAdapter(
     },
   };
 
+  const apiKeys: ApiKeyAdapter = {
+    async createApiKey(key) {
+      const doc: ApiKey = {
+        ...key,
+        id: randomUUID(),
+        orgId: key.orgId ?? null,
+        lastUsedAt: null,
+        createdAt: new Date(),
+      };
+      await ApiKeys().insertOne(doc);
+      return doc;
+    },
+    async getApiKeyByHash(keyHash) {
+      return (await ApiKeys().findOne({ keyHash })) ?? null;
+    },
+    async listApiKeys(owner) {
+      return (await ApiKeys()
+        .find(
+          "orgId" in owner
+            ? { orgId: owner.orgId }
+            : { userId: owner.userId, orgId: null }
+        )
+        .sort({ createdAt: -1 })
+        .toArray()) as ApiKey[];
+    },
+    async updateApiKey(id, data) {
+      await ApiKeys().updateOne({ id }, { $set: data });
+      return (await ApiKeys().findOne({ id })) as ApiKey;
+    },
+    async deleteApiKey(id) {
+      await ApiKeys().deleteOne({ id });
+    },
+  };
+
   const refreshStore = {
     async save() {
       throw new Error("Refresh tokens not configured for raw mongo adapter");
@@ -225,7 +404,7 @@ export default function mongoAdapter(
     },
   };
 
-  return Object.assign(base, rbac, refreshStore, {
+  return Object.assign(base, rbac, refreshStore, apiKeys, {
     capabilities: caps(),
     async healthCheck() {
       try {
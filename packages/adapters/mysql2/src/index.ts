@@ -1,10 +1,15 @@
-import type { Adapter } from "@keyloom/core";
+import type { Account, Adapter, ApiKey, ApiKeyAdapter } from "@keyloom/core";
 import type {
   AdapterCapabilities,
   KeyloomAdapter,
 } from "@keyloom/core/adapter-types";
 import { normalizeEmail } from "@keyloom/core/adapter-types";
-import { tokenHash } from "@keyloom/core";
+import {
+  auditPageSize,
+  decodeAuditCursor,
+  toAuditPage,
+  tokenHash,
+} from "@keyloom/core";
 
 export interface MySql2Like {
   // Should behave like mysql2/promise connection or pool
@@ -22,6 +27,37 @@ function tbl(name: string, cfg?: MySQLAdapterConfig) {
   return cfg?.database ? `\`${cfg.database}\`.\`${base}\`` : `\`${base}\``;
 }
 
+// Account token columns are snake_case; expose them under the Account field names
+function accountRow(row: any): Account | null {
+  if (!row) return null;
+  const {
+    access_token,
+    refresh_token,
+    token_type,
+    expires_at,
+    id_token,
+    session_state,
+    ...rest
+  } = row;
+  return {
+    ...rest,
+    accessToken: access_token ?? null,
+    refreshToken: refresh_token ?? null,
+    tokenType: token_type ?? null,
+    expiresAt: expires_at == null ? null : Number(expires_at),
+    idToken: id_token ?? null,
+    sessionState: session_state ?? null,
+  };
+}
+
+const ACCOUNT_TOKEN_COLUMNS = {
+  accessToken: "access_token",
+  refreshToken: "refresh_token",
+  tokenType: "token_type",
+  expiresAt: "expires_at",
+  scope: "scope",
+} as const;
+
 function caps(): AdapterCapabilities {
   return {
     transactions: true,
@@ -146,7 +182,7 @@ export default function mysql2Adapter(
           [acc.provider, acc.providerAccountId]
         )
       );
-      return r[0];
+      return accountRow(r[0]) as Account;
     },
     async getAccountByProvider(provider, providerAccountId) {
       const r = await rows(
@@ -158,15 +194,61 @@ export default function mysql2Adapter(
           [provider, providerAccountId]
         )
       );
-      return r[0] ?? null;
+      return accountRow(r[0]);
+    },
+    async getAccountsByUser(userId) {
+      const r = await rows(
+        await client.query(
+          `select * from ${tbl("Account", cfg)} where userId=?`,
+          [userId]
+        )
+      );
+      return r.map((row) => accountRow(row) as Account);
+    },
+    async updateAccount(id, data) {
+      const fields: string[] = [];
+      const values: any[] = [];
+      for (const [key, column] of Object.entries(ACCOUNT_TOKEN_COLUMNS)) {
+        const value = data[key as keyof typeof ACCOUNT_TOKEN_COLUMNS];
+        if (value === undefined) continue;
+        fields.push(`${column}=?`);
+        values.push(value);
+      }
+      fields.push("updatedAt=CURRENT_TIMESTAMP");
+      await client.query(
+        `update ${tbl("Account", cfg)} set ${fields.join(", ")} where id=?`,
+        [...values, id]
+      );
+      const r = await rows(
+        await client.query(
+          `select * from ${tbl("Account", cfg)} where id=? limit 1`,
+          [id]
+        )
+      );
+      return accountRow(r[0]) as Account;
+    },
+    async unlinkAccount(provider, providerAccountId) {
+      await client.query(
+        `delete from ${tbl(
+          "Account",
+          cfg
+        )} where provider=? and providerAccountId=?`,
+        [provider, providerAccountId]
+      );
     },
 
     async createSession(s) {
       const sql = `insert into ${tbl(
         "Session",
         cfg
-      )} (id, userId, expiresAt, createdAt) values (UUID(), ?, ?, CURRENT_TIMESTAMP)`;
-      await client.query(sql, [s.userId, s.expiresAt]);
+      )} (id, userId, expiresAt, ip, userAgent, lastSeenAt, createdAt) values (UUID(), ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)`;
+      await client.query(sql, [
+        s.userId,
+        s.expiresAt,
+        s.ip ?? null,
+        s.userAgent ?? null,
+        s.lastSeenAt ?? new Date(),
+      ]);
       const r = await rows(
         await client.query(
           `select * from ${tbl(
@@ -190,6 +272,46 @@ export default function mysql2Adapter(
     async deleteSession(id) {
       await client.query(`delete from ${tbl("Session", cfg)} where id=?`, [id]);
     },
+    async updateSession(id, data) {
+      await client.query(
+        `update ${tbl(
+          "Session",
+          cfg
+        )} set expiresAt=coalesce(?, expiresAt), lastSeenAt=coalesce(?, lastSeenAt) where id=?`,
+        [data.expiresAt ?? null, data.lastSeenAt ?? null, id]
+      );
+      const r = await rows(
+        await client.query(
+          `select * from ${tbl("Session", cfg)} where id=? limit 1`,
+          [id]
+        )
+      );
+      return r[0];
+    },
+    async listSessionsByUser(userId) {
+      return rows(
+        await client.query(
+          `select * from ${tbl(
+            "Session",
+            cfg
+          )} where userId=? order by createdAt desc`,
+          [userId]
+        )
+      );
+    },
+    async deleteSessionsByUser(userId, except) {
+      const res = except
+        ? await client.query(
+            `delete from ${tbl("Session", cfg)} where userId=? and id<>?`,
+            [userId, except]
+          )
+        : await client.query(`delete from ${tbl("Session", cfg)} where userId=?`, [
+            userId,
+          ]);
+      // mysql2 returns [ResultSetHeader, fields]
+      const header = Array.isArray(res) ? res[0] : res;
+      return header?.affectedRows ?? 0;
+    },
 
     async createVerificationToken(v) {
       const hash = await tokenHash(v.token, secret);
@@ -241,16 +363,81 @@ export default function mysql2Adapter(
       const sql = `insert into ${tbl(
         "AuditEvent",
         cfg
-      )} (id, type, userId, ip, userAgent, timestamp, metadata) values (UUID(), ?, ?, ?, ?, ?, ?)`;
+      )} (id, type, userId, orgId, ip, userAgent, timestamp, metadata) values (UUID(), ?, ?, ?, ?, ?, ?, ?)`;
       await client.query(sql, [
         event.type,
         event.userId ?? null,
+        event.orgId ?? null,
         (event as any).ip ?? null,
         (event as any).ua ?? null,
         event.at ?? new Date(),
         (event as any).meta ?? null,
       ]);
     },
+    async listAudit(query) {
+      const limit = auditPageSize(query.limit);
+      const where: string[] = [];
+      const params: unknown[] = [];
+      if (query.userId) {
+        where.push("userId=?");
+        params.push(query.userId);
+      }
+      if (query.orgId) {
+        where.push("orgId=?");
+        params.push(query.orgId);
+      }
+      if (query.type) {
+        const types = Array.isArray(query.type) ? query.type : [query.type];
+        if (!types.length) return { items: [], nextCursor: null };
+        where.push(`type in (${types.map(() => "?").join(", ")})`);
+        params.push(...types);
+      }
+      if (query.since) {
+        where.push("timestamp >= ?");
+        params.push(query.since);
+      }
+      if (query.until) {
+        where.push("timestamp < ?");
+        params.push(query.until);
+      }
+      if (query.cursor) {
+        const c = decodeAuditCursor(query.cursor);
+        where.push("(timestamp < ? or (timestamp = ? and id < ?))");
+        params.push(c.at, c.at, c.id);
+      }
+      const r = await rows(
+        await client.query(
+          `select * from ${tbl("AuditEvent", cfg)}${
+            where.length ? ` where ${where.join(" and ")}` : ""
+          } order by timestamp desc, id desc limit ?`,
+          [...params, limit + 1]
+        )
+      );
+      return toAuditPage(
+        r.map((row) => ({
+          id: row.id,
+          type: row.type,
+          userId: row.userId ?? undefined,
+          orgId: row.orgId ?? undefined,
+          ip: row.ip ?? undefined,
+          ua: row.userAgent ?? undefined,
+          at: row.timestamp,
+          meta:
+            typeof row.metadata === "string"
+              ? JSON.parse(row.metadata)
+              : row.metadata ?? undefined,
+        })),
+        limit
+      );
+    },
+    async pruneAudit(before) {
+      const res = await client.query(
+        `delete from ${tbl("AuditEvent", cfg)} where timestamp < ?`,
+        [before]
+      );
+      const header = Array.isArray(res) ? res[0] : res;
+      return header?.affectedRows ?? 0;
+    },
   };
 
   const rbac = {
@@ -263,6 +450,18 @@ export default function mysql2Adapter(
     async getOrganizationsByUser() {
       return [];
     },
+    async updateOrganization() {
+      throw new Error("RBAC not configured for raw mysql adapter");
+    },
+    async deleteOrganization() {
+      /* noop */
+    },
+    async listDeletedOrganizations() {
+      return [];
+    },
+    async getOrganizationByBillingCustomerId() {
+      return null;
+    },
     async addMember() {
       throw new Error("RBAC not configured for raw mysql adapter");
     },
@@ -287,6 +486,36 @@ export default function mysql2Adapter(
     async consumeInvite() {
       /* noop */
     },
+    async listPendingInvites() {
+      return [];
+    },
+    async createOrgDomain() {
+      throw new Error("RBAC not configured for raw mysql adapter");
+    },
+    async listOrgDomains() {
+      return [];
+    },
+    async getOrgDomainsByDomain() {
+      return [];
+    },
+    async updateOrgDomain() {
+      throw new Error("RBAC not configured for raw mysql adapter");
+    },
+    async removeOrgDomain() {
+      /* noop */
+    },
+    async createOrgRole() {
+      throw new Error("RBAC not configured for raw mysql adapter");
+    },
+    async listOrgRoles() {
+      return [];
+    },
+    async updateOrgRole() {
+      throw new Error("RBAC not configured for raw mysql adapter");
+    },
+    async removeOrgRole() {
+      /* noop */
+    },
     async getEntitlements() {
       return null;
     },
@@ -295,6 +524,93 @@ export default function mysql2Adapter(
     },
   };
 
+  const toApiKey = (row: any): ApiKey => ({
+    id: row.id,
+    name: row.name,
+    prefix: row.prefix,
+    keyHash: row.keyHash,
+    userId: row.userId,
+    orgId: row.orgId ?? null,
+    permissions:
+      typeof row.permissions === "string"
+        ? JSON.parse(row.permissions)
+        : row.permissions ?? [],
+    expiresAt: row.expiresAt ?? null,
+    lastUsedAt: row.lastUsedAt ?? null,
+    createdAt: row.createdAt,
+  });
+
+  const apiKeys: ApiKeyAdapter = {
+    async createApiKey(key) {
+      await client.query(
+        `insert into ${tbl(
+          "ApiKey",
+          cfg
+        )} (id, name, prefix, keyHash, userId, orgId, permissions, expiresAt, createdAt) values (UUID(), ?, ?, ?, ?, ?, ?, ?, now())`,
+        [
+          key.name,
+          key.prefix,
+          key.keyHash,
+          key.userId,
+          key.orgId ?? null,
+          JSON.stringify(key.permissions),
+          key.expiresAt ?? null,
+        ]
+      );
+      const created = await apiKeys.getApiKeyByHash(key.keyHash);
+      if (!created) throw new Error("Failed to create API key");
+      return created;
+    },
+    async getApiKeyByHash(keyHash) {
+      const r = await rows(
+        await client.query(
+          `select * from ${tbl("ApiKey", cfg)} where keyHash=? limit 1`,
+          [keyHash]
+        )
+      );
+      return r[0] ? toApiKey(r[0]) : null;
+    },
+    async listApiKeys(owner) {
+      const r = await rows(
+        "orgId" in owner
+          ? await client.query(
+              `select * from ${tbl(
+                "ApiKey",
+                cfg
+              )} where orgId=? order by createdAt desc`,
+              [owner.orgId]
+            )
+          : await client.query(
+              `select * from ${tbl(
+                "ApiKey",
+                cfg
+              )} where userId=? and orgId is null order by createdAt desc`,
+              [owner.userId]
+            )
+      );
+      return r.map(toApiKey);
+    },
+    async updateApiKey(id, data) {
+      await client.query(
+        `update ${tbl(
+          "ApiKey",
+          cfg
+        )} set name=coalesce(?, name), lastUsedAt=coalesce(?, lastUsedAt) where id=?`,
+        [data.name ?? null, data.lastUsedAt ?? null, id]
+      );
+      const r = await rows(
+        await client.query(
+          `select * from ${tbl("ApiKey", cfg)} where id=? limit 1`,
+          [id]
+        )
+      );
+      return toApiKey(r[0]);
+    },
+    async deleteApiKey(id) {
+      await client.query(`delete from ${tbl("ApiKey", cfg)} where id=?`, [id]);
+    },
+  };
+
   const refreshStore = {
     async save() {
       throw new Error("Refresh tokens not configured for raw mysql adapter");
@@ -322,7 +638,7 @@ export default function mysql2Adapter(
     },
   };
 
-  return Object.assign(base, rbac, refreshStore, {
+  return Object.assign(base, rbac, refreshStore, apiKeys, {
     capabilities: caps(),
     async healthCheck() {
       try {
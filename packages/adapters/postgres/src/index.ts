@@ -1,10 +1,15 @@
-import type { Adapter } from "@keyloom/core";
+import type { Account, Adapter, ApiKey, ApiKeyAdapter } from "@keyloom/core";
 import type {
   AdapterCapabilities,
   KeyloomAdapter,
 } from "@keyloom/core/adapter-types";
 import { normalizeEmail } from "@keyloom/core/adapter-types";
-import { tokenHash } from "@keyloom/core";
+import {
+  auditPageSize,
+  decodeAuditCursor,
+  toAuditPage,
+  tokenHash,
+} from "@keyloom/core";
 
 /**
  * Lightweight PostgreSQL adapter that relies on an injected client with a `query(sql, params)` API.
@@ -28,6 +33,37 @@ function tbl(name: string, cfg?: PostgresAdapterConfig) {
   return cfg?.schema ? `${cfg.schema}."${base}"` : `"${base}"`;
 }
 
+// Account token columns are snake_case; expose them under the Account field names
+function accountRow(row: any): Account | null {
+  if (!row) return null;
+  const {
+    access_token,
+    refresh_token,
+    token_type,
+    expires_at,
+    id_token,
+    session_state,
+    ...rest
+  } = row;
+  return {
+    ...rest,
+    accessToken: access_token ?? null,
+    refreshToken: refresh_token ?? null,
+    tokenType: token_type ?? null,
+    expiresAt: expires_at == null ? null : Number(expires_at),
+    idToken: id_token ?? null,
+    sessionState: session_state ?? null,
+  };
+}
+
+const ACCOUNT_TOKEN_COLUMNS = {
+  accessToken: "access_token",
+  refreshToken: "refresh_token",
+  tokenType: "token_type",
+  expiresAt: "expires_at",
+  scope: "scope",
+} as const;
+
 function caps(): AdapterCapabilities {
   return {
     transactions: true,
@@ -124,7 +160,7 @@ export default function postgresAdapter(
         (acc as any).idToken ?? null,
         (acc as any).sessionState ?? null,
       ]);
-      return r.rows[0];
+      return accountRow(r.rows[0]) as Account;
     },
     async getAccountByProvider(provider, providerAccountId) {
       const r = await client.query(
@@ -134,7 +170,42 @@ export default function postgresAdapter(
         )} where provider=$1 and "providerAccountId"=$2 limit 1`,
         [provider, providerAccountId]
       );
-      return r.rows[0] ?? null;
+      return accountRow(r.rows[0]);
+    },
+    async getAccountsByUser(userId) {
+      const r = await client.query(
+        `select * from ${tbl("Account", cfg)} where "userId"=$1`,
+        [userId]
+      );
+      return r.rows.map((row) => accountRow(row) as Account);
+    },
+    async updateAccount(id, data) {
+      const fields: string[] = [];
+      const values: any[] = [];
+      let i = 1;
+      for (const [key, column] of Object.entries(ACCOUNT_TOKEN_COLUMNS)) {
+        const value = data[key as keyof typeof ACCOUNT_TOKEN_COLUMNS];
+        if (value === undefined) continue;
+        fields.push(`${column}=$${i++}`);
+        values.push(value);
+      }
+      fields.push(`"updatedAt"=now()`);
+      const r = await client.query(
+        `update ${tbl("Account", cfg)} set ${fields.join(
+          ", "
+        )} where id=$${i} returning *`,
+        [...values, id]
+      );
+      return accountRow(r.rows[0]) as Account;
+    },
+    async unlinkAccount(provider, providerAccountId) {
+      await client.query(
+        `delete from ${tbl(
+          "Account",
+          cfg
+        )} where provider=$1 and "providerAccountId"=$2`,
+        [provider, providerAccountId]
+      );
     },
 
     // Sessions
@@ -142,9 +213,15 @@ export default function postgresAdapter(
       const sql = `insert into ${tbl(
         "Session",
         cfg
-      )} (id, "userId", "expiresAt", "createdAt")
-                   values (gen_random_uuid()::text, $1, $2, now()) returning *`;
-      const r = await client.query(sql, [s.userId, s.expiresAt]);
+      )} (id, "userId", "expiresAt", ip, "userAgent", "lastSeenAt", "createdAt")
+                   values (gen_random_uuid()::text, $1, $2, $3, $4, $5, now()) returning *`;
+      const r = await client.query(sql, [
+        s.userId,
+        s.expiresAt,
+        s.ip ?? null,
+        s.userAgent ?? null,
+        s.lastSeenAt ?? new Date(),
+      ]);
       return r.rows[0];
     },
     async getSession(id) {
@@ -159,6 +236,39 @@ export default function postgresAdapter(
         id,
       ]);
     },
+    async updateSession(id, data) {
+      const r = await client.query(
+        `update ${tbl(
+          "Session",
+          cfg
+        )} set "expiresAt"=coalesce($2, "expiresAt"), "lastSeenAt"=coalesce($3, "lastSeenAt")
+         where id=$1 returning *`,
+        [id, data.expiresAt ?? null, data.lastSeenAt ?? null]
+      );
+      return r.rows[0];
+    },
+    async listSessionsByUser(userId) {
+      const r = await client.query(
+        `select * from ${tbl(
+          "Session",
+          cfg
+        )} where "userId"=$1 order by "createdAt" desc`,
+        [userId]
+      );
+      return r.rows;
+    },
+    async deleteSessionsByUser(userId, except) {
+      const r = except
+        ? await client.query(
+            `delete from ${tbl("Session", cfg)} where "userId"=$1 and id<>$2`,
+            [userId, except]
+          )
+        : await client.query(
+            `delete from ${tbl("Session", cfg)} where "userId"=$1`,
+            [userId]
+          );
+      return r.rowCount ?? 0;
+    },
 
     // Verification tokens (store hash at rest)
     async createVerificationToken(v) {
@@ -205,17 +315,69 @@ export default function postgresAdapter(
       const sql = `insert into ${tbl(
         "AuditEvent",
         cfg
-      )} (id, type, "userId", ip, "userAgent", timestamp, metadata)
-                   values (gen_random_uuid()::text, $1, $2, $3, $4, $5, $6)`;
+      )} (id, type, "userId", "orgId", ip, "userAgent", timestamp, metadata)
+                   values (gen_random_uuid()::text, $1, $2, $3, $4, $5, $6, $7)`;
       await client.query(sql, [
         event.type,
         event.userId ?? null,
+        event.orgId ?? null,
         (event as any).ip ?? null,
         (event as any).ua ?? null,
         event.at ?? new Date(),
         (event as any).meta ?? null,
       ]);
     },
+    async listAudit(query) {
+      const limit = auditPageSize(query.limit);
+      const where: string[] = [];
+      const params: unknown[] = [];
+      const p = (v: unknown) => {
+        params.push(v);
+        return `$${params.length}`;
+      };
+      if (query.userId) where.push(`"userId"=${p(query.userId)}`);
+      if (query.orgId) where.push(`"orgId"=${p(query.orgId)}`);
+      if (query.type) {
+        where.push(
+          Array.isArray(query.type)
+            ? `type = any(${p(query.type)})`
+            : `type=${p(query.type)}`
+        );
+      }
+      if (query.since) where.push(`timestamp >= ${p(query.since)}`);
+      if (query.until) where.push(`timestamp < ${p(query.until)}`);
+      if (query.cursor) {
+        const c = decodeAuditCursor(query.cursor);
+        const at = p(c.at);
+        where.push(`(timestamp < ${at} or (timestamp = ${at} and id < ${p(c.id)}))`);
+      }
+      const r = await client.query(
+        `select * from ${tbl("AuditEvent", cfg)}${
+          where.length ? ` where ${where.join(" and ")}` : ""
+        } order by timestamp desc, id desc limit ${p(limit + 1)}`,
+        params
+      );
+      return toAuditPage(
+        r.rows.map((row) => ({
+          id: row.id,
+          type: row.type,
+          userId: row.userId ?? undefined,
+          orgId: row.orgId ?? undefined,
+          ip: row.ip ?? undefined,
+          ua: row.userAgent ?? undefined,
+          at: row.timestamp,
+          meta: row.metadata ?? undefined,
+        })),
+        limit
+      );
+    },
+    async pruneAudit(before) {
+      const r = await client.query(
+        `delete from ${tbl("AuditEvent", cfg)} where timestamp < $1`,
+        [before]
+      );
+      return r.rowCount ?? 0;
+    },
   };
 
   const rbac = {
@@ -228,6 +390,18 @@ export default function postgresAdapter(
     async getOrganizationsByUser() {
       return [];
     },
+    async updateOrganization() {
+      throw new Error("RBAC not configured for raw postgres adapter");
+    },
+    async deleteOrganization() {
+      /* noop */
+    },
+    async listDeletedOrganizations() {
+      return [];
+    },
+    async getOrganizationByBillingCustomerId() {
+      return null;
+    },
     async addMember() {
       throw new Error("RBAC not configured for raw postgres adapter");
     },
@@ -252,6 +426,36 @@ export default function postgresAdapter(
     async consumeInvite() {
       /* noop */
     },
+    async listPendingInvites() {
+      return [];
+    },
+    async createOrgDomain() {
+      throw new Error("RBAC not configured for raw postgres adapter");
+    },
+    async listOrgDomains() {
+      return [];
+    },
+    async getOrgDomainsByDomain() {
+      return [];
+    },
+    async updateOrgDomain() {
+      throw new Error("RBAC not configured for raw postgres adapter");
+    },
+    async removeOrgDomain() {
+      /* noop */
+    },
+    async createOrgRole() {
+      throw new Error("RBAC not configured for raw postgres adapter");
+    },
+    async listOrgRoles() {
+      return [];
+    },
+    async updateOrgRole() {
+      throw new Error("RBAC not configured for raw postgres adapter");
+    },
+    async removeOrgRole() {
+      /* noop */
+    },
     async getEntitlements() {
       return null;
     },
@@ -260,6 +464,76 @@ export default function postgresAdapter(
     },
   };
 
+  const toApiKey = (row: any): ApiKey => ({
+    id: row.id,
+    name: row.name,
+    prefix: row.prefix,
+    keyHash: row.keyHash,
+    userId: row.userId,
+    orgId: row.orgId ?? null,
+    permissions: row.permissions ?? [],
+    expiresAt: row.expiresAt ?? null,
+    lastUsedAt: row.lastUsedAt ?? null,
+    createdAt: row.createdAt,
+  });
+
+  const apiKeys: ApiKeyAdapter = {
+    async createApiKey(key) {
+      const r = await client.query(
+        `insert into ${tbl(
+          "ApiKey",
+          cfg
+        )} (id, name, prefix, "keyHash", "userId", "orgId", permissions, "expiresAt", "createdAt") values (gen_random_uuid()::text, $1, $2, $3, $4, $5, $6, $7, now()) returning *`,
+        [
+          key.name,
+          key.prefix,
+          key.keyHash,
+          key.userId,
+          key.orgId ?? null,
+          JSON.stringify(key.permissions),
+          key.expiresAt ?? null,
+        ]
+      );
+      return toApiKey(r.rows[0]);
+    },
+    async getApiKeyByHash(keyHash) {
+      const r = await client.query(
+        `select * from ${tbl("ApiKey", cfg)} where "keyHash"=$1 limit 1`,
+        [keyHash]
+      );
+      return r.rows[0] ? toApiKey(r.rows[0]) : null;
+    },
+    async listApiKeys(owner) {
+      const r =
+        "orgId" in owner
+          ? await client.query(
+              `select * from ${tbl("ApiKey", cfg)} where "orgId"=$1 order by "createdAt" desc`,
+              [owner.orgId]
+            )
+          : await client.query(
+              `select * from ${tbl(
+                "ApiKey",
+                cfg
+              )} where "userId"=$1 and "orgId" is null order by "createdAt" desc`,
+              [owner.userId]
+            );
+      return r.rows.map(toApiKey);
+    },
+    async updateApiKey(id, data) {
+      const r = await client.query(
+        `update ${tbl(
+          "ApiKey",
+          cfg
+        )} set name=coalesce($2, name), "lastUsedAt"=coalesce($3, "lastUsedAt") where id=$1 returning *`,
+        [id, data.name ?? null, data.lastUsedAt ?? null]
+      );
+      return toApiKey(r.rows[0]);
+    },
+    async deleteApiKey(id) {
+      await client.query(`delete from ${tbl("ApiKey", cfg)} where id=$1`, [id]);
+    },
+  };
+
   const refreshStore = {
     async save() {
       throw new Error("Refresh tokens not configured for raw postgres adapter");
@@ -287,7 +561,7 @@ export default function postgresAdapter(
     },
   };
 
-  return Object.assign(base, rbac, refreshStore, {
+  return Object.assign(base, rbac, refreshStore, apiKeys, {
     capabilities: caps(),
     async healthCheck() {
       try {
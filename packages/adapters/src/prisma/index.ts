@@ -1,12 +1,25 @@
 import type {
   Account,
+  AccountTokens,
   Adapter,
+  ApiKey,
+  ApiKeyAdapter,
   AuditEvent,
+  AuditLog,
+  AuditQuery,
+  AuthKey,
+  AuthKeyAdapter,
   ID,
+  KeystoreAdapter,
+  KeystoreRecord,
   Session,
   User,
   VerificationToken,
+  WebhookEvent,
+  WebhookEventAdapter,
+  WebhookEventQuery,
 } from '@keyloom/core'
+import { auditPageSize, decodeAuditCursor, toAuditPage } from '@keyloom/core'
 // Keep types loose to avoid requiring generated Prisma client at build time
 export type AnyPrismaClient = any
 
@@ -30,6 +43,58 @@ function trimHyphens(input: string): string {
   return input.slice(start, end + 1)
 }
 
+// The AuthKey model has a single key-material column; the keyId prefix tells the key types apart
+function toApiKey(k: any): ApiKey {
+  return {
+    id: k.id as ID,
+    name: k.name,
+    prefix: k.prefix,
+    keyHash: k.keyHash,
+    userId: k.userId as ID,
+    orgId: k.orgId ?? null,
+    permissions: Array.isArray(k.permissions) ? k.permissions : [],
+    expiresAt: k.expiresAt ?? null,
+    lastUsedAt: k.lastUsedAt ?? null,
+    createdAt: k.createdAt,
+  }
+}
+
+function toAuthKey(k: any): AuthKey {
+  const keyId = String(k.keyId)
+  const type = keyId.startsWith('totp:')
+    ? 'totp'
+    : keyId.startsWith('recovery:')
+      ? 'recovery'
+      : 'webauthn'
+  return {
+    id: k.id as ID,
+    userId: k.userId as ID,
+    type,
+    keyId,
+    ...(type === 'totp' ? { secret: k.publicKey } : type === 'webauthn' ? { publicKey: k.publicKey } : {}),
+    counter: k.counter,
+    createdAt: k.createdAt,
+  }
+}
+
+function toWebhookEvent(e: any): WebhookEvent {
+  return {
+    id: e.id,
+    provider: e.provider,
+    type: e.type,
+    objectId: e.objectId ?? null,
+    occurredAt: e.occurredAt,
+    payload: e.payload,
+    status: e.status,
+    attempts: e.attempts,
+    lastError: e.lastError ?? null,
+    nextAttemptAt: e.nextAttemptAt ?? null,
+    processedAt: e.processedAt ?? null,
+    createdAt: e.createdAt,
+    updatedAt: e.updatedAt,
+  }
+}
+
 export function prismaAdapter(prisma: AnyPrismaClient): Adapter & {
   // credentials extension:
   createCredential(userId: ID, hash: string): Promise<{ id: ID; userId: ID }>
@@ -39,6 +104,18 @@ export function prismaAdapter(prisma: AnyPrismaClient): Adapter & {
   createOrganization?: (data: { name: string; slug?: string | null }) => Promise<any>
   getOrganization?: (id: ID) => Promise<any | null>
   getOrganizationsByUser?: (userId: ID) => Promise<any[]>
+  updateOrganization?: (
+    id: ID,
+    data: Partial<{
+      name: string
+      slug: string | null
+      deletedAt: Date | null
+      billingCustomerId: string | null
+    }>,
+  ) => Promise<any>
+  getOrganizationByBillingCustomerId?: (customerId: string) => Promise<any | null>
+  deleteOrganization?: (id: ID) => Promise<void>
+  listDeletedOrganizations?: (before: Date) => Promise<any[]>
   addMember?: (data: { userId: ID; orgId: ID; role: string }) => Promise<any>
   updateMember?: (id: ID, data: Partial<{ role: string; status: string }>) => Promise<any>
   removeMember?: (id: ID) => Promise<void>
@@ -53,15 +130,46 @@ export function prismaAdapter(prisma: AnyPrismaClient): Adapter & {
   }) => Promise<any>
   getInviteByTokenHash?: (orgId: ID, tokenHash: string) => Promise<any | null>
   consumeInvite?: (inviteId: ID) => Promise<void>
+  listPendingInvites?: (orgId: ID) => Promise<any[]>
+  createOrgDomain?: (data: {
+    orgId: ID
+    domain: string
+    verificationToken: string
+    policy?: string
+    role?: string | null
+  }) => Promise<any>
+  listOrgDomains?: (orgId: ID) => Promise<any[]>
+  getOrgDomainsByDomain?: (domain: string) => Promise<any[]>
+  updateOrgDomain?: (
+    id: ID,
+    data: Partial<{ verifiedAt: Date | null; policy: string; role: string | null }>,
+  ) => Promise<any>
+  removeOrgDomain?: (id: ID) => Promise<void>
+  createOrgRole?: (data: {
+    orgId: ID
+    name: string
+    description?: string | null
+    permissions: string[]
+  }) => Promise<any>
+  listOrgRoles?: (orgId: ID) => Promise<any[]>
+  updateOrgRole?: (
+    id: ID,
+    data: Partial<{ description: string | null; permissions: string[] }>,
+  ) => Promise<any>
+  removeOrgRole?: (id: ID) => Promise<void>
   getEntitlements?: (orgId: ID) => Promise<any | null>
   setEntitlements?: (orgId: ID, ent: any) => Promise<void>
+  withOrgLock?: <T>(orgId: ID, fn: (adapter: any) => Promise<T>) => Promise<T>
   // Global Roles extension
   assignGlobalRole?: (data: { userId: ID; role: string }) => Promise<any>
   updateGlobalRole?: (id: ID, data: Partial<{ role: string; status: string }>) => Promise<any>
   removeGlobalRole?: (id: ID) => Promise<void>
   getUserGlobalRole?: (userId: ID) => Promise<any | null>
   listUsersWithGlobalRole?: (role: string) => Promise<any[]>
-} {
+} & AuthKeyAdapter &
+  ApiKeyAdapter &
+  WebhookEventAdapter &
+  KeystoreAdapter {
   return {
     // Users
     async createUser(data: Partial<User>) {
@@ -132,6 +240,21 @@ export function prismaAdapter(prisma: AnyPrismaClient): Adapter & {
       })
       return (a as unknown as Account | null) ?? null
     },
+    async getAccountsByUser(userId: ID) {
+      const rows = await prisma.account.findMany({ where: { userId } })
+      return rows as unknown as Account[]
+    },
+    async unlinkAccount(provider: string, providerAccountId: string) {
+      await prisma.account.deleteMany({ where: { provider, providerAccountId } })
+    },
+    async updateAccount(id: ID, data: Partial<AccountTokens>) {
+      try {
+        const a = await prisma.account.update({ where: { id }, data })
+        return a as unknown as Account
+      } catch (e) {
+        throw mapPrismaError(e)
+      }
+    },
 
     // Sessions
     async createSession(s: Omit<Session, 'id' | 'createdAt' | 'updatedAt'>) {
@@ -139,6 +262,9 @@ export function prismaAdapter(prisma: AnyPrismaClient): Adapter & {
         data: {
           userId: s.userId,
           expiresAt: (s as any).expiresAt,
+          ip: s.ip ?? null,
+          userAgent: s.userAgent ?? null,
+          lastSeenAt: s.lastSeenAt ?? new Date(),
         },
       })
       return sess as unknown as Session
@@ -150,6 +276,23 @@ export function prismaAdapter(prisma: AnyPrismaClient): Adapter & {
     async deleteSession(id: ID) {
       await prisma.session.delete({ where: { id } }).catch(() => {})
     },
+    async updateSession(id: ID, data: Partial<Pick<Session, 'expiresAt' | 'lastSeenAt'>>) {
+      const sess = await prisma.session.update({ where: { id }, data })
+      return sess as unknown as Session
+    },
+    async listSessionsByUser(userId: ID) {
+      const rows = await prisma.session.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+      })
+      return rows as unknown as Session[]
+    },
+    async deleteSessionsByUser(userId: ID, except?: ID) {
+      const res = await prisma.session.deleteMany({
+        where: { userId, ...(except ? { id: { not: except } } : {}) },
+      })
+      return res.count as number
+    },
 
     // Tokens
     async createVerificationToken(v: Omit<VerificationToken, 'id' | 'createdAt' | 'consumedAt'>) {
@@ -202,9 +345,47 @@ export function prismaAdapter(prisma: AnyPrismaClient): Adapter & {
           ua: (event as any).ua ?? null,
           at: event.at ?? new Date(),
           meta: (event.meta as unknown) ?? null,
+          orgId: event.orgId ?? null,
         },
       })
     },
+    async listAudit(query: AuditQuery) {
+      const limit = auditPageSize(query.limit)
+      const and: Record<string, unknown>[] = []
+      if (query.userId) and.push({ userId: query.userId })
+      if (query.orgId) and.push({ orgId: query.orgId })
+      if (query.type)
+        and.push({ type: Array.isArray(query.type) ? { in: query.type } : query.type })
+      if (query.since) and.push({ at: { gte: query.since } })
+      if (query.until) and.push({ at: { lt: query.until } })
+      if (query.cursor) {
+        const c = decodeAuditCursor(query.cursor)
+        and.push({ OR: [{ at: { lt: c.at } }, { at: c.at, id: { lt: c.id } }] })
+      }
+      const rows = await prisma.auditLog.findMany({
+        where: { AND: and },
+        orderBy: [{ at: 'desc' }, { id: 'desc' }],
+        take: limit + 1,
+      })
+      return toAuditPage(
+        rows.map((r: any) => ({
+          id: r.id,
+          type: r.type,
+          userId: r.userId ?? undefined,
+          actorId: r.actorId ?? undefined,
+          orgId: r.orgId ?? undefined,
+          ip: r.ip ?? undefined,
+          ua: r.ua ?? undefined,
+          at: r.at,
+          meta: r.meta ?? undefined,
+        })) as AuditLog[],
+        limit,
+      )
+    },
+    async pruneAudit(before: Date) {
+      const res = await prisma.auditLog.deleteMany({ where: { at: { lt: before } } })
+      return res.count as number
+    },
 
     // RBAC (best-effort implementation; requires corresponding Prisma schema)
     async createOrganization(data: { name: string; slug?: string | null }) {
@@ -250,10 +431,38 @@ export function prismaAdapter(prisma: AnyPrismaClient): Adapter & {
       const orgIds = Array.from(new Set(memberships.map((m: any) => m.orgId)))
       if (orgIds.length === 0) return []
       const orgs = await prisma.organization.findMany({
-        where: { id: { in: orgIds } },
+        where: { id: { in: orgIds }, deletedAt: null },
       })
       return orgs
     },
+    async updateOrganization(
+      id: ID,
+      data: Partial<{
+        name: string
+        slug: string | null
+        deletedAt: Date | null
+        billingCustomerId: string | null
+      }>,
+    ) {
+      try {
+        return await prisma.organization.update({ where: { id }, data })
+      } catch (e) {
+        throw mapPrismaError(e)
+      }
+    },
+    async getOrganizationByBillingCustomerId(customerId: string) {
+      return prisma.organization.findUnique({ where: { billingCustomerId: customerId } })
+    },
+    async deleteOrganization(id: ID) {
+      // Org API keys, memberships, invites, domains, roles and entitlements cascade in the schema
+      await prisma.organization.delete({ where: { id } }).catch((e: unknown) => {
+        // Already gone (P2025) is fine
+        if ((e as { code?: string }).code !== 'P2025') throw mapPrismaError(e)
+      })
+    },
+    async listDeletedOrganizations(before: Date) {
+      return prisma.organization.findMany({ where: { deletedAt: { not: null, lte: before } } })
+    },
     async addMember(data: { userId: ID; orgId: ID; role: string }) {
       const existing = await prisma.membership
         .findUnique({
@@ -394,6 +603,76 @@ export function prismaAdapter(prisma: AnyPrismaClient): Adapter & {
         }
       } catch {}
     },
+    async listPendingInvites(orgId: ID) {
+      return prisma.invite.findMany({ where: { orgId, acceptedAt: null } })
+    },
+    async createOrgDomain(data: {
+      orgId: ID
+      domain: string
+      verificationToken: string
+      policy?: string
+      role?: string | null
+    }) {
+      try {
+        return await prisma.orgDomain.create({
+          data: {
+            orgId: data.orgId,
+            domain: data.domain,
+            verificationToken: data.verificationToken,
+            policy: data.policy ?? 'auto-join',
+            role: data.role ?? null,
+          },
+        })
+      } catch (e) {
+        throw mapPrismaError(e)
+      }
+    },
+    async listOrgDomains(orgId: ID) {
+      return prisma.orgDomain.findMany({ where: { orgId }, orderBy: { createdAt: 'asc' } })
+    },
+    async getOrgDomainsByDomain(domain: string) {
+      return prisma.orgDomain.findMany({ where: { domain } })
+    },
+    async updateOrgDomain(
+      id: ID,
+      data: Partial<{ verifiedAt: Date | null; policy: string; role: string | null }>,
+    ) {
+      return prisma.orgDomain.update({ where: { id }, data })
+    },
+    async removeOrgDomain(id: ID) {
+      await prisma.orgDomain.delete({ where: { id } }).catch(() => {})
+    },
+    async createOrgRole(data: {
+      orgId: ID
+      name: string
+      description?: string | null
+      permissions: string[]
+    }) {
+      try {
+        return await prisma.orgRole.create({
+          data: {
+            orgId: data.orgId,
+            name: data.name,
+            description: data.description ?? null,
+            permissions: data.permissions,
+          },
+        })
+      } catch (e) {
+        throw mapPrismaError(e)
+      }
+    },
+    async listOrgRoles(orgId: ID) {
+      return prisma.orgRole.findMany({ where: { orgId }, orderBy: { createdAt: 'asc' } })
+    },
+    async updateOrgRole(
+      id: ID,
+      data: Partial<{ description: string | null; permissions: string[] }>,
+    ) {
+      return prisma.orgRole.update({ where: { id }, data })
+    },
+    async removeOrgRole(id: ID) {
+      await prisma.orgRole.delete({ where: { id } }).catch(() => {})
+    },
     async getEntitlements(orgId: ID) {
       const ent = await prisma.entitlement.findUnique({ where: { orgId } }).catch(() => null)
       return ent ?? null
@@ -405,6 +684,13 @@ export function prismaAdapter(prisma: AnyPrismaClient): Adapter & {
         create: { orgId, ...ent },
       })
     },
+    async withOrgLock<T>(orgId: ID, fn: (adapter: any) => Promise<T>): Promise<T> {
+      return prisma.$transaction(async (tx: AnyPrismaClient) => {
+        // Touching the org row holds its write lock until the transaction ends
+        await tx.organization.update({ where: { id: orgId }, data: { updatedAt: new Date() } })
+        return fn(prismaAdapter(tx))
+      })
+    },
 
     // Credentials extension
     async createCredential(userId: ID, hash: string) {
@@ -419,6 +705,154 @@ export function prismaAdapter(prisma: AnyPrismaClient): Adapter & {
       await prisma.credential.update({ where: { userId }, data: { hash } })
     },
 
+    // Authenticator keys (passkeys, TOTP, recovery codes)
+    async createAuthKey(key: Omit<AuthKey, 'id' | 'createdAt'>) {
+      try {
+        const k = await prisma.authKey.create({
+          data: {
+            userId: key.userId,
+            keyId: key.keyId,
+            publicKey: key.publicKey ?? key.secret ?? '',
+            counter: key.counter ?? 0,
+          },
+        })
+        return toAuthKey(k)
+      } catch (e) {
+        throw mapPrismaError(e)
+      }
+    },
+    async getAuthKeyByKeyId(keyId: string) {
+      const k = await prisma.authKey.findFirst({ where: { keyId } })
+      return k ? toAuthKey(k) : null
+    },
+    async listAuthKeysByUser(userId: ID) {
+      const keys = await prisma.authKey.findMany({ where: { userId } })
+      return keys.map(toAuthKey)
+    },
+    async updateAuthKey(id: ID, data: Partial<Pick<AuthKey, 'counter' | 'label'>>) {
+      const k = await prisma.authKey.update({
+        where: { id },
+        data: data.counter !== undefined ? { counter: data.counter } : {},
+      })
+      return toAuthKey(k)
+    },
+    async deleteAuthKey(id: ID) {
+      await prisma.authKey.delete({ where: { id } }).catch(() => {})
+    },
+
+    // API keys
+    async createApiKey(key: Omit<ApiKey, 'id' | 'createdAt' | 'lastUsedAt'>) {
+      try {
+        const k = await prisma.apiKey.create({
+          data: {
+            name: key.name,
+            prefix: key.prefix,
+            keyHash: key.keyHash,
+            userId: key.userId,
+            orgId: key.orgId ?? null,
+            permissions: key.permissions,
+            expiresAt: key.expiresAt,
+          },
+        })
+        return toApiKey(k)
+      } catch (e) {
+        throw mapPrismaError(e)
+      }
+    },
+    async getApiKeyByHash(keyHash: string) {
+      const k = await prisma.apiKey.findUnique({ where: { keyHash } })
+      return k ? toApiKey(k) : null
+    },
+    async listApiKeys(owner: { userId: ID } | { orgId: ID }) {
+      const keys = await prisma.apiKey.findMany({
+        where: 'orgId' in owner ? { orgId: owner.orgId } : { userId: owner.userId, orgId: null },
+        orderBy: { createdAt: 'desc' },
+      })
+      return keys.map(toApiKey)
+    },
+    async updateApiKey(id: ID, data: Partial<Pick<ApiKey, 'name' | 'lastUsedAt'>>) {
+      const k = await prisma.apiKey.update({ where: { id }, data })
+      return toApiKey(k)
+    },
+    async deleteApiKey(id: ID) {
+      await prisma.apiKey.delete({ where: { id } }).catch(() => {})
+    },
+
+    // Webhook events
+    async createWebhookEvent(e: Omit<WebhookEvent, 'createdAt' | 'updatedAt'>) {
+      try {
+        return toWebhookEvent(await prisma.webhookEvent.create({ data: e }))
+      } catch (err) {
+        // The event id is the primary key: a redelivery finds the row already there
+        if ((err as { code?: string }).code === 'P2002') return null
+        throw mapPrismaError(err)
+      }
+    },
+    async getWebhookEvent(id: string) {
+      const e = await prisma.webhookEvent.findUnique({ where: { id } })
+      return e ? toWebhookEvent(e) : null
+    },
+    async updateWebhookEvent(
+      id: string,
+      data: Partial<
+        Pick<WebhookEvent, 'status' | 'attempts' | 'lastError' | 'nextAttemptAt' | 'processedAt'>
+      >,
+    ) {
+      return toWebhookEvent(await prisma.webhookEvent.update({ where: { id }, data }))
+    },
+    async listWebhookEvents(query: WebhookEventQuery) {
+      const rows = await prisma.webhookEvent.findMany({
+        where: {
+          ...(query.provider ? { provider: query.provider } : {}),
+          ...(query.status ? { status: { in: [query.status].flat() } } : {}),
+          ...(query.objectId ? { objectId: query.objectId } : {}),
+          ...(query.dueBefore ? { nextAttemptAt: { lte: query.dueBefore } } : {}),
+        },
+        orderBy: { occurredAt: 'asc' },
+        ...(query.limit ? { take: query.limit } : {}),
+      })
+      return rows.map(toWebhookEvent)
+    },
+
+    // JWT keystores
+    async getKeystoreRecord(id: string) {
+      const k = await prisma.jwtKeystore.findUnique({ where: { id } })
+      return k ? ({ id: k.id, data: k.data, updatedAt: k.updatedAt } as KeystoreRecord) : null
+    },
+    async putKeystoreRecord(id: string, data: string) {
+      const k = await prisma.jwtKeystore.upsert({
+        where: { id },
+        create: { id, data },
+        update: { data },
+      })
+      return { id: k.id, data: k.data, updatedAt: k.updatedAt } as KeystoreRecord
+    },
+    async withKeystoreLock<T>(id: string, fn: () => Promise<T>): Promise<T> {
+      const lockId = `${id}:lock`
+      return prisma.$transaction(
+        async (tx: AnyPrismaClient) => {
+          // Writing the lock row holds its row lock until the transaction ends; `fn` writes the
+          // keystore row itself outside the transaction
+          for (let attempt = 0; ; attempt++) {
+            try {
+              await tx.jwtKeystore.upsert({
+                where: { id: lockId },
+                create: { id: lockId, data: '' },
+                update: { data: '' },
+              })
+              break
+            } catch (err) {
+              // Lost the race to create the lock row; it exists now, so the upsert updates it
+              if (attempt > 0 || (err as { code?: string }).code !== 'P2002')
+                throw mapPrismaError(err)
+            }
+          }
+          return fn()
+        },
+        { maxWait: 30_000, timeout: 60_000 },
+      )
+    },
+
     // Global Roles implementation
     async assignGlobalRole(data: { userId: ID; role: string }) {
       const existing = await prisma.userGlobalRole
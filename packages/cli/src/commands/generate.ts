@@ -80,6 +80,10 @@ export function detectAdapter(cwd: string): AdapterKind {
 export async function generateMigration(adapterOverride?: AdapterKind) {
   const cwd = process.cwd()
   const kind = adapterOverride ?? detectAdapter(cwd)
+  if (kind !== 'prisma')
+    console.log(
+      'Note: the webhook event log (WebhookEvent) and the database keystore (JwtKeystore) are only stored by the Prisma and memory adapters',
+    )
   switch (kind) {
     case 'prisma':
       return generatePrisma(cwd)
@@ -107,6 +111,56 @@ function tsStamp() {
   )}${String(ts.getMinutes()).padStart(2, '0')}${String(ts.getSeconds()).padStart(2, '0')}`
 }
 
+// Models outside the RBAC block, each appended on its own when the schema doesn't have it yet.
+// Only the Prisma adapter stores these; the SQL, Drizzle and Mongo outputs leave them out.
+const PRISMA_EXTRA_MODELS: [name: string, model: string][] = [
+  [
+    'WebhookEvent',
+    `// Inbound webhook events (e.g. Stripe), one row per provider event id
+model WebhookEvent {
+  id            String    @id
+  provider      String
+  type          String
+  objectId      String?
+  occurredAt    DateTime
+  payload       String
+  status        String    @default("pending")
+  attempts      Int       @default(0)
+  lastError     String?
+  nextAttemptAt DateTime?
+  processedAt   DateTime?
+  createdAt     DateTime  @default(now())
+  updatedAt     DateTime  @updatedAt
+  @@index([provider, objectId])
+  @@index([status, nextAttemptAt])
+}
+`,
+  ],
+  [
+    'JwtKeystore',
+    `// Shared JWT signing keys (JWKS_STORE=database); the private key is sealed
+model JwtKeystore {
+  id        String   @id @default("default")
+  data      String
+  updatedAt DateTime @updatedAt
+}
+`,
+  ],
+]
+
+function hasPrismaModel(schema: string, name: string) {
+  return new RegExp(`^model ${name}\\s*\\{`, 'm').test(schema)
+}
+
+function appendPrismaExtraModels(schemaPath: string) {
+  const existing = readFileSync(schemaPath, 'utf8')
+  const missing = PRISMA_EXTRA_MODELS.filter(([name]) => !hasPrismaModel(existing, name))
+  if (!missing.length) return
+  const models = missing.map(([name, model]) => `\n// --- Added by Keyloom: ${name} ---\n${model}`)
+  writeFileSync(schemaPath, models.join(''), { flag: 'a' })
+  console.log(`Appended ${missing.map(([name]) => name).join(', ')} to ${schemaPath}`)
+}
+
 function generatePrisma(cwd: string) {
   const prismaDir = join(cwd, 'prisma')
   const migrationsDir = join(prismaDir, 'migrations')
@@ -114,7 +168,7 @@ function generatePrisma(cwd: string) {
   if (!existsSync(migrationsDir)) mkdirSync(migrationsDir)
 
   const schemaPath = join(prismaDir, 'schema.prisma')
-  const schema = `// Keyloom RBAC schema additions\n\nmodel Organization {\n  id        String   @id @default(cuid())\n  name      String\n  slug      String?  @unique\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n  memberships Membership[]\n  invites     Invite[]\n  entitlement Entitlement?\n}\n\nmodel Membership {\n  id        String   @id @default(cuid())\n  userId    String\n  orgId     String\n  role      String\n  status    String   @default(\"active\")\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n  user User @relation(fields: [userId], references: [id], onDelete: Cascade)\n  org  Organization @relation(fields: [orgId], references: [id], onDelete: Cascade)\n  @@unique([userId, orgId])\n  @@index([orgId])\n  @@index([userId, orgId, role, status])\n}\n\nmodel Invite {\n  id         String   @id @default(cuid())\n  orgId      String\n  email      String\n  role       String\n  tokenHash  String\n  expiresAt  DateTime\n  createdAt  DateTime @default(now())\n  acceptedAt DateTime?\n  org Organization @relation(fields: [orgId], references: [id], onDelete: Cascade)\n  @@unique([orgId, tokenHash])\n  @@index([orgId])\n  @@index([expiresAt])\n}\n\nmodel Entitlement {\n  orgId      String   @id\n  plan       String?\n  seats      Int?\n  features   Json?\n  limits     Json?\n  validUntil DateTime?\n  org Organization @relation(fields: [orgId], references: [id], onDelete: Cascade)\n}\n`
+  const schema = `// Keyloom RBAC schema additions\n\nmodel Organization {\n  id        String   @id @default(cuid())\n  name      String\n  slug      String?  @unique\n  deletedAt DateTime?\n  billingCustomerId String? @unique\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n  memberships Membership[]\n  invites     Invite[]\n  domains     OrgDomain[]\n  roles       OrgRole[]\n  entitlement Entitlement?\n  apiKeys     ApiKey[]\n}\n\nmodel Membership {\n  id        String   @id @default(cuid())\n  userId    String\n  orgId     String\n  role      String\n  status    String   @default(\"active\")\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n  user User @relation(fields: [userId], references: [id], onDelete: Cascade)\n  org  Organization @relation(fields: [orgId], references: [id], onDelete: Cascade)\n  @@unique([userId, orgId])\n  @@index([orgId])\n  @@index([userId, orgId, role, status])\n}\n\nmodel Invite {\n  id         String   @id @default(cuid())\n  orgId      String\n  email      String\n  role       String\n  tokenHash  String\n  expiresAt  DateTime\n  createdAt  DateTime @default(now())\n  acceptedAt DateTime?\n  org Organization @relation(fields: [orgId], references: [id], onDelete: Cascade)\n  @@unique([orgId, tokenHash])\n  @@index([orgId])\n  @@index([expiresAt])\n}\n\nmodel OrgDomain {\n  id                String    @id @default(cuid())\n  orgId             String\n  domain            String\n  verificationToken String\n  verifiedAt        DateTime?\n  policy            String    @default(\"auto-join\")\n  role              String?\n  createdAt         DateTime  @default(now())\n  org Organization @relation(fields: [orgId], references: [id], onDelete: Cascade)\n  @@unique([orgId, domain])\n  @@index([domain])\n}\n\nmodel OrgRole {\n  id          String   @id @default(cuid())\n  orgId       String\n  name        String\n  description String?\n  permissions Json\n  createdAt   DateTime @default(now())\n  updatedAt   DateTime @updatedAt\n  org Organization @relation(fields: [orgId], references: [id], onDelete: Cascade)\n  @@unique([orgId, name])\n}\n\nmodel Entitlement {\n  orgId      String   @id\n  plan       String?\n  seats      Int?\n  features   Json?\n  limits     Json?\n  validUntil DateTime?\n  org Organization @relation(fields: [orgId], references: [id], onDelete: Cascade)\n}\n\nmodel ApiKey {\n  id          String    @id @default(cuid())\n  name        String\n  prefix      String\n  keyHash     String    @unique\n  userId      String\n  orgId       String?\n  permissions Json\n  expiresAt   DateTime?\n  lastUsedAt  DateTime?\n  createdAt   DateTime  @default(now())\n  user User @relation(fields: [userId], references: [id], onDelete: Cascade)\n  org  Organization? @relation(fields: [orgId], references: [id], onDelete: Cascade)\n  @@index([userId])\n  @@index([orgId])\n}\n`
 
   if (!existsSync(schemaPath)) {
     const fullSchema =
@@ -146,6 +200,7 @@ model User {
   auditLogs     AuditLog[]
   refreshTokens RefreshToken[]
   Membership    Membership[]
+  apiKeys       ApiKey[]
 }
 
 model Account {
@@ -172,6 +227,10 @@ model Session {
   sessionToken String   @unique
   userId       String
   expires      DateTime
+  ip           String?
+  userAgent    String?
+  lastSeenAt   DateTime?
+  createdAt    DateTime @default(now())
   user         User     @relation(fields: [userId], references: [id], onDelete: Cascade)
   @@index([userId])
 }
@@ -206,6 +265,7 @@ model AuthKey {
 model AuditLog {
   id        String   @id @default(cuid())
   userId    String?
+  orgId     String?
   action    String
   resource  String?
   details   Json?
@@ -214,6 +274,7 @@ model AuditLog {
   createdAt DateTime @default(now())
   user      User?    @relation(fields: [userId], references: [id], onDelete: SetNull)
   @@index([userId])
+  @@index([orgId, createdAt])
   @@index([action])
   @@index([createdAt])
 }
@@ -229,10 +290,13 @@ model RefreshToken {
   @@index([expiresAt])
 }
 
-` + schema
+` +
+      schema +
+      PRISMA_EXTRA_MODELS.map(([, model]) => `\n${model}`).join('')
     writeFileSync(schemaPath, fullSchema)
     console.log(`Created ${schemaPath}`)
   } else {
+    appendPrismaExtraModels(schemaPath)
     // Check if RBAC models already exist to avoid duplication
     const existingContent = readFileSync(schemaPath, 'utf8')
     const rbacMarker = '// --- Added by Keyloom: RBAC models ---'
@@ -247,6 +311,8 @@ model RefreshToken {
       'model Organization',
       'model Membership',
       'model Invite',
+      'model OrgDomain',
+      'model OrgRole',
       'model Entitlement',
     ]
     const hasExistingRbacModels = rbacModels.some((model) => existingContent.includes(model))
@@ -289,11 +355,13 @@ function generateDrizzle(cwd: string, dialect: 'pg' | 'mysql') {
 
   const schemaTs = `${importLine}\n\n// Keyloom RBAC schema (generated)\nexport const organizations = ${
     isPg ? 'pgTable' : 'mysqlTable'
-  }('organizations', {\n  id: ${idType}('id').primaryKey(),\n  name: ${str}('name').notNull(),\n  slug: ${str}('slug').unique(),\n  createdAt: ${tsType}('created_at').defaultNow().notNull(),\n  updatedAt: ${tsType}('updated_at').defaultNow().notNull(),\n})\n\nexport const memberships = ${
+  }('organizations', {\n  id: ${idType}('id').primaryKey(),\n  name: ${str}('name').notNull(),\n  slug: ${str}('slug').unique(),\n  deletedAt: ${tsType}('deleted_at'),\n  billingCustomerId: ${str}('billing_customer_id').unique(),\n  createdAt: ${tsType}('created_at').defaultNow().notNull(),\n  updatedAt: ${tsType}('updated_at').defaultNow().notNull(),\n})\n\nexport const memberships = ${
     isPg ? 'pgTable' : 'mysqlTable'
   }('memberships', {\n  id: ${idType}('id').primaryKey(),\n  userId: ${str}('user_id').notNull(),\n  orgId: ${str}('org_id').notNull(),\n  role: ${str}('role').notNull(),\n  status: ${str}('status').default('active').notNull(),\n  createdAt: ${tsType}('created_at').defaultNow().notNull(),\n  updatedAt: ${tsType}('updated_at').defaultNow().notNull(),\n}, (t) => ({\n  u_user_org: unique('u_user_org').on(t.userId, t.orgId),\n  i_org: index('i_org').on(t.orgId),\n  i_user_org_role_status: index('i_user_org_role_status').on(t.userId, t.orgId, t.role, t.status),\n}))\n\nexport const invites = ${
     isPg ? 'pgTable' : 'mysqlTable'
-  }('invites', {\n  id: ${idType}('id').primaryKey(),\n  orgId: ${str}('org_id').notNull(),\n  email: ${str}('email').notNull(),\n  role: ${str}('role').notNull(),\n  tokenHash: ${str}('token_hash').notNull(),\n  expiresAt: ${tsType}('expires_at').notNull(),\n  createdAt: ${tsType}('created_at').defaultNow().notNull(),\n  acceptedAt: ${tsType}('accepted_at'),\n}, (t) => ({\n  u_org_token: unique('u_org_token').on(t.orgId, t.tokenHash),\n  i_org: index('i_inv_org').on(t.orgId),\n  i_exp: index('i_inv_exp').on(t.expiresAt),\n}))\n\nexport const entitlements = ${
+  }('invites', {\n  id: ${idType}('id').primaryKey(),\n  orgId: ${str}('org_id').notNull(),\n  email: ${str}('email').notNull(),\n  role: ${str}('role').notNull(),\n  tokenHash: ${str}('token_hash').notNull(),\n  expiresAt: ${tsType}('expires_at').notNull(),\n  createdAt: ${tsType}('created_at').defaultNow().notNull(),\n  acceptedAt: ${tsType}('accepted_at'),\n}, (t) => ({\n  u_org_token: unique('u_org_token').on(t.orgId, t.tokenHash),\n  i_org: index('i_inv_org').on(t.orgId),\n  i_exp: index('i_inv_exp').on(t.expiresAt),\n}))\n\nexport const orgRoles = ${
+    isPg ? 'pgTable' : 'mysqlTable'
+  }('org_roles', {\n  id: ${idType}('id').primaryKey(),\n  orgId: ${str}('org_id').notNull(),\n  name: ${str}('name').notNull(),\n  description: ${str}('description'),\n  permissions: ${jsonType}('permissions').notNull(),\n  createdAt: ${tsType}('created_at').defaultNow().notNull(),\n  updatedAt: ${tsType}('updated_at').defaultNow().notNull(),\n}, (t) => ({\n  u_org_name: unique('u_org_role_name').on(t.orgId, t.name),\n}))\n\nexport const entitlements = ${
     isPg ? 'pgTable' : 'mysqlTable'
   }('entitlements', {\n  orgId: ${str}('org_id').primaryKey(),\n  plan: ${str}('plan'),\n  seats: ${
     isPg ? 'integer' : 'int'
@@ -330,7 +398,7 @@ function generateMongo(cwd: string) {
   const path = join(dir, `${tsStamp()}_rbac.js`)
   const js = `// Mongo RBAC indexes\n// Usage: mongo <uri> ${path
     .split('\\')
-    .pop()}\n\ndb.createCollection('organizations')\n\ndb.organizations.createIndex({ slug: 1 }, { unique: true, sparse: true })\n\ndb.createCollection('memberships')\ndb.memberships.createIndex({ userId: 1, orgId: 1 }, { unique: true })\ndb.memberships.createIndex({ orgId: 1 })\ndb.memberships.createIndex({ userId: 1, orgId: 1, role: 1, status: 1 })\n\ndb.createCollection('invites')\ndb.invites.createIndex({ orgId: 1, tokenHash: 1 }, { unique: true })\ndb.invites.createIndex({ orgId: 1 })\ndb.invites.createIndex({ expiresAt: 1 })\n\ndb.createCollection('entitlements')\ndb.entitlements.createIndex({ orgId: 1 }, { unique: true })\n`
+    .pop()}\n\ndb.createCollection('organizations')\n\ndb.organizations.createIndex({ slug: 1 }, { unique: true, sparse: true })\n\ndb.createCollection('memberships')\ndb.memberships.createIndex({ userId: 1, orgId: 1 }, { unique: true })\ndb.memberships.createIndex({ orgId: 1 })\ndb.memberships.createIndex({ userId: 1, orgId: 1, role: 1, status: 1 })\n\ndb.createCollection('invites')\ndb.invites.createIndex({ orgId: 1, tokenHash: 1 }, { unique: true })\ndb.invites.createIndex({ orgId: 1 })\ndb.invites.createIndex({ expiresAt: 1 })\n\ndb.createCollection('org_roles')\ndb.org_roles.createIndex({ orgId: 1, name: 1 }, { unique: true })\n\ndb.createCollection('entitlements')\ndb.entitlements.createIndex({ orgId: 1 }, { unique: true })\n`
   writeFileSync(path, js)
   console.log(`Created ${path}`)
 }
@@ -340,9 +408,9 @@ function mkdirp(path: string) {
 }
 
 function pgSql() {
-  return `-- Keyloom RBAC (PostgreSQL)\nCREATE TABLE IF NOT EXISTS organizations (\n  id text PRIMARY KEY,\n  name text NOT NULL,\n  slug text UNIQUE,\n  created_at timestamptz NOT NULL DEFAULT now(),\n  updated_at timestamptz NOT NULL DEFAULT now()\n);\n\nCREATE TABLE IF NOT EXISTS memberships (\n  id text PRIMARY KEY,\n  user_id text NOT NULL,\n  org_id text NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,\n  role text NOT NULL,\n  status text NOT NULL DEFAULT 'active',\n  created_at timestamptz NOT NULL DEFAULT now(),\n  updated_at timestamptz NOT NULL DEFAULT now(),\n  UNIQUE(user_id, org_id)\n);\nCREATE INDEX IF NOT EXISTS i_memberships_org ON memberships(org_id);\nCREATE INDEX IF NOT EXISTS i_memberships_user_org_role_status ON memberships(user_id, org_id, role, status);\n\nCREATE TABLE IF NOT EXISTS invites (\n  id text PRIMARY KEY,\n  org_id text NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,\n  email text NOT NULL,\n  role text NOT NULL,\n  token_hash text NOT NULL,\n  expires_at timestamptz NOT NULL,\n  created_at timestamptz NOT NULL DEFAULT now(),\n  accepted_at timestamptz,\n  UNIQUE(org_id, token_hash)\n);\nCREATE INDEX IF NOT EXISTS i_invites_org ON invites(org_id);\nCREATE INDEX IF NOT EXISTS i_invites_exp ON invites(expires_at);\n\nCREATE TABLE IF NOT EXISTS entitlements (\n  org_id text PRIMARY KEY REFERENCES organizations(id) ON DELETE CASCADE,\n  plan text,\n  seats integer,\n  features jsonb,\n  limits jsonb,\n  valid_until timestamptz\n);\n`
+  return `-- Keyloom RBAC (PostgreSQL)\nCREATE TABLE IF NOT EXISTS organizations (\n  id text PRIMARY KEY,\n  name text NOT NULL,\n  slug text UNIQUE,\n  deleted_at timestamptz,\n  billing_customer_id text UNIQUE,\n  created_at timestamptz NOT NULL DEFAULT now(),\n  updated_at timestamptz NOT NULL DEFAULT now()\n);\n\nCREATE TABLE IF NOT EXISTS memberships (\n  id text PRIMARY KEY,\n  user_id text NOT NULL,\n  org_id text NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,\n  role text NOT NULL,\n  status text NOT NULL DEFAULT 'active',\n  created_at timestamptz NOT NULL DEFAULT now(),\n  updated_at timestamptz NOT NULL DEFAULT now(),\n  UNIQUE(user_id, org_id)\n);\nCREATE INDEX IF NOT EXISTS i_memberships_org ON memberships(org_id);\nCREATE INDEX IF NOT EXISTS i_memberships_user_org_role_status ON memberships(user_id, org_id, role, status);\n\nCREATE TABLE IF NOT EXISTS invites (\n  id text PRIMARY KEY,\n  org_id text NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,\n  email text NOT NULL,\n  role text NOT NULL,\n  token_hash text NOT NULL,\n  expires_at timestamptz NOT NULL,\n  created_at timestamptz NOT NULL DEFAULT now(),\n  accepted_at timestamptz,\n  UNIQUE(org_id, token_hash)\n);\nCREATE INDEX IF NOT EXISTS i_invites_org ON invites(org_id);\nCREATE INDEX IF NOT EXISTS i_invites_exp ON invites(expires_at);\n\nCREATE TABLE IF NOT EXISTS org_roles (\n  id text PRIMARY KEY,\n  org_id text NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,\n  name text NOT NULL,\n  description text,\n  permissions jsonb NOT NULL,\n  created_at timestamptz NOT NULL DEFAULT now(),\n  updated_at timestamptz NOT NULL DEFAULT now(),\n  UNIQUE(org_id, name)\n);\n\nCREATE TABLE IF NOT EXISTS entitlements (\n  org_id text PRIMARY KEY REFERENCES organizations(id) ON DELETE CASCADE,\n  plan text,\n  seats integer,\n  features jsonb,\n  limits jsonb,\n  valid_until timestamptz\n);\n`
 }
 
 function mysqlSql() {
-  return `-- Keyloom RBAC (MySQL)\nCREATE TABLE IF NOT EXISTS organizations (\n  id varchar(191) PRIMARY KEY,\n  name varchar(255) NOT NULL,\n  slug varchar(255) UNIQUE,\n  created_at datetime NOT NULL DEFAULT CURRENT_TIMESTAMP,\n  updated_at datetime NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP\n);\n\nCREATE TABLE IF NOT EXISTS memberships (\n  id varchar(191) PRIMARY KEY,\n  user_id varchar(191) NOT NULL,\n  org_id varchar(191) NOT NULL,\n  role varchar(191) NOT NULL,\n  status varchar(191) NOT NULL DEFAULT 'active',\n  created_at datetime NOT NULL DEFAULT CURRENT_TIMESTAMP,\n  updated_at datetime NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,\n  UNIQUE KEY u_user_org (user_id, org_id),\n  INDEX i_org (org_id),\n  INDEX i_user_org_role_status (user_id, org_id, role, status),\n  CONSTRAINT fk_memberships_org FOREIGN KEY (org_id) REFERENCES organizations(id) ON DELETE CASCADE\n);\n\nCREATE TABLE IF NOT EXISTS invites (\n  id varchar(191) PRIMARY KEY,\n  org_id varchar(191) NOT NULL,\n  email varchar(255) NOT NULL,\n  role varchar(191) NOT NULL,\n  token_hash varchar(255) NOT NULL,\n  expires_at datetime NOT NULL,\n  created_at datetime NOT NULL DEFAULT CURRENT_TIMESTAMP,\n  accepted_at datetime DEFAULT NULL,\n  UNIQUE KEY u_org_token (org_id, token_hash),\n  INDEX i_inv_org (org_id),\n  INDEX i_inv_exp (expires_at),\n  CONSTRAINT fk_invites_org FOREIGN KEY (org_id) REFERENCES organizations(id) ON DELETE CASCADE\n);\n\nCREATE TABLE IF NOT EXISTS entitlements (\n  org_id varchar(191) PRIMARY KEY,\n  plan varchar(191) NULL,\n  seats int NULL,\n  features JSON NULL,\n  limits JSON NULL,\n  valid_until datetime NULL,\n  CONSTRAINT fk_entitlements_org FOREIGN KEY (org_id) REFERENCES organizations(id) ON DELETE CASCADE\n);\n`
+  return `-- Keyloom RBAC (MySQL)\nCREATE TABLE IF NOT EXISTS organizations (\n  id varchar(191) PRIMARY KEY,\n  name varchar(255) NOT NULL,\n  slug varchar(255) UNIQUE,\n  deleted_at datetime NULL,\n  billing_customer_id varchar(191) NULL UNIQUE,\n  created_at datetime NOT NULL DEFAULT CURRENT_TIMESTAMP,\n  updated_at datetime NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP\n);\n\nCREATE TABLE IF NOT EXISTS memberships (\n  id varchar(191) PRIMARY KEY,\n  user_id varchar(191) NOT NULL,\n  org_id varchar(191) NOT NULL,\n  role varchar(191) NOT NULL,\n  status varchar(191) NOT NULL DEFAULT 'active',\n  created_at datetime NOT NULL DEFAULT CURRENT_TIMESTAMP,\n  updated_at datetime NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,\n  UNIQUE KEY u_user_org (user_id, org_id),\n  INDEX i_org (org_id),\n  INDEX i_user_org_role_status (user_id, org_id, role, status),\n  CONSTRAINT fk_memberships_org FOREIGN KEY (org_id) REFERENCES organizations(id) ON DELETE CASCADE\n);\n\nCREATE TABLE IF NOT EXISTS invites (\n  id varchar(191) PRIMARY KEY,\n  org_id varchar(191) NOT NULL,\n  email varchar(255) NOT NULL,\n  role varchar(191) NOT NULL,\n  token_hash varchar(255) NOT NULL,\n  expires_at datetime NOT NULL,\n  created_at datetime NOT NULL DEFAULT CURRENT_TIMESTAMP,\n  accepted_at datetime DEFAULT NULL,\n  UNIQUE KEY u_org_token (org_id, token_hash),\n  INDEX i_inv_org (org_id),\n  INDEX i_inv_exp (expires_at),\n  CONSTRAINT fk_invites_org FOREIGN KEY (org_id) REFERENCES organizations(id) ON DELETE CASCADE\n);\n\nCREATE TABLE IF NOT EXISTS org_roles (\n  id varchar(191) PRIMARY KEY,\n  org_id varchar(191) NOT NULL,\n  name varchar(64) NOT NULL,\n  description varchar(255) NULL,\n  permissions JSON NOT NULL,\n  created_at datetime NOT NULL DEFAULT CURRENT_TIMESTAMP,\n  updated_at datetime NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,\n  UNIQUE KEY u_org_role_name (org_id, name),\n  CONSTRAINT fk_org_roles_org FOREIGN KEY (org_id) REFERENCES organizations(id) ON DELETE CASCADE\n);\n\nCREATE TABLE IF NOT EXISTS entitlements (\n  org_id varchar(191) PRIMARY KEY,\n  plan varchar(191) NULL,\n  seats int NULL,\n  features JSON NULL,\n  limits JSON NULL,\n  valid_until datetime NULL,\n  CONSTRAINT fk_entitlements_org FOREIGN KEY (org_id) REFERENCES organizations(id) ON DELETE CASCADE\n);\n`
 }
@@ -181,7 +181,7 @@ function createConfigBody(opts: {
 
 function createHandlerBody(router: 'app' | 'pages', ts: boolean) {
   if (router === 'app') {
-    return `import { createNextHandler } from '@keyloom/nextjs'\nimport config from '../../../../keyloom.config'\nexport const { GET, POST } = createNextHandler(config)\n`
+    return `import { createNextHandler } from '@keyloom/nextjs'\nimport config from '../../../../keyloom.config'\nexport const { GET, POST, DELETE } = createNextHandler(config)\n`
   }
   // pages
   return `import type { NextApiRequest, NextApiResponse } from 'next'\nimport { createPagesApiHandler } from '@keyloom/nextjs'\nimport config from '../../../keyloom.config'\nconst handler = createPagesApiHandler(config)\nexport default async function auth(req: NextApiRequest, res: NextApiResponse) {\n  return handler(req as any, res as any)\n}\n`
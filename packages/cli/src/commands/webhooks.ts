@@ -0,0 +1,104 @@
+import { existsSync } from 'node:fs'
+import path from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { banner, list, section, ui } from '../lib/ui'
+
+// The module's default export: `createWebhookProcessor(...)` from @keyloom/stripe
+type WebhookProcessor = {
+  replay(options?: { ids?: string[]; force?: boolean; limit?: number }): Promise<
+    Array<{
+      event: { id: string; type: string }
+      status: string
+      duplicate: boolean
+      error?: string
+    }>
+  >
+  list?(query?: {
+    status?: string | string[]
+    limit?: number
+  }): Promise<Array<{ id: string; type: string; attempts: number; lastError: string | null }>>
+}
+
+const DEFAULT_MODULES = ['keyloom.webhooks.mjs', 'keyloom.webhooks.js']
+
+function parseArgs(args: string[]) {
+  const out: { cwd?: string; module?: string; ids: string[]; force?: boolean; limit?: number } = {
+    ids: [],
+  }
+  for (let i = 0; i < args.length; i++) {
+    const a = args[i]
+    const next = args[i + 1]
+    if (a === '--cwd' && next) out.cwd = args[++i] as string
+    else if (a === '--module' && next) out.module = args[++i] as string
+    else if (a === '--id' && next) out.ids.push(args[++i] as string)
+    else if (a === '--limit' && next) out.limit = Number.parseInt(args[++i] as string, 10)
+    else if (a === '--force') out.force = true
+  }
+  return out
+}
+
+async function loadProcessor(cwd: string, file?: string): Promise<WebhookProcessor> {
+  const candidates = file ? [file] : DEFAULT_MODULES
+  const found = candidates.map((f) => path.resolve(cwd, f)).find((f) => existsSync(f))
+  if (!found) throw new Error(`Webhook module not found (looked for ${candidates.join(', ')})`)
+  const mod = await import(pathToFileURL(found).href)
+  const processor = mod.default ?? mod.webhooks
+  if (typeof processor?.replay !== 'function')
+    throw new Error(`${found} must export a webhook processor (createWebhookProcessor) as default`)
+  return processor
+}
+
+function printUsage() {
+  console.log('Usage:')
+  console.log('  keyloom webhooks failed [--limit <n>] [--module <file>]')
+  console.log(
+    '  keyloom webhooks replay [--id <eventId>]... [--force] [--limit <n>] [--module <file>]',
+  )
+}
+
+export async function webhooksCommand(args: string[]) {
+  const [sub, ...rest] = args
+  if (sub !== 'replay' && sub !== 'failed') {
+    printUsage()
+    process.exitCode = 1
+    return
+  }
+  const flags = parseArgs(rest)
+  const cwd = flags.cwd ? path.resolve(process.cwd(), flags.cwd) : process.cwd()
+
+  let processor: WebhookProcessor
+  try {
+    processor = await loadProcessor(cwd, flags.module)
+  } catch (e) {
+    ui.error((e as Error).message)
+    process.exitCode = 1
+    return
+  }
+
+  if (sub === 'failed') {
+    banner('Failed webhook events')
+    const events = (await processor.list?.({ status: 'failed', limit: flags.limit ?? 50 })) ?? []
+    if (!events.length) ui.success('No failed events')
+    list(events.map((e) => `${e.id} ${e.type} (${e.attempts} attempts): ${e.lastError ?? ''}`))
+    return
+  }
+
+  banner('Replay webhook events')
+  const results = await processor.replay({
+    ...(flags.ids.length ? { ids: flags.ids } : {}),
+    ...(flags.force ? { force: true } : {}),
+    ...(flags.limit ? { limit: flags.limit } : {}),
+  })
+  if (!results.length) ui.info('Nothing to replay')
+  for (const r of results) {
+    const label = `${r.event.id} ${r.event.type}`
+    if (r.status === 'failed') ui.error(`${label}: ${r.error ?? 'failed'}`)
+    else if (r.duplicate) ui.info(`${label}: already ${r.status}`)
+    else ui.success(`${label}: ${r.status}`)
+  }
+
+  const failed = results.filter((r) => r.status === 'failed').length
+  section('Summary')
+  ui.info(`${results.length - failed} replayed, ${failed} failed`)
+  if (failed) process.exitCode = 1
+}
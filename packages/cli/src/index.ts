@@ -36,6 +36,11 @@ export async function run(argv: string[]) {
       await scaffoldCommand(args);
       return;
     }
+    case "webhooks": {
+      const { webhooksCommand } = await import("./commands/webhooks");
+      await webhooksCommand(args);
+      return;
+    }
 
     default: {
       console.log("keyloom CLI");
@@ -47,6 +52,9 @@ export async function run(argv: string[]) {
       );
       console.log("  keyloom doctor [--json] [--strict] [--fix] [--yes]");
       console.log("  keyloom generate migration");
+      console.log(
+        "  keyloom webhooks [failed|replay] [--id <eventId>] [--force] [--module <file>]"
+      );
       console.log(
         "  keyloom scaffold [login|register|admin|settings|forgot-password|reset-password|verify-email|setup-2fa|verify-2fa] [--router app|pages] [--all]"
       );
@@ -0,0 +1,41 @@
+import { mkdirSync, mkdtempSync, readFileSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { generateMigration } from '../src/commands/generate'
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+function project() {
+  const cwd = mkdtempSync(path.join(tmpdir(), 'keyloom-generate-'))
+  vi.spyOn(process, 'cwd').mockReturnValue(cwd)
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  return cwd
+}
+
+const models = (schema: string) => [...schema.matchAll(/^model (\w+)/gm)].map((m) => m[1])
+
+describe('generateMigration (prisma)', () => {
+  it('writes the webhook event and keystore models into a new schema', async () => {
+    const cwd = project()
+    await generateMigration('prisma')
+    const schema = readFileSync(path.join(cwd, 'prisma', 'schema.prisma'), 'utf8')
+    expect(models(schema)).toEqual(expect.arrayContaining(['WebhookEvent', 'JwtKeystore']))
+  })
+
+  it('adds missing models to an existing schema once', async () => {
+    const cwd = project()
+    mkdirSync(path.join(cwd, 'prisma'))
+    const schemaPath = path.join(cwd, 'prisma', 'schema.prisma')
+    writeFileSync(schemaPath, 'model User {\n  id String @id\n}\n')
+
+    await generateMigration('prisma')
+    await generateMigration('prisma')
+    const names = models(readFileSync(schemaPath, 'utf8'))
+    expect(names.filter((n) => n === 'WebhookEvent')).toHaveLength(1)
+    expect(names.filter((n) => n === 'JwtKeystore')).toHaveLength(1)
+    expect(names.filter((n) => n === 'Organization')).toHaveLength(1)
+  })
+})
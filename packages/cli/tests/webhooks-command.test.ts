@@ -0,0 +1,53 @@
+import { mkdtempSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { webhooksCommand } from '../src/commands/webhooks'
+
+const processor = `
+export default {
+  async replay(options) {
+    globalThis.__replayOptions = options
+    return [
+      { event: { id: 'evt_1', type: 'invoice.paid' }, status: 'processed', duplicate: false },
+      { event: { id: 'evt_2', type: 'invoice.paid' }, status: 'failed', duplicate: false, error: 'boom' },
+    ]
+  },
+}
+`
+
+afterEach(() => {
+  process.exitCode = undefined
+  vi.restoreAllMocks()
+})
+
+describe('webhooksCommand', () => {
+  it('replays events through the project processor and flags failures', async () => {
+    const cwd = mkdtempSync(path.join(tmpdir(), 'keyloom-webhooks-'))
+    writeFileSync(path.join(cwd, 'keyloom.webhooks.mjs'), processor)
+    const logs: string[] = []
+    vi.spyOn(console, 'log').mockImplementation((msg?: unknown) => {
+      logs.push(String(msg))
+    })
+
+    await webhooksCommand(['replay', '--cwd', cwd, '--id', 'evt_1', '--id', 'evt_2', '--force'])
+
+    expect((globalThis as any).__replayOptions).toEqual({ ids: ['evt_1', 'evt_2'], force: true })
+    expect(logs.some((l) => l.includes('evt_1 invoice.paid: processed'))).toBe(true)
+    expect(logs.some((l) => l.includes('evt_2 invoice.paid: boom'))).toBe(true)
+    expect(process.exitCode).toBe(1)
+  })
+
+  it('reports a missing processor module', async () => {
+    const cwd = mkdtempSync(path.join(tmpdir(), 'keyloom-webhooks-'))
+    const logs: string[] = []
+    vi.spyOn(console, 'log').mockImplementation((msg?: unknown) => {
+      logs.push(String(msg))
+    })
+
+    await webhooksCommand(['replay', '--cwd', cwd])
+
+    expect(logs.some((l) => l.includes('Webhook module not found'))).toBe(true)
+    expect(process.exitCode).toBe(1)
+  })
+})
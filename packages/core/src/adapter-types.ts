@@ -1,4 +1,4 @@
-import type { Adapter } from './adapter'
+import type { Adapter, ApiKeyAdapter } from './adapter'
 import type { RefreshTokenStore } from './jwt'
 import type { RbacAdapter } from './rbac/types'
 
@@ -52,15 +52,16 @@ export class AdapterError extends Error {
 /**
  * Complete adapter interface combining all capabilities
  */
-export interface KeyloomAdapter extends Adapter, RbacAdapter, RefreshTokenStore {
+export interface KeyloomAdapter extends Adapter, ApiKeyAdapter, RbacAdapter, RefreshTokenStore {
   /** Adapter capability flags */
   capabilities: AdapterCapabilities
 
-  /** Optional cleanup method for expired tokens/sessions */
-  cleanup?(): Promise<{
+  /** Optional cleanup method for expired tokens/sessions, and audit entries past retention */
+  cleanup?(options?: CleanupOptions): Promise<{
     sessions: number
     tokens: number
     refreshTokens: number
+    audit?: number
   }>
 
   /** Optional health check method */
@@ -73,6 +74,11 @@ export interface KeyloomAdapter extends Adapter, RbacAdapter, RefreshTokenStore
   close?(): Promise<void>
 }
 
+export interface CleanupOptions {
+  /** Also prune audit entries older than this many days */
+  auditRetentionDays?: number
+}
+
 /**
  * Adapter factory function type
  */
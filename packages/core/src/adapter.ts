@@ -1,5 +1,20 @@
 /* c8 ignore file */
-import type { Account, AuditEvent, ID, Session, User, VerificationToken } from './types'
+import type {
+  Account,
+  AccountTokens,
+  ApiKey,
+  AuditEvent,
+  AuditPage,
+  AuditQuery,
+  AuthKey,
+  ID,
+  KeystoreRecord,
+  Session,
+  User,
+  VerificationToken,
+  WebhookEvent,
+  WebhookEventQuery,
+} from './types'
 
 export interface Adapter {
   // Users
@@ -11,11 +26,18 @@ export interface Adapter {
   // Accounts (OAuth)
   linkAccount(acc: Account): Promise<Account>
   getAccountByProvider(provider: string, providerAccountId: string): Promise<Account | null>
+  getAccountsByUser(userId: ID): Promise<Account[]>
+  unlinkAccount(provider: string, providerAccountId: string): Promise<void>
+  updateAccount(id: ID, data: Partial<AccountTokens>): Promise<Account>
 
   // Sessions
   createSession(s: Omit<Session, 'id' | 'createdAt' | 'updatedAt'>): Promise<Session>
   getSession(id: ID): Promise<Session | null>
   deleteSession(id: ID): Promise<void>
+  updateSession(id: ID, data: Partial<Pick<Session, 'expiresAt' | 'lastSeenAt'>>): Promise<Session>
+  listSessionsByUser(userId: ID): Promise<Session[]>
+  // Returns the number of sessions removed; `except` keeps that session (e.g. the current one)
+  deleteSessionsByUser(userId: ID, except?: ID): Promise<number>
 
   // Tokens (email verify, password reset)
   createVerificationToken(
@@ -25,6 +47,48 @@ export interface Adapter {
 
   // Audit
   appendAudit(event: AuditEvent): Promise<void>
+  listAudit(query: AuditQuery): Promise<AuditPage>
+  // Returns the number of entries removed
+  pruneAudit(before: Date): Promise<number>
+}
+
+// Optional: authenticator keys (passkeys). Adapters that store AuthKey rows implement this.
+export interface AuthKeyAdapter {
+  createAuthKey(key: Omit<AuthKey, 'id' | 'createdAt'>): Promise<AuthKey>
+  getAuthKeyByKeyId(keyId: string): Promise<AuthKey | null>
+  listAuthKeysByUser(userId: ID): Promise<AuthKey[]>
+  updateAuthKey(id: ID, data: Partial<Pick<AuthKey, 'counter' | 'label'>>): Promise<AuthKey>
+  deleteAuthKey(id: ID): Promise<void>
+}
+
+// API keys. `{ orgId }` lists an organization's keys; `{ userId }` lists the user's personal keys.
+export interface ApiKeyAdapter {
+  createApiKey(key: Omit<ApiKey, 'id' | 'createdAt' | 'lastUsedAt'>): Promise<ApiKey>
+  getApiKeyByHash(keyHash: string): Promise<ApiKey | null>
+  listApiKeys(owner: { userId: ID } | { orgId: ID }): Promise<ApiKey[]>
+  updateApiKey(id: ID, data: Partial<Pick<ApiKey, 'name' | 'lastUsedAt'>>): Promise<ApiKey>
+  deleteApiKey(id: ID): Promise<void>
+}
+
+// Optional: inbound webhook event log. `createWebhookEvent` returns null when the id is already stored.
+export interface WebhookEventAdapter {
+  createWebhookEvent(e: Omit<WebhookEvent, 'createdAt' | 'updatedAt'>): Promise<WebhookEvent | null>
+  getWebhookEvent(id: string): Promise<WebhookEvent | null>
+  updateWebhookEvent(
+    id: string,
+    data: Partial<
+      Pick<WebhookEvent, 'status' | 'attempts' | 'lastError' | 'nextAttemptAt' | 'processedAt'>
+    >,
+  ): Promise<WebhookEvent>
+  listWebhookEvents(query: WebhookEventQuery): Promise<WebhookEvent[]>
+}
+
+// Optional: shared JWT signing keys, so every instance signs with and trusts the same keys.
+// `withKeystoreLock` should hold a lock other instances also respect (e.g. a row lock).
+export interface KeystoreAdapter {
+  getKeystoreRecord(id: string): Promise<KeystoreRecord | null>
+  putKeystoreRecord(id: string, data: string): Promise<KeystoreRecord>
+  withKeystoreLock?<T>(id: string, fn: () => Promise<T>): Promise<T>
 }
 
 // Note: We intentionally accept Partial for createUser/updateUser so adapters can set defaults (ids/timestamps).
@@ -1,8 +1,30 @@
-import type { Adapter } from '../../adapter'
+import type {
+  Adapter,
+  ApiKeyAdapter,
+  AuthKeyAdapter,
+  KeystoreAdapter,
+  WebhookEventAdapter,
+} from '../../adapter'
+import { auditPageSize, compareAuditDesc, matchesAuditQuery, toAuditPage } from '../../audit/query'
 import { tokenHash } from '../../crypto/token-hash'
 import { ERR, KeyloomError } from '../../errors'
 import type { RbacAdapter } from '../../rbac/types'
-import type { Account, AuditEvent, ID, Session, User, VerificationToken } from '../../types'
+import type {
+  Account,
+  AccountTokens,
+  ApiKey,
+  AuditEvent,
+  AuditLog,
+  AuditQuery,
+  AuthKey,
+  ID,
+  KeystoreRecord,
+  Session,
+  User,
+  VerificationToken,
+  WebhookEvent,
+  WebhookEventQuery,
+} from '../../types'
 import { newId } from '../../util/ids'
 import { now } from '../../util/time'
 import { memoryRbac } from './rbac'
@@ -14,8 +36,14 @@ export function memoryAdapter(init?: { store?: MemoryStore; tokenSecret?: string
   createCredential(userId: ID, hash: string): Promise<{ id: ID; userId: ID }>
   getCredentialByUserId(userId: ID): Promise<{ id: ID; userId: ID; hash: string } | null>
   updateCredential(userId: ID, hash: string): Promise<void>
-} & RbacAdapter {
+} & AuthKeyAdapter &
+  ApiKeyAdapter &
+  WebhookEventAdapter &
+  KeystoreAdapter &
+  RbacAdapter {
   const store = init?.store ?? newStore()
+  // Tail of each keystore's queue of `withKeystoreLock` callers
+  const keystoreLocks = new Map<string, Promise<unknown>>()
   const TOKEN_SECRET =
     init?.tokenSecret ?? process.env.AUTH_SECRET ?? 'dev-secret-change-in-production'
 
@@ -84,6 +112,23 @@ export function memoryAdapter(init?: { store?: MemoryStore; tokenSecret?: string
         const id = store.byProvider.get(`${provider}:${providerAccountId}`)
         return id ? (store.accounts.get(id) ?? null) : null
       },
+      async getAccountsByUser(userId: ID): Promise<Account[]> {
+        return [...store.accounts.values()].filter((a) => a.userId === userId)
+      },
+      async updateAccount(id: ID, data: Partial<AccountTokens>): Promise<Account> {
+        const a = store.accounts.get(id)
+        if (!a) throw new KeyloomError(ERR.ACCOUNT_NOT_FOUND)
+        const updated: Account = { ...a, ...data }
+        store.accounts.set(id, updated)
+        return updated
+      },
+      async unlinkAccount(provider: string, providerAccountId: string): Promise<void> {
+        const key = `${provider}:${providerAccountId}`
+        const id = store.byProvider.get(key)
+        if (!id) return
+        store.accounts.delete(id)
+        store.byProvider.delete(key)
+      },
 
       // Sessions
       async createSession(s: Omit<Session, 'id' | 'createdAt' | 'updatedAt'>): Promise<Session> {
@@ -95,6 +140,9 @@ export function memoryAdapter(init?: { store?: MemoryStore; tokenSecret?: string
           expiresAt: s.expiresAt,
           createdAt: nowDt,
           updatedAt: nowDt,
+          ip: s.ip ?? null,
+          userAgent: s.userAgent ?? null,
+          lastSeenAt: s.lastSeenAt ?? nowDt,
         }
         store.sessions.set(id, sess)
         return sess
@@ -105,6 +153,31 @@ export function memoryAdapter(init?: { store?: MemoryStore; tokenSecret?: string
       async deleteSession(id: ID): Promise<void> {
         store.sessions.delete(id)
       },
+      async updateSession(
+        id: ID,
+        data: Partial<Pick<Session, 'expiresAt' | 'lastSeenAt'>>,
+      ): Promise<Session> {
+        const prev = store.sessions.get(id)
+        if (!prev) throw new KeyloomError(ERR.SESSION_NOT_FOUND)
+        const updated: Session = { ...prev, ...data, updatedAt: now() }
+        store.sessions.set(id, updated)
+        return updated
+      },
+      async listSessionsByUser(userId: ID): Promise<Session[]> {
+        return [...store.sessions.values()]
+          .filter((s) => s.userId === userId)
+          .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      },
+      async deleteSessionsByUser(userId: ID, except?: ID): Promise<number> {
+        let count = 0
+        for (const [id, s] of store.sessions) {
+          if (s.userId === userId && id !== except) {
+            store.sessions.delete(id)
+            count++
+          }
+        }
+        return count
+      },
 
       // Tokens
       async createVerificationToken(
@@ -133,7 +206,20 @@ export function memoryAdapter(init?: { store?: MemoryStore; tokenSecret?: string
 
       // Audit
       async appendAudit(event: AuditEvent): Promise<void> {
-        store.audit.push({ ...event, id: newId(), at: now() })
+        store.audit.push({ ...event, id: newId(), at: event.at ?? now() })
+      },
+      async listAudit(query: AuditQuery) {
+        const limit = auditPageSize(query.limit)
+        const rows = (store.audit as AuditLog[])
+          .filter((e) => matchesAuditQuery(e, query))
+          .sort(compareAuditDesc)
+        return toAuditPage(rows.slice(0, limit + 1), limit)
+      },
+      async pruneAudit(before: Date): Promise<number> {
+        const kept = store.audit.filter((e) => e.at.getTime() >= before.getTime())
+        const removed = store.audit.length - kept.length
+        store.audit = kept
+        return removed
       },
 
       // Credentials
@@ -159,6 +245,137 @@ export function memoryAdapter(init?: { store?: MemoryStore; tokenSecret?: string
         if (!prev) throw new KeyloomError('CREDENTIAL_NOT_FOUND', 'No credentials for user')
         store.credentials.set(id, { ...prev, hash })
       },
+
+      // Authenticator keys
+      async createAuthKey(key: Omit<AuthKey, 'id' | 'createdAt'>): Promise<AuthKey> {
+        if (key.keyId && store.authKeyByKeyId.has(key.keyId))
+          throw new KeyloomError('AUTH_KEY_EXISTS', 'Authenticator key already registered')
+        const k: AuthKey = { ...key, id: newId(), createdAt: now() }
+        store.authKeys.set(k.id, k)
+        if (k.keyId) store.authKeyByKeyId.set(k.keyId, k.id)
+        return k
+      },
+      async getAuthKeyByKeyId(keyId: string): Promise<AuthKey | null> {
+        const id = store.authKeyByKeyId.get(keyId)
+        return id ? (store.authKeys.get(id) ?? null) : null
+      },
+      async listAuthKeysByUser(userId: ID): Promise<AuthKey[]> {
+        return [...store.authKeys.values()].filter((k) => k.userId === userId)
+      },
+      async updateAuthKey(
+        id: ID,
+        data: Partial<Pick<AuthKey, 'counter' | 'label'>>,
+      ): Promise<AuthKey> {
+        const prev = store.authKeys.get(id)
+        if (!prev) throw new KeyloomError('AUTH_KEY_NOT_FOUND', 'Authenticator key not found')
+        const updated: AuthKey = { ...prev, ...data }
+        store.authKeys.set(id, updated)
+        return updated
+      },
+      async deleteAuthKey(id: ID): Promise<void> {
+        const prev = store.authKeys.get(id)
+        if (!prev) return
+        store.authKeys.delete(id)
+        if (prev.keyId) store.authKeyByKeyId.delete(prev.keyId)
+      },
+
+      // API keys
+      async createApiKey(key: Omit<ApiKey, 'id' | 'createdAt' | 'lastUsedAt'>): Promise<ApiKey> {
+        if (store.apiKeyByHash.has(key.keyHash))
+          throw new KeyloomError(ERR.ADAPTER_UNIQUE_VIOLATION)
+        const k: ApiKey = { orgId: null, ...key, id: newId(), lastUsedAt: null, createdAt: now() }
+        store.apiKeys.set(k.id, k)
+        store.apiKeyByHash.set(k.keyHash, k.id)
+        return k
+      },
+      async getApiKeyByHash(keyHash: string): Promise<ApiKey | null> {
+        const id = store.apiKeyByHash.get(keyHash)
+        return id ? (store.apiKeys.get(id) ?? null) : null
+      },
+      async listApiKeys(owner: { userId: ID } | { orgId: ID }): Promise<ApiKey[]> {
+        return [...store.apiKeys.values()]
+          .filter((k) =>
+            'orgId' in owner ? k.orgId === owner.orgId : !k.orgId && k.userId === owner.userId,
+          )
+          .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      },
+      async updateApiKey(
+        id: ID,
+        data: Partial<Pick<ApiKey, 'name' | 'lastUsedAt'>>,
+      ): Promise<ApiKey> {
+        const prev = store.apiKeys.get(id)
+        if (!prev) throw new KeyloomError('API_KEY_NOT_FOUND', 'API key not found')
+        const updated: ApiKey = { ...prev, ...data }
+        store.apiKeys.set(id, updated)
+        return updated
+      },
+      async deleteApiKey(id: ID): Promise<void> {
+        const prev = store.apiKeys.get(id)
+        if (!prev) return
+        store.apiKeys.delete(id)
+        store.apiKeyByHash.delete(prev.keyHash)
+      },
+
+      // Webhook events
+      async createWebhookEvent(
+        e: Omit<WebhookEvent, 'createdAt' | 'updatedAt'>,
+      ): Promise<WebhookEvent | null> {
+        if (store.webhookEvents.has(e.id)) return null
+        const nowDt = now()
+        const ev: WebhookEvent = { ...e, createdAt: nowDt, updatedAt: nowDt }
+        store.webhookEvents.set(ev.id, ev)
+        return ev
+      },
+      async getWebhookEvent(id: string): Promise<WebhookEvent | null> {
+        return store.webhookEvents.get(id) ?? null
+      },
+      async updateWebhookEvent(
+        id: string,
+        data: Partial<
+          Pick<WebhookEvent, 'status' | 'attempts' | 'lastError' | 'nextAttemptAt' | 'processedAt'>
+        >,
+      ): Promise<WebhookEvent> {
+        const prev = store.webhookEvents.get(id)
+        if (!prev) throw new KeyloomError('WEBHOOK_EVENT_NOT_FOUND', 'Webhook event not found')
+        const updated: WebhookEvent = { ...prev, ...data, updatedAt: now() }
+        store.webhookEvents.set(id, updated)
+        return updated
+      },
+      async listWebhookEvents(query: WebhookEventQuery): Promise<WebhookEvent[]> {
+        const statuses = query.status ? [query.status].flat() : null
+        const due = query.dueBefore?.getTime()
+        const items = [...store.webhookEvents.values()]
+          .filter(
+            (e) =>
+              (!query.provider || e.provider === query.provider) &&
+              (!statuses || statuses.includes(e.status)) &&
+              (!query.objectId || e.objectId === query.objectId) &&
+              (due === undefined || (!!e.nextAttemptAt && e.nextAttemptAt.getTime() <= due)),
+          )
+          .sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime())
+        return query.limit ? items.slice(0, query.limit) : items
+      },
+
+      // JWT keystores
+      async getKeystoreRecord(id: string): Promise<KeystoreRecord | null> {
+        return store.keystores.get(id) ?? null
+      },
+      async putKeystoreRecord(id: string, data: string): Promise<KeystoreRecord> {
+        const record: KeystoreRecord = { id, data, updatedAt: now() }
+        store.keystores.set(id, record)
+        return record
+      },
+      async withKeystoreLock<T>(id: string, fn: () => Promise<T>): Promise<T> {
+        const prev = keystoreLocks.get(id) ?? Promise.resolve()
+        const run = prev.then(fn)
+        const tail = run.catch(() => {})
+        keystoreLocks.set(id, tail)
+        try {
+          return await run
+        } finally {
+          if (keystoreLocks.get(id) === tail) keystoreLocks.delete(id)
+        }
+      },
     },
     memoryRbac(store),
   )
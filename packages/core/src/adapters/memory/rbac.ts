@@ -3,6 +3,9 @@ import type {
   Invite,
   Membership,
   Organization,
+  OrgDomain,
+  OrgDomainPolicy,
+  OrgRole,
   RbacAdapter,
   UserGlobalRole,
 } from '../../rbac/types'
@@ -12,7 +15,10 @@ import { now } from '../../util/time'
 import type { MemoryStore } from './store'
 
 export function memoryRbac(store: MemoryStore): RbacAdapter {
-  return {
+  // Tail of each org's queue of `withOrgLock` callers
+  const orgLocks = new Map<ID, Promise<unknown>>()
+
+  const rbac: RbacAdapter = {
     async createOrganization(data: { name: string; slug?: string | null }): Promise<Organization> {
       const id = newId()
       const dt = now()
@@ -20,6 +26,8 @@ export function memoryRbac(store: MemoryStore): RbacAdapter {
         id,
         name: data.name,
         slug: data.slug ?? null,
+        deletedAt: null,
+        billingCustomerId: null,
         createdAt: dt,
         updatedAt: dt,
       }
@@ -38,7 +46,49 @@ export function memoryRbac(store: MemoryStore): RbacAdapter {
       }
       return Array.from(orgIds)
         .map((oid) => store.orgs.get(oid)!)
-        .filter(Boolean)
+        .filter((org) => org && !org.deletedAt)
+    },
+
+    async updateOrganization(
+      id: ID,
+      data: Partial<Pick<Organization, 'name' | 'slug' | 'deletedAt' | 'billingCustomerId'>>,
+    ): Promise<Organization> {
+      const prev = store.orgs.get(id)
+      if (!prev) throw new Error('organization_not_found')
+      const next: Organization = { ...prev, ...data, updatedAt: now() }
+      store.orgs.set(id, next)
+      return next
+    },
+
+    async getOrganizationByBillingCustomerId(customerId: string) {
+      for (const org of store.orgs.values()) if (org.billingCustomerId === customerId) return org
+      return null
+    },
+
+    async deleteOrganization(id: ID): Promise<void> {
+      store.orgs.delete(id)
+      for (const [mid, m] of store.memberships)
+        if (m.orgId === id) {
+          store.memberships.delete(mid)
+          store.membershipByUserOrg.delete(`${m.userId}:${m.orgId}`)
+        }
+      for (const [iid, inv] of store.invites)
+        if (inv.orgId === id) {
+          store.invites.delete(iid)
+          store.inviteByOrgToken.delete(`${inv.orgId}:${inv.tokenHash}`)
+        }
+      for (const [did, d] of store.orgDomains) if (d.orgId === id) store.orgDomains.delete(did)
+      for (const [rid, r] of store.orgRoles) if (r.orgId === id) store.orgRoles.delete(rid)
+      for (const [kid, k] of store.apiKeys)
+        if (k.orgId === id) {
+          store.apiKeys.delete(kid)
+          store.apiKeyByHash.delete(k.keyHash)
+        }
+      store.entitlements.delete(id)
+    },
+
+    async listDeletedOrganizations(before: Date) {
+      return [...store.orgs.values()].filter((o) => o.deletedAt && o.deletedAt <= before)
     },
 
     async addMember(data: { userId: ID; orgId: ID; role: string }): Promise<Membership> {
@@ -147,6 +197,99 @@ export function memoryRbac(store: MemoryStore): RbacAdapter {
       store.invites.set(inviteId, { ...inv, acceptedAt: now() })
     },
 
+    async listPendingInvites(orgId: ID) {
+      return [...store.invites.values()].filter((inv) => inv.orgId === orgId && !inv.acceptedAt)
+    },
+
+    async createOrgDomain(data: {
+      orgId: ID
+      domain: string
+      verificationToken: string
+      policy?: OrgDomainPolicy
+      role?: string | null
+    }): Promise<OrgDomain> {
+      for (const d of store.orgDomains.values())
+        if (d.orgId === data.orgId && d.domain === data.domain) throw new Error('org_domain_exists')
+      const id = newId()
+      const orgDomain: OrgDomain = {
+        id,
+        orgId: data.orgId,
+        domain: data.domain,
+        verificationToken: data.verificationToken,
+        verifiedAt: null,
+        policy: data.policy ?? 'auto-join',
+        role: data.role ?? null,
+        createdAt: now(),
+      }
+      store.orgDomains.set(id, orgDomain)
+      return orgDomain
+    },
+
+    async listOrgDomains(orgId: ID) {
+      return Array.from(store.orgDomains.values()).filter((d) => d.orgId === orgId)
+    },
+
+    async getOrgDomainsByDomain(domain: string) {
+      return Array.from(store.orgDomains.values()).filter((d) => d.domain === domain)
+    },
+
+    async updateOrgDomain(
+      id: ID,
+      data: Partial<Pick<OrgDomain, 'verifiedAt' | 'policy' | 'role'>>,
+    ): Promise<OrgDomain> {
+      const prev = store.orgDomains.get(id)
+      if (!prev) throw new Error('org_domain_not_found')
+      const next: OrgDomain = { ...prev, ...data }
+      store.orgDomains.set(id, next)
+      return next
+    },
+
+    async removeOrgDomain(id: ID): Promise<void> {
+      store.orgDomains.delete(id)
+    },
+
+    async createOrgRole(data: {
+      orgId: ID
+      name: string
+      description?: string | null
+      permissions: string[]
+    }): Promise<OrgRole> {
+      for (const r of store.orgRoles.values())
+        if (r.orgId === data.orgId && r.name === data.name) throw new Error('org_role_exists')
+      const id = newId()
+      const dt = now()
+      const role: OrgRole = {
+        id,
+        orgId: data.orgId,
+        name: data.name,
+        description: data.description ?? null,
+        permissions: [...data.permissions],
+        createdAt: dt,
+        updatedAt: dt,
+      }
+      store.orgRoles.set(id, role)
+      return role
+    },
+
+    async listOrgRoles(orgId: ID) {
+      return Array.from(store.orgRoles.values()).filter((r) => r.orgId === orgId)
+    },
+
+    async updateOrgRole(
+      id: ID,
+      data: Partial<Pick<OrgRole, 'description' | 'permissions'>>,
+    ): Promise<OrgRole> {
+      const prev = store.orgRoles.get(id)
+      if (!prev) throw new Error('org_role_not_found')
+      const next: OrgRole = { ...prev, ...data, updatedAt: now() }
+      store.orgRoles.set(id, next)
+      return next
+    },
+
+    async removeOrgRole(id: ID): Promise<void> {
+      store.orgRoles.delete(id)
+    },
+
     async getEntitlements(orgId: ID): Promise<Entitlements | null> {
       return store.entitlements.get(orgId) ?? null
     },
@@ -155,6 +298,18 @@ export function memoryRbac(store: MemoryStore): RbacAdapter {
       store.entitlements.set(orgId, ent)
     },
 
+    async withOrgLock<T>(orgId: ID, fn: (adapter: RbacAdapter) => Promise<T>): Promise<T> {
+      const prev = orgLocks.get(orgId) ?? Promise.resolve()
+      const run = prev.then(() => fn(rbac))
+      const tail = run.catch(() => {})
+      orgLocks.set(orgId, tail)
+      try {
+        return await run
+      } finally {
+        if (orgLocks.get(orgId) === tail) orgLocks.delete(orgId)
+      }
+    },
+
     // Global Roles implementation
     async assignGlobalRole(data: { userId: ID; role: string }): Promise<UserGlobalRole> {
       if (store.globalRoleByUserId.has(data.userId)) {
@@ -208,4 +363,5 @@ export function memoryRbac(store: MemoryStore): RbacAdapter {
       return out
     },
   }
+  return rbac
 }
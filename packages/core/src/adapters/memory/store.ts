@@ -3,9 +3,21 @@ import type {
   Invite,
   Membership,
   Organization,
+  OrgDomain,
+  OrgRole,
   UserGlobalRole,
 } from '../../rbac/types'
-import type { Account, ID, Session, User, VerificationToken } from '../../types'
+import type {
+  Account,
+  ApiKey,
+  AuthKey,
+  ID,
+  KeystoreRecord,
+  Session,
+  User,
+  VerificationToken,
+  WebhookEvent,
+} from '../../types'
 
 export type MemoryStore = {
   users: Map<ID, User>
@@ -17,6 +29,7 @@ export type MemoryStore = {
     type: string
     userId?: ID | null
     actorId?: ID | null
+    orgId?: ID | null
     ip?: string | null
     ua?: string | null
     at: Date
@@ -27,12 +40,28 @@ export type MemoryStore = {
   credentials: Map<ID, { id: ID; userId: ID; hash: string }>
   credByUserId: Map<ID, ID>
 
+  // authenticator keys (passkeys)
+  authKeys: Map<ID, AuthKey>
+  authKeyByKeyId: Map<string, ID>
+
+  // API keys
+  apiKeys: Map<ID, ApiKey>
+  apiKeyByHash: Map<string, ID>
+
+  // Inbound webhook events, by provider event id
+  webhookEvents: Map<string, WebhookEvent>
+
+  // Shared JWT keystores, by store id
+  keystores: Map<string, KeystoreRecord>
+
   // RBAC entities
   orgs: Map<ID, Organization>
   memberships: Map<ID, Membership>
   membershipByUserOrg: Map<string, ID> // `${userId}:${orgId}` -> membershipId
   invites: Map<ID, Invite>
   inviteByOrgToken: Map<string, ID> // `${orgId}:${tokenHash}` -> inviteId
+  orgDomains: Map<ID, OrgDomain>
+  orgRoles: Map<ID, OrgRole>
   entitlements: Map<ID, Entitlements>
   globalRoles: Map<ID, UserGlobalRole>
   globalRoleByUserId: Map<ID, ID> // userId -> globalRoleId
@@ -51,12 +80,20 @@ export function newStore(): MemoryStore {
     audit: [],
     credentials: new Map(),
     credByUserId: new Map(),
+    authKeys: new Map(),
+    authKeyByKeyId: new Map(),
+    apiKeys: new Map(),
+    apiKeyByHash: new Map(),
+    webhookEvents: new Map(),
+    keystores: new Map(),
     // RBAC
     orgs: new Map(),
     memberships: new Map(),
     membershipByUserOrg: new Map(),
     invites: new Map(),
     inviteByOrgToken: new Map(),
+    orgDomains: new Map(),
+    orgRoles: new Map(),
     entitlements: new Map(),
     globalRoles: new Map(),
     globalRoleByUserId: new Map(),
@@ -0,0 +1,231 @@
+import type { ApiKeyAdapter } from '../adapter'
+import { randToken } from '../crypto/random'
+import { tokenHash } from '../crypto/token-hash'
+import { ERR, KeyloomError } from '../errors'
+import { evaluate, isPolicyConfigured } from '../rbac/evaluate'
+import { permissionCatalog, resolveOrgRbac } from '../rbac/org-roles'
+import {
+  activeMemberRole,
+  effectivePermissions,
+  hasAnyRole,
+  matchesPermission,
+} from '../rbac/policy'
+import type { RbacAdapter } from '../rbac/types'
+import type { ApiKey, ID, RbacConfig } from '../types'
+
+/** Every key starts with this, so bearer API keys can be told apart from JWTs */
+export const API_KEY_PREFIX = 'klk_'
+const DISPLAY_PREFIX_LENGTH = API_KEY_PREFIX.length + 8
+// lastUsedAt is only written this often, so busy keys don't cost a write per request
+const LAST_USED_RESOLUTION_MS = 60_000
+
+export type ApiKeyInfo = Omit<ApiKey, 'keyHash'>
+
+/** The caller behind a verified API key */
+export type ApiKeyPrincipal = {
+  apiKey: ApiKeyInfo
+  userId: ID
+  orgId: ID | null
+  permissions: string[]
+}
+
+export type ApiKeyCtx = {
+  adapter: ApiKeyAdapter
+  secret: string
+}
+
+export type CreateApiKeyInput = {
+  name: string
+  userId: ID
+  orgId?: ID | null
+  /** Copy the permissions of this role from `rbac.roles` */
+  role?: string
+  permissions?: string[]
+  expiresAt?: Date | null
+}
+
+function toInfo({ keyHash: _keyHash, ...key }: ApiKey): ApiKeyInfo {
+  return key
+}
+
+/** All permissions declared in `rbac.roles` (structured mapping) or `rbac.permissions` (legacy) */
+export function declaredPermissions(rbac?: RbacConfig | null) {
+  return permissionCatalog(rbac)
+}
+
+/**
+ * Resolve the permissions a new key may carry. They must be declared in the RBAC config, and an
+ * org key can't be granted anything the creator's own role doesn't have.
+ */
+async function grantablePermissions(
+  input: CreateApiKeyInput,
+  rbac: RbacConfig | null | undefined,
+  adapter: ApiKeyAdapter & Partial<Pick<RbacAdapter, 'getMembership' | 'listOrgRoles'>>,
+) {
+  // Inside an org, its custom roles count as well
+  const orgRbac = input.orgId ? await resolveOrgRbac(input.orgId, { rbac, adapter }) : rbac
+  const requested = new Set(input.permissions ?? [])
+  if (input.role) {
+    const roles = orgRbac?.roles
+    if (!roles || Array.isArray(roles) || !roles[input.role])
+      throw new KeyloomError(ERR.API_KEY_INVALID_PERMISSION, `Unknown role: ${input.role}`)
+    for (const p of effectivePermissions(input.role, orgRbac)) requested.add(p)
+  }
+
+  const declared = declaredPermissions(rbac)
+  for (const p of requested) {
+    if (!declared.has(p))
+      throw new KeyloomError(ERR.API_KEY_INVALID_PERMISSION, `Unknown permission: ${p}`)
+  }
+
+  if (input.orgId) {
+    const role = activeMemberRole(await adapter.getMembership?.(input.userId, input.orgId))
+    if (!role)
+      throw new KeyloomError(ERR.API_KEY_INVALID_PERMISSION, 'Not a member of this organization')
+    for (const p of requested) {
+      if (!evaluate({ userId: input.userId, role }, p, undefined, orgRbac).allowed)
+        throw new KeyloomError(
+          ERR.API_KEY_INVALID_PERMISSION,
+          `Role ${role} lacks permission: ${p}`,
+        )
+    }
+  }
+  return [...requested]
+}
+
+/**
+ * Issue a key for a user, or for an organization when `orgId` is set.
+ * The plaintext `key` is returned once; only its hash is stored.
+ */
+export async function createApiKey(
+  input: CreateApiKeyInput,
+  ctx: ApiKeyCtx & {
+    adapter: ApiKeyAdapter & Partial<Pick<RbacAdapter, 'getMembership' | 'listOrgRoles'>>
+    rbac?: RbacConfig | null
+  },
+) {
+  const name = input.name?.trim()
+  if (!name) throw new KeyloomError('INVALID_REQUEST', 'API key name is required')
+  if (input.expiresAt && !(input.expiresAt.getTime() > Date.now()))
+    throw new KeyloomError('INVALID_REQUEST', 'Expiry must be in the future')
+
+  const permissions = await grantablePermissions(input, ctx.rbac, ctx.adapter)
+  const key = `${API_KEY_PREFIX}${randToken(24)}`
+  const record = await ctx.adapter.createApiKey({
+    name,
+    prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+    keyHash: await tokenHash(key, ctx.secret),
+    userId: input.userId,
+    orgId: input.orgId ?? null,
+    permissions,
+    expiresAt: input.expiresAt ?? null,
+  })
+  return { key, apiKey: toInfo(record) }
+}
+
+/** Keys owned by a user (personal) or an organization, without their hashes. */
+export async function listApiKeys(
+  owner: { userId: ID } | { orgId: ID },
+  adapter: ApiKeyAdapter,
+): Promise<ApiKeyInfo[]> {
+  return (await adapter.listApiKeys(owner)).map(toInfo)
+}
+
+/**
+ * Response shape for key management endpoints. Alongside the stored fields it carries the names
+ * the UI `ApiKeysCard` reads (`scopes`, `lastUsed`, `isActive`).
+ */
+export function apiKeyJson(key: ApiKeyInfo) {
+  return {
+    ...key,
+    scopes: key.permissions,
+    lastUsed: key.lastUsedAt,
+    isActive: !key.expiresAt || key.expiresAt.getTime() > Date.now(),
+  }
+}
+
+/** Revoke one of the owner's keys. Returns false when it doesn't exist or belongs to someone else. */
+export async function revokeApiKey(
+  owner: { userId: ID } | { orgId: ID },
+  id: ID,
+  adapter: ApiKeyAdapter,
+) {
+  const key = (await adapter.listApiKeys(owner)).find((k) => k.id === id)
+  if (!key) return false
+  await adapter.deleteApiKey(key.id)
+  return true
+}
+
+/** Extract an API key from an `Authorization: Bearer klk_...` header; other bearer tokens are ignored. */
+export function bearerApiKey(authorization: string | null | undefined) {
+  const m = /^Bearer\s+(\S+)$/i.exec(authorization ?? '')
+  return m?.[1]?.startsWith(API_KEY_PREFIX) ? m[1] : null
+}
+
+/** Verify a presented key, enforcing expiry and recording when it was last used. */
+export async function authenticateApiKey(
+  key: string | null | undefined,
+  ctx: ApiKeyCtx,
+): Promise<ApiKeyPrincipal | null> {
+  if (!key?.startsWith(API_KEY_PREFIX)) return null
+  let record = await ctx.adapter.getApiKeyByHash(await tokenHash(key, ctx.secret))
+  if (!record) return null
+  const now = Date.now()
+  if (record.expiresAt && record.expiresAt.getTime() <= now) return null
+  if (!record.lastUsedAt || now - record.lastUsedAt.getTime() >= LAST_USED_RESOLUTION_MS)
+    record = await ctx.adapter.updateApiKey(record.id, { lastUsedAt: new Date(now) })
+  return {
+    apiKey: toInfo(record),
+    userId: record.userId,
+    orgId: record.orgId ?? null,
+    permissions: record.permissions,
+  }
+}
+
+/**
+ * Role/permission check for an API key principal against an organization.
+ * - personal keys act as their user: the user's membership role must pass, and a required
+ *   permission must also be carried by the key
+ * - org keys only work for their own org; a required role is met when the key carries every
+ *   permission that role has
+ */
+export async function apiKeyAllows(
+  principal: ApiKeyPrincipal,
+  opts: {
+    orgId: ID
+    requiredRoles?: string[] | undefined
+    requiredPermission?: string | undefined
+    rbac?: RbacConfig | null | undefined
+    adapter: Pick<RbacAdapter, 'getMembership'> & Partial<Pick<RbacAdapter, 'listOrgRoles'>>
+  },
+) {
+  if (
+    opts.requiredPermission &&
+    !principal.permissions.some((p) => matchesPermission(p, opts.requiredPermission!))
+  )
+    return false
+  const rbac = await resolveOrgRbac(opts.orgId, opts)
+
+  if (principal.orgId) {
+    if (principal.orgId !== opts.orgId) return false
+    if (!opts.requiredRoles?.length) return true
+    const roles = rbac?.roles
+    if (!roles || Array.isArray(roles)) return false
+    return opts.requiredRoles.some(
+      (r) =>
+        !!roles[r] &&
+        effectivePermissions(r, rbac).every((needed) =>
+          principal.permissions.some((p) => matchesPermission(p, needed)),
+        ),
+    )
+  }
+
+  // Suspended (e.g. SCIM-deprovisioned) members lose their keys' access with their own
+  const role = activeMemberRole(await opts.adapter.getMembership(principal.userId, opts.orgId))
+  if (!role) return false
+  if (opts.requiredRoles?.length && !hasAnyRole(role, opts.requiredRoles, rbac)) return false
+  if (opts.requiredPermission && isPolicyConfigured(rbac))
+    return evaluate({ userId: principal.userId, role }, opts.requiredPermission, undefined, rbac)
+      .allowed
+  return true
+}
@@ -1,11 +1,15 @@
 export const Audit = {
   USER_CREATED: 'user.created',
   USER_UPDATED: 'user.updated',
+  EMAIL_VERIFIED: 'email.verified',
   SESSION_CREATED: 'session.created',
   SESSION_DELETED: 'session.deleted',
+  LOGIN_FAILED: 'login.failed',
+  PASSWORD_RESET: 'password.reset',
   TOKEN_ISSUED: 'token.issued',
   TOKEN_CONSUMED: 'token.consumed',
   ACCOUNT_LINKED: 'account.linked',
+  ACCOUNT_UNLINKED: 'account.unlinked',
   RBAC_ROLE_ASSIGNED: 'rbac.role.assigned',
   RBAC_ROLE_REVOKED: 'rbac.role.revoked',
 } as const
@@ -0,0 +1,38 @@
+import type { AuditLog } from '../types'
+
+export type AuditExportFormat = 'csv' | 'ndjson'
+
+export const AUDIT_EXPORT_CONTENT_TYPES: Record<AuditExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson',
+}
+
+const CSV_COLUMNS = ['id', 'at', 'type', 'userId', 'actorId', 'orgId', 'ip', 'ua', 'meta'] as const
+
+function csvCell(value: unknown) {
+  if (value === undefined || value === null) return ''
+  let s =
+    value instanceof Date
+      ? value.toISOString()
+      : typeof value === 'object'
+        ? JSON.stringify(value)
+        : String(value)
+  // Neutralize spreadsheet formulas
+  if (/^[=+\-@\t\r]/.test(s)) s = `'${s}`
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s
+}
+
+/** Serialize audit entries line by line, so large exports can be streamed. */
+export async function* formatAuditExport(
+  entries: AsyncIterable<AuditLog> | Iterable<AuditLog>,
+  format: AuditExportFormat,
+): AsyncGenerator<string> {
+  if (format === 'csv') yield `${CSV_COLUMNS.join(',')}\n`
+  for await (const e of entries) {
+    if (format === 'ndjson') {
+      yield `${JSON.stringify({ ...e, at: e.at.toISOString() })}\n`
+    } else {
+      yield `${CSV_COLUMNS.map((c) => csvCell(e[c])).join(',')}\n`
+    }
+  }
+}
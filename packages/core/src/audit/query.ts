@@ -0,0 +1,90 @@
+import type { Adapter } from '../adapter'
+import { ERR, KeyloomError } from '../errors'
+import type { AuditLog, AuditPage, AuditQuery, ID } from '../types'
+
+export const DEFAULT_AUDIT_PAGE_SIZE = 50
+export const MAX_AUDIT_PAGE_SIZE = 500
+
+/** Page size for a query, clamped to 1..MAX_AUDIT_PAGE_SIZE */
+export function auditPageSize(limit?: number) {
+  if (!limit || !Number.isFinite(limit)) return DEFAULT_AUDIT_PAGE_SIZE
+  return Math.min(Math.max(Math.floor(limit), 1), MAX_AUDIT_PAGE_SIZE)
+}
+
+// Cursors point at the last entry of a page: entries sort by (at desc, id desc)
+export function encodeAuditCursor(entry: { at: Date; id: ID }) {
+  return btoa(`${entry.at.getTime()}:${entry.id}`)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/g, '')
+}
+
+export function decodeAuditCursor(cursor: string): { at: Date; id: ID } {
+  try {
+    const raw = atob(cursor.replace(/-/g, '+').replace(/_/g, '/'))
+    const i = raw.indexOf(':')
+    const ms = Number(raw.slice(0, i))
+    if (i > 0 && Number.isFinite(ms) && raw.length > i + 1) {
+      return { at: new Date(ms), id: raw.slice(i + 1) }
+    }
+  } catch {}
+  throw new KeyloomError(ERR.INVALID_CURSOR, 'Malformed audit cursor')
+}
+
+/** Build a page from up to `limit + 1` rows already sorted newest first. */
+export function toAuditPage(rows: AuditLog[], limit: number): AuditPage {
+  const items = rows.slice(0, limit)
+  const last = items[items.length - 1]
+  return {
+    items,
+    nextCursor:
+      rows.length > limit && last?.id ? encodeAuditCursor({ at: last.at, id: last.id }) : null,
+  }
+}
+
+export function compareAuditDesc(a: AuditLog, b: AuditLog) {
+  const d = b.at.getTime() - a.at.getTime()
+  if (d !== 0) return d
+  return (b.id ?? '') < (a.id ?? '') ? -1 : (b.id ?? '') > (a.id ?? '') ? 1 : 0
+}
+
+/** In-process filter equivalent of what the database adapters push into their queries. */
+export function matchesAuditQuery(entry: AuditLog, query: AuditQuery) {
+  if (query.userId && entry.userId !== query.userId) return false
+  if (query.orgId && entry.orgId !== query.orgId) return false
+  if (query.type) {
+    const types = Array.isArray(query.type) ? query.type : [query.type]
+    if (!types.includes(entry.type)) return false
+  }
+  const at = entry.at.getTime()
+  if (query.since && at < query.since.getTime()) return false
+  if (query.until && at >= query.until.getTime()) return false
+  if (query.cursor) {
+    const c = decodeAuditCursor(query.cursor)
+    const cAt = c.at.getTime()
+    if (at > cAt || (at === cAt && (entry.id ?? '') >= c.id)) return false
+  }
+  return true
+}
+
+/** Walk every page of a query (used by exports). */
+export async function* iterateAudit(
+  adapter: Pick<Adapter, 'listAudit'>,
+  query: Omit<AuditQuery, 'cursor' | 'limit'>,
+): AsyncGenerator<AuditLog> {
+  let cursor: string | null = null
+  do {
+    const page: AuditPage = await adapter.listAudit({
+      ...query,
+      cursor,
+      limit: MAX_AUDIT_PAGE_SIZE,
+    })
+    yield* page.items
+    cursor = page.nextCursor
+  } while (cursor)
+}
+
+/** Delete audit entries older than `retentionDays`. */
+export async function pruneAuditLog(adapter: Pick<Adapter, 'pruneAudit'>, retentionDays: number) {
+  return adapter.pruneAudit(new Date(Date.now() - retentionDays * 24 * 60 * 60_000))
+}
@@ -58,6 +58,17 @@ export function validateKeyloomConfig(config: KeyloomConfig): void {
     throw new Error("Keyloom config: session.ttlMinutes must be positive");
   }
 
+  for (const key of [
+    "renewThresholdMinutes",
+    "absoluteTtlMinutes",
+    "idleTimeoutMinutes",
+  ] as const) {
+    const value = config.session?.[key];
+    if (value !== undefined && value <= 0) {
+      throw new Error(`Keyloom config: session.${key} must be positive`);
+    }
+  }
+
   if (config.jwt?.clockSkewSec && config.jwt.clockSkewSec < 0) {
     throw new Error("Keyloom config: jwt.clockSkewSec must be non-negative");
   }
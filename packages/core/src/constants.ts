@@ -3,6 +3,12 @@ export const DEFAULT_SESSION_TTL_MINUTES = 60;
 
 // Shared cookie names
 export const ORG_COOKIE_NAME = "__keyloom_org";
+// Holds the pending second-factor token between the first sign-in step and 2FA verification
+export const TWO_FACTOR_COOKIE_NAME = "__keyloom_2fa";
+// Where redirect-based sign-ins (OAuth, magic links, SAML) send users who still owe a 2FA code
+export const TWO_FACTOR_VERIFY_PATH = "/auth/two-factor";
+// Holds a sealed pending OAuth account link until the existing user confirms it
+export const OAUTH_LINK_COOKIE_NAME = "__keyloom_oauth_link";
 
 export const JWT_AUDIENCE = "keyloom";
 export const JWT_ISSUER = "keyloom";
@@ -1,6 +1,6 @@
 /**
  * Email module exports for Keyloom
- * Provides email sending functionality for magic link authentication
+ * Provides email sending for magic links, password resets and email verification
  */
 
 // Types
@@ -15,6 +15,9 @@ export type {
   SMTPConfig,
   ResendConfig,
   MagicLinkEmailData,
+  PasswordResetEmailData,
+  VerifyEmailData,
+  AccountLinkEmailData,
   EmailTemplate,
   EmailService,
   EmailServiceConfig,
@@ -24,6 +27,12 @@ export type {
 export {
   defaultMagicLinkTemplate,
   createMagicLinkTemplate,
+  defaultPasswordResetTemplate,
+  createPasswordResetTemplate,
+  defaultVerifyEmailTemplate,
+  createVerifyEmailTemplate,
+  defaultAccountLinkTemplate,
+  createAccountLinkTemplate,
 } from './templates'
 
 // Providers
@@ -49,6 +58,7 @@ export {
   createEmailService,
   createValidatedEmailService,
   createEmailServiceFromEnv,
+  createEmailServiceFromConfig,
 } from './service'
 
 // Provider registry
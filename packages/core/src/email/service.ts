@@ -10,9 +10,18 @@ import type {
   EmailMessage, 
   EmailResult, 
   MagicLinkEmailData,
+  PasswordResetEmailData,
+  VerifyEmailData,
+  AccountLinkEmailData,
   EmailTemplate 
 } from './types'
-import { defaultMagicLinkTemplate } from './templates'
+import type { KeyloomConfig } from '../types'
+import {
+  defaultMagicLinkTemplate,
+  defaultPasswordResetTemplate,
+  defaultVerifyEmailTemplate,
+  defaultAccountLinkTemplate,
+} from './templates'
 import { createSMTPProvider } from './providers/smtp'
 import { createResendProvider } from './providers/resend'
 
@@ -53,6 +62,40 @@ export class KeyloomEmailService implements EmailService {
     return this.sendEmail(message)
   }
 
+  async sendPasswordReset(data: PasswordResetEmailData): Promise<EmailResult> {
+    return this.sendTemplate(
+      this.config.passwordResetTemplate || defaultPasswordResetTemplate,
+      data
+    )
+  }
+
+  async sendVerificationEmail(data: VerifyEmailData): Promise<EmailResult> {
+    return this.sendTemplate(
+      this.config.verifyEmailTemplate || defaultVerifyEmailTemplate,
+      data
+    )
+  }
+
+  async sendAccountLinkConfirmation(data: AccountLinkEmailData): Promise<EmailResult> {
+    return this.sendTemplate(
+      this.config.accountLinkTemplate || defaultAccountLinkTemplate,
+      data
+    )
+  }
+
+  private sendTemplate<T extends { email: string }>(
+    template: EmailTemplate<T>,
+    data: T
+  ): Promise<EmailResult> {
+    return this.sendEmail({
+      to: data.email,
+      from: this.config.from,
+      subject: template.subject(data),
+      html: template.html(data),
+      text: template.text(data),
+    })
+  }
+
   async sendEmail(message: EmailMessage): Promise<EmailResult> {
     try {
       return await this.provider.send(message)
@@ -102,6 +145,24 @@ export async function createValidatedEmailService(
   return service
 }
 
+/**
+ * Create an email service from `KeyloomConfig.email`, or null when email isn't configured
+ */
+export function createEmailServiceFromConfig(
+  email: KeyloomConfig['email']
+): EmailService | null {
+  if (!email) return null
+  const config: EmailServiceConfig = {
+    provider: email.provider as EmailServiceConfig['provider'],
+    from: email.from,
+  }
+  if (email.template) config.template = email.template
+  if (email.passwordResetTemplate) config.passwordResetTemplate = email.passwordResetTemplate
+  if (email.verifyEmailTemplate) config.verifyEmailTemplate = email.verifyEmailTemplate
+  if (email.accountLinkTemplate) config.accountLinkTemplate = email.accountLinkTemplate
+  return createEmailService(config)
+}
+
 /**
  * Utility function to create email service from environment variables
  */
@@ -1,8 +1,14 @@
 /**
- * Default email templates for magic link authentication
+ * Default email templates for magic link, password reset, email verification and account linking
  */
 
-import type { EmailTemplate, MagicLinkEmailData } from './types'
+import type {
+  AccountLinkEmailData,
+  EmailTemplate,
+  MagicLinkEmailData,
+  PasswordResetEmailData,
+  VerifyEmailData,
+} from './types'
 
 /**
  * Default magic link email template
@@ -137,3 +143,239 @@ export function createMagicLinkTemplate(
     text: customTemplate.text || defaultMagicLinkTemplate.text,
   }
 }
+
+type ActionEmail = {
+  title: string
+  userName?: string | undefined
+  intro: string
+  buttonLabel: string
+  url: string
+  securityNote: string
+  email: string
+}
+
+function greeting(userName?: string) {
+  return userName ? `Hi ${userName},` : 'Hi there,'
+}
+
+/**
+ * Shared single-button layout for account emails (same look as the magic link email)
+ */
+function actionEmailHtml(e: ActionEmail): string {
+  return `
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>${e.title}</title>
+      <style>
+        body {
+          font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
+          line-height: 1.6;
+          color: #333;
+          max-width: 600px;
+          margin: 0 auto;
+          padding: 20px;
+          background-color: #f9f9f9;
+        }
+        .container {
+          background-color: white;
+          padding: 40px;
+          border-radius: 8px;
+          box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1);
+        }
+        .header {
+          text-align: center;
+          margin-bottom: 30px;
+        }
+        .title {
+          color: #1a1a1a;
+          font-size: 24px;
+          font-weight: 600;
+          margin: 0 0 10px 0;
+        }
+        .subtitle {
+          color: #666;
+          font-size: 16px;
+          margin: 0;
+        }
+        .button {
+          display: inline-block;
+          background-color: #007bff;
+          color: white;
+          text-decoration: none;
+          padding: 12px 24px;
+          border-radius: 6px;
+          font-weight: 500;
+          margin: 20px 0;
+          text-align: center;
+        }
+        .link-container {
+          text-align: center;
+          margin: 30px 0;
+        }
+        .footer {
+          margin-top: 30px;
+          padding-top: 20px;
+          border-top: 1px solid #eee;
+          font-size: 14px;
+          color: #666;
+        }
+        .security-note {
+          background-color: #f8f9fa;
+          border-left: 4px solid #007bff;
+          padding: 15px;
+          margin: 20px 0;
+          border-radius: 4px;
+        }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1 class="title">${e.title}</h1>
+          <p class="subtitle">${greeting(e.userName)}</p>
+        </div>
+
+        <p>${e.intro}</p>
+
+        <div class="link-container">
+          <a href="${e.url}" class="button">${e.buttonLabel}</a>
+        </div>
+
+        <div class="security-note">
+          <strong>Security Note:</strong> ${e.securityNote}
+        </div>
+
+        <div class="footer">
+          <p>If the button doesn't work, you can copy and paste this link into your browser:</p>
+          <p style="word-break: break-all; color: #007bff;">${e.url}</p>
+          <p style="margin-top: 20px;">This email was sent to ${e.email}. If you have any questions, please contact our support team.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `
+}
+
+function actionEmailText(e: ActionEmail): string {
+  return `
+${e.title}
+
+${greeting(e.userName)}
+
+${e.intro}
+
+${e.url}
+
+Security Note: ${e.securityNote}
+
+This email was sent to ${e.email}. If you have any questions, please contact our support team.
+  `.trim()
+}
+
+function passwordResetEmail(data: PasswordResetEmailData): ActionEmail {
+  return {
+    title: `Reset your ${data.appName} password`,
+    userName: data.userName,
+    intro: `We received a request to reset your password. Click the button below to choose a new one. This link will expire in ${data.expirationMinutes} minutes.`,
+    buttonLabel: 'Reset Password',
+    url: data.resetUrl,
+    securityNote:
+      "If you didn't request a password reset, you can safely ignore this email. Your password will not change.",
+    email: data.email,
+  }
+}
+
+function verifyEmail(data: VerifyEmailData): ActionEmail {
+  return {
+    title: `Verify your email for ${data.appName}`,
+    userName: data.userName,
+    intro: `Please confirm that this is your email address. This link will expire in ${data.expirationMinutes} minutes.`,
+    buttonLabel: 'Verify Email',
+    url: data.verifyUrl,
+    securityNote:
+      "If you didn't create an account, you can safely ignore this email.",
+    email: data.email,
+  }
+}
+
+function accountLinkEmail(data: AccountLinkEmailData): ActionEmail {
+  return {
+    title: `Link ${data.provider} to your ${data.appName} account`,
+    userName: data.userName,
+    intro: `Someone signed in with ${data.provider} using your email address. Click the button below to link it to your account. This link will expire in ${data.expirationMinutes} minutes and only works in the browser that started the sign-in.`,
+    buttonLabel: 'Link Account',
+    url: data.confirmUrl,
+    securityNote:
+      "If this wasn't you, ignore this email. Nothing is linked unless you confirm.",
+    email: data.email,
+  }
+}
+
+/**
+ * Default password reset email template
+ */
+export const defaultPasswordResetTemplate: EmailTemplate<PasswordResetEmailData> = {
+  subject: (data) => `Reset your ${data.appName} password`,
+  html: (data) => actionEmailHtml(passwordResetEmail(data)),
+  text: (data) => actionEmailText(passwordResetEmail(data)),
+}
+
+/**
+ * Default email verification template
+ */
+export const defaultVerifyEmailTemplate: EmailTemplate<VerifyEmailData> = {
+  subject: (data) => `Verify your email for ${data.appName}`,
+  html: (data) => actionEmailHtml(verifyEmail(data)),
+  text: (data) => actionEmailText(verifyEmail(data)),
+}
+
+/**
+ * Default account link confirmation template
+ */
+export const defaultAccountLinkTemplate: EmailTemplate<AccountLinkEmailData> = {
+  subject: (data) => `Link ${data.provider} to your ${data.appName} account`,
+  html: (data) => actionEmailHtml(accountLinkEmail(data)),
+  text: (data) => actionEmailText(accountLinkEmail(data)),
+}
+
+/**
+ * Create a custom password reset template
+ */
+export function createPasswordResetTemplate(
+  customTemplate: Partial<EmailTemplate<PasswordResetEmailData>>
+): EmailTemplate<PasswordResetEmailData> {
+  return {
+    subject: customTemplate.subject || defaultPasswordResetTemplate.subject,
+    html: customTemplate.html || defaultPasswordResetTemplate.html,
+    text: customTemplate.text || defaultPasswordResetTemplate.text,
+  }
+}
+
+/**
+ * Create a custom email verification template
+ */
+export function createVerifyEmailTemplate(
+  customTemplate: Partial<EmailTemplate<VerifyEmailData>>
+): EmailTemplate<VerifyEmailData> {
+  return {
+    subject: customTemplate.subject || defaultVerifyEmailTemplate.subject,
+    html: customTemplate.html || defaultVerifyEmailTemplate.html,
+    text: customTemplate.text || defaultVerifyEmailTemplate.text,
+  }
+}
+
+/**
+ * Create a custom account link confirmation template
+ */
+export function createAccountLinkTemplate(
+  customTemplate: Partial<EmailTemplate<AccountLinkEmailData>>
+): EmailTemplate<AccountLinkEmailData> {
+  return {
+    subject: customTemplate.subject || defaultAccountLinkTemplate.subject,
+    html: customTemplate.html || defaultAccountLinkTemplate.html,
+    text: customTemplate.text || defaultAccountLinkTemplate.text,
+  }
+}
@@ -1,6 +1,6 @@
 /**
  * Email provider types and interfaces for Keyloom authentication
- * Supports SMTP and Resend email providers for magic link authentication
+ * Supports SMTP and Resend email providers for magic link, password reset and email verification
  */
 
 /**
@@ -105,15 +105,65 @@ export interface MagicLinkEmailData {
 }
 
 /**
- * Email template interface
+ * Password reset email template data
  */
-export interface EmailTemplate {
+export interface PasswordResetEmailData {
+  /** User's email address */
+  email: string
+  /** URL of the reset-password page, carrying the token */
+  resetUrl: string
+  /** Application name */
+  appName: string
+  /** Link expiration time in minutes */
+  expirationMinutes: number
+  /** User's name (if available) */
+  userName?: string
+}
+
+/**
+ * Email verification template data
+ */
+export interface VerifyEmailData {
+  /** User's email address */
+  email: string
+  /** URL of the verify-email page, carrying the token */
+  verifyUrl: string
+  /** Application name */
+  appName: string
+  /** Link expiration time in minutes */
+  expirationMinutes: number
+  /** User's name (if available) */
+  userName?: string
+}
+
+/**
+ * OAuth account link confirmation template data
+ */
+export interface AccountLinkEmailData {
+  /** User's email address */
+  email: string
+  /** Provider being linked, e.g. `github` */
+  provider: string
+  /** URL that confirms the link, carrying the token */
+  confirmUrl: string
+  /** Application name */
+  appName: string
+  /** Link expiration time in minutes */
+  expirationMinutes: number
+  /** User's name (if available) */
+  userName?: string
+}
+
+/**
+ * Email template interface (defaults to magic link data)
+ */
+export interface EmailTemplate<T = MagicLinkEmailData> {
   /** Generate email subject */
-  subject(data: MagicLinkEmailData): string
+  subject(data: T): string
   /** Generate HTML email content */
-  html(data: MagicLinkEmailData): string
+  html(data: T): string
   /** Generate plain text email content */
-  text(data: MagicLinkEmailData): string
+  text(data: T): string
 }
 
 /**
@@ -126,6 +176,12 @@ export interface EmailServiceConfig {
   from: string
   /** Email template (optional, uses default if not provided) */
   template?: EmailTemplate
+  /** Password reset template (optional, uses default if not provided) */
+  passwordResetTemplate?: EmailTemplate<PasswordResetEmailData>
+  /** Email verification template (optional, uses default if not provided) */
+  verifyEmailTemplate?: EmailTemplate<VerifyEmailData>
+  /** Account link confirmation template (optional, uses default if not provided) */
+  accountLinkTemplate?: EmailTemplate<AccountLinkEmailData>
 }
 
 /**
@@ -134,6 +190,12 @@ export interface EmailServiceConfig {
 export interface EmailService {
   /** Send a magic link email */
   sendMagicLink(data: MagicLinkEmailData): Promise<EmailResult>
+  /** Send a password reset email */
+  sendPasswordReset(data: PasswordResetEmailData): Promise<EmailResult>
+  /** Send an email address verification email */
+  sendVerificationEmail(data: VerifyEmailData): Promise<EmailResult>
+  /** Ask the owner of an existing account to confirm linking an OAuth provider */
+  sendAccountLinkConfirmation?(data: AccountLinkEmailData): Promise<EmailResult>
   /** Send a generic email */
   sendEmail(message: EmailMessage): Promise<EmailResult>
 }
@@ -16,4 +16,38 @@ export const ERR = {
   TOKEN_CONSUMED: 'TOKEN_CONSUMED',
   TOKEN_EXPIRED: 'TOKEN_EXPIRED',
   ADAPTER_UNIQUE_VIOLATION: 'ADAPTER_UNIQUE_VIOLATION',
+  TWO_FACTOR_INVALID_CODE: 'TWO_FACTOR_INVALID_CODE',
+  TWO_FACTOR_NOT_ENABLED: 'TWO_FACTOR_NOT_ENABLED',
+  TWO_FACTOR_ALREADY_ENABLED: 'TWO_FACTOR_ALREADY_ENABLED',
+  TWO_FACTOR_PENDING_INVALID: 'TWO_FACTOR_PENDING_INVALID',
+  RATE_LIMITED: 'RATE_LIMITED',
+  HOOK_REJECTED: 'HOOK_REJECTED',
+  INVALID_CURSOR: 'INVALID_CURSOR',
+  API_KEY_INVALID_PERMISSION: 'API_KEY_INVALID_PERMISSION',
+  LAST_SIGN_IN_METHOD: 'LAST_SIGN_IN_METHOD',
+  OAUTH_ACCOUNT_NOT_LINKED: 'OAUTH_ACCOUNT_NOT_LINKED',
+  OAUTH_LINK_CONFIRMATION_REQUIRED: 'OAUTH_LINK_CONFIRMATION_REQUIRED',
+  OAUTH_LINK_INVALID: 'OAUTH_LINK_INVALID',
+  OAUTH_LINK_USER_MISMATCH: 'OAUTH_LINK_USER_MISMATCH',
+  ACCOUNT_NOT_FOUND: 'ACCOUNT_NOT_FOUND',
+  OAUTH_TOKEN_EXPIRED: 'OAUTH_TOKEN_EXPIRED',
+  OAUTH_REFRESH_FAILED: 'OAUTH_REFRESH_FAILED',
+  ORG_DOMAIN_INVALID: 'ORG_DOMAIN_INVALID',
+  ORG_DOMAIN_NOT_FOUND: 'ORG_DOMAIN_NOT_FOUND',
+  ORG_DOMAIN_TAKEN: 'ORG_DOMAIN_TAKEN',
+  ORG_DOMAIN_UNVERIFIED: 'ORG_DOMAIN_UNVERIFIED',
+  ORG_SSO_REQUIRED: 'ORG_SSO_REQUIRED',
+  ORG_ROLE_INVALID: 'ORG_ROLE_INVALID',
+  ORG_ROLE_NOT_FOUND: 'ORG_ROLE_NOT_FOUND',
+  ORG_ROLE_EXISTS: 'ORG_ROLE_EXISTS',
+  ORG_ROLE_RESERVED: 'ORG_ROLE_RESERVED',
+  ORG_ROLE_LIMIT: 'ORG_ROLE_LIMIT',
+  ORG_ROLE_IN_USE: 'ORG_ROLE_IN_USE',
+  ORG_ROLE_FORBIDDEN: 'ORG_ROLE_FORBIDDEN',
+  ORG_NOT_FOUND: 'ORG_NOT_FOUND',
+  ORG_INVALID: 'ORG_INVALID',
+  ORG_MEMBER_NOT_FOUND: 'ORG_MEMBER_NOT_FOUND',
+  ORG_LAST_OWNER: 'ORG_LAST_OWNER',
+  SEAT_LIMIT_REACHED: 'SEAT_LIMIT_REACHED',
+  ENTITLEMENT_REQUIRED: 'ENTITLEMENT_REQUIRED',
 } as const
@@ -0,0 +1,122 @@
+import type { Adapter } from '../adapter'
+import { ERR, KeyloomError } from '../errors'
+import type { SessionMeta } from '../session/model'
+import type { ID } from '../types'
+import type {
+  BeforeHooks,
+  EventBus,
+  EventListener,
+  EventMeta,
+  HooksConfig,
+  KeyloomEvent,
+  KeyloomEventMap,
+  KeyloomEventType,
+} from './types'
+
+// Which part of the hook context a returned object is merged into
+const MUTABLE_FIELD: { [K in keyof BeforeHooks]-?: string | null } = {
+  userCreate: 'data',
+  signIn: null,
+  oauthProfile: 'profile',
+}
+
+/** Throw from a before hook to block the action with a client-safe message. */
+export function rejectHook(message = 'Rejected by hook'): never {
+  throw new KeyloomError(ERR.HOOK_REJECTED, message)
+}
+
+/** Audit columns for an event raised while handling a request with session metadata. */
+export function eventMeta(userId: ID | undefined, meta: SessionMeta = {}): EventMeta {
+  const out: EventMeta = {}
+  if (userId) out.userId = userId
+  if (meta.ip) out.ip = meta.ip
+  if (meta.userAgent) out.ua = meta.userAgent
+  return out
+}
+
+function toArray<T>(v: T | T[] | undefined): T[] {
+  if (!v) return []
+  return Array.isArray(v) ? v : [v]
+}
+
+/**
+ * Event bus for the auth lifecycle. Events are persisted through `adapter.appendAudit`
+ * (unless `hooks.persist` is false) and then fanned out to listeners. Persistence and
+ * listener failures are logged, never thrown, so they can't break sign-in.
+ */
+export function createEventBus(
+  opts: {
+    hooks?: HooksConfig | undefined
+    adapter?: Pick<Adapter, 'appendAudit'> | undefined
+  } = {},
+): EventBus {
+  const { hooks = {}, adapter } = opts
+  const listeners = new Map<string, EventListener<any>[]>()
+  for (const [type, l] of Object.entries(hooks.on ?? {})) {
+    listeners.set(type, toArray(l as EventListener<any> | EventListener<any>[]))
+  }
+
+  return {
+    async emit<K extends KeyloomEventType>(
+      type: K,
+      data: KeyloomEventMap[K],
+      meta: EventMeta = {},
+    ) {
+      const event = { type, at: new Date(), data, ...meta } as KeyloomEvent<K>
+
+      if (adapter && hooks.persist !== false) {
+        try {
+          await adapter.appendAudit({
+            type,
+            at: event.at,
+            meta: data as Record<string, unknown>,
+            ...(meta.userId ? { userId: meta.userId } : {}),
+            ...(meta.actorId ? { actorId: meta.actorId } : {}),
+            ...(meta.orgId ? { orgId: meta.orgId } : {}),
+            ...(meta.ip ? { ip: meta.ip } : {}),
+            ...(meta.ua ? { ua: meta.ua } : {}),
+          })
+        } catch (error) {
+          console.error(`Failed to persist ${type} event:`, error)
+        }
+      }
+
+      for (const listener of [...(listeners.get(type) ?? []), ...(listeners.get('*') ?? [])]) {
+        try {
+          await listener(event)
+        } catch (error) {
+          console.error(`${type} listener failed:`, error)
+        }
+      }
+    },
+
+    on(type, listener) {
+      const list = listeners.get(type) ?? []
+      list.push(listener)
+      listeners.set(type, list)
+      return () => {
+        const i = list.indexOf(listener)
+        if (i >= 0) list.splice(i, 1)
+      }
+    },
+
+    async before(name, ctx) {
+      const hook = hooks.before?.[name] as ((c: typeof ctx) => unknown) | undefined
+      if (!hook) return ctx
+      let result: unknown
+      try {
+        result = await hook(ctx)
+      } catch (error) {
+        if (error instanceof KeyloomError) throw error
+        // Only `rejectHook`/KeyloomError messages are meant for the client; anything else may be
+        // an internal failure whose message shouldn't leave the server
+        console.error(`${name} hook failed:`, error)
+        throw new KeyloomError(ERR.HOOK_REJECTED, 'Rejected by hook')
+      }
+      const field = MUTABLE_FIELD[name]
+      if (!field || !result || typeof result !== 'object') return ctx
+      const current = (ctx as Record<string, unknown>)[field] as object
+      return { ...ctx, [field]: { ...current, ...result } }
+    },
+  }
+}
@@ -0,0 +1,105 @@
+import type { Profile } from '../oauth/types'
+import type { ID, User } from '../types'
+
+type MaybePromise<T> = T | Promise<T>
+
+/** How the user authenticated; recorded on user/session events */
+export type AuthMethod =
+  | 'password'
+  | 'oauth'
+  | 'magic_link'
+  | 'two_factor'
+  | 'passkey'
+  | 'saml'
+  | 'scim'
+
+/**
+ * Payloads per event type. These are persisted as `AuditEvent.meta`, so they must stay
+ * serializable and never carry secrets (session ids, tokens, password hashes).
+ */
+export type KeyloomEventMap = {
+  'user.created': { email: string | null; method: AuthMethod; provider?: string }
+  'user.updated': { fields: string[] }
+  'email.verified': { email: string }
+  'session.created': { method: AuthMethod; provider?: string }
+  'session.deleted': { reason: 'logout' | 'revoked' | 'expired' }
+  'login.failed': { email: string; method: AuthMethod; reason: string }
+  'password.reset': Record<string, never>
+  'account.linked': { provider: string; providerAccountId: string }
+  'account.unlinked': { provider: string; providerAccountId: string }
+  'rbac.role.assigned': { orgId: ID; role: string }
+  'rbac.role.revoked': { orgId: ID }
+}
+
+export type KeyloomEventType = keyof KeyloomEventMap
+
+/** Who/where an event came from; mapped onto the `AuditEvent` columns */
+export type EventMeta = {
+  userId?: ID
+  actorId?: ID
+  orgId?: ID
+  ip?: string | null
+  ua?: string | null
+}
+
+export type KeyloomEvent<K extends KeyloomEventType = KeyloomEventType> = {
+  [T in K]: { type: T; at: Date; data: KeyloomEventMap[T] } & EventMeta
+}[K]
+
+export type EventListener<K extends KeyloomEventType = KeyloomEventType> = (
+  event: KeyloomEvent<K>,
+) => MaybePromise<void>
+
+/** Fields a `userCreate` hook may inspect or override */
+export type NewUserData = {
+  email: string | null
+  name?: string | null
+  image?: string | null
+  emailVerified?: Date | null
+  [key: string]: unknown
+}
+
+/**
+ * Hooks that run before an action. Throw (ideally `rejectHook(...)`) to veto it;
+ * hooks that return an object have it merged into the pending data.
+ */
+export type BeforeHooks = {
+  /** Before a user row is created by any sign-up path */
+  userCreate?: (ctx: {
+    data: NewUserData
+    method: AuthMethod
+    provider?: string
+  }) => MaybePromise<Partial<NewUserData> | undefined>
+  /** Before a session is issued to an existing or new user */
+  signIn?: (ctx: { user: User; method: AuthMethod; provider?: string }) => MaybePromise<void>
+  /** After the OAuth profile is fetched, before it is used to find or create the user */
+  oauthProfile?: (ctx: {
+    provider: string
+    profile: Profile
+  }) => MaybePromise<Partial<Profile> | undefined>
+}
+
+export type HooksConfig = {
+  before?: BeforeHooks
+  /** Listeners per event type; `'*'` receives every event */
+  on?: { [K in KeyloomEventType]?: EventListener<K> | EventListener<K>[] } & {
+    '*'?: EventListener | EventListener[]
+  }
+  /** Write events to the audit log via `adapter.appendAudit` (default: true) */
+  persist?: boolean
+}
+
+export type EventBus = {
+  emit<K extends KeyloomEventType>(
+    type: K,
+    data: KeyloomEventMap[K],
+    meta?: EventMeta,
+  ): Promise<void>
+  /** Subscribe at runtime; returns an unsubscribe function */
+  on<K extends KeyloomEventType>(type: K | '*', listener: EventListener<K>): () => void
+  /** Run a before hook; resolves to the (possibly mutated) data, or rejects if the hook vetoes */
+  before<K extends keyof BeforeHooks>(
+    name: K,
+    ctx: Parameters<NonNullable<BeforeHooks[K]>>[0],
+  ): Promise<Parameters<NonNullable<BeforeHooks[K]>>[0]>
+}
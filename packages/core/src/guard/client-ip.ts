@@ -0,0 +1,79 @@
+/**
+ * Which `X-Forwarded-For` hops to believe:
+ * - `false`/unset: ignore the header and use the socket address
+ * - `true`: trust every hop (the left-most entry is the client)
+ * - number: how many proxies sit in front of the app
+ * - list: addresses or IPv4 CIDRs (`10.0.0.0/8`) of your proxies
+ */
+export type TrustedProxies = boolean | number | string[];
+
+function normalize(ip: string) {
+  const v = ip.trim().replace(/^\[|\]$/g, "");
+  return v.startsWith("::ffff:") && v.includes(".") ? v.slice(7) : v;
+}
+
+function ipv4ToInt(ip: string) {
+  const parts = ip.split(".");
+  if (parts.length !== 4) return null;
+  let n = 0;
+  for (const p of parts) {
+    const octet = Number(p);
+    if (!/^\d{1,3}$/.test(p) || octet > 255) return null;
+    n = n * 256 + octet;
+  }
+  return n;
+}
+
+function matches(ip: string, entry: string) {
+  const [range, bits] = entry.split("/");
+  if (bits === undefined) return normalize(entry) === ip;
+  const a = ipv4ToInt(ip);
+  const b = ipv4ToInt(range as string);
+  const prefix = Number(bits);
+  if (a === null || b === null || !(prefix >= 0 && prefix <= 32)) return false;
+  const size = 2 ** (32 - prefix);
+  return Math.floor(a / size) === Math.floor(b / size);
+}
+
+/**
+ * Client IP from the socket address and `X-Forwarded-For`, believing only trusted proxies.
+ * When the runtime doesn't expose the socket address (`remoteAddress` null), the nearest hop
+ * is assumed to be the platform's own proxy.
+ */
+export function resolveClientIp(
+  input: { remoteAddress?: string | null; forwardedFor?: string | null },
+  trusted: TrustedProxies = false
+): string | null {
+  const remote = input.remoteAddress ? normalize(input.remoteAddress) : null;
+  if (trusted === false) return remote;
+
+  const hops = (input.forwardedFor ?? "").split(",").map(normalize).filter(Boolean);
+  const chain: (string | null)[] = [...hops, remote];
+  if (trusted === true) return chain.find((ip) => ip !== null) ?? null;
+
+  if (typeof trusted === "number") {
+    return chain[Math.max(0, chain.length - 1 - trusted)] ?? null;
+  }
+
+  let i = chain.length - 1;
+  while (i > 0) {
+    const ip = chain[i];
+    if (ip && !trusted.some((entry) => matches(ip, entry))) break;
+    i--;
+  }
+  return chain[i] ?? null;
+}
+
+/**
+ * `resolveClientIp` for a fetch `Request`. Next.js versions that expose the socket address set
+ * `req.ip`; elsewhere it's unknown.
+ */
+export function requestClientIp(req: Request, trusted?: TrustedProxies): string | null {
+  return resolveClientIp(
+    {
+      remoteAddress: (req as { ip?: string }).ip ?? null,
+      forwardedFor: req.headers.get("x-forwarded-for"),
+    },
+    trusted
+  );
+}
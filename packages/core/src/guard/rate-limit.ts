@@ -1,37 +1,202 @@
+import type { TrustedProxies } from "./client-ip";
+
 export type RateLimitOptions = {
   capacity?: number; // bucket capacity
   refillPerSec?: number; // tokens per second
 };
 
+/** `limit` requests per `windowSec` seconds */
+export type RateLimitWindow = { limit: number; windowSec: number };
+
+/** Outcome of one request against a window; enough to emit `RateLimit-*` / `Retry-After` headers */
+export type RateLimitResult = {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Seconds until the budget is fully restored */
+  resetSec: number;
+  /** Seconds to wait before retrying (0 when allowed) */
+  retryAfterSec: number;
+};
+
 export interface RateLimiter {
   allow(key: string, opts?: RateLimitOptions): Promise<boolean>;
+  /** Count one request and report the remaining budget. Limiters without it fall back to `allow`. */
+  consume?(key: string, window: RateLimitWindow): Promise<RateLimitResult>;
 }
 
 type Bucket = { tokens: number; updatedAt: number };
 const buckets = new Map<string, Bucket>();
+// Full buckets are dropped once a store grows past this, so one-off keys don't pile up
+const MAX_BUCKETS = 10_000;
 
-export function rateLimit(
+function takeToken(
+  store: Map<string, Bucket>,
   key: string,
-  { capacity = 10, refillPerSec = 1 }: RateLimitOptions = {}
+  capacity: number,
+  refillPerSec: number
 ) {
   const now = Date.now();
-  const b = buckets.get(key) ?? { tokens: capacity, updatedAt: now };
+  if (store.size > MAX_BUCKETS && !store.has(key)) {
+    for (const [k, b] of store) {
+      if (b.tokens + ((now - b.updatedAt) / 1000) * refillPerSec >= capacity)
+        store.delete(k);
+    }
+  }
+  const b = store.get(key) ?? { tokens: capacity, updatedAt: now };
   const delta = Math.max(0, now - b.updatedAt) / 1000;
-  b.tokens = Math.min(capacity, b.tokens + delta * (refillPerSec ?? 1));
+  b.tokens = Math.min(capacity, b.tokens + delta * refillPerSec);
   b.updatedAt = now;
-  if (b.tokens < 1) {
-    buckets.set(key, b);
-    return false;
-  }
-  b.tokens -= 1;
-  buckets.set(key, b);
-  return true;
+  const ok = b.tokens >= 1;
+  if (ok) b.tokens -= 1;
+  store.set(key, b);
+  return { ok, tokens: b.tokens };
+}
+
+export function rateLimit(
+  key: string,
+  { capacity = 10, refillPerSec = 1 }: RateLimitOptions = {}
+) {
+  return takeToken(buckets, key, capacity, refillPerSec).ok;
 }
 
+/** Process-local token buckets. Fine for a single instance; use `RedisRateLimiter` across instances. */
 export function inMemoryRateLimiter(): RateLimiter {
+  const store = new Map<string, Bucket>();
   return {
-    async allow(key: string, opts?: RateLimitOptions) {
-      return rateLimit(key, opts);
+    async allow(key: string, { capacity = 10, refillPerSec = 1 }: RateLimitOptions = {}) {
+      return takeToken(store, key, capacity, refillPerSec).ok;
+    },
+    async consume(key: string, { limit, windowSec }: RateLimitWindow) {
+      const refill = limit / windowSec;
+      const { ok, tokens } = takeToken(store, key, limit, refill);
+      return {
+        allowed: ok,
+        limit,
+        remaining: Math.floor(tokens),
+        resetSec: Math.ceil((limit - tokens) / refill),
+        retryAfterSec: ok ? 0 : Math.ceil((1 - tokens) / refill),
+      };
     },
   };
 }
+
+/** Count one request, approximating the budget for limiters that only implement `allow`. */
+export async function consumeRateLimit(
+  limiter: RateLimiter,
+  key: string,
+  window: RateLimitWindow
+): Promise<RateLimitResult> {
+  if (limiter.consume) return limiter.consume(key, window);
+  const allowed = await limiter.allow(key, {
+    capacity: window.limit,
+    refillPerSec: window.limit / window.windowSec,
+  });
+  return {
+    allowed,
+    limit: window.limit,
+    remaining: allowed ? window.limit - 1 : 0,
+    resetSec: window.windowSec,
+    retryAfterSec: allowed ? 0 : window.windowSec,
+  };
+}
+
+// --- Per-route policies ---
+
+export type RateLimitRoute =
+  | "login"
+  | "register"
+  | "password_request"
+  | "password_reset"
+  | "email_verify"
+  | "magic_link_request"
+  | "magic_link_verify"
+  | "two_factor"
+  | "oauth"
+  | "session"
+  | "default";
+
+/** Separate budgets per client IP and per account (email/identifier); `false` turns one off */
+export type RouteRateLimit = {
+  ip?: RateLimitWindow | false;
+  account?: RateLimitWindow | false;
+};
+
+export type RateLimitConfig = {
+  /** Default true */
+  enabled?: boolean;
+  /** Shared store for every instance, e.g. `new RedisRateLimiter(redis)`. Defaults to in-memory buckets */
+  limiter?: RateLimiter;
+  /** Per-route overrides merged over `DEFAULT_RATE_LIMITS`; `false` disables a route */
+  routes?: Partial<Record<RateLimitRoute, RouteRateLimit | false>>;
+  /** Proxies whose `X-Forwarded-For` entries are believed when resolving the client IP */
+  trustedProxies?: TrustedProxies;
+};
+
+export const DEFAULT_RATE_LIMITS: Record<RateLimitRoute, RouteRateLimit> = {
+  login: { ip: { limit: 20, windowSec: 60 }, account: { limit: 10, windowSec: 300 } },
+  register: { ip: { limit: 10, windowSec: 600 }, account: { limit: 3, windowSec: 600 } },
+  password_request: { ip: { limit: 5, windowSec: 600 }, account: { limit: 3, windowSec: 900 } },
+  password_reset: { ip: { limit: 10, windowSec: 600 }, account: { limit: 5, windowSec: 600 } },
+  email_verify: { ip: { limit: 10, windowSec: 600 }, account: { limit: 5, windowSec: 600 } },
+  magic_link_request: { ip: { limit: 5, windowSec: 600 }, account: { limit: 3, windowSec: 600 } },
+  magic_link_verify: { ip: { limit: 10, windowSec: 60 }, account: { limit: 5, windowSec: 600 } },
+  // `account` is the user id, counted by `verifyPendingSecondFactor` across pending tokens
+  two_factor: { ip: { limit: 10, windowSec: 60 }, account: { limit: 5, windowSec: 150 } },
+  oauth: { ip: { limit: 30, windowSec: 60 } },
+  session: { ip: { limit: 300, windowSec: 60 } },
+  default: { ip: { limit: 60, windowSec: 60 } },
+};
+
+let defaultLimiter: RateLimiter | undefined;
+
+/** Effective policy for a route, or null when rate limiting is disabled for it */
+export function routeRateLimit(
+  route: RateLimitRoute,
+  config?: RateLimitConfig
+): RouteRateLimit | null {
+  if (config?.enabled === false) return null;
+  const override = config?.routes?.[route];
+  if (override === false) return null;
+  return { ...DEFAULT_RATE_LIMITS[route], ...override };
+}
+
+/**
+ * Count a request against the route's per-IP and per-account budgets.
+ * Returns the first exhausted budget (`allowed: false`), otherwise the tightest one;
+ * null when nothing was checked (disabled, or no IP/account known).
+ */
+export async function checkRateLimit(
+  route: RateLimitRoute,
+  subject: { ip?: string | null; account?: string | null },
+  config?: RateLimitConfig
+): Promise<RateLimitResult | null> {
+  const policy = routeRateLimit(route, config);
+  if (!policy) return null;
+  if (!config?.limiter && !defaultLimiter) defaultLimiter = inMemoryRateLimiter();
+  const limiter = config?.limiter ?? (defaultLimiter as RateLimiter);
+
+  const checks: [string, RateLimitWindow][] = [];
+  if (policy.ip && subject.ip) checks.push([`${route}:ip:${subject.ip}`, policy.ip]);
+  const account = subject.account?.trim().toLowerCase();
+  if (policy.account && account) checks.push([`${route}:account:${account}`, policy.account]);
+
+  let tightest: RateLimitResult | null = null;
+  for (const [key, window] of checks) {
+    const result = await consumeRateLimit(limiter, key, window);
+    if (!result.allowed) return result;
+    if (!tightest || result.remaining < tightest.remaining) tightest = result;
+  }
+  return tightest;
+}
+
+/** `RateLimit-Limit/Remaining/Reset` headers, plus `Retry-After` when the request was refused */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    "RateLimit-Limit": String(result.limit),
+    "RateLimit-Remaining": String(result.remaining),
+    "RateLimit-Reset": String(result.resetSec),
+  };
+  if (!result.allowed) headers["Retry-After"] = String(Math.max(1, result.retryAfterSec));
+  return headers;
+}
@@ -3,7 +3,7 @@
 // Strategy: token bucket approximated via a simple counter with TTL window
 // For stricter guarantees, replace with a Lua script managing tokens precisely.
 
-import type { RateLimiter } from "./rate-limit";
+import type { RateLimiter, RateLimitResult, RateLimitWindow } from "./rate-limit";
 
 export type RedisClientLike = {
   incr: (key: string) => Promise<number> | number;
@@ -31,4 +31,29 @@ export class RedisRateLimiter implements RateLimiter {
     }
     return n <= capacity;
   }
+
+  async consume(key: string, { limit, windowSec }: RateLimitWindow): Promise<RateLimitResult> {
+    const k = `rl:${key}`;
+    const n = await this.redis.incr(k);
+    if (n === 1) await this.redis.expire(k, windowSec);
+    let ttlSec = windowSec;
+    if (this.redis.pttl) {
+      const ms = await this.redis.pttl(k);
+      if (ms > 0) ttlSec = Math.ceil(ms / 1000);
+      // A key without TTL (expire lost after incr) would never reset
+      else if (ms === -1) await this.redis.expire(k, windowSec);
+    } else if (this.redis.ttl) {
+      const sec = await this.redis.ttl(k);
+      if (sec > 0) ttlSec = sec;
+      else if (sec === -1) await this.redis.expire(k, windowSec);
+    }
+    const allowed = n <= limit;
+    return {
+      allowed,
+      limit,
+      remaining: Math.max(0, limit - n),
+      resetSec: ttlSec,
+      retryAfterSec: allowed ? 0 : ttlSec,
+    };
+  }
 }
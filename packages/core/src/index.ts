@@ -7,7 +7,11 @@ export type {
 } from "./adapter-types";
 // in-memory adapter for tests & playground
 export { memoryAdapter } from "./adapters/memory";
+// API keys
+export * from "./api-keys";
 export * as audit from "./audit/events";
+export * from "./audit/export";
+export * from "./audit/query";
 // Configuration
 export * from "./config";
 export * from "./constants";
@@ -15,7 +19,9 @@ export * from "./crypto/hash";
 export * as cryptoFacades from "./crypto/jwt";
 export * from "./crypto/token-hash";
 export * from "./errors";
+export * from "./events";
 // guards
+export * from "./guard/client-ip";
 export * as csrf from "./guard/csrf";
 export * as rateLimit from "./guard/rate-limit";
 export * from "./guard/redis-rate-limiter";
@@ -23,19 +29,31 @@ export * from "./guard/redis-rate-limiter";
 export * as jwt from "./jwt";
 export { makeAppleClientSecret } from "./oauth/apple";
 export { completeOAuth, startOAuth } from "./oauth/flow";
+export type { CompleteOAuthResult } from "./oauth/flow";
+export * from "./oauth/pending-link";
+export * from "./oauth/tokens";
 // OAuth API
 export type { OAuthProvider, Tokens, Profile } from "./oauth/types";
 export * from "./rbac/context";
+export * from "./rbac/domains";
+export * from "./rbac/entitlements";
+export * from "./rbac/evaluate";
 export * from "./rbac/invites";
+export * from "./rbac/org-roles";
+export * from "./rbac/orgs";
 export * from "./rbac/policy";
+export * from "./rbac/seats";
 // RBAC API
 export * from "./rbac/types";
 export * from "./rbac/with-role";
+export * from "./runtime/account-emails";
+export * from "./runtime/accounts";
 export * from "./runtime/current-session";
 export * from "./runtime/login";
 export * from "./runtime/logout";
 // runtime flows
 export * from "./runtime/register";
+export * from "./runtime/sessions";
 export * from "./secrets";
 export * from "./session/cookie";
 export * from "./session/model";
@@ -46,5 +64,7 @@ export * as plugins from "./plugins";
 export * as email from "./email";
 // magic link authentication
 export * as magicLink from "./magic-link";
+// TOTP two-factor authentication
+export * as twoFactor from "./two-factor";
 // utilities & facades
 export * as util from "./util/time";
@@ -23,6 +23,7 @@ export const JWT_ERRORS = {
   KEYSTORE_NO_ACTIVE_KEY: 'keystore_no_active_key',
   KEYSTORE_KEY_NOT_FOUND: 'keystore_key_not_found',
   KEYSTORE_INVALID_KEY: 'keystore_invalid_key',
+  KEYSTORE_DECRYPT_FAILED: 'keystore_decrypt_failed',
 } as const
 
 export type JwtErrorCode = (typeof JWT_ERRORS)[keyof typeof JWT_ERRORS]
@@ -28,6 +28,8 @@ export {
 export * from './sign'
 // Re-export commonly used functions with cleaner names
 export { createJwtSigner as createSigner, signJwt as sign } from './sign'
+// Persistent keystore storage
+export * from './store'
 export * from './types'
 export * from './verify'
 export { verifyJwt as verify, verifyJwtFull as verifyFull } from './verify'
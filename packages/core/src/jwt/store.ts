@@ -0,0 +1,239 @@
+/**
+ * Persistent keystore storage
+ *
+ * A `KeystoreStore` holds the signing keys that every instance of a deployment shares, so tokens
+ * signed by one instance verify on all of them. Stores that seal the keystore keep public keys
+ * in the clear and encrypt the active private JWK with a fresh data key, which is itself
+ * encrypted with a key derived from AUTH_SECRET (envelope encryption).
+ */
+
+import type { KeystoreAdapter } from '../adapter'
+import { aesGcmOpen, aesGcmSeal } from '../crypto/aead'
+import { hkdfSha256 } from '../crypto/hkdf'
+import { JWT_ERRORS, throwJwtError } from './errors'
+import { createKeystore, needsRotation, rotateKeystore, validateKeystore } from './jwks'
+import type { JwtAlg, Keystore, RotationPolicy } from './types'
+
+export interface KeystoreStore {
+  /** The stored keystore, or null when none has been saved yet */
+  load(): Promise<Keystore | null>
+  save(keystore: Keystore): Promise<void>
+  /** Run `fn` while other instances wait; without it, rotation is only guarded in-process */
+  withLock?<T>(fn: () => Promise<T>): Promise<T>
+}
+
+/**
+ * A keystore as written by sealing stores
+ */
+export type SealedKeystore = {
+  v: 1
+  /** Data key, sealed with the AUTH_SECRET-derived key (`nonce.ct`) */
+  key: string
+  active: Omit<Keystore['active'], 'privateJwk'> & {
+    /** Private JWK, sealed with the data key (`nonce.ct`) */
+    privateJwk: string
+  }
+  previous: Keystore['previous']
+}
+
+const enc = new TextEncoder()
+const DEFAULT_ID = 'default'
+
+async function keyEncryptionKey(authSecret: string) {
+  return hkdfSha256(enc.encode(authSecret), enc.encode('keyloom'), enc.encode('keyloom:jwks'), 32)
+}
+
+async function seal(key: Uint8Array, plaintext: Uint8Array, aad: string) {
+  const { nonce, ct } = await aesGcmSeal(key, plaintext, enc.encode(aad))
+  return `${nonce}.${ct}`
+}
+
+async function open(key: Uint8Array, sealed: string, aad: string) {
+  const [nonce, ct] = sealed.split('.')
+  try {
+    return await aesGcmOpen(key, nonce ?? '', ct ?? '', enc.encode(aad))
+  } catch (error) {
+    return throwJwtError(
+      JWT_ERRORS.KEYSTORE_DECRYPT_FAILED,
+      'Failed to decrypt keystore (was AUTH_SECRET changed?)',
+      error as Error,
+    )
+  }
+}
+
+function isSealed(doc: unknown): doc is SealedKeystore {
+  return !!doc && typeof doc === 'object' && (doc as SealedKeystore).v === 1
+}
+
+/**
+ * Encrypt the keystore's private key for storage
+ */
+export async function sealKeystore(
+  keystore: Keystore,
+  authSecret: string,
+): Promise<SealedKeystore> {
+  const dataKey = crypto.getRandomValues(new Uint8Array(32))
+  const { privateJwk, ...active } = keystore.active
+  return {
+    v: 1,
+    key: await seal(await keyEncryptionKey(authSecret), dataKey, 'keyloom:jwks'),
+    active: {
+      ...active,
+      // Bound to the kid so a sealed key can't be moved onto another public key
+      privateJwk: await seal(dataKey, enc.encode(JSON.stringify(privateJwk)), active.kid),
+    },
+    previous: keystore.previous,
+  }
+}
+
+/**
+ * Read a stored keystore; plain keystores are accepted as-is so existing files keep working
+ */
+export async function openKeystore(doc: unknown, authSecret?: string): Promise<Keystore> {
+  if (isSealed(doc)) {
+    if (!authSecret) throw new Error('auth_secret_required')
+    const dataKey = await open(await keyEncryptionKey(authSecret), doc.key, 'keyloom:jwks')
+    const privateJwk = await open(dataKey, doc.active.privateJwk, doc.active.kid)
+    doc = {
+      ...doc,
+      active: { ...doc.active, privateJwk: JSON.parse(new TextDecoder().decode(privateJwk)) },
+    }
+  }
+  if (!validateKeystore(doc)) throw new Error('Invalid keystore format')
+  const { active, previous } = doc
+  return { active, previous }
+}
+
+// Serializes callers within this process, like the memory adapter's org lock
+function processLock() {
+  let tail: Promise<unknown> = Promise.resolve()
+  return <T>(fn: () => Promise<T>): Promise<T> => {
+    const run = tail.then(fn)
+    tail = run.catch(() => {})
+    return run
+  }
+}
+
+/**
+ * Keystore kept in memory; each process has its own keys
+ */
+export function memoryKeystoreStore(initial: Keystore | null = null): KeystoreStore {
+  let keystore = initial
+  return {
+    async load() {
+      return keystore
+    },
+    async save(next) {
+      keystore = next
+    },
+    withLock: processLock(),
+  }
+}
+
+/**
+ * Keystore in a local JSON file, sealed when `secret` is given
+ */
+export function fileKeystoreStore(filePath: string, opts: { secret?: string } = {}): KeystoreStore {
+  return {
+    async load() {
+      const fs = await import('node:fs/promises')
+      let body: string
+      try {
+        body = await fs.readFile(filePath, 'utf8')
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+        throw error
+      }
+      return openKeystore(JSON.parse(body), opts.secret)
+    },
+    async save(keystore) {
+      const fs = await import('node:fs/promises')
+      const { dirname } = await import('node:path')
+      const doc = opts.secret ? await sealKeystore(keystore, opts.secret) : keystore
+      await fs.mkdir(dirname(filePath), { recursive: true })
+      // Write then rename so readers never see a partial file
+      const tmp = `${filePath}.${process.pid}.tmp`
+      await fs.writeFile(tmp, JSON.stringify(doc, null, 2), 'utf8')
+      await fs.rename(tmp, filePath)
+    },
+    withLock: processLock(),
+  }
+}
+
+/**
+ * Keystore in the database, shared by every instance; the private key is always sealed
+ *
+ * @example
+ * ```typescript
+ * const store = adapterKeystoreStore(adapter, { secret: process.env.AUTH_SECRET! })
+ * ```
+ */
+export function adapterKeystoreStore(
+  adapter: KeystoreAdapter,
+  opts: { secret: string; id?: string },
+): KeystoreStore {
+  // Only the Prisma and memory adapters store keystores so far
+  if (
+    typeof adapter?.getKeystoreRecord !== 'function' ||
+    typeof adapter.putKeystoreRecord !== 'function'
+  )
+    throw new Error('The database keystore needs an adapter implementing KeystoreAdapter')
+  const id = opts.id ?? DEFAULT_ID
+  const lock = processLock()
+  return {
+    async load() {
+      const record = await adapter.getKeystoreRecord(id)
+      return record ? openKeystore(JSON.parse(record.data), opts.secret) : null
+    },
+    async save(keystore) {
+      await adapter.putKeystoreRecord(id, JSON.stringify(await sealKeystore(keystore, opts.secret)))
+    },
+    withLock: (fn) =>
+      adapter.withKeystoreLock ? lock(() => adapter.withKeystoreLock!(id, fn)) : lock(fn),
+  }
+}
+
+const withStoreLock = <T>(store: KeystoreStore, fn: () => Promise<T>) =>
+  store.withLock ? store.withLock(fn) : fn()
+
+/**
+ * The stored keystore, created and saved on first use
+ */
+export async function ensureStoredKeystore(store: KeystoreStore, alg: JwtAlg): Promise<Keystore> {
+  const existing = await store.load()
+  if (existing) return existing
+  return withStoreLock(store, async () => {
+    // Another instance may have created it while we waited
+    const current = await store.load()
+    if (current) return current
+    const keystore = await createKeystore(alg)
+    await store.save(keystore)
+    return keystore
+  })
+}
+
+/**
+ * Rotate the stored keystore under the store's lock
+ *
+ * The latest keystore is re-read under the lock, so when several instances decide to rotate at
+ * once only the first one does; the others get its keys back. `force` rotates regardless.
+ */
+export async function rotateStoredKeystore(
+  store: KeystoreStore,
+  alg: JwtAlg,
+  policy: RotationPolicy,
+  opts: { force?: boolean } = {},
+): Promise<Keystore> {
+  return withStoreLock(store, async () => {
+    const current = await store.load()
+    if (!current) {
+      const keystore = await createKeystore(alg)
+      await store.save(keystore)
+      return keystore
+    }
+    if (!opts.force && !needsRotation(current, policy)) return current
+    const rotated = await rotateKeystore(current, alg, policy)
+    await store.save(rotated)
+    return rotated
+  })
+}
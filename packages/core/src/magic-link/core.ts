@@ -2,9 +2,18 @@
  * Magic link authentication core logic for Keyloom
  */
 
-import { KeyloomError } from "../errors";
+import { ERR, KeyloomError } from "../errors";
 import { issueVerificationToken } from "../tokens/verification";
 import { newSession } from "../session/model";
+import { pendingSecondFactorFor } from "../two-factor/core";
+import { eventMeta } from "../events/bus";
+import type { NewUserData } from "../events/types";
+import {
+  enforceOrgDomain,
+  joinOrgDomain,
+  OrgSsoRequiredError,
+} from "../rbac/domains";
+import type { User } from "../types";
 import type {
   MagicLinkRequestInput,
   MagicLinkVerifyInput,
@@ -154,8 +163,8 @@ export async function verifyMagicLink(
   context: MagicLinkVerifyContext,
   config: Partial<MagicLinkConfig> = {}
 ): Promise<MagicLinkVerifyResult> {
-  const { email, token, sessionTtlMinutes } = input;
-  const { adapter, audit } = context;
+  const { email, token, sessionTtlMinutes, sessionMeta } = input;
+  const { adapter, audit, events, orgDomains } = context;
   const finalConfig = { ...defaultMagicLinkConfig, ...config };
 
   try {
@@ -182,6 +191,10 @@ export async function verifyMagicLink(
       };
     }
 
+    const orgDomain = orgDomains
+      ? await enforceOrgDomain(normalizedEmail, adapter, orgDomains)
+      : null;
+
     // Get or create user
     let user = await adapter.getUserByEmail(normalizedEmail);
 
@@ -194,31 +207,74 @@ export async function verifyMagicLink(
       }
 
       // Create new user
-      user = await adapter.createUser({
+      let data: NewUserData = {
         email: normalizedEmail,
         emailVerified: finalConfig.requireEmailVerification ? null : new Date(),
-      });
+      };
+      if (events) {
+        data = (
+          await events.before("userCreate", { data, method: "magic_link" })
+        ).data;
+      }
+      user = await adapter.createUser(data as Partial<User>);
 
       if (audit) {
         await audit("user.created", { userId: user.id, method: "magic_link" });
       }
+      await events?.emit(
+        "user.created",
+        { email: user.email, method: "magic_link" },
+        eventMeta(user.id, sessionMeta)
+      );
     } else {
       // Update email verification if not already verified
       if (!user.emailVerified && !finalConfig.requireEmailVerification) {
         await adapter.updateUser(user.id, { emailVerified: new Date() });
+        await events?.emit(
+          "email.verified",
+          { email: normalizedEmail },
+          eventMeta(user.id, sessionMeta)
+        );
       }
     }
 
+    // Following the link proves the address, so the user can join the domain's org
+    if (orgDomain) {
+      await joinOrgDomain(user.id, orgDomain, {
+        adapter,
+        options: orgDomains,
+        events,
+        meta: sessionMeta,
+      });
+    }
+
+    await events?.before("signIn", { user, method: "magic_link" });
+
+    const pending = await pendingSecondFactorFor(user.id, adapter);
+    if (pending) {
+      return {
+        success: true,
+        twoFactorRequired: true,
+        pendingToken: pending.token,
+        expiresAt: pending.expiresAt,
+      };
+    }
+
     // Create session
     const sessionTtl =
       sessionTtlMinutes || finalConfig.defaultSessionTtlMinutes;
     const session = await adapter.createSession(
-      newSession(user.id, sessionTtl)
+      newSession(user.id, sessionTtl, sessionMeta)
     );
 
     if (audit) {
       await audit("user.login", { userId: user.id, method: "magic_link" });
     }
+    await events?.emit(
+      "session.created",
+      { method: "magic_link" },
+      eventMeta(user.id, sessionMeta)
+    );
 
     // Build user object with proper optional property handling
     const userResult: any = {
@@ -246,6 +302,13 @@ export async function verifyMagicLink(
       },
     };
   } catch (error) {
+    if (error instanceof OrgSsoRequiredError) {
+      return { success: false, error: error.code, ssoUrl: error.ssoUrl };
+    }
+    // Auto-joining the domain's org found no free seat
+    if (error instanceof KeyloomError && error.code === ERR.SEAT_LIMIT_REACHED) {
+      return { success: false, error: error.code };
+    }
     console.error("Magic link verification failed:", error);
     return {
       success: false,
@@ -4,6 +4,9 @@
 
 import type { KeyloomAdapter } from '../adapter-types'
 import type { EmailService } from '../email/types'
+import type { EventBus } from '../events/types'
+import type { OrgDomainOptions } from '../rbac/domains'
+import type { SessionMeta } from '../session/model'
 
 /**
  * Magic link request input
@@ -27,6 +30,8 @@ export interface MagicLinkVerifyInput {
   token: string
   /** Optional TTL for the created session in minutes */
   sessionTtlMinutes?: number
+  /** Client IP / user agent recorded on the created session */
+  sessionMeta?: SessionMeta
 }
 
 /**
@@ -51,6 +56,10 @@ export interface MagicLinkVerifyContext {
   adapter: KeyloomAdapter
   /** Optional audit function */
   audit?: (event: string, data: any) => Promise<void>
+  /** Lifecycle hooks and events */
+  events?: EventBus
+  /** Verified org domains: auto-join the user, or refuse in favour of the org's SSO */
+  orgDomains?: OrgDomainOptions
 }
 
 /**
@@ -85,8 +94,15 @@ export interface MagicLinkVerifyResult {
     userId: string
     expiresAt: Date
   }
+  /** Set instead of `session` when the user has 2FA enabled */
+  twoFactorRequired?: boolean
+  /** Exchanged for a session via `completeSecondFactor` once the code is supplied */
+  pendingToken?: string
+  expiresAt?: Date
   /** Error message if verification failed */
   error?: string
+  /** Set with `error: 'org_sso_required'`: where the user must sign in instead */
+  ssoUrl?: string
 }
 
 /**
@@ -1,37 +1,25 @@
 import { resolveEndpoints } from './discovery'
-import { parseIdToken } from './idtoken'
+import { verifyIdToken } from './idtoken'
 import type { OAuthProvider, Profile, Tokens } from './types'
 
-export async function exchangeToken(
+// POST a grant to the provider's token endpoint in its configured body style
+async function tokenRequest(
   provider: OAuthProvider & { clientId: string; clientSecret: string },
-  code: string,
-  redirectUri: string,
-  codeVerifier: string,
+  grant: Record<string, string>,
+  error: string,
 ) {
-  const endpoints = await resolveEndpoints(provider)
-  const tokenUrl = endpoints.tokenUrl ?? provider.token.url
+  const { tokenUrl } = await resolveEndpoints(provider)
+  if (!tokenUrl) throw new Error('token_url_missing')
 
   const isForm = provider.token.style === 'form'
-  let body: URLSearchParams | Record<string, unknown>
-  if (isForm) {
-    body = new URLSearchParams({
-      client_id: (provider as any).clientId,
-      client_secret: (provider as any).clientSecret,
-      grant_type: 'authorization_code',
-      code,
-      redirect_uri: redirectUri,
-      code_verifier: codeVerifier,
-    })
-  } else {
-    body = {
-      client_id: (provider as any).clientId,
-      client_secret: (provider as any).clientSecret,
-      grant_type: 'authorization_code',
-      code,
-      redirect_uri: redirectUri,
-      code_verifier: codeVerifier,
-    }
+  const params = {
+    client_id: (provider as any).clientId,
+    client_secret: (provider as any).clientSecret,
+    ...grant,
   }
+  let body: URLSearchParams | Record<string, unknown> = isForm
+    ? new URLSearchParams(params)
+    : params
 
   if (typeof provider.token.customizeBody === 'function') {
     body = await Promise.resolve(provider.token.customizeBody(body))
@@ -47,20 +35,54 @@ export async function exchangeToken(
     },
     body: (isForm ? (body as URLSearchParams) : JSON.stringify(body)) as any,
   })
-  if (!r.ok) throw new Error('token_exchange_failed')
+  if (!r.ok) throw new Error(error)
   return (await r.json()) as Tokens
 }
 
+export async function exchangeToken(
+  provider: OAuthProvider & { clientId: string; clientSecret: string },
+  code: string,
+  redirectUri: string,
+  codeVerifier: string,
+) {
+  return tokenRequest(
+    provider,
+    {
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: redirectUri,
+      code_verifier: codeVerifier,
+    },
+    'token_exchange_failed',
+  )
+}
+
+/** Exchange a refresh token for a new access token (`refresh_token` grant). */
+export async function refreshAccessToken(
+  provider: OAuthProvider & { clientId: string; clientSecret: string },
+  refreshToken: string,
+) {
+  return tokenRequest(
+    provider,
+    { grant_type: 'refresh_token', refresh_token: refreshToken },
+    'token_refresh_failed',
+  )
+}
+
 export async function fetchUserInfo(
   provider: OAuthProvider,
   tokens: Tokens,
+  opts: { idTokenClaims?: Record<string, any> } = {},
 ): Promise<Profile | null> {
   const endpoints = await resolveEndpoints(provider)
   const userinfoUrl = provider.userinfo?.url ?? endpoints.userinfoUrl
 
   // If no userinfo endpoint but id_token is available and a mapper is provided, use it
   if (!userinfoUrl && tokens.id_token && provider.profileFromIdToken) {
-    const claims = parseIdToken(tokens.id_token)
+    // Claims already verified by completeOAuth are reused; otherwise verify here
+    const claims =
+      opts.idTokenClaims ??
+      (await verifyIdToken(provider as OAuthProvider & { clientId: string }, tokens.id_token))
     return provider.profileFromIdToken(claims)
   }
 
@@ -1,4 +1,5 @@
 export type OidcDiscovery = {
+  issuer?: string
   authorization_endpoint: string
   token_endpoint: string
   userinfo_endpoint?: string
@@ -11,13 +12,13 @@ export function discover(issuer: string): Promise<OidcDiscovery> {
   const normalized = issuer.endsWith('/') ? issuer.slice(0, -1) : issuer
   const url = `${normalized}/.well-known/openid-configuration`
   if (!cache.has(url)) {
-    cache.set(
-      url,
-      fetch(url).then((r) => {
-        if (!r.ok) throw new Error(`oidc_discovery_failed:${r.status}`)
-        return r.json()
-      }),
-    )
+    const pending = fetch(url).then((r) => {
+      if (!r.ok) throw new Error(`oidc_discovery_failed:${r.status}`)
+      return r.json()
+    })
+    // Don't pin a failed lookup; the next sign-in retries discovery
+    pending.catch(() => cache.delete(url))
+    cache.set(url, pending)
   }
   return cache.get(url)!
 }
@@ -27,20 +28,27 @@ export async function resolveEndpoints(provider: {
   authorization?: { url?: string }
   token?: { url?: string }
   userinfo?: { url?: string }
+  idToken?: { issuer?: string; jwksUrl?: string }
 }): Promise<{
   authorizationUrl?: string
   tokenUrl?: string
   userinfoUrl?: string
+  issuer?: string
+  jwksUrl?: string
 }> {
   if (!provider.discovery?.issuer) {
     const out: {
       authorizationUrl?: string
       tokenUrl?: string
       userinfoUrl?: string
+      issuer?: string
+      jwksUrl?: string
     } = {}
     if (provider.authorization?.url) out.authorizationUrl = provider.authorization.url
     if (provider.token?.url) out.tokenUrl = provider.token.url
     if (provider.userinfo?.url) out.userinfoUrl = provider.userinfo.url
+    if (provider.idToken?.issuer) out.issuer = provider.idToken.issuer
+    if (provider.idToken?.jwksUrl) out.jwksUrl = provider.idToken.jwksUrl
     return out
   }
 
@@ -49,11 +57,19 @@ export async function resolveEndpoints(provider: {
     authorizationUrl?: string
     tokenUrl?: string
     userinfoUrl?: string
+    issuer?: string
+    jwksUrl?: string
   } = {}
   out.authorizationUrl = provider.authorization?.url ?? meta.authorization_endpoint
   out.tokenUrl = provider.token?.url ?? meta.token_endpoint
   if (provider.userinfo?.url ?? meta.userinfo_endpoint) {
     out.userinfoUrl = (provider.userinfo?.url ?? meta.userinfo_endpoint) as string
   }
+  if (provider.idToken?.issuer ?? meta.issuer) {
+    out.issuer = (provider.idToken?.issuer ?? meta.issuer) as string
+  }
+  if (provider.idToken?.jwksUrl ?? meta.jwks_uri) {
+    out.jwksUrl = (provider.idToken?.jwksUrl ?? meta.jwks_uri) as string
+  }
   return out
 }
@@ -1,8 +1,26 @@
 import type { Adapter } from '../adapter'
-import { newSession } from '../session/model'
+import { randToken } from '../crypto/random'
+import { ERR, KeyloomError } from '../errors'
+import { eventMeta } from '../events/bus'
+import type { EventBus, NewUserData } from '../events/types'
+import { enforceOrgDomain, joinOrgDomain, type OrgDomainOptions } from '../rbac/domains'
+import type { RbacAdapter } from '../rbac/types'
+import { newSession, type SessionMeta } from '../session/model'
+import { pendingSecondFactorFor } from '../two-factor/core'
+import type { Session, User } from '../types'
+import { resolveEndpoints } from './discovery'
+import { canVerifyIdToken, verifyIdToken } from './idtoken'
+import {
+  type AccountLinkingPolicy,
+  DEFAULT_ACCOUNT_LINKING,
+  issuePendingLink,
+  type PendingAccount,
+  type PendingLink,
+} from './pending-link'
 import { createPkce } from './pkce'
 import type { OAuthStatePayload } from './state'
 import { openState, sealState } from './state'
+import { encryptAccountTokens } from './tokens'
 import type { OAuthProvider } from './types'
 
 export async function startOAuth(opts: {
@@ -11,17 +29,27 @@ export async function startOAuth(opts: {
   callbackPath: string
   callbackUrl?: string
   secrets: { authSecret: string }
+  /** Link mode: the callback must arrive in this user's session and links instead of signing in */
+  linkUserId?: string
 }) {
-  const { provider, baseUrl, callbackPath, callbackUrl, secrets } = opts
+  const { provider, baseUrl, callbackPath, callbackUrl, secrets, linkUserId } = opts
   const { verifier, challenge } = await createPkce()
-  const statePayload: OAuthStatePayload = { p: provider.id, v: verifier, t: Date.now() }
+  const nonce = randToken(16)
+  const statePayload: OAuthStatePayload = { p: provider.id, v: verifier, n: nonce, t: Date.now() }
   if (callbackUrl) statePayload.r = callbackUrl
+  if (linkUserId) {
+    statePayload.m = 'link'
+    statePayload.u = linkUserId
+  }
   const sealed = await sealState(
     new Uint8Array(Buffer.from(secrets.authSecret, 'base64url')),
     statePayload,
   )
 
-  const authUrl = new URL(provider.authorization.url)
+  const authorizationUrl =
+    provider.authorization.url ?? (await resolveEndpoints(provider)).authorizationUrl
+  if (!authorizationUrl) throw new Error('authorization_url_missing')
+  const authUrl = new URL(authorizationUrl)
   const params = {
     client_id: (provider as any).clientId,
     response_type: 'code',
@@ -30,6 +58,7 @@ export async function startOAuth(opts: {
     code_challenge: challenge,
     code_challenge_method: 'S256',
     state: `${sealed.nonce}.${sealed.ct}`,
+    nonce,
   }
   const extra = provider.authorization.params ?? {}
   Object.entries({ ...params, ...extra }).forEach(([k, v]) =>
@@ -42,9 +71,33 @@ export async function startOAuth(opts: {
   }
 }
 
+/**
+ * Either a new session, a pending second factor for users with 2FA enabled (exchange
+ * `pendingToken` via `completeSecondFactor`), or (under the provider's `accountLinking` policy)
+ * a link to an existing user that must be confirmed first via `confirmPendingLink`.
+ */
+export type CompleteOAuthResult =
+  | { session: Session; redirectTo: string; pendingLink?: undefined; twoFactorRequired?: false }
+  | {
+      session: null
+      twoFactorRequired: true
+      pendingToken: string
+      expiresAt: Date
+      redirectTo: string
+      pendingLink?: undefined
+    }
+  | {
+      session: null
+      pendingLink: PendingLink
+      user: User
+      redirectTo: string
+      twoFactorRequired?: false
+    }
+
 export async function completeOAuth(opts: {
   provider: OAuthProvider & { clientId: string; clientSecret: string }
-  adapter: Adapter
+  adapter: Adapter &
+    Partial<Pick<RbacAdapter, 'getOrgDomainsByDomain' | 'getMembership' | 'addMember'>>
   baseUrl: string
   callbackPath: string
   stateCookie: string | null
@@ -52,7 +105,13 @@ export async function completeOAuth(opts: {
   code: string
   secrets: { authSecret: string }
   linkToUserId?: string
-}) {
+  sessionMeta?: SessionMeta
+  events?: EventBus
+  /** Fallback for providers without their own `accountLinking` */
+  accountLinking?: AccountLinkingPolicy
+  /** Verified org domains: auto-join on sign-in, or refuse in favour of the org's SSO */
+  orgDomains?: OrgDomainOptions
+}): Promise<CompleteOAuthResult> {
   const {
     provider,
     adapter,
@@ -63,6 +122,10 @@ export async function completeOAuth(opts: {
     code,
     secrets,
     linkToUserId,
+    sessionMeta,
+    events,
+    accountLinking,
+    orgDomains,
   } = opts
   if (!stateCookie || !stateParam || stateCookie !== stateParam) throw new Error('state_mismatch')
 
@@ -76,20 +139,57 @@ export async function completeOAuth(opts: {
   )
   if (st.p !== provider.id) throw new Error('state_wrong_provider')
   if (Date.now() - st.t > 10 * 60_000) throw new Error('state_expired')
+  if (st.m === 'link' && st.u !== linkToUserId) throw new Error('link_session_mismatch')
 
   const { exchangeToken, fetchUserInfo } = await import('./client')
   const tokens = await exchangeToken(provider, code, `${baseUrl}${callbackPath}`, st.v)
-  const profile = await fetchUserInfo(provider, tokens)
+
+  // Verify the id_token (signature, iss, aud, exp, nonce) whenever the provider returns one
+  let idTokenClaims: Record<string, any> | undefined
+  if (tokens.id_token && (canVerifyIdToken(provider) || provider.profileFromIdToken)) {
+    idTokenClaims = await verifyIdToken(provider, tokens.id_token, st.n ? { nonce: st.n } : {})
+  }
+  const profile = await fetchUserInfo(provider, tokens, idTokenClaims ? { idTokenClaims } : {})
 
   // Apply profile overrides if provided
-  const finalProfile =
+  const overridden =
     profile && provider.profileOverrides
       ? { ...profile, ...provider.profileOverrides(profile) }
       : profile
+  const finalProfile =
+    overridden && events
+      ? (await events.before('oauthProfile', { provider: provider.id, profile: overridden }))
+          .profile
+      : overridden
+  const linked = (userId: string) =>
+    events?.emit(
+      'account.linked',
+      { provider: provider.id, providerAccountId: finalProfile?.id ?? 'no-id' },
+      eventMeta(userId, sessionMeta),
+    )
+  const signedIn = async (userId: string) => {
+    const session = await adapter.createSession(newSession(userId, undefined, sessionMeta))
+    await events?.emit(
+      'session.created',
+      { method: 'oauth', provider: provider.id },
+      eventMeta(userId, sessionMeta),
+    )
+    return session
+  }
+
+  const ref = { provider: provider.id, providerAccountId: finalProfile?.id ?? 'no-id' }
+  const accountTokens = await encryptAccountTokens(ref, tokens, secrets.authSecret)
+  const account: PendingAccount = { ...ref, ...accountTokens }
 
   const existingAcc = finalProfile?.id
     ? await adapter.getAccountByProvider(provider.id, finalProfile.id)
     : null
+  // Signing in again with a linked account stores the fresh tokens (keeping the refresh token
+  // when the provider doesn't issue a new one)
+  const storeTokens = async (id: string) => {
+    const { refreshToken, ...rest } = accountTokens
+    await adapter.updateAccount(id, refreshToken ? accountTokens : rest)
+  }
 
   // If linking to an existing signed-in user
   if (linkToUserId) {
@@ -101,30 +201,44 @@ export async function completeOAuth(opts: {
     if (!user) throw new Error('link_target_not_found')
     // Link account if not yet linked
     if (!existingAcc) {
-      await adapter.linkAccount({
-        id: undefined as any,
-        userId: user.id,
-        provider: provider.id,
-        providerAccountId: finalProfile?.id ?? 'no-id',
-        accessToken: tokens.access_token,
-        refreshToken: tokens.refresh_token ?? null,
-        tokenType: tokens.token_type ?? null,
-        expiresAt: tokens.expires_in ? Math.floor(Date.now() / 1000) + tokens.expires_in : null,
-        scope: tokens.scope ?? null,
-      } as any)
+      await adapter.linkAccount({ ...account, id: undefined as any, userId: user.id })
+      await linked(user.id)
+    } else {
+      await storeTokens(existingAcc.id)
     }
-    const session = await adapter.createSession(newSession(linkToUserId))
+    await events?.before('signIn', { user, method: 'oauth', provider: provider.id })
+    const session = await signedIn(linkToUserId)
     return { session, redirectTo: st.r ?? '/' }
   }
 
   let user = existingAcc ? await adapter.getUser(existingAcc.userId) : null
+  // SSO-only domains are refused before anything is created or updated
+  const orgDomain = orgDomains
+    ? await enforceOrgDomain(user ? user.email : finalProfile?.email, adapter, orgDomains)
+    : null
+  if (user && existingAcc) await storeTokens(existingAcc.id)
 
   if (!user) {
     user = finalProfile?.email ? await adapter.getUserByEmail(finalProfile.email) : null
-    if (!user) {
+    if (user) {
+      // The email belongs to someone who hasn't linked this provider: apply the linking policy
+      const policy = provider.accountLinking ?? accountLinking ?? DEFAULT_ACCOUNT_LINKING
+      if (policy === 'never')
+        throw new KeyloomError(
+          ERR.OAUTH_ACCOUNT_NOT_LINKED,
+          'Sign in and link this provider from your account settings',
+        )
+      if (policy === 'require-signed-in-confirmation' || !finalProfile?.emailVerified) {
+        const pendingLink = await issuePendingLink(
+          { userId: user.id, account, redirectTo: st.r },
+          { adapter, secret: secrets.authSecret },
+        )
+        return { session: null, pendingLink, user, redirectTo: st.r ?? '/' }
+      }
+    } else {
       // Build user data with profile overrides already applied in finalProfile
       const { emailVerified: _, ...additionalFields } = finalProfile || {}
-      const userData = {
+      let userData: NewUserData = {
         email: finalProfile?.email ?? null,
         emailVerified: finalProfile?.emailVerified ? new Date() : null,
         name: finalProfile?.name ?? null,
@@ -132,23 +246,51 @@ export async function completeOAuth(opts: {
         // Spread any additional fields from finalProfile (which includes overrides)
         ...additionalFields,
       }
+      if (events) {
+        userData = (
+          await events.before('userCreate', {
+            data: userData,
+            method: 'oauth',
+            provider: provider.id,
+          })
+        ).data
+      }
 
-      user = await adapter.createUser(userData)
+      user = await adapter.createUser(userData as Partial<User>)
+      await events?.emit(
+        'user.created',
+        { email: user.email, method: 'oauth', provider: provider.id },
+        eventMeta(user.id, sessionMeta),
+      )
     }
-    await adapter.linkAccount({
-      id: undefined as any,
-      userId: user?.id,
-      provider: provider.id,
-      providerAccountId: finalProfile?.id ?? 'no-id',
-      accessToken: tokens.access_token,
-      refreshToken: tokens.refresh_token ?? null,
-      tokenType: tokens.token_type ?? null,
-      expiresAt: tokens.expires_in ? Math.floor(Date.now() / 1000) + tokens.expires_in : null,
-      scope: tokens.scope ?? null,
-    } as any)
+    await adapter.linkAccount({ ...account, id: undefined as any, userId: user.id })
+    await linked(user.id)
   }
 
-  const session = await adapter.createSession(newSession(user?.id))
+  // Auto-join only on an email someone has verified: the user's own, or the provider's for it
+  const emailVerified =
+    !!user.emailVerified ||
+    (!!finalProfile?.emailVerified &&
+      finalProfile.email?.toLowerCase() === user.email?.toLowerCase())
+  if (orgDomain && emailVerified)
+    await joinOrgDomain(user.id, orgDomain, {
+      adapter,
+      options: orgDomains,
+      events,
+      meta: sessionMeta,
+    })
+
+  await events?.before('signIn', { user, method: 'oauth', provider: provider.id })
+  const pending = await pendingSecondFactorFor(user.id, adapter)
+  if (pending)
+    return {
+      session: null,
+      twoFactorRequired: true,
+      pendingToken: pending.token,
+      expiresAt: pending.expiresAt,
+      redirectTo: st.r ?? '/',
+    }
+  const session = await signedIn(user.id)
 
   return { session, redirectTo: st.r ?? '/' }
 }
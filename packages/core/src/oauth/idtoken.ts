@@ -1,3 +1,8 @@
+import type { Jwk } from '../jwt/types'
+import { resolveEndpoints } from './discovery'
+import { getJwks } from './jwks'
+import type { OAuthProvider } from './types'
+
 function b64urlToString(b64url: string): string {
   // Add padding if missing
   const pad = b64url.length % 4
@@ -12,6 +17,7 @@ function b64urlToString(b64url: string): string {
   return decodeURIComponent(escape(s))
 }
 
+/** Decode the payload WITHOUT verifying it; use `verifyIdToken` before trusting claims. */
 export function parseIdToken(idToken: string): Record<string, any> {
   try {
     const parts = idToken.split('.')
@@ -22,3 +28,135 @@ export function parseIdToken(idToken: string): Record<string, any> {
     return {}
   }
 }
+
+type IdTokenAlg = 'RS256' | 'ES256' | 'EdDSA'
+
+const ALGS: Record<
+  IdTokenAlg,
+  {
+    kty: string
+    importParams: RsaHashedImportParams | EcKeyImportParams | Algorithm
+    verifyParams: Algorithm | EcdsaParams
+  }
+> = {
+  RS256: {
+    kty: 'RSA',
+    importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+    verifyParams: { name: 'RSASSA-PKCS1-v1_5' },
+  },
+  ES256: {
+    kty: 'EC',
+    importParams: { name: 'ECDSA', namedCurve: 'P-256' },
+    verifyParams: { name: 'ECDSA', hash: 'SHA-256' },
+  },
+  EdDSA: { kty: 'OKP', importParams: { name: 'Ed25519' }, verifyParams: { name: 'Ed25519' } },
+}
+
+// Only the public key members; provider JWKs carry x5c/key_ops/alg fields WebCrypto may reject
+function publicJwk(jwk: Jwk): JsonWebKey {
+  const out: JsonWebKey = { kty: jwk.kty as string }
+  for (const k of ['n', 'e', 'crv', 'x', 'y'] as const) if (jwk[k]) out[k] = jwk[k]
+  return out
+}
+
+async function verifySignature(alg: IdTokenAlg, jwk: Jwk, input: string, sig: Uint8Array) {
+  const { importParams, verifyParams } = ALGS[alg]
+  try {
+    const key = await crypto.subtle.importKey('jwk', publicJwk(jwk), importParams, false, [
+      'verify',
+    ])
+    return await crypto.subtle.verify(
+      verifyParams,
+      key,
+      sig as Uint8Array<ArrayBuffer>,
+      new TextEncoder().encode(input),
+    )
+  } catch {
+    return false
+  }
+}
+
+export type VerifyIdTokenOptions = {
+  /** Expected `nonce` claim (from the sealed OAuth state) */
+  nonce?: string
+  clockSkewSec?: number
+  now?: number
+}
+
+/**
+ * Verify an ID token's signature against the provider's JWKS and check iss, aud/azp, exp,
+ * nbf and nonce. Keys and issuer come from `provider.idToken` or OIDC discovery.
+ */
+export async function verifyIdToken(
+  provider: OAuthProvider & { clientId: string },
+  idToken: string,
+  opts: VerifyIdTokenOptions = {},
+): Promise<Record<string, any>> {
+  const parts = idToken.split('.')
+  if (parts.length !== 3 || !parts[0] || !parts[1] || !parts[2])
+    throw new Error('id_token_malformed')
+  const [headerPart, payloadPart, sigPart] = parts as [string, string, string]
+
+  let header: { alg?: string; kid?: string }
+  let claims: Record<string, any>
+  try {
+    header = JSON.parse(b64urlToString(headerPart))
+    claims = JSON.parse(b64urlToString(payloadPart))
+  } catch {
+    throw new Error('id_token_malformed')
+  }
+  if (!header.alg || !(header.alg in ALGS)) throw new Error('id_token_unsupported_alg')
+  const alg = header.alg as IdTokenAlg
+
+  const endpoints = await resolveEndpoints(provider)
+  let keys: Jwk[]
+  if (provider.idToken?.keys) keys = provider.idToken.keys
+  else if (endpoints.jwksUrl)
+    keys = await getJwks(endpoints.jwksUrl, header.kid ? { kid: header.kid } : {})
+  else throw new Error('id_token_jwks_unavailable')
+
+  const candidates = keys.filter(
+    (k) =>
+      k.kty === ALGS[alg].kty &&
+      (!header.kid || k.kid === header.kid) &&
+      (!k.alg || k.alg === alg) &&
+      (!k.use || k.use === 'sig'),
+  )
+  if (candidates.length === 0) throw new Error('id_token_unknown_kid')
+
+  const sig = new Uint8Array(Buffer.from(sigPart, 'base64url'))
+  let valid = false
+  for (const jwk of candidates) {
+    if (await verifySignature(alg, jwk, `${headerPart}.${payloadPart}`, sig)) {
+      valid = true
+      break
+    }
+  }
+  if (!valid) throw new Error('id_token_invalid_signature')
+
+  // Microsoft's multi-tenant discovery advertises "{tenantid}" as a placeholder issuer
+  const issuer = endpoints.issuer?.replace('{tenantid}', String(claims.tid ?? ''))
+  if (!issuer) throw new Error('id_token_issuer_unknown')
+  if (claims.iss !== issuer) throw new Error('id_token_issuer_mismatch')
+
+  const aud = Array.isArray(claims.aud) ? claims.aud : [claims.aud]
+  if (!aud.includes(provider.clientId)) throw new Error('id_token_audience_mismatch')
+  if (aud.length > 1 && claims.azp !== undefined && claims.azp !== provider.clientId)
+    throw new Error('id_token_audience_mismatch')
+
+  const now = Math.floor((opts.now ?? Date.now()) / 1000)
+  const skew = opts.clockSkewSec ?? 60
+  if (typeof claims.exp !== 'number' || now > claims.exp + skew) throw new Error('id_token_expired')
+  if (typeof claims.nbf === 'number' && now + skew < claims.nbf)
+    throw new Error('id_token_not_yet_valid')
+
+  if (opts.nonce !== undefined && claims.nonce !== opts.nonce)
+    throw new Error('id_token_nonce_mismatch')
+
+  return claims
+}
+
+/** Whether `verifyIdToken` has a key source for this provider */
+export function canVerifyIdToken(provider: OAuthProvider) {
+  return !!(provider.idToken?.keys || provider.idToken?.jwksUrl || provider.discovery?.issuer)
+}
@@ -0,0 +1,55 @@
+import type { Jwk } from '../jwt/types'
+
+type Entry = { keys: Jwk[]; fetchedAt: number; expiresAt: number }
+
+const DEFAULT_TTL_MS = 60 * 60_000
+// Floor between refetches triggered by an unknown kid, so forged kids can't hammer the IdP
+const MIN_REFETCH_MS = 30_000
+
+const cache = new Map<string, Entry>()
+const inflight = new Map<string, Promise<Entry>>()
+
+function maxAgeMs(cacheControl: string | null) {
+  const m = cacheControl?.match(/max-age=(\d+)/)
+  return m ? Number(m[1]) * 1000 : DEFAULT_TTL_MS
+}
+
+function load(url: string): Promise<Entry> {
+  const pending = inflight.get(url)
+  if (pending) return pending
+  const p = fetch(url)
+    .then(async (r) => {
+      if (!r.ok) throw new Error(`jwks_fetch_failed:${r.status}`)
+      const body = (await r.json()) as { keys?: Jwk[] }
+      const now = Date.now()
+      const entry = {
+        keys: Array.isArray(body.keys) ? body.keys : [],
+        fetchedAt: now,
+        expiresAt: now + maxAgeMs(r.headers?.get?.('cache-control') ?? null),
+      }
+      cache.set(url, entry)
+      return entry
+    })
+    .finally(() => inflight.delete(url))
+  inflight.set(url, p)
+  return p
+}
+
+/**
+ * Fetch a provider's JWKS, cached per URL for the response max-age (1h default).
+ * When `kid` is not in the cached set the keys are refetched once, to pick up rotations.
+ */
+export async function getJwks(url: string, opts: { kid?: string } = {}): Promise<Jwk[]> {
+  const now = Date.now()
+  let entry = cache.get(url)
+  if (!entry || entry.expiresAt <= now) {
+    entry = await load(url)
+  } else if (
+    opts.kid &&
+    !entry.keys.some((k) => k.kid === opts.kid) &&
+    now - entry.fetchedAt >= MIN_REFETCH_MS
+  ) {
+    entry = await load(url)
+  }
+  return entry.keys
+}
@@ -0,0 +1,164 @@
+import type { Adapter } from '../adapter'
+import { aesGcmOpen, aesGcmSeal } from '../crypto/aead'
+import { hkdfSha256 } from '../crypto/hkdf'
+import { ERR, KeyloomError } from '../errors'
+import { eventMeta } from '../events/bus'
+import type { EventBus } from '../events/types'
+import type { AccountEmailCtx } from '../runtime/account-emails'
+import type { SessionMeta } from '../session/model'
+import { issueVerificationToken } from '../tokens/verification'
+import type { Account, ID, User } from '../types'
+
+/**
+ * What happens when an OAuth sign-in's email matches an existing user who hasn't linked the provider:
+ * - `never`: refuse (`OAUTH_ACCOUNT_NOT_LINKED`); the user signs in and links from settings
+ * - `verified-email-only`: link when the provider asserts the email is verified, otherwise confirm
+ * - `require-signed-in-confirmation`: always confirm, by signing in as the user or by email
+ */
+export type AccountLinkingPolicy =
+  | 'never'
+  | 'verified-email-only'
+  | 'require-signed-in-confirmation'
+
+export const DEFAULT_ACCOUNT_LINKING: AccountLinkingPolicy = 'verified-email-only'
+export const DEFAULT_LINK_CONFIRM_PATH = '/api/auth/oauth/link/confirm'
+const DEFAULT_PENDING_LINK_TTL_MINUTES = 15
+
+export type PendingAccount = Omit<Account, 'id' | 'userId'>
+
+type PendingLinkPayload = {
+  u: ID // existing user the account would be linked to
+  k: string // single-use verification token, also emailed as the confirmation proof
+  a: PendingAccount
+  r?: string // where to go once confirmed
+  x: number // expiry (epoch ms)
+}
+
+export type PendingLink = {
+  /** Opaque sealed token; keep it in the browser that started the flow (HttpOnly cookie) */
+  token: string
+  /** Proof for the email confirmation link; never send it to the browser directly */
+  confirmToken: string
+  userId: ID
+  provider: string
+  expiresAt: Date
+}
+
+const pendingIdentifier = (userId: ID) => `oauth-link:${userId}`
+
+async function linkKey(authSecret: string) {
+  const enc = new TextEncoder()
+  return hkdfSha256(
+    enc.encode(authSecret),
+    enc.encode('keyloom'),
+    enc.encode('keyloom:oauth-link'),
+    32,
+  )
+}
+
+/** Hold an OAuth account until the existing user confirms the link. */
+export async function issuePendingLink(
+  input: { userId: ID; account: PendingAccount; redirectTo?: string | undefined },
+  ctx: { adapter: Adapter; secret: string; ttlMinutes?: number },
+): Promise<PendingLink> {
+  const vt = issueVerificationToken(
+    pendingIdentifier(input.userId),
+    ctx.ttlMinutes ?? DEFAULT_PENDING_LINK_TTL_MINUTES,
+  )
+  await ctx.adapter.createVerificationToken({
+    identifier: vt.identifier,
+    token: vt.token,
+    expiresAt: vt.expiresAt,
+  })
+  const payload: PendingLinkPayload = {
+    u: input.userId,
+    k: vt.token,
+    a: input.account,
+    x: vt.expiresAt.getTime(),
+  }
+  if (input.redirectTo) payload.r = input.redirectTo
+  const { nonce, ct } = await aesGcmSeal(
+    await linkKey(ctx.secret),
+    new TextEncoder().encode(JSON.stringify(payload)),
+  )
+  return {
+    token: `${nonce}.${ct}`,
+    confirmToken: vt.token,
+    userId: input.userId,
+    provider: input.account.provider,
+    expiresAt: vt.expiresAt,
+  }
+}
+
+async function openPendingLink(token: string | null | undefined, secret: string) {
+  const [nonce, ct] = (token ?? '').split('.')
+  if (!nonce || !ct) return null
+  try {
+    const out = await aesGcmOpen(await linkKey(secret), nonce, ct)
+    const payload = JSON.parse(new TextDecoder().decode(out)) as PendingLinkPayload
+    return payload.x > Date.now() ? payload : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Complete a pending link. Proof is either the signed-in user (re-authentication) or the
+ * `confirmToken` from the confirmation email; the token can only be used once either way.
+ */
+export async function confirmPendingLink(
+  token: string | null | undefined,
+  proof: { userId: ID } | { confirmToken: string },
+  ctx: {
+    adapter: Adapter
+    secret: string
+    events?: EventBus | undefined
+    meta?: SessionMeta | undefined
+  },
+): Promise<{ userId: ID; account: Account; redirectTo: string | null }> {
+  const payload = await openPendingLink(token, ctx.secret)
+  if (!payload) throw new KeyloomError(ERR.OAUTH_LINK_INVALID, 'Link request is invalid or expired')
+  if ('userId' in proof && proof.userId !== payload.u)
+    throw new KeyloomError(ERR.OAUTH_LINK_USER_MISMATCH, 'Signed in as a different user')
+  if ('confirmToken' in proof && proof.confirmToken !== payload.k)
+    throw new KeyloomError(ERR.OAUTH_LINK_INVALID, 'Link request is invalid or expired')
+  if (!(await ctx.adapter.useVerificationToken(pendingIdentifier(payload.u), payload.k)))
+    throw new KeyloomError(ERR.OAUTH_LINK_INVALID, 'Link request was already used')
+
+  const existing = await ctx.adapter.getAccountByProvider(
+    payload.a.provider,
+    payload.a.providerAccountId,
+  )
+  if (existing && existing.userId !== payload.u) throw new KeyloomError(ERR.ACCOUNT_LINKED)
+  const account =
+    existing ??
+    (await ctx.adapter.linkAccount({ ...payload.a, id: undefined as any, userId: payload.u }))
+  if (!existing) {
+    await ctx.events?.emit(
+      'account.linked',
+      { provider: account.provider, providerAccountId: account.providerAccountId },
+      eventMeta(payload.u, ctx.meta),
+    )
+  }
+  return { userId: payload.u, account, redirectTo: payload.r ?? null }
+}
+
+/** Email the existing user a link that confirms the pending link from the browser that started it. */
+export async function sendAccountLinkEmail(
+  user: Pick<User, 'email' | 'name'>,
+  pending: PendingLink,
+  ctx: Omit<AccountEmailCtx, 'adapter'>,
+): Promise<boolean> {
+  if (!user.email || !ctx.emailService?.sendAccountLinkConfirmation) return false
+  const url = new URL(ctx.path ?? DEFAULT_LINK_CONFIRM_PATH, ctx.baseUrl)
+  url.searchParams.set('token', pending.confirmToken)
+  const result = await ctx.emailService.sendAccountLinkConfirmation({
+    email: user.email,
+    provider: pending.provider,
+    confirmUrl: url.toString(),
+    appName: ctx.appName ?? 'Keyloom App',
+    expirationMinutes: Math.max(1, Math.round((pending.expiresAt.getTime() - Date.now()) / 60_000)),
+    ...(user.name ? { userName: user.name } : {}),
+  })
+  return result.success
+}
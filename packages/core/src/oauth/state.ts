@@ -5,6 +5,8 @@ export type OAuthStatePayload = {
   v: string
   r?: string
   m?: 'link' | 'login'
+  u?: string // user a link flow was started for
+  n?: string // OIDC nonce, checked against the id_token
   t: number
 }
 
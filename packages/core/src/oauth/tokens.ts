@@ -0,0 +1,134 @@
+import type { Adapter } from '../adapter'
+import { aesGcmOpen, aesGcmSeal } from '../crypto/aead'
+import { hkdfSha256 } from '../crypto/hkdf'
+import { ERR, KeyloomError } from '../errors'
+import type { Account, AccountTokens, ID } from '../types'
+import type { OAuthProvider, Tokens } from './types'
+
+// Sealed values are `kl1.<nonce>.<ct>`; anything else is a token stored before encryption
+const SEALED_PREFIX = 'kl1.'
+// Refresh a little early so the token doesn't expire mid-request
+const EXPIRY_SKEW_SEC = 60
+
+type AccountRef = Pick<Account, 'provider' | 'providerAccountId'>
+
+export type ProviderAccessToken = {
+  accessToken: string
+  tokenType: string | null
+  expiresAt: number | null // epoch seconds
+  scope: string | null
+}
+
+async function tokenKey(authSecret: string) {
+  const enc = new TextEncoder()
+  return hkdfSha256(
+    enc.encode(authSecret),
+    enc.encode('keyloom'),
+    enc.encode('keyloom:oauth-tokens'),
+    32,
+  )
+}
+
+// Bound to the account so a sealed token can't be copied onto another account row
+const aadOf = (ref: AccountRef) =>
+  new TextEncoder().encode(`${ref.provider}:${ref.providerAccountId}`)
+
+async function sealValue(value: string, ref: AccountRef, secret: string) {
+  const { nonce, ct } = await aesGcmSeal(
+    await tokenKey(secret),
+    new TextEncoder().encode(value),
+    aadOf(ref),
+  )
+  return `${SEALED_PREFIX}${nonce}.${ct}`
+}
+
+async function openValue(value: string, ref: AccountRef, secret: string) {
+  if (!value.startsWith(SEALED_PREFIX)) return value
+  const [nonce, ct] = value.slice(SEALED_PREFIX.length).split('.')
+  const out = await aesGcmOpen(await tokenKey(secret), nonce ?? '', ct ?? '', aadOf(ref))
+  return new TextDecoder().decode(out)
+}
+
+/** Account token fields from a token endpoint response, with access and refresh tokens encrypted. */
+export async function encryptAccountTokens(
+  ref: AccountRef,
+  tokens: Tokens,
+  secret: string,
+): Promise<AccountTokens> {
+  return {
+    accessToken: await sealValue(tokens.access_token, ref, secret),
+    refreshToken: tokens.refresh_token ? await sealValue(tokens.refresh_token, ref, secret) : null,
+    tokenType: tokens.token_type ?? null,
+    expiresAt: tokens.expires_in ? Math.floor(Date.now() / 1000) + tokens.expires_in : null,
+    scope: tokens.scope ?? null,
+  }
+}
+
+/** The account with its stored access and refresh tokens decrypted. */
+export async function decryptAccountTokens(account: Account, secret: string): Promise<Account> {
+  return {
+    ...account,
+    accessToken: account.accessToken ? await openValue(account.accessToken, account, secret) : null,
+    refreshToken: account.refreshToken
+      ? await openValue(account.refreshToken, account, secret)
+      : null,
+  }
+}
+
+/**
+ * A usable access token for the user's linked `providerId` account, for calling the provider's APIs.
+ * Expired tokens are refreshed with the `refresh_token` grant and written back (encrypted) via
+ * `updateAccount`. Returns null when the user hasn't linked the provider.
+ */
+export async function getProviderAccessToken(
+  userId: ID,
+  providerId: string,
+  ctx: {
+    adapter: Adapter
+    providers: Array<OAuthProvider & { clientId: string; clientSecret: string }>
+    secret: string
+  },
+): Promise<ProviderAccessToken | null> {
+  const stored = (await ctx.adapter.getAccountsByUser(userId)).find(
+    (a) => a.provider === providerId,
+  )
+  if (!stored?.accessToken) return null
+  const account = await decryptAccountTokens(stored, ctx.secret)
+  const current = {
+    accessToken: account.accessToken as string,
+    tokenType: account.tokenType ?? null,
+    expiresAt: account.expiresAt ?? null,
+    scope: account.scope ?? null,
+  }
+  if (!current.expiresAt || current.expiresAt - EXPIRY_SKEW_SEC > Date.now() / 1000) return current
+
+  if (!account.refreshToken)
+    throw new KeyloomError(ERR.OAUTH_TOKEN_EXPIRED, 'Access token expired and cannot be refreshed')
+  const provider = ctx.providers.find((p) => p.id === providerId)
+  if (!provider) throw new Error(`provider_not_found:${providerId}`)
+
+  const { refreshAccessToken } = await import('./client')
+  let tokens: Tokens
+  try {
+    tokens = await refreshAccessToken(provider, account.refreshToken)
+  } catch {
+    throw new KeyloomError(ERR.OAUTH_REFRESH_FAILED, 'Provider rejected the refresh token')
+  }
+
+  // Providers that don't rotate refresh tokens (or re-send the scope) keep the stored ones
+  const sealed = await encryptAccountTokens(
+    stored,
+    { refresh_token: account.refreshToken, ...tokens },
+    ctx.secret,
+  )
+  const updated = await ctx.adapter.updateAccount(stored.id, {
+    ...sealed,
+    scope: sealed.scope ?? current.scope,
+  })
+  return {
+    accessToken: tokens.access_token,
+    tokenType: updated.tokenType ?? null,
+    expiresAt: updated.expiresAt ?? null,
+    scope: updated.scope ?? null,
+  }
+}
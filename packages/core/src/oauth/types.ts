@@ -1,9 +1,13 @@
+import type { Jwk } from '../jwt/types'
+import type { AccountLinkingPolicy } from './pending-link'
+
 export type OAuthProvider = {
   id: string
   discovery?: { issuer: string }
-  authorization: { url: string; params?: Record<string, string> }
+  // Endpoint URLs may be omitted when `discovery` provides them
+  authorization: { url?: string; params?: Record<string, string> }
   token: {
-    url: string
+    url?: string
     style?: 'json' | 'form'
     headers?: Record<string, string>
     customizeBody?: (
@@ -18,8 +22,16 @@ export type OAuthProvider = {
     map?: (raw: any, tokens: Tokens) => Profile
   }
   profileFromIdToken?: (claims: Record<string, any>) => Profile
+  // ID token verification; issuer and jwks_uri otherwise come from discovery
+  idToken?: {
+    issuer?: string
+    jwksUrl?: string
+    keys?: Jwk[] // static keys instead of a JWKS endpoint
+  }
   profileOverrides?: (profile: Profile) => Record<string, any>
   scopes?: string[]
+  /** Sign-ins whose email matches an existing user (default: `config.accountLinking.policy`) */
+  accountLinking?: AccountLinkingPolicy
 }
 
 export type Profile = {
@@ -7,7 +7,7 @@ export type RouteMatchExt = { kind: string; params?: Record<string, string> };
 
 export type NextRoute = {
   /** HTTP method */
-  method: "GET" | "POST";
+  method: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
   /** Full matcher regex against pathname */
   path: RegExp;
   /** Logical kind for introspection*/
@@ -0,0 +1,178 @@
+import { randToken } from '../crypto/random'
+import { ERR, KeyloomError } from '../errors'
+import { eventMeta } from '../events/bus'
+import type { EventBus } from '../events/types'
+import type { SessionMeta } from '../session/model'
+import type { ID, RbacConfig } from '../types'
+import { addOrgMember } from './seats'
+import type { OrgDomain, OrgDomainPolicy, RbacAdapter, Role } from './types'
+
+/** `dns.promises.resolveTxt` shape: each record is a list of character-string chunks */
+export type TxtResolver = (hostname: string) => Promise<string[][]>
+
+export type OrgDomainOptions = {
+  /** Role for auto-joined members when the domain doesn't set one (default `member`) */
+  defaultRole?: Role
+  /** Where SSO-only domains send users (default: the SAML plugin's `/api/auth/saml/:orgId/login`) */
+  ssoPath?: (orgId: ID) => string
+  /** DNS TXT lookup used by `verifyOrgDomain` (default: `node:dns` resolveTxt) */
+  resolveTxt?: TxtResolver
+}
+
+export const ORG_DOMAIN_TXT_PREFIX = '_keyloom-verification'
+const TXT_VALUE_PREFIX = 'keyloom-verification='
+const DOMAIN_RE = /^(?=.{1,253}$)(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/
+
+/** Thrown when the email's domain is verified by an org that requires SSO */
+export class OrgSsoRequiredError extends KeyloomError {
+  orgId: ID
+  ssoUrl: string
+  constructor(orgId: ID, ssoUrl: string) {
+    super(ERR.ORG_SSO_REQUIRED, "Sign in with your organization's single sign-on")
+    this.orgId = orgId
+    this.ssoUrl = ssoUrl
+  }
+}
+
+type DomainAdapter = Pick<
+  RbacAdapter,
+  | 'createOrgDomain'
+  | 'listOrgDomains'
+  | 'getOrgDomainsByDomain'
+  | 'updateOrgDomain'
+  | 'getMembership'
+  | 'addMember'
+>
+
+type SeatAdapterMethod = 'getEntitlements' | 'listMembers' | 'listPendingInvites' | 'withOrgLock'
+
+export function normalizeDomain(domain: string): string {
+  const out = domain.trim().toLowerCase().replace(/\.$/, '')
+  if (!DOMAIN_RE.test(out)) throw new KeyloomError(ERR.ORG_DOMAIN_INVALID, 'Invalid domain')
+  return out
+}
+
+/** The TXT record the org must publish to prove it controls the domain */
+export function orgDomainTxtRecord(orgDomain: Pick<OrgDomain, 'domain' | 'verificationToken'>) {
+  return {
+    name: `${ORG_DOMAIN_TXT_PREFIX}.${orgDomain.domain}`,
+    value: `${TXT_VALUE_PREFIX}${orgDomain.verificationToken}`,
+  }
+}
+
+/** Claim an email domain for an org; it has no effect until `verifyOrgDomain` succeeds. */
+export async function claimOrgDomain(
+  input: { orgId: ID; domain: string; policy?: OrgDomainPolicy; role?: Role | null },
+  adapter: DomainAdapter,
+) {
+  const domain = normalizeDomain(input.domain)
+  const claims = await adapter.getOrgDomainsByDomain(domain)
+  if (claims.some((d) => d.orgId !== input.orgId && d.verifiedAt))
+    throw new KeyloomError(ERR.ORG_DOMAIN_TAKEN, 'Domain is verified by another organization')
+  const existing = claims.find((d) => d.orgId === input.orgId)
+  const orgDomain =
+    existing ??
+    (await adapter.createOrgDomain({
+      orgId: input.orgId,
+      domain,
+      verificationToken: randToken(24),
+      policy: input.policy ?? 'auto-join',
+      role: input.role ?? null,
+    }))
+  return { orgDomain, record: orgDomainTxtRecord(orgDomain) }
+}
+
+async function defaultResolveTxt(hostname: string) {
+  const { resolveTxt } = await import('node:dns/promises')
+  return resolveTxt(hostname)
+}
+
+/**
+ * Look up the domain's `_keyloom-verification` TXT record and mark it verified when it carries the
+ * org's token. A domain can only be verified by one org at a time.
+ */
+export async function verifyOrgDomain(
+  orgId: ID,
+  domainId: ID,
+  ctx: { adapter: DomainAdapter; resolveTxt?: TxtResolver | undefined },
+): Promise<OrgDomain> {
+  const orgDomain = (await ctx.adapter.listOrgDomains(orgId)).find((d) => d.id === domainId)
+  if (!orgDomain) throw new KeyloomError(ERR.ORG_DOMAIN_NOT_FOUND)
+  if (orgDomain.verifiedAt) return orgDomain
+  const claims = await ctx.adapter.getOrgDomainsByDomain(orgDomain.domain)
+  if (claims.some((d) => d.orgId !== orgId && d.verifiedAt))
+    throw new KeyloomError(ERR.ORG_DOMAIN_TAKEN, 'Domain is verified by another organization')
+
+  const { name, value } = orgDomainTxtRecord(orgDomain)
+  const records = await (ctx.resolveTxt ?? defaultResolveTxt)(name).catch(() => [] as string[][])
+  // Long TXT values arrive split into chunks; a record matches once they're joined back up
+  if (!records.some((chunks) => chunks.join('') === value))
+    throw new KeyloomError(ERR.ORG_DOMAIN_UNVERIFIED, `TXT record ${name} not found`)
+  return ctx.adapter.updateOrgDomain(orgDomain.id, { verifiedAt: new Date() })
+}
+
+/** The verified org domain covering `email`, if any. */
+export async function findOrgDomainForEmail(
+  email: string | null | undefined,
+  adapter: Partial<Pick<RbacAdapter, 'getOrgDomainsByDomain'>>,
+): Promise<OrgDomain | null> {
+  const at = email?.lastIndexOf('@') ?? -1
+  if (!email || at < 0 || !adapter.getOrgDomainsByDomain) return null
+  const domain = email
+    .slice(at + 1)
+    .trim()
+    .toLowerCase()
+  const claims = await adapter.getOrgDomainsByDomain(domain)
+  return claims.find((d) => d.verifiedAt) ?? null
+}
+
+/**
+ * Apply the verified domain policy for a sign-up or sign-in by `email`: throws `OrgSsoRequiredError`
+ * for SSO-only domains, otherwise returns the auto-join domain (or null) for `joinOrgDomain`.
+ */
+export async function enforceOrgDomain(
+  email: string | null | undefined,
+  adapter: Partial<Pick<RbacAdapter, 'getOrgDomainsByDomain'>>,
+  options: OrgDomainOptions = {},
+): Promise<OrgDomain | null> {
+  const orgDomain = await findOrgDomainForEmail(email, adapter)
+  if (orgDomain?.policy === 'sso') {
+    const ssoUrl =
+      options.ssoPath?.(orgDomain.orgId) ??
+      `/api/auth/saml/${encodeURIComponent(orgDomain.orgId)}/login`
+    throw new OrgSsoRequiredError(orgDomain.orgId, ssoUrl)
+  }
+  return orgDomain
+}
+
+/**
+ * Add the user to the domain's org unless they already have a membership (of any status, so a
+ * suspended member isn't re-activated). Only call this once the user's email is verified.
+ * Takes a seat like any other new member: throws `SEAT_LIMIT_REACHED` when the org is full.
+ */
+export async function joinOrgDomain(
+  userId: ID,
+  orgDomain: OrgDomain,
+  ctx: {
+    adapter: Partial<Pick<RbacAdapter, 'getMembership' | 'addMember' | SeatAdapterMethod>>
+    rbac?: RbacConfig | null | undefined
+    options?: OrgDomainOptions | undefined
+    events?: EventBus | undefined
+    meta?: SessionMeta | undefined
+  },
+) {
+  const { adapter } = ctx
+  if (!adapter.getMembership || !adapter.addMember) return null
+  if (await adapter.getMembership(userId, orgDomain.orgId)) return null
+  const role = orgDomain.role ?? ctx.options?.defaultRole ?? 'member'
+  const membership = await addOrgMember(
+    { userId, orgId: orgDomain.orgId, role },
+    { adapter: adapter as RbacAdapter, rbac: ctx.rbac },
+  )
+  await ctx.events?.emit(
+    'rbac.role.assigned',
+    { orgId: orgDomain.orgId, role },
+    { ...eventMeta(userId, ctx.meta), orgId: orgDomain.orgId },
+  )
+  return membership
+}
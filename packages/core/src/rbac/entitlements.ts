@@ -0,0 +1,65 @@
+import { ERR, KeyloomError } from '../errors'
+import type { ID } from '../types'
+import type { Entitlements, RbacAdapter } from './types'
+
+/**
+ * A feature flag that must be on (a bare string is a feature), or a named limit the current
+ * `usage` must stay under. Entitlements past `validUntil` grant nothing.
+ */
+export type EntitlementRequirement =
+  | string
+  | { feature: string }
+  | { limit: string; usage?: number | (() => number | Promise<number>) }
+
+export async function entitlementAllows(
+  ent: Entitlements | null | undefined,
+  requirement: EntitlementRequirement,
+  now: Date = new Date(),
+): Promise<boolean> {
+  if (!ent) return false
+  if (ent.validUntil && new Date(ent.validUntil).getTime() < now.getTime()) return false
+  const req = typeof requirement === 'string' ? { feature: requirement } : requirement
+  if ('feature' in req) return ent.features?.[req.feature] === true
+  const max = ent.limits?.[req.limit]
+  if (typeof max !== 'number') return false
+  const usage = typeof req.usage === 'function' ? await req.usage() : (req.usage ?? 0)
+  return usage < max
+}
+
+/** Throws `ENTITLEMENT_REQUIRED` unless the org's entitlements meet `requirement` */
+export async function assertEntitlement(
+  orgId: ID,
+  requirement: EntitlementRequirement,
+  ctx: { adapter: Pick<RbacAdapter, 'getEntitlements'>; now?: Date },
+): Promise<void> {
+  const ent = await ctx.adapter.getEntitlements(orgId)
+  if (!(await entitlementAllows(ent, requirement, ctx.now))) {
+    const name =
+      typeof requirement === 'string'
+        ? requirement
+        : 'feature' in requirement
+          ? requirement.feature
+          : requirement.limit
+    throw new KeyloomError(
+      ERR.ENTITLEMENT_REQUIRED,
+      `The organization's plan doesn't include ${name}`,
+    )
+  }
+}
+
+/** Handler wrapper in the style of `withRole`: runs `handler` only when the entitlement is met */
+export function requireEntitlement<Req, Res>(
+  handler: (ctx: { req: Req }) => Promise<Res>,
+  opts: {
+    entitlement: EntitlementRequirement
+    getEntitlements: () => Promise<Entitlements | null>
+    onDenied?: () => Promise<Res>
+  },
+) {
+  return async (ctx: { req: Req }) => {
+    if (await entitlementAllows(await opts.getEntitlements(), opts.entitlement)) return handler(ctx)
+    return opts.onDenied
+      ? opts.onDenied()
+      : Promise.reject(new KeyloomError(ERR.ENTITLEMENT_REQUIRED, 'entitlement_required'))
+  }
+}
@@ -0,0 +1,121 @@
+import type { RbacConfig, RbacRolesMapping } from '../types'
+import { matchesPermission, roleChain } from './policy'
+import type {
+  Permission,
+  PolicyDecision,
+  PolicyResource,
+  PolicySubject,
+  RbacCondition,
+  RbacRule,
+} from './types'
+
+function ruleName(rule: RbacRule, index: number) {
+  return rule.id ?? `rules[${index}]`
+}
+
+function conditionHolds(
+  when: RbacCondition | undefined,
+  subject: PolicySubject,
+  action: Permission,
+  resource: PolicyResource,
+) {
+  if (!when) return true
+  if (when.owner && (!subject.userId || resource.ownerId !== subject.userId)) return false
+  if (when.features?.some((f) => subject.entitlements?.features?.[f] !== true)) return false
+  if (when.resource && Object.entries(when.resource).some(([k, v]) => resource[k] !== v))
+    return false
+  return !when.check || when.check({ subject, action, resource })
+}
+
+/** Whether `rbac` has anything `evaluate()` could grant; guards skip permission checks otherwise */
+export function isPolicyConfigured(rbac?: RbacConfig | null) {
+  const roles = rbac?.roles
+  const mapped =
+    !!roles &&
+    !Array.isArray(roles) &&
+    Object.values(roles).some((r) => r?.permissions?.length || r?.deny?.length)
+  return mapped || !!rbac?.rules?.length
+}
+
+/** Whether any rule depends on entitlements, so callers know to load them */
+export function needsEntitlements(rbac?: RbacConfig | null) {
+  return !!rbac?.rules?.some((r) => r.when?.features?.length)
+}
+
+/**
+ * Decide whether `subject` may perform `action` on `resource`. In order:
+ * 1. the subject's own role `deny` list, then matching `deny` rules, refuse;
+ * 2. a grant on the role or any role it inherits, then matching `allow` rules, permit;
+ * 3. anything else is refused.
+ */
+export function evaluate(
+  subject: PolicySubject,
+  action: Permission,
+  resource: PolicyResource = {},
+  rbac?: RbacConfig | null,
+): PolicyDecision {
+  if (!subject.role)
+    return { allowed: false, reason: 'no_role', explanation: 'Subject has no role' }
+  const role = subject.role
+  const roles = rbac?.roles
+  const mapping: RbacRolesMapping = roles && !Array.isArray(roles) ? roles : {}
+  const chain = roleChain(role, rbac)
+  const rules = (rbac?.rules ?? []).filter(
+    (r) =>
+      r.actions.some((a) => matchesPermission(a, action)) &&
+      (!r.roles || r.roles.some((x) => chain.includes(x))),
+  )
+
+  const denied = mapping[role]?.deny?.find((p) => matchesPermission(p, action))
+  if (denied)
+    return {
+      allowed: false,
+      reason: 'role_deny',
+      role,
+      match: denied,
+      explanation: `Role "${role}" denies "${denied}"`,
+    }
+  for (const [i, rule] of rules.entries()) {
+    if (rule.effect !== 'deny' || !conditionHolds(rule.when, subject, action, resource)) continue
+    return {
+      allowed: false,
+      reason: 'rule_deny',
+      match: ruleName(rule, i),
+      explanation: `Rule "${ruleName(rule, i)}" denies "${action}"`,
+    }
+  }
+
+  for (const r of chain) {
+    const granted = mapping[r]?.permissions?.find((p) => matchesPermission(p, action))
+    if (!granted) continue
+    const via = r === role ? `Role "${role}"` : `Role "${role}" inherits "${r}", which`
+    return {
+      allowed: true,
+      reason: 'role_grant',
+      role: r,
+      match: granted,
+      explanation: `${via} grants "${granted}"`,
+    }
+  }
+  const unmet: string[] = []
+  for (const [i, rule] of rules.entries()) {
+    if (rule.effect !== 'allow') continue
+    if (!conditionHolds(rule.when, subject, action, resource)) {
+      unmet.push(ruleName(rule, i))
+      continue
+    }
+    return {
+      allowed: true,
+      reason: 'rule_allow',
+      match: ruleName(rule, i),
+      explanation: `Rule "${ruleName(rule, i)}" allows "${action}"`,
+    }
+  }
+  return {
+    allowed: false,
+    reason: 'no_grant',
+    explanation: unmet.length
+      ? `No grant for "${action}"; conditions not met for ${unmet.map((n) => `"${n}"`).join(', ')}`
+      : `No grant for "${action}" on role "${role}"`,
+  }
+}
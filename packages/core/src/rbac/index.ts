@@ -0,0 +1,6 @@
+export type { RbacConfig, RbacRolePermissions, RbacRolesMapping } from '../types'
+export * from './entitlements'
+export * from './evaluate'
+export * from './org-roles'
+export * from './policy'
+export * from './types'
@@ -1,6 +1,8 @@
 import { randToken } from "../crypto/random";
 import { tokenHash } from "../crypto/token-hash";
-import type { ID } from "../types";
+import type { EventBus } from "../events/types";
+import type { ID, RbacConfig } from "../types";
+import { withSeat } from "./seats";
 import type { RbacAdapter } from "./types";
 
 import { inMemoryRateLimiter, type RateLimiter } from "../guard/rate-limit";
@@ -44,6 +46,8 @@ export async function acceptInvite(opts: {
   roleFallback?: string; // if invite is missing role, default to this (default: 'member')
   userEmail?: string; // optional: enforce email-binding when provided
   rateLimiter?: RateLimiter; // optional: custom rate limiter (e.g., Redis)
+  events?: EventBus;
+  rbac?: RbacConfig | undefined; // seat accounting (`rbac.seats`)
 }) {
   const {
     adapter,
@@ -54,6 +58,8 @@ export async function acceptInvite(opts: {
     roleFallback = "member",
     userEmail,
     rateLimiter,
+    events,
+    rbac,
   } = opts;
   // Basic acceptance rate limit per user/org pair
   const limiter: RateLimiter = rateLimiter ?? defaultLimiter;
@@ -79,12 +85,17 @@ export async function acceptInvite(opts: {
     }
   }
 
-  // Consume first to avoid races; in DB adapters this should be done atomically in a txn
-  await adapter.consumeInvite(invite.id);
-
-  // Create membership
+  // Consume and create the membership together; a new member needs a free seat (the invite's own
+  // seat carries over) and both happen under the org lock when the adapter has one
   const role = invite.role || roleFallback;
-  const membership = await adapter.addMember({ userId, orgId, role });
+  const accept = async (a: RbacAdapter) => {
+    await a.consumeInvite(invite.id);
+    return a.addMember({ userId, orgId, role });
+  };
+  const membership = (await adapter.getMembership(userId, orgId))
+    ? await accept(adapter)
+    : await withSeat(orgId, { adapter, rbac }, accept, { fromInvite: true });
+  await events?.emit("rbac.role.assigned", { orgId, role }, { userId, orgId });
 
   return { invite, membership };
 }
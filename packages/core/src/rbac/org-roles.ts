@@ -0,0 +1,164 @@
+import { ERR, KeyloomError } from '../errors'
+import type { ID, RbacConfig, RbacRolesMapping } from '../types'
+import { evaluate } from './evaluate'
+import { activeMemberRole, matchesPermission, toPermissionMap } from './policy'
+import type { OrgRole, Permission, RbacAdapter, Role } from './types'
+
+const DEFAULT_MAX_CUSTOM_ROLES = 20
+const ROLE_NAME_RE = /^[a-z][a-z0-9_-]{0,63}$/
+
+type OrgRoleAdapter = Pick<
+  RbacAdapter,
+  'createOrgRole' | 'listOrgRoles' | 'updateOrgRole' | 'removeOrgRole' | 'listMembers'
+> &
+  Partial<Pick<RbacAdapter, 'getMembership'>>
+
+type OrgRoleContext = {
+  adapter: OrgRoleAdapter
+  rbac?: RbacConfig | null | undefined
+  /** The member making the change; they can only hand out permissions they hold themselves */
+  actor?: { userId: ID }
+}
+
+/** Role names declared in `rbac.roles` (mapping or legacy list); orgs can't define these */
+export function systemRoles(rbac?: RbacConfig | null): Role[] {
+  const roles = rbac?.roles
+  if (!roles) return []
+  return Array.isArray(roles) ? roles : Object.keys(roles)
+}
+
+/** Every permission the config declares: the catalog custom roles pick from */
+export function permissionCatalog(rbac?: RbacConfig | null): Set<Permission> {
+  return new Set([...Object.keys(toPermissionMap(rbac)), ...(rbac?.permissions ?? [])])
+}
+
+function validPermissions(permissions: unknown, rbac?: RbacConfig | null): Permission[] {
+  if (!Array.isArray(permissions) || permissions.some((p) => typeof p !== 'string'))
+    throw new KeyloomError(ERR.ORG_ROLE_INVALID, 'permissions must be a list of strings')
+  const catalog = [...permissionCatalog(rbac)]
+  for (const p of permissions as Permission[]) {
+    // A wildcard is fine as long as it covers something in the catalog
+    if (!catalog.some((c) => c === p || matchesPermission(p, c)))
+      throw new KeyloomError(ERR.ORG_ROLE_INVALID, `Unknown permission: ${p}`)
+  }
+  return [...new Set(permissions as Permission[])]
+}
+
+/**
+ * `rbac` with the org's own roles added to its roles mapping. System roles keep their static
+ * definition when an org role has the same name.
+ */
+export function withOrgRoles(rbac: RbacConfig | null | undefined, orgRoles: OrgRole[]) {
+  const roles = rbac?.roles
+  const system: RbacRolesMapping = Array.isArray(roles)
+    ? Object.fromEntries(roles.map((r) => [r, { permissions: [] }]))
+    : (roles ?? {})
+  const custom: RbacRolesMapping = Object.fromEntries(
+    orgRoles.map((r) => [r.name, { permissions: r.permissions }]),
+  )
+  return { ...rbac, roles: { ...custom, ...system } } as RbacConfig
+}
+
+/** The roles config that applies inside `orgId`: static roles plus, when enabled, its custom ones */
+export async function resolveOrgRbac(
+  orgId: ID | null | undefined,
+  ctx: {
+    rbac?: RbacConfig | null | undefined
+    adapter: Partial<Pick<RbacAdapter, 'listOrgRoles'>>
+  },
+): Promise<RbacConfig | undefined> {
+  const rbac = ctx.rbac ?? undefined
+  if (!orgId || !rbac?.customRoles?.enabled || !ctx.adapter.listOrgRoles) return rbac
+  return withOrgRoles(rbac, await ctx.adapter.listOrgRoles(orgId))
+}
+
+/**
+ * Refuse permissions the acting member doesn't hold in `orgId`. A wildcard needs every catalog
+ * permission it covers.
+ */
+async function assertGrantable(orgId: ID, permissions: Permission[], ctx: OrgRoleContext) {
+  if (!ctx.actor) return
+  const role = activeMemberRole(await ctx.adapter.getMembership?.(ctx.actor.userId, orgId))
+  if (!role) throw new KeyloomError(ERR.ORG_ROLE_FORBIDDEN, 'Not a member of this organization')
+  const orgRbac = await resolveOrgRbac(orgId, ctx)
+  const catalog = [...permissionCatalog(ctx.rbac)]
+  for (const p of permissions) {
+    const covered = catalog.filter((c) => c === p || matchesPermission(p, c))
+    const subject = { userId: ctx.actor.userId, role }
+    if (covered.some((c) => !evaluate(subject, c, undefined, orgRbac).allowed))
+      throw new KeyloomError(ERR.ORG_ROLE_FORBIDDEN, `Role ${role} lacks permission: ${p}`)
+  }
+}
+
+async function findOrgRole(orgId: ID, id: ID, adapter: Pick<RbacAdapter, 'listOrgRoles'>) {
+  const role = (await adapter.listOrgRoles(orgId)).find((r) => r.id === id)
+  if (!role) throw new KeyloomError(ERR.ORG_ROLE_NOT_FOUND, 'Role not found')
+  return role
+}
+
+/**
+ * Define a role for one org. The name can't shadow a system role, and every permission must come
+ * from the configured catalog and, when `ctx.actor` is set, be held by the actor.
+ */
+export async function createOrgRole(
+  input: { orgId: ID; name: string; description?: string | null; permissions: Permission[] },
+  ctx: OrgRoleContext,
+): Promise<OrgRole> {
+  const options = ctx.rbac?.customRoles
+  if (!options?.enabled)
+    throw new KeyloomError(ERR.ORG_ROLE_INVALID, 'Custom roles are not enabled')
+  const name = String(input.name ?? '')
+    .trim()
+    .toLowerCase()
+  if (!ROLE_NAME_RE.test(name))
+    throw new KeyloomError(
+      ERR.ORG_ROLE_INVALID,
+      'Role names are lowercase letters, digits, "-" or "_"',
+    )
+  if (systemRoles(ctx.rbac).includes(name))
+    throw new KeyloomError(ERR.ORG_ROLE_RESERVED, `"${name}" is a system role`)
+  const permissions = validPermissions(input.permissions, ctx.rbac)
+  await assertGrantable(input.orgId, permissions, ctx)
+
+  const existing = await ctx.adapter.listOrgRoles(input.orgId)
+  if (existing.some((r) => r.name === name))
+    throw new KeyloomError(ERR.ORG_ROLE_EXISTS, `Role "${name}" already exists`)
+  if (existing.length >= (options.maxPerOrg ?? DEFAULT_MAX_CUSTOM_ROLES))
+    throw new KeyloomError(ERR.ORG_ROLE_LIMIT, 'Too many custom roles')
+  return ctx.adapter.createOrgRole({
+    orgId: input.orgId,
+    name,
+    description: input.description ?? null,
+    permissions,
+  })
+}
+
+/** Change an org role's description or permissions. Memberships refer to it by name, so that stays */
+export async function updateOrgRole(
+  orgId: ID,
+  id: ID,
+  data: { description?: string | null; permissions?: Permission[] },
+  ctx: OrgRoleContext,
+): Promise<OrgRole> {
+  const role = await findOrgRole(orgId, id, ctx.adapter)
+  const patch: Partial<Pick<OrgRole, 'description' | 'permissions'>> = {}
+  if (data.description !== undefined) patch.description = data.description
+  if (data.permissions !== undefined) {
+    patch.permissions = validPermissions(data.permissions, ctx.rbac)
+    await assertGrantable(orgId, patch.permissions, ctx)
+  }
+  return ctx.adapter.updateOrgRole(role.id, patch)
+}
+
+/** Delete an org role once no member holds it */
+export async function deleteOrgRole(
+  orgId: ID,
+  id: ID,
+  ctx: { adapter: OrgRoleAdapter },
+): Promise<void> {
+  const role = await findOrgRole(orgId, id, ctx.adapter)
+  const members = await ctx.adapter.listMembers(orgId)
+  if (members.some((m) => m.role === role.name))
+    throw new KeyloomError(ERR.ORG_ROLE_IN_USE, `Members still have the "${role.name}" role`)
+  await ctx.adapter.removeOrgRole(role.id)
+}
@@ -0,0 +1,135 @@
+import { ERR, KeyloomError } from '../errors'
+import type { ID, RbacConfig } from '../types'
+import type { Membership, Organization, RbacAdapter, Role } from './types'
+
+const OWNER: Role = 'owner'
+const DAY_MS = 24 * 60 * 60 * 1000
+const SLUG_RE = /^[a-z0-9](?:[a-z0-9-]{0,62}[a-z0-9])?$/
+
+type OrgAdapter = Pick<
+  RbacAdapter,
+  | 'getOrganization'
+  | 'updateOrganization'
+  | 'deleteOrganization'
+  | 'listDeletedOrganizations'
+  | 'getMembership'
+  | 'listMembers'
+  | 'updateMember'
+  | 'removeMember'
+>
+
+const gracePeriodMs = (rbac?: RbacConfig | null) =>
+  Math.max(0, rbac?.orgDeletion?.gracePeriodDays ?? 0) * DAY_MS
+
+async function activeOrg(orgId: ID, adapter: Pick<RbacAdapter, 'getOrganization'>) {
+  const org = await adapter.getOrganization(orgId)
+  if (!org || org.deletedAt) throw new KeyloomError(ERR.ORG_NOT_FOUND, 'Organization not found')
+  return org
+}
+
+async function activeOwners(orgId: ID, adapter: Pick<RbacAdapter, 'listMembers'>) {
+  return (await adapter.listMembers(orgId)).filter(
+    (m) => m.role === OWNER && m.status === 'active',
+  )
+}
+
+/** Rename an org or change its slug (lowercase letters, digits and inner hyphens; null clears it) */
+export async function updateOrganization(
+  orgId: ID,
+  data: { name?: string; slug?: string | null },
+  ctx: { adapter: OrgAdapter },
+): Promise<Organization> {
+  await activeOrg(orgId, ctx.adapter)
+  const patch: Partial<Pick<Organization, 'name' | 'slug'>> = {}
+  if (data.name !== undefined) {
+    const name = String(data.name).trim()
+    if (!name || name.length > 128)
+      throw new KeyloomError(ERR.ORG_INVALID, 'Name must be 1-128 characters')
+    patch.name = name
+  }
+  if (data.slug !== undefined) {
+    const slug = data.slug === null ? null : String(data.slug).trim().toLowerCase()
+    if (slug !== null && !SLUG_RE.test(slug))
+      throw new KeyloomError(ERR.ORG_INVALID, 'Slugs are lowercase letters, digits and "-"')
+    patch.slug = slug
+  }
+  return ctx.adapter.updateOrganization(orgId, patch)
+}
+
+/**
+ * Delete an org. With `rbac.orgDeletion.gracePeriodDays` it's only marked (hidden from members'
+ * org lists, restorable) and `purgeDeletedOrganizations` removes it later; `purgeAt` says when.
+ */
+export async function deleteOrganization(
+  orgId: ID,
+  ctx: { adapter: OrgAdapter; rbac?: RbacConfig | null | undefined; now?: Date },
+): Promise<{ purgeAt: Date | null }> {
+  await activeOrg(orgId, ctx.adapter)
+  const grace = gracePeriodMs(ctx.rbac)
+  if (!grace) {
+    await ctx.adapter.deleteOrganization(orgId)
+    return { purgeAt: null }
+  }
+  const now = ctx.now ?? new Date()
+  await ctx.adapter.updateOrganization(orgId, { deletedAt: now })
+  return { purgeAt: new Date(now.getTime() + grace) }
+}
+
+/** Cancel a pending deletion during the grace period */
+export async function restoreOrganization(
+  orgId: ID,
+  ctx: { adapter: OrgAdapter },
+): Promise<Organization> {
+  const org = await ctx.adapter.getOrganization(orgId)
+  if (!org?.deletedAt)
+    throw new KeyloomError(ERR.ORG_NOT_FOUND, 'No pending deletion for this organization')
+  return ctx.adapter.updateOrganization(orgId, { deletedAt: null })
+}
+
+/** Remove orgs whose grace period is over; run it from a cron job. Returns how many were purged */
+export async function purgeDeletedOrganizations(ctx: {
+  adapter: OrgAdapter
+  rbac?: RbacConfig | null | undefined
+  now?: Date
+}): Promise<number> {
+  const cutoff = new Date((ctx.now ?? new Date()).getTime() - gracePeriodMs(ctx.rbac))
+  const due = await ctx.adapter.listDeletedOrganizations(cutoff)
+  for (const org of due) await ctx.adapter.deleteOrganization(org.id)
+  return due.length
+}
+
+/**
+ * Make another active member an owner and step the current owner down to `demoteTo` (default
+ * `admin`). The new owner is promoted first so the org always keeps one.
+ */
+export async function transferOrgOwnership(
+  orgId: ID,
+  input: { fromUserId: ID; toUserId: ID; demoteTo?: Role },
+  ctx: { adapter: OrgAdapter },
+): Promise<{ from: Membership; to: Membership }> {
+  await activeOrg(orgId, ctx.adapter)
+  const from = await ctx.adapter.getMembership(input.fromUserId, orgId)
+  if (from?.role !== OWNER)
+    throw new KeyloomError(ERR.ORG_INVALID, 'Only an owner can transfer ownership')
+  const to = await ctx.adapter.getMembership(input.toUserId, orgId)
+  if (!to || to.status !== 'active' || to.userId === from.userId)
+    throw new KeyloomError(ERR.ORG_MEMBER_NOT_FOUND, 'The new owner must be an active member')
+  const promoted = to.role === OWNER ? to : await ctx.adapter.updateMember(to.id, { role: OWNER })
+  const demoteTo = input.demoteTo ?? 'admin'
+  const demoted =
+    demoteTo === OWNER ? from : await ctx.adapter.updateMember(from.id, { role: demoteTo })
+  return { from: demoted, to: promoted }
+}
+
+/** Remove the user's own membership. The last owner has to transfer ownership (or delete) first */
+export async function leaveOrganization(
+  orgId: ID,
+  userId: ID,
+  ctx: { adapter: OrgAdapter },
+): Promise<void> {
+  const m = await ctx.adapter.getMembership(userId, orgId)
+  if (!m) throw new KeyloomError(ERR.ORG_MEMBER_NOT_FOUND, 'Not a member of this organization')
+  if (m.role === OWNER && (await activeOwners(orgId, ctx.adapter)).length <= 1)
+    throw new KeyloomError(ERR.ORG_LAST_OWNER, 'Transfer ownership before leaving')
+  await ctx.adapter.removeMember(m.id)
+}
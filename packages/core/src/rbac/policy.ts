@@ -1,18 +1,67 @@
-import type { Permission, Role } from './types'
 import type { RbacConfig, RbacRolesMapping } from '../types'
+import type { Membership, Permission, Role } from './types'
 
 export type PermissionMap = Record<Permission, Role[]>
 
-export function hasRole(role: Role, required: Role) {
-  return role === required
+function rolesMapping(rbac?: RbacConfig | null): RbacRolesMapping | null {
+  const roles = rbac?.roles as unknown
+  if (!roles || typeof roles !== 'object' || Array.isArray(roles)) return null
+  return roles as RbacRolesMapping
 }
-export function hasAnyRole(role: Role, required: Role[]) {
-  return required.includes(role)
+
+/**
+ * Whether a granted permission pattern covers `perm`. Patterns are `:`-separated; `*` matches any
+ * single segment, and a trailing `*` matches everything below it (`billing:*` → `billing:invoices:read`).
+ */
+export function matchesPermission(pattern: Permission, perm: Permission) {
+  if (pattern === perm || pattern === '*') return true
+  if (!pattern.includes('*')) return false
+  const want = pattern.split(':')
+  const have = perm.split(':')
+  for (let i = 0; i < want.length; i++) {
+    if (want[i] === '*' && i === want.length - 1) return have.length > i
+    if (have[i] === undefined || (want[i] !== '*' && want[i] !== have[i])) return false
+  }
+  return want.length === have.length
+}
+
+/** `role` followed by every role it inherits, nearest first. Cycles in `inherits` are ignored */
+export function roleChain(role: Role, rbac?: RbacConfig | null): Role[] {
+  const mapping = rolesMapping(rbac)
+  const chain: Role[] = [role]
+  for (let i = 0; i < chain.length; i++) {
+    for (const parent of mapping?.[chain[i]!]?.inherits ?? [])
+      if (!chain.includes(parent)) chain.push(parent)
+  }
+  return chain
+}
+
+/** Every permission pattern `role` is granted, its inherited roles' included */
+export function effectivePermissions(role: Role, rbac?: RbacConfig | null): Permission[] {
+  const mapping = rolesMapping(rbac)
+  const out = new Set<Permission>()
+  for (const r of roleChain(role, rbac)) for (const p of mapping?.[r]?.permissions ?? []) out.add(p)
+  return [...out]
+}
+
+/** `role` is `required` or (with `rbac`) inherits it */
+export function hasRole(role: Role, required: Role, rbac?: RbacConfig | null) {
+  return role === required || (!!rbac && roleChain(role, rbac).includes(required))
+}
+export function hasAnyRole(role: Role, required: Role[], rbac?: RbacConfig | null) {
+  return required.some((r) => hasRole(role, r, rbac))
+}
+
+/** The membership's role, or null when it's missing or not active (invited, suspended) */
+export function activeMemberRole(m: Pick<Membership, 'role' | 'status'> | null | undefined) {
+  return m && m.status === 'active' ? m.role : null
 }
 
 export function can(role: Role, perm: Permission, map: PermissionMap) {
-  const allowed = map[perm] ?? []
-  return allowed.includes(role)
+  if ((map[perm] ?? []).includes(role)) return true
+  return Object.entries(map).some(
+    ([pattern, roles]) => roles.includes(role) && matchesPermission(pattern, perm),
+  )
 }
 
 // Global role utilities
@@ -25,25 +74,23 @@ export function hasAnyGlobalRole(role: Role, required: Role[]) {
 }
 
 export function canGlobal(role: Role, perm: Permission, map: PermissionMap) {
-  const allowed = map[perm] ?? []
-  return allowed.includes(role)
+  return can(role, perm, map)
 }
 
 export function isRbacMappingConfigured(rbac?: RbacConfig | null): boolean {
-  if (!rbac) return false
-  const roles = (rbac as RbacConfig).roles as unknown
-  return !!roles && typeof roles === 'object' && !Array.isArray(roles)
+  return !!rolesMapping(rbac)
 }
 
+/**
+ * Flatten the roles mapping into permission → roles, inherited grants included. Deny lists and
+ * rules aren't representable here; use `evaluate()` where they matter.
+ */
 export function toPermissionMap(rbac?: RbacConfig | null): PermissionMap {
   const out: PermissionMap = Object.create(null)
-  if (!rbac) return out
-  const roles = rbac.roles as unknown
-  if (!roles || typeof roles !== 'object' || Array.isArray(roles)) return out
-  const mapping = roles as RbacRolesMapping
-  for (const [role, obj] of Object.entries(mapping)) {
-    const perms = obj?.permissions || []
-    for (const p of perms) {
+  const mapping = rolesMapping(rbac)
+  if (!mapping) return out
+  for (const role of Object.keys(mapping)) {
+    for (const p of effectivePermissions(role, rbac)) {
       const key = p as Permission
       if (!out[key]) out[key] = []
       const arr = out[key]!
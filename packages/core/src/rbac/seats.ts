@@ -0,0 +1,81 @@
+import { ERR, KeyloomError } from '../errors'
+import type { ID, RbacConfig } from '../types'
+import type { Invite, Membership, RbacAdapter, Role } from './types'
+
+type SeatAdapter = Pick<
+  RbacAdapter,
+  'getEntitlements' | 'listMembers' | 'listPendingInvites' | 'withOrgLock'
+>
+
+type SeatCtx<A extends SeatAdapter = SeatAdapter> = {
+  adapter: A
+  rbac?: RbacConfig | null | undefined
+  now?: Date
+}
+
+export type SeatUsage = {
+  /** `entitlements.seats`; null when the org has no seat limit */
+  limit: number | null
+  /** Members that aren't suspended */
+  members: number
+  /** Unexpired pending invites, 0 when `rbac.seats.countPendingInvites` is off */
+  invites: number
+  used: number
+}
+
+const countsInvites = (rbac?: RbacConfig | null) => rbac?.seats?.countPendingInvites !== false
+
+export async function getSeatUsage(orgId: ID, ctx: SeatCtx): Promise<SeatUsage> {
+  const { adapter } = ctx
+  const ent = await adapter.getEntitlements(orgId)
+  const limit = typeof ent?.seats === 'number' ? ent.seats : null
+  const members = (await adapter.listMembers(orgId)).filter((m) => m.status !== 'suspended').length
+  const now = (ctx.now ?? new Date()).getTime()
+  const invites = countsInvites(ctx.rbac)
+    ? (await adapter.listPendingInvites(orgId)).filter((i) => i.expiresAt.getTime() > now).length
+    : 0
+  return { limit, members, invites, used: members + invites }
+}
+
+/**
+ * Run `fn`, which takes one seat, only if the org has one free; throws `SEAT_LIMIT_REACHED`
+ * otherwise. With `fromInvite` the seat held by a counted pending invite carries over. Holds the
+ * adapter's `withOrgLock` when it has one so concurrent callers can't overbook.
+ */
+export async function withSeat<T, A extends SeatAdapter>(
+  orgId: ID,
+  ctx: SeatCtx<A>,
+  fn: (adapter: A) => Promise<T>,
+  opts: { fromInvite?: boolean } = {},
+): Promise<T> {
+  const run = async (adapter: A) => {
+    const usage = await getSeatUsage(orgId, { ...ctx, adapter })
+    const held = opts.fromInvite && countsInvites(ctx.rbac) ? 1 : 0
+    if (usage.limit !== null && usage.used - held + 1 > usage.limit)
+      throw new KeyloomError(ERR.SEAT_LIMIT_REACHED, `All ${usage.limit} seats are in use`)
+    return fn(adapter)
+  }
+  // The locked adapter is the same adapter, bound to the transaction
+  return ctx.adapter.withOrgLock
+    ? ctx.adapter.withOrgLock(orgId, (tx) => run(tx as unknown as A))
+    : run(ctx.adapter)
+}
+
+/** `addMember` that respects the seat limit; an existing membership is returned as-is */
+export async function addOrgMember(
+  data: { userId: ID; orgId: ID; role: Role },
+  ctx: SeatCtx<SeatAdapter & Pick<RbacAdapter, 'getMembership' | 'addMember'>>,
+): Promise<Membership> {
+  const existing = await ctx.adapter.getMembership(data.userId, data.orgId)
+  if (existing) return existing
+  return withSeat(data.orgId, ctx, (adapter) => adapter.addMember(data))
+}
+
+/** `createInvite` that holds a seat for the invitee, unless pending invites aren't counted */
+export async function createOrgInvite(
+  data: { orgId: ID; email: string; role: Role; tokenHash: string; expiresAt: Date },
+  ctx: SeatCtx<SeatAdapter & Pick<RbacAdapter, 'createInvite'>>,
+): Promise<Invite> {
+  if (!countsInvites(ctx.rbac)) return ctx.adapter.createInvite(data)
+  return withSeat(data.orgId, ctx, (adapter) => adapter.createInvite(data))
+}
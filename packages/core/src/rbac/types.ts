@@ -7,6 +7,10 @@ export type Organization = {
   id: ID
   name: string
   slug?: string | null
+  /** Set while a deletion waits out its grace period; the org is purged afterwards */
+  deletedAt?: Date | null
+  /** The org's customer id at the billing provider (a Stripe `cus_…`), set by billing sync */
+  billingCustomerId?: string | null
   createdAt: Date
   updatedAt: Date
 }
@@ -43,6 +47,34 @@ export type Invite = {
   createdAt: Date
 }
 
+/**
+ * What a verified domain does for users whose email is on it:
+ * - `auto-join`: they become members (with the domain's role) when they sign up or sign in
+ * - `sso`: sign-ups, magic-link and OAuth sign-ins are refused and sent to the org's SSO instead
+ */
+export type OrgDomainPolicy = 'auto-join' | 'sso'
+export type OrgDomain = {
+  id: ID
+  orgId: ID
+  domain: string // lowercase, no trailing dot
+  verificationToken: string // published in a DNS TXT record to prove ownership
+  verifiedAt?: Date | null
+  policy: OrgDomainPolicy
+  role?: Role | null // auto-join role; falls back to the configured default
+  createdAt: Date
+}
+
+/** A role an org defines for itself. A system role in `rbac.roles` with the same name wins */
+export type OrgRole = {
+  id: ID
+  orgId: ID
+  name: Role
+  description?: string | null
+  permissions: Permission[]
+  createdAt: Date
+  updatedAt: Date
+}
+
 export type Entitlements = {
   plan?: 'FREE' | 'PRO' | 'BUSINESS' | string
   seats?: number
@@ -51,12 +83,74 @@ export type Entitlements = {
   validUntil?: Date | null
 }
 
+/** Who is asking: the role comes from their membership (or global role) */
+export type PolicySubject = {
+  userId?: ID | null
+  role?: Role | null
+  /** The org's entitlements, needed by rules with `features` conditions */
+  entitlements?: Entitlements | null
+}
+
+/** What is being acted on; free-form attributes for rule conditions */
+export type PolicyResource = {
+  type?: string
+  id?: ID
+  ownerId?: ID | null
+  [attr: string]: unknown
+}
+
+/** All given conditions must hold for a rule to apply */
+export type RbacCondition = {
+  /** The subject owns the resource (`resource.ownerId === subject.userId`) */
+  owner?: boolean
+  /** Entitlement feature flags that must all be on */
+  features?: string[]
+  /** Resource attributes that must equal these values */
+  resource?: Record<string, unknown>
+  check?: (input: {
+    subject: PolicySubject
+    action: Permission
+    resource: PolicyResource
+  }) => boolean
+}
+
+export type RbacRule = {
+  /** Shown in decisions; defaults to the rule's index */
+  id?: string
+  effect: 'allow' | 'deny'
+  /** Permissions the rule covers; wildcards allowed */
+  actions: Permission[]
+  /** Roles (or roles inheriting them) it applies to; every role when omitted */
+  roles?: Role[]
+  when?: RbacCondition
+}
+
+export type PolicyDecision = {
+  allowed: boolean
+  reason: 'role_grant' | 'role_deny' | 'rule_allow' | 'rule_deny' | 'no_role' | 'no_grant'
+  /** Role whose grant or deny list decided it (the subject's own or an inherited one) */
+  role?: Role
+  /** Permission pattern or rule id that matched */
+  match?: string
+  explanation: string
+}
+
 // Adapter extension (non-breaking): apps can narrow adapter to this shape when RBAC is enabled
 export interface RbacAdapter {
   // Orgs
   createOrganization(data: { name: string; slug?: string | null }): Promise<Organization>
   getOrganization(id: ID): Promise<Organization | null>
+  /** Orgs the user is an active member of, leaving out ones pending deletion */
   getOrganizationsByUser(userId: ID): Promise<Organization[]>
+  updateOrganization(
+    id: ID,
+    data: Partial<Pick<Organization, 'name' | 'slug' | 'deletedAt' | 'billingCustomerId'>>,
+  ): Promise<Organization>
+  getOrganizationByBillingCustomerId(customerId: string): Promise<Organization | null>
+  /** Delete the org with its memberships, invites, domains, roles, entitlements and org API keys */
+  deleteOrganization(id: ID): Promise<void>
+  /** Orgs marked deleted at or before `before` */
+  listDeletedOrganizations(before: Date): Promise<Organization[]>
 
   // Memberships
   addMember(data: { userId: ID; orgId: ID; role: Role }): Promise<Membership>
@@ -75,10 +169,48 @@ export interface RbacAdapter {
   }): Promise<Invite>
   getInviteByTokenHash(orgId: ID, tokenHash: string): Promise<Invite | null>
   consumeInvite(inviteId: ID): Promise<void>
+  /** Invites not accepted yet, expired ones included */
+  listPendingInvites(orgId: ID): Promise<Invite[]>
+
+  // Claimed email domains
+  createOrgDomain(data: {
+    orgId: ID
+    domain: string
+    verificationToken: string
+    policy?: OrgDomainPolicy
+    role?: Role | null
+  }): Promise<OrgDomain>
+  listOrgDomains(orgId: ID): Promise<OrgDomain[]>
+  /** Every org's claim on `domain`, verified or not */
+  getOrgDomainsByDomain(domain: string): Promise<OrgDomain[]>
+  updateOrgDomain(
+    id: ID,
+    data: Partial<Pick<OrgDomain, 'verifiedAt' | 'policy' | 'role'>>,
+  ): Promise<OrgDomain>
+  removeOrgDomain(id: ID): Promise<void>
+
+  // Org-defined roles
+  createOrgRole(data: {
+    orgId: ID
+    name: Role
+    description?: string | null
+    permissions: Permission[]
+  }): Promise<OrgRole>
+  listOrgRoles(orgId: ID): Promise<OrgRole[]>
+  updateOrgRole(
+    id: ID,
+    data: Partial<Pick<OrgRole, 'description' | 'permissions'>>,
+  ): Promise<OrgRole>
+  removeOrgRole(id: ID): Promise<void>
 
   // Entitlements (optional)
   getEntitlements(orgId: ID): Promise<Entitlements | null>
   setEntitlements(orgId: ID, ent: Entitlements): Promise<void>
+  /**
+   * Run `fn` in a transaction that holds the org's row lock, so seat checks and the writes that
+   * follow can't interleave with another request. Without it seat limits are best-effort.
+   */
+  withOrgLock?<T>(orgId: ID, fn: (adapter: RbacAdapter) => Promise<T>): Promise<T>
 
   // Global Roles
   assignGlobalRole(data: { userId: ID; role: Role }): Promise<UserGlobalRole>
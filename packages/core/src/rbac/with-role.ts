@@ -1,28 +1,39 @@
+import type { RbacConfig } from '../types'
+import { evaluate, isPolicyConfigured } from './evaluate'
 import type { PermissionMap } from './policy'
 import { can as canPerm, hasAnyRole } from './policy'
+import type { PolicyResource } from './types'
 
 export function withRole<Req, Res>(
   handler: (ctx: { req: Req }) => Promise<Res>,
   opts: {
     requiredRoles?: string[]
     requiredPermission?: string
-    getRole: () => Promise<{ role: string | null }>
+    getRole: () => Promise<{ role: string | null; userId?: string | null }>
     permMap?: PermissionMap
+    /** Role hierarchy, wildcards, deny lists and rules; used when no `permMap` is given */
+    rbac?: RbacConfig
+    resource?: PolicyResource
     onDenied?: () => Promise<Res>
   },
 ) {
   return async (ctx: { req: Req }) => {
-    const { role } = await opts.getRole()
+    const { role, userId } = await opts.getRole()
     if (!role) return opts.onDenied ? opts.onDenied() : Promise.reject(new Error('unauthorized'))
-    if (opts.requiredRoles?.length && !hasAnyRole(role, opts.requiredRoles)) {
+    if (opts.requiredRoles?.length && !hasAnyRole(role, opts.requiredRoles, opts.rbac)) {
       return opts.onDenied ? opts.onDenied() : Promise.reject(new Error('forbidden'))
     }
-    if (
-      opts.requiredPermission &&
-      opts.permMap &&
-      !canPerm(role, opts.requiredPermission, opts.permMap)
-    ) {
-      return opts.onDenied ? opts.onDenied() : Promise.reject(new Error('forbidden'))
+    if (opts.requiredPermission) {
+      const allowed = opts.permMap
+        ? canPerm(role, opts.requiredPermission, opts.permMap)
+        : !isPolicyConfigured(opts.rbac) ||
+          evaluate(
+            { userId: userId ?? null, role },
+            opts.requiredPermission,
+            opts.resource,
+            opts.rbac,
+          ).allowed
+      if (!allowed) return opts.onDenied ? opts.onDenied() : Promise.reject(new Error('forbidden'))
     }
     return handler(ctx)
   }
@@ -0,0 +1,130 @@
+import type { Adapter } from '../adapter'
+import type { EmailService } from '../email/types'
+import { ERR, KeyloomError } from '../errors'
+import { eventMeta } from '../events/bus'
+import type { EventBus } from '../events/types'
+import type { SessionMeta } from '../session/model'
+import { issueVerificationToken } from '../tokens/verification'
+import type { ID, User } from '../types'
+
+export const DEFAULT_PASSWORD_RESET_PATH = '/auth/reset-password'
+export const DEFAULT_VERIFY_EMAIL_PATH = '/auth/verify-email'
+const DEFAULT_PASSWORD_RESET_TTL_MINUTES = 15
+const DEFAULT_VERIFY_EMAIL_TTL_MINUTES = 24 * 60
+
+export type AccountEmailCtx = {
+  adapter: Adapter
+  /** Without one, tokens are still issued but nothing is sent */
+  emailService?: EmailService | null
+  /** The app's configured origin; never derive it from the request's Host header */
+  baseUrl: string
+  appName?: string
+  /** Page the link points at; receives `email` and `token` query params */
+  path?: string
+}
+
+// Tokens are namespaced by purpose, so a verification token can't be redeemed as a password reset
+export const passwordResetIdentifier = (email: string) => `reset:${email}`
+export const verifyEmailIdentifier = (email: string) => `verify:${email}`
+
+function actionUrl(baseUrl: string, path: string, email: string, token: string) {
+  const url = new URL(path, baseUrl)
+  url.searchParams.set('email', email)
+  url.searchParams.set('token', token)
+  return url.toString()
+}
+
+async function issueToken(adapter: Adapter, identifier: string, ttlMinutes: number) {
+  const vt = issueVerificationToken(identifier, ttlMinutes)
+  await adapter.createVerificationToken({
+    identifier: vt.identifier,
+    token: vt.token,
+    expiresAt: vt.expiresAt,
+  })
+  return vt
+}
+
+/**
+ * Issue a password reset token and email a reset link.
+ * Unknown addresses are silently ignored so the caller's response can't be used to enumerate users.
+ */
+export async function requestPasswordReset(
+  input: { email: string; ttlMinutes?: number },
+  ctx: AccountEmailCtx,
+): Promise<void> {
+  const user = await ctx.adapter.getUserByEmail(input.email.toLowerCase().trim())
+  if (!user?.email) return
+  const email = user.email
+
+  const ttlMinutes = input.ttlMinutes ?? DEFAULT_PASSWORD_RESET_TTL_MINUTES
+  const vt = await issueToken(ctx.adapter, passwordResetIdentifier(email), ttlMinutes)
+  if (!ctx.emailService) return
+  const result = await ctx.emailService.sendPasswordReset({
+    email,
+    resetUrl: actionUrl(ctx.baseUrl, ctx.path ?? DEFAULT_PASSWORD_RESET_PATH, email, vt.token),
+    appName: ctx.appName ?? 'Keyloom App',
+    expirationMinutes: ttlMinutes,
+    ...(user.name ? { userName: user.name } : {}),
+  })
+  if (!result.success) console.error('Failed to send password reset email:', result.error)
+}
+
+export type PasswordResetCtx = {
+  adapter: Adapter & {
+    updateCredential?(userId: ID, hash: string): Promise<unknown>
+    createCredential?(userId: ID, hash: string): Promise<unknown>
+  }
+  hasher: { hash(password: string): Promise<string> }
+  events?: EventBus
+}
+
+/**
+ * Redeem a password reset token and set the new password. The user's sessions are revoked, since
+ * whoever knew the old password may still be signed in; only `keepSessionId` (the session making
+ * the request, if any) survives. Throws TOKEN_NOT_FOUND for a bad or spent token.
+ */
+export async function completePasswordReset(
+  input: {
+    email: string
+    token: string
+    newPassword: string
+    keepSessionId?: ID | null
+    meta?: SessionMeta
+  },
+  ctx: PasswordResetCtx,
+) {
+  const { adapter } = ctx
+  const used = await adapter.useVerificationToken(passwordResetIdentifier(input.email), input.token)
+  if (!used || used.expiresAt.getTime() < Date.now()) throw new KeyloomError(ERR.TOKEN_NOT_FOUND)
+  const user = await adapter.getUserByEmail(input.email)
+  if (!user) throw new KeyloomError(ERR.USER_NOT_FOUND)
+
+  const hash = await ctx.hasher.hash(input.newPassword)
+  if (adapter.updateCredential) await adapter.updateCredential(user.id, hash)
+  else if (adapter.createCredential) await adapter.createCredential(user.id, hash)
+  const revokedSessions = await adapter.deleteSessionsByUser(
+    user.id,
+    input.keepSessionId ?? undefined,
+  )
+  await ctx.events?.emit('password.reset', {}, eventMeta(user.id, input.meta))
+  return { user, revokedSessions }
+}
+
+/** Issue an email verification token for `user` and email the verification link. */
+export async function sendVerificationEmail(
+  user: Pick<User, 'email' | 'name'>,
+  ctx: AccountEmailCtx & { ttlMinutes?: number },
+): Promise<boolean> {
+  if (!user.email) return false
+  const ttlMinutes = ctx.ttlMinutes ?? DEFAULT_VERIFY_EMAIL_TTL_MINUTES
+  const vt = await issueToken(ctx.adapter, verifyEmailIdentifier(user.email), ttlMinutes)
+  if (!ctx.emailService) return false
+  const result = await ctx.emailService.sendVerificationEmail({
+    email: user.email,
+    verifyUrl: actionUrl(ctx.baseUrl, ctx.path ?? DEFAULT_VERIFY_EMAIL_PATH, user.email, vt.token),
+    appName: ctx.appName ?? 'Keyloom App',
+    expirationMinutes: ttlMinutes,
+    ...(user.name ? { userName: user.name } : {}),
+  })
+  return result.success
+}
@@ -0,0 +1,69 @@
+import type { Adapter, AuthKeyAdapter } from '../adapter'
+import { ERR, KeyloomError } from '../errors'
+import { eventMeta } from '../events/bus'
+import type { EventBus } from '../events/types'
+import type { SessionMeta } from '../session/model'
+import type { Account, ID } from '../types'
+
+// Provider tokens stay server-side; clients only see which accounts are linked.
+export type LinkedAccountInfo = {
+  id: ID
+  provider: string
+  providerAccountId: string
+  scope: string | null
+}
+
+export type UnlinkAccountCtx = {
+  adapter: Adapter &
+    Partial<Pick<AuthKeyAdapter, 'listAuthKeysByUser'>> & {
+      getCredentialByUserId?(userId: ID): Promise<{ hash: string } | null>
+    }
+  events?: EventBus | undefined
+  meta?: SessionMeta | undefined
+}
+
+function toInfo(a: Account): LinkedAccountInfo {
+  return {
+    id: a.id,
+    provider: a.provider,
+    providerAccountId: a.providerAccountId,
+    scope: a.scope ?? null,
+  }
+}
+
+/** OAuth accounts linked to a user. */
+export async function listLinkedAccounts(
+  userId: ID,
+  adapter: Adapter,
+): Promise<LinkedAccountInfo[]> {
+  return (await adapter.getAccountsByUser(userId)).map(toInfo)
+}
+
+/** Ways the user can still sign in: a password, each linked account and each passkey. */
+export async function countSignInMethods(userId: ID, adapter: UnlinkAccountCtx['adapter']) {
+  const [accounts, credential, keys] = await Promise.all([
+    adapter.getAccountsByUser(userId),
+    adapter.getCredentialByUserId?.(userId) ?? null,
+    adapter.listAuthKeysByUser?.(userId) ?? [],
+  ])
+  return accounts.length + (credential ? 1 : 0) + keys.filter((k) => k.type === 'webauthn').length
+}
+
+/**
+ * Unlink one of the user's OAuth accounts by its id. Returns false when it doesn't exist or
+ * belongs to someone else; refuses (`LAST_SIGN_IN_METHOD`) to remove the user's only way in.
+ */
+export async function unlinkUserAccount(userId: ID, accountId: ID, ctx: UnlinkAccountCtx) {
+  const account = (await ctx.adapter.getAccountsByUser(userId)).find((a) => a.id === accountId)
+  if (!account) return false
+  if ((await countSignInMethods(userId, ctx.adapter)) <= 1)
+    throw new KeyloomError(ERR.LAST_SIGN_IN_METHOD, 'Cannot unlink the last sign-in method')
+
+  await ctx.adapter.unlinkAccount(account.provider, account.providerAccountId)
+  await ctx.events?.emit(
+    'account.unlinked',
+    { provider: account.provider, providerAccountId: account.providerAccountId },
+    eventMeta(userId, ctx.meta),
+  )
+  return true
+}
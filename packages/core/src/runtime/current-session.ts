@@ -1,10 +1,83 @@
 import type { Adapter } from '../adapter'
-import type { Session } from '../types'
+import { DEFAULT_SESSION_TTL_MINUTES } from '../constants'
+import type { KeyloomConfig, Session } from '../types'
+
+export type SessionPolicy = {
+  ttlMinutes?: number
+  /** Slide `expiresAt` forward on activity */
+  rolling?: boolean
+  /** Renew only once less than this much lifetime remains (default: half the TTL) */
+  renewThresholdMinutes?: number
+  /** Hard cap from sign-in, regardless of activity */
+  absoluteTtlMinutes?: number
+  /** Expire sessions that haven't been used for this long */
+  idleTimeoutMinutes?: number
+}
+
+export type CurrentSession = {
+  session: Session | null
+  user: Awaited<ReturnType<Adapter['getUser']>>
+  /** Set when `expiresAt` moved; callers should re-issue the session cookie */
+  renewed?: boolean
+  /** Set when the session had expired and was deleted; callers should clear the cookie */
+  expired?: boolean
+}
+
+// lastSeenAt is only written this often, so busy sessions don't cost a write per request
+const LAST_SEEN_RESOLUTION_MS = 5 * 60_000
+
+export function sessionPolicyFromConfig(config: Pick<KeyloomConfig, 'session'>): SessionPolicy {
+  const s = config.session ?? {}
+  const policy: SessionPolicy = { rolling: s.rolling ?? true }
+  if (s.ttlMinutes !== undefined) policy.ttlMinutes = s.ttlMinutes
+  if (s.renewThresholdMinutes !== undefined) policy.renewThresholdMinutes = s.renewThresholdMinutes
+  if (s.absoluteTtlMinutes !== undefined) policy.absoluteTtlMinutes = s.absoluteTtlMinutes
+  if (s.idleTimeoutMinutes !== undefined) policy.idleTimeoutMinutes = s.idleTimeoutMinutes
+  return policy
+}
+
+/**
+ * Resolve the session behind a cookie value, enforcing expiry and the optional idle/absolute limits.
+ * With a rolling policy, `expiresAt` is extended (never past the absolute limit) once it falls
+ * within the renewal threshold.
+ */
+export async function getCurrentSession(
+  cookieValue: string | null,
+  adapter: Adapter,
+  policy: SessionPolicy = {},
+): Promise<CurrentSession> {
+  if (!cookieValue) return { session: null, user: null }
+  let sess = await adapter.getSession(cookieValue)
+  if (!sess) return { session: null, user: null }
+
+  const now = Date.now()
+  const absoluteEnd = policy.absoluteTtlMinutes
+    ? new Date(sess.createdAt).getTime() + policy.absoluteTtlMinutes * 60_000
+    : Number.POSITIVE_INFINITY
+  const lastSeen = new Date(sess.lastSeenAt ?? sess.createdAt).getTime()
+  const idle = policy.idleTimeoutMinutes
+    ? now - lastSeen > policy.idleTimeoutMinutes * 60_000
+    : false
+  if (new Date(sess.expiresAt).getTime() <= now || absoluteEnd <= now || idle) {
+    await adapter.deleteSession(sess.id)
+    return { session: null, user: null, expired: true }
+  }
+
+  const patch: { expiresAt?: Date; lastSeenAt?: Date } = {}
+  if (policy.rolling) {
+    const ttlMs = (policy.ttlMinutes ?? DEFAULT_SESSION_TTL_MINUTES) * 60_000
+    const thresholdMs =
+      policy.renewThresholdMinutes !== undefined ? policy.renewThresholdMinutes * 60_000 : ttlMs / 2
+    const expiresAt = new Date(sess.expiresAt).getTime()
+    const next = Math.min(now + ttlMs, absoluteEnd)
+    if (expiresAt - now < thresholdMs && next > expiresAt) patch.expiresAt = new Date(next)
+  }
+  const lastSeenResolution = policy.idleTimeoutMinutes
+    ? Math.min(LAST_SEEN_RESOLUTION_MS, (policy.idleTimeoutMinutes * 60_000) / 2)
+    : LAST_SEEN_RESOLUTION_MS
+  if (patch.expiresAt || now - lastSeen >= lastSeenResolution) patch.lastSeenAt = new Date(now)
+  if (patch.lastSeenAt) sess = await adapter.updateSession(sess.id, patch)
 
-export async function getCurrentSession(cookieValue: string | null, adapter: Adapter) {
-  if (!cookieValue) return { session: null as Session | null, user: null }
-  const sess = await adapter.getSession(cookieValue)
-  if (!sess) return { session: null as Session | null, user: null }
   const user = await adapter.getUser(sess.userId)
-  return { session: sess as Session, user }
+  return patch.expiresAt ? { session: sess, user, renewed: true } : { session: sess, user }
 }
@@ -3,3 +3,6 @@ export * from './register'
 export * from './login'
 export * from './logout'
 export * from './current-session'
+export * from './sessions'
+export * from './accounts'
+export * from './account-emails'
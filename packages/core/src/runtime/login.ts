@@ -1,24 +1,64 @@
 import type { Adapter } from '../adapter'
 import { ERR, KeyloomError } from '../errors'
-import { newSession } from '../session/model'
-import type { ID } from '../types'
+import { eventMeta } from '../events/bus'
+import type { EventBus } from '../events/types'
+import { newSession, type SessionMeta } from '../session/model'
+import { pendingSecondFactorFor } from '../two-factor/core'
+import type { ID, Session, User } from '../types'
 
-export type LoginInput = { email: string; password: string; ttlMinutes?: number }
+export type LoginInput = {
+  email: string
+  password: string
+  ttlMinutes?: number
+  meta?: SessionMeta
+}
 export type LoginCtx = {
   adapter: Adapter & {
     getCredentialByUserId(userId: ID): Promise<{ hash: string } | null>
   }
   hasher: { verify(hash: string, pw: string): Promise<boolean> }
+  events?: EventBus
 }
 
-export async function login(input: LoginInput, ctx: LoginCtx) {
+// When the user has 2FA enabled no session is created yet; exchange pendingToken via
+// completeSecondFactor once the TOTP/recovery code is supplied.
+export type LoginResult =
+  | { user: User; session: Session; twoFactorRequired?: false }
+  | { user: User; session: null; twoFactorRequired: true; pendingToken: string; expiresAt: Date }
+
+export async function login(input: LoginInput, ctx: LoginCtx): Promise<LoginResult> {
+  const { events } = ctx
+  const fail = async (error: KeyloomError, userId?: ID) => {
+    await events?.emit(
+      'login.failed',
+      { email: input.email, method: 'password', reason: error.code },
+      eventMeta(userId, input.meta),
+    )
+    return error
+  }
+
   const user = await ctx.adapter.getUserByEmail(input.email)
-  if (!user) throw new KeyloomError(ERR.USER_NOT_FOUND)
+  if (!user) throw await fail(new KeyloomError(ERR.USER_NOT_FOUND))
   const cred = await ctx.adapter.getCredentialByUserId(user.id)
-  if (!cred) throw new KeyloomError('CREDENTIAL_NOT_FOUND', 'No credentials for user')
+  if (!cred)
+    throw await fail(new KeyloomError('CREDENTIAL_NOT_FOUND', 'No credentials for user'), user.id)
   const ok = await ctx.hasher.verify(cred.hash, input.password)
-  if (!ok) throw new KeyloomError('INVALID_CREDENTIALS', 'Invalid email or password')
+  if (!ok)
+    throw await fail(new KeyloomError('INVALID_CREDENTIALS', 'Invalid email or password'), user.id)
+  await events?.before('signIn', { user, method: 'password' })
+
+  const pending = await pendingSecondFactorFor(user.id, ctx.adapter)
+  if (pending) {
+    return {
+      user,
+      session: null,
+      twoFactorRequired: true,
+      pendingToken: pending.token,
+      expiresAt: pending.expiresAt,
+    }
+  }
 
-  const sess = await ctx.adapter.createSession(newSession(user.id, input.ttlMinutes))
+  const sess = await ctx.adapter.createSession(newSession(user.id, input.ttlMinutes, input.meta))
+  await events?.emit('session.created', { method: 'password' }, eventMeta(user.id, input.meta))
   return { user, session: sess }
 }
@@ -1,5 +1,8 @@
 import type { Adapter } from '../adapter'
+import type { EventBus } from '../events/types'
 
-export async function logout(sessionId: string, adapter: Adapter) {
+export async function logout(sessionId: string, adapter: Adapter, events?: EventBus) {
+  const sess = events ? await adapter.getSession(sessionId) : null
   await adapter.deleteSession(sessionId)
+  if (sess) await events?.emit('session.deleted', { reason: 'logout' }, { userId: sess.userId })
 }
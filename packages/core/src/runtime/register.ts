@@ -1,31 +1,50 @@
 import type { Adapter } from '../adapter'
-import type { ID } from '../types'
+import { eventMeta } from '../events/bus'
+import type { EventBus, NewUserData } from '../events/types'
+import { enforceOrgDomain, joinOrgDomain, type OrgDomainOptions } from '../rbac/domains'
+import type { RbacAdapter } from '../rbac/types'
+import type { SessionMeta } from '../session/model'
+import type { ID, User } from '../types'
 
 export type RegisterInput = {
   email: string
   password: string
   requireEmailVerify?: boolean
+  meta?: SessionMeta
 }
 export type RegisterCtx = {
-  adapter: Adapter & {
-    createCredential(userId: ID, hash: string): Promise<{ id: ID; userId: ID }>
-  }
+  adapter: Adapter &
+    Partial<Pick<RbacAdapter, 'getOrgDomainsByDomain' | 'getMembership' | 'addMember'>> & {
+      createCredential(userId: ID, hash: string): Promise<{ id: ID; userId: ID }>
+    }
   hasher: { hash(pw: string): Promise<string> }
   audit?: (type: string, meta?: { userId?: ID } & Record<string, unknown>) => Promise<void>
+  events?: EventBus
+  /** Verified org domains: SSO-only domains can't register, auto-join ones add the membership */
+  orgDomains?: OrgDomainOptions
 }
 
 export async function register(input: RegisterInput, ctx: RegisterCtx) {
   const { email, password, requireEmailVerify = false } = input
-  const { adapter, hasher } = ctx
+  const { adapter, hasher, events, orgDomains } = ctx
 
-  const u = await adapter.createUser({
-    email,
-    emailVerified: requireEmailVerify ? null : new Date(),
-  })
+  const orgDomain = orgDomains ? await enforceOrgDomain(email, adapter, orgDomains) : null
+  let data: NewUserData = { email, emailVerified: requireEmailVerify ? null : new Date() }
+  if (events) data = (await events.before('userCreate', { data, method: 'password' })).data
+  const u = await adapter.createUser(data as Partial<User>)
   const hash = await hasher.hash(password)
   await adapter.createCredential(u.id, hash)
 
   if (ctx.audit) await ctx.audit('user.created', { userId: u.id })
+  await events?.emit(
+    'user.created',
+    { email: u.email, method: 'password' },
+    eventMeta(u.id, input.meta),
+  )
+
+  // Unverified sign-ups join once they verify their email and sign in through another path
+  if (orgDomain && u.emailVerified)
+    await joinOrgDomain(u.id, orgDomain, { adapter, options: orgDomains, events, meta: input.meta })
 
   return { user: u, requiresVerification: requireEmailVerify }
 }
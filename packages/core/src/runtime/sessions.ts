@@ -0,0 +1,65 @@
+import type { Adapter } from '../adapter'
+import type { ID, Session } from '../types'
+import { subtle } from '../util/subtle'
+
+// Session ids are bearer secrets, so they are never returned to clients.
+// A truncated SHA-256 of the id identifies a session in list/revoke calls instead.
+async function publicSessionId(sessionId: ID) {
+  const digest = new Uint8Array(
+    await subtle.digest('SHA-256', new TextEncoder().encode(sessionId) as BufferSource),
+  )
+  let binary = ''
+  for (const b of digest.subarray(0, 16)) binary += String.fromCharCode(b)
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/g, '')
+}
+
+export type SessionInfo = {
+  id: string
+  ip: string | null
+  userAgent: string | null
+  createdAt: Date
+  lastSeenAt: Date | null
+  expiresAt: Date
+  current: boolean
+}
+
+async function toInfo(s: Session, currentSessionId: ID | null): Promise<SessionInfo> {
+  return {
+    id: await publicSessionId(s.id),
+    ip: s.ip ?? null,
+    userAgent: s.userAgent ?? null,
+    createdAt: s.createdAt,
+    lastSeenAt: s.lastSeenAt ?? null,
+    expiresAt: s.expiresAt,
+    current: s.id === currentSessionId,
+  }
+}
+
+/** Active sessions for a user, newest first, with the caller's session flagged `current`. */
+export async function listUserSessions(
+  userId: ID,
+  currentSessionId: ID | null,
+  adapter: Adapter,
+): Promise<SessionInfo[]> {
+  const now = Date.now()
+  const sessions = await adapter.listSessionsByUser(userId)
+  return Promise.all(
+    sessions.filter((s) => s.expiresAt.getTime() > now).map((s) => toInfo(s, currentSessionId)),
+  )
+}
+
+/** Revoke one of the user's sessions by its public id. Returns false when it doesn't exist. */
+export async function revokeUserSession(userId: ID, publicId: string, adapter: Adapter) {
+  for (const s of await adapter.listSessionsByUser(userId)) {
+    if ((await publicSessionId(s.id)) === publicId) {
+      await adapter.deleteSession(s.id)
+      return true
+    }
+  }
+  return false
+}
+
+/** Revoke every session of the user, optionally keeping `exceptSessionId` (sign out elsewhere). */
+export async function revokeUserSessions(userId: ID, adapter: Adapter, exceptSessionId?: ID) {
+  return adapter.deleteSessionsByUser(userId, exceptSessionId)
+}
@@ -1,4 +1,4 @@
-import { COOKIE_NAME } from '../constants'
+import { COOKIE_NAME, TWO_FACTOR_COOKIE_NAME } from '../constants'
 
 export type CookieOptions = {
   domain?: string
@@ -9,10 +9,10 @@ export type CookieOptions = {
   maxAge?: number // seconds
 }
 
-export function serializeSessionCookie(value: string, opts: CookieOptions = {}) {
+function serializeCookie(name: string, value: string, opts: CookieOptions) {
   const { domain, path = '/', sameSite = 'lax', secure = true, httpOnly = true, maxAge } = opts
 
-  const parts = [`${COOKIE_NAME}=${value}`]
+  const parts = [`${name}=${value}`]
   if (domain) parts.push(`Domain=${domain}`)
   if (path) parts.push(`Path=${path}`)
   parts.push(`SameSite=${sameSite.charAt(0).toUpperCase() + sameSite.slice(1)}`)
@@ -21,3 +21,12 @@ export function serializeSessionCookie(value: string, opts: CookieOptions = {})
   if (maxAge !== undefined) parts.push(`Max-Age=${Math.floor(maxAge)}`)
   return parts.join('; ')
 }
+
+export function serializeSessionCookie(value: string, opts: CookieOptions = {}) {
+  return serializeCookie(COOKIE_NAME, value, opts)
+}
+
+/** The pending second-factor token, held between the first sign-in step and 2FA verify. */
+export function serializeSecondFactorCookie(token: string, opts: CookieOptions = {}) {
+  return serializeCookie(TWO_FACTOR_COOKIE_NAME, encodeURIComponent(token), opts)
+}
@@ -2,12 +2,19 @@ import { DEFAULT_SESSION_TTL_MINUTES } from '../constants'
 import type { ID, Session } from '../types'
 import { minutesFromNow } from '../util/time'
 
+// Request details recorded on a session so users can recognise their devices
+export type SessionMeta = { ip?: string | null; userAgent?: string | null }
+
 export function newSession(
   userId: ID,
   ttlMinutes = DEFAULT_SESSION_TTL_MINUTES,
+  meta: SessionMeta = {},
 ): Omit<Session, 'id' | 'createdAt' | 'updatedAt'> {
   return {
     userId,
     expiresAt: minutesFromNow(ttlMinutes),
+    ip: meta.ip ?? null,
+    userAgent: meta.userAgent ?? null,
+    lastSeenAt: new Date(),
   } as Session
 }
@@ -0,0 +1,277 @@
+import type { Adapter, AuthKeyAdapter } from '../adapter'
+import { aesGcmOpen, aesGcmSeal } from '../crypto/aead'
+import { hkdfSha256 } from '../crypto/hkdf'
+import { randBytes, randToken } from '../crypto/random'
+import { tokenHash } from '../crypto/token-hash'
+import { ERR, KeyloomError } from '../errors'
+import { eventMeta } from '../events/bus'
+import type { EventBus } from '../events/types'
+import { checkRateLimit, type RateLimitConfig } from '../guard/rate-limit'
+import { newSession, type SessionMeta } from '../session/model'
+import type { AuthKey, ID, User } from '../types'
+import { minutesFromNow } from '../util/time'
+import { base32Encode, generateTotpSecret, otpauthUri, verifyTotp } from './totp'
+
+export type TwoFactorAdapter = Adapter & AuthKeyAdapter
+
+export type TwoFactorCtx = {
+  adapter: TwoFactorAdapter
+  authSecret: string
+  /** Limiter and `two_factor` policy for code attempts; share a store across instances */
+  rateLimit?: RateLimitConfig
+}
+
+const ENROLLMENT_TTL_MS = 10 * 60_000
+const PENDING_TTL_MINUTES = 5
+const RECOVERY_CODE_COUNT = 10
+
+const totpKeyId = (userId: ID) => `totp:${userId}`
+const pendingIdentifier = (userId: ID) => `2fa:pending:${userId}`
+
+async function secretKey(authSecret: string) {
+  const enc = new TextEncoder()
+  return hkdfSha256(enc.encode(authSecret), enc.encode('keyloom'), enc.encode('keyloom:totp'), 32)
+}
+
+async function seal(authSecret: string, value: unknown) {
+  const { nonce, ct } = await aesGcmSeal(
+    await secretKey(authSecret),
+    new TextEncoder().encode(JSON.stringify(value)),
+  )
+  return `${nonce}.${ct}`
+}
+
+async function open<T>(authSecret: string, sealed: string): Promise<T> {
+  const [nonce, ct] = sealed.split('.')
+  if (!nonce || !ct) throw new Error('bad_format')
+  const out = await aesGcmOpen(await secretKey(authSecret), nonce, ct)
+  return JSON.parse(new TextDecoder().decode(out)) as T
+}
+
+async function recoveryKeyId(userId: ID, code: string, authSecret: string) {
+  const normalized = code.toLowerCase().replace(/[\s-]/g, '')
+  return `recovery:${await tokenHash(`${userId}:${normalized}`, authSecret)}`
+}
+
+function generateRecoveryCodes(count = RECOVERY_CODE_COUNT) {
+  return Array.from({ length: count }, () => {
+    const raw = base32Encode(randBytes(7)).toLowerCase()
+    return `${raw.slice(0, 5)}-${raw.slice(5, 10)}`
+  })
+}
+
+async function getTotpKey(userId: ID, adapter: TwoFactorAdapter) {
+  const key = await adapter.getAuthKeyByKeyId(totpKeyId(userId))
+  return key && key.userId === userId && key.type === 'totp' ? key : null
+}
+
+export async function isTwoFactorEnabled(userId: ID, adapter: TwoFactorAdapter) {
+  return (await getTotpKey(userId, adapter)) !== null
+}
+
+function supportsAuthKeys(adapter: Adapter): adapter is TwoFactorAdapter {
+  return typeof (adapter as Partial<AuthKeyAdapter>).getAuthKeyByKeyId === 'function'
+}
+
+// Six digits are guessable; cap code attempts per user across pending tokens and settings changes
+async function throttleCodeAttempts(userId: ID, ctx: TwoFactorCtx) {
+  const limited = await checkRateLimit('two_factor', { account: userId }, ctx.rateLimit)
+  if (limited && !limited.allowed) throw new KeyloomError(ERR.RATE_LIMITED)
+}
+
+/**
+ * Start TOTP enrollment. Nothing is persisted until the user proves possession of the secret;
+ * the secret travels in a sealed enrollment token instead.
+ */
+export async function beginTotpEnrollment(
+  user: Pick<User, 'id' | 'email'>,
+  ctx: { authSecret: string; issuer?: string },
+) {
+  const secret = generateTotpSecret()
+  const uri = otpauthUri({
+    secret,
+    issuer: ctx.issuer ?? 'Keyloom',
+    account: user.email ?? user.id,
+  })
+  const enrollmentToken = await seal(ctx.authSecret, { u: user.id, s: secret, t: Date.now() })
+  return { secret, otpauthUri: uri, qrPayload: uri, enrollmentToken }
+}
+
+/** Finish enrollment with a code from the authenticator app; returns one-time recovery codes. */
+export async function confirmTotpEnrollment(
+  input: { userId: ID; enrollmentToken: string; code: string },
+  ctx: TwoFactorCtx,
+) {
+  const { adapter, authSecret } = ctx
+  if (await isTwoFactorEnabled(input.userId, adapter))
+    throw new KeyloomError(ERR.TWO_FACTOR_ALREADY_ENABLED)
+
+  let enrollment: { u: ID; s: string; t: number }
+  try {
+    enrollment = await open(authSecret, input.enrollmentToken)
+  } catch {
+    throw new KeyloomError('TWO_FACTOR_ENROLLMENT_INVALID', 'Invalid enrollment token')
+  }
+  if (enrollment.u !== input.userId || Date.now() - enrollment.t > ENROLLMENT_TTL_MS)
+    throw new KeyloomError('TWO_FACTOR_ENROLLMENT_INVALID', 'Enrollment expired')
+
+  const step = await verifyTotp(enrollment.s, input.code)
+  if (step === null) throw new KeyloomError(ERR.TWO_FACTOR_INVALID_CODE)
+
+  await adapter.createAuthKey({
+    userId: input.userId,
+    type: 'totp',
+    keyId: totpKeyId(input.userId),
+    secret: await seal(authSecret, enrollment.s),
+    counter: step,
+  })
+  const recoveryCodes = await replaceRecoveryCodes(input.userId, ctx)
+  return { recoveryCodes }
+}
+
+async function removeKeys(userId: ID, adapter: TwoFactorAdapter, types: AuthKey['type'][]) {
+  const keys = await adapter.listAuthKeysByUser(userId)
+  for (const k of keys) if (types.includes(k.type)) await adapter.deleteAuthKey(k.id)
+}
+
+async function replaceRecoveryCodes(userId: ID, ctx: TwoFactorCtx) {
+  await removeKeys(userId, ctx.adapter, ['recovery'])
+  const codes = generateRecoveryCodes()
+  for (const code of codes) {
+    await ctx.adapter.createAuthKey({
+      userId,
+      type: 'recovery',
+      keyId: await recoveryKeyId(userId, code, ctx.authSecret),
+    })
+  }
+  return codes
+}
+
+/**
+ * Check a TOTP or recovery code for a user with 2FA enabled.
+ * TOTP steps at or before the last accepted one are rejected; recovery codes are deleted on use.
+ */
+export async function verifySecondFactor(
+  userId: ID,
+  code: string,
+  ctx: TwoFactorCtx,
+): Promise<'totp' | 'recovery'> {
+  const key = await getTotpKey(userId, ctx.adapter)
+  if (!key?.secret) throw new KeyloomError(ERR.TWO_FACTOR_NOT_ENABLED)
+
+  const secret = await open<string>(ctx.authSecret, key.secret)
+  const step = await verifyTotp(
+    secret,
+    code,
+    typeof key.counter === 'number' ? { lastStep: key.counter } : {},
+  )
+  if (step !== null) {
+    await ctx.adapter.updateAuthKey(key.id, { counter: step })
+    return 'totp'
+  }
+
+  const recovery = await ctx.adapter.getAuthKeyByKeyId(
+    await recoveryKeyId(userId, code, ctx.authSecret),
+  )
+  if (recovery && recovery.userId === userId && recovery.type === 'recovery') {
+    await ctx.adapter.deleteAuthKey(recovery.id)
+    return 'recovery'
+  }
+  throw new KeyloomError(ERR.TWO_FACTOR_INVALID_CODE)
+}
+
+/** Turn 2FA off; requires a current TOTP or recovery code. */
+export async function disableTwoFactor(input: { userId: ID; code: string }, ctx: TwoFactorCtx) {
+  await throttleCodeAttempts(input.userId, ctx)
+  await verifySecondFactor(input.userId, input.code, ctx)
+  await removeKeys(input.userId, ctx.adapter, ['totp', 'recovery'])
+}
+
+/** Issue new recovery codes (invalidating the old ones); requires a current code. */
+export async function regenerateRecoveryCodes(
+  input: { userId: ID; code: string },
+  ctx: TwoFactorCtx,
+) {
+  await throttleCodeAttempts(input.userId, ctx)
+  await verifySecondFactor(input.userId, input.code, ctx)
+  return { recoveryCodes: await replaceRecoveryCodes(input.userId, ctx) }
+}
+
+/**
+ * Record that the first sign-in step succeeded and a second factor is still owed.
+ * The returned token is handed to the client (cookie) and exchanged for a session by
+ * `completeSecondFactor`.
+ */
+export async function issuePendingSecondFactor(
+  userId: ID,
+  adapter: Adapter,
+  ttlMinutes = PENDING_TTL_MINUTES,
+) {
+  const secret = randToken(24)
+  const expiresAt = minutesFromNow(ttlMinutes)
+  await adapter.createVerificationToken({
+    identifier: pendingIdentifier(userId),
+    token: secret,
+    expiresAt,
+  })
+  return { token: `${userId}.${secret}`, expiresAt }
+}
+
+/**
+ * Every sign-in path calls this before creating a session: when the user has 2FA enabled it
+ * returns the pending state to hand to the client instead, otherwise null.
+ */
+export async function pendingSecondFactorFor(userId: ID, adapter: Adapter) {
+  if (!supportsAuthKeys(adapter) || !(await isTwoFactorEnabled(userId, adapter))) return null
+  return issuePendingSecondFactor(userId, adapter)
+}
+
+/**
+ * Check the code for a pending second factor and return the user; on failure the pending
+ * state stays valid until it expires. `completeSecondFactor` additionally creates the session.
+ */
+export async function verifyPendingSecondFactor(
+  input: { pendingToken: string; code: string },
+  ctx: TwoFactorCtx,
+) {
+  const { adapter } = ctx
+  const dot = input.pendingToken.lastIndexOf('.')
+  if (dot <= 0) throw new KeyloomError(ERR.TWO_FACTOR_PENDING_INVALID)
+  const userId = input.pendingToken.slice(0, dot)
+  const secret = input.pendingToken.slice(dot + 1)
+
+  await throttleCodeAttempts(userId, ctx)
+
+  const vt = await adapter.useVerificationToken(pendingIdentifier(userId), secret)
+  if (!vt || vt.expiresAt.getTime() < Date.now())
+    throw new KeyloomError(ERR.TWO_FACTOR_PENDING_INVALID)
+
+  try {
+    await verifySecondFactor(userId, input.code, ctx)
+  } catch (e) {
+    await adapter.createVerificationToken({
+      identifier: pendingIdentifier(userId),
+      token: secret,
+      expiresAt: vt.expiresAt,
+    })
+    throw e
+  }
+
+  const user = await adapter.getUser(userId)
+  if (!user) throw new KeyloomError(ERR.USER_NOT_FOUND)
+  return { user }
+}
+
+export async function completeSecondFactor(
+  input: { pendingToken: string; code: string; ttlMinutes?: number; meta?: SessionMeta },
+  ctx: TwoFactorCtx & { events?: EventBus },
+) {
+  const { user } = await verifyPendingSecondFactor(input, ctx)
+  const session = await ctx.adapter.createSession(newSession(user.id, input.ttlMinutes, input.meta))
+  await ctx.events?.emit(
+    'session.created',
+    { method: 'two_factor' },
+    eventMeta(user.id, input.meta),
+  )
+  return { user, session }
+}
@@ -0,0 +1,30 @@
+/**
+ * TOTP two-factor authentication (RFC 6238) with recovery codes
+ */
+
+export type { TwoFactorAdapter, TwoFactorCtx } from './core'
+export {
+  beginTotpEnrollment,
+  completeSecondFactor,
+  confirmTotpEnrollment,
+  disableTwoFactor,
+  issuePendingSecondFactor,
+  isTwoFactorEnabled,
+  pendingSecondFactorFor,
+  regenerateRecoveryCodes,
+  verifyPendingSecondFactor,
+  verifySecondFactor,
+} from './core'
+export type { VerifyTotpOptions } from './totp'
+export {
+  base32Decode,
+  base32Encode,
+  generateTotp,
+  generateTotpSecret,
+  hotp,
+  otpauthUri,
+  TOTP_DIGITS,
+  TOTP_PERIOD_SEC,
+  totpStep,
+  verifyTotp,
+} from './totp'
@@ -0,0 +1,118 @@
+// RFC 4226 (HOTP) / RFC 6238 (TOTP) using WebCrypto HMAC-SHA1, the algorithm every authenticator app supports.
+
+const B32 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+
+export const TOTP_PERIOD_SEC = 30
+export const TOTP_DIGITS = 6
+
+export function base32Encode(bytes: Uint8Array): string {
+  let bits = 0
+  let value = 0
+  let out = ''
+  for (const byte of bytes) {
+    value = (value << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      out += B32[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  if (bits > 0) out += B32[(value << (5 - bits)) & 31]
+  return out
+}
+
+export function base32Decode(input: string): Uint8Array {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, '')
+  const out: number[] = []
+  let bits = 0
+  let value = 0
+  for (const ch of clean) {
+    const idx = B32.indexOf(ch)
+    if (idx === -1) throw new Error('invalid_base32')
+    value = (value << 5) | idx
+    bits += 5
+    if (bits >= 8) {
+      out.push((value >>> (bits - 8)) & 0xff)
+      bits -= 8
+    }
+  }
+  return new Uint8Array(out)
+}
+
+/** Random 160-bit secret, base32 encoded (RFC 4226 recommends at least 128 bits) */
+export function generateTotpSecret(bytes = 20): string {
+  return base32Encode(crypto.getRandomValues(new Uint8Array(bytes)))
+}
+
+export function totpStep(at = Date.now(), period = TOTP_PERIOD_SEC) {
+  return Math.floor(at / 1000 / period)
+}
+
+export async function hotp(secret: string, counter: number, digits = TOTP_DIGITS): Promise<string> {
+  const keyBytes = base32Decode(secret)
+  const key = await crypto.subtle.importKey(
+    'raw',
+    keyBytes.buffer.slice(
+      keyBytes.byteOffset,
+      keyBytes.byteOffset + keyBytes.byteLength,
+    ) as ArrayBuffer,
+    { name: 'HMAC', hash: 'SHA-1' },
+    false,
+    ['sign'],
+  )
+  const msg = new ArrayBuffer(8)
+  const view = new DataView(msg)
+  view.setUint32(0, Math.floor(counter / 2 ** 32))
+  view.setUint32(4, counter >>> 0)
+  const mac = new Uint8Array(await crypto.subtle.sign('HMAC', key, msg))
+  const offset = (mac[mac.length - 1] as number) & 0x0f
+  const bin =
+    (((mac[offset] as number) & 0x7f) << 24) |
+    ((mac[offset + 1] as number) << 16) |
+    ((mac[offset + 2] as number) << 8) |
+    (mac[offset + 3] as number)
+  return String(bin % 10 ** digits).padStart(digits, '0')
+}
+
+export async function generateTotp(secret: string, at = Date.now()) {
+  return hotp(secret, totpStep(at))
+}
+
+export type VerifyTotpOptions = {
+  /** Steps accepted on either side of the current one to absorb clock drift (default 1) */
+  window?: number
+  at?: number
+  /** Last accepted step; codes at or before it are rejected (replay protection) */
+  lastStep?: number
+}
+
+/** Returns the matched time step, or null when the code is invalid or replayed. */
+export async function verifyTotp(
+  secret: string,
+  code: string,
+  opts: VerifyTotpOptions = {},
+): Promise<number | null> {
+  const { window = 1, at = Date.now(), lastStep } = opts
+  const normalized = code.replace(/\s/g, '')
+  if (!/^\d{6}$/.test(normalized)) return null
+  const current = totpStep(at)
+  for (let drift = -window; drift <= window; drift++) {
+    const step = current + drift
+    if (lastStep !== undefined && step <= lastStep) continue
+    if ((await hotp(secret, step)) === normalized) return step
+  }
+  return null
+}
+
+/** Key URI understood by authenticator apps; also the payload to render as a QR code. */
+export function otpauthUri(opts: { secret: string; issuer: string; account: string }) {
+  const label = `${encodeURIComponent(opts.issuer)}:${encodeURIComponent(opts.account)}`
+  const params = new URLSearchParams({
+    secret: opts.secret,
+    issuer: opts.issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SEC),
+  })
+  return `otpauth://totp/${label}?${params.toString()}`
+}
@@ -1,3 +1,9 @@
+import type { HooksConfig } from "./events/types";
+import type { RateLimitConfig } from "./guard/rate-limit";
+import type { AccountLinkingPolicy } from "./oauth/pending-link";
+import type { OrgDomainOptions } from "./rbac/domains";
+import type { RbacRule } from "./rbac/types";
+
 export type ISODateString = string; // validated where needed
 
 export type ID = string; // opaque id (nanoid/uuid); do not assume format
@@ -24,13 +30,21 @@ export type Account = {
   scope?: string | null;
 };
 
+// Provider credentials on an Account; refreshed in place by getProviderAccessToken
+export type AccountTokens = Pick<
+  Account,
+  "accessToken" | "refreshToken" | "tokenType" | "expiresAt" | "scope"
+>;
+
 export type Session = {
   id: ID;
   userId: ID;
   expiresAt: Date;
   createdAt: Date;
   updatedAt: Date;
-  // room for deviceId, ip, userAgent in Phase 2
+  ip?: string | null;
+  userAgent?: string | null;
+  lastSeenAt?: Date | null;
 };
 
 export type VerificationToken = {
@@ -45,18 +59,34 @@ export type VerificationToken = {
 export type AuthKey = {
   id: ID;
   userId: ID;
-  type: "webauthn" | "totp";
-  publicKey?: string; // COSE for webauthn (Phase 8)
-  counter?: number;
+  type: "webauthn" | "totp" | "recovery";
+  keyId?: string; // webauthn credential id (base64url); hashed code for recovery keys
+  publicKey?: string; // COSE key for webauthn (base64url)
+  secret?: string; // sealed TOTP shared secret
+  counter?: number; // webauthn signature counter; last accepted TOTP step
   label?: string;
   createdAt: Date;
 };
 
+export type ApiKey = {
+  id: ID;
+  name: string;
+  prefix: string; // leading characters of the key, safe to display
+  keyHash: string; // tokenHash of the full key; the key itself is never stored
+  userId: ID; // owner of a personal key; creator of an org key
+  orgId?: ID | null; // set for keys issued to an organization
+  permissions: string[];
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+};
+
 export type AuditEvent = {
   id?: ID;
   type: string; // see audit/events.ts
   userId?: ID;
   actorId?: ID; // admin/service actor
+  orgId?: ID; // organization the event belongs to, when scoped
   ip?: string;
   ua?: string;
   at: Date;
@@ -66,6 +96,56 @@ export type AuditEvent = {
 // Alias for external naming consistency
 export type AuditLog = AuditEvent;
 
+// Newest first; pass `nextCursor` back as `cursor` for the next page
+export type AuditQuery = {
+  userId?: ID;
+  orgId?: ID;
+  type?: string | string[];
+  since?: Date; // inclusive
+  until?: Date; // exclusive
+  cursor?: string | null;
+  limit?: number;
+};
+export type AuditPage = {
+  items: AuditLog[];
+  nextCursor: string | null;
+};
+
+export type WebhookEventStatus = "pending" | "processed" | "failed" | "skipped";
+
+// An inbound webhook event (e.g. Stripe), stored once per provider event id
+export type WebhookEvent = {
+  id: string; // the provider's event id, e.g. evt_...
+  provider: string;
+  type: string;
+  objectId: string | null; // object the event is about; orders events for the same object
+  occurredAt: Date; // when the provider created the event
+  payload: string; // the event as JSON, for replays
+  status: WebhookEventStatus;
+  attempts: number;
+  lastError: string | null;
+  nextAttemptAt: Date | null; // when a failed event is due again; null once attempts run out
+  processedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+// Oldest first
+export type WebhookEventQuery = {
+  provider?: string;
+  status?: WebhookEventStatus | WebhookEventStatus[];
+  objectId?: string;
+  dueBefore?: Date; // failed events with nextAttemptAt at or before this
+  limit?: number;
+};
+
+// A stored JWT keystore (see jwt/store); `data` is the serialized keystore, private keys sealed
+export type KeystoreRecord = {
+  id: string;
+  data: string;
+  updatedAt: Date;
+};
+
 export type KeyloomConfig = {
   adapter: unknown; // Adapter factory or instance
   cookie?: {
@@ -77,6 +157,9 @@ export type KeyloomConfig = {
     strategy?: "database" | "jwt";
     ttlMinutes?: number;
     rolling?: boolean;
+    renewThresholdMinutes?: number; // rolling: renew once less than this remains (default ttl/2)
+    absoluteTtlMinutes?: number; // hard cap from sign-in, regardless of activity
+    idleTimeoutMinutes?: number; // expire sessions unused for this long
   };
   jwt?: {
     issuer?: string;
@@ -91,6 +174,8 @@ export type KeyloomConfig = {
     keyOverlapDays?: number;
   };
   rbac?: RbacConfig;
+  /** Verified org email domains: auto-join new users or send them to the org's SSO */
+  orgDomains?: OrgDomainOptions;
   secrets?: {
     authSecret?: string;
     jwtSecret?: string;
@@ -103,7 +188,35 @@ export type KeyloomConfig = {
     };
     from: string;
     template?: any; // Custom email template
+    passwordResetTemplate?: any;
+    verifyEmailTemplate?: any;
+    accountLinkTemplate?: any;
+    /** Page linked from password reset emails (default: /auth/reset-password) */
+    passwordResetPath?: string;
+    /** Page linked from verification emails (default: /auth/verify-email) */
+    verifyEmailPath?: string;
+  };
+  /** OAuth sign-ins whose email matches an existing user who hasn't linked that provider */
+  accountLinking?: {
+    /** Default for providers without their own `accountLinking` (default: verified-email-only) */
+    policy?: AccountLinkingPolicy;
+    /** Page shown while a link awaits confirmation; receives `provider` (default: /auth/link-account) */
+    confirmPath?: string;
   };
+  twoFactor?: {
+    /** Page redirect-based sign-ins send users to for their code; receives `callbackUrl` (default: /auth/two-factor) */
+    verifyPath?: string;
+  };
+  /** New password sign-ups start unverified and are sent a verification email */
+  requireEmailVerify?: boolean;
+  /** Lifecycle listeners and before hooks (see `createEventBus`) */
+  hooks?: HooksConfig;
+  audit?: {
+    /** Entries older than this are removed by `pruneAuditLog` or `adapter.cleanup({ auditRetentionDays })` */
+    retentionDays?: number;
+  };
+  /** Per-route, per-IP and per-account throttling of the auth endpoints */
+  rateLimit?: RateLimitConfig;
   magicLink?: {
     enabled?: boolean;
     defaultTtlMinutes?: number;
@@ -117,7 +230,12 @@ export type KeyloomConfig = {
 
 // RBAC configuration (supports legacy flat and new structured mapping)
 export type RbacRolePermissions = {
+  /** Permissions granted to the role; `*` wildcards allowed (`billing:*`) */
   permissions: string[];
+  /** Roles whose grants this role also gets, e.g. `admin` inherits `member` */
+  inherits?: string[];
+  /** Permissions refused to this role (not to roles inheriting it), overriding any grant */
+  deny?: string[];
 };
 export type RbacRolesMapping = Record<string, RbacRolePermissions>;
 export type RbacConfig = {
@@ -130,4 +248,20 @@ export type RbacConfig = {
   roles?: string[] | RbacRolesMapping;
   /** Legacy flat permissions list (no mapping). Maintained for backward compatibility */
   permissions?: string[];
+  /** Conditional allow/deny rules (resource ownership, plan features, ...) checked by `evaluate()` */
+  rules?: RbacRule[];
+  /** Roles org admins define and store through the adapter (off unless enabled) */
+  customRoles?: {
+    enabled?: boolean;
+    /** Maximum custom roles per organization (default 20) */
+    maxPerOrg?: number;
+  };
+  /** Deleting an org only marks it; it's purged after this many days (default 0: right away) */
+  orgDeletion?: {
+    gracePeriodDays?: number;
+  };
+  /** How `entitlements.seats` is counted: active members, plus pending invites unless turned off */
+  seats?: {
+    countPendingInvites?: boolean;
+  };
 };
@@ -0,0 +1,121 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { memoryAdapter } from '../src/adapters/memory'
+import type {
+  EmailResult,
+  EmailService,
+  PasswordResetEmailData,
+  VerifyEmailData,
+} from '../src/email/types'
+import {
+  completePasswordReset,
+  passwordResetIdentifier,
+  requestPasswordReset,
+  sendVerificationEmail,
+  verifyEmailIdentifier,
+} from '../src/runtime/account-emails'
+
+class MockEmailService implements EmailService {
+  resets: PasswordResetEmailData[] = []
+  verifications: VerifyEmailData[] = []
+
+  async sendMagicLink(): Promise<EmailResult> {
+    return { success: true }
+  }
+  async sendPasswordReset(data: PasswordResetEmailData): Promise<EmailResult> {
+    this.resets.push(data)
+    return { success: true }
+  }
+  async sendVerificationEmail(data: VerifyEmailData): Promise<EmailResult> {
+    this.verifications.push(data)
+    return { success: true }
+  }
+  async sendEmail(): Promise<EmailResult> {
+    return { success: true }
+  }
+}
+
+describe('account emails', () => {
+  let adapter: ReturnType<typeof memoryAdapter>
+  let emailService: MockEmailService
+  const ctx = () => ({ adapter, emailService, baseUrl: 'https://app.example.com', appName: 'Test' })
+
+  beforeEach(() => {
+    adapter = memoryAdapter()
+    emailService = new MockEmailService()
+  })
+
+  it('emails a password reset link whose token can be consumed', async () => {
+    await adapter.createUser({ email: 'u@example.com', name: 'Una' })
+    await requestPasswordReset({ email: 'U@example.com' }, ctx())
+
+    expect(emailService.resets).toHaveLength(1)
+    const sent = emailService.resets[0]!
+    expect(sent).toMatchObject({ email: 'u@example.com', userName: 'Una', expirationMinutes: 15 })
+    const url = new URL(sent.resetUrl)
+    expect(url.origin + url.pathname).toBe('https://app.example.com/auth/reset-password')
+    expect(url.searchParams.get('email')).toBe('u@example.com')
+    const token = url.searchParams.get('token')!
+    expect(
+      await adapter.useVerificationToken(passwordResetIdentifier('u@example.com'), token),
+    ).not.toBeNull()
+  })
+
+  it('does not email or reveal unknown addresses', async () => {
+    await expect(
+      requestPasswordReset({ email: 'nobody@example.com' }, ctx()),
+    ).resolves.toBeUndefined()
+    expect(emailService.resets).toHaveLength(0)
+  })
+
+  it('sends a verification link to the configured path', async () => {
+    const user = await adapter.createUser({ email: 'v@example.com' })
+    expect(await sendVerificationEmail(user, { ...ctx(), path: '/verify' })).toBe(true)
+
+    const url = new URL(emailService.verifications[0]!.verifyUrl)
+    expect(url.pathname).toBe('/verify')
+    expect(
+      await adapter.useVerificationToken(
+        verifyEmailIdentifier('v@example.com'),
+        url.searchParams.get('token')!,
+      ),
+    ).not.toBeNull()
+  })
+
+  it('revokes all but the current session when a password reset completes', async () => {
+    const user = await adapter.createUser({ email: 'r@example.com' })
+    await adapter.createCredential(user.id, 'hashed:old')
+    const expiresAt = new Date(Date.now() + 60_000)
+    const current = await adapter.createSession({ userId: user.id, expiresAt })
+    await adapter.createSession({ userId: user.id, expiresAt })
+    await requestPasswordReset({ email: 'r@example.com' }, ctx())
+    const token = new URL(emailService.resets[0]!.resetUrl).searchParams.get('token')!
+    const reset = {
+      email: 'r@example.com',
+      token,
+      newPassword: 'new',
+      keepSessionId: current.id,
+    }
+    const resetCtx = { adapter, hasher: { hash: async (pw: string) => `hashed:${pw}` } }
+
+    expect(await completePasswordReset(reset, resetCtx)).toMatchObject({ revokedSessions: 1 })
+    expect((await adapter.getCredentialByUserId(user.id))?.hash).toBe('hashed:new')
+    expect((await adapter.listSessionsByUser(user.id)).map((s) => s.id)).toEqual([current.id])
+    await expect(completePasswordReset(reset, resetCtx)).rejects.toMatchObject({
+      code: 'TOKEN_NOT_FOUND',
+    })
+  })
+
+  it('does not redeem a verification token as a password reset', async () => {
+    const user = await adapter.createUser({ email: 'w@example.com' })
+    await sendVerificationEmail(user, ctx())
+    const token = new URL(emailService.verifications[0]!.verifyUrl).searchParams.get('token')!
+
+    expect(
+      await adapter.useVerificationToken(passwordResetIdentifier('w@example.com'), token),
+    ).toBeNull()
+    expect(await adapter.useVerificationToken('w@example.com', token)).toBeNull()
+    expect(
+      await adapter.useVerificationToken(verifyEmailIdentifier('w@example.com'), token),
+    ).not.toBeNull()
+  })
+})
@@ -0,0 +1,52 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { memoryAdapter } from '../src/adapters/memory'
+import { listLinkedAccounts, unlinkUserAccount } from '../src/runtime/accounts'
+import type { Account } from '../src/types'
+
+const account = (userId: string, provider: string, providerAccountId: string) =>
+  ({ userId, provider, providerAccountId, accessToken: 'secret-token' }) as Account
+
+describe('linked accounts', () => {
+  let adapter: ReturnType<typeof memoryAdapter>
+  let userId: string
+
+  beforeEach(async () => {
+    adapter = memoryAdapter()
+    userId = (await adapter.createUser({ email: 'u@example.com' })).id
+  })
+
+  it('lists linked accounts without provider tokens', async () => {
+    await adapter.linkAccount(account(userId, 'github', '1'))
+    const other = (await adapter.createUser({ email: 'o@example.com' })).id
+    await adapter.linkAccount(account(other, 'github', '2'))
+
+    const accounts = await listLinkedAccounts(userId, adapter)
+    expect(accounts).toEqual([
+      { id: expect.any(String), provider: 'github', providerAccountId: '1', scope: null },
+    ])
+  })
+
+  it('unlinks while another sign-in method remains', async () => {
+    const github = await adapter.linkAccount(account(userId, 'github', '1'))
+    const google = await adapter.linkAccount(account(userId, 'google', '1'))
+
+    expect(await unlinkUserAccount(userId, github.id, { adapter })).toBe(true)
+    expect(await adapter.getAccountByProvider('github', '1')).toBeNull()
+    expect(await unlinkUserAccount(userId, github.id, { adapter })).toBe(false)
+
+    await expect(unlinkUserAccount(userId, google.id, { adapter })).rejects.toThrow(
+      /last sign-in method/,
+    )
+    await adapter.createCredential(userId, 'hash')
+    expect(await unlinkUserAccount(userId, google.id, { adapter })).toBe(true)
+  })
+
+  it("refuses to unlink another user's account", async () => {
+    const other = (await adapter.createUser({ email: 'o@example.com' })).id
+    const acc = await adapter.linkAccount(account(other, 'github', '2'))
+    await adapter.createCredential(userId, 'hash')
+
+    expect(await unlinkUserAccount(userId, acc.id, { adapter })).toBe(false)
+    expect(await adapter.getAccountByProvider('github', '2')).not.toBeNull()
+  })
+})
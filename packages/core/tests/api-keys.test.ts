@@ -0,0 +1,158 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { memoryAdapter } from '../src/adapters/memory'
+import {
+  apiKeyAllows,
+  authenticateApiKey,
+  bearerApiKey,
+  createApiKey,
+  listApiKeys,
+  revokeApiKey,
+} from '../src/api-keys'
+import type { RbacConfig } from '../src/types'
+
+const secret = 'test-secret'
+const rbac: RbacConfig = {
+  roles: {
+    owner: { permissions: ['billing:manage', 'members:read', 'projects:write'] },
+    admin: { permissions: ['members:read', 'projects:write'] },
+    member: { permissions: ['members:read'] },
+  },
+}
+
+describe('api keys', () => {
+  let adapter: ReturnType<typeof memoryAdapter>
+  let userId: string
+  let orgId: string
+
+  beforeEach(async () => {
+    adapter = memoryAdapter()
+    userId = (await adapter.createUser({ email: 'dev@example.com' })).id
+    orgId = (await adapter.createOrganization({ name: 'Acme' })).id
+    await adapter.addMember({ userId, orgId, role: 'admin' })
+  })
+
+  it('stores only a hash and authenticates the plaintext key', async () => {
+    const { key, apiKey } = await createApiKey(
+      { name: 'CI', userId, permissions: ['members:read'] },
+      { adapter, secret, rbac },
+    )
+    expect(key.startsWith('klk_')).toBe(true)
+    expect(key.startsWith(apiKey.prefix)).toBe(true)
+    expect(apiKey).not.toHaveProperty('keyHash')
+    expect(JSON.stringify([...adapter.__store.apiKeys.values()])).not.toContain(key)
+
+    const principal = await authenticateApiKey(bearerApiKey(`Bearer ${key}`), { adapter, secret })
+    expect(principal).toMatchObject({ userId, orgId: null, permissions: ['members:read'] })
+    expect(principal?.apiKey.lastUsedAt).toBeInstanceOf(Date)
+
+    expect(await authenticateApiKey(`${key}x`, { adapter, secret })).toBeNull()
+    expect(bearerApiKey('Bearer eyJhbGciOi.jwt')).toBeNull()
+  })
+
+  it('rejects expired keys', async () => {
+    const { key, apiKey } = await createApiKey(
+      { name: 'Short', userId, expiresAt: new Date(Date.now() + 1000) },
+      { adapter, secret, rbac },
+    )
+    adapter.__store.apiKeys.get(apiKey.id)!.expiresAt = new Date(Date.now() - 1)
+    expect(await authenticateApiKey(key, { adapter, secret })).toBeNull()
+  })
+
+  it('only grants declared permissions the creator holds in the org', async () => {
+    await expect(
+      createApiKey({ name: 'x', userId, permissions: ['nope'] }, { adapter, secret, rbac }),
+    ).rejects.toMatchObject({ code: 'API_KEY_INVALID_PERMISSION' })
+    await expect(
+      createApiKey({ name: 'x', userId, orgId, role: 'owner' }, { adapter, secret, rbac }),
+    ).rejects.toMatchObject({ code: 'API_KEY_INVALID_PERMISSION' })
+
+    const { apiKey } = await createApiKey(
+      { name: 'Deploy', userId, orgId, role: 'admin' },
+      { adapter, secret, rbac },
+    )
+    expect(apiKey.permissions.sort()).toEqual(['members:read', 'projects:write'])
+  })
+
+  it('lists and revokes keys per owner', async () => {
+    const personal = await createApiKey({ name: 'Mine', userId }, { adapter, secret, rbac })
+    const org = await createApiKey({ name: 'Org', userId, orgId }, { adapter, secret, rbac })
+
+    expect((await listApiKeys({ userId }, adapter)).map((k) => k.name)).toEqual(['Mine'])
+    expect((await listApiKeys({ orgId }, adapter)).map((k) => k.name)).toEqual(['Org'])
+
+    expect(await revokeApiKey({ userId }, org.apiKey.id, adapter)).toBe(false)
+    expect(await revokeApiKey({ orgId }, org.apiKey.id, adapter)).toBe(true)
+    expect(await authenticateApiKey(org.key, { adapter, secret })).toBeNull()
+    expect(await authenticateApiKey(personal.key, { adapter, secret })).not.toBeNull()
+  })
+
+  it('authorizes org keys by the permissions they carry', async () => {
+    const { key } = await createApiKey(
+      { name: 'Deploy', userId, orgId, role: 'admin' },
+      { adapter, secret, rbac },
+    )
+    const principal = (await authenticateApiKey(key, { adapter, secret }))!
+    const check = (opts: {
+      orgId?: string
+      requiredRoles?: string[]
+      requiredPermission?: string
+    }) => apiKeyAllows(principal, { orgId, rbac, adapter, ...opts })
+
+    expect(await check({ requiredRoles: ['admin'] })).toBe(true)
+    expect(await check({ requiredRoles: ['owner'] })).toBe(false)
+    expect(await check({ requiredPermission: 'projects:write' })).toBe(true)
+    expect(await check({ requiredPermission: 'billing:manage' })).toBe(false)
+    expect(await check({ orgId: 'other-org' })).toBe(false)
+  })
+
+  it("authorizes personal keys through the user's membership", async () => {
+    const { key } = await createApiKey(
+      { name: 'Read only', userId, permissions: ['members:read'] },
+      { adapter, secret, rbac },
+    )
+    const principal = (await authenticateApiKey(key, { adapter, secret }))!
+    const check = (opts: { requiredRoles?: string[]; requiredPermission?: string }) =>
+      apiKeyAllows(principal, { orgId, rbac, adapter, ...opts })
+
+    expect(await check({ requiredRoles: ['admin'] })).toBe(true)
+    expect(await check({ requiredPermission: 'members:read' })).toBe(true)
+    // The admin role has it, but the key doesn't carry it
+    expect(await check({ requiredPermission: 'projects:write' })).toBe(false)
+  })
+
+  it('stops personal keys once the membership is suspended', async () => {
+    const { key } = await createApiKey(
+      { name: 'Read only', userId, permissions: ['members:read'] },
+      { adapter, secret, rbac },
+    )
+    const principal = (await authenticateApiKey(key, { adapter, secret }))!
+    const membership = (await adapter.getMembership(userId, orgId))!
+    await adapter.updateMember(membership.id, { status: 'suspended' })
+
+    expect(await apiKeyAllows(principal, { orgId, rbac, adapter })).toBe(false)
+    expect(
+      await apiKeyAllows(principal, { orgId, rbac, adapter, requiredPermission: 'members:read' }),
+    ).toBe(false)
+  })
+
+  it('honours inherited roles and wildcard grants', async () => {
+    const hierarchy: RbacConfig = {
+      roles: {
+        admin: { permissions: ['projects:*'], inherits: ['member'] },
+        member: { permissions: ['members:read'] },
+      },
+    }
+    const { key, apiKey } = await createApiKey(
+      { name: 'Deploys', userId, orgId, role: 'admin' },
+      { adapter, secret, rbac: hierarchy },
+    )
+    expect(apiKey.permissions).toEqual(['projects:*', 'members:read'])
+    const principal = (await authenticateApiKey(key, { adapter, secret }))!
+    const check = (opts: { requiredRoles?: string[]; requiredPermission?: string }) =>
+      apiKeyAllows(principal, { orgId, rbac: hierarchy, adapter, ...opts })
+
+    expect(await check({ requiredRoles: ['member'] })).toBe(true)
+    expect(await check({ requiredPermission: 'projects:deploy' })).toBe(true)
+    expect(await check({ requiredPermission: 'billing:manage' })).toBe(false)
+  })
+})
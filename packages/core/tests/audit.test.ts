@@ -0,0 +1,91 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { memoryAdapter } from '../src/adapters/memory'
+import { formatAuditExport } from '../src/audit/export'
+import { decodeAuditCursor, iterateAudit, pruneAuditLog } from '../src/audit/query'
+
+async function collect(lines: AsyncIterable<string>) {
+  let out = ''
+  for await (const l of lines) out += l
+  return out
+}
+
+describe('audit log queries', () => {
+  let adapter: ReturnType<typeof memoryAdapter>
+  const t0 = Date.UTC(2026, 0, 1)
+
+  beforeEach(async () => {
+    adapter = memoryAdapter()
+    for (let i = 0; i < 7; i++) {
+      await adapter.appendAudit({
+        type: i % 2 ? 'login.failed' : 'session.created',
+        userId: 'u1',
+        orgId: i < 4 ? 'o1' : 'o2',
+        at: new Date(t0 + i * 1000),
+      })
+    }
+  })
+
+  it('filters by org, type and time window, newest first', async () => {
+    const { items } = await adapter.listAudit({
+      orgId: 'o1',
+      type: 'session.created',
+      since: new Date(t0),
+      until: new Date(t0 + 3000),
+    })
+    expect(items.map((e) => e.at.getTime())).toEqual([t0 + 2000, t0])
+  })
+
+  it('pages with an opaque cursor', async () => {
+    const first = await adapter.listAudit({ limit: 3 })
+    expect(first.items).toHaveLength(3)
+    expect(first.nextCursor).toBeTruthy()
+
+    const second = await adapter.listAudit({ limit: 3, cursor: first.nextCursor })
+    expect(second.items[0]!.at.getTime()).toBe(t0 + 3000)
+
+    const all = []
+    for await (const e of iterateAudit(adapter, {})) all.push(e)
+    expect(all).toHaveLength(7)
+  })
+
+  it('rejects malformed cursors', () => {
+    expect(() => decodeAuditCursor('not-a-cursor')).toThrow(
+      expect.objectContaining({ code: 'INVALID_CURSOR' }),
+    )
+  })
+
+  it('prunes entries past retention', async () => {
+    await adapter.appendAudit({ type: 'old', at: new Date(Date.now() - 10 * 86_400_000) })
+    await adapter.appendAudit({ type: 'new', at: new Date() })
+
+    expect(await pruneAuditLog(adapter, 5)).toBe(8)
+    expect((await adapter.listAudit({})).items.map((e) => e.type)).toEqual(['new'])
+  })
+})
+
+describe('audit export', () => {
+  const entry = {
+    id: 'a1',
+    type: 'user.updated',
+    userId: 'u1',
+    at: new Date(Date.UTC(2026, 0, 1)),
+    meta: { name: 'Ada, "the first"' },
+  }
+
+  it('writes CSV with a header and escaped cells', async () => {
+    const csv = await collect(formatAuditExport([entry, { ...entry, id: '=cmd()' }], 'csv'))
+    const [header, row, injected] = csv.trimEnd().split('\n')
+    expect(header).toBe('id,at,type,userId,actorId,orgId,ip,ua,meta')
+    expect(row).toBe(
+      'a1,2026-01-01T00:00:00.000Z,user.updated,u1,,,,,"{""name"":""Ada, \\""the first\\""""}"',
+    )
+    expect(injected!.startsWith("'=cmd()")).toBe(true)
+  })
+
+  it('writes one JSON object per line', async () => {
+    const ndjson = await collect(formatAuditExport([entry, entry], 'ndjson'))
+    const lines = ndjson.trimEnd().split('\n')
+    expect(lines).toHaveLength(2)
+    expect(JSON.parse(lines[0]!)).toMatchObject({ id: 'a1', at: '2026-01-01T00:00:00.000Z' })
+  })
+})
@@ -1,6 +1,10 @@
 import { describe, expect, it, vi } from 'vitest'
 import { createEmailService } from '../src/email/service'
-import { defaultMagicLinkTemplate } from '../src/email/templates'
+import {
+  defaultMagicLinkTemplate,
+  defaultPasswordResetTemplate,
+  defaultVerifyEmailTemplate,
+} from '../src/email/templates'
 import type { EmailMessage, EmailResult } from '../src/email/types'
 
 // Mock nodemailer for SMTP tests
@@ -189,6 +193,42 @@ describe('Email Service', () => {
       expect(html).toContain('Hi there,')
       expect(text).toContain('Hi there,')
     })
+
+    it('should generate password reset email content', () => {
+      const data = {
+        email: 'user@example.com',
+        resetUrl: 'http://localhost:3000/auth/reset-password?email=user%40example.com&token=abc123',
+        appName: 'Test App',
+        expirationMinutes: 15,
+        userName: 'John Doe',
+      }
+
+      expect(defaultPasswordResetTemplate.subject(data)).toBe('Reset your Test App password')
+      const html = defaultPasswordResetTemplate.html(data)
+      const text = defaultPasswordResetTemplate.text(data)
+      expect(html).toContain(data.resetUrl)
+      expect(html).toContain('John Doe')
+      expect(html).toContain('15 minutes')
+      expect(text).toContain(data.resetUrl)
+      expect(text).toContain('15 minutes')
+    })
+
+    it('should generate verification email content', () => {
+      const data = {
+        email: 'user@example.com',
+        verifyUrl: 'http://localhost:3000/auth/verify-email?email=user%40example.com&token=abc123',
+        appName: 'Test App',
+        expirationMinutes: 1440,
+      }
+
+      expect(defaultVerifyEmailTemplate.subject(data)).toBe('Verify your email for Test App')
+      const html = defaultVerifyEmailTemplate.html(data)
+      const text = defaultVerifyEmailTemplate.text(data)
+      expect(html).toContain(data.verifyUrl)
+      expect(html).toContain('Hi there,')
+      expect(text).toContain(data.verifyUrl)
+      expect(text).toContain('1440 minutes')
+    })
   })
 
   describe('Environment Configuration', () => {
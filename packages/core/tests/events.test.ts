@@ -0,0 +1,162 @@
+import { describe, expect, it, vi } from 'vitest'
+import { memoryAdapter } from '../src/adapters/memory'
+import { ERR } from '../src/errors'
+import { createEventBus, rejectHook } from '../src/events'
+import { login } from '../src/runtime/login'
+import { register } from '../src/runtime/register'
+
+function credentialAdapter() {
+  const base = memoryAdapter()
+  const creds = new Map<string, string>()
+  const appendAudit = vi.fn().mockResolvedValue(undefined)
+  return {
+    ...base,
+    appendAudit,
+    async createCredential(userId: string, hash: string) {
+      creds.set(userId, hash)
+      return { id: `cred-${userId}`, userId }
+    },
+    async getCredentialByUserId(userId: string) {
+      const hash = creds.get(userId)
+      return hash ? { hash } : null
+    },
+  }
+}
+
+const hasher = {
+  hash: async (pw: string) => `hashed:${pw}`,
+  verify: async (hash: string, pw: string) => hash === `hashed:${pw}`,
+}
+
+describe('event bus', () => {
+  it('persists events to the audit log and notifies listeners', async () => {
+    const appendAudit = vi.fn().mockResolvedValue(undefined)
+    const onCreated = vi.fn()
+    const onAny = vi.fn()
+    const bus = createEventBus({
+      hooks: { on: { 'user.created': onCreated, '*': [onAny] } },
+      adapter: { appendAudit },
+    })
+
+    await bus.emit(
+      'user.created',
+      { email: 'a@example.com', method: 'password' },
+      { userId: 'u1', ip: '198.51.100.1' },
+    )
+
+    expect(appendAudit).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'user.created',
+        userId: 'u1',
+        ip: '198.51.100.1',
+        meta: { email: 'a@example.com', method: 'password' },
+      }),
+    )
+    expect(onCreated).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'user.created', userId: 'u1' }),
+    )
+    expect(onAny).toHaveBeenCalledTimes(1)
+  })
+
+  it('skips persistence when disabled and survives failing listeners', async () => {
+    const appendAudit = vi.fn()
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const bus = createEventBus({
+      hooks: { persist: false, on: { 'session.deleted': () => Promise.reject(new Error('boom')) } },
+      adapter: { appendAudit },
+    })
+    const late = vi.fn()
+    const off = bus.on('session.deleted', late)
+
+    await expect(bus.emit('session.deleted', { reason: 'logout' })).resolves.toBeUndefined()
+    off()
+    await bus.emit('session.deleted', { reason: 'logout' })
+
+    expect(appendAudit).not.toHaveBeenCalled()
+    expect(late).toHaveBeenCalledTimes(1)
+    errorSpy.mockRestore()
+  })
+
+  it('merges before-hook results and turns throws into HOOK_REJECTED', async () => {
+    const bus = createEventBus({
+      hooks: {
+        before: {
+          userCreate: ({ data }) => {
+            if (data.email?.endsWith('@blocked.test')) rejectHook('Domain not allowed')
+            return { name: 'Enriched' }
+          },
+          oauthProfile: () => {
+            throw new Error('db password is hunter2')
+          },
+        },
+      },
+    })
+
+    const { data } = await bus.before('userCreate', {
+      data: { email: 'a@example.com' },
+      method: 'password',
+    })
+    expect(data).toEqual({ email: 'a@example.com', name: 'Enriched' })
+    await expect(
+      bus.before('userCreate', { data: { email: 'x@blocked.test' }, method: 'password' }),
+    ).rejects.toMatchObject({ code: ERR.HOOK_REJECTED, message: 'Domain not allowed' })
+
+    // Other errors are logged, not echoed to the client
+    const logged = vi.spyOn(console, 'error').mockImplementation(() => {})
+    await expect(
+      bus.before('oauthProfile', { provider: 'github', profile: { id: '1' } }),
+    ).rejects.toMatchObject({ code: ERR.HOOK_REJECTED, message: 'Rejected by hook' })
+    expect(logged).toHaveBeenCalledWith('oauthProfile hook failed:', expect.any(Error))
+    logged.mockRestore()
+  })
+})
+
+describe('runtime events', () => {
+  it('vetoes sign-up by domain before the user is created', async () => {
+    const adapter = credentialAdapter()
+    const events = createEventBus({
+      hooks: {
+        before: {
+          userCreate: ({ data }) => {
+            if (!data.email?.endsWith('@acme.test')) rejectHook('Sign-ups are limited to acme.test')
+          },
+        },
+      },
+      adapter,
+    })
+
+    await expect(
+      register({ email: 'eve@example.com', password: 'pw' }, { adapter, hasher, events }),
+    ).rejects.toMatchObject({ code: ERR.HOOK_REJECTED })
+    expect(await adapter.getUserByEmail('eve@example.com')).toBeNull()
+
+    const { user } = await register(
+      { email: 'ann@acme.test', password: 'pw', meta: { ip: '203.0.113.9' } },
+      { adapter, hasher, events },
+    )
+    expect(adapter.appendAudit).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'user.created', userId: user.id, ip: '203.0.113.9' }),
+    )
+  })
+
+  it('emits login.failed and session.created', async () => {
+    const adapter = credentialAdapter()
+    const events = createEventBus({ adapter })
+    await register({ email: 'bo@example.com', password: 'pw' }, { adapter, hasher })
+
+    await expect(
+      login({ email: 'bo@example.com', password: 'wrong' }, { adapter, hasher, events }),
+    ).rejects.toMatchObject({ code: 'INVALID_CREDENTIALS' })
+    expect(adapter.appendAudit).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        type: 'login.failed',
+        meta: { email: 'bo@example.com', method: 'password', reason: 'INVALID_CREDENTIALS' },
+      }),
+    )
+
+    await login({ email: 'bo@example.com', password: 'pw' }, { adapter, hasher, events })
+    expect(adapter.appendAudit).toHaveBeenLastCalledWith(
+      expect.objectContaining({ type: 'session.created', meta: { method: 'password' } }),
+    )
+  })
+})
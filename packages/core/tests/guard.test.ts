@@ -1,8 +1,15 @@
 import { describe, expect, it, vi } from 'vitest'
 
 import * as random from '../src/crypto/random'
+import { requestClientIp, resolveClientIp } from '../src/guard/client-ip'
 import { issueCsrfToken, validateDoubleSubmit } from '../src/guard/csrf'
-import { rateLimit } from '../src/guard/rate-limit'
+import {
+  checkRateLimit,
+  inMemoryRateLimiter,
+  rateLimit,
+  rateLimitHeaders,
+} from '../src/guard/rate-limit'
+import { RedisRateLimiter } from '../src/guard/redis-rate-limiter'
 
 describe('guard helpers', () => {
   it('issues CSRF tokens via randToken', () => {
@@ -30,4 +37,91 @@ describe('guard helpers', () => {
 
     vi.useRealTimers()
   })
+
+  it('reports remaining budget and retry delay from in-memory buckets', async () => {
+    vi.useFakeTimers()
+    const limiter = inMemoryRateLimiter()
+    const window = { limit: 2, windowSec: 10 }
+
+    expect(await limiter.consume!('k', window)).toMatchObject({ allowed: true, remaining: 1 })
+    expect(await limiter.consume!('k', window)).toMatchObject({ allowed: true, remaining: 0 })
+    const denied = await limiter.consume!('k', window)
+    expect(denied).toMatchObject({ allowed: false, remaining: 0, retryAfterSec: 5, resetSec: 10 })
+    expect(rateLimitHeaders(denied)).toEqual({
+      'RateLimit-Limit': '2',
+      'RateLimit-Remaining': '0',
+      'RateLimit-Reset': '10',
+      'Retry-After': '5',
+    })
+
+    vi.advanceTimersByTime(5000)
+    expect((await limiter.consume!('k', window)).allowed).toBe(true)
+    vi.useRealTimers()
+  })
+
+  it('applies per-IP and per-account budgets per route', async () => {
+    const config = {
+      limiter: inMemoryRateLimiter(),
+      routes: { login: { ip: { limit: 5, windowSec: 60 }, account: { limit: 2, windowSec: 60 } } },
+    }
+    const login = (ip: string, account: string) => checkRateLimit('login', { ip, account }, config)
+
+    expect((await login('1.1.1.1', 'a@x.io'))?.allowed).toBe(true)
+    expect((await login('2.2.2.2', 'A@x.io'))?.allowed).toBe(true)
+    // Same account from a third IP is over its budget
+    expect((await login('3.3.3.3', 'a@x.io'))?.allowed).toBe(false)
+    expect((await login('3.3.3.3', 'b@x.io'))?.allowed).toBe(true)
+
+    expect(
+      await checkRateLimit('login', { ip: '1.1.1.1' }, { ...config, enabled: false }),
+    ).toBeNull()
+    expect(
+      await checkRateLimit(
+        'register',
+        { ip: '1.1.1.1' },
+        { ...config, routes: { register: false } },
+      ),
+    ).toBeNull()
+  })
+
+  it('counts fixed windows in redis', async () => {
+    const counts = new Map<string, number>()
+    const redis = {
+      incr: (k: string) => {
+        counts.set(k, (counts.get(k) ?? 0) + 1)
+        return counts.get(k) as number
+      },
+      expire: vi.fn(),
+      pttl: () => 30_000,
+    }
+    const limiter = new RedisRateLimiter(redis)
+    const window = { limit: 1, windowSec: 60 }
+
+    expect(await limiter.consume('k', window)).toMatchObject({ allowed: true, remaining: 0 })
+    expect(await limiter.consume('k', window)).toMatchObject({ allowed: false, retryAfterSec: 30 })
+    expect(redis.expire).toHaveBeenCalledTimes(1)
+  })
+
+  it('resolves the client IP only through trusted proxies', () => {
+    const input = { remoteAddress: '10.0.0.2', forwardedFor: '6.6.6.6, 203.0.113.7, 10.0.0.1' }
+
+    expect(resolveClientIp(input)).toBe('10.0.0.2')
+    expect(resolveClientIp(input, ['10.0.0.0/8'])).toBe('203.0.113.7')
+    expect(resolveClientIp(input, 2)).toBe('203.0.113.7')
+    expect(resolveClientIp(input, true)).toBe('6.6.6.6')
+    expect(resolveClientIp({ remoteAddress: '::ffff:127.0.0.1' })).toBe('127.0.0.1')
+    // Runtime without a socket address: the nearest hop is the platform proxy
+    expect(resolveClientIp({ forwardedFor: '6.6.6.6, 203.0.113.7' }, 1)).toBe('203.0.113.7')
+  })
+
+  it('resolves the client IP of a request', () => {
+    const req = new Request('https://app.test/', {
+      headers: { 'x-forwarded-for': '6.6.6.6, 203.0.113.7', 'x-real-ip': '6.6.6.6' },
+    })
+    expect(requestClientIp(req)).toBeNull()
+    expect(requestClientIp(req, 1)).toBe('203.0.113.7')
+    expect(requestClientIp(Object.assign(req, { ip: '10.0.0.2' }), ['10.0.0.0/8'])).toBe(
+      '203.0.113.7',
+    )
+  })
 })
@@ -0,0 +1,89 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterAll, describe, expect, it } from 'vitest'
+import { memoryAdapter } from '../src/adapters/memory'
+import { createDefaultRotationPolicy, createKeystore } from '../src/jwt/jwks'
+import {
+  adapterKeystoreStore,
+  ensureStoredKeystore,
+  fileKeystoreStore,
+  rotateStoredKeystore,
+} from '../src/jwt/store'
+
+const secret = 'test-auth-secret-0123456789abcdef'
+
+describe('jwt/store', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'keyloom-keystore-'))
+  afterAll(() => rmSync(dir, { recursive: true, force: true }))
+
+  it('shares one keystore between instances using the same adapter', async () => {
+    const adapter = memoryAdapter()
+    const a = adapterKeystoreStore(adapter, { secret })
+    const b = adapterKeystoreStore(adapter, { secret })
+
+    const [ksA, ksB] = await Promise.all([
+      ensureStoredKeystore(a, 'EdDSA'),
+      ensureStoredKeystore(b, 'EdDSA'),
+    ])
+    expect(ksB.active.kid).toBe(ksA.active.kid)
+    expect(ksB.active.privateJwk).toEqual(ksA.active.privateJwk)
+
+    // The private key is only stored sealed
+    const record = await adapter.getKeystoreRecord('default')
+    expect(record?.data).not.toContain((ksA.active.privateJwk as { d: string }).d)
+    expect(JSON.parse(record!.data).active.publicJwk).toEqual(ksA.active.publicJwk)
+  })
+
+  it('refuses adapters that cannot store a keystore', () => {
+    const { getKeystoreRecord, putKeystoreRecord, ...rest } = memoryAdapter()
+    expect(() => adapterKeystoreStore(rest as any, { secret })).toThrow(/KeystoreAdapter/)
+  })
+
+  it('rotates once when several instances rotate together', async () => {
+    const adapter = memoryAdapter()
+    const store = adapterKeystoreStore(adapter, { secret })
+    const first = await ensureStoredKeystore(store, 'EdDSA')
+    // Make the active key old enough to need rotation
+    await store.save({
+      ...first,
+      active: { ...first.active, createdAt: new Date(Date.now() - 100 * 864e5).toISOString() },
+    })
+
+    const policy = createDefaultRotationPolicy()
+    const results = await Promise.all([
+      rotateStoredKeystore(adapterKeystoreStore(adapter, { secret }), 'EdDSA', policy),
+      rotateStoredKeystore(adapterKeystoreStore(adapter, { secret }), 'EdDSA', policy),
+    ])
+    expect(results[0]!.active.kid).not.toBe(first.active.kid)
+    expect(results[1]!.active.kid).toBe(results[0]!.active.kid)
+    expect(results[1]!.previous.map((p) => p.kid)).toEqual([first.active.kid])
+
+    const forced = await rotateStoredKeystore(store, 'EdDSA', policy, { force: true })
+    expect(forced.active.kid).not.toBe(results[0]!.active.kid)
+    expect((await store.load())?.active.kid).toBe(forced.active.kid)
+  })
+
+  it('rejects a sealed keystore opened with another secret', async () => {
+    const adapter = memoryAdapter()
+    await ensureStoredKeystore(adapterKeystoreStore(adapter, { secret }), 'EdDSA')
+    await expect(
+      adapterKeystoreStore(adapter, { secret: 'another-secret-0123456789abcdef' }).load(),
+    ).rejects.toMatchObject({ code: 'keystore_decrypt_failed' })
+  })
+
+  it('reads plain keystore files and seals them when a secret is set', async () => {
+    const file = join(dir, 'jwks.json')
+    expect(await fileKeystoreStore(file).load()).toBeNull()
+
+    const ks = await createKeystore('EdDSA')
+    writeFileSync(file, JSON.stringify(ks))
+    const store = fileKeystoreStore(file, { secret })
+    const loaded = await store.load()
+    expect(loaded?.active.kid).toBe(ks.active.kid)
+
+    await store.save(loaded!)
+    expect(JSON.parse(readFileSync(file, 'utf8')).v).toBe(1)
+    expect((await store.load())?.active.privateJwk).toEqual(ks.active.privateJwk)
+  })
+})
@@ -17,6 +17,14 @@ class MockEmailService implements EmailService {
     return { success: true, messageId: 'mock-message-id' }
   }
 
+  async sendPasswordReset(): Promise<EmailResult> {
+    return { success: true, messageId: 'mock-message-id' }
+  }
+
+  async sendVerificationEmail(): Promise<EmailResult> {
+    return { success: true, messageId: 'mock-message-id' }
+  }
+
   async sendEmail(): Promise<EmailResult> {
     return { success: true, messageId: 'mock-message-id' }
   }
@@ -34,6 +34,22 @@ describe('oauth discovery helpers', () => {
     await expect(discover('https://broken.example')).rejects.toThrow('oidc_discovery_failed:500')
   })
 
+  it('retries discovery after a failed lookup', async () => {
+    const meta = {
+      authorization_endpoint: 'https://flaky/auth',
+      token_endpoint: 'https://flaky/token',
+    }
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce({ ok: false, status: 503 })
+      .mockResolvedValueOnce({ ok: true, json: async () => meta })
+    vi.stubGlobal('fetch', fetchMock as unknown as typeof fetch)
+
+    await expect(discover('https://flaky.example')).rejects.toThrow('oidc_discovery_failed:503')
+    await expect(discover('https://flaky.example')).resolves.toEqual(meta)
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
   it('resolves endpoints with and without discovery metadata', async () => {
     const meta = {
       authorization_endpoint: 'https://issuer/auth',
@@ -92,23 +92,45 @@ describe('oauth/client', () => {
     expect((init as RequestInit).headers).toMatchObject({ Authorization: 'Bearer tok' })
   })
 
-  it('maps profiles from id_token when no userinfo endpoint', async () => {
+  it('maps profiles from a verified id_token when no userinfo endpoint', async () => {
+    const { privateKey, publicKey } = (await crypto.subtle.generateKey(
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      true,
+      ['sign', 'verify'],
+    )) as CryptoKeyPair
+    const jwk = { ...(await crypto.subtle.exportKey('jwk', publicKey)), kid: 'k1' }
     const provider = {
       ...baseProvider,
       userinfo: undefined,
+      idToken: { issuer: 'https://idp.test', keys: [jwk] },
       profileFromIdToken: (claims: any) => ({ id: claims.sub, email: claims.email }),
     }
     const mock = vi.fn().mockResolvedValue({ ok: true, json: async () => ({ id: 'ignored' }) })
     // @ts-expect-error
     global.fetch = mock
 
-    const idTokenPayload = Buffer.from(
-      JSON.stringify({ sub: '123', email: 'u@test.dev' }),
-    ).toString('base64url')
-    const token = `aaa.${idTokenPayload}.bbb`
+    const enc = (o: unknown) => Buffer.from(JSON.stringify(o)).toString('base64url')
+    const input = `${enc({ alg: 'ES256', kid: 'k1' })}.${enc({
+      sub: '123',
+      email: 'u@test.dev',
+      iss: 'https://idp.test',
+      aud: 'id',
+      exp: Math.floor(Date.now() / 1000) + 60,
+    })}`
+    const sig = await crypto.subtle.sign(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      privateKey,
+      new TextEncoder().encode(input),
+    )
+    const token = `${input}.${Buffer.from(sig).toString('base64url')}`
     const profile = await fetchUserInfo(provider, { access_token: 'tok', id_token: token })
     expect(profile).toEqual({ id: '123', email: 'u@test.dev' })
     expect(mock).not.toHaveBeenCalled()
+
+    // An unsigned token with the same claims is rejected
+    await expect(
+      fetchUserInfo(provider, { access_token: 'tok', id_token: `${input}.bbb` }),
+    ).rejects.toThrow('id_token_invalid_signature')
   })
 
   it('returns null when no userinfo endpoint or id token', async () => {
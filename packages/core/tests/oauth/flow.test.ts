@@ -162,6 +162,47 @@ describe('oauth/flow', () => {
     ).rejects.toThrow('account_already_linked')
   })
 
+  it('binds link mode to the session that started it', async () => {
+    vi.doMock('../../src/oauth/client', () => ({
+      exchangeToken: vi.fn().mockResolvedValue({ access_token: 'A' }),
+      fetchUserInfo: vi.fn().mockResolvedValue({ id: 'acct-1' }),
+    }))
+
+    const adapter = {
+      getAccountByProvider: vi.fn().mockResolvedValue(null),
+      getUser: vi.fn().mockResolvedValue({ id: 'user-123' }),
+      linkAccount: vi.fn().mockResolvedValue(undefined),
+      createSession: vi.fn().mockResolvedValue({ id: 'sess-1' }),
+    } as unknown as ReturnType<typeof memoryAdapter>
+
+    const { stateCookie } = await startOAuth({
+      provider,
+      baseUrl,
+      callbackPath,
+      secrets,
+      linkUserId: 'user-123',
+    })
+    const state = (stateCookie.split('=')[1] ?? '').split(';')[0]
+    const complete = (linkToUserId?: string) =>
+      completeOAuth({
+        provider,
+        adapter: adapter as any,
+        baseUrl,
+        callbackPath,
+        stateCookie: state,
+        stateParam: state,
+        code: 'CODE',
+        secrets,
+        ...(linkToUserId ? { linkToUserId } : {}),
+      })
+
+    await expect(complete()).rejects.toThrow('link_session_mismatch')
+    await expect(complete('user-456')).rejects.toThrow('link_session_mismatch')
+    expect(adapter.linkAccount).not.toHaveBeenCalled()
+    await complete('user-123')
+    expect(adapter.linkAccount).toHaveBeenCalled()
+  })
+
   it('rejects when state tokens mismatch or are malformed', async () => {
     await expect(
       completeOAuth({
@@ -223,4 +264,72 @@ describe('oauth/flow', () => {
       }),
     ).rejects.toThrow('state_expired')
   })
+
+  it('stores fresh encrypted tokens when a linked account signs in again', async () => {
+    const exchangeToken = vi
+      .fn()
+      .mockResolvedValueOnce({ access_token: 'A', refresh_token: 'R' })
+      .mockResolvedValueOnce({ access_token: 'B' })
+    vi.doMock('../../src/oauth/client', () => ({
+      exchangeToken,
+      fetchUserInfo: vi.fn().mockResolvedValue({ id: 'acct-1', email: 'again@test.dev' }),
+    }))
+    const { decryptAccountTokens } = await import('../../src/oauth/tokens')
+
+    const adapter = memoryAdapter()
+    for (let i = 0; i < 2; i++) {
+      const { stateCookie } = await startOAuth({ provider, baseUrl, callbackPath, secrets })
+      const state = (stateCookie.split('=')[1] ?? '').split(';')[0]
+      await completeOAuth({
+        provider,
+        adapter,
+        baseUrl,
+        callbackPath,
+        stateCookie: state,
+        stateParam: state,
+        code: 'CODE',
+        secrets,
+      })
+    }
+
+    const stored = await adapter.getAccountByProvider('dev', 'acct-1')
+    expect(stored?.accessToken).toMatch(/^kl1\./)
+    expect(await decryptAccountTokens(stored!, secrets.authSecret)).toMatchObject({
+      accessToken: 'B',
+      refreshToken: 'R',
+    })
+  })
+
+  it('holds the sign-in for a second factor when the user has 2FA enabled', async () => {
+    vi.doMock('../../src/oauth/client', () => ({
+      exchangeToken: vi.fn().mockResolvedValue({ access_token: 'A' }),
+      fetchUserInfo: vi.fn().mockResolvedValue({ id: 'acct-2fa', email: 'totp@test.dev' }),
+    }))
+
+    const adapter = memoryAdapter()
+    const user = await adapter.createUser({ email: 'totp@test.dev' })
+    await adapter.linkAccount({
+      userId: user.id,
+      provider: 'dev',
+      providerAccountId: 'acct-2fa',
+    } as any)
+    await adapter.createAuthKey({ userId: user.id, type: 'totp', keyId: `totp:${user.id}` })
+    const { stateCookie } = await startOAuth({ provider, baseUrl, callbackPath, secrets })
+    const state = (stateCookie.split('=')[1] ?? '').split(';')[0]
+
+    const result = await completeOAuth({
+      provider,
+      adapter,
+      baseUrl,
+      callbackPath,
+      stateCookie: state,
+      stateParam: state,
+      code: 'CODE',
+      secrets,
+    })
+
+    expect(result).toMatchObject({ session: null, twoFactorRequired: true, redirectTo: '/' })
+    expect(result.twoFactorRequired && result.pendingToken.startsWith(`${user.id}.`)).toBe(true)
+    expect(await adapter.listSessionsByUser(user.id)).toHaveLength(0)
+  })
 })
@@ -0,0 +1,198 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { memoryAdapter } from '../../src/adapters/memory'
+import { completeOAuth, startOAuth } from '../../src/oauth/flow'
+import { verifyIdToken } from '../../src/oauth/idtoken'
+import type { OAuthProvider } from '../../src/oauth/types'
+
+const exchangeToken = vi.fn()
+vi.mock('../../src/oauth/client', () => ({
+  exchangeToken: (...args: unknown[]) => exchangeToken(...args),
+  fetchUserInfo: vi.fn().mockResolvedValue({ id: 'acct-1', email: 'oidc@test.dev' }),
+}))
+
+type Alg = 'RS256' | 'ES256' | 'EdDSA'
+
+const keyParams = {
+  RS256: {
+    gen: {
+      name: 'RSASSA-PKCS1-v1_5',
+      modulusLength: 2048,
+      publicExponent: new Uint8Array([1, 0, 1]),
+      hash: 'SHA-256',
+    },
+    sign: { name: 'RSASSA-PKCS1-v1_5' },
+  },
+  ES256: { gen: { name: 'ECDSA', namedCurve: 'P-256' }, sign: { name: 'ECDSA', hash: 'SHA-256' } },
+  EdDSA: { gen: { name: 'Ed25519' }, sign: { name: 'Ed25519' } },
+} as const
+
+async function makeKey(alg: Alg, kid: string) {
+  const pair = (await crypto.subtle.generateKey(keyParams[alg].gen as any, true, [
+    'sign',
+    'verify',
+  ])) as CryptoKeyPair
+  const jwk = { ...(await crypto.subtle.exportKey('jwk', pair.publicKey)), kid, alg, use: 'sig' }
+  return { alg, kid, privateKey: pair.privateKey, jwk }
+}
+
+const enc = (o: unknown) => Buffer.from(JSON.stringify(o)).toString('base64url')
+
+async function sign(key: Awaited<ReturnType<typeof makeKey>>, claims: Record<string, unknown>) {
+  const input = `${enc({ alg: key.alg, kid: key.kid, typ: 'JWT' })}.${enc(claims)}`
+  const sig = await crypto.subtle.sign(
+    keyParams[key.alg].sign as any,
+    key.privateKey,
+    new TextEncoder().encode(input),
+  )
+  return `${input}.${Buffer.from(sig).toString('base64url')}`
+}
+
+const issuer = 'https://idp.example'
+const claims = (extra: Record<string, unknown> = {}) => ({
+  sub: 'u1',
+  iss: issuer,
+  aud: 'client-1',
+  exp: Math.floor(Date.now() / 1000) + 300,
+  ...extra,
+})
+
+const baseProvider = {
+  id: 'oidc',
+  authorization: { url: `${issuer}/authorize` },
+  token: { url: `${issuer}/token` },
+  clientId: 'client-1',
+  clientSecret: 'secret',
+} satisfies OAuthProvider & { clientId: string; clientSecret: string }
+
+function stubIdp(jwksUrl: string, keySets: unknown[][]) {
+  let call = 0
+  const fetchMock = vi.fn(async (url: string) => {
+    if (url.endsWith('/.well-known/openid-configuration')) {
+      return {
+        ok: true,
+        json: async () => ({
+          issuer: url.replace('/.well-known/openid-configuration', ''),
+          authorization_endpoint: `${issuer}/authorize`,
+          token_endpoint: `${issuer}/token`,
+          jwks_uri: jwksUrl,
+        }),
+      }
+    }
+    const keys = keySets[Math.min(call++, keySets.length - 1)]
+    return { ok: true, headers: new Headers(), json: async () => ({ keys }) }
+  })
+  vi.stubGlobal('fetch', fetchMock)
+  return fetchMock
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+  vi.useRealTimers()
+})
+
+describe('verifyIdToken', () => {
+  it('verifies RS256 tokens with keys from discovery and caches the JWKS', async () => {
+    const key = await makeKey('RS256', 'rsa-1')
+    const fetchMock = stubIdp('https://idp.example/jwks-a', [[key.jwk]])
+    const provider = { ...baseProvider, discovery: { issuer } }
+
+    const token = await sign(key, claims({ email: 'a@b.co' }))
+    expect(await verifyIdToken(provider, token)).toMatchObject({ sub: 'u1', email: 'a@b.co' })
+    await verifyIdToken(provider, token)
+    const jwksCalls = fetchMock.mock.calls.filter(([u]) => u.endsWith('/jwks-a'))
+    expect(jwksCalls).toHaveLength(1)
+  })
+
+  it('refetches the JWKS when an unknown kid appears after rotation', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    const oldKey = await makeKey('ES256', 'old')
+    const newKey = await makeKey('ES256', 'new')
+    // Separate issuer: discovery documents are cached per issuer for the process lifetime
+    const rotatingIssuer = 'https://rotating.example'
+    stubIdp('https://rotating.example/jwks', [[oldKey.jwk], [oldKey.jwk, newKey.jwk]])
+    const provider = { ...baseProvider, discovery: { issuer: rotatingIssuer } }
+
+    await verifyIdToken(provider, await sign(oldKey, claims({ iss: rotatingIssuer })))
+    vi.setSystemTime(Date.now() + 60_000)
+    const token = await sign(newKey, claims({ iss: rotatingIssuer }))
+    expect(await verifyIdToken(provider, token)).toMatchObject({
+      sub: 'u1',
+    })
+  })
+
+  it('verifies EdDSA tokens against static keys', async () => {
+    const key = await makeKey('EdDSA', 'ed')
+    const provider = { ...baseProvider, idToken: { issuer, keys: [key.jwk] } }
+    expect(await verifyIdToken(provider, await sign(key, claims()))).toMatchObject({ sub: 'u1' })
+  })
+
+  it('rejects bad signatures and claims', async () => {
+    const key = await makeKey('ES256', 'k')
+    const other = await makeKey('ES256', 'k')
+    const provider = { ...baseProvider, idToken: { issuer, keys: [key.jwk] } }
+
+    await expect(verifyIdToken(provider, await sign(other, claims()))).rejects.toThrow(
+      'id_token_invalid_signature',
+    )
+    await expect(
+      verifyIdToken(provider, await sign(key, claims({ iss: 'https://evil.example' }))),
+    ).rejects.toThrow('id_token_issuer_mismatch')
+    await expect(
+      verifyIdToken(provider, await sign(key, claims({ aud: 'someone-else' }))),
+    ).rejects.toThrow('id_token_audience_mismatch')
+    await expect(
+      verifyIdToken(
+        provider,
+        await sign(key, claims({ exp: Math.floor(Date.now() / 1000) - 600 })),
+      ),
+    ).rejects.toThrow('id_token_expired')
+    await expect(
+      verifyIdToken(provider, await sign(key, claims({ nonce: 'a' })), { nonce: 'b' }),
+    ).rejects.toThrow('id_token_nonce_mismatch')
+  })
+})
+
+describe('oauth flow nonce', () => {
+  const secrets = { authSecret: 'MDEyMzQ1Njc4OWFiY2RlZjAxMjM0NTY3ODlhYmNkZWY' }
+  const baseUrl = 'https://app.test'
+  const callbackPath = '/api/auth/oauth/oidc/callback'
+
+  it('sends a nonce and enforces it on the returned id_token', async () => {
+    const key = await makeKey('ES256', 'flow')
+    const provider = { ...baseProvider, idToken: { issuer, keys: [key.jwk] } }
+
+    const { authorizeUrl, stateCookie } = await startOAuth({
+      provider,
+      baseUrl,
+      callbackPath,
+      secrets,
+    })
+    const nonce = new URL(authorizeUrl).searchParams.get('nonce')
+    expect(nonce).toBeTruthy()
+    const state = (stateCookie.split('=')[1] ?? '').split(';')[0] ?? null
+    const complete = () =>
+      completeOAuth({
+        provider,
+        adapter: memoryAdapter(),
+        baseUrl,
+        callbackPath,
+        stateCookie: state,
+        stateParam: state,
+        code: 'code',
+        secrets,
+      })
+
+    exchangeToken.mockResolvedValueOnce({
+      access_token: 'A',
+      id_token: await sign(key, claims({ nonce: 'replayed' })),
+    })
+    await expect(complete()).rejects.toThrow('id_token_nonce_mismatch')
+
+    exchangeToken.mockResolvedValueOnce({
+      access_token: 'A',
+      id_token: await sign(key, claims({ nonce })),
+    })
+    const { session } = await complete()
+    expect(session.userId).toBeTruthy()
+  })
+})
@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { memoryAdapter } from '../../src/adapters/memory'
+import { completeOAuth, startOAuth } from '../../src/oauth/flow'
+import {
+  type AccountLinkingPolicy,
+  confirmPendingLink,
+  type PendingLink,
+} from '../../src/oauth/pending-link'
+import { decryptAccountTokens } from '../../src/oauth/tokens'
+import type { OAuthProvider } from '../../src/oauth/types'
+
+const provider: OAuthProvider & { clientId: string; clientSecret: string } = {
+  id: 'dev',
+  authorization: { url: 'https://example.com/authorize' },
+  token: { url: 'https://example.com/token', style: 'json' },
+  userinfo: { url: 'https://example.com/userinfo', map: (raw) => raw },
+  scopes: [],
+  clientId: 'id',
+  clientSecret: 'secret',
+}
+
+const baseUrl = 'https://app.test'
+const callbackPath = `/api/auth/oauth/${provider.id}/callback`
+const secrets = { authSecret: 'MDEyMzQ1Njc4OWFiY2RlZjAxMjM0NTY3ODlhYmNkZWY' }
+const secretCtx = { secret: secrets.authSecret }
+
+function mockProfile(profile: { id: string; email: string; emailVerified?: boolean }) {
+  vi.doMock('../../src/oauth/client', () => ({
+    exchangeToken: vi.fn().mockResolvedValue({ access_token: 'A', token_type: 'Bearer' }),
+    fetchUserInfo: vi.fn().mockResolvedValue(profile),
+  }))
+}
+
+async function signIn(
+  adapter: ReturnType<typeof memoryAdapter>,
+  accountLinking?: AccountLinkingPolicy,
+) {
+  const { stateCookie } = await startOAuth({
+    provider,
+    baseUrl,
+    callbackPath,
+    secrets,
+    callbackUrl: '/settings',
+  })
+  const state = (stateCookie.split('=')[1] ?? '').split(';')[0] as string
+  return completeOAuth({
+    provider,
+    adapter,
+    baseUrl,
+    callbackPath,
+    stateCookie: state,
+    stateParam: state,
+    code: 'CODE',
+    secrets,
+    ...(accountLinking ? { accountLinking } : {}),
+  })
+}
+
+describe('oauth account linking policy', () => {
+  let adapter: ReturnType<typeof memoryAdapter>
+  let userId: string
+
+  beforeEach(async () => {
+    adapter = memoryAdapter()
+    userId = (await adapter.createUser({ email: 'taken@test.dev' })).id
+  })
+
+  afterEach(() => {
+    vi.resetModules()
+    vi.unmock('../../src/oauth/client')
+  })
+
+  it('refuses to link under the never policy', async () => {
+    mockProfile({ id: 'acct-1', email: 'taken@test.dev', emailVerified: true })
+    await expect(signIn(adapter, 'never')).rejects.toMatchObject({
+      code: 'OAUTH_ACCOUNT_NOT_LINKED',
+    })
+    expect(await adapter.getAccountByProvider('dev', 'acct-1')).toBeNull()
+  })
+
+  it('links provider-verified emails by default', async () => {
+    mockProfile({ id: 'acct-1', email: 'taken@test.dev', emailVerified: true })
+    const result = await signIn(adapter)
+    expect(result.session?.userId).toBe(userId)
+    expect((await adapter.getAccountByProvider('dev', 'acct-1'))?.userId).toBe(userId)
+  })
+
+  it('holds unverified matches until the emailed token confirms them, once', async () => {
+    mockProfile({ id: 'acct-1', email: 'taken@test.dev' })
+    const result = await signIn(adapter)
+    expect(result.session).toBeNull()
+    expect(await adapter.getAccountByProvider('dev', 'acct-1')).toBeNull()
+
+    const pending = result.pendingLink as PendingLink
+    expect(pending.userId).toBe(userId)
+    await expect(
+      confirmPendingLink(pending.token, { confirmToken: 'wrong' }, { adapter, ...secretCtx }),
+    ).rejects.toMatchObject({ code: 'OAUTH_LINK_INVALID' })
+
+    const confirmed = await confirmPendingLink(
+      pending.token,
+      { confirmToken: pending.confirmToken },
+      { adapter, ...secretCtx },
+    )
+    expect(confirmed).toMatchObject({ userId, redirectTo: '/settings' })
+    expect((await decryptAccountTokens(confirmed.account, secrets.authSecret)).accessToken).toBe(
+      'A',
+    )
+    expect((await adapter.getAccountByProvider('dev', 'acct-1'))?.userId).toBe(userId)
+
+    await expect(
+      confirmPendingLink(
+        pending.token,
+        { confirmToken: pending.confirmToken },
+        { adapter, ...secretCtx },
+      ),
+    ).rejects.toMatchObject({ code: 'OAUTH_LINK_INVALID' })
+  })
+
+  it('requires the signed-in user to confirm when configured', async () => {
+    mockProfile({ id: 'acct-1', email: 'taken@test.dev', emailVerified: true })
+    const result = await signIn(adapter, 'require-signed-in-confirmation')
+    const pending = result.pendingLink as PendingLink
+
+    await expect(
+      confirmPendingLink(pending.token, { userId: 'someone-else' }, { adapter, ...secretCtx }),
+    ).rejects.toMatchObject({ code: 'OAUTH_LINK_USER_MISMATCH' })
+    await confirmPendingLink(pending.token, { userId }, { adapter, ...secretCtx })
+    expect((await adapter.getAccountByProvider('dev', 'acct-1'))?.userId).toBe(userId)
+  })
+
+  it('still creates new users for unknown emails', async () => {
+    mockProfile({ id: 'acct-2', email: 'new@test.dev' })
+    const result = await signIn(adapter, 'never')
+    expect(result.session?.userId).not.toBe(userId)
+  })
+})
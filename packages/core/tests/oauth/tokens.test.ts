@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { memoryAdapter } from '../../src/adapters/memory'
+import {
+  decryptAccountTokens,
+  encryptAccountTokens,
+  getProviderAccessToken,
+} from '../../src/oauth/tokens'
+import type { OAuthProvider } from '../../src/oauth/types'
+
+const provider: OAuthProvider & { clientId: string; clientSecret: string } = {
+  id: 'dev',
+  authorization: { url: 'https://example.com/authorize' },
+  token: { url: 'https://example.com/token', style: 'form' },
+  scopes: [],
+  clientId: 'id',
+  clientSecret: 'secret',
+}
+const secret = 'MDEyMzQ1Njc4OWFiY2RlZjAxMjM0NTY3ODlhYmNkZWY'
+const ref = { provider: 'dev', providerAccountId: 'acct-1' }
+const originalFetch = global.fetch
+
+describe('provider access tokens', () => {
+  let adapter: ReturnType<typeof memoryAdapter>
+  let userId: string
+  const ctx = () => ({ adapter, providers: [provider], secret })
+
+  const link = async (tokens: Parameters<typeof encryptAccountTokens>[1]) =>
+    adapter.linkAccount({
+      id: undefined as any,
+      userId,
+      ...ref,
+      ...(await encryptAccountTokens(ref, tokens, secret)),
+    })
+
+  beforeEach(async () => {
+    adapter = memoryAdapter()
+    userId = (await adapter.createUser({ email: 'u@test.dev' })).id
+  })
+
+  afterEach(() => {
+    global.fetch = originalFetch
+  })
+
+  it('stores tokens encrypted and bound to the account', async () => {
+    const account = await link({ access_token: 'A', refresh_token: 'R' })
+    expect(account.accessToken).toMatch(/^kl1\./)
+    expect(account.refreshToken).toMatch(/^kl1\./)
+
+    const opened = await decryptAccountTokens(account, secret)
+    expect(opened).toMatchObject({ accessToken: 'A', refreshToken: 'R' })
+    await expect(
+      decryptAccountTokens({ ...account, providerAccountId: 'acct-2' }, secret),
+    ).rejects.toThrow()
+  })
+
+  it('returns unexpired tokens without refreshing', async () => {
+    global.fetch = vi.fn() as any
+    await link({ access_token: 'A', refresh_token: 'R', expires_in: 3600, scope: 'repo' })
+
+    const token = await getProviderAccessToken(userId, 'dev', ctx())
+    expect(token).toMatchObject({ accessToken: 'A', scope: 'repo' })
+    expect(global.fetch).not.toHaveBeenCalled()
+    expect(await getProviderAccessToken(userId, 'other', ctx())).toBeNull()
+  })
+
+  it('refreshes expired tokens and writes them back', async () => {
+    const account = await link({ access_token: 'A', refresh_token: 'R', scope: 'repo' })
+    await adapter.updateAccount(account.id, { expiresAt: Math.floor(Date.now() / 1000) - 10 })
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ access_token: 'B', expires_in: 3600, token_type: 'Bearer' }),
+    })
+    global.fetch = fetchMock as any
+
+    const token = await getProviderAccessToken(userId, 'dev', ctx())
+    expect(token).toMatchObject({ accessToken: 'B', tokenType: 'Bearer', scope: 'repo' })
+    const body = fetchMock.mock.calls[0]?.[1]?.body as URLSearchParams
+    expect(body.get('grant_type')).toBe('refresh_token')
+    expect(body.get('refresh_token')).toBe('R')
+
+    const stored = await adapter.getAccountByProvider('dev', 'acct-1')
+    expect(stored?.accessToken).toMatch(/^kl1\./)
+    expect(await decryptAccountTokens(stored!, secret)).toMatchObject({
+      accessToken: 'B',
+      refreshToken: 'R',
+    })
+  })
+
+  it('reports expired tokens that cannot be refreshed', async () => {
+    const account = await link({ access_token: 'A' })
+    await adapter.updateAccount(account.id, { expiresAt: 1 })
+    await expect(getProviderAccessToken(userId, 'dev', ctx())).rejects.toMatchObject({
+      code: 'OAUTH_TOKEN_EXPIRED',
+    })
+
+    const { refreshToken } = await encryptAccountTokens(
+      ref,
+      { access_token: 'A', refresh_token: 'R' },
+      secret,
+    )
+    await adapter.updateAccount(account.id, { refreshToken })
+    global.fetch = vi.fn().mockResolvedValue({ ok: false }) as any
+    await expect(getProviderAccessToken(userId, 'dev', ctx())).rejects.toMatchObject({
+      code: 'OAUTH_REFRESH_FAILED',
+    })
+  })
+})
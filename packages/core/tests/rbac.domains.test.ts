@@ -0,0 +1,153 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { memoryAdapter } from '../src/adapters/memory'
+import { ERR } from '../src/errors'
+import { verifyMagicLink } from '../src/magic-link/core'
+import {
+  claimOrgDomain,
+  enforceOrgDomain,
+  normalizeDomain,
+  OrgSsoRequiredError,
+  verifyOrgDomain,
+} from '../src/rbac/domains'
+import { register } from '../src/runtime/register'
+import { issueVerificationToken } from '../src/tokens/verification'
+
+const hasher = { hash: async (pw: string) => `hashed:${pw}` }
+
+describe('rbac/domains', () => {
+  let adapter: ReturnType<typeof memoryAdapter>
+  let orgId: string
+  let txt: Record<string, string[][]>
+  const resolveTxt = async (name: string) => txt[name] ?? []
+
+  beforeEach(async () => {
+    adapter = memoryAdapter()
+    orgId = (await adapter.createOrganization({ name: 'Acme' })).id
+    txt = {}
+  })
+
+  async function verified(
+    domain: string,
+    opts: { policy?: 'auto-join' | 'sso'; role?: string } = {},
+  ) {
+    const { orgDomain, record } = await claimOrgDomain({ orgId, domain, ...opts }, adapter)
+    txt[record.name] = [[record.value]]
+    return verifyOrgDomain(orgId, orgDomain.id, { adapter, resolveTxt })
+  }
+
+  it('normalizes and rejects invalid domains', () => {
+    expect(normalizeDomain(' Acme.COM. ')).toBe('acme.com')
+    expect(() => normalizeDomain('not a domain')).toThrow(
+      expect.objectContaining({ code: ERR.ORG_DOMAIN_INVALID }),
+    )
+    expect(() => normalizeDomain('localhost')).toThrow(
+      expect.objectContaining({ code: ERR.ORG_DOMAIN_INVALID }),
+    )
+  })
+
+  it('verifies a claim once the TXT record is published, joining split chunks', async () => {
+    const { orgDomain, record } = await claimOrgDomain({ orgId, domain: 'acme.com' }, adapter)
+    expect(record.name).toBe('_keyloom-verification.acme.com')
+    expect(orgDomain.verifiedAt).toBeNull()
+
+    await expect(
+      verifyOrgDomain(orgId, orgDomain.id, { adapter, resolveTxt }),
+    ).rejects.toMatchObject({
+      code: ERR.ORG_DOMAIN_UNVERIFIED,
+    })
+
+    txt[record.name] = [['unrelated'], [record.value.slice(0, 10), record.value.slice(10)]]
+    const out = await verifyOrgDomain(orgId, orgDomain.id, { adapter, resolveTxt })
+    expect(out.verifiedAt).toBeInstanceOf(Date)
+  })
+
+  it('keeps a verified domain with its org', async () => {
+    await verified('acme.com')
+    const other = await adapter.createOrganization({ name: 'Other' })
+    await expect(
+      claimOrgDomain({ orgId: other.id, domain: 'acme.com' }, adapter),
+    ).rejects.toMatchObject({
+      code: ERR.ORG_DOMAIN_TAKEN,
+    })
+    await expect(
+      verifyOrgDomain(other.id, 'missing', { adapter, resolveTxt }),
+    ).rejects.toMatchObject({
+      code: ERR.ORG_DOMAIN_NOT_FOUND,
+    })
+  })
+
+  it('ignores unverified claims and routes sso domains to the SSO login', async () => {
+    await claimOrgDomain({ orgId, domain: 'acme.com', policy: 'sso' }, adapter)
+    expect(await enforceOrgDomain('a@acme.com', adapter)).toBeNull()
+
+    await verified('sso.acme.com', { policy: 'sso' })
+    const err = await enforceOrgDomain('a@SSO.acme.com', adapter).catch((e) => e)
+    expect(err).toBeInstanceOf(OrgSsoRequiredError)
+    expect(err.ssoUrl).toBe(`/api/auth/saml/${orgId}/login`)
+  })
+
+  it('auto-joins verified sign-ups with the domain role', async () => {
+    await verified('acme.com', { role: 'admin' })
+    const { user } = await register(
+      { email: 'a@acme.com', password: 'pw' },
+      { adapter, hasher, orgDomains: {} },
+    )
+    expect((await adapter.getMembership(user.id, orgId))?.role).toBe('admin')
+
+    const pending = await register(
+      { email: 'b@acme.com', password: 'pw', requireEmailVerify: true },
+      { adapter, hasher, orgDomains: {} },
+    )
+    expect(await adapter.getMembership(pending.user.id, orgId)).toBeNull()
+  })
+
+  it('only auto-joins while the org has a free seat', async () => {
+    await verified('acme.com')
+    await adapter.setEntitlements(orgId, { seats: 0 })
+    await expect(
+      register({ email: 'a@acme.com', password: 'pw' }, { adapter, hasher, orgDomains: {} }),
+    ).rejects.toMatchObject({ code: ERR.SEAT_LIMIT_REACHED })
+
+    const vt = issueVerificationToken('b@acme.com', 15)
+    await adapter.createVerificationToken(vt)
+    const refused = await verifyMagicLink(
+      { email: 'b@acme.com', token: vt.token },
+      { adapter, orgDomains: {} },
+    )
+    expect(refused).toEqual({ success: false, error: ERR.SEAT_LIMIT_REACHED })
+    expect(await adapter.listMembers(orgId)).toEqual([])
+  })
+
+  it('refuses registration on sso domains', async () => {
+    await verified('acme.com', { policy: 'sso' })
+    await expect(
+      register({ email: 'a@acme.com', password: 'pw' }, { adapter, hasher, orgDomains: {} }),
+    ).rejects.toBeInstanceOf(OrgSsoRequiredError)
+    expect(await adapter.getUserByEmail('a@acme.com')).toBeNull()
+  })
+
+  it('joins or redirects on magic-link sign-in', async () => {
+    await verified('acme.com')
+    const vt = issueVerificationToken('a@acme.com', 15)
+    await adapter.createVerificationToken(vt)
+    const ok = await verifyMagicLink(
+      { email: 'a@acme.com', token: vt.token },
+      { adapter, orgDomains: { defaultRole: 'viewer' } },
+    )
+    expect(ok.success).toBe(true)
+    expect((await adapter.getMembership(ok.user!.id, orgId))?.role).toBe('viewer')
+
+    await verified('sso.acme.com', { policy: 'sso' })
+    const sso = issueVerificationToken('b@sso.acme.com', 15)
+    await adapter.createVerificationToken(sso)
+    const refused = await verifyMagicLink(
+      { email: 'b@sso.acme.com', token: sso.token },
+      { adapter, orgDomains: { ssoPath: (id) => `/sso/${id}` } },
+    )
+    expect(refused).toEqual({
+      success: false,
+      error: ERR.ORG_SSO_REQUIRED,
+      ssoUrl: `/sso/${orgId}`,
+    })
+  })
+})
@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest'
+import { evaluate, isPolicyConfigured } from '../src/rbac/evaluate'
+import {
+  can,
+  effectivePermissions,
+  hasAnyRole,
+  hasRole,
+  matchesPermission,
+  roleChain,
+  toPermissionMap,
+} from '../src/rbac/policy'
+import type { RbacConfig } from '../src/types'
+
+const rbac: RbacConfig = {
+  roles: {
+    owner: { permissions: ['billing:*'], inherits: ['admin'] },
+    admin: { permissions: ['members:*', 'projects:delete'], inherits: ['member'] },
+    member: { permissions: ['projects:read', 'projects:write'] },
+    auditor: { permissions: [], inherits: ['member'], deny: ['projects:write'] },
+    // cycles are tolerated
+    a: { permissions: ['x'], inherits: ['b'] },
+    b: { permissions: ['y'], inherits: ['a'] },
+  },
+  rules: [
+    {
+      id: 'authors-delete-own',
+      effect: 'allow',
+      actions: ['projects:delete'],
+      roles: ['member'],
+      when: { owner: true },
+    },
+    {
+      id: 'exports-need-plan',
+      effect: 'allow',
+      actions: ['reports:export'],
+      when: { features: ['exports'] },
+    },
+    {
+      id: 'archived-read-only',
+      effect: 'deny',
+      actions: ['projects:write'],
+      when: { resource: { archived: true } },
+    },
+  ],
+}
+
+describe('rbac/policy hierarchy and wildcards', () => {
+  it('matches wildcard permissions by segment', () => {
+    expect(matchesPermission('billing:*', 'billing:read')).toBe(true)
+    expect(matchesPermission('billing:*', 'billing:invoices:read')).toBe(true)
+    expect(matchesPermission('billing:*', 'billing')).toBe(false)
+    expect(matchesPermission('*:read', 'projects:read')).toBe(true)
+    expect(matchesPermission('*:read', 'projects:write')).toBe(false)
+    expect(matchesPermission('*', 'anything:at:all')).toBe(true)
+    expect(matchesPermission('billing:read', 'billing:readall')).toBe(false)
+  })
+
+  it('resolves inherited roles and permissions', () => {
+    expect(roleChain('owner', rbac)).toEqual(['owner', 'admin', 'member'])
+    expect(roleChain('a', rbac)).toEqual(['a', 'b'])
+    expect(effectivePermissions('admin', rbac)).toEqual([
+      'members:*',
+      'projects:delete',
+      'projects:read',
+      'projects:write',
+    ])
+    expect(hasRole('owner', 'member', rbac)).toBe(true)
+    expect(hasRole('member', 'admin', rbac)).toBe(false)
+    expect(hasRole('owner', 'member')).toBe(false)
+    expect(hasAnyRole('auditor', ['admin', 'member'], rbac)).toBe(true)
+  })
+
+  it('flattens inherited grants into the permission map', () => {
+    const map = toPermissionMap(rbac)
+    expect(map['projects:read']).toEqual(['owner', 'admin', 'member', 'auditor'])
+    expect(can('owner', 'billing:refunds', map)).toBe(true)
+    expect(can('admin', 'billing:refunds', map)).toBe(false)
+  })
+})
+
+describe('rbac/evaluate', () => {
+  it('explains grants coming from inherited roles', () => {
+    expect(evaluate({ role: 'owner' }, 'projects:read', {}, rbac)).toEqual({
+      allowed: true,
+      reason: 'role_grant',
+      role: 'member',
+      match: 'projects:read',
+      explanation: 'Role "owner" inherits "member", which grants "projects:read"',
+    })
+    expect(evaluate({ role: 'admin' }, 'members:invite', {}, rbac)).toMatchObject({
+      allowed: true,
+      role: 'admin',
+      match: 'members:*',
+    })
+  })
+
+  it('lets deny lists and deny rules win over grants', () => {
+    expect(evaluate({ role: 'auditor' }, 'projects:write', {}, rbac)).toMatchObject({
+      allowed: false,
+      reason: 'role_deny',
+      match: 'projects:write',
+    })
+    // auditor's deny list isn't inherited by anyone
+    expect(evaluate({ role: 'member' }, 'projects:write', {}, rbac).allowed).toBe(true)
+    expect(evaluate({ role: 'owner' }, 'projects:write', { archived: true }, rbac)).toMatchObject({
+      allowed: false,
+      reason: 'rule_deny',
+      match: 'archived-read-only',
+    })
+  })
+
+  it('applies attribute conditions for owners and entitlements', () => {
+    const post = { type: 'project', id: 'p1', ownerId: 'u1' }
+    expect(evaluate({ userId: 'u1', role: 'member' }, 'projects:delete', post, rbac)).toMatchObject(
+      {
+        allowed: true,
+        reason: 'rule_allow',
+        match: 'authors-delete-own',
+      },
+    )
+    expect(evaluate({ userId: 'u2', role: 'member' }, 'projects:delete', post, rbac)).toEqual({
+      allowed: false,
+      reason: 'no_grant',
+      explanation: 'No grant for "projects:delete"; conditions not met for "authors-delete-own"',
+    })
+    // the rule targets members, so roles inheriting member match it too
+    expect(evaluate({ userId: 'u1', role: 'auditor' }, 'projects:delete', post, rbac).allowed).toBe(
+      true,
+    )
+
+    const free = { role: 'member', entitlements: { features: { exports: false } } }
+    const pro = { role: 'member', entitlements: { features: { exports: true } } }
+    expect(evaluate(free, 'reports:export', {}, rbac).allowed).toBe(false)
+    expect(evaluate(pro, 'reports:export', {}, rbac).allowed).toBe(true)
+  })
+
+  it('refuses subjects without a role and knows when a policy is configured', () => {
+    expect(evaluate({ userId: 'u1' }, 'projects:read', {}, rbac).reason).toBe('no_role')
+    expect(isPolicyConfigured(rbac)).toBe(true)
+    expect(isPolicyConfigured({ roles: ['owner', 'member'] })).toBe(false)
+    expect(isPolicyConfigured({ roles: { member: { permissions: [] } } })).toBe(false)
+  })
+})
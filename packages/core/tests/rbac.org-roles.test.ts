@@ -0,0 +1,166 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { memoryAdapter } from '../src/adapters/memory'
+import { createApiKey } from '../src/api-keys'
+import { ERR } from '../src/errors'
+import {
+  createOrgRole,
+  deleteOrgRole,
+  permissionCatalog,
+  resolveOrgRbac,
+  updateOrgRole,
+} from '../src/rbac/org-roles'
+import { effectivePermissions, hasRole } from '../src/rbac/policy'
+import type { RbacConfig } from '../src/types'
+
+const rbac: RbacConfig = {
+  roles: {
+    owner: { permissions: ['billing:manage'], inherits: ['admin'] },
+    admin: { permissions: ['members:invite'], inherits: ['member'] },
+    member: { permissions: ['projects:read'] },
+  },
+  permissions: ['projects:write', 'projects:delete'],
+  customRoles: { enabled: true, maxPerOrg: 2 },
+}
+
+describe('custom org roles', () => {
+  let adapter: ReturnType<typeof memoryAdapter>
+  let orgId: string
+
+  beforeEach(async () => {
+    adapter = memoryAdapter()
+    orgId = (await adapter.createOrganization({ name: 'Acme' })).id
+  })
+
+  it('builds the permission catalog from role grants and declared permissions', () => {
+    expect([...permissionCatalog(rbac)].sort()).toEqual([
+      'billing:manage',
+      'members:invite',
+      'projects:delete',
+      'projects:read',
+      'projects:write',
+    ])
+  })
+
+  it('validates names, permissions and the per-org limit', async () => {
+    const ctx = { adapter, rbac }
+    const role = await createOrgRole(
+      { orgId, name: ' Editor ', permissions: ['projects:*', 'projects:read'] },
+      ctx,
+    )
+    expect(role).toMatchObject({ name: 'editor', permissions: ['projects:*', 'projects:read'] })
+
+    const fails = (input: { name: string; permissions: string[] }) =>
+      createOrgRole({ orgId, ...input }, ctx)
+    await expect(fails({ name: 'editor', permissions: [] })).rejects.toMatchObject({
+      code: ERR.ORG_ROLE_EXISTS,
+    })
+    await expect(fails({ name: 'Owner', permissions: [] })).rejects.toMatchObject({
+      code: ERR.ORG_ROLE_RESERVED,
+    })
+    await expect(fails({ name: 'ops', permissions: ['servers:*'] })).rejects.toMatchObject({
+      code: ERR.ORG_ROLE_INVALID,
+    })
+    await expect(fails({ name: 'has space', permissions: [] })).rejects.toMatchObject({
+      code: ERR.ORG_ROLE_INVALID,
+    })
+    await createOrgRole({ orgId, name: 'viewer', permissions: ['projects:read'] }, ctx)
+    await expect(fails({ name: 'third', permissions: [] })).rejects.toMatchObject({
+      code: ERR.ORG_ROLE_LIMIT,
+    })
+
+    await expect(
+      createOrgRole({ orgId, name: 'x', permissions: [] }, { adapter, rbac: { roles: {} } }),
+    ).rejects.toMatchObject({ code: ERR.ORG_ROLE_INVALID })
+  })
+
+  it('resolves org roles next to system roles, which keep their static definition', async () => {
+    await adapter.createOrgRole({ orgId, name: 'editor', permissions: ['projects:write'] })
+    // A row named like a system role (e.g. created before the role was added to the config)
+    await adapter.createOrgRole({ orgId, name: 'member', permissions: ['billing:manage'] })
+
+    const resolved = await resolveOrgRbac(orgId, { rbac, adapter })
+    expect(effectivePermissions('editor', resolved)).toEqual(['projects:write'])
+    expect(effectivePermissions('member', resolved)).toEqual(['projects:read'])
+    expect(hasRole('owner', 'member', resolved)).toBe(true)
+
+    const other = (await adapter.createOrganization({ name: 'Other' })).id
+    expect(effectivePermissions('editor', await resolveOrgRbac(other, { rbac, adapter }))).toEqual(
+      [],
+    )
+    const disabled = { ...rbac, customRoles: { enabled: false } }
+    expect(await resolveOrgRbac(orgId, { rbac: disabled, adapter })).toBe(disabled)
+  })
+
+  it('updates permissions and refuses to delete roles that are in use', async () => {
+    const role = await createOrgRole(
+      { orgId, name: 'editor', permissions: ['projects:read'] },
+      { adapter, rbac },
+    )
+    const updated = await updateOrgRole(
+      orgId,
+      role.id,
+      { description: 'Edits projects', permissions: ['projects:write'] },
+      { adapter, rbac },
+    )
+    expect(updated).toMatchObject({
+      description: 'Edits projects',
+      permissions: ['projects:write'],
+    })
+    await expect(
+      updateOrgRole(orgId, role.id, { permissions: ['nope'] }, { adapter, rbac }),
+    ).rejects.toMatchObject({ code: ERR.ORG_ROLE_INVALID })
+
+    const user = await adapter.createUser({ email: 'a@test' })
+    const m = await adapter.addMember({ userId: user.id, orgId, role: 'editor' })
+    await expect(deleteOrgRole(orgId, role.id, { adapter })).rejects.toMatchObject({
+      code: ERR.ORG_ROLE_IN_USE,
+    })
+    await adapter.updateMember(m.id, { role: 'member' })
+    await deleteOrgRole(orgId, role.id, { adapter })
+    expect(await adapter.listOrgRoles(orgId)).toEqual([])
+    await expect(deleteOrgRole(orgId, role.id, { adapter })).rejects.toMatchObject({
+      code: ERR.ORG_ROLE_NOT_FOUND,
+    })
+  })
+
+  it('only lets the actor grant permissions they hold', async () => {
+    const user = await adapter.createUser({ email: 'a@test' })
+    const m = await adapter.addMember({ userId: user.id, orgId, role: 'admin' })
+    const ctx = { adapter, rbac, actor: { userId: user.id } }
+    const role = await createOrgRole(
+      { orgId, name: 'helper', permissions: ['members:invite', 'projects:read'] },
+      ctx,
+    )
+
+    for (const permissions of [['billing:manage'], ['*'], ['projects:*']])
+      await expect(createOrgRole({ orgId, name: 'boss', permissions }, ctx)).rejects.toMatchObject({
+        code: ERR.ORG_ROLE_FORBIDDEN,
+      })
+    await expect(
+      updateOrgRole(orgId, role.id, { permissions: ['billing:manage'] }, ctx),
+    ).rejects.toMatchObject({ code: ERR.ORG_ROLE_FORBIDDEN })
+    await updateOrgRole(orgId, role.id, { description: 'Helps out' }, ctx)
+
+    await adapter.updateMember(m.id, { role: 'owner' })
+    await updateOrgRole(orgId, role.id, { permissions: ['billing:manage'] }, ctx)
+    await adapter.updateMember(m.id, { status: 'suspended' })
+    await expect(
+      updateOrgRole(orgId, role.id, { permissions: ['projects:read'] }, ctx),
+    ).rejects.toMatchObject({ code: ERR.ORG_ROLE_FORBIDDEN })
+  })
+
+  it('lets members grant API keys the permissions of their custom role', async () => {
+    await adapter.createOrgRole({ orgId, name: 'editor', permissions: ['projects:write'] })
+    const user = await adapter.createUser({ email: 'a@test' })
+    await adapter.addMember({ userId: user.id, orgId, role: 'editor' })
+    const ctx = { adapter, secret: 'test-secret-test-secret', rbac }
+    const { apiKey } = await createApiKey(
+      { name: 'ci', userId: user.id, orgId, permissions: ['projects:write'] },
+      ctx,
+    )
+    expect(apiKey.permissions).toEqual(['projects:write'])
+    await expect(
+      createApiKey({ name: 'ci', userId: user.id, orgId, permissions: ['members:invite'] }, ctx),
+    ).rejects.toThrow()
+  })
+})
@@ -0,0 +1,105 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { memoryAdapter } from '../src/adapters/memory'
+import { ERR } from '../src/errors'
+import {
+  deleteOrganization,
+  leaveOrganization,
+  purgeDeletedOrganizations,
+  restoreOrganization,
+  transferOrgOwnership,
+  updateOrganization,
+} from '../src/rbac/orgs'
+import type { RbacConfig } from '../src/types'
+
+describe('organization lifecycle', () => {
+  let adapter: ReturnType<typeof memoryAdapter>
+  let orgId: string
+  let owner: string
+  let admin: string
+
+  beforeEach(async () => {
+    adapter = memoryAdapter()
+    orgId = (await adapter.createOrganization({ name: 'Acme' })).id
+    owner = (await adapter.createUser({ email: 'owner@test' })).id
+    admin = (await adapter.createUser({ email: 'admin@test' })).id
+    await adapter.addMember({ userId: owner, orgId, role: 'owner' })
+    await adapter.addMember({ userId: admin, orgId, role: 'admin' })
+  })
+
+  it('renames an org and validates the slug', async () => {
+    const org = await updateOrganization(
+      orgId,
+      { name: ' Acme Inc ', slug: 'acme-inc' },
+      { adapter },
+    )
+    expect(org).toMatchObject({ name: 'Acme Inc', slug: 'acme-inc' })
+    await expect(updateOrganization(orgId, { slug: '-bad-' }, { adapter })).rejects.toMatchObject({
+      code: ERR.ORG_INVALID,
+    })
+    await expect(updateOrganization(orgId, { name: ' ' }, { adapter })).rejects.toMatchObject({
+      code: ERR.ORG_INVALID,
+    })
+    await expect(updateOrganization('nope', { name: 'x' }, { adapter })).rejects.toMatchObject({
+      code: ERR.ORG_NOT_FOUND,
+    })
+  })
+
+  it('deletes immediately with memberships and invites by default', async () => {
+    await adapter.createInvite({
+      orgId,
+      email: 'new@test',
+      role: 'member',
+      tokenHash: 'h',
+      expiresAt: new Date(Date.now() + 60_000),
+    })
+    expect(await deleteOrganization(orgId, { adapter })).toEqual({ purgeAt: null })
+    expect(await adapter.getOrganization(orgId)).toBeNull()
+    expect(await adapter.getMembership(owner, orgId)).toBeNull()
+    expect(await adapter.getInviteByTokenHash(orgId, 'h')).toBeNull()
+  })
+
+  it('hides, restores and purges orgs during the grace period', async () => {
+    const rbac: RbacConfig = { orgDeletion: { gracePeriodDays: 7 } }
+    const now = new Date('2026-01-01T00:00:00Z')
+    const { purgeAt } = await deleteOrganization(orgId, { adapter, rbac, now })
+    expect(purgeAt).toEqual(new Date('2026-01-08T00:00:00Z'))
+    expect(await adapter.getOrganizationsByUser(owner)).toEqual([])
+    await expect(updateOrganization(orgId, { name: 'x' }, { adapter })).rejects.toMatchObject({
+      code: ERR.ORG_NOT_FOUND,
+    })
+
+    await restoreOrganization(orgId, { adapter })
+    expect(await adapter.getOrganizationsByUser(owner)).toHaveLength(1)
+    await expect(restoreOrganization(orgId, { adapter })).rejects.toMatchObject({
+      code: ERR.ORG_NOT_FOUND,
+    })
+
+    await deleteOrganization(orgId, { adapter, rbac, now })
+    const early = new Date('2026-01-05T00:00:00Z')
+    expect(await purgeDeletedOrganizations({ adapter, rbac, now: early })).toBe(0)
+    expect(await purgeDeletedOrganizations({ adapter, rbac, now: purgeAt! })).toBe(1)
+    expect(await adapter.getOrganization(orgId)).toBeNull()
+  })
+
+  it('transfers ownership and keeps the last owner from leaving', async () => {
+    await expect(leaveOrganization(orgId, owner, { adapter })).rejects.toMatchObject({
+      code: ERR.ORG_LAST_OWNER,
+    })
+    await expect(
+      transferOrgOwnership(orgId, { fromUserId: admin, toUserId: owner }, { adapter }),
+    ).rejects.toMatchObject({ code: ERR.ORG_INVALID })
+
+    const { from, to } = await transferOrgOwnership(
+      orgId,
+      { fromUserId: owner, toUserId: admin },
+      { adapter },
+    )
+    expect([from.role, to.role]).toEqual(['admin', 'owner'])
+
+    await leaveOrganization(orgId, owner, { adapter })
+    expect(await adapter.getMembership(owner, orgId)).toBeNull()
+    await expect(leaveOrganization(orgId, owner, { adapter })).rejects.toMatchObject({
+      code: ERR.ORG_MEMBER_NOT_FOUND,
+    })
+  })
+})
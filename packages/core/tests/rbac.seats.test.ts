@@ -0,0 +1,160 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { memoryAdapter } from '../src/adapters/memory'
+import { ERR } from '../src/errors'
+import { assertEntitlement, entitlementAllows, requireEntitlement } from '../src/rbac/entitlements'
+import { acceptInvite, issueInviteToken } from '../src/rbac/invites'
+import { addOrgMember, createOrgInvite, getSeatUsage } from '../src/rbac/seats'
+
+const SECRET = 'test_secret'
+const week = () => new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)
+
+describe('seat limits', () => {
+  let adapter: ReturnType<typeof memoryAdapter>
+  let orgId: string
+  let owner: string
+
+  beforeEach(async () => {
+    adapter = memoryAdapter()
+    orgId = (await adapter.createOrganization({ name: 'Acme' })).id
+    owner = (await adapter.createUser({ email: 'owner@test' })).id
+    await adapter.addMember({ userId: owner, orgId, role: 'owner' })
+    await adapter.setEntitlements(orgId, { plan: 'PRO', seats: 3 })
+  })
+
+  it('counts members and unexpired pending invites', async () => {
+    await createOrgInvite(
+      { orgId, email: 'a@test', role: 'member', tokenHash: 'a', expiresAt: week() },
+      { adapter },
+    )
+    await adapter.createInvite({
+      orgId,
+      email: 'old@test',
+      role: 'member',
+      tokenHash: 'old',
+      expiresAt: new Date(Date.now() - 1000),
+    })
+    expect(await getSeatUsage(orgId, { adapter })).toEqual({
+      limit: 3,
+      members: 1,
+      invites: 1,
+      used: 2,
+    })
+    expect(
+      await getSeatUsage(orgId, { adapter, rbac: { seats: { countPendingInvites: false } } }),
+    ).toMatchObject({ invites: 0, used: 1 })
+  })
+
+  it('refuses members and invites past the limit', async () => {
+    const u2 = (await adapter.createUser({ email: 'u2@test' })).id
+    const u3 = (await adapter.createUser({ email: 'u3@test' })).id
+    await addOrgMember({ userId: u2, orgId, role: 'member' }, { adapter })
+    await createOrgInvite(
+      { orgId, email: 'x@test', role: 'member', tokenHash: 'x', expiresAt: week() },
+      { adapter },
+    )
+    await expect(
+      addOrgMember({ userId: u3, orgId, role: 'member' }, { adapter }),
+    ).rejects.toMatchObject({ code: ERR.SEAT_LIMIT_REACHED })
+    await expect(
+      createOrgInvite(
+        { orgId, email: 'y@test', role: 'member', tokenHash: 'y', expiresAt: week() },
+        { adapter },
+      ),
+    ).rejects.toMatchObject({ code: ERR.SEAT_LIMIT_REACHED })
+
+    // Existing members are returned without taking a seat
+    expect((await addOrgMember({ userId: u2, orgId, role: 'member' }, { adapter })).userId).toBe(u2)
+  })
+
+  it('does not overbook when members are added concurrently', async () => {
+    const users = await Promise.all(
+      ['a', 'b', 'c', 'd'].map((n) => adapter.createUser({ email: `${n}@test` })),
+    )
+    const results = await Promise.allSettled(
+      users.map((u) => addOrgMember({ userId: u.id, orgId, role: 'member' }, { adapter })),
+    )
+    expect(results.filter((r) => r.status === 'fulfilled')).toHaveLength(2)
+    expect((await getSeatUsage(orgId, { adapter })).members).toBe(3)
+  })
+
+  it('lets a counted invite be accepted when the org is full', async () => {
+    await adapter.setEntitlements(orgId, { seats: 2 })
+    const user = await adapter.createUser({ email: 'new@test' })
+    const { token, tokenHash, expiresAt } = await issueInviteToken(
+      'new@test',
+      orgId,
+      'member',
+      SECRET,
+    )
+    await createOrgInvite(
+      { orgId, email: 'new@test', role: 'member', tokenHash, expiresAt },
+      { adapter },
+    )
+
+    const { membership } = await acceptInvite({
+      adapter,
+      orgId,
+      token,
+      userId: user.id,
+      secret: SECRET,
+    })
+    expect(membership.userId).toBe(user.id)
+    expect(await getSeatUsage(orgId, { adapter })).toMatchObject({ members: 2, invites: 0 })
+  })
+
+  it('checks uncounted invites on acceptance', async () => {
+    const rbac = { seats: { countPendingInvites: false } }
+    await adapter.setEntitlements(orgId, { seats: 1 })
+    const user = await adapter.createUser({ email: 'late@test' })
+    const { token, tokenHash, expiresAt } = await issueInviteToken(
+      'late@test',
+      orgId,
+      'member',
+      SECRET,
+    )
+    await createOrgInvite(
+      { orgId, email: 'late@test', role: 'member', tokenHash, expiresAt },
+      { adapter, rbac },
+    )
+    await expect(
+      acceptInvite({ adapter, orgId, token, userId: user.id, secret: SECRET, rbac }),
+    ).rejects.toMatchObject({ code: ERR.SEAT_LIMIT_REACHED })
+    expect((await adapter.getInviteByTokenHash(orgId, tokenHash))?.acceptedAt).toBeNull()
+  })
+})
+
+describe('entitlement requirements', () => {
+  const ent = {
+    plan: 'PRO',
+    features: { sso: true, scim: false },
+    limits: { projects: 3 },
+    validUntil: new Date('2030-01-01T00:00:00Z'),
+  }
+
+  it('checks features, limits and expiry', async () => {
+    expect(await entitlementAllows(ent, 'sso')).toBe(true)
+    expect(await entitlementAllows(ent, { feature: 'scim' })).toBe(false)
+    expect(await entitlementAllows(ent, { limit: 'projects', usage: 2 })).toBe(true)
+    expect(await entitlementAllows(ent, { limit: 'projects', usage: async () => 3 })).toBe(false)
+    expect(await entitlementAllows(ent, { limit: 'seats' })).toBe(false)
+    expect(await entitlementAllows(ent, 'sso', new Date('2031-01-01T00:00:00Z'))).toBe(false)
+    expect(await entitlementAllows(null, 'sso')).toBe(false)
+  })
+
+  it('guards handlers and throws ENTITLEMENT_REQUIRED', async () => {
+    const adapter = memoryAdapter()
+    const orgId = (await adapter.createOrganization({ name: 'Acme' })).id
+    await adapter.setEntitlements(orgId, ent)
+    await expect(assertEntitlement(orgId, 'sso', { adapter })).resolves.toBeUndefined()
+    await expect(assertEntitlement(orgId, 'scim', { adapter })).rejects.toMatchObject({
+      code: ERR.ENTITLEMENT_REQUIRED,
+    })
+
+    const handler = requireEntitlement(async () => 'ok', {
+      entitlement: 'scim',
+      getEntitlements: () => adapter.getEntitlements(orgId),
+      onDenied: async () => 'denied',
+    })
+    expect(await handler({ req: {} })).toBe('denied')
+  })
+})
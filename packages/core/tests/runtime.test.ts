@@ -1,6 +1,7 @@
-import { describe, expect, it, vi } from 'vitest'
+import { afterEach, describe, expect, it, vi } from 'vitest'
 
-import { getCurrentSession } from '../src/runtime/current-session'
+import { memoryAdapter } from '../src/adapters/memory'
+import { getCurrentSession, sessionPolicyFromConfig } from '../src/runtime/current-session'
 import { login } from '../src/runtime/login'
 import { logout } from '../src/runtime/logout'
 import { register } from '../src/runtime/register'
@@ -151,3 +152,80 @@ describe('runtime session helpers', () => {
     expect(adapter.deleteSession).toHaveBeenCalledWith('sess-1')
   })
 })
+
+describe('session policy', () => {
+  const minutes = (n: number) => n * 60_000
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  async function setup() {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    const adapter = memoryAdapter()
+    const user = await adapter.createUser({ email: 'policy@example.com' })
+    const sess = await adapter.createSession({
+      userId: user.id,
+      expiresAt: new Date(Date.now() + minutes(60)),
+    })
+    return { adapter, sess }
+  }
+
+  it('rejects and deletes expired sessions', async () => {
+    const { adapter, sess } = await setup()
+    vi.setSystemTime(Date.now() + minutes(61))
+
+    const out = await getCurrentSession(sess.id, adapter)
+    expect(out).toMatchObject({ session: null, user: null, expired: true })
+    expect(await adapter.getSession(sess.id)).toBeNull()
+  })
+
+  it('renews only inside the threshold', async () => {
+    const { adapter, sess } = await setup()
+    const policy = { ttlMinutes: 60, rolling: true }
+
+    vi.setSystemTime(Date.now() + minutes(10))
+    const early = await getCurrentSession(sess.id, adapter, policy)
+    expect(early.renewed).toBeUndefined()
+    expect(early.session?.expiresAt).toEqual(sess.expiresAt)
+
+    vi.setSystemTime(Date.now() + minutes(30))
+    const late = await getCurrentSession(sess.id, adapter, policy)
+    expect(late.renewed).toBe(true)
+    expect(late.session?.expiresAt.getTime()).toBe(Date.now() + minutes(60))
+    expect(late.session?.lastSeenAt?.getTime()).toBe(Date.now())
+  })
+
+  it('never renews past the absolute lifetime', async () => {
+    const { adapter, sess } = await setup()
+    const policy = { ttlMinutes: 60, rolling: true, absoluteTtlMinutes: 90 }
+
+    vi.setSystemTime(Date.now() + minutes(50))
+    const out = await getCurrentSession(sess.id, adapter, policy)
+    expect(out.session?.expiresAt.getTime()).toBe(sess.createdAt.getTime() + minutes(90))
+
+    vi.setSystemTime(sess.createdAt.getTime() + minutes(91))
+    expect((await getCurrentSession(sess.id, adapter, policy)).expired).toBe(true)
+  })
+
+  it('expires idle sessions and tracks activity', async () => {
+    const { adapter, sess } = await setup()
+    const policy = { idleTimeoutMinutes: 20 }
+
+    vi.setSystemTime(Date.now() + minutes(15))
+    expect((await getCurrentSession(sess.id, adapter, policy)).session).not.toBeNull()
+    vi.setSystemTime(Date.now() + minutes(15))
+    expect((await getCurrentSession(sess.id, adapter, policy)).session).not.toBeNull()
+    vi.setSystemTime(Date.now() + minutes(21))
+    expect((await getCurrentSession(sess.id, adapter, policy)).expired).toBe(true)
+  })
+
+  it('derives the policy from config, rolling by default', () => {
+    expect(sessionPolicyFromConfig({})).toEqual({ rolling: true })
+    expect(
+      sessionPolicyFromConfig({
+        session: { ttlMinutes: 30, rolling: false, idleTimeoutMinutes: 10 },
+      }),
+    ).toEqual({ ttlMinutes: 30, rolling: false, idleTimeoutMinutes: 10 })
+  })
+})
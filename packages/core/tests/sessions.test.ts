@@ -0,0 +1,59 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { memoryAdapter } from '../src/adapters/memory'
+import { listUserSessions, revokeUserSession, revokeUserSessions } from '../src/runtime/sessions'
+import { newSession } from '../src/session/model'
+
+describe('session management', () => {
+  let adapter: ReturnType<typeof memoryAdapter>
+  let userId: string
+
+  beforeEach(async () => {
+    adapter = memoryAdapter()
+    userId = (await adapter.createUser({ email: 'u@example.com' })).id
+  })
+
+  it('lists active sessions with device metadata and hides raw ids', async () => {
+    const current = await adapter.createSession(
+      newSession(userId, 60, { ip: '198.51.100.4', userAgent: 'Firefox' }),
+    )
+    await adapter.createSession(newSession(userId, 60))
+    await adapter.createSession({ userId, expiresAt: new Date(Date.now() - 1000) })
+
+    const sessions = await listUserSessions(userId, current.id, adapter)
+    expect(sessions).toHaveLength(2)
+    expect(sessions.some((s) => s.id === current.id)).toBe(false)
+    expect(sessions.find((s) => s.current)).toMatchObject({
+      ip: '198.51.100.4',
+      userAgent: 'Firefox',
+    })
+  })
+
+  it('revokes a single session by its public id', async () => {
+    const current = await adapter.createSession(newSession(userId))
+    const other = await adapter.createSession(newSession(userId))
+    const target = (await listUserSessions(userId, current.id, adapter)).find((s) => !s.current)!
+
+    expect(await revokeUserSession(userId, target.id, adapter)).toBe(true)
+    expect(await adapter.getSession(other.id)).toBeNull()
+    expect(await adapter.getSession(current.id)).not.toBeNull()
+    expect(await revokeUserSession(userId, target.id, adapter)).toBe(false)
+  })
+
+  it("does not revoke another user's session", async () => {
+    const otherUser = await adapter.createUser({ email: 'v@example.com' })
+    const theirs = await adapter.createSession(newSession(otherUser.id))
+    const [info] = await listUserSessions(otherUser.id, null, adapter)
+
+    expect(await revokeUserSession(userId, info!.id, adapter)).toBe(false)
+    expect(await adapter.getSession(theirs.id)).not.toBeNull()
+  })
+
+  it('signs out everywhere else', async () => {
+    const current = await adapter.createSession(newSession(userId))
+    await adapter.createSession(newSession(userId))
+    await adapter.createSession(newSession(userId))
+
+    expect(await revokeUserSessions(userId, adapter, current.id)).toBe(2)
+    expect((await adapter.listSessionsByUser(userId)).map((s) => s.id)).toEqual([current.id])
+  })
+})
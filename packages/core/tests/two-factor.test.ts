@@ -0,0 +1,236 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { memoryAdapter } from '../src/adapters/memory'
+import { verifyMagicLink } from '../src/magic-link'
+import { login } from '../src/runtime/login'
+import {
+  beginTotpEnrollment,
+  completeSecondFactor,
+  confirmTotpEnrollment,
+  disableTwoFactor,
+  generateTotp,
+  hotp,
+  isTwoFactorEnabled,
+  otpauthUri,
+  regenerateRecoveryCodes,
+  TOTP_PERIOD_SEC,
+  verifySecondFactor,
+  verifyTotp,
+} from '../src/two-factor'
+
+// RFC 6238 appendix B shared secret "12345678901234567890"
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ'
+const authSecret = 'test-auth-secret-0123456789'
+const hasher = { verify: async (hash: string, pw: string) => hash === `hashed:${pw}` }
+
+describe('totp', () => {
+  it('matches RFC 6238 SHA-1 test vectors (6 digits)', async () => {
+    expect(await generateTotp(RFC_SECRET, 59_000)).toBe('287082')
+    expect(await generateTotp(RFC_SECRET, 1111111109_000)).toBe('081804')
+    expect(await generateTotp(RFC_SECRET, 1234567890_000)).toBe('005924')
+    expect(await hotp(RFC_SECRET, 0)).toBe('755224')
+  })
+
+  it('accepts one step of drift and rejects more', async () => {
+    const at = 1234567890_000
+    const prev = await generateTotp(RFC_SECRET, at - TOTP_PERIOD_SEC * 1000)
+    const old = await generateTotp(RFC_SECRET, at - 2 * TOTP_PERIOD_SEC * 1000)
+    expect(await verifyTotp(RFC_SECRET, prev, { at })).not.toBeNull()
+    expect(await verifyTotp(RFC_SECRET, old, { at })).toBeNull()
+  })
+
+  it('rejects steps at or before lastStep', async () => {
+    const at = 1234567890_000
+    const code = await generateTotp(RFC_SECRET, at)
+    const step = await verifyTotp(RFC_SECRET, code, { at })
+    expect(step).not.toBeNull()
+    expect(await verifyTotp(RFC_SECRET, code, { at, lastStep: step! })).toBeNull()
+  })
+
+  it('builds an otpauth uri', () => {
+    const uri = otpauthUri({ secret: RFC_SECRET, issuer: 'Acme', account: 'a@b.co' })
+    expect(uri.startsWith('otpauth://totp/Acme:a%40b.co?')).toBe(true)
+    expect(uri).toContain(`secret=${RFC_SECRET}`)
+  })
+})
+
+describe('two-factor enrollment and login', () => {
+  let adapter: ReturnType<typeof memoryAdapter>
+  let userId: string
+
+  beforeEach(async () => {
+    adapter = memoryAdapter()
+    const user = await adapter.createUser({ email: `u${Math.random()}@example.com` })
+    await adapter.createCredential(user.id, 'hashed:pw')
+    userId = user.id
+  })
+
+  async function enroll() {
+    const user = (await adapter.getUser(userId))!
+    const enrollment = await beginTotpEnrollment(user, { authSecret, issuer: 'Acme' })
+    const code = await generateTotp(enrollment.secret, Date.now() - TOTP_PERIOD_SEC * 1000)
+    const { recoveryCodes } = await confirmTotpEnrollment(
+      { userId, enrollmentToken: enrollment.enrollmentToken, code },
+      { adapter, authSecret },
+    )
+    return { secret: enrollment.secret, recoveryCodes }
+  }
+
+  it('enrolls only after a valid code', async () => {
+    const user = (await adapter.getUser(userId))!
+    const enrollment = await beginTotpEnrollment(user, { authSecret })
+    expect(enrollment.qrPayload).toBe(enrollment.otpauthUri)
+    await expect(
+      confirmTotpEnrollment(
+        { userId, enrollmentToken: enrollment.enrollmentToken, code: '000000' },
+        { adapter, authSecret },
+      ),
+    ).rejects.toMatchObject({ code: 'TWO_FACTOR_INVALID_CODE' })
+    expect(await isTwoFactorEnabled(userId, adapter)).toBe(false)
+
+    const { recoveryCodes } = await enroll()
+    expect(recoveryCodes).toHaveLength(10)
+    expect(await isTwoFactorEnabled(userId, adapter)).toBe(true)
+  })
+
+  it('rejects a replayed TOTP code', async () => {
+    const { secret } = await enroll()
+    const code = await generateTotp(secret)
+    expect(await verifySecondFactor(userId, code, { adapter, authSecret })).toBe('totp')
+    await expect(verifySecondFactor(userId, code, { adapter, authSecret })).rejects.toMatchObject({
+      code: 'TWO_FACTOR_INVALID_CODE',
+    })
+  })
+
+  it('accepts each recovery code once', async () => {
+    const { recoveryCodes } = await enroll()
+    const code = recoveryCodes[0]!.toUpperCase()
+    expect(await verifySecondFactor(userId, code, { adapter, authSecret })).toBe('recovery')
+    await expect(verifySecondFactor(userId, code, { adapter, authSecret })).rejects.toMatchObject({
+      code: 'TWO_FACTOR_INVALID_CODE',
+    })
+  })
+
+  it('holds login in a pending state until the second factor is verified', async () => {
+    const { secret } = await enroll()
+    const user = (await adapter.getUser(userId))!
+
+    const result = await login({ email: user.email!, password: 'pw' }, { adapter, hasher })
+    expect(result.twoFactorRequired).toBe(true)
+    expect(result.session).toBeNull()
+    if (!result.twoFactorRequired) return
+
+    await expect(
+      completeSecondFactor(
+        { pendingToken: result.pendingToken, code: '000000' },
+        { adapter, authSecret },
+      ),
+    ).rejects.toMatchObject({ code: 'TWO_FACTOR_INVALID_CODE' })
+
+    // A wrong code leaves the pending token usable
+    const { session } = await completeSecondFactor(
+      { pendingToken: result.pendingToken, code: await generateTotp(secret) },
+      { adapter, authSecret },
+    )
+    expect(session.userId).toBe(userId)
+
+    // ...but a successful exchange consumes it
+    await expect(
+      completeSecondFactor(
+        { pendingToken: result.pendingToken, code: await generateTotp(secret) },
+        { adapter, authSecret },
+      ),
+    ).rejects.toMatchObject({ code: 'TWO_FACTOR_PENDING_INVALID' })
+  })
+
+  it('counts code attempts in the configured limiter', async () => {
+    const { secret } = await enroll()
+    const user = (await adapter.getUser(userId))!
+    const result = await login({ email: user.email!, password: 'pw' }, { adapter, hasher })
+    if (!result.twoFactorRequired) throw new Error('expected a pending second factor')
+
+    const keys: string[] = []
+    const limiter = {
+      allow: async () => true,
+      consume: async (key: string, window: { limit: number }) => {
+        keys.push(key)
+        return {
+          allowed: false,
+          limit: window.limit,
+          remaining: 0,
+          resetSec: 30,
+          retryAfterSec: 30,
+        }
+      },
+    }
+    await expect(
+      completeSecondFactor(
+        { pendingToken: result.pendingToken, code: await generateTotp(secret) },
+        { adapter, authSecret, rateLimit: { limiter } },
+      ),
+    ).rejects.toMatchObject({ code: 'RATE_LIMITED' })
+    expect(keys).toEqual([`two_factor:account:${userId.toLowerCase()}`])
+  })
+
+  it('throttles code attempts when disabling 2FA or replacing recovery codes', async () => {
+    const { recoveryCodes } = await enroll()
+    const keys: string[] = []
+    const limiter = {
+      allow: async () => true,
+      consume: async (key: string, window: { limit: number }) => {
+        keys.push(key)
+        return {
+          allowed: false,
+          limit: window.limit,
+          remaining: 0,
+          resetSec: 30,
+          retryAfterSec: 30,
+        }
+      },
+    }
+    const ctx = { adapter, authSecret, rateLimit: { limiter } }
+
+    await expect(disableTwoFactor({ userId, code: recoveryCodes[0]! }, ctx)).rejects.toMatchObject({
+      code: 'RATE_LIMITED',
+    })
+    await expect(
+      regenerateRecoveryCodes({ userId, code: recoveryCodes[0]! }, ctx),
+    ).rejects.toMatchObject({ code: 'RATE_LIMITED' })
+    expect(keys).toEqual([
+      `two_factor:account:${userId.toLowerCase()}`,
+      `two_factor:account:${userId.toLowerCase()}`,
+    ])
+    expect(await isTwoFactorEnabled(userId, adapter)).toBe(true)
+  })
+
+  it('holds magic-link sign-in in a pending state as well', async () => {
+    const { secret } = await enroll()
+    const user = (await adapter.getUser(userId))!
+    await adapter.createVerificationToken({
+      identifier: user.email!,
+      token: 'magic-token',
+      expiresAt: new Date(Date.now() + 60_000),
+    })
+
+    const result = await verifyMagicLink({ email: user.email!, token: 'magic-token' }, { adapter })
+    expect(result).toMatchObject({ success: true, twoFactorRequired: true })
+    expect(result.session).toBeUndefined()
+
+    const { session } = await completeSecondFactor(
+      { pendingToken: result.pendingToken!, code: await generateTotp(secret) },
+      { adapter, authSecret },
+    )
+    expect(session.userId).toBe(userId)
+  })
+
+  it('disables 2FA with a valid code', async () => {
+    const { recoveryCodes } = await enroll()
+    await disableTwoFactor({ userId, code: recoveryCodes[1]! }, { adapter, authSecret })
+    expect(await isTwoFactorEnabled(userId, adapter)).toBe(false)
+    expect(await adapter.listAuthKeysByUser(userId)).toHaveLength(0)
+
+    const user = (await adapter.getUser(userId))!
+    const result = await login({ email: user.email!, password: 'pw' }, { adapter, hasher })
+    expect(result.twoFactorRequired).toBeFalsy()
+    expect(result.session?.userId).toBe(userId)
+  })
+})
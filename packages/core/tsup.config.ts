@@ -11,13 +11,22 @@ export default defineConfig({
     "src/runtime/login.ts",
     "src/runtime/logout.ts",
     "src/runtime/current-session.ts",
+    "src/runtime/sessions.ts",
+    "src/runtime/accounts.ts",
+    "src/runtime/account-emails.ts",
+    "src/events/index.ts",
+    "src/api-keys/index.ts",
     "src/guard/csrf.ts",
+    "src/guard/rate-limit.ts",
+    "src/guard/client-ip.ts",
     "src/jwt/index.ts",
     "src/adapter-types.ts",
     "src/plugins/index.ts",
+    "src/rbac/index.ts",
     "src/tokens/verification.ts",
     "src/email/index.ts",
     "src/magic-link/index.ts",
+    "src/two-factor/index.ts",
   ],
   format: ["cjs", "esm"],
   dts: false,
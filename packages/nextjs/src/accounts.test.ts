@@ -0,0 +1,60 @@
+import { memoryAdapter } from '@keyloom/core'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const mocks = vi.hoisted(() => ({ user: null as { id: string } | null }))
+
+vi.mock('./sessions', () => ({
+  resolveSession: async () => ({
+    session: mocks.user ? { id: 'sess' } : null,
+    user: mocks.user,
+  }),
+  sessionMetaFromRequest: () => ({ ip: null, userAgent: null }),
+}))
+
+import { handleAccountsRoute } from './accounts'
+
+const config = { secrets: { authSecret: 'test-secret' } } as any
+const req = (body?: unknown) => ({ json: async () => body ?? {} }) as any
+
+describe('linked accounts route', () => {
+  let adapter: ReturnType<typeof memoryAdapter>
+  let user: { id: string }
+
+  beforeEach(async () => {
+    adapter = memoryAdapter()
+    user = await adapter.createUser({ email: 'u@test' })
+    mocks.user = user
+  })
+
+  const link = (provider: string) =>
+    adapter.linkAccount({
+      userId: user.id,
+      provider,
+      providerAccountId: `${provider}-1`,
+      accessToken: 'secret',
+    } as any)
+
+  it('lists accounts without tokens and unlinks all but the last sign-in method', async () => {
+    const github = await link('github')
+    const google = await link('google')
+
+    const list = await (await handleAccountsRoute('GET', req(), config, adapter)).json()
+    expect(list.accounts.map((a: any) => a.provider).sort()).toEqual(['github', 'google'])
+    expect(list.accounts[0]).not.toHaveProperty('accessToken')
+
+    const ok = await handleAccountsRoute('DELETE', req({ id: github.id }), config, adapter)
+    expect(ok.status).toBe(200)
+
+    const last = await handleAccountsRoute('DELETE', req({ id: google.id }), config, adapter)
+    expect(last.status).toBe(409)
+    expect((await last.json()).error).toBe('last_sign_in_method')
+
+    const missing = await handleAccountsRoute('DELETE', req({ id: github.id }), config, adapter)
+    expect(missing.status).toBe(404)
+  })
+
+  it('requires a session', async () => {
+    mocks.user = null
+    expect((await handleAccountsRoute('GET', req(), config, adapter)).status).toBe(401)
+  })
+})
@@ -0,0 +1,51 @@
+import type { Adapter, EventBus } from '@keyloom/core'
+import { ERR, KeyloomError, listLinkedAccounts, unlinkUserAccount } from '@keyloom/core'
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+import { resolveSession, sessionMetaFromRequest } from './sessions'
+import type { NextKeyloomConfig } from './types'
+
+/**
+ * Linked OAuth accounts of the signed-in user:
+ * - GET: list them (without provider tokens)
+ * - DELETE `{ id }`: unlink one; refused with 409 when it is the user's last sign-in method
+ *
+ * New accounts are linked through `oauth/:provider/start?mode=link`.
+ */
+export async function handleAccountsRoute(
+  method: 'GET' | 'DELETE',
+  req: NextRequest,
+  config: NextKeyloomConfig,
+  adapter: Adapter,
+  events?: EventBus,
+) {
+  const { session, user, setCookie } = await resolveSession(req, config, adapter)
+  if (!session || !user) {
+    const res = NextResponse.json({ error: 'unauthorized' }, { status: 401 })
+    if (setCookie) res.headers.append('Set-Cookie', setCookie)
+    return res
+  }
+
+  if (method === 'GET') {
+    const res = NextResponse.json({ accounts: await listLinkedAccounts(user.id, adapter) })
+    if (setCookie) res.headers.append('Set-Cookie', setCookie)
+    return res
+  }
+
+  const body = await req.json().catch(() => ({}))
+  if (typeof body.id !== 'string')
+    return NextResponse.json({ error: 'invalid_request' }, { status: 400 })
+  try {
+    const unlinked = await unlinkUserAccount(user.id, body.id, {
+      adapter,
+      events,
+      meta: sessionMetaFromRequest(req, config),
+    })
+    if (!unlinked) return NextResponse.json({ error: 'account_not_found' }, { status: 404 })
+    return NextResponse.json({ ok: true })
+  } catch (e) {
+    if (e instanceof KeyloomError && e.code === ERR.LAST_SIGN_IN_METHOD)
+      return NextResponse.json({ error: 'last_sign_in_method' }, { status: 409 })
+    throw e
+  }
+}
@@ -0,0 +1,149 @@
+import { memoryAdapter } from '@keyloom/core'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const mocks = vi.hoisted(() => ({
+  user: null as { id: string } | null,
+  headers: new Headers(),
+}))
+
+vi.mock('./sessions', () => ({
+  resolveSession: async () => ({ session: null, user: mocks.user }),
+}))
+vi.mock('next/headers', () => ({ headers: () => mocks.headers }))
+
+import { handleApiKeysRoute } from './api-keys'
+import { withRole } from './rbac'
+
+const config = {
+  secrets: { authSecret: 'test-secret' },
+  rbac: {
+    roles: {
+      owner: { permissions: ['billing:manage', 'projects:write'] },
+      admin: { permissions: ['projects:write'] },
+      member: { permissions: [] },
+    },
+  },
+} as any
+
+const req = (body?: unknown) => ({ json: async () => body ?? {} }) as any
+
+describe('api key routes', () => {
+  let adapter: any
+  let admin: { id: string }
+  let member: { id: string }
+  let orgId: string
+
+  beforeEach(async () => {
+    adapter = memoryAdapter()
+    admin = await adapter.createUser({ email: 'admin@test' })
+    member = await adapter.createUser({ email: 'member@test' })
+    orgId = (await adapter.createOrganization({ name: 'Acme' })).id
+    await adapter.addMember({ userId: admin.id, orgId, role: 'admin' })
+    await adapter.addMember({ userId: member.id, orgId, role: 'member' })
+    mocks.user = admin
+    mocks.headers = new Headers()
+  })
+
+  it('creates, lists and revokes personal keys', async () => {
+    const created = await handleApiKeysRoute(
+      'POST',
+      {},
+      req({ name: 'CLI', scopes: ['projects:write'], expiresInDays: 30 }),
+      config,
+      adapter,
+    )
+    expect(created.status).toBe(201)
+    const body = await created.json()
+    expect(body.key).toMatch(/^klk_/)
+    expect(body).toMatchObject({ name: 'CLI', scopes: ['projects:write'], isActive: true })
+    expect(body).not.toHaveProperty('keyHash')
+
+    const list = await (await handleApiKeysRoute('GET', {}, req(), config, adapter)).json()
+    expect(list.apiKeys.map((k: any) => k.id)).toEqual([body.id])
+    expect(list.apiKeys[0]).not.toHaveProperty('key')
+
+    const del = await handleApiKeysRoute('DELETE', { id: body.id }, req(), config, adapter)
+    expect(del.status).toBe(200)
+    const again = await handleApiKeysRoute('DELETE', { id: body.id }, req(), config, adapter)
+    expect(again.status).toBe(404)
+  })
+
+  it('rejects unknown permissions and anonymous callers', async () => {
+    const bad = await handleApiKeysRoute(
+      'POST',
+      {},
+      req({ name: 'x', permissions: ['nope'] }),
+      config,
+      adapter,
+    )
+    expect(bad.status).toBe(400)
+    expect((await bad.json()).error).toBe('api_key_invalid_permission')
+
+    mocks.user = null
+    expect((await handleApiKeysRoute('GET', {}, req(), config, adapter)).status).toBe(401)
+  })
+
+  it('limits org key management to owners and admins', async () => {
+    const res = await handleApiKeysRoute(
+      'POST',
+      { orgId },
+      req({ name: 'Deploy', role: 'admin' }),
+      config,
+      adapter,
+    )
+    expect(res.status).toBe(201)
+
+    mocks.user = member
+    expect((await handleApiKeysRoute('GET', { orgId }, req(), config, adapter)).status).toBe(403)
+  })
+
+  it('authorizes withRole calls with a bearer org key', async () => {
+    const { key } = await (
+      await handleApiKeysRoute(
+        'POST',
+        { orgId },
+        req({ name: 'Deploy', role: 'admin' }),
+        config,
+        adapter,
+      )
+    ).json()
+    mocks.user = null
+    mocks.headers = new Headers({ authorization: `Bearer ${key}` })
+
+    const run = (opts: { requiredRoles?: string[]; requiredPermission?: string }) =>
+      withRole(async () => new Response('ok'), {
+        ...opts,
+        getUser: async () => null,
+        adapter,
+        config,
+      })
+
+    expect((await run({ requiredRoles: ['admin'] })).status).toBe(200)
+    expect((await run({ requiredPermission: 'projects:write' })).status).toBe(200)
+    expect((await run({ requiredRoles: ['owner'] })).status).toBe(403)
+
+    mocks.headers = new Headers({ authorization: `Bearer ${key}x` })
+    expect((await run({ requiredRoles: ['admin'] })).status).toBe(401)
+  })
+
+  it("denies a suspended member's personal keys", async () => {
+    mocks.user = member
+    const { key } = await (
+      await handleApiKeysRoute('POST', {}, req({ name: 'CLI' }), config, adapter)
+    ).json()
+    mocks.user = null
+    mocks.headers = new Headers({ authorization: `Bearer ${key}` })
+    const run = () =>
+      withRole(async () => new Response('ok'), {
+        getUser: async () => null,
+        adapter,
+        orgId,
+        config,
+      }).then((res) => res.status)
+
+    expect(await run()).toBe(200)
+    const membership = await adapter.getMembership(member.id, orgId)
+    await adapter.updateMember(membership.id, { status: 'suspended' })
+    expect(await run()).toBe(403)
+  })
+})
@@ -0,0 +1,111 @@
+import {
+  type Adapter,
+  type ApiKeyAdapter,
+  apiKeyJson,
+  createApiKey,
+  KeyloomError,
+  listApiKeys,
+  revokeApiKey,
+} from '@keyloom/core'
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+import { withRole } from './rbac'
+import { resolveSession } from './sessions'
+import type { NextKeyloomConfig } from './types'
+
+/** Roles allowed to manage an organization's API keys */
+export const API_KEY_ADMIN_ROLES = ['owner', 'admin']
+
+function expiryFromBody(body: { expiresAt?: unknown; expiresInDays?: unknown }) {
+  if (typeof body.expiresInDays === 'number' && body.expiresInDays > 0)
+    return new Date(Date.now() + body.expiresInDays * 24 * 60 * 60_000)
+  if (typeof body.expiresAt !== 'string') return null
+  const d = new Date(body.expiresAt)
+  if (Number.isNaN(d.getTime())) throw new KeyloomError('INVALID_REQUEST', 'Invalid expiry')
+  return d
+}
+
+async function manageKeys(
+  method: 'GET' | 'POST' | 'DELETE',
+  owner: { userId: string } | { orgId: string },
+  userId: string,
+  id: string | undefined,
+  req: NextRequest,
+  config: NextKeyloomConfig,
+  adapter: Adapter & ApiKeyAdapter,
+) {
+  if (method === 'GET') {
+    const keys = await listApiKeys(owner, adapter)
+    return NextResponse.json({ apiKeys: keys.map(apiKeyJson) })
+  }
+
+  if (method === 'DELETE') {
+    if (!id) return NextResponse.json({ error: 'method_not_allowed' }, { status: 405 })
+    if (!(await revokeApiKey(owner, id, adapter)))
+      return NextResponse.json({ error: 'api_key_not_found' }, { status: 404 })
+    return NextResponse.json({ ok: true })
+  }
+
+  if (id) return NextResponse.json({ error: 'method_not_allowed' }, { status: 405 })
+  const secret = config.secrets?.authSecret
+  if (!secret) throw new Error('auth_secret_required')
+  const body = await req.json().catch(() => ({}))
+  try {
+    const permissions = body.permissions ?? body.scopes
+    const { key, apiKey } = await createApiKey(
+      {
+        name: String(body.name ?? ''),
+        userId,
+        orgId: 'orgId' in owner ? owner.orgId : null,
+        ...(typeof body.role === 'string' ? { role: body.role } : {}),
+        ...(Array.isArray(permissions) ? { permissions: permissions.map(String) } : {}),
+        expiresAt: expiryFromBody(body),
+      },
+      { adapter, secret, rbac: config.rbac ?? null },
+    )
+    return NextResponse.json({ ...apiKeyJson(apiKey), key }, { status: 201 })
+  } catch (e) {
+    if (e instanceof KeyloomError)
+      return NextResponse.json({ error: e.code.toLowerCase(), message: e.message }, { status: 400 })
+    throw e
+  }
+}
+
+/**
+ * API key management for the signed-in user:
+ * - `.../api-keys`: GET lists personal keys, POST `{ name, permissions|scopes?, role?, expiresAt?|expiresInDays? }`
+ *   creates one and returns the plaintext `key` once
+ * - `.../api-keys/:id`: DELETE revokes it
+ * Under `.../orgs/:orgId/` the same routes manage org keys and require an owner/admin membership.
+ * Keys themselves are never accepted here, so a leaked key can't mint new ones.
+ */
+export async function handleApiKeysRoute(
+  method: 'GET' | 'POST' | 'DELETE',
+  route: { orgId?: string; id?: string },
+  req: NextRequest,
+  config: NextKeyloomConfig,
+  adapter: Adapter & ApiKeyAdapter,
+) {
+  const { user, setCookie } = await resolveSession(req, config, adapter)
+  let res: Response
+  if (route.orgId) {
+    const orgId = route.orgId
+    res = await withRole(
+      () => manageKeys(method, { orgId }, user?.id as string, route.id, req, config, adapter),
+      {
+        requiredRoles: API_KEY_ADMIN_ROLES,
+        getUser: async () => user,
+        adapter,
+        orgId,
+        config,
+        apiKeys: false,
+      },
+    )
+  } else if (!user) {
+    res = NextResponse.json({ error: 'unauthorized' }, { status: 401 })
+  } else {
+    res = await manageKeys(method, { userId: user.id }, user.id, route.id, req, config, adapter)
+  }
+  if (setCookie) res.headers.append('Set-Cookie', setCookie)
+  return res
+}
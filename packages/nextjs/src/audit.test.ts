@@ -0,0 +1,72 @@
+import { memoryAdapter } from '@keyloom/core'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const mocks = vi.hoisted(() => ({ user: null as { id: string } | null }))
+
+vi.mock('./sessions', () => ({
+  resolveSession: async () => ({ session: null, user: mocks.user }),
+}))
+vi.mock('next/headers', () => ({ headers: () => new Headers() }))
+
+import { handleAuditRoute } from './audit'
+
+const req = (qs = '') => ({ url: `http://localhost/api/auth/orgs/o1/audit${qs}` }) as any
+
+describe('org audit route', () => {
+  let adapter: any
+  let orgId: string
+
+  beforeEach(async () => {
+    adapter = memoryAdapter()
+    const admin = await adapter.createUser({ email: 'admin@test' })
+    const member = await adapter.createUser({ email: 'member@test' })
+    const org = await adapter.createOrganization({ name: 'Acme' })
+    await adapter.addMember({ userId: admin.id, orgId: org.id, role: 'admin' })
+    await adapter.addMember({ userId: member.id, orgId: org.id, role: 'member' })
+    for (let i = 0; i < 3; i++) {
+      await adapter.appendAudit({
+        type: 'session.created',
+        orgId: org.id,
+        at: new Date(Date.UTC(2026, 0, 1, 0, 0, i)),
+      })
+    }
+    await adapter.appendAudit({ type: 'session.created', orgId: 'other', at: new Date() })
+    mocks.user = admin
+    orgId = org.id
+  })
+
+  const call = (qs?: string) => handleAuditRoute(orgId, req(qs), {} as any, adapter)
+
+  it('returns a page of entries to org admins', async () => {
+    const res = await call('?limit=2')
+    expect(res.status).toBe(200)
+    const body = await res.json()
+    expect(body.items).toHaveLength(2)
+    expect(body.nextCursor).toBeTruthy()
+
+    const next = await (await call(`?limit=2&cursor=${body.nextCursor}`)).json()
+    expect(next.items).toHaveLength(1)
+    expect(next.nextCursor).toBeNull()
+  })
+
+  it('rejects non-admin members and anonymous callers', async () => {
+    mocks.user = await adapter.getUserByEmail('member@test')
+    expect((await call()).status).toBe(403)
+    mocks.user = null
+    expect((await call()).status).toBe(401)
+  })
+
+  it('streams CSV exports', async () => {
+    const res = await call('?format=csv')
+    expect(res.headers.get('content-type')).toContain('text/csv')
+    expect(res.headers.get('content-disposition')).toContain('attachment')
+    const lines = (await res.text()).trimEnd().split('\n')
+    expect(lines).toHaveLength(4)
+  })
+
+  it('returns 400 for a malformed cursor', async () => {
+    const res = await call('?cursor=bogus')
+    expect(res.status).toBe(400)
+    expect(await res.json()).toEqual({ error: 'invalid_cursor' })
+  })
+})
@@ -0,0 +1,112 @@
+import {
+  type Adapter,
+  AUDIT_EXPORT_CONTENT_TYPES,
+  type AuditExportFormat,
+  type AuditQuery,
+  ERR,
+  formatAuditExport,
+  iterateAudit,
+  KeyloomError,
+} from '@keyloom/core'
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+import { withRole } from './rbac'
+import { resolveSession } from './sessions'
+import type { NextKeyloomConfig } from './types'
+
+/** Roles allowed to read an organization's audit log */
+export const AUDIT_READER_ROLES = ['owner', 'admin']
+
+function parseDate(value: string | null) {
+  if (!value) return undefined
+  const d = new Date(value)
+  if (Number.isNaN(d.getTime())) throw new KeyloomError('INVALID_REQUEST', 'Invalid date')
+  return d
+}
+
+function auditQueryFromUrl(url: URL, orgId: string): AuditQuery {
+  const p = url.searchParams
+  const query: AuditQuery = { orgId }
+  const userId = p.get('userId')
+  if (userId) query.userId = userId
+  const type = p.get('type')?.split(',').filter(Boolean)
+  if (type?.length) query.type = type
+  const since = parseDate(p.get('since'))
+  if (since) query.since = since
+  const until = parseDate(p.get('until'))
+  if (until) query.until = until
+  const cursor = p.get('cursor')
+  if (cursor) query.cursor = cursor
+  const limit = Number(p.get('limit'))
+  if (Number.isFinite(limit) && limit > 0) query.limit = limit
+  return query
+}
+
+function exportStream(lines: AsyncGenerator<string>) {
+  const encoder = new TextEncoder()
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await lines.next()
+      if (done) controller.close()
+      else controller.enqueue(encoder.encode(value))
+    },
+    async cancel() {
+      await lines.return(undefined)
+    },
+  })
+}
+
+/**
+ * GET `.../orgs/:orgId/audit` for org owners/admins.
+ * Query: `userId`, `type` (comma-separated), `since`, `until` (ISO dates), `cursor`, `limit`.
+ * Returns `{ items, nextCursor }`, or with `format=csv|ndjson` streams the full matching log.
+ */
+export async function handleAuditRoute(
+  orgId: string,
+  req: NextRequest,
+  config: NextKeyloomConfig,
+  adapter: Adapter,
+) {
+  const { user, setCookie } = await resolveSession(req, config, adapter)
+  const res = await withRole(
+    async () => {
+      const url = new URL(req.url)
+      const format = url.searchParams.get('format')
+      try {
+        const query = auditQueryFromUrl(url, orgId)
+        if (format === 'csv' || format === 'ndjson') {
+          const { cursor: _cursor, limit: _limit, ...filters } = query
+          const name = `audit-${orgId}-${new Date().toISOString().slice(0, 10)}.${format}`
+          return new Response(
+            exportStream(formatAuditExport(iterateAudit(adapter, filters), format)),
+            {
+              headers: {
+                'Content-Type': AUDIT_EXPORT_CONTENT_TYPES[format as AuditExportFormat],
+                'Content-Disposition': `attachment; filename="${name}"`,
+                'Cache-Control': 'no-store',
+              },
+            },
+          )
+        }
+        if (format) return NextResponse.json({ error: 'unsupported_format' }, { status: 400 })
+        return NextResponse.json(await adapter.listAudit(query))
+      } catch (e) {
+        if (
+          e instanceof KeyloomError &&
+          (e.code === ERR.INVALID_CURSOR || e.code === 'INVALID_REQUEST')
+        )
+          return NextResponse.json({ error: e.code.toLowerCase() }, { status: 400 })
+        throw e
+      }
+    },
+    {
+      requiredRoles: AUDIT_READER_ROLES,
+      getUser: async () => user,
+      adapter,
+      orgId,
+      config,
+    },
+  )
+  if (setCookie) res.headers.append('Set-Cookie', setCookie)
+  return res
+}
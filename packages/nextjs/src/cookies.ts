@@ -1,4 +1,8 @@
-import { serializeSessionCookie } from '@keyloom/core'
+import {
+  OAUTH_LINK_COOKIE_NAME,
+  serializeSessionCookie,
+  TWO_FACTOR_COOKIE_NAME,
+} from '@keyloom/core'
 import { parseCookieValue as parseEdgeCookieValue } from './cookies-edge'
 
 export const parseCookieValue = parseEdgeCookieValue
@@ -24,3 +28,35 @@ export function setSessionCookieHeader(
 
   return serializeSessionCookie(sessionId, cookieOptions)
 }
+
+function pendingCookieHeader(
+  name: string,
+  token: string,
+  opts?: { sameSite?: 'lax' | 'strict' | 'none'; maxAgeSec?: number },
+) {
+  const sameSite = opts?.sameSite ?? 'lax'
+  const parts = [
+    `${name}=${encodeURIComponent(token)}`,
+    'Path=/',
+    `SameSite=${sameSite.charAt(0).toUpperCase() + sameSite.slice(1)}`,
+    'Secure',
+    'HttpOnly',
+  ]
+  if (opts?.maxAgeSec !== undefined) parts.push(`Max-Age=${Math.floor(opts.maxAgeSec)}`)
+  return parts.join('; ')
+}
+
+export function setPendingSecondFactorCookieHeader(
+  token: string,
+  opts?: { sameSite?: 'lax' | 'strict' | 'none'; maxAgeSec?: number },
+) {
+  return pendingCookieHeader(TWO_FACTOR_COOKIE_NAME, token, opts)
+}
+
+/** Holds a pending OAuth account link in the browser that started it. */
+export function setPendingLinkCookieHeader(
+  token: string,
+  opts?: { sameSite?: 'lax' | 'strict' | 'none'; maxAgeSec?: number },
+) {
+  return pendingCookieHeader(OAUTH_LINK_COOKIE_NAME, token, opts)
+}
@@ -1,3 +1,4 @@
+import { inMemoryRateLimiter } from '@keyloom/core/guard/rate-limit'
 import { afterEach, describe, expect, it, vi } from 'vitest'
 import { createNextHandler } from './handler'
 
@@ -26,7 +27,8 @@ vi.mock('@keyloom/core', async (importOriginal) => {
     completeOAuth: mocks.completeOAuth,
   }
 })
-vi.mock('@keyloom/core/runtime/current-session', () => ({
+vi.mock('@keyloom/core/runtime/current-session', async (importOriginal) => ({
+  ...(await importOriginal<any>()),
   getCurrentSession: mocks.getCurrentSession,
 }))
 vi.mock('@keyloom/core/runtime/register', () => ({ register: mocks.doRegister }))
@@ -60,7 +62,11 @@ describe('nextjs handler', () => {
       headers: new Headers({ cookie: '__keyloom_session=sess' }),
     } as any)
     expect(await res.json()).toEqual({ session: { id: 'sess' } })
-    expect(mocks.getCurrentSession).toHaveBeenCalledWith('sess', config.adapter)
+    expect(mocks.getCurrentSession).toHaveBeenCalledWith(
+      'sess',
+      config.adapter,
+      expect.objectContaining({ rolling: true }),
+    )
   })
 
   it('creates csrf token and sets cookie', async () => {
@@ -140,8 +146,16 @@ describe('nextjs handler', () => {
     const registerRes = await POST(registerReq)
     expect(await registerRes.json()).toEqual({ userId: 'user_1', requiresVerification: false })
     expect(mocks.doRegister).toHaveBeenCalledWith(
-      { email: 'user@example.com', password: 'pw', requireEmailVerify: false },
-      { adapter: config.adapter, hasher: expect.any(Object) },
+      expect.objectContaining({
+        email: 'user@example.com',
+        password: 'pw',
+        requireEmailVerify: false,
+      }),
+      expect.objectContaining({
+        adapter: config.adapter,
+        hasher: expect.any(Object),
+        events: expect.any(Object),
+      }),
     )
 
     const loginReq = {
@@ -168,6 +182,138 @@ describe('nextjs handler', () => {
     } as any
     const logoutRes = await POST(logoutReq)
     expect(await logoutRes.json()).toEqual({ ok: true })
-    expect(mocks.doLogout).toHaveBeenCalledWith('session123', config.adapter)
+    expect(mocks.doLogout).toHaveBeenCalledWith('session123', config.adapter, expect.any(Object))
+  })
+
+  it('throttles per client IP and answers 429 with retry headers', async () => {
+    const { POST } = createNextHandler({
+      ...config,
+      rateLimit: {
+        limiter: inMemoryRateLimiter(),
+        trustedProxies: 1,
+        routes: { login: { ip: { limit: 1, windowSec: 60 } } },
+      },
+    })
+    const login = (forwardedFor: string) =>
+      POST({
+        url: 'https://app.test/api/auth/login',
+        headers: new Headers({
+          cookie: '__keyloom_csrf=csrf-token',
+          'x-keyloom-csrf': 'csrf-token',
+          'x-forwarded-for': forwardedFor,
+        }),
+        json: async () => ({ email: 'user@example.com', password: 'pw' }),
+      } as any)
+
+    expect((await login('198.51.100.1')).status).toBe(200)
+    const limited = await login('198.51.100.1')
+    expect(limited.status).toBe(429)
+    expect(limited.headers.get('retry-after')).toBe('60')
+    expect(limited.headers.get('ratelimit-remaining')).toBe('0')
+    expect((await login('198.51.100.2')).status).toBe(200)
+  })
+
+  it('keeps per-account budgets but skips per-IP ones when no proxies are trusted', async () => {
+    const { POST } = createNextHandler({
+      ...config,
+      rateLimit: {
+        limiter: inMemoryRateLimiter(),
+        routes: {
+          login: { ip: { limit: 1, windowSec: 60 }, account: { limit: 1, windowSec: 60 } },
+        },
+      },
+    })
+    const login = (email: string, forwardedFor: string) => {
+      const req = {
+        url: 'https://app.test/api/auth/login',
+        headers: new Headers({
+          cookie: '__keyloom_csrf=csrf-token',
+          'x-keyloom-csrf': 'csrf-token',
+          'x-forwarded-for': forwardedFor,
+        }),
+        json: async () => ({ email, password: 'pw' }),
+        clone: () => req,
+      }
+      return POST(req as any)
+    }
+
+    expect((await login('a@example.com', '198.51.100.1')).status).toBe(200)
+    // Untrusted X-Forwarded-For is ignored, so the IP is unknown and no shared per-IP bucket applies
+    expect((await login('b@example.com', '198.51.100.1')).status).toBe(200)
+    expect((await login('a@example.com', '198.51.100.2')).status).toBe(429)
+  })
+
+  it('rate-limits plugin routes', async () => {
+    const handler = vi.fn(async () => new Response('ok', { status: 200 }))
+    const { POST } = createNextHandler({
+      ...config,
+      plugins: [
+        {
+          method: 'POST',
+          kind: 'passkey_begin_auth',
+          path: /\/passkey\/authenticate\/begin$/,
+          handler,
+        },
+      ],
+      rateLimit: {
+        limiter: inMemoryRateLimiter(),
+        trustedProxies: 1,
+        routes: { login: { ip: { limit: 1, windowSec: 60 } } },
+      },
+    })
+    const begin = () =>
+      POST({
+        method: 'POST',
+        url: 'https://app.test/api/auth/passkey/authenticate/begin',
+        headers: new Headers({ 'x-forwarded-for': '203.0.113.7' }),
+      } as any)
+
+    expect((await begin()).status).toBe(200)
+    expect((await begin()).status).toBe(429)
+    expect(handler).toHaveBeenCalledTimes(1)
+  })
+
+  it('refuses to send account emails without a configured baseUrl', async () => {
+    const { baseUrl: _, ...noBaseUrl } = config
+    const { POST } = createNextHandler({ ...noBaseUrl, requireEmailVerify: true })
+    const post = (path: string, body: unknown) =>
+      POST({
+        url: `https://attacker.test${path}`,
+        headers: new Headers({
+          cookie: '__keyloom_csrf=csrf-token',
+          'x-keyloom-csrf': 'csrf-token',
+        }),
+        json: async () => body,
+      } as any)
+
+    const reset = await post('/api/auth/password/request', { email: 'user@example.com' })
+    expect(reset.status).toBe(500)
+    expect(await reset.json()).toEqual({ error: 'base_url_not_configured' })
+    const register = await post('/api/auth/register', { email: 'user@example.com', password: 'pw' })
+    expect(register.status).toBe(500)
+    expect(mocks.doRegister).not.toHaveBeenCalled()
+  })
+
+  it('dispatches PUT, PATCH and DELETE to plugin routes without CSRF', async () => {
+    mocks.validateDoubleSubmit.mockReturnValue(false)
+    const handler = vi.fn(async (req: any) => new Response(req.method, { status: 200 }))
+    const plugins = (['PUT', 'PATCH', 'DELETE'] as const).map((method) => ({
+      method,
+      kind: 'scim_user',
+      path: /\/scim\/v2\/Users\/([^/]+)$/,
+      handler,
+    }))
+    const { PUT, PATCH, DELETE } = createNextHandler({ ...config, plugins })
+    const req = (method: string, path = '/api/auth/scim/v2/Users/u1') =>
+      ({ method, url: `https://app.test${path}`, headers: new Headers() }) as any
+
+    expect(await (await PUT(req('PUT'))).text()).toBe('PUT')
+    expect(await (await PATCH(req('PATCH'))).text()).toBe('PATCH')
+    expect(await (await DELETE(req('DELETE'))).text()).toBe('DELETE')
+    expect(handler).toHaveBeenCalledWith(expect.anything(), {
+      config: expect.anything(),
+      adapter: config.adapter,
+    })
+    expect((await PATCH(req('PATCH', '/api/auth/session'))).status).toBe(404)
   })
 })
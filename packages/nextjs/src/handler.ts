@@ -1,13 +1,29 @@
-import { argon2idHasher, completeOAuth, startOAuth } from "@keyloom/core";
-import { issueVerificationToken } from "@keyloom/core/tokens/verification";
+import {
+  argon2idHasher,
+  completeOAuth,
+  createEventBus,
+  ERR,
+  eventMeta,
+  KeyloomError,
+  startOAuth,
+} from "@keyloom/core";
 import { issueCsrfToken, validateDoubleSubmit } from "@keyloom/core/guard/csrf";
-import { rateLimit } from "@keyloom/core/guard/rate-limit";
 import { getCurrentSession } from "@keyloom/core/runtime/current-session";
 import { login as doLogin } from "@keyloom/core/runtime/login";
 import { logout as doLogout } from "@keyloom/core/runtime/logout";
 import { register as doRegister } from "@keyloom/core/runtime/register";
 import { requestMagicLink, verifyMagicLink } from "@keyloom/core/magic-link";
-import { createEmailServiceFromEnv } from "@keyloom/core/email";
+import type { NextRoute } from "@keyloom/core/plugins";
+import {
+  createEmailServiceFromConfig,
+  createEmailServiceFromEnv,
+} from "@keyloom/core/email";
+import {
+  completePasswordReset,
+  requestPasswordReset,
+  sendVerificationEmail,
+  verifyEmailIdentifier,
+} from "@keyloom/core/runtime/account-emails";
 // Test the new combined runtime import
 import {
   register as testRegister,
@@ -16,8 +32,35 @@ import {
 } from "@keyloom/core/runtime";
 import type { NextRequest } from "next/server";
 import { NextResponse } from "next/server";
-import { parseCookieValue, setSessionCookieHeader } from "./cookies";
+import {
+  parseCookieValue,
+  setPendingSecondFactorCookieHeader,
+  setSessionCookieHeader,
+} from "./cookies";
+import { handleAccountsRoute } from "./accounts";
+import { handleApiKeysRoute } from "./api-keys";
+import { handleAuditRoute } from "./audit";
+import {
+  handleOAuthLinkConfirmRoute,
+  oauthCallbackResponse,
+  oauthLinkErrorResponse,
+} from "./oauth-link";
+import {
+  handleOrgDomainsRoute,
+  orgSsoRequiredResponse,
+  seatLimitResponse,
+  ssoResponse,
+} from "./org-domains";
+import { handleOrgRolesRoute } from "./org-roles";
+import { handleInviteAcceptRoute, handleOrgMembersRoute, handleOrgRoute } from "./orgs";
+import { enforceRateLimit } from "./rate-limit";
 import { matchApiPath } from "./routing";
+import {
+  handleSessionsRoute,
+  resolveSession,
+  sessionMetaFromRequest,
+} from "./sessions";
+import { handleTwoFactorRoute, secondFactorRedirect } from "./two-factor";
 import { createJwtConfig, getJwtSession } from "./jwt-server";
 import type { NextKeyloomConfig } from "./types";
 
@@ -28,6 +71,24 @@ function getAdapter(config: NextKeyloomConfig) {
   return _adapter;
 }
 
+// A before hook vetoed the action (e.g. sign-up from a blocked domain)
+function hookRejectedResponse(e: unknown) {
+  if (e instanceof KeyloomError && e.code === ERR.HOOK_REJECTED)
+    return NextResponse.json(
+      { error: "hook_rejected", message: e.message },
+      { status: 403 }
+    );
+  throw e;
+}
+
+// Reset and verification links need `config.baseUrl`; the request's Host header can be forged
+function baseUrlMissingResponse() {
+  return NextResponse.json(
+    { error: "base_url_not_configured" },
+    { status: 500 }
+  );
+}
+
 function resolveProvider(config: NextKeyloomConfig, id: string) {
   const p = (config as any).providers?.find((x: any) => x.id === id);
   if (!p) throw new Error(`provider_not_found:${id}`);
@@ -53,21 +114,31 @@ function resolveJwtEnv(
 }
 
 export function createNextHandler(config: NextKeyloomConfig) {
+  // Plugin routes run before the built-in routes (and their CSRF checks), under the same rate limits
+  const handlePluginRoute = async (
+    method: NextRoute["method"],
+    req: NextRequest,
+    adapter: ReturnType<typeof getAdapter>
+  ) => {
+    if (!Array.isArray(config.plugins)) return null;
+    const { pathname } = new URL(req.url);
+    const route = config.plugins.find(
+      (r) => r.method === method && r.path.test(pathname)
+    );
+    if (!route) return null;
+    const limited = await enforceRateLimit(route.kind, method, req, config);
+    if (limited) return limited;
+    return (await route.handler(req as any, { config, adapter } as any)) as any;
+  };
+
   const GET = async (req: NextRequest) => {
     const url = new URL(req.url);
     const match = matchApiPath(url.pathname);
     const adapter = getAdapter(config);
+    const events = createEventBus({ hooks: config.hooks, adapter });
 
-    // Plugin route handling (GET)
-    if (Array.isArray(config.plugins)) {
-      const route = config.plugins.find(
-        (r) => r.method === "GET" && r.path.test(url.pathname)
-      );
-      if (route) {
-        const out = await route.handler(req as any, { config, adapter } as any);
-        return out as any;
-      }
-    }
+    const pluginResponse = await handlePluginRoute("GET", req, adapter);
+    if (pluginResponse) return pluginResponse;
 
     if (!match)
       return NextResponse.json({ error: "not_found" }, { status: 404 });
@@ -81,21 +152,65 @@ export function createNextHandler(config: NextKeyloomConfig) {
       if (hookResp) return hookResp as any;
     }
 
+    const limited = await enforceRateLimit(match.kind, "GET", req, config);
+    if (limited) {
+      // Magic links are opened from email, so send the browser to the error page instead
+      if (match.kind === "magic_link_verify") {
+        const errorUrl = new URL("/auth/error", url.origin);
+        errorUrl.searchParams.set("error", "rate_limited");
+        const res = NextResponse.redirect(errorUrl);
+        limited.headers.forEach((v, k) => {
+          if (k !== "content-type") res.headers.set(k, v);
+        });
+        return res;
+      }
+      return limited;
+    }
+
     if (match.kind === "session") {
       // Support both DB and JWT strategy
       const envLike = resolveJwtEnv(config);
       if (envLike) {
         try {
-          const jwtCfg = createJwtConfig(envLike);
+          const jwtCfg = createJwtConfig(envLike, config.jwt?.keystore);
           const out = await getJwtSession(jwtCfg, req);
           return NextResponse.json({ session: out.session, user: out.user });
         } catch {
           return NextResponse.json({ session: null, user: null });
         }
       }
-      const sid = parseCookieValue(req.headers.get("cookie"));
-      const out = await getCurrentSession(sid, adapter);
-      return NextResponse.json(out);
+      const { setCookie, ...out } = await resolveSession(req, config, adapter);
+      const res = NextResponse.json(out);
+      if (setCookie) res.headers.append("Set-Cookie", setCookie);
+      return res;
+    }
+
+    if (match.kind === "sessions") {
+      return handleSessionsRoute("GET", req, config, adapter);
+    }
+
+    if (match.kind === "accounts") {
+      return handleAccountsRoute("GET", req, config, adapter);
+    }
+
+    if (match.kind === "org_audit") {
+      return handleAuditRoute(match.orgId, req, config, adapter);
+    }
+
+    if (match.kind === "oauth_link_confirm") {
+      return handleOAuthLinkConfirmRoute("GET", req, config, adapter, events);
+    }
+
+    if (match.kind === "api_keys") {
+      return handleApiKeysRoute("GET", match, req, config, adapter);
+    }
+
+    if (match.kind === "org_domains") {
+      return handleOrgDomainsRoute("GET", match, req, config, adapter);
+    }
+
+    if (match.kind === "org_roles") {
+      return handleOrgRolesRoute("GET", match, req, config, adapter);
     }
 
     if (match.kind === "csrf") {
@@ -126,6 +241,20 @@ export function createNextHandler(config: NextKeyloomConfig) {
       };
       if (typeof callbackUrl === "string") startOpts.callbackUrl = callbackUrl;
 
+      // Link mode: attach the provider to the signed-in user; the callback must return to this session
+      if (url.searchParams.get("mode") === "link") {
+        const { user, setCookie } = await resolveSession(req, config, adapter);
+        if (!user) {
+          const res = NextResponse.json(
+            { error: "unauthorized" },
+            { status: 401 }
+          );
+          if (setCookie) res.headers.append("Set-Cookie", setCookie);
+          return res;
+        }
+        startOpts.linkUserId = user.id;
+      }
+
       const { authorizeUrl, stateCookie } = await startOAuth(startOpts);
 
       const res = NextResponse.redirect(authorizeUrl);
@@ -170,41 +299,28 @@ export function createNextHandler(config: NextKeyloomConfig) {
         secrets: { authSecret },
       };
       if (current?.user?.id) completeOpts.linkToUserId = current.user.id;
-
-      const { session, redirectTo } = await completeOAuth(completeOpts);
-
-      const absoluteRedirect = new URL(
-        redirectTo,
-        (config as any).baseUrl
-      ).toString();
-      const res = NextResponse.redirect(absoluteRedirect);
-      res.headers.append(
-        "Set-Cookie",
-        setSessionCookieHeader(session.id, {
-          sameSite: (config as any).cookie?.sameSite ?? "lax",
-        })
-      );
-      res.headers.append(
-        "Set-Cookie",
-        `__keyloom_oauth=; Path=/; Max-Age=0; SameSite=Lax; HttpOnly; Secure`
-      );
-      return res;
+      completeOpts.sessionMeta = sessionMetaFromRequest(req, config);
+      completeOpts.events = events;
+      if (config.accountLinking?.policy)
+        completeOpts.accountLinking = config.accountLinking.policy;
+      if (config.orgDomains) completeOpts.orgDomains = config.orgDomains;
+
+      let completed: Awaited<ReturnType<typeof completeOAuth>>;
+      try {
+        completed = await completeOAuth(completeOpts);
+      } catch (e) {
+        return (
+          oauthLinkErrorResponse(e, req, config) ??
+          orgSsoRequiredResponse(e, req, config, { redirect: true }) ??
+          seatLimitResponse(e) ??
+          hookRejectedResponse(e)
+        );
+      }
+      return oauthCallbackResponse(completed, req, config);
     }
 
     // Magic link verification via GET (when user clicks email link)
     if (match.kind === "magic_link_verify") {
-      // Rate limiting for GET magic link verification
-      const ip =
-        req.headers.get("x-forwarded-for") ||
-        req.headers.get("x-real-ip") ||
-        "unknown";
-      const rlKey = `magic_verify_get:${ip}`;
-      if (!rateLimit(rlKey, { capacity: 10, refillPerSec: 0.5 })) {
-        const errorUrl = new URL("/auth/error", url.origin);
-        errorUrl.searchParams.set("error", "rate_limited");
-        return NextResponse.redirect(errorUrl);
-      }
-
       const email = url.searchParams.get("email");
       const token = url.searchParams.get("token");
       const redirectTo = url.searchParams.get("redirectTo");
@@ -213,7 +329,18 @@ export function createNextHandler(config: NextKeyloomConfig) {
         return NextResponse.json({ error: "invalid_request" }, { status: 400 });
       }
 
-      const result = await verifyMagicLink({ email, token }, { adapter });
+      const result = await verifyMagicLink(
+        { email, token, sessionMeta: sessionMetaFromRequest(req, config) },
+        {
+          adapter,
+          events,
+          ...(config.orgDomains ? { orgDomains: config.orgDomains } : {}),
+        }
+      );
+
+      if (result.ssoUrl) {
+        return ssoResponse(result.ssoUrl, req, config, { redirect: true });
+      }
 
       if (!result.success) {
         // Redirect to error page or return error
@@ -227,6 +354,14 @@ export function createNextHandler(config: NextKeyloomConfig) {
 
       // Set session cookie and redirect
       const finalRedirectTo = redirectTo || "/";
+      if (result.twoFactorRequired && result.pendingToken && result.expiresAt) {
+        return secondFactorRedirect(
+          { pendingToken: result.pendingToken, expiresAt: result.expiresAt },
+          finalRedirectTo,
+          url.origin,
+          config
+        );
+      }
       const redirectUrl = new URL(finalRedirectTo, url.origin);
       const res = NextResponse.redirect(redirectUrl);
 
@@ -249,17 +384,10 @@ export function createNextHandler(config: NextKeyloomConfig) {
     const url = new URL(req.url);
     const match = matchApiPath(url.pathname);
     const adapter = getAdapter(config);
+    const events = createEventBus({ hooks: config.hooks, adapter });
 
-    // Plugin route handling (POST)
-    if (Array.isArray(config.plugins)) {
-      const route = config.plugins.find(
-        (r) => r.method === "POST" && r.path.test(url.pathname)
-      );
-      if (route) {
-        const out = await route.handler(req as any, { config, adapter } as any);
-        return out as any;
-      }
-    }
+    const pluginResponse = await handlePluginRoute("POST", req, adapter);
+    if (pluginResponse) return pluginResponse;
 
     if (!match)
       return NextResponse.json({ error: "not_found" }, { status: 404 });
@@ -273,6 +401,9 @@ export function createNextHandler(config: NextKeyloomConfig) {
       if (hookResp) return hookResp as any;
     }
 
+    const limited = await enforceRateLimit(match.kind, "POST", req, config);
+    if (limited) return limited;
+
     // Apple and some IdPs can POST back the callback (response_mode=form_post)
     if (match.kind === "oauth_callback") {
       const provider = resolveProvider(config, match.provider);
@@ -312,25 +443,24 @@ export function createNextHandler(config: NextKeyloomConfig) {
         secrets: { authSecret },
       };
       if (current?.user?.id) completeOpts.linkToUserId = current.user.id;
-
-      const { session, redirectTo } = await completeOAuth(completeOpts);
-
-      const absoluteRedirect = new URL(
-        redirectTo,
-        (config as any).baseUrl
-      ).toString();
-      const res = NextResponse.redirect(absoluteRedirect);
-      res.headers.append(
-        "Set-Cookie",
-        setSessionCookieHeader(session.id, {
-          sameSite: (config as any).cookie?.sameSite ?? "lax",
-        })
-      );
-      res.headers.append(
-        "Set-Cookie",
-        `__keyloom_oauth=; Path=/; Max-Age=0; SameSite=Lax; HttpOnly; Secure`
-      );
-      return res;
+      completeOpts.sessionMeta = sessionMetaFromRequest(req, config);
+      completeOpts.events = events;
+      if (config.accountLinking?.policy)
+        completeOpts.accountLinking = config.accountLinking.policy;
+      if (config.orgDomains) completeOpts.orgDomains = config.orgDomains;
+
+      let completed: Awaited<ReturnType<typeof completeOAuth>>;
+      try {
+        completed = await completeOAuth(completeOpts);
+      } catch (e) {
+        return (
+          oauthLinkErrorResponse(e, req, config) ??
+          orgSsoRequiredResponse(e, req, config, { redirect: true }) ??
+          seatLimitResponse(e) ??
+          hookRejectedResponse(e)
+        );
+      }
+      return oauthCallbackResponse(completed, req, config);
     }
 
     // CSRF double-submit for all other POSTs
@@ -343,12 +473,47 @@ export function createNextHandler(config: NextKeyloomConfig) {
       return NextResponse.json({ error: "csrf" }, { status: 403 });
     }
 
+    if (match.kind === "oauth_link_confirm") {
+      return handleOAuthLinkConfirmRoute("POST", req, config, adapter, events);
+    }
+
     if (match.kind === "register") {
+      if (config.requireEmailVerify && !config.baseUrl) return baseUrlMissingResponse();
       const { email, password } = await req.json();
-      const out = await doRegister(
-        { email, password, requireEmailVerify: false },
-        { adapter, hasher: argon2idHasher }
-      );
+      let out: Awaited<ReturnType<typeof doRegister>>;
+      try {
+        out = await doRegister(
+          {
+            email,
+            password,
+            requireEmailVerify: config.requireEmailVerify ?? false,
+            meta: sessionMetaFromRequest(req, config),
+          },
+          {
+            adapter,
+            hasher: argon2idHasher,
+            events,
+            ...(config.orgDomains ? { orgDomains: config.orgDomains } : {}),
+          }
+        );
+      } catch (e) {
+        return (
+          orgSsoRequiredResponse(e, req, config) ??
+          seatLimitResponse(e) ??
+          hookRejectedResponse(e)
+        );
+      }
+      if (out.requiresVerification) {
+        await sendVerificationEmail(out.user, {
+          adapter,
+          emailService: createEmailServiceFromConfig(config.email),
+          baseUrl: config.baseUrl as string,
+          appName: config.appName || "Keyloom App",
+          ...(config.email?.verifyEmailPath
+            ? { path: config.email.verifyEmailPath }
+            : {}),
+        });
+      }
       return NextResponse.json({
         userId: out.user.id,
         requiresVerification: out.requiresVerification,
@@ -357,14 +522,36 @@ export function createNextHandler(config: NextKeyloomConfig) {
 
     if (match.kind === "login") {
       const { email, password } = await req.json();
-      const loginInput: any = { email, password };
+      const loginInput: any = {
+        email,
+        password,
+        meta: sessionMetaFromRequest(req, config),
+      };
       if (typeof (config as any).session?.ttlMinutes === "number") {
         loginInput.ttlMinutes = (config as any).session.ttlMinutes;
       }
-      const { session } = await doLogin(loginInput, {
-        adapter,
-        hasher: argon2idHasher,
-      });
+      let result: Awaited<ReturnType<typeof doLogin>>;
+      try {
+        result = await doLogin(loginInput, {
+          adapter,
+          hasher: argon2idHasher,
+          events,
+        });
+      } catch (e) {
+        return hookRejectedResponse(e);
+      }
+      if (result.twoFactorRequired) {
+        const res = NextResponse.json({ twoFactorRequired: true });
+        res.headers.append(
+          "Set-Cookie",
+          setPendingSecondFactorCookieHeader(result.pendingToken, {
+            sameSite: config.cookie?.sameSite ?? "lax",
+            maxAgeSec: (result.expiresAt.getTime() - Date.now()) / 1000,
+          })
+        );
+        return res;
+      }
+      const { session } = result;
       const res = NextResponse.json({ sessionId: session.id });
       res.headers.append(
         "Set-Cookie",
@@ -375,9 +562,41 @@ export function createNextHandler(config: NextKeyloomConfig) {
       return res;
     }
 
+    if (
+      match.kind === "two_factor_enable" ||
+      match.kind === "two_factor_disable" ||
+      match.kind === "two_factor_verify"
+    ) {
+      return handleTwoFactorRoute(match.kind, req, config, adapter);
+    }
+
+    if (match.kind === "api_keys") {
+      return handleApiKeysRoute("POST", match, req, config, adapter);
+    }
+
+    if (match.kind === "org_domains") {
+      return handleOrgDomainsRoute("POST", match, req, config, adapter);
+    }
+
+    if (match.kind === "org_roles") {
+      return handleOrgRolesRoute("POST", match, req, config, adapter);
+    }
+
+    if (match.kind === "org" && match.action) {
+      return handleOrgRoute(match.action, match.orgId, req, config, adapter, events);
+    }
+
+    if (match.kind === "org_members") {
+      return handleOrgMembersRoute(match.orgId, req, config, adapter, events);
+    }
+
+    if (match.kind === "org_invite_accept") {
+      return handleInviteAcceptRoute(match.orgId, req, config, adapter, events);
+    }
+
     if (match.kind === "logout") {
       const sid = parseCookieValue(req.headers.get("cookie"));
-      if (sid) await doLogout(sid, adapter);
+      if (sid) await doLogout(sid, adapter, events);
       const res = NextResponse.json({ ok: true });
       res.headers.append(
         "Set-Cookie",
@@ -394,13 +613,20 @@ export function createNextHandler(config: NextKeyloomConfig) {
       const { email } = await req.json();
       if (!email)
         return NextResponse.json({ error: "invalid_email" }, { status: 400 });
-      const vt = issueVerificationToken(String(email), 15);
-      await (adapter as any).createVerificationToken({
-        identifier: vt.identifier,
-        token: (vt as any).token,
-        expiresAt: vt.expiresAt,
-      });
-      // In real apps, send email with vt.token
+      if (!config.baseUrl) return baseUrlMissingResponse();
+      // Always answer ok so the endpoint can't be used to probe for accounts
+      await requestPasswordReset(
+        { email: String(email) },
+        {
+          adapter,
+          emailService: createEmailServiceFromConfig(config.email),
+          baseUrl: config.baseUrl,
+          appName: config.appName || "Keyloom App",
+          ...(config.email?.passwordResetPath
+            ? { path: config.email.passwordResetPath }
+            : {}),
+        }
+      );
       return NextResponse.json({ ok: true });
     }
 
@@ -409,20 +635,23 @@ export function createNextHandler(config: NextKeyloomConfig) {
       const { identifier, token, newPassword } = await req.json();
       if (!identifier || !token || !newPassword)
         return NextResponse.json({ error: "invalid_request" }, { status: 400 });
-      const used = await (adapter as any).useVerificationToken(
-        String(identifier),
-        String(token)
-      );
-      if (!used)
+      // Revokes the user's other sessions; the requester's own one (if any) is kept
+      try {
+        await completePasswordReset(
+          {
+            email: String(identifier),
+            token: String(token),
+            newPassword: String(newPassword),
+            keepSessionId: parseCookieValue(req.headers.get("cookie")),
+            meta: sessionMetaFromRequest(req, config),
+          },
+          { adapter, hasher: argon2idHasher, events }
+        );
+      } catch (e) {
+        if (!(e instanceof KeyloomError)) throw e;
+        if (e.code === ERR.USER_NOT_FOUND)
+          return NextResponse.json({ error: "user_not_found" }, { status: 404 });
         return NextResponse.json({ error: "invalid_token" }, { status: 400 });
-      const user = await (adapter as any).getUserByEmail(String(identifier));
-      if (!user)
-        return NextResponse.json({ error: "user_not_found" }, { status: 404 });
-      const hash = await argon2idHasher.hash(String(newPassword));
-      if (typeof (adapter as any).updateCredential === "function") {
-        await (adapter as any).updateCredential(user.id, hash);
-      } else if (typeof (adapter as any).createCredential === "function") {
-        await (adapter as any).createCredential(user.id, hash);
       }
       return NextResponse.json({ ok: true });
     }
@@ -433,37 +662,35 @@ export function createNextHandler(config: NextKeyloomConfig) {
       if (!identifier || !token)
         return NextResponse.json({ error: "invalid_request" }, { status: 400 });
       const used = await (adapter as any).useVerificationToken(
-        String(identifier),
+        verifyEmailIdentifier(String(identifier)),
         String(token)
       );
       if (!used)
         return NextResponse.json({ error: "invalid_token" }, { status: 400 });
       const user = await (adapter as any).getUserByEmail(String(identifier));
-      if (user)
+      if (user) {
         await (adapter as any).updateUser(user.id, {
           emailVerified: new Date(),
         });
+        await events.emit(
+          "email.verified",
+          { email: String(identifier) },
+          eventMeta(user.id, sessionMetaFromRequest(req, config))
+        );
+      }
       return NextResponse.json({ ok: true });
     }
 
     // Magic link request
     if (match.kind === "magic_link_request") {
-      // Rate limiting for magic link requests (more restrictive than login)
-      const ip =
-        req.headers.get("x-forwarded-for") ||
-        req.headers.get("x-real-ip") ||
-        "unknown";
-      const rlKey = `magic_link:${ip}`;
-      if (!rateLimit(rlKey, { capacity: 3, refillPerSec: 0.1 })) {
-        return NextResponse.json({ error: "rate_limited" }, { status: 429 });
-      }
-
       const { email, redirectTo, ttlMinutes } = await req.json();
       if (!email)
         return NextResponse.json({ error: "invalid_email" }, { status: 400 });
 
-      // Get email service from environment or config
-      const emailService = createEmailServiceFromEnv();
+      // Get email service from config or environment
+      const emailService =
+        createEmailServiceFromConfig(config.email) ??
+        createEmailServiceFromEnv();
       if (!emailService) {
         return NextResponse.json(
           { error: "email_service_not_configured" },
@@ -491,25 +718,28 @@ export function createNextHandler(config: NextKeyloomConfig) {
 
     // Magic link verification
     if (match.kind === "magic_link_verify") {
-      // Rate limiting for magic link verification attempts
-      const ip =
-        req.headers.get("x-forwarded-for") ||
-        req.headers.get("x-real-ip") ||
-        "unknown";
-      const rlKey = `magic_verify:${ip}`;
-      if (!rateLimit(rlKey, { capacity: 10, refillPerSec: 0.5 })) {
-        return NextResponse.json({ error: "rate_limited" }, { status: 429 });
-      }
-
       const { email, token, sessionTtlMinutes } = await req.json();
       if (!email || !token)
         return NextResponse.json({ error: "invalid_request" }, { status: 400 });
 
       const result = await verifyMagicLink(
-        { email: String(email), token: String(token), sessionTtlMinutes },
-        { adapter }
+        {
+          email: String(email),
+          token: String(token),
+          sessionTtlMinutes,
+          sessionMeta: sessionMetaFromRequest(req, config),
+        },
+        {
+          adapter,
+          events,
+          ...(config.orgDomains ? { orgDomains: config.orgDomains } : {}),
+        }
       );
 
+      if (result.ssoUrl) {
+        return ssoResponse(result.ssoUrl, req, config);
+      }
+
       if (!result.success) {
         return NextResponse.json(
           { error: result.error || "magic_link_verification_failed" },
@@ -517,6 +747,18 @@ export function createNextHandler(config: NextKeyloomConfig) {
         );
       }
 
+      if (result.twoFactorRequired && result.pendingToken && result.expiresAt) {
+        const res = NextResponse.json({ ok: true, twoFactorRequired: true });
+        res.headers.append(
+          "Set-Cookie",
+          setPendingSecondFactorCookieHeader(result.pendingToken, {
+            sameSite: config.cookie?.sameSite ?? "lax",
+            maxAgeSec: (result.expiresAt.getTime() - Date.now()) / 1000,
+          })
+        );
+        return res;
+      }
+
       // Set session cookie
       const res = NextResponse.json({
         ok: true,
@@ -539,5 +781,113 @@ export function createNextHandler(config: NextKeyloomConfig) {
     return NextResponse.json({ error: "method_not_allowed" }, { status: 405 });
   };
 
-  return { GET, POST };
+  const DELETE = async (req: NextRequest) => {
+    const url = new URL(req.url);
+    const match = matchApiPath(url.pathname);
+    const adapter = getAdapter(config);
+    const events = createEventBus({ hooks: config.hooks, adapter });
+
+    const pluginResponse = await handlePluginRoute("DELETE", req, adapter);
+    if (pluginResponse) return pluginResponse;
+
+    if (!match)
+      return NextResponse.json({ error: "not_found" }, { status: 404 });
+
+    // Optional global hook (Node runtime)
+    if (config.hooks?.onRequest) {
+      const hookResp = await config.hooks.onRequest({
+        kind: (match.kind as any) ?? "unknown",
+        req,
+      });
+      if (hookResp) return hookResp as any;
+    }
+
+    const limited = await enforceRateLimit(match.kind, "DELETE", req, config);
+    if (limited) return limited;
+
+    const cookieToken = parseCookieValue(
+      req.headers.get("cookie"),
+      "__keyloom_csrf"
+    );
+    const headerToken = req.headers.get("x-keyloom-csrf");
+    if (!validateDoubleSubmit({ cookieToken, headerToken })) {
+      return NextResponse.json({ error: "csrf" }, { status: 403 });
+    }
+
+    if (match.kind === "sessions") {
+      return handleSessionsRoute("DELETE", req, config, adapter);
+    }
+
+    if (match.kind === "accounts") {
+      return handleAccountsRoute("DELETE", req, config, adapter, events);
+    }
+
+    if (match.kind === "api_keys") {
+      return handleApiKeysRoute("DELETE", match, req, config, adapter);
+    }
+
+    if (match.kind === "org_domains") {
+      return handleOrgDomainsRoute("DELETE", match, req, config, adapter);
+    }
+
+    if (match.kind === "org_roles") {
+      return handleOrgRolesRoute("DELETE", match, req, config, adapter);
+    }
+
+    if (match.kind === "org" && !match.action) {
+      return handleOrgRoute("delete", match.orgId, req, config, adapter, events);
+    }
+
+    return NextResponse.json({ error: "method_not_allowed" }, { status: 405 });
+  };
+
+  const PATCH = async (req: NextRequest) => {
+    const url = new URL(req.url);
+    const match = matchApiPath(url.pathname);
+    const adapter = getAdapter(config);
+
+    const pluginResponse = await handlePluginRoute("PATCH", req, adapter);
+    if (pluginResponse) return pluginResponse;
+
+    if (match?.kind !== "org_roles" && match?.kind !== "org")
+      return NextResponse.json({ error: "not_found" }, { status: 404 });
+
+    // Optional global hook (Node runtime)
+    if (config.hooks?.onRequest) {
+      const hookResp = await config.hooks.onRequest({ kind: match.kind, req });
+      if (hookResp) return hookResp as any;
+    }
+
+    const limited = await enforceRateLimit(match.kind, "PATCH", req, config);
+    if (limited) return limited;
+
+    const cookieToken = parseCookieValue(
+      req.headers.get("cookie"),
+      "__keyloom_csrf"
+    );
+    const headerToken = req.headers.get("x-keyloom-csrf");
+    if (!validateDoubleSubmit({ cookieToken, headerToken })) {
+      return NextResponse.json({ error: "csrf" }, { status: 403 });
+    }
+
+    if (match.kind === "org") {
+      if (match.action)
+        return NextResponse.json({ error: "method_not_allowed" }, { status: 405 });
+      return handleOrgRoute("update", match.orgId, req, config, adapter);
+    }
+    return handleOrgRolesRoute("PATCH", match, req, config, adapter);
+  };
+
+  // Only plugins (e.g. SCIM provisioning) answer PUT
+  const pluginOnly = (method: "PUT") => async (req: NextRequest) =>
+    (await handlePluginRoute(method, req, getAdapter(config))) ??
+    NextResponse.json({ error: "not_found" }, { status: 404 });
+
+  return {
+    GET,
+    POST,
+    DELETE,
+    PUT: pluginOnly("PUT"),
+    PATCH,
+  };
 }
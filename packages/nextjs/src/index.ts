@@ -21,12 +21,12 @@ export {
 } from './jwt-server'
 
 export { createAuthMiddleware } from './middleware'
-export { getActiveOrgId, setActiveOrgCookie, withRole } from './rbac'
-export { getSession, getUser, guard } from './server-helpers'
+export { getActiveOrgId, requireEntitlement, setActiveOrgCookie, withRole } from './rbac'
+export { getProviderAccessToken, getSession, getUser, guard } from './server-helpers'
 
 // Pages Router bridge (optional):
 export function createPagesApiHandler(config: any) {
-  const { GET, POST } = createNextHandler(config)
+  const { GET, POST, DELETE } = createNextHandler(config)
   return async (req: any, res: any) => {
     const method = req.method?.toUpperCase()
     const url = `http://local${req.url}`
@@ -37,7 +37,12 @@ export function createPagesApiHandler(config: any) {
       headers: new Map(Object.entries(req.headers ?? {})),
       json: async () => req.body,
     } as any
-    const resp = method === 'GET' ? await GET(fakeReq) : await POST(fakeReq)
+    const resp =
+      method === 'GET'
+        ? await GET(fakeReq)
+        : method === 'DELETE'
+          ? await DELETE(fakeReq)
+          : await POST(fakeReq)
     res.statusCode = resp.status ?? 200
     for (const [k, v] of resp.headers) res.setHeader(k, v as any)
     const body = (await resp.text?.()) ?? JSON.stringify(await resp.json())
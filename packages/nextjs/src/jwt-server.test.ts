@@ -1,12 +1,16 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import {
+  createDefaultRotationPolicy,
   createKeystore,
+  ensureStoredKeystore,
   exportPublicJwks,
   importPrivateKey,
+  memoryKeystoreStore,
+  rotateStoredKeystore,
   signJwtWithKey,
   newAccessClaims,
 } from "@keyloom/core/jwt";
-import { verifyJwtToken } from "./jwt-server";
+import { clearServerJwksCache, verifyJwtToken } from "./jwt-server";
 
 // Simple helper to mock fetch
 function mockFetchOnce(data: any, ok = true) {
@@ -69,4 +73,28 @@ describe("nextjs/jwt-server verifyJwtToken", () => {
     expect(result.valid).toBe(false);
     expect(result.error).toMatch(/Invalid issuer|issuer/i);
   });
+
+  it("verifies with a shared keystore store and picks up rotated keys", async () => {
+    clearServerJwksCache();
+    (globalThis as any).fetch = vi.fn();
+    const store = memoryKeystoreStore();
+    await ensureStoredKeystore(store, "EdDSA");
+    const config = { jwksUrl, expectedIssuer: issuer, keystore: store };
+
+    const signWithActive = async () => {
+      const { active } = (await store.load())!;
+      const key = await importPrivateKey(active.privateJwk, "EdDSA");
+      const claims = newAccessClaims({ iss: issuer, sub: "user-3", ttlSec: 600 });
+      return signJwtWithKey(claims, key, active.kid, "EdDSA");
+    };
+
+    expect((await verifyJwtToken(await signWithActive(), config)).valid).toBe(true);
+
+    // Rotated by the issuing server after we cached the keystore
+    await rotateStoredKeystore(store, "EdDSA", createDefaultRotationPolicy(), { force: true });
+    vi.useFakeTimers({ now: Date.now() + 10_000 });
+    const result = await verifyJwtToken(await signWithActive(), config);
+    expect(result.valid).toBe(true);
+    expect(globalThis.fetch).not.toHaveBeenCalled();
+  });
 });
@@ -1,7 +1,10 @@
 import {
   getPublicKeysForVerification,
+  isJwtError,
+  JWT_ERRORS,
   type JwtClaims,
   type Keystore,
+  type KeystoreStore,
   verifyJwtFull,
 } from '@keyloom/core/jwt'
 import { cookies, headers } from 'next/headers'
@@ -16,7 +19,10 @@ export const REFRESH_COOKIE = '__keyloom_refresh'
  */
 class ServerJwksCache {
   private cache = new Map<string, { keystore: Keystore; expiresAt: number }>()
+  private stored = new Map<KeystoreStore, { keystore: Keystore; loadedAt: number }>()
   private readonly cacheTTL = 5 * 60 * 1000 // 5 minutes
+  private readonly storedTTL = 60 * 1000 // 1 minute
+  private readonly minReloadMs = 5 * 1000
 
   async getKeystore(jwksUrl: string): Promise<Keystore | null> {
     const now = Date.now()
@@ -67,8 +73,32 @@ class ServerJwksCache {
     }
   }
 
+  /**
+   * Keystore from a shared store; `reload` re-reads it (at most every few seconds) when a token
+   * names a key we don't have yet
+   */
+  async getStoredKeystore(store: KeystoreStore, reload = false): Promise<Keystore | null> {
+    const now = Date.now()
+    const cached = this.stored.get(store)
+    const maxAge = reload ? this.minReloadMs : this.storedTTL
+    if (cached && now - cached.loadedAt < maxAge) {
+      return cached.keystore
+    }
+
+    try {
+      const keystore = await store.load()
+      if (!keystore) return cached?.keystore || null
+      this.stored.set(store, { keystore, loadedAt: now })
+      return keystore
+    } catch (error) {
+      console.error('Failed to load keystore:', error)
+      return cached?.keystore || null
+    }
+  }
+
   clear(): void {
     this.cache.clear()
+    this.stored.clear()
   }
 }
 
@@ -79,6 +109,8 @@ const serverJwksCache = new ServerJwksCache()
  */
 export interface JwtConfig {
   jwksUrl: string
+  /** Verify with keys from the store the issuing server uses, instead of fetching `jwksUrl` */
+  keystore?: KeystoreStore
   expectedIssuer?: string
   expectedAudience?: string | string[]
   clockSkewSec?: number
@@ -140,12 +172,14 @@ export async function verifyJwtToken(
   error?: string
 }> {
   try {
-    const keystore = await serverJwksCache.getKeystore(config.jwksUrl)
+    const store = config.keystore
+    const keystore = store
+      ? await serverJwksCache.getStoredKeystore(store)
+      : await serverJwksCache.getKeystore(config.jwksUrl)
     if (!keystore) {
-      return { valid: false, error: 'Failed to fetch JWKS' }
+      return { valid: false, error: store ? 'Failed to load keystore' : 'Failed to fetch JWKS' }
     }
 
-    const publicKeys = getPublicKeysForVerification(keystore)
     const verifyOpts: {
       expectedIssuer?: string
       expectedAudience?: string | string[]
@@ -154,7 +188,16 @@ export async function verifyJwtToken(
     if (config.expectedIssuer !== undefined) verifyOpts.expectedIssuer = config.expectedIssuer
     if (config.expectedAudience !== undefined) verifyOpts.expectedAudience = config.expectedAudience
     if (config.clockSkewSec !== undefined) verifyOpts.clockSkewSec = config.clockSkewSec
-    const { claims } = await verifyJwtFull(token, publicKeys, verifyOpts)
+    let claims: JwtClaims
+    try {
+      ;({ claims } = await verifyJwtFull(token, getPublicKeysForVerification(keystore), verifyOpts))
+    } catch (error) {
+      // A key rotated in by the server since we last read the store
+      if (!store || !isJwtError(error) || error.code !== JWT_ERRORS.JWT_UNKNOWN_KID) throw error
+      const latest = await serverJwksCache.getStoredKeystore(store, true)
+      if (!latest) throw error
+      ;({ claims } = await verifyJwtFull(token, getPublicKeysForVerification(latest), verifyOpts))
+    }
 
     return { valid: true, claims }
   } catch (error) {
@@ -232,12 +275,15 @@ export async function requireJwtAuth(
 /**
  * Create JWT configuration from environment
  */
-export function createJwtConfig(env: {
-  KEYLOOM_JWT_JWKS_URL?: string
-  KEYLOOM_JWT_ISSUER?: string
-  KEYLOOM_JWT_AUDIENCE?: string
-  KEYLOOM_JWT_CLOCK_SKEW_SEC?: string
-}): JwtConfig {
+export function createJwtConfig(
+  env: {
+    KEYLOOM_JWT_JWKS_URL?: string
+    KEYLOOM_JWT_ISSUER?: string
+    KEYLOOM_JWT_AUDIENCE?: string
+    KEYLOOM_JWT_CLOCK_SKEW_SEC?: string
+  },
+  keystore?: KeystoreStore,
+): JwtConfig {
   const jwksUrl = env.KEYLOOM_JWT_JWKS_URL
   if (!jwksUrl) {
     throw new Error('KEYLOOM_JWT_JWKS_URL environment variable is required')
@@ -253,11 +299,12 @@ export function createJwtConfig(env: {
     (out as any).expectedIssuer = env.KEYLOOM_JWT_ISSUER
   if (typeof env.KEYLOOM_JWT_AUDIENCE === 'string')
     (out as any).expectedAudience = env.KEYLOOM_JWT_AUDIENCE
+  if (keystore) out.keystore = keystore
   return out
 }
 
 /**
- * Clear JWKS cache (for testing or manual refresh)
+ * Clear JWKS and keystore caches (for testing or manual refresh)
  */
 export function clearServerJwksCache(): void {
   serverJwksCache.clear()
@@ -181,7 +181,7 @@ export function createAuthMiddleware(config: NextKeyloomConfig, opts: Options =
           if (!orgId) return NextResponse.redirect(new URL('/select-org', url))
 
           const m = await (config as any).adapter?.getMembership?.(userId, orgId)
-          if (!m || !required.includes(m.role)) {
+          if (!m || m.status !== 'active' || !required.includes(m.role)) {
             // Role denied: API => 401, Pages => redirect to /403
             if (isApi)
               return new NextResponse(JSON.stringify({ error: 'forbidden' }), {
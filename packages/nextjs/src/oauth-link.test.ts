@@ -0,0 +1,142 @@
+import { issuePendingLink, memoryAdapter, OAUTH_LINK_COOKIE_NAME } from '@keyloom/core'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const mocks = vi.hoisted(() => ({
+  user: null as { id: string } | null,
+  linkEmails: [] as { confirmUrl: string }[],
+}))
+
+vi.mock('./sessions', () => ({
+  resolveSession: async () => ({
+    session: mocks.user ? { id: 'sess' } : null,
+    user: mocks.user,
+  }),
+  sessionMetaFromRequest: () => ({ ip: null, userAgent: null }),
+}))
+
+vi.mock('@keyloom/core/email', () => ({
+  createEmailServiceFromConfig: () => ({
+    sendAccountLinkConfirmation: async (data: { confirmUrl: string }) => {
+      mocks.linkEmails.push(data)
+      return { success: true }
+    },
+  }),
+  createEmailServiceFromEnv: () => null,
+}))
+
+import { handleOAuthLinkConfirmRoute, oauthCallbackResponse } from './oauth-link'
+
+const config = { baseUrl: 'https://app.test', secrets: { authSecret: 'test-secret' } } as any
+const req = (path: string, token: string) =>
+  ({
+    url: `https://app.test${path}`,
+    headers: new Headers({ cookie: `${OAUTH_LINK_COOKIE_NAME}=${token}` }),
+  }) as any
+
+describe('oauth link confirm route', () => {
+  let adapter: ReturnType<typeof memoryAdapter>
+  let user: { id: string }
+
+  beforeEach(async () => {
+    adapter = memoryAdapter()
+    user = await adapter.createUser({ email: 'u@test' })
+    mocks.user = null
+    mocks.linkEmails = []
+  })
+
+  const pending = () =>
+    issuePendingLink(
+      {
+        userId: user.id,
+        account: { provider: 'github', providerAccountId: 'gh-1' },
+        redirectTo: '/settings',
+      },
+      { adapter, secret: config.secrets.authSecret },
+    )
+
+  it('links and signs in from the emailed confirmation link', async () => {
+    const link = await pending()
+    const path = `/api/auth/oauth/link/confirm?token=${link.confirmToken}`
+
+    const res = await handleOAuthLinkConfirmRoute('GET', req(path, link.token), config, adapter)
+    expect(res.headers.get('location')).toBe('https://app.test/settings')
+    expect(res.headers.get('set-cookie')).toContain('__keyloom_session=')
+    expect((await adapter.getAccountByProvider('github', 'gh-1'))?.userId).toBe(user.id)
+
+    const again = await handleOAuthLinkConfirmRoute('GET', req(path, link.token), config, adapter)
+    expect(again.headers.get('location')).toBe(
+      'https://app.test/auth/error?error=OAUTH_LINK_INVALID',
+    )
+  })
+
+  it('sends users with 2FA enabled to the second-factor page instead of signing them in', async () => {
+    await adapter.createAuthKey({ userId: user.id, type: 'totp', keyId: `totp:${user.id}` })
+    const link = await pending()
+    const path = `/api/auth/oauth/link/confirm?token=${link.confirmToken}`
+
+    const res = await handleOAuthLinkConfirmRoute('GET', req(path, link.token), config, adapter)
+    expect(res.headers.get('location')).toBe(
+      'https://app.test/auth/two-factor?callbackUrl=%2Fsettings',
+    )
+    expect(res.headers.get('set-cookie')).toContain('__keyloom_2fa=')
+    expect(res.headers.get('set-cookie')).not.toContain('__keyloom_session=')
+    expect(await adapter.listSessionsByUser(user.id)).toHaveLength(0)
+
+    const callback = await oauthCallbackResponse(
+      {
+        session: null,
+        twoFactorRequired: true,
+        pendingToken: `${user.id}.secret`,
+        expiresAt: new Date(Date.now() + 60_000),
+        redirectTo: '/dashboard',
+      },
+      req('/api/auth/oauth/github/callback', ''),
+      { ...config, twoFactor: { verifyPath: '/login/2fa' } },
+    )
+    expect(callback.headers.get('location')).toBe(
+      'https://app.test/login/2fa?callbackUrl=%2Fdashboard',
+    )
+    expect(callback.headers.get('set-cookie')).not.toContain('__keyloom_session=')
+  })
+
+  it('only lets the matching signed-in user confirm', async () => {
+    const link = await pending()
+    const path = '/api/auth/oauth/link/confirm'
+
+    mocks.user = { id: 'someone-else' }
+    const other = await handleOAuthLinkConfirmRoute('POST', req(path, link.token), config, adapter)
+    expect(other.status).toBe(403)
+    expect(await adapter.getAccountByProvider('github', 'gh-1')).toBeNull()
+
+    mocks.user = user
+    const ok = await handleOAuthLinkConfirmRoute('POST', req(path, link.token), config, adapter)
+    expect(await ok.json()).toEqual({ ok: true, provider: 'github' })
+  })
+
+  it('never points the confirmation email at the request host', async () => {
+    const link = await pending()
+    const completed = {
+      session: null,
+      pendingLink: link,
+      user: { ...user, email: 'u@test' },
+      redirectTo: '/',
+    } as any
+    const forged = { url: 'https://evil.test/api/auth/oauth/github/callback' } as any
+
+    const res = await oauthCallbackResponse(completed, forged, config)
+    expect(res.status).toBe(307)
+    expect(mocks.linkEmails).toHaveLength(1)
+    const confirmUrl = new URL(mocks.linkEmails[0]!.confirmUrl)
+    expect(confirmUrl.origin).toBe('https://app.test')
+    expect(confirmUrl.searchParams.get('token')).toBe(link.confirmToken)
+
+    const unconfigured = await oauthCallbackResponse(completed, forged, {
+      ...config,
+      baseUrl: undefined,
+    })
+    expect(unconfigured.status).toBe(500)
+    expect(await unconfigured.json()).toEqual({ error: 'base_url_not_configured' })
+    expect(unconfigured.headers.get('set-cookie')).not.toContain(OAUTH_LINK_COOKIE_NAME)
+    expect(mocks.linkEmails).toHaveLength(1)
+  })
+})
@@ -0,0 +1,187 @@
+import type { Adapter, CompleteOAuthResult, EventBus } from '@keyloom/core'
+import {
+  confirmPendingLink,
+  ERR,
+  eventMeta,
+  KeyloomError,
+  newSession,
+  OAUTH_LINK_COOKIE_NAME,
+  sendAccountLinkEmail,
+} from '@keyloom/core'
+import { createEmailServiceFromConfig, createEmailServiceFromEnv } from '@keyloom/core/email'
+import { pendingSecondFactorFor } from '@keyloom/core/two-factor'
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+import { parseCookieValue, setPendingLinkCookieHeader, setSessionCookieHeader } from './cookies'
+import { resolveSession, sessionMetaFromRequest } from './sessions'
+import { secondFactorRedirect } from './two-factor'
+import type { NextKeyloomConfig } from './types'
+
+const DEFAULT_CONFIRM_PAGE = '/auth/link-account'
+const CLEAR_STATE_COOKIE = '__keyloom_oauth=; Path=/; Max-Age=0; SameSite=Lax; HttpOnly; Secure'
+
+const LINK_ERRORS: string[] = [
+  ERR.OAUTH_ACCOUNT_NOT_LINKED,
+  ERR.OAUTH_LINK_INVALID,
+  ERR.OAUTH_LINK_USER_MISMATCH,
+  ERR.ACCOUNT_LINKED,
+]
+
+function baseUrlOf(req: NextRequest, config: NextKeyloomConfig) {
+  return config.baseUrl || new URL(req.url).origin
+}
+
+function errorRedirect(code: string, req: NextRequest, config: NextKeyloomConfig) {
+  const url = new URL('/auth/error', baseUrlOf(req, config))
+  url.searchParams.set('error', code)
+  return NextResponse.redirect(url)
+}
+
+/** Redirects account-linking refusals to the error page; returns null for anything else. */
+export function oauthLinkErrorResponse(e: unknown, req: NextRequest, config: NextKeyloomConfig) {
+  if (e instanceof KeyloomError && LINK_ERRORS.includes(e.code)) {
+    const res = errorRedirect(e.code, req, config)
+    res.headers.append('Set-Cookie', CLEAR_STATE_COOKIE)
+    return res
+  }
+  return null
+}
+
+/**
+ * Response for a completed OAuth callback: the session cookie and redirect, a redirect to the 2FA
+ * page when the user owes a second factor, or, when the account must be confirmed before it's linked, the pending-link cookie, a confirmation email and a redirect
+ * to `config.accountLinking.confirmPath` with `error=OAUTH_LINK_CONFIRMATION_REQUIRED`. The email
+ * needs `config.baseUrl`; without it the flow answers 500 `base_url_not_configured`.
+ */
+export async function oauthCallbackResponse(
+  completed: CompleteOAuthResult,
+  req: NextRequest,
+  config: NextKeyloomConfig,
+) {
+  const sameSite = config.cookie?.sameSite ?? 'lax'
+  const baseUrl = baseUrlOf(req, config)
+
+  if (completed.pendingLink) {
+    // The emailed link carries the confirmation token; a forged Host header must not redirect it
+    if (!config.baseUrl) {
+      const res = NextResponse.json({ error: 'base_url_not_configured' }, { status: 500 })
+      res.headers.append('Set-Cookie', CLEAR_STATE_COOKIE)
+      return res
+    }
+    const { pendingLink, user } = completed
+    await sendAccountLinkEmail(user, pendingLink, {
+      emailService: createEmailServiceFromConfig(config.email) ?? createEmailServiceFromEnv(),
+      baseUrl: config.baseUrl,
+      appName: config.appName || 'Keyloom App',
+    })
+    const url = new URL(config.accountLinking?.confirmPath ?? DEFAULT_CONFIRM_PAGE, baseUrl)
+    url.searchParams.set('error', ERR.OAUTH_LINK_CONFIRMATION_REQUIRED)
+    url.searchParams.set('provider', pendingLink.provider)
+    const res = NextResponse.redirect(url)
+    res.headers.append(
+      'Set-Cookie',
+      setPendingLinkCookieHeader(pendingLink.token, {
+        sameSite,
+        maxAgeSec: (pendingLink.expiresAt.getTime() - Date.now()) / 1000,
+      }),
+    )
+    res.headers.append('Set-Cookie', CLEAR_STATE_COOKIE)
+    return res
+  }
+
+  if (completed.twoFactorRequired) {
+    const res = secondFactorRedirect(completed, completed.redirectTo, baseUrl, config)
+    res.headers.append('Set-Cookie', CLEAR_STATE_COOKIE)
+    return res
+  }
+
+  const res = NextResponse.redirect(new URL(completed.redirectTo, baseUrl).toString())
+  res.headers.append('Set-Cookie', setSessionCookieHeader(completed.session.id, { sameSite }))
+  res.headers.append('Set-Cookie', CLEAR_STATE_COOKIE)
+  return res
+}
+
+/**
+ * Confirms a pending OAuth account link held in the pending-link cookie:
+ * - GET `?token=`: the link from the confirmation email; links, signs the user in (or on to 2FA)
+ *   and redirects
+ * - POST (CSRF): the signed-in user confirms it themselves; responds `{ ok, provider }`
+ */
+export async function handleOAuthLinkConfirmRoute(
+  method: 'GET' | 'POST',
+  req: NextRequest,
+  config: NextKeyloomConfig,
+  adapter: Adapter,
+  events?: EventBus,
+) {
+  const authSecret = config.secrets?.authSecret
+  if (typeof authSecret !== 'string' || !authSecret) throw new Error('auth_secret_required')
+  const sameSite = config.cookie?.sameSite ?? 'lax'
+  const pendingToken = parseCookieValue(req.headers.get('cookie'), OAUTH_LINK_COOKIE_NAME)
+  const meta = sessionMetaFromRequest(req, config)
+  const clearCookie = setPendingLinkCookieHeader('', { sameSite, maxAgeSec: 0 })
+
+  if (method === 'GET') {
+    const confirmToken = new URL(req.url).searchParams.get('token')
+    if (!confirmToken) return errorRedirect(ERR.OAUTH_LINK_INVALID, req, config)
+    try {
+      const { userId, account, redirectTo } = await confirmPendingLink(
+        pendingToken,
+        { confirmToken },
+        { adapter, secret: authSecret, events, meta },
+      )
+      const user = await adapter.getUser(userId)
+      if (!user) throw new KeyloomError(ERR.OAUTH_LINK_INVALID)
+      await events?.before('signIn', { user, method: 'oauth', provider: account.provider })
+      const pending = await pendingSecondFactorFor(userId, adapter)
+      if (pending) {
+        const res = secondFactorRedirect(
+          { pendingToken: pending.token, expiresAt: pending.expiresAt },
+          redirectTo ?? '/',
+          baseUrlOf(req, config),
+          config,
+        )
+        res.headers.append('Set-Cookie', clearCookie)
+        return res
+      }
+      const session = await adapter.createSession(
+        newSession(userId, config.session?.ttlMinutes, meta),
+      )
+      await events?.emit(
+        'session.created',
+        { method: 'oauth', provider: account.provider },
+        eventMeta(userId, meta),
+      )
+      const res = NextResponse.redirect(new URL(redirectTo ?? '/', baseUrlOf(req, config)))
+      res.headers.append('Set-Cookie', setSessionCookieHeader(session.id, { sameSite }))
+      res.headers.append('Set-Cookie', clearCookie)
+      return res
+    } catch (e) {
+      if (!(e instanceof KeyloomError)) throw e
+      const res = errorRedirect(e.code, req, config)
+      res.headers.append('Set-Cookie', clearCookie)
+      return res
+    }
+  }
+
+  const { user, setCookie } = await resolveSession(req, config, adapter)
+  if (!user) {
+    const res = NextResponse.json({ error: 'unauthorized' }, { status: 401 })
+    if (setCookie) res.headers.append('Set-Cookie', setCookie)
+    return res
+  }
+  try {
+    const { account } = await confirmPendingLink(
+      pendingToken,
+      { userId: user.id },
+      { adapter, secret: authSecret, events, meta },
+    )
+    const res = NextResponse.json({ ok: true, provider: account.provider })
+    res.headers.append('Set-Cookie', clearCookie)
+    return res
+  } catch (e) {
+    if (!(e instanceof KeyloomError)) throw e
+    const status = e.code === ERR.OAUTH_LINK_USER_MISMATCH ? 403 : 400
+    return NextResponse.json({ error: e.code.toLowerCase() }, { status })
+  }
+}
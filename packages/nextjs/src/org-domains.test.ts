@@ -0,0 +1,130 @@
+import { memoryAdapter, OrgSsoRequiredError } from '@keyloom/core'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const mocks = vi.hoisted(() => ({
+  user: null as { id: string } | null,
+  txt: {} as Record<string, string[][]>,
+}))
+
+vi.mock('./sessions', () => ({
+  resolveSession: async () => ({ session: null, user: mocks.user }),
+}))
+vi.mock('next/headers', () => ({ headers: () => new Headers() }))
+
+import { handleOrgDomainsRoute, orgSsoRequiredResponse } from './org-domains'
+
+const config = {
+  baseUrl: 'https://app.test',
+  orgDomains: { resolveTxt: async (name: string) => mocks.txt[name] ?? [] },
+} as any
+
+const req = (body?: unknown) => ({ url: 'https://app.test/', json: async () => body ?? {} }) as any
+
+describe('org domain routes', () => {
+  let adapter: any
+  let admin: { id: string }
+  let member: { id: string }
+  let orgId: string
+
+  beforeEach(async () => {
+    adapter = memoryAdapter()
+    admin = await adapter.createUser({ email: 'admin@test' })
+    member = await adapter.createUser({ email: 'member@test' })
+    orgId = (await adapter.createOrganization({ name: 'Acme' })).id
+    await adapter.addMember({ userId: admin.id, orgId, role: 'admin' })
+    await adapter.addMember({ userId: member.id, orgId, role: 'member' })
+    mocks.user = admin
+    mocks.txt = {}
+  })
+
+  it('claims, verifies, lists and removes a domain', async () => {
+    const claimed = await handleOrgDomainsRoute(
+      'POST',
+      { orgId },
+      req({ domain: 'Acme.com', policy: 'sso' }),
+      config,
+      adapter,
+    )
+    expect(claimed.status).toBe(201)
+    const body = await claimed.json()
+    expect(body).toMatchObject({ domain: 'acme.com', policy: 'sso', verifiedAt: null })
+    expect(body.record.name).toBe('_keyloom-verification.acme.com')
+
+    const early = await handleOrgDomainsRoute(
+      'POST',
+      { orgId, id: body.id, verify: true },
+      req(),
+      config,
+      adapter,
+    )
+    expect(early.status).toBe(400)
+    expect((await early.json()).error).toBe('org_domain_unverified')
+
+    mocks.txt[body.record.name] = [[body.record.value]]
+    const verified = await handleOrgDomainsRoute(
+      'POST',
+      { orgId, id: body.id, verify: true },
+      req(),
+      config,
+      adapter,
+    )
+    expect(verified.status).toBe(200)
+    expect((await verified.json()).verifiedAt).toBeTruthy()
+
+    const listed = await (
+      await handleOrgDomainsRoute('GET', { orgId }, req(), config, adapter)
+    ).json()
+    expect(listed.domains).toHaveLength(1)
+
+    const removed = await handleOrgDomainsRoute(
+      'DELETE',
+      { orgId, id: body.id },
+      req(),
+      config,
+      adapter,
+    )
+    expect(removed.status).toBe(200)
+    expect(await adapter.listOrgDomains(orgId)).toEqual([])
+  })
+
+  it('rejects invalid input and unknown domains', async () => {
+    const invalid = await handleOrgDomainsRoute(
+      'POST',
+      { orgId },
+      req({ domain: 'nope' }),
+      config,
+      adapter,
+    )
+    expect(invalid.status).toBe(400)
+    expect((await invalid.json()).error).toBe('org_domain_invalid')
+
+    const missing = await handleOrgDomainsRoute(
+      'DELETE',
+      { orgId, id: 'missing' },
+      req(),
+      config,
+      adapter,
+    )
+    expect(missing.status).toBe(404)
+  })
+
+  it('requires an owner or admin membership', async () => {
+    mocks.user = member
+    const res = await handleOrgDomainsRoute('GET', { orgId }, req(), config, adapter)
+    expect(res.status).toBe(403)
+  })
+
+  it('maps SSO refusals to a 403 or a redirect', async () => {
+    const err = new OrgSsoRequiredError(orgId, `/api/auth/saml/${orgId}/login`)
+    const json = orgSsoRequiredResponse(err, req(), config)!
+    expect(json.status).toBe(403)
+    expect(await json.json()).toMatchObject({
+      error: 'org_sso_required',
+      ssoUrl: `/api/auth/saml/${orgId}/login`,
+    })
+
+    const redirect = orgSsoRequiredResponse(err, req(), config, { redirect: true })!
+    expect(redirect.headers.get('location')).toBe(`https://app.test/api/auth/saml/${orgId}/login`)
+    expect(orgSsoRequiredResponse(new Error('other'), req(), config)).toBeNull()
+  })
+})
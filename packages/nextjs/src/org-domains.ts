@@ -0,0 +1,158 @@
+import {
+  type Adapter,
+  claimOrgDomain,
+  ERR,
+  KeyloomError,
+  type OrgDomain,
+  type OrgDomainPolicy,
+  OrgSsoRequiredError,
+  orgDomainTxtRecord,
+  type RbacAdapter,
+  verifyOrgDomain,
+} from '@keyloom/core'
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+import { withRole } from './rbac'
+import { resolveSession } from './sessions'
+import type { NextKeyloomConfig } from './types'
+
+/** Roles allowed to claim, verify and remove an organization's email domains */
+export const ORG_DOMAIN_ADMIN_ROLES = ['owner', 'admin']
+
+const POLICIES: OrgDomainPolicy[] = ['auto-join', 'sso']
+
+const orgDomainJson = (d: OrgDomain) => ({
+  id: d.id,
+  domain: d.domain,
+  policy: d.policy,
+  role: d.role ?? null,
+  verifiedAt: d.verifiedAt ?? null,
+  createdAt: d.createdAt,
+  record: orgDomainTxtRecord(d),
+})
+
+/**
+ * Sign-ins refused because the email's domain requires the org's SSO: a 403 with `ssoUrl` for API
+ * calls, or a redirect to it for browser callbacks. Returns null for anything else.
+ */
+export function orgSsoRequiredResponse(
+  e: unknown,
+  req: NextRequest,
+  config: NextKeyloomConfig,
+  opts: { redirect?: boolean } = {},
+) {
+  if (!(e instanceof OrgSsoRequiredError)) return null
+  return ssoResponse(e.ssoUrl, req, config, opts)
+}
+
+/** Auto-joins refused because the domain's org has no free seat (402); null for anything else */
+export function seatLimitResponse(e: unknown) {
+  if (!(e instanceof KeyloomError) || e.code !== ERR.SEAT_LIMIT_REACHED) return null
+  return NextResponse.json({ error: 'seat_limit_reached', message: e.message }, { status: 402 })
+}
+
+/** `orgSsoRequiredResponse` for flows that report the SSO URL instead of throwing */
+export function ssoResponse(
+  ssoUrl: string,
+  req: NextRequest,
+  config: NextKeyloomConfig,
+  opts: { redirect?: boolean } = {},
+) {
+  if (opts.redirect)
+    return NextResponse.redirect(new URL(ssoUrl, config.baseUrl || new URL(req.url).origin))
+  return NextResponse.json(
+    {
+      error: 'org_sso_required',
+      message: "Sign in with your organization's single sign-on",
+      ssoUrl,
+    },
+    { status: 403 },
+  )
+}
+
+async function manageDomains(
+  method: 'GET' | 'POST' | 'DELETE',
+  orgId: string,
+  route: { id?: string; verify?: boolean },
+  req: NextRequest,
+  config: NextKeyloomConfig,
+  adapter: Adapter & RbacAdapter,
+) {
+  if (method === 'GET') {
+    if (route.id) return NextResponse.json({ error: 'method_not_allowed' }, { status: 405 })
+    const domains = await adapter.listOrgDomains(orgId)
+    return NextResponse.json({ domains: domains.map(orgDomainJson) })
+  }
+
+  const owned = route.id
+    ? (await adapter.listOrgDomains(orgId)).find((d) => d.id === route.id)
+    : undefined
+  if (route.id && !owned)
+    return NextResponse.json({ error: 'org_domain_not_found' }, { status: 404 })
+
+  if (method === 'DELETE') {
+    if (!owned || route.verify)
+      return NextResponse.json({ error: 'method_not_allowed' }, { status: 405 })
+    await adapter.removeOrgDomain(owned.id)
+    return NextResponse.json({ ok: true })
+  }
+
+  try {
+    if (owned) {
+      if (!route.verify) return NextResponse.json({ error: 'method_not_allowed' }, { status: 405 })
+      const resolveTxt = config.orgDomains?.resolveTxt
+      const verified = await verifyOrgDomain(orgId, owned.id, { adapter, resolveTxt })
+      return NextResponse.json(orgDomainJson(verified))
+    }
+    const body = await req.json().catch(() => ({}))
+    if (body.policy !== undefined && !POLICIES.includes(body.policy))
+      throw new KeyloomError('INVALID_REQUEST', 'Invalid policy')
+    const { orgDomain } = await claimOrgDomain(
+      {
+        orgId,
+        domain: String(body.domain ?? ''),
+        ...(body.policy ? { policy: body.policy } : {}),
+        ...(typeof body.role === 'string' ? { role: body.role } : {}),
+      },
+      adapter,
+    )
+    return NextResponse.json(orgDomainJson(orgDomain), { status: 201 })
+  } catch (e) {
+    if (e instanceof KeyloomError)
+      return NextResponse.json(
+        { error: e.code.toLowerCase(), message: e.message },
+        { status: e.code === 'ORG_DOMAIN_TAKEN' ? 409 : 400 },
+      )
+    throw e
+  }
+}
+
+/**
+ * Verified email domains for org owners/admins:
+ * - `.../orgs/:orgId/domains`: GET lists them with their TXT records, POST `{ domain, policy?, role? }`
+ *   claims one and returns the record to publish
+ * - `.../orgs/:orgId/domains/:id/verify`: POST checks DNS and marks the domain verified
+ * - `.../orgs/:orgId/domains/:id`: DELETE removes the claim
+ */
+export async function handleOrgDomainsRoute(
+  method: 'GET' | 'POST' | 'DELETE',
+  route: { orgId: string; id?: string; verify?: boolean },
+  req: NextRequest,
+  config: NextKeyloomConfig,
+  adapter: Adapter & RbacAdapter,
+) {
+  const { user, setCookie } = await resolveSession(req, config, adapter)
+  const res = await withRole(
+    () => manageDomains(method, route.orgId, route, req, config, adapter),
+    {
+      requiredRoles: ORG_DOMAIN_ADMIN_ROLES,
+      getUser: async () => user,
+      adapter,
+      orgId: route.orgId,
+      config,
+      apiKeys: false,
+    },
+  )
+  if (setCookie) res.headers.append('Set-Cookie', setCookie)
+  return res
+}
@@ -0,0 +1,162 @@
+import { memoryAdapter } from '@keyloom/core'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const mocks = vi.hoisted(() => ({ user: null as { id: string } | null }))
+
+vi.mock('./sessions', () => ({
+  resolveSession: async () => ({ session: null, user: mocks.user }),
+}))
+vi.mock('next/headers', () => ({ headers: () => new Headers() }))
+
+import { handleOrgRolesRoute } from './org-roles'
+import { withRole } from './rbac'
+
+const config = {
+  baseUrl: 'https://app.test',
+  rbac: {
+    roles: {
+      owner: { permissions: ['billing:manage'], inherits: ['admin'] },
+      admin: { permissions: ['members:invite', 'projects:*'], inherits: ['member'] },
+      member: { permissions: ['projects:read'] },
+    },
+    permissions: ['projects:write'],
+    customRoles: { enabled: true },
+  },
+} as any
+
+const req = (body?: unknown) => ({ url: 'https://app.test/', json: async () => body ?? {} }) as any
+
+describe('org role routes', () => {
+  let adapter: any
+  let admin: { id: string }
+  let member: { id: string }
+  let orgId: string
+
+  const setRole = async (userId: string, role: string) =>
+    adapter.updateMember((await adapter.getMembership(userId, orgId)).id, { role })
+
+  beforeEach(async () => {
+    adapter = memoryAdapter()
+    admin = await adapter.createUser({ email: 'admin@test' })
+    member = await adapter.createUser({ email: 'member@test' })
+    orgId = (await adapter.createOrganization({ name: 'Acme' })).id
+    await adapter.addMember({ userId: admin.id, orgId, role: 'admin' })
+    await adapter.addMember({ userId: member.id, orgId, role: 'member' })
+    mocks.user = admin
+  })
+
+  it('creates, lists, edits and deletes a custom role', async () => {
+    const created = await handleOrgRolesRoute(
+      'POST',
+      { orgId },
+      req({ name: 'Editor', permissions: ['projects:*'] }),
+      config,
+      adapter,
+    )
+    expect(created.status).toBe(201)
+    const role = await created.json()
+    expect(role).toMatchObject({ name: 'editor', system: false, permissions: ['projects:*'] })
+
+    const listed = await (
+      await handleOrgRolesRoute('GET', { orgId }, req(), config, adapter)
+    ).json()
+    expect(listed.roles.map((r: any) => [r.name, r.system])).toEqual([
+      ['owner', true],
+      ['admin', true],
+      ['member', true],
+      ['editor', false],
+    ])
+
+    const edited = await handleOrgRolesRoute(
+      'PATCH',
+      { orgId, id: role.id },
+      req({ description: 'Writes projects', permissions: ['projects:write'] }),
+      config,
+      adapter,
+    )
+    expect(await edited.json()).toMatchObject({
+      description: 'Writes projects',
+      permissions: ['projects:write'],
+    })
+
+    await setRole(member.id, 'editor')
+    const inUse = await handleOrgRolesRoute(
+      'DELETE',
+      { orgId, id: role.id },
+      req(),
+      config,
+      adapter,
+    )
+    expect(inUse.status).toBe(409)
+    expect((await inUse.json()).error).toBe('org_role_in_use')
+
+    await setRole(member.id, 'member')
+    const removed = await handleOrgRolesRoute(
+      'DELETE',
+      { orgId, id: role.id },
+      req(),
+      config,
+      adapter,
+    )
+    expect(removed.status).toBe(200)
+    expect(await adapter.listOrgRoles(orgId)).toEqual([])
+  })
+
+  it('rejects system role names and permissions outside the catalog', async () => {
+    const reserved = await handleOrgRolesRoute(
+      'POST',
+      { orgId },
+      req({ name: 'admin', permissions: [] }),
+      config,
+      adapter,
+    )
+    expect(reserved.status).toBe(409)
+    expect((await reserved.json()).error).toBe('org_role_reserved')
+
+    const unknown = await handleOrgRolesRoute(
+      'POST',
+      { orgId },
+      req({ name: 'ops', permissions: ['servers:reboot'] }),
+      config,
+      adapter,
+    )
+    expect(unknown.status).toBe(400)
+    expect((await unknown.json()).error).toBe('org_role_invalid')
+  })
+
+  it('refuses permissions the caller does not hold', async () => {
+    for (const permissions of [['billing:manage'], ['*']]) {
+      const res = await handleOrgRolesRoute(
+        'POST',
+        { orgId },
+        req({ name: 'boss', permissions }),
+        config,
+        adapter,
+      )
+      expect(res.status).toBe(403)
+      expect((await res.json()).error).toBe('org_role_forbidden')
+    }
+    expect(await adapter.listOrgRoles(orgId)).toEqual([])
+  })
+
+  it('requires an owner or admin membership', async () => {
+    mocks.user = member
+    const res = await handleOrgRolesRoute('GET', { orgId }, req(), config, adapter)
+    expect(res.status).toBe(403)
+  })
+
+  it('lets guards resolve permissions from custom roles', async () => {
+    await adapter.createOrgRole({ orgId, name: 'editor', permissions: ['projects:write'] })
+    await setRole(member.id, 'editor')
+    const guard = (requiredPermission: string) =>
+      withRole(async () => new Response('ok'), {
+        requiredPermission,
+        getUser: async () => member,
+        adapter,
+        orgId,
+        config,
+      })
+    expect((await guard('projects:write')).status).toBe(200)
+    expect((await guard('members:invite')).status).toBe(403)
+  })
+})
@@ -0,0 +1,136 @@
+import {
+  type Adapter,
+  createOrgRole,
+  deleteOrgRole,
+  KeyloomError,
+  type OrgRole,
+  type RbacAdapter,
+  systemRoles,
+  updateOrgRole,
+} from '@keyloom/core'
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+import { withRole } from './rbac'
+import { resolveSession } from './sessions'
+import type { NextKeyloomConfig } from './types'
+
+/** Roles allowed to define, edit and delete an organization's custom roles */
+export const ORG_ROLE_ADMIN_ROLES = ['owner', 'admin']
+
+const STATUS: Record<string, number> = {
+  ORG_ROLE_NOT_FOUND: 404,
+  ORG_ROLE_EXISTS: 409,
+  ORG_ROLE_RESERVED: 409,
+  ORG_ROLE_IN_USE: 409,
+  ORG_ROLE_FORBIDDEN: 403,
+}
+
+const orgRoleJson = (r: OrgRole) => ({
+  id: r.id,
+  name: r.name,
+  description: r.description ?? null,
+  system: false,
+  permissions: r.permissions,
+  createdAt: r.createdAt,
+  updatedAt: r.updatedAt,
+})
+
+function systemRoleJson(name: string, config: NextKeyloomConfig) {
+  const roles = config.rbac?.roles
+  const permissions = roles && !Array.isArray(roles) ? (roles[name]?.permissions ?? []) : []
+  return { id: name, name, description: null, system: true, permissions }
+}
+
+async function manageRoles(
+  method: 'GET' | 'POST' | 'PATCH' | 'DELETE',
+  orgId: string,
+  id: string | undefined,
+  userId: string,
+  req: NextRequest,
+  config: NextKeyloomConfig,
+  adapter: Adapter & RbacAdapter,
+) {
+  if (method === 'GET') {
+    if (id) return NextResponse.json({ error: 'method_not_allowed' }, { status: 405 })
+    const custom = config.rbac?.customRoles?.enabled ? await adapter.listOrgRoles(orgId) : []
+    return NextResponse.json({
+      roles: [
+        ...systemRoles(config.rbac).map((name) => systemRoleJson(name, config)),
+        ...custom.map(orgRoleJson),
+      ],
+    })
+  }
+  if (method === 'POST' ? !!id : !id)
+    return NextResponse.json({ error: 'method_not_allowed' }, { status: 405 })
+
+  try {
+    if (method === 'DELETE') {
+      await deleteOrgRole(orgId, id as string, { adapter })
+      return NextResponse.json({ ok: true })
+    }
+    const body = await req.json().catch(() => ({}))
+    const description = typeof body.description === 'string' ? body.description : undefined
+    if (method === 'PATCH') {
+      const role = await updateOrgRole(
+        orgId,
+        id as string,
+        {
+          ...('description' in body ? { description: description ?? null } : {}),
+          ...(body.permissions !== undefined ? { permissions: body.permissions } : {}),
+        },
+        { adapter, rbac: config.rbac, actor: { userId } },
+      )
+      return NextResponse.json(orgRoleJson(role))
+    }
+    const role = await createOrgRole(
+      {
+        orgId,
+        name: String(body.name ?? ''),
+        description: description ?? null,
+        permissions: body.permissions,
+      },
+      { adapter, rbac: config.rbac, actor: { userId } },
+    )
+    return NextResponse.json(orgRoleJson(role), { status: 201 })
+  } catch (e) {
+    if (e instanceof KeyloomError)
+      return NextResponse.json(
+        { error: e.code.toLowerCase(), message: e.message },
+        { status: STATUS[e.code] ?? 400 },
+      )
+    throw e
+  }
+}
+
+/**
+ * Custom roles for org owners/admins (`rbac.customRoles.enabled`):
+ * - `.../orgs/:orgId/roles`: GET lists system and custom roles, POST
+ *   `{ name, description?, permissions }` defines one
+ * - `.../orgs/:orgId/roles/:id`: PATCH `{ description?, permissions? }` edits it, DELETE removes it
+ *   once no member holds it
+ *
+ * A role can only be given permissions the caller holds, so admins can't mint owner-level roles.
+ */
+export async function handleOrgRolesRoute(
+  method: 'GET' | 'POST' | 'PATCH' | 'DELETE',
+  route: { orgId: string; id?: string },
+  req: NextRequest,
+  config: NextKeyloomConfig,
+  adapter: Adapter & RbacAdapter,
+) {
+  const { user, setCookie } = await resolveSession(req, config, adapter)
+  const res = await withRole(
+    // withRole only runs the handler for a signed-in user
+    () => manageRoles(method, route.orgId, route.id, user?.id as string, req, config, adapter),
+    {
+      requiredRoles: ORG_ROLE_ADMIN_ROLES,
+      getUser: async () => user,
+      adapter,
+      orgId: route.orgId,
+      config,
+      apiKeys: false,
+    },
+  )
+  if (setCookie) res.headers.append('Set-Cookie', setCookie)
+  return res
+}
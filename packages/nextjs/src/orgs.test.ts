@@ -0,0 +1,115 @@
+import { memoryAdapter } from '@keyloom/core'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const mocks = vi.hoisted(() => ({ user: null as { id: string } | null }))
+
+vi.mock('./sessions', () => ({
+  resolveSession: async () => ({ session: null, user: mocks.user }),
+}))
+vi.mock('next/headers', () => ({ headers: () => new Headers() }))
+
+import { handleInviteAcceptRoute, handleOrgMembersRoute, handleOrgRoute } from './orgs'
+
+const config = {
+  baseUrl: 'https://app.test',
+  rbac: {},
+  secrets: { authSecret: 'test_secret' },
+} as any
+
+const req = (body?: unknown) => ({ url: 'https://app.test/', json: async () => body ?? {} }) as any
+
+describe('org lifecycle routes', () => {
+  let adapter: any
+  let owner: { id: string }
+  let admin: { id: string }
+  let orgId: string
+
+  beforeEach(async () => {
+    adapter = memoryAdapter()
+    owner = await adapter.createUser({ email: 'owner@test' })
+    admin = await adapter.createUser({ email: 'admin@test' })
+    orgId = (await adapter.createOrganization({ name: 'Acme' })).id
+    await adapter.addMember({ userId: owner.id, orgId, role: 'owner' })
+    await adapter.addMember({ userId: admin.id, orgId, role: 'admin' })
+  })
+
+  it('lets admins rename but only owners delete', async () => {
+    mocks.user = admin
+    const renamed = await handleOrgRoute(
+      'update',
+      orgId,
+      req({ name: 'Acme Inc' }),
+      config,
+      adapter,
+    )
+    expect(await renamed.json()).toMatchObject({ name: 'Acme Inc' })
+    const bad = await handleOrgRoute('update', orgId, req({ slug: 'Not OK' }), config, adapter)
+    expect(bad.status).toBe(400)
+    expect((await bad.json()).error).toBe('org_invalid')
+
+    expect((await handleOrgRoute('delete', orgId, req(), config, adapter)).status).toBe(403)
+    mocks.user = owner
+    const deleted = await handleOrgRoute('delete', orgId, req(), config, adapter)
+    expect(await deleted.json()).toEqual({ ok: true, purgeAt: null })
+    expect(await adapter.getOrganization(orgId)).toBeNull()
+  })
+
+  it('transfers ownership, then lets the old owner leave', async () => {
+    mocks.user = owner
+    const blocked = await handleOrgRoute('leave', orgId, req(), config, adapter)
+    expect(blocked.status).toBe(409)
+    expect((await blocked.json()).error).toBe('org_last_owner')
+
+    const emit = vi.fn()
+    const moved = await handleOrgRoute(
+      'transfer',
+      orgId,
+      req({ userId: admin.id }),
+      config,
+      adapter,
+      { emit } as any,
+    )
+    expect(moved.status).toBe(200)
+    expect((await adapter.getMembership(admin.id, orgId)).role).toBe('owner')
+    expect(emit).toHaveBeenCalledTimes(2)
+
+    expect((await handleOrgRoute('leave', orgId, req(), config, adapter)).status).toBe(200)
+    expect(await adapter.getMembership(owner.id, orgId)).toBeNull()
+  })
+})
+
+describe('org member routes', () => {
+  let adapter: any
+  let owner: { id: string }
+  let orgId: string
+
+  beforeEach(async () => {
+    adapter = memoryAdapter()
+    owner = await adapter.createUser({ email: 'owner@test' })
+    orgId = (await adapter.createOrganization({ name: 'Acme' })).id
+    await adapter.addMember({ userId: owner.id, orgId, role: 'owner' })
+    await adapter.setEntitlements(orgId, { seats: 2 })
+  })
+
+  it('rejects members and invites past the seat limit with a 402', async () => {
+    mocks.user = owner
+    const invited = await handleOrgMembersRoute(
+      orgId,
+      req({ email: 'new@test', role: 'member' }),
+      config,
+      adapter,
+    )
+    const { token } = await invited.json()
+
+    const other = await adapter.createUser({ email: 'other@test' })
+    const full = await handleOrgMembersRoute(orgId, req({ userId: other.id }), config, adapter)
+    expect(full.status).toBe(402)
+    expect((await full.json()).error).toBe('seat_limit_reached')
+
+    // The invite already holds its seat
+    mocks.user = await adapter.createUser({ email: 'new@test' })
+    const joined = await handleInviteAcceptRoute(orgId, req({ token }), config, adapter)
+    expect(joined.status).toBe(200)
+    expect((await joined.json()).role).toBe('member')
+  })
+})
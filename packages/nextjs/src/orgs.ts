@@ -0,0 +1,231 @@
+import {
+  type Adapter,
+  acceptInvite,
+  addOrgMember,
+  createOrgInvite,
+  deleteOrganization,
+  ERR,
+  type EventBus,
+  issueInviteToken,
+  KeyloomError,
+  leaveOrganization,
+  type RbacAdapter,
+  restoreOrganization,
+  transferOrgOwnership,
+  updateOrganization,
+} from '@keyloom/core'
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+import { withRole } from './rbac'
+import { resolveSession } from './sessions'
+import type { NextKeyloomConfig } from './types'
+
+export type OrgAction = 'update' | 'delete' | 'restore' | 'transfer' | 'leave'
+
+/** Who may do what; `leave` only needs a membership */
+const REQUIRED_ROLES: Record<OrgAction, string[] | undefined> = {
+  update: ['owner', 'admin'],
+  delete: ['owner'],
+  restore: ['owner'],
+  transfer: ['owner'],
+  leave: undefined,
+}
+
+const STATUS: Record<string, number> = {
+  [ERR.ORG_NOT_FOUND]: 404,
+  [ERR.ORG_MEMBER_NOT_FOUND]: 404,
+  [ERR.ORG_LAST_OWNER]: 409,
+  [ERR.SEAT_LIMIT_REACHED]: 402,
+}
+
+function orgErrorResponse(e: unknown) {
+  if (!(e instanceof KeyloomError)) throw e
+  return NextResponse.json(
+    { error: e.code.toLowerCase(), message: e.message },
+    { status: STATUS[e.code] ?? 400 },
+  )
+}
+
+async function runAction(
+  action: OrgAction,
+  orgId: string,
+  userId: string,
+  req: NextRequest,
+  config: NextKeyloomConfig,
+  adapter: Adapter & RbacAdapter,
+  events?: EventBus,
+) {
+  try {
+    if (action === 'delete') {
+      const { purgeAt } = await deleteOrganization(orgId, { adapter, rbac: config.rbac ?? null })
+      return NextResponse.json({ ok: true, purgeAt })
+    }
+    if (action === 'restore')
+      return NextResponse.json(await restoreOrganization(orgId, { adapter }))
+    if (action === 'leave') {
+      await leaveOrganization(orgId, userId, { adapter })
+      await events?.emit('rbac.role.revoked', { orgId }, { userId, orgId })
+      return NextResponse.json({ ok: true })
+    }
+
+    const body = await req.json().catch(() => ({}))
+    if (action === 'update') {
+      const org = await updateOrganization(
+        orgId,
+        {
+          ...(typeof body.name === 'string' ? { name: body.name } : {}),
+          ...(typeof body.slug === 'string' || body.slug === null ? { slug: body.slug } : {}),
+        },
+        { adapter },
+      )
+      return NextResponse.json(org)
+    }
+    const { from, to } = await transferOrgOwnership(
+      orgId,
+      {
+        fromUserId: userId,
+        toUserId: String(body.userId ?? ''),
+        ...(typeof body.demoteTo === 'string' ? { demoteTo: body.demoteTo } : {}),
+      },
+      { adapter },
+    )
+    for (const m of [to, from])
+      await events?.emit(
+        'rbac.role.assigned',
+        { orgId, role: m.role },
+        { userId: m.userId, actorId: userId, orgId },
+      )
+    return NextResponse.json({ ok: true })
+  } catch (e) {
+    return orgErrorResponse(e)
+  }
+}
+
+/**
+ * Organization lifecycle:
+ * - `.../orgs/:orgId`: PATCH `{ name?, slug? }` (owner/admin), DELETE (owner) answers
+ *   `{ ok, purgeAt }`; `purgeAt` is null unless `rbac.orgDeletion.gracePeriodDays` is set
+ * - `.../orgs/:orgId/restore`: POST cancels a pending deletion (owner)
+ * - `.../orgs/:orgId/transfer`: POST `{ userId, demoteTo? }` hands ownership over (owner)
+ * - `.../orgs/:orgId/leave`: POST drops the caller's membership; the last owner gets a 409
+ */
+export async function handleOrgRoute(
+  action: OrgAction,
+  orgId: string,
+  req: NextRequest,
+  config: NextKeyloomConfig,
+  adapter: Adapter & RbacAdapter,
+  events?: EventBus,
+) {
+  const { user, setCookie } = await resolveSession(req, config, adapter)
+  const requiredRoles = REQUIRED_ROLES[action]
+  const res = await withRole(
+    () => runAction(action, orgId, user!.id, req, config, adapter, events),
+    {
+      ...(requiredRoles ? { requiredRoles } : {}),
+      getUser: async () => user,
+      adapter,
+      orgId,
+      config,
+      apiKeys: false,
+    },
+  )
+  if (setCookie) res.headers.append('Set-Cookie', setCookie)
+  return res
+}
+
+/**
+ * `.../orgs/:orgId/members`: POST `{ userId, role }` adds a member, `{ email, role }` creates an
+ * invite and answers `{ inviteId, token }` (owner/admin). Both take a seat, so a full org gets a
+ * 402 `seat_limit_reached`.
+ */
+export async function handleOrgMembersRoute(
+  orgId: string,
+  req: NextRequest,
+  config: NextKeyloomConfig,
+  adapter: Adapter & RbacAdapter,
+  events?: EventBus,
+) {
+  const { user, setCookie } = await resolveSession(req, config, adapter)
+  const res = await withRole(
+    async () => {
+      const body = await req.json().catch(() => ({}))
+      const role = typeof body.role === 'string' ? body.role : 'member'
+      const ctx = { adapter, rbac: config.rbac }
+      try {
+        if (typeof body.userId === 'string') {
+          const membership = await addOrgMember({ userId: body.userId, orgId, role }, ctx)
+          await events?.emit(
+            'rbac.role.assigned',
+            { orgId, role },
+            { userId: body.userId, actorId: user!.id, orgId },
+          )
+          return NextResponse.json(membership)
+        }
+        if (typeof body.email === 'string') {
+          const secret = config.secrets?.authSecret
+          if (!secret) throw new Error('auth_secret_required')
+          const { token, tokenHash, expiresAt } = await issueInviteToken(
+            body.email,
+            orgId,
+            role,
+            secret,
+          )
+          const invite = await createOrgInvite(
+            { orgId, email: body.email, role, tokenHash, expiresAt },
+            ctx,
+          )
+          return NextResponse.json({ inviteId: invite.id, token })
+        }
+      } catch (e) {
+        return orgErrorResponse(e)
+      }
+      return NextResponse.json({ error: 'invalid_request' }, { status: 400 })
+    },
+    {
+      requiredRoles: ['owner', 'admin'],
+      getUser: async () => user,
+      adapter,
+      orgId,
+      config,
+      apiKeys: false,
+    },
+  )
+  if (setCookie) res.headers.append('Set-Cookie', setCookie)
+  return res
+}
+
+/** `.../orgs/:orgId/invites/accept`: POST `{ token }` joins the org as the signed-in user */
+export async function handleInviteAcceptRoute(
+  orgId: string,
+  req: NextRequest,
+  config: NextKeyloomConfig,
+  adapter: Adapter & RbacAdapter,
+  events?: EventBus,
+) {
+  const { user, setCookie } = await resolveSession(req, config, adapter)
+  if (!user) return NextResponse.json({ error: 'unauthorized' }, { status: 401 })
+  const secret = config.secrets?.authSecret
+  if (!secret) throw new Error('auth_secret_required')
+  const body = await req.json().catch(() => ({}))
+  let res: NextResponse
+  try {
+    const { membership } = await acceptInvite({
+      adapter,
+      orgId,
+      token: String(body.token ?? ''),
+      userId: user.id,
+      secret,
+      rbac: config.rbac,
+      ...(events ? { events } : {}),
+    })
+    res = NextResponse.json(membership)
+  } catch (e) {
+    if (e instanceof KeyloomError) res = orgErrorResponse(e)
+    else if (e instanceof Error && e.message === 'rate_limited')
+      res = NextResponse.json({ error: 'rate_limited' }, { status: 429 })
+    else res = NextResponse.json({ error: 'invalid_token' }, { status: 400 })
+  }
+  if (setCookie) res.headers.append('Set-Cookie', setCookie)
+  return res
+}
@@ -0,0 +1,80 @@
+import { requestClientIp } from '@keyloom/core'
+import {
+  checkRateLimit,
+  type RateLimitRoute,
+  rateLimitHeaders,
+} from '@keyloom/core/guard/rate-limit'
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+import type { RouteMatch } from './routing'
+import type { NextKeyloomConfig } from './types'
+
+type Method = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
+
+// Built-in routes by `RouteMatch` kind, plugin routes by their `NextRoute` kind; others use `default`
+const ROUTES: Partial<Record<RouteMatch['kind'] | (string & {}), RateLimitRoute>> = {
+  login: 'login',
+  register: 'register',
+  password_request: 'password_request',
+  password_reset: 'password_reset',
+  email_verify: 'email_verify',
+  magic_link_request: 'magic_link_request',
+  magic_link_verify: 'magic_link_verify',
+  two_factor_enable: 'two_factor',
+  two_factor_disable: 'two_factor',
+  two_factor_verify: 'two_factor',
+  oauth_start: 'oauth',
+  oauth_callback: 'oauth',
+  oauth_link_confirm: 'oauth',
+  session: 'session',
+  sessions: 'session',
+  accounts: 'session',
+  csrf: 'session',
+  passkey_begin_auth: 'login',
+  passkey_finish_auth: 'login',
+  saml_login: 'oauth',
+  saml_acs: 'oauth',
+}
+
+/** Client IP under `config.rateLimit.trustedProxies`; `X-Forwarded-For` is ignored unless proxies are trusted. */
+export function clientIp(req: NextRequest, config: NextKeyloomConfig) {
+  return requestClientIp(req, config.rateLimit?.trustedProxies)
+}
+
+// The account a request targets: `email` (or `identifier` for token flows) from the query or JSON body
+async function accountOf(req: NextRequest, method: Method) {
+  if (method === 'GET') return new URL(req.url).searchParams.get('email')
+  if (typeof req.clone !== 'function') return null
+  const body = await req
+    .clone()
+    .json()
+    .catch(() => null)
+  const account = body?.email ?? body?.identifier
+  return typeof account === 'string' ? account : null
+}
+
+/**
+ * Count the request against its route's per-IP and per-account budgets.
+ * Returns a 429 with `Retry-After` and `RateLimit-*` headers once a budget is spent, otherwise null.
+ * When the client IP can't be resolved (Next 15 doesn't expose the socket address, so without
+ * `trustedProxies` that's every request) only the per-account budget applies: a shared per-IP
+ * bucket would let one client lock everyone out.
+ */
+export async function enforceRateLimit(
+  kind: RouteMatch['kind'] | (string & {}),
+  method: Method,
+  req: NextRequest,
+  config: NextKeyloomConfig,
+) {
+  const route = ROUTES[kind] ?? 'default'
+  const result = await checkRateLimit(
+    route,
+    { ip: clientIp(req, config), account: await accountOf(req, method) },
+    config.rateLimit,
+  )
+  if (!result || result.allowed) return null
+  return NextResponse.json(
+    { error: 'rate_limited' },
+    { status: 429, headers: rateLimitHeaders(result) },
+  )
+}
@@ -0,0 +1,93 @@
+import { memoryAdapter } from '@keyloom/core'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+vi.mock('next/headers', () => ({ headers: () => new Headers() }))
+
+import { requireEntitlement, withRole } from './rbac'
+
+const config = {
+  rbac: {
+    roles: {
+      owner: { permissions: ['billing:*'], inherits: ['admin'] },
+      admin: { permissions: ['members:*'], inherits: ['member'] },
+      member: { permissions: ['docs:read', 'docs:write'] },
+      guest: { permissions: [], inherits: ['member'], deny: ['docs:write'] },
+    },
+    rules: [
+      { effect: 'allow', actions: ['docs:delete'], when: { owner: true } },
+      { effect: 'allow', actions: ['reports:export'], when: { features: ['exports'] } },
+    ],
+  },
+} as any
+
+describe('withRole policy evaluation', () => {
+  let adapter: ReturnType<typeof memoryAdapter>
+  let orgId: string
+  const users: Record<string, { id: string }> = {}
+
+  beforeEach(async () => {
+    adapter = memoryAdapter()
+    orgId = (await adapter.createOrganization({ name: 'Acme' })).id
+    for (const role of ['owner', 'member', 'guest']) {
+      users[role] = await adapter.createUser({ email: `${role}@acme.test` })
+      await adapter.addMember({ userId: users[role]!.id, orgId, role })
+    }
+  })
+
+  const run = (
+    as: string,
+    opts: { requiredRoles?: string[]; requiredPermission?: string; resource?: any },
+  ) =>
+    withRole(async () => new Response('ok'), {
+      ...opts,
+      getUser: async () => users[as]!,
+      adapter,
+      orgId,
+      config,
+    }).then((res) => res.status)
+
+  it('lets roles satisfy the roles and permissions they inherit', async () => {
+    expect(await run('owner', { requiredRoles: ['admin'] })).toBe(200)
+    expect(await run('member', { requiredRoles: ['admin'] })).toBe(403)
+    expect(await run('owner', { requiredPermission: 'docs:write' })).toBe(200)
+    expect(await run('owner', { requiredPermission: 'billing:refund' })).toBe(200)
+    expect(await run('member', { requiredPermission: 'billing:refund' })).toBe(403)
+  })
+
+  it('applies deny lists and rule conditions', async () => {
+    expect(await run('guest', { requiredPermission: 'docs:read' })).toBe(200)
+    expect(await run('guest', { requiredPermission: 'docs:write' })).toBe(403)
+
+    const doc = { type: 'doc', id: 'd1', ownerId: users.member!.id }
+    expect(await run('member', { requiredPermission: 'docs:delete', resource: doc })).toBe(200)
+    expect(await run('guest', { requiredPermission: 'docs:delete', resource: doc })).toBe(403)
+
+    expect(await run('member', { requiredPermission: 'reports:export' })).toBe(403)
+    await adapter.setEntitlements(orgId, { features: { exports: true } })
+    expect(await run('member', { requiredPermission: 'reports:export' })).toBe(200)
+  })
+
+  it('treats suspended memberships as no membership', async () => {
+    const membership = (await adapter.getMembership(users.member!.id, orgId))!
+    await adapter.updateMember(membership.id, { status: 'suspended' })
+    expect(await run('member', {})).toBe(403)
+    expect(await run('member', { requiredPermission: 'docs:read' })).toBe(403)
+  })
+})
+
+describe('requireEntitlement', () => {
+  it('answers 402 unless the org has the feature or room under the limit', async () => {
+    const adapter = memoryAdapter()
+    const orgId = (await adapter.createOrganization({ name: 'Acme' })).id
+    const run = (entitlement: any) =>
+      requireEntitlement(async () => new Response('ok'), { entitlement, adapter, orgId }).then(
+        (res) => res.status,
+      )
+
+    expect(await run('sso')).toBe(402)
+    await adapter.setEntitlements(orgId, { features: { sso: true }, limits: { projects: 2 } })
+    expect(await run('sso')).toBe(200)
+    expect(await run({ limit: 'projects', usage: 1 })).toBe(200)
+    expect(await run({ limit: 'projects', usage: 2 })).toBe(402)
+  })
+})
@@ -1,4 +1,20 @@
-import { ORG_COOKIE_NAME, toPermissionMap } from '@keyloom/core'
+import {
+  activeMemberRole,
+  apiKeyAllows,
+  authenticateApiKey,
+  bearerApiKey,
+  can,
+  type EntitlementRequirement,
+  entitlementAllows,
+  evaluate,
+  hasAnyRole,
+  isPolicyConfigured,
+  needsEntitlements,
+  ORG_COOKIE_NAME,
+  type PolicyResource,
+  type RbacConfig,
+  resolveOrgRbac,
+} from '@keyloom/core'
 import { headers } from 'next/headers'
 import { parseCookieValue } from './cookies'
 import type { NextKeyloomConfig } from './types'
@@ -14,8 +30,8 @@ export function setActiveOrgCookie(orgId: string) {
 }
 
 export async function getRoleForUser(userId: string, orgId: string, adapter: any) {
-  const m = await adapter.getMembership(userId, orgId)
-  return m?.role ?? null
+  // Invited or suspended (e.g. SCIM-deprovisioned) memberships grant nothing
+  return activeMemberRole(await adapter.getMembership(userId, orgId))
 }
 
 export async function getGlobalRoleForUser(userId: string, adapter: any) {
@@ -23,6 +39,36 @@ export async function getGlobalRoleForUser(userId: string, adapter: any) {
   return gr?.role ?? null
 }
 
+/**
+ * Permission check shared by the guards: an explicit `permMap` is matched as-is (wildcards
+ * allowed), otherwise the configured policy is evaluated with inheritance, deny lists and rules.
+ * Without either, permission checks are skipped.
+ */
+async function permits(
+  role: string,
+  userId: string,
+  opts: {
+    requiredPermission?: string
+    permMap?: Record<string, string[]>
+    rbac: RbacConfig | undefined
+    adapter: any
+    orgId?: string | null
+    resource?: PolicyResource
+  },
+) {
+  if (!opts.requiredPermission) return true
+  if (opts.permMap)
+    return !Object.keys(opts.permMap).length || can(role, opts.requiredPermission, opts.permMap)
+  const rbac = opts.rbac
+  if (!isPolicyConfigured(rbac)) return true
+  const entitlements =
+    opts.orgId && needsEntitlements(rbac)
+      ? ((await opts.adapter.getEntitlements?.(opts.orgId)) ?? null)
+      : null
+  return evaluate({ userId, role, entitlements }, opts.requiredPermission, opts.resource, rbac)
+    .allowed
+}
+
 export async function withRole(
   action: () => Promise<Response>,
   opts: {
@@ -36,6 +82,10 @@ export async function withRole(
     rbacEnabled?: boolean
     /** Optional config to auto-derive permMap from rbac roles mapping when provided */
     config?: NextKeyloomConfig
+    /** Accept `Authorization: Bearer klk_...` API keys (verified with `config.secrets.authSecret`). Default true */
+    apiKeys?: boolean
+    /** The resource acted on, for `config.rbac.rules` conditions such as ownership */
+    resource?: PolicyResource
   },
 ) {
   // If RBAC is disabled, skip role/org checks
@@ -43,23 +93,41 @@ export async function withRole(
     return action()
   }
 
+  const bearer =
+    opts.apiKeys === false ? null : bearerApiKey((headers() as any).get('authorization'))
+  if (bearer) {
+    const secret = opts.config?.secrets?.authSecret
+    const principal = secret
+      ? await authenticateApiKey(bearer, { adapter: opts.adapter, secret })
+      : null
+    if (!principal)
+      return opts.onDenied ? opts.onDenied() : new Response('unauthorized', { status: 401 })
+    const orgId = opts.orgId ?? principal.orgId ?? getActiveOrgId()
+    if (!orgId) return opts.onDenied ? opts.onDenied() : new Response('select_org', { status: 400 })
+    const allowed = await apiKeyAllows(principal, {
+      orgId,
+      requiredRoles: opts.requiredRoles,
+      requiredPermission: opts.requiredPermission,
+      rbac: opts.config?.rbac,
+      adapter: opts.adapter,
+    })
+    if (!allowed)
+      return opts.onDenied ? opts.onDenied() : new Response('forbidden', { status: 403 })
+    return action()
+  }
+
   const user = await opts.getUser()
   if (!user) return opts.onDenied ? opts.onDenied() : new Response('unauthorized', { status: 401 })
   const orgId = opts.orgId ?? getActiveOrgId()
   if (!orgId) return opts.onDenied ? opts.onDenied() : new Response('select_org', { status: 400 })
   const role = await getRoleForUser(user.id, orgId, opts.adapter)
   if (!role) return opts.onDenied ? opts.onDenied() : new Response('forbidden', { status: 403 })
-  if (opts.requiredRoles?.length && !opts.requiredRoles.includes(role))
+  // Custom org roles join the static ones here; system roles keep their configured permissions
+  const rbac = await resolveOrgRbac(orgId, { rbac: opts.config?.rbac, adapter: opts.adapter })
+  if (opts.requiredRoles?.length && !hasAnyRole(role, opts.requiredRoles, rbac))
+    return new Response('forbidden', { status: 403 })
+  if (!(await permits(role, user.id, { ...opts, rbac, orgId })))
     return new Response('forbidden', { status: 403 })
-
-  // Determine effective permission map (explicit > derived-from-config)
-  const derivedMap = opts.config ? toPermissionMap(opts.config.rbac) : {}
-  const effectivePermMap = opts.permMap ?? derivedMap
-
-  if (opts.requiredPermission && effectivePermMap && Object.keys(effectivePermMap).length) {
-    const allowed = (effectivePermMap[opts.requiredPermission] ?? []).includes(role)
-    if (!allowed) return new Response('forbidden', { status: 403 })
-  }
   return action()
 }
 
@@ -89,17 +157,10 @@ export async function withGlobalRole(
   if (!globalRole)
     return opts.onDenied ? opts.onDenied() : new Response('forbidden', { status: 403 })
 
-  if (opts.requiredRoles?.length && !opts.requiredRoles.includes(globalRole))
+  if (opts.requiredRoles?.length && !hasAnyRole(globalRole, opts.requiredRoles, opts.config?.rbac))
+    return new Response('forbidden', { status: 403 })
+  if (!(await permits(globalRole, user.id, { ...opts, rbac: opts.config?.rbac })))
     return new Response('forbidden', { status: 403 })
-
-  // Determine effective permission map (explicit > derived-from-config)
-  const derivedMap = opts.config ? toPermissionMap(opts.config.rbac) : {}
-  const effectivePermMap = opts.permMap ?? derivedMap
-
-  if (opts.requiredPermission && effectivePermMap && Object.keys(effectivePermMap).length) {
-    const allowed = (effectivePermMap[opts.requiredPermission] ?? []).includes(globalRole)
-    if (!allowed) return new Response('forbidden', { status: 403 })
-  }
 
   return action()
 }
@@ -130,22 +191,25 @@ export async function withAnyRole(
 
   let hasAccess = false
   let userRole: string | null = null
+  let rbac = opts.config?.rbac
 
   // Check global role first
   if (opts.requiredGlobalRoles?.length) {
     const globalRole = await getGlobalRoleForUser(user.id, opts.adapter)
-    if (globalRole && opts.requiredGlobalRoles.includes(globalRole)) {
+    if (globalRole && hasAnyRole(globalRole, opts.requiredGlobalRoles, opts.config?.rbac)) {
       hasAccess = true
       userRole = globalRole
     }
   }
 
   // If no global access, check organization role
+  let orgId: string | null = null
   if (!hasAccess && opts.requiredRoles?.length) {
-    const orgId = opts.orgId ?? getActiveOrgId()
+    orgId = opts.orgId ?? getActiveOrgId()
     if (orgId) {
       const orgRole = await getRoleForUser(user.id, orgId, opts.adapter)
-      if (orgRole && opts.requiredRoles.includes(orgRole)) {
+      rbac = await resolveOrgRbac(orgId, { rbac, adapter: opts.adapter })
+      if (orgRole && hasAnyRole(orgRole, opts.requiredRoles, rbac)) {
         hasAccess = true
         userRole = orgRole
       }
@@ -155,19 +219,30 @@ export async function withAnyRole(
   if (!hasAccess)
     return opts.onDenied ? opts.onDenied() : new Response('forbidden', { status: 403 })
 
-  // Determine effective permission map (explicit > derived-from-config)
-  const derivedMap = opts.config ? toPermissionMap(opts.config.rbac) : {}
-  const effectivePermMap = opts.permMap ?? derivedMap
-
-  if (
-    opts.requiredPermission &&
-    effectivePermMap &&
-    Object.keys(effectivePermMap).length &&
-    userRole
-  ) {
-    const allowed = (effectivePermMap[opts.requiredPermission] ?? []).includes(userRole)
-    if (!allowed) return new Response('forbidden', { status: 403 })
-  }
+  if (userRole && !(await permits(userRole, user.id, { ...opts, rbac, orgId })))
+    return new Response('forbidden', { status: 403 })
 
   return action()
 }
+
+/**
+ * Runs `action` only when the org's entitlements include `entitlement` (a feature, or a limit
+ * with its current usage); otherwise answers 402 `entitlement_required`. Nest it inside
+ * `withRole` to check both.
+ */
+export async function requireEntitlement(
+  action: () => Promise<Response>,
+  opts: {
+    entitlement: EntitlementRequirement
+    adapter: any
+    orgId?: string | null
+    onDenied?: () => Response
+  },
+) {
+  const orgId = opts.orgId ?? getActiveOrgId()
+  if (!orgId) return opts.onDenied ? opts.onDenied() : new Response('select_org', { status: 400 })
+  const ent = (await opts.adapter.getEntitlements?.(orgId)) ?? null
+  if (!(await entitlementAllows(ent, opts.entitlement)))
+    return opts.onDenied ? opts.onDenied() : new Response('entitlement_required', { status: 402 })
+  return action()
+}
@@ -7,6 +7,14 @@ describe('matchApiPath', () => {
     expect(matchApiPath('/some/prefix/api/auth/session')).toEqual({ kind: 'session' })
   })
 
+  it('should match sessions route', () => {
+    expect(matchApiPath('/api/auth/sessions')).toEqual({ kind: 'sessions' })
+  })
+
+  it('should match linked accounts route', () => {
+    expect(matchApiPath('/api/auth/accounts')).toEqual({ kind: 'accounts' })
+  })
+
   it('should match csrf route', () => {
     expect(matchApiPath('/api/auth/csrf')).toEqual({ kind: 'csrf' })
     expect(matchApiPath('/app/api/auth/csrf')).toEqual({ kind: 'csrf' })
@@ -24,6 +32,85 @@ describe('matchApiPath', () => {
     expect(matchApiPath('/api/auth/logout')).toEqual({ kind: 'logout' })
   })
 
+  it('should match org audit route', () => {
+    expect(matchApiPath('/api/auth/orgs/org_1/audit')).toEqual({
+      kind: 'org_audit',
+      orgId: 'org_1',
+    })
+    expect(matchApiPath('/api/auth/orgs/audit')).toBeNull()
+  })
+
+  it('should match personal and org api key routes', () => {
+    expect(matchApiPath('/api/api-keys')).toEqual({ kind: 'api_keys' })
+    expect(matchApiPath('/api/auth/api-keys/key_1')).toEqual({ kind: 'api_keys', id: 'key_1' })
+    expect(matchApiPath('/api/auth/orgs/org_1/api-keys')).toEqual({
+      kind: 'api_keys',
+      orgId: 'org_1',
+    })
+    expect(matchApiPath('/api/auth/orgs/org_1/api-keys/key_1')).toEqual({
+      kind: 'api_keys',
+      orgId: 'org_1',
+      id: 'key_1',
+    })
+  })
+
+  it('should match org domain routes', () => {
+    expect(matchApiPath('/api/auth/orgs/org_1/domains')).toEqual({
+      kind: 'org_domains',
+      orgId: 'org_1',
+    })
+    expect(matchApiPath('/api/auth/orgs/org_1/domains/dom_1')).toEqual({
+      kind: 'org_domains',
+      orgId: 'org_1',
+      id: 'dom_1',
+    })
+    expect(matchApiPath('/api/auth/orgs/org_1/domains/dom_1/verify')).toEqual({
+      kind: 'org_domains',
+      orgId: 'org_1',
+      id: 'dom_1',
+      verify: true,
+    })
+    expect(matchApiPath('/api/auth/orgs/org_1/domains/dom_1/other')).toBeNull()
+    expect(matchApiPath('/api/auth/domains')).toBeNull()
+  })
+
+  it('should match org role routes', () => {
+    expect(matchApiPath('/api/auth/orgs/org_1/roles')).toEqual({
+      kind: 'org_roles',
+      orgId: 'org_1',
+    })
+    expect(matchApiPath('/api/auth/orgs/org_1/roles/role_1')).toEqual({
+      kind: 'org_roles',
+      orgId: 'org_1',
+      id: 'role_1',
+    })
+    expect(matchApiPath('/api/auth/orgs/org_1/roles/role_1/other')).toBeNull()
+    expect(matchApiPath('/api/auth/roles')).toBeNull()
+  })
+
+  it('should match org lifecycle routes', () => {
+    expect(matchApiPath('/api/auth/orgs/org_1')).toEqual({ kind: 'org', orgId: 'org_1' })
+    expect(matchApiPath('/api/auth/orgs/org_1/transfer')).toEqual({
+      kind: 'org',
+      orgId: 'org_1',
+      action: 'transfer',
+    })
+    expect(matchApiPath('/api/auth/orgs/org_1/other')).toBeNull()
+    expect(matchApiPath('/api/auth/orgs/domains')).toBeNull()
+  })
+
+  it('should match org member and invite routes', () => {
+    expect(matchApiPath('/api/auth/orgs/org_1/members')).toEqual({
+      kind: 'org_members',
+      orgId: 'org_1',
+    })
+    expect(matchApiPath('/api/auth/orgs/org_1/invites/accept')).toEqual({
+      kind: 'org_invite_accept',
+      orgId: 'org_1',
+    })
+    expect(matchApiPath('/api/auth/orgs/members')).toBeNull()
+  })
+
   it('should return null for unknown routes', () => {
     expect(matchApiPath('/api/auth/unknown')).toBeNull()
     expect(matchApiPath('/not-auth')).toBeNull()
@@ -45,5 +132,12 @@ describe('matchApiPath', () => {
       kind: 'oauth_callback',
       provider: 'google',
     })
+    expect(matchApiPath('/api/auth/oauth/link/confirm')).toEqual({ kind: 'oauth_link_confirm' })
+  })
+
+  it('matches two-factor routes', () => {
+    expect(matchApiPath('/api/account/enable-2fa')).toEqual({ kind: 'two_factor_enable' })
+    expect(matchApiPath('/api/account/disable-2fa')).toEqual({ kind: 'two_factor_disable' })
+    expect(matchApiPath('/api/auth/2fa/verify')).toEqual({ kind: 'two_factor_verify' })
   })
 })
@@ -1,5 +1,7 @@
 export type RouteMatch =
   | { kind: "session" }
+  | { kind: "sessions" }
+  | { kind: "accounts" }
   | { kind: "csrf" }
   | { kind: "register" }
   | { kind: "login" }
@@ -9,8 +11,22 @@ export type RouteMatch =
   | { kind: "email_verify" }
   | { kind: "magic_link_request" }
   | { kind: "magic_link_verify" }
+  | { kind: "two_factor_enable" }
+  | { kind: "two_factor_disable" }
+  | { kind: "two_factor_verify" }
+  | { kind: "org_audit"; orgId: string }
+  | { kind: "org"; orgId: string; action?: "restore" | "transfer" | "leave" }
+  | { kind: "org_domains"; orgId: string; id?: string; verify?: boolean }
+  | { kind: "org_roles"; orgId: string; id?: string }
+  | { kind: "org_members"; orgId: string }
+  | { kind: "org_invite_accept"; orgId: string }
+  | { kind: "api_keys"; orgId?: string; id?: string }
   | { kind: "oauth_start"; provider: string }
-  | { kind: "oauth_callback"; provider: string };
+  | { kind: "oauth_callback"; provider: string }
+  | { kind: "oauth_link_confirm" };
+
+// Segments under .../orgs/ that name a sub-resource rather than an org
+const ORG_RESOURCES = new Set(["audit", "domains", "roles", "api-keys", "members", "invites"]);
 
 export function matchApiPath(pathname: string): RouteMatch | null {
   const parts = pathname.split("/").filter(Boolean);
@@ -20,6 +36,10 @@ export function matchApiPath(pathname: string): RouteMatch | null {
   switch (last) {
     case "session":
       return { kind: "session" };
+    case "sessions":
+      return { kind: "sessions" };
+    case "accounts":
+      return { kind: "accounts" };
     case "csrf":
       return { kind: "csrf" };
     case "register":
@@ -28,6 +48,10 @@ export function matchApiPath(pathname: string): RouteMatch | null {
       return { kind: "login" };
     case "logout":
       return { kind: "logout" };
+    case "enable-2fa":
+      return { kind: "two_factor_enable" };
+    case "disable-2fa":
+      return { kind: "two_factor_disable" };
     case "request":
       if (parts.includes("password")) return { kind: "password_request" };
       if (parts.includes("magic-link")) return { kind: "magic_link_request" };
@@ -38,9 +62,85 @@ export function matchApiPath(pathname: string): RouteMatch | null {
     case "verify":
       if (parts.includes("email")) return { kind: "email_verify" };
       if (parts.includes("magic-link")) return { kind: "magic_link_verify" };
+      if (parts.includes("2fa")) return { kind: "two_factor_verify" };
+      break;
+    case "confirm":
+      // Pending OAuth account link: .../oauth/link/confirm
+      if (parts[parts.length - 2] === "link" && parts[parts.length - 3] === "oauth")
+        return { kind: "oauth_link_confirm" };
       break;
   }
 
+  // Org audit log: .../orgs/:orgId/audit
+  const o = parts.lastIndexOf("orgs");
+  if (last === "audit" && o >= 0 && o === parts.length - 3) {
+    return { kind: "org_audit", orgId: decodeURIComponent(parts[o + 1] as string) };
+  }
+
+  // Org lifecycle: .../orgs/:orgId and .../orgs/:orgId/(restore|transfer|leave); sub-resource
+  // names are never org ids
+  if (o >= 0 && o === parts.length - 2 && !ORG_RESOURCES.has(last as string)) {
+    return { kind: "org", orgId: decodeURIComponent(parts[o + 1] as string) };
+  }
+  if (
+    o >= 0 &&
+    o === parts.length - 3 &&
+    !ORG_RESOURCES.has(parts[o + 1] as string) &&
+    (last === "restore" || last === "transfer" || last === "leave")
+  ) {
+    return {
+      kind: "org",
+      orgId: decodeURIComponent(parts[o + 1] as string),
+      action: last,
+    };
+  }
+
+  // Org members and invites: .../orgs/:orgId/members and .../orgs/:orgId/invites/accept
+  if (o >= 0 && o === parts.length - 3 && last === "members") {
+    return { kind: "org_members", orgId: decodeURIComponent(parts[o + 1] as string) };
+  }
+  if (o >= 0 && o === parts.length - 4 && parts[o + 2] === "invites" && last === "accept") {
+    return { kind: "org_invite_accept", orgId: decodeURIComponent(parts[o + 1] as string) };
+  }
+
+  // Org email domains: .../orgs/:orgId/domains[/:id[/verify]]
+  const d = parts.lastIndexOf("domains");
+  if (d >= 2 && parts[d - 2] === "orgs" && d >= parts.length - 3) {
+    const rest = parts.slice(d + 1);
+    if (rest.length < 2 || rest[1] === "verify") {
+      const match: Extract<RouteMatch, { kind: "org_domains" }> = {
+        kind: "org_domains",
+        orgId: decodeURIComponent(parts[d - 1] as string),
+      };
+      if (rest[0]) match.id = decodeURIComponent(rest[0]);
+      if (rest[1]) match.verify = true;
+      return match;
+    }
+  }
+
+  // Org custom roles: .../orgs/:orgId/roles[/:id]
+  const r = parts.lastIndexOf("roles");
+  if (r >= 2 && parts[r - 2] === "orgs" && r >= parts.length - 2) {
+    const match: Extract<RouteMatch, { kind: "org_roles" }> = {
+      kind: "org_roles",
+      orgId: decodeURIComponent(parts[r - 1] as string),
+    };
+    if (parts[r + 1]) match.id = decodeURIComponent(parts[r + 1] as string);
+    return match;
+  }
+
+  // API keys: .../api-keys[/:id], or org keys at .../orgs/:orgId/api-keys[/:id]
+  const k = parts.lastIndexOf("api-keys");
+  if (k >= 0 && k >= parts.length - 2) {
+    const match: { kind: "api_keys"; orgId?: string; id?: string } = {
+      kind: "api_keys",
+    };
+    if (parts[k + 1]) match.id = decodeURIComponent(parts[k + 1] as string);
+    if (k >= 2 && parts[k - 2] === "orgs")
+      match.orgId = decodeURIComponent(parts[k - 1] as string);
+    return match;
+  }
+
   // OAuth routes: .../oauth/:provider/start or .../oauth/:provider/callback
   const i = parts.indexOf("oauth");
   if (i >= 0 && (last === "start" || last === "callback") && parts[i + 1]) {
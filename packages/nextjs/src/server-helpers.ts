@@ -1,7 +1,21 @@
 import { ORG_COOKIE_NAME } from '@keyloom/core/constants'
-import type { Session, User } from '@keyloom/core'
-
-import { getCurrentSession } from '@keyloom/core/runtime/current-session'
+import type { ProviderAccessToken, Session, User } from '@keyloom/core'
+import { getProviderAccessToken as providerAccessToken } from '@keyloom/core'
+import { apiKeyAllows, authenticateApiKey, bearerApiKey } from '@keyloom/core/api-keys'
+import {
+  activeMemberRole,
+  evaluate,
+  hasAnyRole,
+  isPolicyConfigured,
+  needsEntitlements,
+  resolveOrgRbac,
+} from '@keyloom/core/rbac'
+
+import {
+  getCurrentSession,
+  type SessionPolicy,
+  sessionPolicyFromConfig,
+} from '@keyloom/core/runtime/current-session'
 import { cookies, headers } from 'next/headers'
 import { redirect } from 'next/navigation'
 import { parseCookieValue } from './cookies'
@@ -21,6 +35,12 @@ export type GetSessionResult = {
 let _config: NextKeyloomConfig | undefined
 let _adapter: any
 
+// Server components can't write cookies, so only idle/absolute limits are enforced here;
+// rolling renewal happens in the route handler, which re-issues the cookie.
+function readOnlyPolicy(config: NextKeyloomConfig): SessionPolicy {
+  return { ...sessionPolicyFromConfig(config), rolling: false }
+}
+
 function ensure(config?: NextKeyloomConfig) {
   if (config) _config = config
   if (!_config) throw new Error('Keyloom config not provided')
@@ -52,7 +72,7 @@ export async function getSession(config?: NextKeyloomConfig): Promise<GetSession
   if (cfg.sessionStrategy === 'jwt') {
     const envLike = resolveJwtEnv(cfg)
     if (envLike) {
-      const jwtConfig = createJwtConfig(envLike)
+      const jwtConfig = createJwtConfig(envLike, cfg.jwt?.keystore)
       const result = await getJwtSession(jwtConfig)
       return { session: result.session, user: result.user }
     }
@@ -61,7 +81,7 @@ export async function getSession(config?: NextKeyloomConfig): Promise<GetSession
   // Fallback to database session strategy
   const cookieHeader = (await headers()).get('cookie') ?? cookies().toString()
   const sid = parseCookieValue(cookieHeader)
-  const { session, user } = await getCurrentSession(sid, adapter)
+  const { session, user } = await getCurrentSession(sid, adapter, readOnlyPolicy(cfg))
   return { session, user }
 }
 
@@ -70,23 +90,77 @@ export async function getUser(config?: NextKeyloomConfig): Promise<User | JwtUse
   return out.user
 }
 
-// Server-side guard for App Router
-export async function guard(
-  rule?: {
-    visibility?: 'public' | '!public' | '!authed' | 'private' | `role:${string}`
-    roles?: string[]
-    permission?: string
-    org?: boolean | 'required'
-    redirectTo?: string
-  },
+/**
+ * Access token for the signed-in user's linked `providerId` account, refreshed when expired.
+ * Null when signed out or when the provider isn't linked.
+ */
+export async function getProviderAccessToken(
+  providerId: string,
   config?: NextKeyloomConfig,
+): Promise<ProviderAccessToken | null> {
+  const { config: cfg, adapter } = ensure(config)
+  const secret = cfg.secrets?.authSecret
+  if (!secret) throw new Error('auth_secret_required')
+  const user = await getUser(cfg)
+  if (!user) return null
+  return providerAccessToken(user.id, providerId, {
+    adapter,
+    providers: (cfg as any).providers ?? [],
+    secret,
+  })
+}
+
+type GuardRule = {
+  visibility?: 'public' | '!public' | '!authed' | 'private' | `role:${string}`
+  roles?: string[]
+  permission?: string
+  org?: boolean | 'required'
+  redirectTo?: string
+}
+
+// Requests carrying `Authorization: Bearer klk_...` are authorized by the key instead of a session
+async function guardApiKey(
+  key: string,
+  rule: GuardRule | undefined,
+  cfg: NextKeyloomConfig,
+  adapter: any,
 ) {
+  const secret = cfg.secrets?.authSecret
+  const principal = secret ? await authenticateApiKey(key, { adapter, secret }) : null
+  const user = principal ? await adapter.getUser(principal.userId) : null
+  if (!principal || !user) return redirect(rule?.redirectTo ?? '/sign-in')
+  if (rule?.visibility === '!authed') return redirect(rule.redirectTo ?? '/')
+
+  const need = rule?.visibility?.startsWith('role:') ? [rule.visibility.slice(5)] : rule?.roles
+  const checksOrg = !!need?.length || !!rule?.permission || rule?.org === 'required'
+  if (!checksOrg || cfg.rbac?.enabled === false)
+    return { session: null, user, apiKey: principal.apiKey }
+
+  const cookieHeader = (await headers()).get('cookie') ?? cookies().toString()
+  const orgId = principal.orgId ?? parseCookieValue(cookieHeader, ORG_COOKIE_NAME)
+  if (!orgId) return redirect('/select-org')
+  const allowed = await apiKeyAllows(principal, {
+    orgId,
+    requiredRoles: need,
+    requiredPermission: rule?.permission,
+    rbac: cfg.rbac,
+    adapter,
+  })
+  if (!allowed) return redirect('/403')
+  return { session: null, user, apiKey: principal.apiKey, orgId }
+}
+
+// Server-side guard for App Router
+export async function guard(rule?: GuardRule, config?: NextKeyloomConfig) {
   const { config: cfg, adapter } = ensure(config)
 
   const effVis = rule?.visibility === '!public' ? 'private' : rule?.visibility
   const isPublic = effVis === 'public'
   if (isPublic) return
 
+  const apiKey = bearerApiKey((await headers()).get('authorization'))
+  if (apiKey) return guardApiKey(apiKey, rule, cfg, adapter)
+
   let session: any = null
   let user: any = null
 
@@ -94,7 +168,7 @@ export async function guard(
   if (cfg.sessionStrategy === 'jwt') {
     const envLike = resolveJwtEnv(cfg)
     if (envLike) {
-      const jwtConfig = createJwtConfig(envLike)
+      const jwtConfig = createJwtConfig(envLike, cfg.jwt?.keystore)
       const result = await getJwtSession(jwtConfig)
       session = result.session
       user = result.user
@@ -105,7 +179,7 @@ export async function guard(
     // Fallback to database session strategy
     const cookieHeader = (await headers()).get('cookie') ?? cookies().toString()
     const sid = parseCookieValue(cookieHeader)
-    const sessionResult = await getCurrentSession(sid, adapter)
+    const sessionResult = await getCurrentSession(sid, adapter, readOnlyPolicy(cfg))
     session = sessionResult.session
     user = sessionResult.user
   }
@@ -138,31 +212,21 @@ export async function guard(
     const orgId = parseCookieValue(cookieHeader, ORG_COOKIE_NAME)
     if (orgRequired && !orgId) return redirect('/select-org')
 
-    const m = await adapter.getMembership(user.id, orgId)
-    if (!m) return redirect('/403')
-
-    if (need && need.length > 0 && !need.includes(m.role)) return redirect('/403')
-
-    if (needsPermission && rule?.permission) {
-      // Derive permission map from structured RBAC config if available
-      const rolesDecl = (cfg as any)?.rbac?.roles as any
-      const permMap: Record<string, string[]> = {}
-      if (rolesDecl && typeof rolesDecl === 'object' && !Array.isArray(rolesDecl)) {
-        for (const [r, obj] of Object.entries(rolesDecl)) {
-          const perms = (obj as any)?.permissions || []
-          for (const p of perms) {
-            if (!permMap[p]) permMap[p] = []
-            if (!permMap[p].includes(r)) permMap[p].push(r)
-          }
-        }
-      }
-      if (Object.keys(permMap).length > 0) {
-        const allowed = (permMap[rule.permission] ?? []).includes(m.role)
-        if (!allowed) return redirect('/403')
-      }
+    const role = activeMemberRole(await adapter.getMembership(user.id, orgId))
+    if (!role) return redirect('/403')
+
+    const rbac = await resolveOrgRbac(orgId, { rbac: cfg?.rbac, adapter })
+    if (need && need.length > 0 && !hasAnyRole(role, need, rbac)) return redirect('/403')
+
+    if (needsPermission && rule?.permission && isPolicyConfigured(rbac)) {
+      const entitlements = needsEntitlements(rbac)
+        ? ((await adapter.getEntitlements?.(orgId)) ?? null)
+        : null
+      const decision = evaluate({ userId: user.id, role, entitlements }, rule.permission, {}, rbac)
+      if (!decision.allowed) return redirect('/403')
     }
 
-    return { session, user, role: m.role as string, orgId }
+    return { session, user, role, orgId }
   }
 
   if (rule?.org === 'required' && cfg?.rbac?.enabled !== false) {
@@ -0,0 +1,101 @@
+import type { Adapter, SessionMeta } from '@keyloom/core'
+import { getCurrentSession, sessionPolicyFromConfig } from '@keyloom/core/runtime/current-session'
+import {
+  listUserSessions,
+  revokeUserSession,
+  revokeUserSessions,
+} from '@keyloom/core/runtime/sessions'
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+import { parseCookieValue, setSessionCookieHeader } from './cookies'
+import { clientIp } from './rate-limit'
+import type { NextKeyloomConfig } from './types'
+
+/** Client IP (under `rateLimit.trustedProxies`) and user agent, recorded on new sessions. */
+export function sessionMetaFromRequest(req: NextRequest, config: NextKeyloomConfig): SessionMeta {
+  return {
+    ip: clientIp(req, config),
+    userAgent: req.headers.get('user-agent') || null,
+  }
+}
+
+/**
+ * Current database session under the configured rolling/idle/absolute policy.
+ * `setCookie` is present when the session cookie must be re-issued (renewed) or cleared (expired).
+ */
+export async function resolveSession(
+  req: NextRequest,
+  config: NextKeyloomConfig,
+  adapter: Adapter,
+) {
+  const sid = parseCookieValue(req.headers.get('cookie'))
+  const { renewed, expired, ...current } = await getCurrentSession(
+    sid,
+    adapter,
+    sessionPolicyFromConfig(config),
+  )
+  const sameSite = config.cookie?.sameSite ?? 'lax'
+  let setCookie: string | undefined
+  if (renewed && current.session) {
+    const maxAgeSec = (new Date(current.session.expiresAt).getTime() - Date.now()) / 1000
+    setCookie = setSessionCookieHeader(current.session.id, {
+      sameSite,
+      maxAgeSec: Math.floor(maxAgeSec),
+    })
+  } else if (expired) {
+    setCookie = setSessionCookieHeader('', { sameSite, maxAgeSec: 0 })
+  }
+  return { ...current, setCookie }
+}
+
+/**
+ * Session management for the signed-in user (database strategy):
+ * - GET: list active sessions, the caller's flagged `current`
+ * - DELETE `{ id }`: revoke one session by its public id
+ * - DELETE `{ all: true }`: revoke every session, including this one
+ * - DELETE `{}`: sign out everywhere else
+ */
+export async function handleSessionsRoute(
+  method: 'GET' | 'DELETE',
+  req: NextRequest,
+  config: NextKeyloomConfig,
+  adapter: Adapter,
+) {
+  const { session, user, setCookie } = await resolveSession(req, config, adapter)
+  if (!session || !user) {
+    const res = NextResponse.json({ error: 'unauthorized' }, { status: 401 })
+    if (setCookie) res.headers.append('Set-Cookie', setCookie)
+    return res
+  }
+
+  if (method === 'GET') {
+    const sessions = await listUserSessions(user.id, session.id, adapter)
+    const res = NextResponse.json({ sessions })
+    if (setCookie) res.headers.append('Set-Cookie', setCookie)
+    return res
+  }
+
+  const body = await req.json().catch(() => ({}))
+  const clearCookie = (res: NextResponse) => {
+    res.headers.append(
+      'Set-Cookie',
+      setSessionCookieHeader('', { maxAgeSec: 0, sameSite: config.cookie?.sameSite ?? 'lax' }),
+    )
+    return res
+  }
+
+  if (typeof body.id === 'string') {
+    const revoked = await revokeUserSession(user.id, body.id, adapter)
+    if (!revoked) return NextResponse.json({ error: 'session_not_found' }, { status: 404 })
+    const res = NextResponse.json({ ok: true, revoked: 1 })
+    return (await adapter.getSession(session.id)) ? res : clearCookie(res)
+  }
+
+  if (body.all === true) {
+    const revoked = await revokeUserSessions(user.id, adapter)
+    return clearCookie(NextResponse.json({ ok: true, revoked }))
+  }
+
+  const revoked = await revokeUserSessions(user.id, adapter, session.id)
+  return NextResponse.json({ ok: true, revoked })
+}
@@ -0,0 +1,128 @@
+import {
+  createEventBus,
+  KeyloomError,
+  TWO_FACTOR_COOKIE_NAME,
+  TWO_FACTOR_VERIFY_PATH,
+} from '@keyloom/core'
+import { getCurrentSession } from '@keyloom/core/runtime/current-session'
+import {
+  beginTotpEnrollment,
+  completeSecondFactor,
+  confirmTotpEnrollment,
+  disableTwoFactor,
+  type TwoFactorAdapter,
+} from '@keyloom/core/two-factor'
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+import {
+  parseCookieValue,
+  setPendingSecondFactorCookieHeader,
+  setSessionCookieHeader,
+} from './cookies'
+import { sessionMetaFromRequest } from './sessions'
+import type { NextKeyloomConfig } from './types'
+
+type TwoFactorKind = 'two_factor_enable' | 'two_factor_disable' | 'two_factor_verify'
+
+function errorResponse(e: unknown) {
+  if (!(e instanceof KeyloomError)) throw e
+  const status =
+    e.code === 'RATE_LIMITED' ? 429 : e.code === 'TWO_FACTOR_PENDING_INVALID' ? 401 : 400
+  return NextResponse.json({ error: e.code }, { status })
+}
+
+/**
+ * Redirect for a sign-in that still owes a second factor: holds the pending token in its cookie
+ * and sends the user to `config.twoFactor.verifyPath` with `callbackUrl` set to their destination.
+ */
+export function secondFactorRedirect(
+  pending: { pendingToken: string; expiresAt: Date },
+  callbackUrl: string,
+  baseUrl: string,
+  config: NextKeyloomConfig,
+) {
+  const url = new URL(config.twoFactor?.verifyPath ?? TWO_FACTOR_VERIFY_PATH, baseUrl)
+  url.searchParams.set('callbackUrl', callbackUrl)
+  const res = NextResponse.redirect(url)
+  res.headers.append(
+    'Set-Cookie',
+    setPendingSecondFactorCookieHeader(pending.pendingToken, {
+      sameSite: config.cookie?.sameSite ?? 'lax',
+      maxAgeSec: (pending.expiresAt.getTime() - Date.now()) / 1000,
+    }),
+  )
+  return res
+}
+
+/**
+ * POST handlers for TOTP 2FA:
+ * - enable-2fa: `{}` starts enrollment, `{ enrollmentToken, code }` confirms it
+ * - disable-2fa: `{ code }` (TOTP or recovery code)
+ * - 2fa/verify: `{ code }` exchanges the pending second-factor cookie for a session
+ */
+export async function handleTwoFactorRoute(
+  kind: TwoFactorKind,
+  req: NextRequest,
+  config: NextKeyloomConfig,
+  adapter: TwoFactorAdapter,
+) {
+  const authSecret = config.secrets?.authSecret
+  if (typeof authSecret !== 'string' || !authSecret) throw new Error('auth_secret_required')
+  const body = await req.json().catch(() => ({}))
+  const sameSite = config.cookie?.sameSite ?? 'lax'
+
+  try {
+    if (kind === 'two_factor_verify') {
+      const pendingToken = parseCookieValue(req.headers.get('cookie'), TWO_FACTOR_COOKIE_NAME)
+      if (!pendingToken || !body.code)
+        return NextResponse.json({ error: 'invalid_request' }, { status: 400 })
+      const completeInput: Parameters<typeof completeSecondFactor>[0] = {
+        pendingToken,
+        code: String(body.code),
+        meta: sessionMetaFromRequest(req, config),
+      }
+      if (typeof config.session?.ttlMinutes === 'number')
+        completeInput.ttlMinutes = config.session.ttlMinutes
+      const { session } = await completeSecondFactor(completeInput, {
+        adapter,
+        authSecret,
+        events: createEventBus({ hooks: config.hooks, adapter }),
+        ...(config.rateLimit ? { rateLimit: config.rateLimit } : {}),
+      })
+      const res = NextResponse.json({ sessionId: session.id })
+      res.headers.append('Set-Cookie', setSessionCookieHeader(session.id, { sameSite }))
+      res.headers.append(
+        'Set-Cookie',
+        setPendingSecondFactorCookieHeader('', { sameSite, maxAgeSec: 0 }),
+      )
+      return res
+    }
+
+    const sid = parseCookieValue(req.headers.get('cookie'))
+    const { user } = await getCurrentSession(sid, adapter)
+    if (!user) return NextResponse.json({ error: 'unauthorized' }, { status: 401 })
+
+    if (kind === 'two_factor_enable') {
+      if (!body.enrollmentToken) {
+        const issuer = config.appName ?? 'Keyloom'
+        const enrollment = await beginTotpEnrollment(user, { authSecret, issuer })
+        return NextResponse.json(enrollment)
+      }
+      if (!body.code) return NextResponse.json({ error: 'invalid_request' }, { status: 400 })
+      const { recoveryCodes } = await confirmTotpEnrollment(
+        { userId: user.id, enrollmentToken: String(body.enrollmentToken), code: String(body.code) },
+        { adapter, authSecret },
+      )
+      return NextResponse.json({ ok: true, recoveryCodes })
+    }
+
+    if (!body.code) return NextResponse.json({ error: 'invalid_request' }, { status: 400 })
+    await disableTwoFactor(
+      { userId: user.id, code: String(body.code) },
+      { adapter, authSecret, ...(config.rateLimit ? { rateLimit: config.rateLimit } : {}) },
+    )
+    return NextResponse.json({ ok: true })
+  } catch (e) {
+    return errorResponse(e)
+  }
+}
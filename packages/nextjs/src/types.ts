@@ -1,4 +1,5 @@
 import type { KeyloomConfig } from "@keyloom/core";
+import type { KeystoreStore } from "@keyloom/core/jwt";
 import type { NextRequest } from "next/server";
 import type { NextRoute } from "@keyloom/core/plugins";
 
@@ -15,15 +16,24 @@ export type NextKeyloomHooks = {
 
 export type RequestKind =
   | "session"
+  | "sessions"
   | "csrf"
   | "oauth_start"
   | "oauth_callback"
+  | "oauth_link_confirm"
   | "register"
   | "login"
   | "logout"
   | "password_request"
   | "password_reset"
   | "email_verify"
+  | "two_factor_enable"
+  | "two_factor_disable"
+  | "two_factor_verify"
+  | "api_keys"
+  | "org_domains"
+  | "org_roles"
+  | "org"
   | "unknown";
 
 export type NextKeyloomConfig = KeyloomConfig & {
@@ -34,6 +44,8 @@ export type NextKeyloomConfig = KeyloomConfig & {
     KEYLOOM_JWT_ISSUER?: string;
     KEYLOOM_JWT_AUDIENCE?: string;
     KEYLOOM_JWT_CLOCK_SKEW_SEC?: string;
+    /** Verify with keys from the store the issuing server uses (e.g. `adapterKeystoreStore`) */
+    keystore?: KeystoreStore;
   };
   /** Optional hooks for custom validation or metrics */
   hooks?: NextKeyloomHooks;
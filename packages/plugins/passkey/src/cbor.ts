@@ -0,0 +1,97 @@
+// Minimal CBOR decoder (RFC 8949) covering what WebAuthn attestation objects and COSE keys use:
+// unsigned/negative integers, byte/text strings, arrays, maps and simple values.
+// Maps decode to Map so integer COSE labels survive.
+
+export type CborValue =
+  | number
+  | bigint
+  | string
+  | boolean
+  | null
+  | undefined
+  | Uint8Array
+  | CborValue[]
+  | Map<CborValue, CborValue>
+
+const textDecoder = new TextDecoder()
+
+function readLength(bytes: Uint8Array, info: number, offset: number): [number, number] {
+  if (info < 24) return [info, offset]
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  if (info === 24) return [view.getUint8(offset), offset + 1]
+  if (info === 25) return [view.getUint16(offset), offset + 2]
+  if (info === 26) return [view.getUint32(offset), offset + 4]
+  if (info === 27) {
+    const big = view.getBigUint64(offset)
+    if (big > BigInt(Number.MAX_SAFE_INTEGER)) throw new Error('cbor_unsupported_length')
+    return [Number(big), offset + 8]
+  }
+  throw new Error('cbor_indefinite_length_unsupported')
+}
+
+function decodeItem(bytes: Uint8Array, offset: number): [CborValue, number] {
+  if (offset >= bytes.length) throw new Error('cbor_unexpected_end')
+  const initial = bytes[offset] as number
+  const major = initial >> 5
+  const info = initial & 0x1f
+  const [len, next] = readLength(bytes, info, offset + 1)
+
+  switch (major) {
+    case 0:
+      return [len, next]
+    case 1:
+      return [-1 - len, next]
+    case 2: {
+      if (next + len > bytes.length) throw new Error('cbor_unexpected_end')
+      return [bytes.slice(next, next + len), next + len]
+    }
+    case 3: {
+      if (next + len > bytes.length) throw new Error('cbor_unexpected_end')
+      return [textDecoder.decode(bytes.subarray(next, next + len)), next + len]
+    }
+    case 4: {
+      const arr: CborValue[] = []
+      let pos = next
+      for (let i = 0; i < len; i++) {
+        const [item, after] = decodeItem(bytes, pos)
+        arr.push(item)
+        pos = after
+      }
+      return [arr, pos]
+    }
+    case 5: {
+      const map = new Map<CborValue, CborValue>()
+      let pos = next
+      for (let i = 0; i < len; i++) {
+        const [key, afterKey] = decodeItem(bytes, pos)
+        const [value, afterValue] = decodeItem(bytes, afterKey)
+        map.set(key, value)
+        pos = afterValue
+      }
+      return [map, pos]
+    }
+    case 7: {
+      if (info === 20) return [false, offset + 1]
+      if (info === 21) return [true, offset + 1]
+      if (info === 22) return [null, offset + 1]
+      if (info === 23) return [undefined, offset + 1]
+      throw new Error('cbor_unsupported_simple_value')
+    }
+    default:
+      // major 6 (tags) is not used by WebAuthn structures
+      throw new Error('cbor_unsupported_type')
+  }
+}
+
+/** Decode the first CBOR item in `bytes`; returns the value and the number of bytes consumed. */
+export function decodeCborFirst(bytes: Uint8Array): { value: CborValue; length: number } {
+  const [value, length] = decodeItem(bytes, 0)
+  return { value, length }
+}
+
+/** Decode a buffer that must contain exactly one CBOR item. */
+export function decodeCbor(bytes: Uint8Array): CborValue {
+  const { value, length } = decodeCborFirst(bytes)
+  if (length !== bytes.length) throw new Error('cbor_trailing_bytes')
+  return value
+}
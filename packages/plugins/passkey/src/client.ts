@@ -0,0 +1,72 @@
+// Browser-side helpers: the server speaks base64url JSON, WebAuthn APIs speak ArrayBuffers.
+
+function fromB64u(s: string): ArrayBuffer {
+  const b64 = s
+    .replace(/-/g, '+')
+    .replace(/_/g, '/')
+    .padEnd(Math.ceil(s.length / 4) * 4, '=')
+  const bin = atob(b64)
+  const out = new Uint8Array(bin.length)
+  for (let i = 0; i < bin.length; i++) out[i] = bin.charCodeAt(i)
+  return out.buffer
+}
+
+function toB64u(buf: ArrayBuffer): string {
+  const bytes = new Uint8Array(buf)
+  let bin = ''
+  for (let i = 0; i < bytes.length; i++) bin += String.fromCharCode(bytes[i] as number)
+  return btoa(bin).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+type Descriptor = { type: 'public-key'; id: string }
+
+export function toCreationOptions(publicKey: any): PublicKeyCredentialCreationOptions {
+  return {
+    ...publicKey,
+    challenge: fromB64u(publicKey.challenge),
+    user: { ...publicKey.user, id: fromB64u(publicKey.user.id) },
+    excludeCredentials: (publicKey.excludeCredentials ?? []).map((d: Descriptor) => ({
+      ...d,
+      id: fromB64u(d.id),
+    })),
+  }
+}
+
+export function toRequestOptions(publicKey: any): PublicKeyCredentialRequestOptions {
+  return {
+    ...publicKey,
+    challenge: fromB64u(publicKey.challenge),
+    allowCredentials: (publicKey.allowCredentials ?? []).map((d: Descriptor) => ({
+      ...d,
+      id: fromB64u(d.id),
+    })),
+  }
+}
+
+export function serializeRegistration(cred: PublicKeyCredential) {
+  const res = cred.response as AuthenticatorAttestationResponse
+  return {
+    id: cred.id,
+    rawId: toB64u(cred.rawId),
+    type: cred.type,
+    response: {
+      clientDataJSON: toB64u(res.clientDataJSON),
+      attestationObject: toB64u(res.attestationObject),
+    },
+  }
+}
+
+export function serializeAssertion(cred: PublicKeyCredential) {
+  const res = cred.response as AuthenticatorAssertionResponse
+  return {
+    id: cred.id,
+    rawId: toB64u(cred.rawId),
+    type: cred.type,
+    response: {
+      clientDataJSON: toB64u(res.clientDataJSON),
+      authenticatorData: toB64u(res.authenticatorData),
+      signature: toB64u(res.signature),
+      userHandle: res.userHandle ? toB64u(res.userHandle) : null,
+    },
+  }
+}
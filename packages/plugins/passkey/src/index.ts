@@ -1,121 +1,167 @@
-import type { KeyloomPlugin, NextRoute } from "@keyloom/core/plugins";
-import { useAuthBasePath } from "@keyloom/react";
-import { useCallback, useState } from "react";
+import { useAuthBasePath } from '@keyloom/react'
+import { useCallback, useEffect, useState } from 'react'
+import {
+  serializeAssertion,
+  serializeRegistration,
+  toCreationOptions,
+  toRequestOptions,
+} from './client'
 
-// ---- Server plugin ----
-export function createPasskeyPlugin(): KeyloomPlugin {
-  const routes: NextRoute[] = [
-    {
-      method: "GET",
-      kind: "passkey_supported",
-      path: /\/api\/auth\/passkey\/supported$/,
-      handler: async () => new Response(JSON.stringify({ ok: true, supported: true }), { status: 200, headers: { "content-type": "application/json" } }),
-    },
-    {
-      method: "POST",
-      kind: "passkey_begin_registration",
-      path: /\/api\/auth\/passkey\/register\/begin$/,
-      handler: async () =>
-        new Response(
-          JSON.stringify({
-            ok: true,
-            options: { publicKey: { rp: { name: "Keyloom" }, user: { id: "0", name: "user", displayName: "User" }, challenge: "", pubKeyCredParams: [{ type: "public-key", alg: -7 }] } },
-          }),
-          { status: 200, headers: { "content-type": "application/json" } }
-        ),
-    },
-    {
-      method: "POST",
-      kind: "passkey_finish_registration",
-      path: /\/api\/auth\/passkey\/register\/finish$/,
-      handler: async () => new Response(JSON.stringify({ ok: false, error: "not_implemented" }), { status: 501, headers: { "content-type": "application/json" } }),
-    },
-    {
-      method: "POST",
-      kind: "passkey_begin_auth",
-      path: /\/api\/auth\/passkey\/authenticate\/begin$/,
-      handler: async () => new Response(JSON.stringify({ ok: false, error: "not_implemented" }), { status: 501, headers: { "content-type": "application/json" } }),
-    },
-    {
-      method: "POST",
-      kind: "passkey_finish_auth",
-      path: /\/api\/auth\/passkey\/authenticate\/finish$/,
-      handler: async () => new Response(JSON.stringify({ ok: false, error: "not_implemented" }), { status: 501, headers: { "content-type": "application/json" } }),
-    },
-  ];
+export { createPasskeyPlugin, type PasskeyPluginOptions } from './server'
+export {
+  coseKeyToJwk,
+  parseAuthenticatorData,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+} from './webauthn'
 
-  return { name: "passkey", nextRoutes: () => routes };
-}
+const postJson = (url: string, body?: unknown) =>
+  fetch(url, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    ...(body === undefined ? {} : { body: JSON.stringify(body) }),
+  })
 
 // ---- Client hooks (React) ----
 export function usePasskey() {
-  const basePath = useAuthBasePath();
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<null | { message: string }>(null);
-  const supported = typeof window !== "undefined" && !!(window as any).PublicKeyCredential;
+  const basePath = useAuthBasePath()
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<null | { message: string }>(null)
+  const supported = typeof window !== 'undefined' && !!(window as any).PublicKeyCredential
 
-  const signIn = useCallback(async () => {
-    if (!supported) return { ok: false, error: "not_supported" } as const;
-    setLoading(true);
-    setError(null);
-    try {
-      const res = await fetch(`${basePath}/passkey/authenticate/begin`, { method: "POST" });
-      if (!res.ok) return { ok: false, error: `begin_failed:${res.status}` } as const;
-      // Real-world: navigator.credentials.get with returned options
-      return { ok: false, error: "not_implemented" } as const;
-    } catch (e) {
-      setError({ message: "Passkey sign-in failed" });
-      return { ok: false, error: "error" } as const;
-    } finally {
-      setLoading(false);
-    }
-  }, [basePath, supported]);
+  const signIn = useCallback(
+    async (opts?: { email?: string }) => {
+      if (!supported) return { ok: false, error: 'not_supported' } as const
+      setLoading(true)
+      setError(null)
+      try {
+        const begin = await postJson(`${basePath}/passkey/authenticate/begin`, {
+          email: opts?.email,
+        })
+        if (!begin.ok) return { ok: false, error: `begin_failed:${begin.status}` } as const
+        const { options } = await begin.json()
+        const cred = (await navigator.credentials.get({
+          publicKey: toRequestOptions(options.publicKey),
+        })) as PublicKeyCredential | null
+        if (!cred) return { ok: false, error: 'cancelled' } as const
+        const finish = await postJson(`${basePath}/passkey/authenticate/finish`, {
+          credential: serializeAssertion(cred),
+        })
+        const out = await finish.json().catch(() => ({}))
+        if (!finish.ok)
+          return {
+            ok: false,
+            error: String(out.error ?? `finish_failed:${finish.status}`),
+          } as const
+        // Users with 2FA enabled continue on the second-factor page (the pending cookie is set)
+        if (out.twoFactorRequired) return { ok: true, twoFactorRequired: true } as const
+        return { ok: true, sessionId: out.sessionId as string } as const
+      } catch (e) {
+        setError({ message: 'Passkey sign-in failed' })
+        return { ok: false, error: 'error' } as const
+      } finally {
+        setLoading(false)
+      }
+    },
+    [basePath, supported],
+  )
 
-  return { supported, signIn, loading, error };
+  return { supported, signIn, loading, error }
 }
 
 export function usePasskeyRegistration() {
-  const basePath = useAuthBasePath();
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<null | { message: string }>(null);
-  const supported = typeof window !== "undefined" && !!(window as any).PublicKeyCredential;
+  const basePath = useAuthBasePath()
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<null | { message: string }>(null)
+  const supported = typeof window !== 'undefined' && !!(window as any).PublicKeyCredential
 
-  const register = useCallback(async () => {
-    if (!supported) return { ok: false, error: "not_supported" } as const;
-    setLoading(true);
-    setError(null);
-    try {
-      const begin = await fetch(`${basePath}/passkey/register/begin`, { method: "POST" });
-      if (!begin.ok) return { ok: false, error: `begin_failed:${begin.status}` } as const;
-      // TODO: navigator.credentials.create
-      return { ok: false, error: "not_implemented" } as const;
-    } catch (e) {
-      setError({ message: "Passkey registration failed" });
-      return { ok: false, error: "error" } as const;
-    } finally {
-      setLoading(false);
-    }
-  }, [basePath, supported]);
+  const register = useCallback(
+    async (opts?: { label?: string }) => {
+      if (!supported) return { ok: false, error: 'not_supported' } as const
+      setLoading(true)
+      setError(null)
+      try {
+        const begin = await postJson(`${basePath}/passkey/register/begin`)
+        if (!begin.ok) return { ok: false, error: `begin_failed:${begin.status}` } as const
+        const { options } = await begin.json()
+        const cred = (await navigator.credentials.create({
+          publicKey: toCreationOptions(options.publicKey),
+        })) as PublicKeyCredential | null
+        if (!cred) return { ok: false, error: 'cancelled' } as const
+        const finish = await postJson(`${basePath}/passkey/register/finish`, {
+          credential: serializeRegistration(cred),
+          label: opts?.label,
+        })
+        const out = await finish.json().catch(() => ({}))
+        if (!finish.ok)
+          return {
+            ok: false,
+            error: String(out.error ?? `finish_failed:${finish.status}`),
+          } as const
+        return { ok: true, passkey: out.passkey as { id: string; label: string | null } } as const
+      } catch (e) {
+        setError({ message: 'Passkey registration failed' })
+        return { ok: false, error: 'error' } as const
+      } finally {
+        setLoading(false)
+      }
+    },
+    [basePath, supported],
+  )
 
-  return { supported, register, loading, error };
+  return { supported, register, loading, error }
 }
 
+export type PasskeyInfo = { id: string; label: string | null; createdAt: string }
+
+/** The signed-in user's passkeys; `refresh()` reloads them (e.g. after registering or deleting one). */
 export function usePasskeyList() {
-  // Placeholder; would GET user's passkeys
-  return { passkeys: [] as Array<{ id: string; label?: string }>, refresh: async () => {} };
-}
+  const basePath = useAuthBasePath()
+  const [passkeys, setPasskeys] = useState<PasskeyInfo[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<null | { message: string }>(null)
 
-export function usePasskeyDelete() {
-  const [loading, setLoading] = useState(false);
-  const remove = useCallback(async (_id: string) => {
-    setLoading(true);
+  const refresh = useCallback(async () => {
+    setLoading(true)
+    setError(null)
     try {
-      // TODO: POST delete to server when implemented
-      return { ok: false, error: "not_implemented" } as const;
+      const res = await fetch(`${basePath}/passkey/list`)
+      if (!res.ok) throw new Error(`list_failed:${res.status}`)
+      const out = await res.json()
+      setPasskeys(out.passkeys as PasskeyInfo[])
+    } catch (e) {
+      setError({ message: 'Could not load passkeys' })
     } finally {
-      setLoading(false);
+      setLoading(false)
     }
-  }, []);
-  return { remove, loading };
+  }, [basePath])
+
+  useEffect(() => {
+    void refresh()
+  }, [refresh])
+
+  return { passkeys, refresh, loading, error }
 }
 
+export function usePasskeyDelete() {
+  const basePath = useAuthBasePath()
+  const [loading, setLoading] = useState(false)
+  const remove = useCallback(
+    async (id: string) => {
+      setLoading(true)
+      try {
+        const res = await postJson(`${basePath}/passkey/delete`, { id })
+        const out = await res.json().catch(() => ({}))
+        if (!res.ok)
+          return { ok: false, error: String(out.error ?? `delete_failed:${res.status}`) } as const
+        return { ok: true } as const
+      } catch (e) {
+        return { ok: false, error: 'error' } as const
+      } finally {
+        setLoading(false)
+      }
+    },
+    [basePath],
+  )
+  return { remove, loading }
+}
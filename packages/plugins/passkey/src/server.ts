@@ -0,0 +1,357 @@
+import { timingSafeEqual } from 'node:crypto'
+import {
+  type Adapter,
+  type AuthKey,
+  type AuthKeyAdapter,
+  COOKIE_NAME,
+  createEventBus,
+  eventMeta,
+  getCurrentSession,
+  type ID,
+  type KeyloomConfig,
+  newSession,
+  requestClientIp,
+  serializeSecondFactorCookie,
+  serializeSessionCookie,
+  tokenHash,
+} from '@keyloom/core'
+import type { KeyloomPlugin, NextRoute } from '@keyloom/core/plugins'
+import { pendingSecondFactorFor } from '@keyloom/core/two-factor'
+import {
+  type AuthenticationCredentialJSON,
+  parseClientData,
+  type RegistrationCredentialJSON,
+  SUPPORTED_COSE_ALGS,
+  type UserVerification,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+} from './webauthn'
+
+export type PasskeyPluginOptions = {
+  /** Relying party id; defaults to the hostname of `config.baseUrl` */
+  rpId?: string
+  /** Relying party display name; defaults to `config.appName` */
+  rpName?: string
+  /** Allowed origin(s) for clientDataJSON; defaults to the origin of `config.baseUrl` */
+  origin?: string | string[]
+  /** Ceremony timeout and challenge lifetime in milliseconds (default 5 minutes) */
+  timeoutMs?: number
+  userVerification?: UserVerification
+}
+
+type PasskeyAdapter = Adapter & AuthKeyAdapter
+type RouteCtx = { config: KeyloomConfig; adapter: PasskeyAdapter }
+
+// Registration challenges are stored as single-use verification tokens
+const REGISTER_IDENTIFIER = (userId: ID) => `passkey:register:${userId}`
+// Sign-in challenges are signed instead, so the unauthenticated begin route stores nothing; one is
+// recorded here only once an assertion has verified against it, until it expires
+const SPENT_IDENTIFIER = 'passkey:authenticate:spent'
+const NONCE_BYTES = 16
+const PAYLOAD_BYTES = NONCE_BYTES + 8
+const MAC_BYTES = 32
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json' } })
+
+const b64u = (s: string) => Buffer.from(s, 'utf8').toString('base64url')
+
+function readCookie(header: string | null, name = COOKIE_NAME) {
+  if (!header) return null
+  for (const part of header.split(/;\s*/)) {
+    const eq = part.indexOf('=')
+    if (eq > 0 && part.slice(0, eq) === name) return decodeURIComponent(part.slice(eq + 1))
+  }
+  return null
+}
+
+async function readJson(req: Request): Promise<Record<string, any>> {
+  try {
+    const body = await req.json()
+    return body && typeof body === 'object' ? body : {}
+  } catch {
+    return {}
+  }
+}
+
+function resolveRp(config: KeyloomConfig, options: PasskeyPluginOptions) {
+  const base = config.baseUrl ? new URL(config.baseUrl) : null
+  const rpId = options.rpId ?? base?.hostname
+  const origin = options.origin ?? base?.origin
+  if (!rpId || !origin) throw new Error('passkey_rp_not_configured')
+  return { rpId, origin, rpName: options.rpName ?? config.appName ?? 'Keyloom' }
+}
+
+async function issueChallenge(adapter: PasskeyAdapter, identifier: string, timeoutMs: number) {
+  const challenge = Buffer.from(crypto.getRandomValues(new Uint8Array(32))).toString('base64url')
+  await adapter.createVerificationToken({
+    identifier,
+    token: challenge,
+    expiresAt: new Date(Date.now() + timeoutMs),
+  })
+  return challenge
+}
+
+function authSecretOf(config: KeyloomConfig) {
+  const secret = config.secrets?.authSecret
+  if (!secret) throw new Error('auth_secret_required')
+  return secret
+}
+
+const challengeMac = async (payload: Buffer, secret: string) =>
+  Buffer.from(await tokenHash(`passkey:${payload.toString('base64url')}`, secret), 'base64url')
+
+// A random nonce and its expiry, MACed with the auth secret
+async function signChallenge(secret: string, timeoutMs: number) {
+  const payload = Buffer.alloc(PAYLOAD_BYTES)
+  payload.set(crypto.getRandomValues(new Uint8Array(NONCE_BYTES)))
+  payload.writeBigUInt64BE(BigInt(Date.now() + timeoutMs), NONCE_BYTES)
+  return Buffer.concat([payload, await challengeMac(payload, secret)]).toString('base64url')
+}
+
+/** The challenge echoed in clientDataJSON, if we signed it and it hasn't expired. */
+async function openSignedChallenge(secret: string, clientDataJSON: unknown) {
+  const { challenge } = parseClientData(clientDataJSON)
+  const raw = Buffer.from(challenge, 'base64url')
+  if (raw.length !== PAYLOAD_BYTES + MAC_BYTES) throw new Error('invalid_challenge')
+  const payload = raw.subarray(0, PAYLOAD_BYTES)
+  if (!timingSafeEqual(raw.subarray(PAYLOAD_BYTES), await challengeMac(payload, secret)))
+    throw new Error('invalid_challenge')
+  const expiresAt = new Date(Number(payload.readBigUInt64BE(NONCE_BYTES)))
+  if (expiresAt.getTime() < Date.now()) throw new Error('invalid_challenge')
+  return { challenge, expiresAt }
+}
+
+// Stands in for the credentials of emails without passkeys, so begin-authenticate answers the
+// same shape whether or not the account exists; stable per email so repeated probes match
+async function decoyDescriptor(email: string, secret: string) {
+  const id = await tokenHash(`passkey:decoy:${email.trim().toLowerCase()}`, secret)
+  return { type: 'public-key' as const, id }
+}
+
+async function currentUser(req: Request, adapter: PasskeyAdapter) {
+  const { session, user } = await getCurrentSession(readCookie(req.headers.get('cookie')), adapter)
+  if (!session || !user || session.expiresAt.getTime() < Date.now()) return null
+  return user
+}
+
+const descriptor = (k: AuthKey) => ({ type: 'public-key' as const, id: k.keyId as string })
+
+// TOTP and recovery codes are AuthKeys too; these routes only ever touch passkeys
+async function listPasskeys(adapter: PasskeyAdapter, userId: ID) {
+  return (await adapter.listAuthKeysByUser(userId)).filter((k) => k.type === 'webauthn')
+}
+
+// ---- Server plugin ----
+export function createPasskeyPlugin(options: PasskeyPluginOptions = {}): KeyloomPlugin {
+  const timeoutMs = options.timeoutMs ?? 5 * 60_000
+  const userVerification = options.userVerification ?? 'preferred'
+
+  const guarded =
+    (fn: (req: Request, ctx: RouteCtx) => Promise<Response>) =>
+    async (req: unknown, ctx: { config: unknown; adapter: unknown }) => {
+      try {
+        return await fn(req as Request, ctx as RouteCtx)
+      } catch (e) {
+        return json({ ok: false, error: e instanceof Error ? e.message : 'error' }, 400)
+      }
+    }
+
+  const routes: NextRoute[] = [
+    {
+      method: 'GET',
+      kind: 'passkey_supported',
+      path: /\/api\/auth\/passkey\/supported$/,
+      handler: async () => json({ ok: true, supported: true }),
+    },
+    {
+      method: 'POST',
+      kind: 'passkey_begin_registration',
+      path: /\/api\/auth\/passkey\/register\/begin$/,
+      handler: guarded(async (req, { config, adapter }) => {
+        const user = await currentUser(req, adapter)
+        if (!user) return json({ ok: false, error: 'unauthorized' }, 401)
+        const { rpId, rpName } = resolveRp(config, options)
+        const challenge = await issueChallenge(adapter, REGISTER_IDENTIFIER(user.id), timeoutMs)
+        const existing = await listPasskeys(adapter, user.id)
+        const name = user.email ?? user.id
+        return json({
+          ok: true,
+          options: {
+            publicKey: {
+              rp: { id: rpId, name: rpName },
+              user: { id: b64u(user.id), name, displayName: user.name ?? name },
+              challenge,
+              pubKeyCredParams: SUPPORTED_COSE_ALGS.map((alg) => ({ type: 'public-key', alg })),
+              timeout: timeoutMs,
+              attestation: 'none',
+              excludeCredentials: existing.filter((k) => k.keyId).map(descriptor),
+              authenticatorSelection: { residentKey: 'preferred', userVerification },
+            },
+          },
+        })
+      }),
+    },
+    {
+      method: 'POST',
+      kind: 'passkey_finish_registration',
+      path: /\/api\/auth\/passkey\/register\/finish$/,
+      handler: guarded(async (req, { config, adapter }) => {
+        const user = await currentUser(req, adapter)
+        if (!user) return json({ ok: false, error: 'unauthorized' }, 401)
+        const { rpId, origin } = resolveRp(config, options)
+        const body = await readJson(req)
+        const credential = body.credential as RegistrationCredentialJSON | undefined
+        if (!credential?.response) return json({ ok: false, error: 'invalid_request' }, 400)
+
+        const { challenge } = parseClientData(credential.response.clientDataJSON)
+        // biome-ignore lint/correctness/useHookAtTopLevel: an adapter method, not a React hook
+        const vt = await adapter.useVerificationToken(REGISTER_IDENTIFIER(user.id), challenge)
+        if (!vt || vt.expiresAt.getTime() < Date.now()) throw new Error('invalid_challenge')
+        const verified = await verifyRegistrationResponse(credential, {
+          expectedChallenge: challenge,
+          expectedOrigin: origin,
+          expectedRpId: rpId,
+          userVerification,
+        })
+        if (await adapter.getAuthKeyByKeyId(verified.keyId))
+          return json({ ok: false, error: 'credential_exists' }, 409)
+
+        const key = await adapter.createAuthKey({
+          userId: user.id,
+          type: 'webauthn',
+          keyId: verified.keyId,
+          publicKey: verified.publicKey,
+          counter: verified.counter,
+          ...(typeof body.label === 'string' ? { label: body.label } : {}),
+        })
+        return json({ ok: true, passkey: { id: key.id, label: key.label ?? null } })
+      }),
+    },
+    {
+      method: 'POST',
+      kind: 'passkey_begin_auth',
+      path: /\/api\/auth\/passkey\/authenticate\/begin$/,
+      handler: guarded(async (req, { config, adapter }) => {
+        const { rpId } = resolveRp(config, options)
+        const body = await readJson(req)
+        const secret = authSecretOf(config)
+        const challenge = await signChallenge(secret, timeoutMs)
+
+        // With an email we can narrow to that user's credentials; otherwise rely on discoverable keys
+        let allowCredentials: ReturnType<typeof descriptor>[] = []
+        if (typeof body.email === 'string') {
+          const user = await adapter.getUserByEmail(body.email)
+          if (user) allowCredentials = (await listPasskeys(adapter, user.id)).map(descriptor)
+          if (!allowCredentials.length)
+            allowCredentials = [await decoyDescriptor(body.email, secret)]
+        }
+        return json({
+          ok: true,
+          options: {
+            publicKey: { rpId, challenge, timeout: timeoutMs, userVerification, allowCredentials },
+          },
+        })
+      }),
+    },
+    {
+      method: 'POST',
+      kind: 'passkey_finish_auth',
+      path: /\/api\/auth\/passkey\/authenticate\/finish$/,
+      handler: guarded(async (req, { config, adapter }) => {
+        const { rpId, origin } = resolveRp(config, options)
+        const body = await readJson(req)
+        const credential = body.credential as AuthenticationCredentialJSON | undefined
+        if (!credential?.response || typeof credential.id !== 'string')
+          return json({ ok: false, error: 'invalid_request' }, 400)
+
+        const { challenge, expiresAt } = await openSignedChallenge(
+          authSecretOf(config),
+          credential.response.clientDataJSON,
+        )
+        const key = await adapter.getAuthKeyByKeyId(credential.id)
+        if (!key || key.type !== 'webauthn')
+          return json({ ok: false, error: 'unknown_credential' }, 401)
+
+        const { counter } = await verifyAuthenticationResponse(credential, key, {
+          expectedChallenge: challenge,
+          expectedOrigin: origin,
+          expectedRpId: rpId,
+          userVerification,
+        })
+        // biome-ignore lint/correctness/useHookAtTopLevel: an adapter method, not a React hook
+        const spent = await adapter.useVerificationToken(SPENT_IDENTIFIER, challenge)
+        await adapter.createVerificationToken({
+          identifier: SPENT_IDENTIFIER,
+          token: challenge,
+          expiresAt,
+        })
+        if (spent) throw new Error('invalid_challenge')
+        await adapter.updateAuthKey(key.id, { counter })
+
+        const events = createEventBus({ hooks: config.hooks, adapter })
+        const user = await adapter.getUser(key.userId)
+        if (!user) return json({ ok: false, error: 'unknown_credential' }, 401)
+        await events.before('signIn', { user, method: 'passkey' })
+        const cookie = {
+          sameSite: config.cookie?.sameSite ?? 'lax',
+          ...(config.cookie?.domain ? { domain: config.cookie.domain } : {}),
+        } as const
+        // A passkey is the first factor here; users with TOTP enabled still owe a code
+        const pending = await pendingSecondFactorFor(user.id, adapter)
+        if (pending) {
+          const res = json({ ok: true, twoFactorRequired: true })
+          res.headers.append(
+            'Set-Cookie',
+            serializeSecondFactorCookie(pending.token, {
+              ...cookie,
+              maxAge: (pending.expiresAt.getTime() - Date.now()) / 1000,
+            }),
+          )
+          return res
+        }
+        const meta = {
+          ip: requestClientIp(req, config.rateLimit?.trustedProxies),
+          userAgent: req.headers.get('user-agent'),
+        }
+        const session = await adapter.createSession(
+          newSession(key.userId, config.session?.ttlMinutes, meta),
+        )
+        await events.emit('session.created', { method: 'passkey' }, eventMeta(user.id, meta))
+        const res = json({ ok: true, sessionId: session.id })
+        res.headers.append('Set-Cookie', serializeSessionCookie(session.id, cookie))
+        return res
+      }),
+    },
+    {
+      method: 'GET',
+      kind: 'passkey_list',
+      path: /\/api\/auth\/passkey\/list$/,
+      handler: guarded(async (req, { adapter }) => {
+        const user = await currentUser(req, adapter)
+        if (!user) return json({ ok: false, error: 'unauthorized' }, 401)
+        const keys = await listPasskeys(adapter, user.id)
+        return json({
+          ok: true,
+          passkeys: keys.map((k) => ({ id: k.id, label: k.label ?? null, createdAt: k.createdAt })),
+        })
+      }),
+    },
+    {
+      method: 'POST',
+      kind: 'passkey_delete',
+      path: /\/api\/auth\/passkey\/delete$/,
+      handler: guarded(async (req, { adapter }) => {
+        const user = await currentUser(req, adapter)
+        if (!user) return json({ ok: false, error: 'unauthorized' }, 401)
+        const { id } = await readJson(req)
+        const key = (await listPasskeys(adapter, user.id)).find((k) => k.id === id)
+        if (!key) return json({ ok: false, error: 'not_found' }, 404)
+        await adapter.deleteAuthKey(key.id)
+        return json({ ok: true })
+      }),
+    },
+  ]
+
+  return { name: 'passkey', nextRoutes: () => routes }
+}
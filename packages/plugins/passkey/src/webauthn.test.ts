@@ -0,0 +1,365 @@
+import { memoryAdapter } from '@keyloom/core'
+import { describe, expect, it } from 'vitest'
+import { createPasskeyPlugin } from './server'
+import { verifyAuthenticationResponse, verifyRegistrationResponse } from './webauthn'
+
+const ORIGIN = 'https://app.example.com'
+const RP_ID = 'app.example.com'
+const config = {
+  adapter: null,
+  baseUrl: ORIGIN,
+  session: { ttlMinutes: 30 },
+  secrets: { authSecret: 'passkey-test-secret' },
+}
+
+const b64u = (u8: Uint8Array) => Buffer.from(u8).toString('base64url')
+const concat = (...parts: Uint8Array[]) => new Uint8Array(Buffer.concat(parts))
+
+// Tiny CBOR encoder for the handful of shapes a software authenticator needs
+function cbor(value: unknown): Uint8Array {
+  const head = (major: number, len: number) => {
+    if (len < 24) return Uint8Array.of((major << 5) | len)
+    if (len < 256) return Uint8Array.of((major << 5) | 24, len)
+    return Uint8Array.of((major << 5) | 25, len >> 8, len & 0xff)
+  }
+  if (typeof value === 'number') return value >= 0 ? head(0, value) : head(1, -1 - value)
+  if (typeof value === 'string') {
+    const bytes = new TextEncoder().encode(value)
+    return concat(head(3, bytes.length), bytes)
+  }
+  if (value instanceof Uint8Array) return concat(head(2, value.length), value)
+  if (value instanceof Map) {
+    const parts: Uint8Array[] = [head(5, value.size)]
+    for (const [k, v] of value) parts.push(cbor(k), cbor(v))
+    return concat(...parts)
+  }
+  throw new Error('unsupported')
+}
+
+// ECDSA raw r||s -> DER, as real authenticators emit
+function rawToDer(raw: Uint8Array) {
+  const int = (b: Uint8Array) => {
+    let i = 0
+    while (i < b.length - 1 && b[i] === 0) i++
+    let v = b.slice(i)
+    if ((v[0] as number) & 0x80) v = concat(Uint8Array.of(0), v)
+    return concat(Uint8Array.of(0x02, v.length), v)
+  }
+  const body = concat(int(raw.slice(0, 32)), int(raw.slice(32)))
+  return concat(Uint8Array.of(0x30, body.length), body)
+}
+
+async function softAuthenticator(alg: 'ES256' | 'EdDSA') {
+  const params = alg === 'ES256' ? { name: 'ECDSA', namedCurve: 'P-256' } : { name: 'Ed25519' }
+  const pair = (await crypto.subtle.generateKey(params, true, ['sign', 'verify'])) as CryptoKeyPair
+  const jwk = await crypto.subtle.exportKey('jwk', pair.publicKey)
+  const x = new Uint8Array(Buffer.from(jwk.x as string, 'base64url'))
+  const cose =
+    alg === 'ES256'
+      ? new Map<number, unknown>([
+          [1, 2],
+          [3, -7],
+          [-1, 1],
+          [-2, x],
+          [-3, new Uint8Array(Buffer.from(jwk.y as string, 'base64url'))],
+        ])
+      : new Map<number, unknown>([
+          [1, 1],
+          [3, -8],
+          [-1, 6],
+          [-2, x],
+        ])
+  const credentialId = crypto.getRandomValues(new Uint8Array(16))
+  const rpIdHash = new Uint8Array(
+    await crypto.subtle.digest('SHA-256', new TextEncoder().encode(RP_ID)),
+  )
+  let counter = 0
+
+  const authData = (flags: number, extra = new Uint8Array()) => {
+    const c = new Uint8Array(4)
+    new DataView(c.buffer).setUint32(0, counter)
+    return concat(rpIdHash, Uint8Array.of(flags), c, extra)
+  }
+  const clientData = (type: string, challenge: string) =>
+    new TextEncoder().encode(JSON.stringify({ type, challenge, origin: ORIGIN }))
+
+  return {
+    id: b64u(credentialId),
+    setCounter(n: number) {
+      counter = n
+    },
+    create(challenge: string) {
+      const idLen = Uint8Array.of(credentialId.length >> 8, credentialId.length & 0xff)
+      const attested = concat(new Uint8Array(16), idLen, credentialId, cbor(cose))
+      const attestationObject = cbor(
+        new Map<string, unknown>([
+          ['fmt', 'none'],
+          ['attStmt', new Map()],
+          ['authData', authData(0x45, attested)],
+        ]),
+      )
+      return {
+        id: b64u(credentialId),
+        rawId: b64u(credentialId),
+        type: 'public-key' as const,
+        response: {
+          clientDataJSON: b64u(clientData('webauthn.create', challenge)),
+          attestationObject: b64u(attestationObject),
+        },
+      }
+    },
+    async get(challenge: string) {
+      const ad = authData(0x05)
+      const cd = clientData('webauthn.get', challenge)
+      const cdHash = new Uint8Array(await crypto.subtle.digest('SHA-256', cd))
+      const signParams = alg === 'ES256' ? { name: 'ECDSA', hash: 'SHA-256' } : { name: 'Ed25519' }
+      const sig = new Uint8Array(
+        await crypto.subtle.sign(signParams, pair.privateKey, concat(ad, cdHash)),
+      )
+      return {
+        id: b64u(credentialId),
+        rawId: b64u(credentialId),
+        type: 'public-key' as const,
+        response: {
+          clientDataJSON: b64u(cd),
+          authenticatorData: b64u(ad),
+          signature: b64u(alg === 'ES256' ? rawToDer(sig) : sig),
+          userHandle: null,
+        },
+      }
+    },
+  }
+}
+
+const expectations = (challenge: string) => ({
+  expectedChallenge: challenge,
+  expectedOrigin: ORIGIN,
+  expectedRpId: RP_ID,
+})
+
+describe('webauthn verification', () => {
+  for (const alg of ['ES256', 'EdDSA'] as const) {
+    it(`verifies ${alg} registration and assertion`, async () => {
+      const auth = await softAuthenticator(alg)
+      const reg = await verifyRegistrationResponse(auth.create('c1'), expectations('c1'))
+      expect(reg.keyId).toBe(auth.id)
+      expect(reg.counter).toBe(0)
+
+      auth.setCounter(1)
+      const key = { keyId: reg.keyId, publicKey: reg.publicKey, counter: 0 }
+      const out = await verifyAuthenticationResponse(await auth.get('c2'), key, expectations('c2'))
+      expect(out.counter).toBe(1)
+    })
+  }
+
+  it('rejects wrong challenge, origin and rp id', async () => {
+    const auth = await softAuthenticator('ES256')
+    const cred = auth.create('c1')
+    await expect(verifyRegistrationResponse(cred, expectations('other'))).rejects.toThrow(
+      'challenge_mismatch',
+    )
+    await expect(
+      verifyRegistrationResponse(cred, {
+        ...expectations('c1'),
+        expectedOrigin: 'https://evil.test',
+      }),
+    ).rejects.toThrow('origin_mismatch')
+    await expect(
+      verifyRegistrationResponse(cred, { ...expectations('c1'), expectedRpId: 'evil.test' }),
+    ).rejects.toThrow('rp_id_mismatch')
+  })
+
+  it('rejects tampered signatures', async () => {
+    const auth = await softAuthenticator('EdDSA')
+    const reg = await verifyRegistrationResponse(auth.create('c1'), expectations('c1'))
+    auth.setCounter(1)
+    const assertion = await auth.get('c2')
+    const sig = Buffer.from(assertion.response.signature, 'base64url')
+    sig[0] = (sig[0] as number) ^ 0xff
+    assertion.response.signature = sig.toString('base64url')
+    await expect(
+      verifyAuthenticationResponse(assertion, { ...reg, counter: 0 }, expectations('c2')),
+    ).rejects.toThrow('invalid_signature')
+  })
+
+  it('rejects a signature counter that does not advance', async () => {
+    const auth = await softAuthenticator('ES256')
+    const reg = await verifyRegistrationResponse(auth.create('c1'), expectations('c1'))
+    auth.setCounter(4)
+    await expect(
+      verifyAuthenticationResponse(
+        await auth.get('c2'),
+        { ...reg, counter: 5 },
+        expectations('c2'),
+      ),
+    ).rejects.toThrow('counter_regression')
+  })
+})
+
+describe('passkey plugin routes', () => {
+  const routes = createPasskeyPlugin().nextRoutes?.() ?? []
+  const call = async (kind: string, adapter: unknown, body?: unknown, cookie?: string) => {
+    const route = routes.find((r) => r.kind === kind)
+    if (!route) throw new Error(`missing route ${kind}`)
+    const headers: Record<string, string> = { 'content-type': 'application/json' }
+    if (cookie) headers.cookie = cookie
+    const req = new Request(`${ORIGIN}/api/auth/passkey/x`, {
+      method: route.method,
+      headers,
+      ...(route.method === 'GET' ? {} : { body: JSON.stringify(body ?? {}) }),
+    })
+    return (await route.handler(req, { config, adapter })) as Response
+  }
+
+  it('registers a passkey and signs in with it', async () => {
+    const adapter = memoryAdapter()
+    const user = await adapter.createUser({ email: 'a@example.com' })
+    const sess = await adapter.createSession({
+      userId: user.id,
+      expiresAt: new Date(Date.now() + 60_000),
+    })
+    const cookie = `__keyloom_session=${sess.id}`
+    const auth = await softAuthenticator('ES256')
+
+    const unauth = await call('passkey_begin_registration', adapter)
+    expect(unauth.status).toBe(401)
+
+    const begin = await (await call('passkey_begin_registration', adapter, {}, cookie)).json()
+    expect(begin.options.publicKey.rp.id).toBe(RP_ID)
+    const finish = await call(
+      'passkey_finish_registration',
+      adapter,
+      { credential: auth.create(begin.options.publicKey.challenge), label: 'Laptop' },
+      cookie,
+    )
+    expect(finish.status).toBe(200)
+    const [stored] = await adapter.listAuthKeysByUser(user.id)
+    expect(stored).toMatchObject({ type: 'webauthn', keyId: auth.id, counter: 0, label: 'Laptop' })
+
+    const authBegin = await (
+      await call('passkey_begin_auth', adapter, { email: 'a@example.com' })
+    ).json()
+    expect(authBegin.options.publicKey.allowCredentials).toEqual([
+      { type: 'public-key', id: auth.id },
+    ])
+    auth.setCounter(1)
+    const res = await call('passkey_finish_auth', adapter, {
+      credential: await auth.get(authBegin.options.publicKey.challenge),
+    })
+    expect(res.status).toBe(200)
+    const out = await res.json()
+    expect(res.headers.get('set-cookie')).toContain(`__keyloom_session=${out.sessionId}`)
+    const created = await adapter.getSession(out.sessionId)
+    expect(created?.userId).toBe(user.id)
+    expect((await adapter.getAuthKeyByKeyId(auth.id))?.counter).toBe(1)
+  })
+
+  it('still asks users with 2FA enabled for their code', async () => {
+    const adapter = memoryAdapter()
+    const user = await adapter.createUser({ email: 'totp@example.com' })
+    const sess = await adapter.createSession({
+      userId: user.id,
+      expiresAt: new Date(Date.now() + 60_000),
+    })
+    const cookie = `__keyloom_session=${sess.id}`
+    const auth = await softAuthenticator('ES256')
+    const begin = await (await call('passkey_begin_registration', adapter, {}, cookie)).json()
+    await call(
+      'passkey_finish_registration',
+      adapter,
+      { credential: auth.create(begin.options.publicKey.challenge) },
+      cookie,
+    )
+    await adapter.createAuthKey({ userId: user.id, type: 'totp', keyId: `totp:${user.id}` })
+
+    const authBegin = await (await call('passkey_begin_auth', adapter)).json()
+    auth.setCounter(1)
+    const res = await call('passkey_finish_auth', adapter, {
+      credential: await auth.get(authBegin.options.publicKey.challenge),
+    })
+    expect(await res.json()).toEqual({ ok: true, twoFactorRequired: true })
+    expect(res.headers.get('set-cookie')).toMatch(/^__keyloom_2fa=/)
+    expect(await adapter.listSessionsByUser(user.id)).toHaveLength(1)
+  })
+
+  it('rejects unknown or reused challenges', async () => {
+    const adapter = memoryAdapter()
+    const user = await adapter.createUser({ email: 'b@example.com' })
+    const sess = await adapter.createSession({
+      userId: user.id,
+      expiresAt: new Date(Date.now() + 60_000),
+    })
+    const cookie = `__keyloom_session=${sess.id}`
+    const auth = await softAuthenticator('EdDSA')
+
+    const forged = await call(
+      'passkey_finish_registration',
+      adapter,
+      { credential: auth.create('nope') },
+      cookie,
+    )
+    expect(forged.status).toBe(400)
+    expect((await forged.json()).error).toBe('invalid_challenge')
+
+    const begin = await (await call('passkey_begin_registration', adapter, {}, cookie)).json()
+    const credential = auth.create(begin.options.publicKey.challenge)
+    expect(
+      (await call('passkey_finish_registration', adapter, { credential }, cookie)).status,
+    ).toBe(200)
+    const replay = await call('passkey_finish_registration', adapter, { credential }, cookie)
+    expect((await replay.json()).error).toBe('invalid_challenge')
+
+    // Sign-in challenges are signed, not stored, and each verified one is spent
+    const forgedAuth = await call('passkey_finish_auth', adapter, {
+      credential: await auth.get(Buffer.alloc(56).toString('base64url')),
+    })
+    expect((await forgedAuth.json()).error).toBe('invalid_challenge')
+    const authBegin = await (await call('passkey_begin_auth', adapter)).json()
+    const assertion = await auth.get(authBegin.options.publicKey.challenge)
+    expect((await call('passkey_finish_auth', adapter, { credential: assertion })).status).toBe(200)
+    for (let i = 0; i < 2; i++) {
+      const again = await call('passkey_finish_auth', adapter, { credential: assertion })
+      expect((await again.json()).error).toBe('invalid_challenge')
+    }
+  })
+
+  it("doesn't reveal which emails have passkeys", async () => {
+    const adapter = memoryAdapter()
+    await adapter.createUser({ email: 'nokeys@example.com' })
+    const begin = async (email: string) =>
+      (await (await call('passkey_begin_auth', adapter, { email })).json()).options.publicKey
+        .allowCredentials
+
+    const unknown = await begin('ghost@example.com')
+    expect(unknown).toHaveLength(1)
+    expect(await begin('GHOST@example.com')).toEqual(unknown)
+    expect(await begin('nokeys@example.com')).toHaveLength(1)
+    expect(await begin('nokeys@example.com')).not.toEqual(unknown)
+  })
+
+  it("lists and deletes only the signed-in user's passkeys", async () => {
+    const adapter = memoryAdapter()
+    const user = await adapter.createUser({ email: 'c@example.com' })
+    const other = await adapter.createUser({ email: 'd@example.com' })
+    const sess = await adapter.createSession({
+      userId: user.id,
+      expiresAt: new Date(Date.now() + 60_000),
+    })
+    const cookie = `__keyloom_session=${sess.id}`
+    const mine = await adapter.createAuthKey({ userId: user.id, type: 'webauthn', keyId: 'k1' })
+    const totp = await adapter.createAuthKey({ userId: user.id, type: 'totp', secret: 's' })
+    const theirs = await adapter.createAuthKey({ userId: other.id, type: 'webauthn', keyId: 'k2' })
+
+    expect((await call('passkey_list', adapter)).status).toBe(401)
+    const listed = await (await call('passkey_list', adapter, undefined, cookie)).json()
+    expect(listed.passkeys.map((k: { id: string }) => k.id)).toEqual([mine.id])
+
+    for (const id of [theirs.id, totp.id]) {
+      const res = await call('passkey_delete', adapter, { id }, cookie)
+      expect(res.status).toBe(404)
+    }
+    expect((await call('passkey_delete', adapter, { id: mine.id }, cookie)).status).toBe(200)
+    expect((await adapter.listAuthKeysByUser(user.id)).map((k) => k.id)).toEqual([totp.id])
+    expect(await adapter.listAuthKeysByUser(other.id)).toHaveLength(1)
+  })
+})
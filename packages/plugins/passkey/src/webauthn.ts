@@ -0,0 +1,274 @@
+import type { AuthKey } from '@keyloom/core'
+import { type CborValue, decodeCbor, decodeCborFirst } from './cbor'
+
+// COSE algorithm identifiers we accept (RFC 9053)
+export const COSE_ALG_ES256 = -7
+export const COSE_ALG_EDDSA = -8
+export const SUPPORTED_COSE_ALGS = [COSE_ALG_ES256, COSE_ALG_EDDSA] as const
+
+export type UserVerification = 'required' | 'preferred' | 'discouraged'
+
+/** JSON-serialized PublicKeyCredential returned by `navigator.credentials.create` */
+export type RegistrationCredentialJSON = {
+  id: string
+  rawId: string
+  type: 'public-key'
+  response: { clientDataJSON: string; attestationObject: string }
+}
+
+/** JSON-serialized PublicKeyCredential returned by `navigator.credentials.get` */
+export type AuthenticationCredentialJSON = {
+  id: string
+  rawId: string
+  type: 'public-key'
+  response: {
+    clientDataJSON: string
+    authenticatorData: string
+    signature: string
+    userHandle?: string | null
+  }
+}
+
+export type ClientData = { type: string; challenge: string; origin: string; crossOrigin?: boolean }
+
+export type AuthenticatorData = {
+  rpIdHash: Uint8Array
+  flags: { up: boolean; uv: boolean; at: boolean; ed: boolean }
+  counter: number
+  attestedCredential?: { aaguid: Uint8Array; credentialId: Uint8Array; publicKey: Uint8Array }
+}
+
+type Expectations = {
+  expectedChallenge: string
+  expectedOrigin: string | string[]
+  expectedRpId: string
+  userVerification?: UserVerification
+}
+
+const b64u = (s: string) => new Uint8Array(Buffer.from(s, 'base64url'))
+const toB64u = (u8: Uint8Array) => Buffer.from(u8).toString('base64url')
+
+function toAb(u8: Uint8Array): ArrayBuffer {
+  return u8.buffer.slice(u8.byteOffset, u8.byteOffset + u8.byteLength) as ArrayBuffer
+}
+
+async function sha256(data: Uint8Array) {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', toAb(data)))
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array) {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) diff |= (a[i] as number) ^ (b[i] as number)
+  return diff === 0
+}
+
+/** Decode and sanity-check clientDataJSON (base64url) */
+export function parseClientData(clientDataJSON: unknown): ClientData {
+  if (typeof clientDataJSON !== 'string') throw new Error('invalid_client_data')
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(Buffer.from(clientDataJSON, 'base64url').toString('utf8'))
+  } catch {
+    throw new Error('invalid_client_data')
+  }
+  const cd = parsed as Partial<ClientData> | null
+  if (
+    !cd ||
+    typeof cd.type !== 'string' ||
+    typeof cd.challenge !== 'string' ||
+    typeof cd.origin !== 'string'
+  )
+    throw new Error('invalid_client_data')
+  return cd as ClientData
+}
+
+/** Parse the authenticator data structure (WebAuthn §6.1) */
+export function parseAuthenticatorData(data: Uint8Array): AuthenticatorData {
+  if (data.length < 37) throw new Error('invalid_authenticator_data')
+  const flagsByte = data[32] as number
+  const flags = {
+    up: (flagsByte & 0x01) !== 0,
+    uv: (flagsByte & 0x04) !== 0,
+    at: (flagsByte & 0x40) !== 0,
+    ed: (flagsByte & 0x80) !== 0,
+  }
+  const counter = new DataView(data.buffer, data.byteOffset + 33, 4).getUint32(0)
+  const out: AuthenticatorData = { rpIdHash: data.slice(0, 32), flags, counter }
+
+  if (flags.at) {
+    if (data.length < 55) throw new Error('invalid_authenticator_data')
+    const aaguid = data.slice(37, 53)
+    const idLen = new DataView(data.buffer, data.byteOffset + 53, 2).getUint16(0)
+    const idEnd = 55 + idLen
+    if (data.length < idEnd) throw new Error('invalid_authenticator_data')
+    const credentialId = data.slice(55, idEnd)
+    // The COSE key is followed by optional extensions, so only consume the first CBOR item
+    const { length } = decodeCborFirst(data.subarray(idEnd))
+    const publicKey = data.slice(idEnd, idEnd + length)
+    out.attestedCredential = { aaguid, credentialId, publicKey }
+  }
+  return out
+}
+
+/** Convert a COSE_Key into a WebCrypto-importable JWK plus verify params */
+export function coseKeyToJwk(coseKey: Uint8Array): {
+  alg: typeof COSE_ALG_ES256 | typeof COSE_ALG_EDDSA
+  jwk: JsonWebKey
+} {
+  const key = decodeCbor(coseKey)
+  if (!(key instanceof Map)) throw new Error('invalid_public_key')
+  const get = (label: number) => key.get(label) as CborValue
+  const kty = get(1)
+  const alg = get(3)
+  const crv = get(-1)
+  const x = get(-2)
+
+  if (alg === COSE_ALG_ES256) {
+    const y = get(-3)
+    if (kty !== 2 || crv !== 1 || !(x instanceof Uint8Array) || !(y instanceof Uint8Array))
+      throw new Error('invalid_public_key')
+    return { alg, jwk: { kty: 'EC', crv: 'P-256', x: toB64u(x), y: toB64u(y), ext: true } }
+  }
+  if (alg === COSE_ALG_EDDSA) {
+    if (kty !== 1 || crv !== 6 || !(x instanceof Uint8Array)) throw new Error('invalid_public_key')
+    return { alg, jwk: { kty: 'OKP', crv: 'Ed25519', x: toB64u(x), ext: true } }
+  }
+  throw new Error('unsupported_algorithm')
+}
+
+// WebAuthn ES256 signatures are ASN.1 DER; WebCrypto expects raw r||s
+function derToRaw(der: Uint8Array, size = 32): Uint8Array {
+  const fail = () => {
+    throw new Error('invalid_signature')
+  }
+  if (der[0] !== 0x30) fail()
+  let pos = 2
+  if ((der[1] as number) & 0x80) pos = 2 + ((der[1] as number) & 0x7f)
+  const readInt = () => {
+    if (der[pos] !== 0x02) fail()
+    const len = der[pos + 1] as number
+    let int = der.slice(pos + 2, pos + 2 + len)
+    pos += 2 + len
+    while (int.length > size && int[0] === 0) int = int.slice(1)
+    if (int.length > size) fail()
+    const out = new Uint8Array(size)
+    out.set(int, size - int.length)
+    return out
+  }
+  const r = readInt()
+  const s = readInt()
+  const raw = new Uint8Array(size * 2)
+  raw.set(r, 0)
+  raw.set(s, size)
+  return raw
+}
+
+async function verifySignature(coseKey: Uint8Array, signature: Uint8Array, data: Uint8Array) {
+  const { alg, jwk } = coseKeyToJwk(coseKey)
+  if (alg === COSE_ALG_ES256) {
+    const key = await crypto.subtle.importKey(
+      'jwk',
+      jwk,
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      false,
+      ['verify'],
+    )
+    return crypto.subtle.verify(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      key,
+      toAb(derToRaw(signature)),
+      toAb(data),
+    )
+  }
+  const key = await crypto.subtle.importKey('jwk', jwk, { name: 'Ed25519' }, false, ['verify'])
+  return crypto.subtle.verify({ name: 'Ed25519' }, key, toAb(signature), toAb(data))
+}
+
+async function checkCommon(
+  clientData: ClientData,
+  authData: AuthenticatorData,
+  type: 'webauthn.create' | 'webauthn.get',
+  exp: Expectations,
+) {
+  if (clientData.type !== type) throw new Error('invalid_client_data_type')
+  if (clientData.challenge !== exp.expectedChallenge) throw new Error('challenge_mismatch')
+  const origins = Array.isArray(exp.expectedOrigin) ? exp.expectedOrigin : [exp.expectedOrigin]
+  if (!origins.includes(clientData.origin)) throw new Error('origin_mismatch')
+
+  const rpIdHash = await sha256(new TextEncoder().encode(exp.expectedRpId))
+  if (!bytesEqual(rpIdHash, authData.rpIdHash)) throw new Error('rp_id_mismatch')
+  if (!authData.flags.up) throw new Error('user_not_present')
+  if (exp.userVerification === 'required' && !authData.flags.uv)
+    throw new Error('user_not_verified')
+}
+
+/**
+ * Verify a registration (attestation) response. Only the "none" attestation format is accepted,
+ * which is what browsers return when options request `attestation: "none"`.
+ */
+export async function verifyRegistrationResponse(
+  credential: RegistrationCredentialJSON,
+  exp: Expectations,
+): Promise<{ keyId: string; publicKey: string; counter: number }> {
+  const clientData = parseClientData(credential.response.clientDataJSON)
+  const attObj = decodeCbor(b64u(credential.response.attestationObject))
+  if (!(attObj instanceof Map)) throw new Error('invalid_attestation_object')
+
+  const fmt = attObj.get('fmt')
+  const attStmt = attObj.get('attStmt')
+  const authDataBytes = attObj.get('authData')
+  if (!(authDataBytes instanceof Uint8Array)) throw new Error('invalid_attestation_object')
+  if (fmt !== 'none') throw new Error('unsupported_attestation_format')
+  if (!(attStmt instanceof Map) || attStmt.size !== 0)
+    throw new Error('invalid_attestation_statement')
+
+  const authData = parseAuthenticatorData(authDataBytes)
+  await checkCommon(clientData, authData, 'webauthn.create', exp)
+
+  const attested = authData.attestedCredential
+  if (!authData.flags.at || !attested) throw new Error('missing_credential_data')
+  const keyId = toB64u(attested.credentialId)
+  if (keyId !== credential.rawId && keyId !== credential.id)
+    throw new Error('credential_id_mismatch')
+  // Fails with unsupported_algorithm / invalid_public_key for anything but ES256 or Ed25519
+  coseKeyToJwk(attested.publicKey)
+
+  return { keyId, publicKey: toB64u(attested.publicKey), counter: authData.counter }
+}
+
+/**
+ * Verify an authentication (assertion) response against a stored AuthKey.
+ * Returns the new signature counter; throws `counter_regression` when the authenticator
+ * reports a counter that did not advance, which indicates a possibly cloned credential.
+ */
+export async function verifyAuthenticationResponse(
+  credential: AuthenticationCredentialJSON,
+  authKey: Pick<AuthKey, 'keyId' | 'publicKey' | 'counter'>,
+  exp: Expectations,
+): Promise<{ counter: number }> {
+  if (!authKey.publicKey) throw new Error('invalid_public_key')
+  if (authKey.keyId !== credential.id) throw new Error('credential_id_mismatch')
+
+  const clientData = parseClientData(credential.response.clientDataJSON)
+  const authDataBytes = b64u(credential.response.authenticatorData)
+  const authData = parseAuthenticatorData(authDataBytes)
+  await checkCommon(clientData, authData, 'webauthn.get', exp)
+
+  const clientDataHash = await sha256(b64u(credential.response.clientDataJSON))
+  const signed = new Uint8Array(authDataBytes.length + clientDataHash.length)
+  signed.set(authDataBytes, 0)
+  signed.set(clientDataHash, authDataBytes.length)
+  const ok = await verifySignature(
+    b64u(authKey.publicKey),
+    b64u(credential.response.signature),
+    signed,
+  )
+  if (!ok) throw new Error('invalid_signature')
+
+  const stored = authKey.counter ?? 0
+  if ((authData.counter !== 0 || stored !== 0) && authData.counter <= stored)
+    throw new Error('counter_regression')
+
+  return { counter: authData.counter }
+}
@@ -0,0 +1,18 @@
+export {
+  BINDING_POST,
+  BINDING_REDIRECT,
+  NAMEID_EMAIL,
+  parseIdpMetadata,
+  type SamlIdp,
+  type SamlSp,
+  spMetadataXml,
+} from './metadata'
+export { createSamlPlugin, type SamlConnection, type SamlPluginOptions } from './server'
+export {
+  createAuthnRequest,
+  DEFAULT_ATTRIBUTE_MAPPING,
+  profileFromAssertion,
+  type SamlAssertion,
+  type SamlAttributeMapping,
+  validateSamlResponse,
+} from './sp'
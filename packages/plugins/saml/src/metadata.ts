@@ -0,0 +1,92 @@
+import { DSIG_NS } from './signature'
+import {
+  attribute,
+  childElements,
+  descendants,
+  escapeAttr,
+  escapeText,
+  firstChild,
+  parseXml,
+  textContent,
+} from './xml'
+
+export const MD_NS = 'urn:oasis:names:tc:SAML:2.0:metadata'
+export const BINDING_REDIRECT = 'urn:oasis:names:tc:SAML:2.0:bindings:HTTP-Redirect'
+export const BINDING_POST = 'urn:oasis:names:tc:SAML:2.0:bindings:HTTP-POST'
+export const NAMEID_EMAIL = 'urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress'
+export const NAMEID_UNSPECIFIED = 'urn:oasis:names:tc:SAML:1.1:nameid-format:unspecified'
+
+/** Identity provider settings for one organization's connection */
+export type SamlIdp = {
+  entityId: string
+  /** SingleSignOnService location for the HTTP-Redirect binding */
+  ssoUrl: string
+  /** Base64 DER (or PEM) signing certificates; any of them may sign responses */
+  certificates: string[]
+  /** The IdP requires signed AuthnRequests */
+  wantAuthnRequestsSigned?: boolean
+}
+
+/** Service provider settings for one organization */
+export type SamlSp = {
+  entityId: string
+  acsUrl: string
+  /** PEM certificate published in metadata so the IdP can verify signed AuthnRequests */
+  certificate?: string
+  nameIdFormat?: string
+}
+
+/** Import an IdP's EntityDescriptor metadata: entity ID, redirect SSO URL and signing certificates. */
+export function parseIdpMetadata(xml: string): SamlIdp {
+  const root = parseXml(xml)
+  const entity =
+    root.ns === MD_NS && root.local === 'EntityDescriptor'
+      ? root
+      : descendants(root, MD_NS, 'EntityDescriptor').find((e) =>
+          firstChild(e, MD_NS, 'IDPSSODescriptor'),
+        )
+  const descriptor = entity && firstChild(entity, MD_NS, 'IDPSSODescriptor')
+  const entityId = attribute(entity, 'entityID')
+  if (!descriptor || !entityId) throw new Error('saml_metadata_invalid')
+
+  const ssoUrl = attribute(
+    childElements(descriptor, MD_NS, 'SingleSignOnService').find(
+      (s) => attribute(s, 'Binding') === BINDING_REDIRECT,
+    ),
+    'Location',
+  )
+  if (!ssoUrl) throw new Error('saml_metadata_missing_sso_url')
+
+  const certificates = childElements(descriptor, MD_NS, 'KeyDescriptor')
+    .filter((k) => (attribute(k, 'use') ?? 'signing') === 'signing')
+    .flatMap((k) => descendants(k, DSIG_NS, 'X509Certificate'))
+    .map((c) => textContent(c).replace(/\s+/g, ''))
+    .filter(Boolean)
+  if (!certificates.length) throw new Error('saml_metadata_missing_certificate')
+
+  return {
+    entityId,
+    ssoUrl,
+    certificates,
+    wantAuthnRequestsSigned: attribute(descriptor, 'WantAuthnRequestsSigned') === 'true',
+  }
+}
+
+const pemBody = (pem: string) => pem.replace(/-----(BEGIN|END) CERTIFICATE-----|\s+/g, '')
+
+/** SP EntityDescriptor to hand to the IdP administrator. */
+export function spMetadataXml(sp: SamlSp): string {
+  const keyDescriptor = sp.certificate
+    ? `<md:KeyDescriptor use="signing"><ds:KeyInfo xmlns:ds="${DSIG_NS}"><ds:X509Data><ds:X509Certificate>${pemBody(sp.certificate)}</ds:X509Certificate></ds:X509Data></ds:KeyInfo></md:KeyDescriptor>`
+    : ''
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<md:EntityDescriptor xmlns:md="${MD_NS}" entityID="${escapeAttr(sp.entityId)}">`,
+    `<md:SPSSODescriptor AuthnRequestsSigned="${sp.certificate ? 'true' : 'false'}" WantAssertionsSigned="true" protocolSupportEnumeration="urn:oasis:names:tc:SAML:2.0:protocol">`,
+    keyDescriptor,
+    `<md:NameIDFormat>${escapeText(sp.nameIdFormat ?? NAMEID_EMAIL)}</md:NameIDFormat>`,
+    `<md:AssertionConsumerService Binding="${BINDING_POST}" Location="${escapeAttr(sp.acsUrl)}" index="0" isDefault="true"/>`,
+    '</md:SPSSODescriptor>',
+    '</md:EntityDescriptor>',
+  ].join('')
+}
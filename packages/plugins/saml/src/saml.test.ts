@@ -0,0 +1,383 @@
+import {
+  createHash,
+  createPublicKey,
+  generateKeyPairSync,
+  type KeyObject,
+  sign,
+  verify,
+} from 'node:crypto'
+import { inflateRawSync } from 'node:zlib'
+import { memoryAdapter } from '@keyloom/core'
+import { beforeEach, describe, expect, it } from 'vitest'
+import { parseIdpMetadata, spMetadataXml } from './metadata'
+import { createSamlPlugin } from './server'
+import { profileFromAssertion, validateSamlResponse } from './sp'
+import { canonicalize, parseXml } from './xml'
+
+const ORIGIN = 'https://app.example.com'
+const IDP_ENTITY = 'https://idp.acme.test/saml'
+const SAMLP = 'urn:oasis:names:tc:SAML:2.0:protocol'
+const SAML = 'urn:oasis:names:tc:SAML:2.0:assertion'
+const DS = 'http://www.w3.org/2000/09/xmldsig#'
+
+// ---- Locally generated keys with a minimal self-signed X.509 certificate ----
+function der(tag: number, ...parts: Buffer[]) {
+  const body = Buffer.concat(parts)
+  const len =
+    body.length < 0x80
+      ? Buffer.of(body.length)
+      : body.length < 0x100
+        ? Buffer.of(0x81, body.length)
+        : Buffer.of(0x82, body.length >> 8, body.length & 0xff)
+  return Buffer.concat([Buffer.of(tag), len, body])
+}
+
+function selfSigned(cn: string) {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 })
+  const sha256WithRsa = der(
+    0x30,
+    Buffer.from('06092a864886f70d01010b', 'hex'),
+    Buffer.from('0500', 'hex'),
+  )
+  const name = der(
+    0x30,
+    der(0x31, der(0x30, Buffer.from('0603550403', 'hex'), der(0x0c, Buffer.from(cn)))),
+  )
+  const tbs = der(
+    0x30,
+    Buffer.from('a003020102', 'hex'),
+    Buffer.from('020101', 'hex'),
+    sha256WithRsa,
+    name,
+    der(0x30, der(0x17, Buffer.from('250101000000Z')), der(0x17, Buffer.from('491231235959Z'))),
+    name,
+    publicKey.export({ type: 'spki', format: 'der' }),
+  )
+  const signature = sign('sha256', tbs, privateKey)
+  const cert = der(0x30, tbs, sha256WithRsa, der(0x03, Buffer.of(0), signature))
+  return {
+    privateKey,
+    pem: privateKey.export({ type: 'pkcs8', format: 'pem' }) as string,
+    certificate: cert.toString('base64'),
+  }
+}
+
+const idpKeys = selfSigned('idp.acme.test')
+const spKeys = selfSigned('app.example.com')
+
+const idpMetadata = `<?xml version="1.0"?>
+<md:EntityDescriptor xmlns:md="urn:oasis:names:tc:SAML:2.0:metadata" entityID="${IDP_ENTITY}">
+  <md:IDPSSODescriptor WantAuthnRequestsSigned="true" protocolSupportEnumeration="urn:oasis:names:tc:SAML:2.0:protocol">
+    <md:KeyDescriptor use="signing">
+      <ds:KeyInfo xmlns:ds="${DS}"><ds:X509Data><ds:X509Certificate>
+        ${idpKeys.certificate}
+      </ds:X509Certificate></ds:X509Data></ds:KeyInfo>
+    </md:KeyDescriptor>
+    <md:SingleSignOnService Binding="urn:oasis:names:tc:SAML:2.0:bindings:HTTP-POST" Location="https://idp.acme.test/sso/post"/>
+    <md:SingleSignOnService Binding="urn:oasis:names:tc:SAML:2.0:bindings:HTTP-Redirect" Location="https://idp.acme.test/sso"/>
+  </md:IDPSSODescriptor>
+</md:EntityDescriptor>`
+
+// ---- Fixture assertions, written in canonical form so the digest doesn't depend on our c14n ----
+type Fixture = {
+  orgId: string
+  inResponseTo?: string
+  nameId?: string
+  audience?: string
+  notOnOrAfter?: Date
+}
+
+function canonicalAssertion(f: Fixture) {
+  const acs = `${ORIGIN}/api/auth/saml/${f.orgId}/acs`
+  const until = (f.notOnOrAfter ?? new Date(Date.now() + 5 * 60_000)).toISOString()
+  const answers = f.inResponseTo ? ` InResponseTo="${f.inResponseTo}"` : ''
+  return (
+    `<saml:Assertion xmlns:saml="${SAML}" ID="_assertion1" IssueInstant="${new Date().toISOString()}" Version="2.0">` +
+    `<saml:Issuer>${IDP_ENTITY}</saml:Issuer>` +
+    '<saml:Subject>' +
+    `<saml:NameID Format="urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress">${f.nameId ?? 'ada@acme.test'}</saml:NameID>` +
+    `<saml:SubjectConfirmation Method="urn:oasis:names:tc:SAML:2.0:cm:bearer"><saml:SubjectConfirmationData${answers} NotOnOrAfter="${until}" Recipient="${acs}"></saml:SubjectConfirmationData></saml:SubjectConfirmation>` +
+    '</saml:Subject>' +
+    `<saml:Conditions NotBefore="${new Date(Date.now() - 60_000).toISOString()}" NotOnOrAfter="${until}">` +
+    `<saml:AudienceRestriction><saml:Audience>${f.audience ?? `${ORIGIN}/api/auth/saml/${f.orgId}/metadata`}</saml:Audience></saml:AudienceRestriction>` +
+    '</saml:Conditions>' +
+    '<saml:AttributeStatement>' +
+    '<saml:Attribute FriendlyName="givenName" Name="urn:oid:2.5.4.42"><saml:AttributeValue>Ada</saml:AttributeValue></saml:Attribute>' +
+    '<saml:Attribute Name="sn"><saml:AttributeValue>Lovelace</saml:AttributeValue></saml:Attribute>' +
+    '</saml:AttributeStatement>' +
+    '</saml:Assertion>'
+  )
+}
+
+function signatureXml(canonical: string, key: KeyObject) {
+  const digest = createHash('sha256').update(canonical).digest('base64')
+  const signedInfo = (decl: string) =>
+    `<ds:SignedInfo${decl}>` +
+    '<ds:CanonicalizationMethod Algorithm="http://www.w3.org/2001/10/xml-exc-c14n#"></ds:CanonicalizationMethod>' +
+    '<ds:SignatureMethod Algorithm="http://www.w3.org/2001/04/xmldsig-more#rsa-sha256"></ds:SignatureMethod>' +
+    '<ds:Reference URI="#_assertion1"><ds:Transforms>' +
+    '<ds:Transform Algorithm="http://www.w3.org/2000/09/xmldsig#enveloped-signature"></ds:Transform>' +
+    '<ds:Transform Algorithm="http://www.w3.org/2001/10/xml-exc-c14n#"></ds:Transform>' +
+    '</ds:Transforms><ds:DigestMethod Algorithm="http://www.w3.org/2001/04/xmlenc#sha256"></ds:DigestMethod>' +
+    `<ds:DigestValue>${digest}</ds:DigestValue></ds:Reference></ds:SignedInfo>`
+  const value = sign('sha256', Buffer.from(signedInfo(` xmlns:ds="${DS}"`)), key).toString('base64')
+  return `<ds:Signature xmlns:ds="${DS}">${signedInfo('')}<ds:SignatureValue>${value}</ds:SignatureValue></ds:Signature>`
+}
+
+function samlResponse(f: Fixture, tamper: (signedAssertion: string) => string = (a) => a) {
+  const canonical = canonicalAssertion(f)
+  const issuerEnd = canonical.indexOf('</saml:Issuer>') + '</saml:Issuer>'.length
+  const signed =
+    canonical.slice(0, issuerEnd) +
+    signatureXml(canonical, idpKeys.privateKey) +
+    canonical.slice(issuerEnd)
+  const answers = f.inResponseTo ? ` InResponseTo="${f.inResponseTo}"` : ''
+  const xml =
+    `<samlp:Response xmlns:samlp="${SAMLP}" xmlns:saml="${SAML}" ID="_response1" Version="2.0"${answers}` +
+    ` IssueInstant="${new Date().toISOString()}" Destination="${ORIGIN}/api/auth/saml/${f.orgId}/acs">\n` +
+    `  <saml:Issuer>${IDP_ENTITY}</saml:Issuer>\n` +
+    '  <samlp:Status><samlp:StatusCode Value="urn:oasis:names:tc:SAML:2.0:status:Success"/></samlp:Status>\n' +
+    `  ${tamper(signed)}\n` +
+    '</samlp:Response>'
+  return Buffer.from(xml).toString('base64')
+}
+
+const spFor = (orgId: string) => ({
+  entityId: `${ORIGIN}/api/auth/saml/${orgId}/metadata`,
+  acsUrl: `${ORIGIN}/api/auth/saml/${orgId}/acs`,
+})
+
+describe('xml canonicalization', () => {
+  it('renders only visibly used namespaces, sorted attributes and expanded empty elements', () => {
+    const doc = parseXml(
+      '<a:root xmlns:a="urn:a" xmlns:b="urn:b" xmlns:c="urn:c"><b:child z="1" b:y="2" a="&amp;&#10;"/><!-- gone --></a:root>',
+    )
+    expect(canonicalize(doc.children[0] as any)).toBe(
+      '<b:child xmlns:b="urn:b" a="&amp;&#xA;" z="1" b:y="2"></b:child>',
+    )
+  })
+
+  it('rejects DOCTYPEs', () => {
+    expect(() => parseXml('<!DOCTYPE x [<!ENTITY e "boom">]><x>&e;</x>')).toThrow(
+      'xml_doctype_not_allowed',
+    )
+  })
+})
+
+describe('saml response validation', () => {
+  const idp = parseIdpMetadata(idpMetadata)
+
+  it('imports IdP metadata', () => {
+    expect(idp).toEqual({
+      entityId: IDP_ENTITY,
+      ssoUrl: 'https://idp.acme.test/sso',
+      certificates: [idpKeys.certificate],
+      wantAuthnRequestsSigned: true,
+    })
+  })
+
+  it('accepts a signed assertion and maps attributes to a profile', () => {
+    const assertion = validateSamlResponse(samlResponse({ orgId: 'org1', inResponseTo: '_req1' }), {
+      sp: spFor('org1'),
+      idp,
+      requestIds: ['_req1'],
+    })
+    expect(assertion).toMatchObject({ nameId: 'ada@acme.test', inResponseTo: '_req1' })
+    expect(profileFromAssertion(assertion)).toEqual({
+      id: 'ada@acme.test',
+      email: 'ada@acme.test',
+      name: 'Ada Lovelace',
+      image: null,
+    })
+  })
+
+  it('reads the whole NameID when a comment splits it', () => {
+    const response = samlResponse({ orgId: 'org1', nameId: 'ada@evil.test.acme.test' }, (a) =>
+      a.replace('ada@evil.test.acme.test', 'ada@evil.test<!---->.acme.test'),
+    )
+    expect(validateSamlResponse(response, { sp: spFor('org1'), idp }).nameId).toBe(
+      'ada@evil.test.acme.test',
+    )
+  })
+
+  it('rejects tampered, re-targeted, expired and wrapped assertions', () => {
+    const check = (response: string) => () =>
+      validateSamlResponse(response, { sp: spFor('org1'), idp })
+    expect(check(samlResponse({ orgId: 'org1' }, (a) => a.replace('Lovelace', 'Byron')))).toThrow(
+      'saml_digest_mismatch',
+    )
+    expect(check(samlResponse({ orgId: 'org1', audience: 'https://other.test' }))).toThrow(
+      'saml_audience_mismatch',
+    )
+    expect(
+      check(samlResponse({ orgId: 'org1', notOnOrAfter: new Date(Date.now() - 10 * 60_000) })),
+    ).toThrow('saml_assertion_expired')
+    const wrapped = samlResponse(
+      { orgId: 'org1' },
+      (a) =>
+        `${a.replace('ID="_assertion1"', 'ID="_evil"').replace(/<ds:Signature[\s\S]*<\/ds:Signature>/, '')}${a}`,
+    )
+    expect(check(wrapped)).toThrow('saml_invalid_response')
+    expect(() =>
+      validateSamlResponse(samlResponse({ orgId: 'org1' }), {
+        sp: spFor('org1'),
+        idp: { ...idp, certificates: [spKeys.certificate] },
+      }),
+    ).toThrow('saml_signature_invalid')
+  })
+})
+
+describe('saml plugin routes', () => {
+  let adapter: ReturnType<typeof memoryAdapter>
+  let orgId: string
+  let handlers: ReturnType<NonNullable<ReturnType<typeof createSamlPlugin>['nextRoutes']>>
+  const config = { adapter: null, baseUrl: ORIGIN }
+
+  const route = (kind: string) => {
+    const r = handlers.find((h) => h.kind === kind)
+    if (!r) throw new Error(kind)
+    return (req: Request) => r.handler(req, { config, adapter }) as Promise<Response>
+  }
+
+  beforeEach(async () => {
+    adapter = memoryAdapter()
+    orgId = (await adapter.createOrganization({ name: 'Acme' })).id
+    const plugin = createSamlPlugin({
+      connections: { [orgId]: { idp: parseIdpMetadata(idpMetadata), defaultRole: 'engineer' } },
+      sp: { privateKey: spKeys.pem, certificate: spKeys.certificate },
+    })
+    handlers = plugin.nextRoutes?.() ?? []
+  })
+
+  it('publishes SP metadata', async () => {
+    const res = await route('saml_metadata')(
+      new Request(`${ORIGIN}/api/auth/saml/${orgId}/metadata`),
+    )
+    const xml = await res.text()
+    expect(xml).toBe(spMetadataXml({ ...spFor(orgId), certificate: spKeys.certificate }))
+    expect(xml).toContain('AuthnRequestsSigned="true"')
+    expect(
+      (await route('saml_metadata')(new Request(`${ORIGIN}/api/auth/saml/nope/metadata`))).status,
+    ).toBe(404)
+  })
+
+  it('signs the AuthnRequest, then provisions the member once the IdP answers it', async () => {
+    const login = await route('saml_login')(
+      new Request(`${ORIGIN}/api/auth/saml/${orgId}/login?callbackUrl=/dashboard`),
+    )
+    const location = new URL(login.headers.get('location') as string)
+    expect(location.origin + location.pathname).toBe('https://idp.acme.test/sso')
+
+    const query = location.search.slice(1)
+    const signedPart = query.slice(0, query.indexOf('&Signature='))
+    const spPublicKey = createPublicKey(spKeys.pem)
+    expect(
+      verify(
+        'sha256',
+        Buffer.from(signedPart),
+        spPublicKey,
+        Buffer.from(location.searchParams.get('Signature') as string, 'base64'),
+      ),
+    ).toBe(true)
+    const request = inflateRawSync(
+      Buffer.from(location.searchParams.get('SAMLRequest') as string, 'base64'),
+    ).toString()
+    const requestId = /ID="([^"]+)"/.exec(request)?.[1] as string
+    expect(location.searchParams.get('RelayState')).toBe('/dashboard')
+
+    const post = () =>
+      route('saml_acs')(
+        new Request(`${ORIGIN}/api/auth/saml/${orgId}/acs`, {
+          method: 'POST',
+          body: new URLSearchParams({
+            SAMLResponse: samlResponse({ orgId, inResponseTo: requestId }),
+            RelayState: '/dashboard',
+          }),
+        }),
+      )
+    const res = await post()
+    expect(res.status).toBe(302)
+    expect(res.headers.get('location')).toBe(`${ORIGIN}/dashboard`)
+    expect(res.headers.get('set-cookie')).toMatch(/^__keyloom_session=/)
+
+    const user = await adapter.getUserByEmail('ada@acme.test')
+    expect(user?.name).toBe('Ada Lovelace')
+    expect((await adapter.getAccountByProvider(`saml:${orgId}`, 'ada@acme.test'))?.userId).toBe(
+      user?.id,
+    )
+    expect(await adapter.getMembership(user?.id as string, orgId)).toMatchObject({
+      role: 'engineer',
+    })
+
+    // The login request can only be answered once
+    const replay = await post()
+    expect(replay.headers.get('location')).toContain('error=saml_in_response_to_mismatch')
+  })
+
+  it('refuses unsolicited responses and existing users unless trusted', async () => {
+    const unsolicited = await route('saml_acs')(
+      new Request(`${ORIGIN}/api/auth/saml/${orgId}/acs`, {
+        method: 'POST',
+        body: new URLSearchParams({ SAMLResponse: samlResponse({ orgId }) }),
+      }),
+    )
+    expect(unsolicited.headers.get('location')).toContain('error=saml_unsolicited_response')
+
+    await adapter.createUser({ email: 'ada@acme.test' })
+    handlers =
+      createSamlPlugin({
+        connections: () => ({ idp: parseIdpMetadata(idpMetadata), allowIdpInitiated: true }),
+        sp: { privateKey: spKeys.pem },
+      }).nextRoutes?.() ?? []
+    const existing = await route('saml_acs')(
+      new Request(`${ORIGIN}/api/auth/saml/${orgId}/acs`, {
+        method: 'POST',
+        body: new URLSearchParams({ SAMLResponse: samlResponse({ orgId }) }),
+      }),
+    )
+    expect(existing.headers.get('location')).toContain('error=saml_account_not_linked')
+  })
+
+  it('sends members with 2FA enabled to the second-factor page', async () => {
+    const user = await adapter.createUser({ email: 'ada@acme.test' })
+    await adapter.linkAccount({
+      userId: user.id,
+      provider: `saml:${orgId}`,
+      providerAccountId: 'ada@acme.test',
+    } as any)
+    await adapter.createAuthKey({ userId: user.id, type: 'totp', keyId: `totp:${user.id}` })
+    handlers =
+      createSamlPlugin({
+        connections: () => ({ idp: parseIdpMetadata(idpMetadata), allowIdpInitiated: true }),
+        sp: { privateKey: spKeys.pem },
+      }).nextRoutes?.() ?? []
+
+    const res = await route('saml_acs')(
+      new Request(`${ORIGIN}/api/auth/saml/${orgId}/acs`, {
+        method: 'POST',
+        body: new URLSearchParams({ SAMLResponse: samlResponse({ orgId }), RelayState: '/app' }),
+      }),
+    )
+    expect(res.headers.get('location')).toBe(`${ORIGIN}/auth/two-factor?callbackUrl=%2Fapp`)
+    expect(res.headers.get('set-cookie')).toMatch(/^__keyloom_2fa=/)
+    expect(await adapter.listSessionsByUser(user.id)).toEqual([])
+  })
+
+  it('needs a free seat to provision a new member', async () => {
+    await adapter.setEntitlements(orgId, { seats: 0 })
+    handlers =
+      createSamlPlugin({
+        connections: () => ({ idp: parseIdpMetadata(idpMetadata), allowIdpInitiated: true }),
+        sp: { privateKey: spKeys.pem },
+      }).nextRoutes?.() ?? []
+    const full = await route('saml_acs')(
+      new Request(`${ORIGIN}/api/auth/saml/${orgId}/acs`, {
+        method: 'POST',
+        body: new URLSearchParams({ SAMLResponse: samlResponse({ orgId }) }),
+      }),
+    )
+    expect(full.headers.get('location')).toContain('error=seat_limit_reached')
+    expect(full.headers.get('set-cookie')).toBeNull()
+    expect(await adapter.listMembers(orgId)).toEqual([])
+  })
+})
@@ -0,0 +1,313 @@
+import {
+  type Adapter,
+  addOrgMember,
+  createEventBus,
+  ERR,
+  type EventBus,
+  eventMeta,
+  type ID,
+  type KeyloomConfig,
+  KeyloomError,
+  newSession,
+  type RbacAdapter,
+  type Role,
+  requestClientIp,
+  serializeSecondFactorCookie,
+  serializeSessionCookie,
+  TWO_FACTOR_VERIFY_PATH,
+  type User,
+} from '@keyloom/core'
+import type { KeyloomPlugin, NextRoute } from '@keyloom/core/plugins'
+import { pendingSecondFactorFor } from '@keyloom/core/two-factor'
+import { type SamlIdp, type SamlSp, spMetadataXml } from './metadata'
+import {
+  createAuthnRequest,
+  profileFromAssertion,
+  type SamlAttributeMapping,
+  validateSamlResponse,
+} from './sp'
+
+/** One organization's IdP connection */
+export type SamlConnection = {
+  /** From `parseIdpMetadata(xml)` or entered by hand */
+  idp: SamlIdp
+  /** Role given to users provisioned on first sign-in (default: the plugin's `defaultRole`) */
+  defaultRole?: Role
+  attributeMapping?: SamlAttributeMapping
+  /**
+   * Treat emails asserted by this IdP as verified, so a first SAML sign-in links to an existing
+   * user with the same email. Off by default: the IdP would otherwise control any user's account.
+   */
+  trustEmail?: boolean
+  /** Accept unsolicited (IdP-initiated) responses; these can't be bound to a login request */
+  allowIdpInitiated?: boolean
+}
+
+export type SamlPluginOptions = {
+  /** Connection per organization id; return null when the org has no SSO configured */
+  connections:
+    | Record<ID, SamlConnection>
+    | ((orgId: ID) => SamlConnection | null | Promise<SamlConnection | null>)
+  /** SP signing key pair (PEM); when set, AuthnRequests are signed and the certificate published */
+  sp?: { privateKey?: string; certificate?: string; nameIdFormat?: string }
+  /** Role for just-in-time provisioned members (default `member`) */
+  defaultRole?: Role
+  /** Allowed clock drift for assertion validity windows (default 120 seconds) */
+  clockSkewSec?: number
+  /** How long a login request may take to come back (default 10 minutes) */
+  requestTtlMs?: number
+}
+
+type SamlAdapter = Adapter & RbacAdapter
+type RouteCtx = { config: KeyloomConfig; adapter: SamlAdapter }
+
+const BASE = '/api/auth/saml'
+// Outstanding AuthnRequest IDs are stored as single-use verification tokens under this identifier
+const REQUEST_IDENTIFIER = (orgId: ID) => `saml:request:${orgId}`
+const providerId = (orgId: ID) => `saml:${orgId}`
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json' } })
+
+const redirect = (location: string) => new Response(null, { status: 302, headers: { location } })
+
+// Only same-origin paths are honoured as post-login destinations
+const safeRedirect = (value: unknown) =>
+  typeof value === 'string' && value.startsWith('/') && !value.startsWith('//') ? value : '/'
+
+function baseUrlOf(req: Request, config: KeyloomConfig) {
+  return (config.baseUrl || new URL(req.url).origin).replace(/\/$/, '')
+}
+
+const orgIdOf = (req: Request, route: RegExp) =>
+  decodeURIComponent(route.exec(new URL(req.url).pathname)?.[1] ?? '')
+
+export function createSamlPlugin(options: SamlPluginOptions): KeyloomPlugin {
+  const requestTtlMs = options.requestTtlMs ?? 10 * 60_000
+
+  const connectionFor = async (orgId: ID) =>
+    typeof options.connections === 'function'
+      ? await options.connections(orgId)
+      : (options.connections[orgId] ?? null)
+
+  const spFor = (req: Request, config: KeyloomConfig, orgId: ID): SamlSp => {
+    const base = `${baseUrlOf(req, config)}${BASE}/${encodeURIComponent(orgId)}`
+    return {
+      entityId: `${base}/metadata`,
+      acsUrl: `${base}/acs`,
+      ...(options.sp?.certificate ? { certificate: options.sp.certificate } : {}),
+      ...(options.sp?.nameIdFormat ? { nameIdFormat: options.sp.nameIdFormat } : {}),
+    }
+  }
+
+  const guarded =
+    (route: RegExp, fn: (req: Request, ctx: RouteCtx, orgId: ID) => Promise<Response>) =>
+    async (req: unknown, ctx: { config: unknown; adapter: unknown }) => {
+      const request = req as Request
+      const { config } = ctx as RouteCtx
+      try {
+        return await fn(request, ctx as RouteCtx, orgIdOf(request, route))
+      } catch (e) {
+        // Browser-facing flows land on the error page like the OAuth routes
+        const url = new URL('/auth/error', baseUrlOf(request, config))
+        const error =
+          e instanceof KeyloomError && e.code === ERR.SEAT_LIMIT_REACHED
+            ? 'seat_limit_reached'
+            : e instanceof Error
+              ? e.message
+              : 'saml_error'
+        url.searchParams.set('error', error)
+        return redirect(url.toString())
+      }
+    }
+
+  async function provision(
+    adapter: SamlAdapter,
+    config: KeyloomConfig,
+    events: EventBus,
+    orgId: ID,
+    connection: SamlConnection,
+    profile: ReturnType<typeof profileFromAssertion>,
+    meta: { ip: string | null; userAgent: string | null },
+  ): Promise<User> {
+    const provider = providerId(orgId)
+    const account = await adapter.getAccountByProvider(provider, profile.id)
+    let user = account ? await adapter.getUser(account.userId) : null
+
+    if (!user) {
+      const existing = profile.email ? await adapter.getUserByEmail(profile.email) : null
+      if (existing && !connection.trustEmail) throw new Error('saml_account_not_linked')
+      user = existing
+      if (!user) {
+        const { data } = await events.before('userCreate', {
+          data: {
+            email: profile.email ?? null,
+            name: profile.name ?? null,
+            image: profile.image ?? null,
+            emailVerified: profile.email && connection.trustEmail ? new Date() : null,
+          },
+          method: 'saml',
+          provider,
+        })
+        user = await adapter.createUser(data as Partial<User>)
+        await events.emit(
+          'user.created',
+          { email: user.email, method: 'saml', provider },
+          eventMeta(user.id, meta),
+        )
+      }
+      await adapter.linkAccount({
+        id: undefined as any,
+        userId: user.id,
+        provider,
+        providerAccountId: profile.id,
+      })
+      await events.emit(
+        'account.linked',
+        { provider, providerAccountId: profile.id },
+        eventMeta(user.id, meta),
+      )
+    }
+
+    // Just-in-time membership: the IdP vouches for the user belonging to this organization
+    const membership = await adapter.getMembership(user.id, orgId)
+    if (!membership) {
+      const role = connection.defaultRole ?? options.defaultRole ?? 'member'
+      // Takes a seat like any other new member; a full org gets `seat_limit_reached`
+      await addOrgMember({ userId: user.id, orgId, role }, { adapter, rbac: config.rbac })
+      await events.emit(
+        'rbac.role.assigned',
+        { orgId, role },
+        { ...eventMeta(user.id, meta), orgId },
+      )
+    } else if (membership.status === 'suspended') {
+      throw new Error('saml_membership_suspended')
+    } else if (membership.status === 'invited') {
+      await adapter.updateMember(membership.id, { status: 'active' })
+    }
+
+    await events.before('signIn', { user, method: 'saml', provider })
+    return user
+  }
+
+  const metadataPath = new RegExp(`${BASE}/([^/]+)/metadata$`)
+  const loginPath = new RegExp(`${BASE}/([^/]+)/login$`)
+  const acsPath = new RegExp(`${BASE}/([^/]+)/acs$`)
+
+  const routes: NextRoute[] = [
+    {
+      method: 'GET',
+      kind: 'saml_metadata',
+      path: metadataPath,
+      handler: async (req, ctx) => {
+        const request = req as Request
+        const { config } = ctx as RouteCtx
+        const orgId = orgIdOf(request, metadataPath)
+        if (!(await connectionFor(orgId))) return json({ error: 'saml_not_configured' }, 404)
+        return new Response(spMetadataXml(spFor(request, config, orgId)), {
+          headers: { 'content-type': 'application/samlmetadata+xml' },
+        })
+      },
+    },
+    {
+      method: 'GET',
+      kind: 'saml_login',
+      path: loginPath,
+      handler: guarded(loginPath, async (req, { config, adapter }, orgId) => {
+        const connection = await connectionFor(orgId)
+        if (!connection || !(await adapter.getOrganization(orgId)))
+          throw new Error('saml_not_configured')
+        const callbackUrl = new URL(req.url).searchParams.get('callbackUrl')
+        const { id, url } = createAuthnRequest({
+          sp: spFor(req, config, orgId),
+          idp: connection.idp,
+          relayState: safeRedirect(callbackUrl),
+          ...(options.sp?.privateKey ? { privateKey: options.sp.privateKey } : {}),
+        })
+        await adapter.createVerificationToken({
+          identifier: REQUEST_IDENTIFIER(orgId),
+          token: id,
+          expiresAt: new Date(Date.now() + requestTtlMs),
+        })
+        return redirect(url)
+      }),
+    },
+    {
+      method: 'POST',
+      kind: 'saml_acs',
+      path: acsPath,
+      handler: guarded(acsPath, async (req, { config, adapter }, orgId) => {
+        const connection = await connectionFor(orgId)
+        if (!connection || !(await adapter.getOrganization(orgId)))
+          throw new Error('saml_not_configured')
+        const form = await req.formData()
+        const samlResponse = form.get('SAMLResponse')
+        if (typeof samlResponse !== 'string') throw new Error('saml_invalid_response')
+
+        const assertion = validateSamlResponse(samlResponse, {
+          sp: spFor(req, config, orgId),
+          idp: connection.idp,
+          ...(options.clockSkewSec !== undefined ? { clockSkewSec: options.clockSkewSec } : {}),
+        })
+        // Each login request can be answered once; unsolicited responses need opting in
+        if (assertion.inResponseTo) {
+          const vt = await adapter.useVerificationToken(
+            REQUEST_IDENTIFIER(orgId),
+            assertion.inResponseTo,
+          )
+          if (!vt || vt.expiresAt.getTime() < Date.now())
+            throw new Error('saml_in_response_to_mismatch')
+        } else if (!connection.allowIdpInitiated) {
+          throw new Error('saml_unsolicited_response')
+        }
+
+        const meta = {
+          ip: requestClientIp(req, config.rateLimit?.trustedProxies),
+          userAgent: req.headers.get('user-agent'),
+        }
+        const events = createEventBus({ hooks: config.hooks, adapter })
+        const profile = profileFromAssertion(assertion, connection.attributeMapping)
+        const user = await provision(adapter, config, events, orgId, connection, profile, meta)
+        const cookie = {
+          sameSite: config.cookie?.sameSite ?? 'lax',
+          ...(config.cookie?.domain ? { domain: config.cookie.domain } : {}),
+        } as const
+        const target = safeRedirect(form.get('RelayState'))
+
+        // Users with TOTP enabled finish on the 2FA page, which then continues to the target
+        const pending = await pendingSecondFactorFor(user.id, adapter)
+        if (pending) {
+          const url = new URL(
+            config.twoFactor?.verifyPath ?? TWO_FACTOR_VERIFY_PATH,
+            baseUrlOf(req, config),
+          )
+          url.searchParams.set('callbackUrl', target)
+          const res = redirect(url.toString())
+          res.headers.append(
+            'Set-Cookie',
+            serializeSecondFactorCookie(pending.token, {
+              ...cookie,
+              maxAge: (pending.expiresAt.getTime() - Date.now()) / 1000,
+            }),
+          )
+          return res
+        }
+
+        const session = await adapter.createSession(
+          newSession(user.id, config.session?.ttlMinutes, meta),
+        )
+        await events.emit(
+          'session.created',
+          { method: 'saml', provider: providerId(orgId) },
+          eventMeta(user.id, meta),
+        )
+
+        const res = redirect(new URL(target, baseUrlOf(req, config)).toString())
+        res.headers.append('Set-Cookie', serializeSessionCookie(session.id, cookie))
+        return res
+      }),
+    },
+  ]
+
+  return { name: 'saml', nextRoutes: () => routes }
+}
@@ -0,0 +1,108 @@
+import { createHash, type KeyObject, sign, verify, X509Certificate } from 'node:crypto'
+import {
+  attribute,
+  canonicalize,
+  childElements,
+  firstChild,
+  textContent,
+  type XmlElement,
+} from './xml'
+
+export const DSIG_NS = 'http://www.w3.org/2000/09/xmldsig#'
+const EXC_C14N = 'http://www.w3.org/2001/10/xml-exc-c14n#'
+const ENVELOPED = 'http://www.w3.org/2000/09/xmldsig#enveloped-signature'
+
+// Signature and digest algorithms we accept; SHA-1 is deliberately not among them
+export const SIGNATURE_ALGORITHMS: Record<string, string> = {
+  'http://www.w3.org/2001/04/xmldsig-more#rsa-sha256': 'sha256',
+  'http://www.w3.org/2001/04/xmldsig-more#rsa-sha512': 'sha512',
+}
+const DIGEST_ALGORITHMS: Record<string, string> = {
+  'http://www.w3.org/2001/04/xmlenc#sha256': 'sha256',
+  'http://www.w3.org/2001/04/xmlenc#sha512': 'sha512',
+}
+export const RSA_SHA256 = 'http://www.w3.org/2001/04/xmldsig-more#rsa-sha256'
+
+/** Base64 DER body of a PEM certificate or bare base64 (as found in metadata) -> PEM */
+export function toCertificatePem(cert: string) {
+  const body = cert.replace(/-----(BEGIN|END) CERTIFICATE-----/g, '').replace(/\s+/g, '')
+  return `-----BEGIN CERTIFICATE-----\n${body.match(/.{1,64}/g)?.join('\n') ?? ''}\n-----END CERTIFICATE-----\n`
+}
+
+export function certificateKey(cert: string): KeyObject {
+  return new X509Certificate(toCertificatePem(cert)).publicKey
+}
+
+function c14nOptions(method: XmlElement | null) {
+  if (attribute(method, 'Algorithm') !== EXC_C14N) throw new Error('saml_unsupported_c14n')
+  const list = method && firstChild(method, EXC_C14N, 'InclusiveNamespaces')
+  const prefixes = attribute(list, 'PrefixList')
+  return prefixes ? prefixes.split(/\s+/).filter(Boolean) : []
+}
+
+/** The enveloped `ds:Signature` directly under `el`, or null when it isn't signed */
+export const signatureOf = (el: XmlElement) => firstChild(el, DSIG_NS, 'Signature')
+
+/**
+ * Verify the enveloped signature on `el` against any of the trusted certificates. The signature must
+ * cover exactly `el` (a single Reference to its ID), so nothing outside the signed element is trusted.
+ */
+export function verifyEnvelopedSignature(el: XmlElement, certificates: string[]) {
+  const signature = signatureOf(el)
+  if (!signature) throw new Error('saml_signature_missing')
+  const signedInfo = firstChild(signature, DSIG_NS, 'SignedInfo')
+  if (!signedInfo) throw new Error('saml_signature_invalid')
+  const hash =
+    SIGNATURE_ALGORITHMS[
+      attribute(firstChild(signedInfo, DSIG_NS, 'SignatureMethod'), 'Algorithm') ?? ''
+    ]
+  if (!hash) throw new Error('saml_unsupported_signature_algorithm')
+
+  const references = childElements(signedInfo, DSIG_NS, 'Reference')
+  const id = attribute(el, 'ID')
+  if (references.length !== 1 || !id || attribute(references[0], 'URI') !== `#${id}`)
+    throw new Error('saml_signature_reference_mismatch')
+  const reference = references[0] as XmlElement
+
+  let inclusivePrefixes: string[] = []
+  for (const t of childElements(
+    firstChild(reference, DSIG_NS, 'Transforms') ?? reference,
+    DSIG_NS,
+    'Transform',
+  )) {
+    const algorithm = attribute(t, 'Algorithm')
+    if (algorithm === EXC_C14N) inclusivePrefixes = c14nOptions(t)
+    else if (algorithm !== ENVELOPED) throw new Error('saml_unsupported_transform')
+  }
+  const digest =
+    DIGEST_ALGORITHMS[attribute(firstChild(reference, DSIG_NS, 'DigestMethod'), 'Algorithm') ?? '']
+  if (!digest) throw new Error('saml_unsupported_digest_algorithm')
+  const expected = textContent(firstChild(reference, DSIG_NS, 'DigestValue')).replace(/\s+/g, '')
+  const actual = createHash(digest)
+    .update(canonicalize(el, { exclude: signature, inclusivePrefixes }))
+    .digest('base64')
+  if (actual !== expected) throw new Error('saml_digest_mismatch')
+
+  const signedBytes = Buffer.from(
+    canonicalize(signedInfo, {
+      inclusivePrefixes: c14nOptions(firstChild(signedInfo, DSIG_NS, 'CanonicalizationMethod')),
+    }),
+  )
+  const value = Buffer.from(
+    textContent(firstChild(signature, DSIG_NS, 'SignatureValue')).replace(/\s+/g, ''),
+    'base64',
+  )
+  const ok = certificates.some((cert) => {
+    try {
+      return verify(hash, signedBytes, certificateKey(cert), value)
+    } catch {
+      return false
+    }
+  })
+  if (!ok) throw new Error('saml_signature_invalid')
+}
+
+/** HTTP-Redirect binding signature over the `SAMLRequest=..&RelayState=..&SigAlg=..` query string */
+export function signRedirectQuery(query: string, privateKey: string) {
+  return sign('sha256', Buffer.from(query), privateKey).toString('base64')
+}
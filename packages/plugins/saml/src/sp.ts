@@ -0,0 +1,245 @@
+import { randomBytes } from 'node:crypto'
+import { deflateRawSync } from 'node:zlib'
+import type { Profile } from '@keyloom/core'
+import { NAMEID_EMAIL, NAMEID_UNSPECIFIED, type SamlIdp, type SamlSp } from './metadata'
+import { RSA_SHA256, signatureOf, signRedirectQuery, verifyEnvelopedSignature } from './signature'
+import {
+  attribute,
+  childElements,
+  escapeAttr,
+  escapeText,
+  firstChild,
+  parseXml,
+  textContent,
+  type XmlElement,
+} from './xml'
+
+export const PROTOCOL_NS = 'urn:oasis:names:tc:SAML:2.0:protocol'
+export const ASSERTION_NS = 'urn:oasis:names:tc:SAML:2.0:assertion'
+const STATUS_SUCCESS = 'urn:oasis:names:tc:SAML:2.0:status:Success'
+const BEARER = 'urn:oasis:names:tc:SAML:2.0:cm:bearer'
+const DEFAULT_CLOCK_SKEW_SEC = 120
+
+export type SamlAssertion = {
+  issuer: string
+  nameId: string
+  nameIdFormat: string | null
+  sessionIndex: string | null
+  /** The AuthnRequest ID this answers; null for IdP-initiated sign-ins */
+  inResponseTo: string | null
+  attributes: Record<string, string[]>
+}
+
+/** Attribute names (or friendly names) to read each profile field from; the first present wins */
+export type SamlAttributeMapping = {
+  email?: string[]
+  name?: string[]
+  firstName?: string[]
+  lastName?: string[]
+  image?: string[]
+}
+
+export const DEFAULT_ATTRIBUTE_MAPPING: Required<SamlAttributeMapping> = {
+  email: [
+    'email',
+    'mail',
+    'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/emailaddress',
+    'urn:oid:0.9.2342.19200300.100.1.3',
+  ],
+  name: [
+    'name',
+    'displayName',
+    'http://schemas.microsoft.com/identity/claims/displayname',
+    'urn:oid:2.16.840.1.113730.3.1.241',
+  ],
+  firstName: [
+    'firstName',
+    'givenName',
+    'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/givenname',
+    'urn:oid:2.5.4.42',
+  ],
+  lastName: [
+    'lastName',
+    'sn',
+    'surname',
+    'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/surname',
+    'urn:oid:2.5.4.4',
+  ],
+  image: ['picture', 'image'],
+}
+
+const instant = (d: Date) => d.toISOString().replace(/\.\d{3}Z$/, 'Z')
+
+/**
+ * Build an HTTP-Redirect binding AuthnRequest. With `privateKey` the query is signed (RSA-SHA256);
+ * keep the returned `id` to check the response's InResponseTo.
+ */
+export function createAuthnRequest(input: {
+  sp: SamlSp
+  idp: SamlIdp
+  relayState?: string
+  privateKey?: string
+}): { id: string; url: string } {
+  const id = `_${randomBytes(20).toString('hex')}`
+  const xml =
+    `<samlp:AuthnRequest xmlns:samlp="${PROTOCOL_NS}" xmlns:saml="${ASSERTION_NS}"` +
+    ` ID="${id}" Version="2.0" IssueInstant="${instant(new Date())}"` +
+    ` Destination="${escapeAttr(input.idp.ssoUrl)}" AssertionConsumerServiceURL="${escapeAttr(input.sp.acsUrl)}"` +
+    ` ProtocolBinding="urn:oasis:names:tc:SAML:2.0:bindings:HTTP-POST">` +
+    `<saml:Issuer>${escapeText(input.sp.entityId)}</saml:Issuer>` +
+    `<samlp:NameIDPolicy Format="${escapeAttr(input.sp.nameIdFormat ?? NAMEID_EMAIL)}" AllowCreate="true"/>` +
+    '</samlp:AuthnRequest>'
+
+  // The signature covers the URL-encoded parameters in this exact order (SAML bindings 3.4.4.1)
+  let query = `SAMLRequest=${encodeURIComponent(deflateRawSync(Buffer.from(xml)).toString('base64'))}`
+  if (input.relayState) query += `&RelayState=${encodeURIComponent(input.relayState)}`
+  if (input.privateKey) {
+    query += `&SigAlg=${encodeURIComponent(RSA_SHA256)}`
+    query += `&Signature=${encodeURIComponent(signRedirectQuery(query, input.privateKey))}`
+  } else if (input.idp.wantAuthnRequestsSigned) {
+    throw new Error('saml_signing_key_required')
+  }
+  const url = new URL(input.idp.ssoUrl)
+  url.search = url.search ? `${url.search.slice(1)}&${query}` : query
+  return { id, url: url.toString() }
+}
+
+function parseTime(value: string | null) {
+  if (!value) return null
+  const t = Date.parse(value)
+  if (Number.isNaN(t)) throw new Error('saml_invalid_timestamp')
+  return t
+}
+
+function readAttributes(assertion: XmlElement) {
+  const out: Record<string, string[]> = {}
+  for (const statement of childElements(assertion, ASSERTION_NS, 'AttributeStatement')) {
+    for (const attr of childElements(statement, ASSERTION_NS, 'Attribute')) {
+      const values = childElements(attr, ASSERTION_NS, 'AttributeValue').map((v) =>
+        textContent(v).trim(),
+      )
+      for (const key of [attribute(attr, 'Name'), attribute(attr, 'FriendlyName')]) {
+        if (key) out[key] = [...(out[key] ?? []), ...values]
+      }
+    }
+  }
+  return out
+}
+
+/**
+ * Validate a base64 `SAMLResponse` from the HTTP-POST binding and return its assertion:
+ * success status, a signature over the Response or the Assertion by one of the IdP's certificates,
+ * issuer, destination/recipient, audience, validity window and (for SP-initiated flows) InResponseTo.
+ * Only the signed element is read, which rules out signature-wrapping tricks.
+ */
+export function validateSamlResponse(
+  samlResponse: string,
+  ctx: {
+    sp: SamlSp
+    idp: SamlIdp
+    /** AuthnRequest IDs this SP issued and hasn't seen answered; omit to allow IdP-initiated SSO */
+    requestIds?: string[]
+    clockSkewSec?: number
+    now?: Date
+  },
+): SamlAssertion {
+  const response = parseXml(Buffer.from(samlResponse, 'base64').toString('utf8'))
+  if (response.ns !== PROTOCOL_NS || response.local !== 'Response')
+    throw new Error('saml_invalid_response')
+  const now = (ctx.now ?? new Date()).getTime()
+  const skew = (ctx.clockSkewSec ?? DEFAULT_CLOCK_SKEW_SEC) * 1000
+
+  const status = attribute(
+    firstChild(firstChild(response, PROTOCOL_NS, 'Status'), PROTOCOL_NS, 'StatusCode'),
+    'Value',
+  )
+  if (status !== STATUS_SUCCESS)
+    throw new Error(`saml_status:${status?.split(':').pop() ?? 'missing'}`)
+  const destination = attribute(response, 'Destination')
+  if (destination && destination !== ctx.sp.acsUrl) throw new Error('saml_destination_mismatch')
+  const responseIssuer = textContent(firstChild(response, ASSERTION_NS, 'Issuer')).trim()
+  if (responseIssuer && responseIssuer !== ctx.idp.entityId) throw new Error('saml_issuer_mismatch')
+
+  if (firstChild(response, ASSERTION_NS, 'EncryptedAssertion'))
+    throw new Error('saml_encrypted_assertion_unsupported')
+  const assertions = childElements(response, ASSERTION_NS, 'Assertion')
+  if (assertions.length !== 1) throw new Error('saml_invalid_response')
+  const assertion = assertions[0] as XmlElement
+  if (signatureOf(response)) verifyEnvelopedSignature(response, ctx.idp.certificates)
+  else verifyEnvelopedSignature(assertion, ctx.idp.certificates)
+
+  if (textContent(firstChild(assertion, ASSERTION_NS, 'Issuer')).trim() !== ctx.idp.entityId)
+    throw new Error('saml_issuer_mismatch')
+
+  const conditions = firstChild(assertion, ASSERTION_NS, 'Conditions')
+  const notBefore = parseTime(attribute(conditions, 'NotBefore'))
+  const notOnOrAfter = parseTime(attribute(conditions, 'NotOnOrAfter'))
+  if ((notBefore && now + skew < notBefore) || (notOnOrAfter && now - skew >= notOnOrAfter))
+    throw new Error('saml_assertion_expired')
+  const audiences = childElements(conditions ?? assertion, ASSERTION_NS, 'AudienceRestriction').map(
+    (r) => childElements(r, ASSERTION_NS, 'Audience').map((a) => textContent(a).trim()),
+  )
+  if (!audiences.length || audiences.some((list) => !list.includes(ctx.sp.entityId)))
+    throw new Error('saml_audience_mismatch')
+
+  const subject = firstChild(assertion, ASSERTION_NS, 'Subject')
+  const nameIdEl = firstChild(subject, ASSERTION_NS, 'NameID')
+  const nameId = textContent(nameIdEl).trim()
+  if (!nameId) throw new Error('saml_missing_name_id')
+
+  // A bearer confirmation must be currently valid and addressed to our ACS
+  const responseTo = attribute(response, 'InResponseTo')
+  const confirmation = childElements(subject as XmlElement, ASSERTION_NS, 'SubjectConfirmation')
+    .filter((c) => attribute(c, 'Method') === BEARER)
+    .map((c) => firstChild(c, ASSERTION_NS, 'SubjectConfirmationData'))
+    .find((data) => {
+      const expires = parseTime(attribute(data, 'NotOnOrAfter'))
+      const recipient = attribute(data, 'Recipient')
+      const answers = attribute(data, 'InResponseTo')
+      return (
+        !!expires &&
+        now - skew < expires &&
+        (!recipient || recipient === ctx.sp.acsUrl) &&
+        (!answers || !responseTo || answers === responseTo)
+      )
+    })
+  if (confirmation === undefined) throw new Error('saml_subject_not_confirmed')
+
+  const inResponseTo = responseTo ?? attribute(confirmation, 'InResponseTo')
+  if (ctx.requestIds && (!inResponseTo || !ctx.requestIds.includes(inResponseTo)))
+    throw new Error('saml_in_response_to_mismatch')
+
+  return {
+    issuer: ctx.idp.entityId,
+    nameId,
+    nameIdFormat: attribute(nameIdEl, 'Format'),
+    sessionIndex: attribute(firstChild(assertion, ASSERTION_NS, 'AuthnStatement'), 'SessionIndex'),
+    inResponseTo,
+    attributes: readAttributes(assertion),
+  }
+}
+
+/** Map an assertion's NameID and attributes to a `Profile` (the NameID is the stable account id). */
+export function profileFromAssertion(
+  assertion: SamlAssertion,
+  mapping: SamlAttributeMapping = {},
+): Profile {
+  const pick = (field: keyof SamlAttributeMapping) => {
+    for (const key of mapping[field] ?? DEFAULT_ATTRIBUTE_MAPPING[field]) {
+      const value = assertion.attributes[key]?.find(Boolean)
+      if (value) return value
+    }
+    return null
+  }
+  const nameIdIsEmail =
+    assertion.nameIdFormat === NAMEID_EMAIL ||
+    ((!assertion.nameIdFormat || assertion.nameIdFormat === NAMEID_UNSPECIFIED) &&
+      /^[^@\s]+@[^@\s]+$/.test(assertion.nameId))
+  const fullName = [pick('firstName'), pick('lastName')].filter(Boolean).join(' ')
+  return {
+    id: assertion.nameId,
+    email: (pick('email') ?? (nameIdIsEmail ? assertion.nameId : null))?.toLowerCase() ?? null,
+    name: pick('name') ?? (fullName || null),
+    image: pick('image'),
+  }
+}
@@ -0,0 +1,255 @@
+// Minimal namespace-aware XML parser and Exclusive XML Canonicalization (exc-c14n, without
+// comments) covering what SAML protocol messages and metadata use. DOCTYPEs are rejected outright,
+// so there are no external entities or entity expansion to worry about.
+
+export const XML_NS = 'http://www.w3.org/XML/1998/namespace'
+
+export type XmlAttribute = {
+  name: string
+  prefix: string | null
+  local: string
+  ns: string | null
+  value: string
+}
+
+export type XmlElement = {
+  name: string
+  prefix: string | null
+  local: string
+  ns: string | null
+  attributes: XmlAttribute[]
+  /** Namespace declarations made on this element; the default namespace is keyed by '' */
+  nsDecls: Record<string, string>
+  children: XmlNode[]
+  parent: XmlElement | null
+}
+
+/** Text and CDATA content; comments and processing instructions are dropped while parsing */
+export type XmlNode = XmlElement | string
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" }
+
+function decodeEntities(s: string) {
+  return s.replace(/&([^;&\s]*);/g, (_, ref: string) => {
+    if (ref[0] === '#') {
+      const code =
+        ref[1] === 'x' ? Number.parseInt(ref.slice(2), 16) : Number.parseInt(ref.slice(1), 10)
+      if (!Number.isFinite(code)) throw new Error('xml_invalid_char_ref')
+      return String.fromCodePoint(code)
+    }
+    const out = ENTITIES[ref]
+    if (out === undefined) throw new Error('xml_unknown_entity')
+    return out
+  })
+}
+
+const splitName = (name: string): [string | null, string] => {
+  const i = name.indexOf(':')
+  return i < 0 ? [null, name] : [name.slice(0, i), name.slice(i + 1)]
+}
+
+/** Namespace URI bound to `prefix` ('' for the default namespace) at `el`, or null */
+export function lookupNamespace(el: XmlElement | null, prefix: string): string | null {
+  if (prefix === 'xml') return XML_NS
+  for (let cur = el; cur; cur = cur.parent) {
+    const uri = cur.nsDecls[prefix]
+    if (uri !== undefined) return uri || null
+  }
+  return null
+}
+
+const NAME_RE = /[^\s/>=]+/y
+const ATTR_RE = /\s*([^\s/>=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/y
+
+/** Parse a document and return its root element */
+export function parseXml(input: string): XmlElement {
+  const xml = input.replace(/\r\n?/g, '\n')
+  let pos = 0
+  let root: XmlElement | null = null
+  let current: XmlElement | null = null
+
+  const skip = (end: string, code: string) => {
+    const i = xml.indexOf(end, pos)
+    if (i < 0) throw new Error(code)
+    const body = xml.slice(pos, i)
+    pos = i + end.length
+    return body
+  }
+
+  while (pos < xml.length) {
+    const lt = xml.indexOf('<', pos)
+    const text = xml.slice(pos, lt < 0 ? xml.length : lt)
+    if (text) {
+      if (current) current.children.push(decodeEntities(text))
+      else if (text.trim()) throw new Error('xml_text_outside_root')
+    }
+    if (lt < 0) break
+    pos = lt
+
+    if (xml.startsWith('<!--', pos)) {
+      pos += 4
+      skip('-->', 'xml_unterminated_comment')
+    } else if (xml.startsWith('<?', pos)) {
+      pos += 2
+      skip('?>', 'xml_unterminated_pi')
+    } else if (xml.startsWith('<![CDATA[', pos)) {
+      pos += 9
+      const data = skip(']]>', 'xml_unterminated_cdata')
+      if (!current) throw new Error('xml_text_outside_root')
+      current.children.push(data)
+    } else if (xml.startsWith('<!', pos)) {
+      throw new Error('xml_doctype_not_allowed')
+    } else if (xml.startsWith('</', pos)) {
+      pos += 2
+      const name = skip('>', 'xml_unterminated_tag').trim()
+      if (!current || current.name !== name) throw new Error('xml_mismatched_tag')
+      current = current.parent
+    } else {
+      pos += 1
+      NAME_RE.lastIndex = pos
+      const name = NAME_RE.exec(xml)?.[0]
+      if (!name) throw new Error('xml_invalid_tag')
+      pos += name.length
+
+      const raw: Array<[string, string]> = []
+      for (;;) {
+        ATTR_RE.lastIndex = pos
+        const m = ATTR_RE.exec(xml)
+        if (!m) break
+        // Attribute-value normalization: literal whitespace characters become spaces
+        raw.push([m[1] as string, decodeEntities((m[2] ?? m[3] ?? '').replace(/[\t\n]/g, ' '))])
+        pos = ATTR_RE.lastIndex
+      }
+      while (/\s/.test(xml[pos] ?? '')) pos++
+      const selfClosing = xml[pos] === '/'
+      if (selfClosing) pos++
+      if (xml[pos] !== '>') throw new Error('xml_invalid_tag')
+      pos++
+
+      const nsDecls: Record<string, string> = {}
+      const plain: Array<[string, string]> = []
+      for (const [attr, value] of raw) {
+        if (attr === 'xmlns') nsDecls[''] = value
+        else if (attr.startsWith('xmlns:')) nsDecls[attr.slice(6)] = value
+        else plain.push([attr, value])
+      }
+      const [prefix, local] = splitName(name)
+      const el: XmlElement = {
+        name,
+        prefix,
+        local,
+        ns: null,
+        attributes: [],
+        nsDecls,
+        children: [],
+        parent: current,
+      }
+      el.ns = lookupNamespace(el, prefix ?? '')
+      if (prefix && !el.ns) throw new Error('xml_unbound_prefix')
+      const seen = new Set<string>()
+      for (const [attr, value] of plain) {
+        if (seen.has(attr)) throw new Error('xml_duplicate_attribute')
+        seen.add(attr)
+        const [aPrefix, aLocal] = splitName(attr)
+        // Unprefixed attributes are in no namespace, whatever the default namespace is
+        const ns = aPrefix ? lookupNamespace(el, aPrefix) : null
+        if (aPrefix && !ns) throw new Error('xml_unbound_prefix')
+        el.attributes.push({ name: attr, prefix: aPrefix, local: aLocal, ns, value })
+      }
+
+      if (current) current.children.push(el)
+      else if (root) throw new Error('xml_multiple_roots')
+      else root = el
+      if (!selfClosing) current = el
+    }
+  }
+  if (!root || current) throw new Error('xml_unterminated_document')
+  return root
+}
+
+// ---- Navigation ----
+export const childElements = (el: XmlElement, ns?: string, local?: string) =>
+  el.children.filter(
+    (c): c is XmlElement =>
+      typeof c !== 'string' && (!ns || c.ns === ns) && (!local || c.local === local),
+  )
+
+export const firstChild = (el: XmlElement | null | undefined, ns: string, local: string) =>
+  el ? (childElements(el, ns, local)[0] ?? null) : null
+
+/** All descendant elements named `{ns}local`, in document order */
+export function descendants(el: XmlElement, ns: string, local: string): XmlElement[] {
+  const out: XmlElement[] = []
+  for (const c of childElements(el)) {
+    if (c.ns === ns && c.local === local) out.push(c)
+    out.push(...descendants(c, ns, local))
+  }
+  return out
+}
+
+export const attribute = (el: XmlElement | null | undefined, local: string) =>
+  el?.attributes.find((a) => !a.ns && a.local === local)?.value ?? null
+
+/** Concatenated text content, so comments can't split a value into a shorter first text node */
+export function textContent(el: XmlElement | null | undefined): string {
+  if (!el) return ''
+  return el.children.map((c) => (typeof c === 'string' ? c : textContent(c))).join('')
+}
+
+// ---- Serialization ----
+export const escapeText = (s: string) =>
+  s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\r/g, '&#xD;')
+
+export const escapeAttr = (s: string) =>
+  s
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\t/g, '&#x9;')
+    .replace(/\n/g, '&#xA;')
+    .replace(/\r/g, '&#xD;')
+
+const byCodePoint = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0)
+
+/**
+ * Exclusive XML Canonicalization 1.0 of `el`, omitting `exclude` (the enveloped signature).
+ * `inclusivePrefixes` is the InclusiveNamespaces PrefixList ('#default' for the default namespace).
+ */
+export function canonicalize(
+  el: XmlElement,
+  options: { exclude?: XmlElement | null; inclusivePrefixes?: string[] } = {},
+): string {
+  const inclusive = (options.inclusivePrefixes ?? []).map((p) => (p === '#default' ? '' : p))
+
+  const render = (node: XmlElement, rendered: Record<string, string>): string => {
+    const used = new Set<string>([node.prefix ?? ''])
+    for (const a of node.attributes) if (a.prefix && a.prefix !== 'xml') used.add(a.prefix)
+    for (const p of inclusive) if (p === '' || lookupNamespace(node, p)) used.add(p)
+
+    const scope = { ...rendered }
+    const decls: Array<[string, string]> = []
+    for (const prefix of used) {
+      const uri = lookupNamespace(node, prefix) ?? ''
+      if ((rendered[prefix] ?? '') === uri) continue
+      scope[prefix] = uri
+      decls.push([prefix, uri])
+    }
+    decls.sort(([a], [b]) => byCodePoint(a, b))
+    const attrs = [...node.attributes].sort(
+      (a, b) => byCodePoint(a.ns ?? '', b.ns ?? '') || byCodePoint(a.local, b.local),
+    )
+
+    let out = `<${node.name}`
+    for (const [prefix, uri] of decls)
+      out += prefix ? ` xmlns:${prefix}="${escapeAttr(uri)}"` : ` xmlns="${escapeAttr(uri)}"`
+    for (const a of attrs) out += ` ${a.name}="${escapeAttr(a.value)}"`
+    out += '>'
+    for (const c of node.children) {
+      if (typeof c === 'string') out += escapeText(c)
+      else if (c !== options.exclude) out += render(c, scope)
+    }
+    return `${out}</${node.name}>`
+  }
+
+  return render(el, {})
+}
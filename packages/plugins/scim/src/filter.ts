@@ -0,0 +1,231 @@
+import { ScimError } from './schema'
+
+type CompareOp = 'eq' | 'ne' | 'co' | 'sw' | 'ew' | 'gt' | 'ge' | 'lt' | 'le'
+type Literal = string | number | boolean | null
+
+/** Parsed RFC 7644 §3.4.2.2 filter; `has` is a value path such as `emails[type eq "work"]` */
+export type ScimFilter =
+  | { op: 'and' | 'or'; left: ScimFilter; right: ScimFilter }
+  | { op: 'not'; filter: ScimFilter }
+  | { op: 'pr'; attr: string }
+  | { op: CompareOp; attr: string; value: Literal }
+  | { op: 'has'; attr: string; filter: ScimFilter }
+
+/** A PATCH target: `attr`, `attr.sub`, `attr[filter]` or `attr[filter].sub` */
+export type ScimPath = { attr: string; filter?: ScimFilter; sub?: string }
+
+const COMPARE_OPS = new Set(['eq', 'ne', 'co', 'sw', 'ew', 'gt', 'ge', 'lt', 'le'])
+const ATTR_RE = /^(?:urn:[\w.:-]+:)?[A-Za-z$][\w$-]*(?:\.[A-Za-z$][\w$-]*)?$/
+const NUMBER_RE = /^-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?$/
+const TOKEN_RE = /\s*(?:([()[\]])|("(?:[^"\\]|\\.)*")|([^\s()[\]"]+))/y
+// Identifiers are compared exactly; every other string attribute we expose is case-insensitive
+const CASE_EXACT = new Set(['id', 'externalid'])
+
+const invalidFilter = (detail: string) => new ScimError(400, detail, 'invalidFilter')
+
+export const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v)
+
+/** The key of `obj` matching `name` case-insensitively, or `name` itself when there is none */
+export function keyOf(obj: Record<string, unknown>, name: string) {
+  const lower = name.toLowerCase()
+  return Object.keys(obj).find((k) => k.toLowerCase() === lower) ?? name
+}
+
+export const pick = (obj: Record<string, unknown>, name: string) => obj[keyOf(obj, name)]
+
+/** `urn:...:User:name.givenName` → `['name', 'givenName']` (only core schema attributes exist) */
+export function attrSegments(attr: string) {
+  return attr.replace(/^urn:.*:(?=[^:]+$)/i, '').split('.')
+}
+
+function tokenize(input: string) {
+  const tokens: string[] = []
+  let i = 0
+  while (i < input.length) {
+    TOKEN_RE.lastIndex = i
+    const m = TOKEN_RE.exec(input)
+    if (!m) {
+      if (input.slice(i).trim()) throw invalidFilter(`Invalid filter near "${input.slice(i)}"`)
+      break
+    }
+    tokens.push(m[1] ?? m[2] ?? m[3] ?? '')
+    i = TOKEN_RE.lastIndex
+  }
+  return tokens
+}
+
+function literal(token: string): Literal {
+  if (token.startsWith('"')) {
+    try {
+      return JSON.parse(token) as string
+    } catch {
+      throw invalidFilter(`Invalid string ${token}`)
+    }
+  }
+  const lower = token.toLowerCase()
+  if (lower === 'true') return true
+  if (lower === 'false') return false
+  if (lower === 'null') return null
+  if (NUMBER_RE.test(token)) return Number(token)
+  throw invalidFilter(`Invalid value "${token}"`)
+}
+
+export function parseFilter(input: string): ScimFilter {
+  const tokens = tokenize(input)
+  let pos = 0
+  const word = () => tokens[pos]?.toLowerCase()
+  const next = () => {
+    const token = tokens[pos++]
+    if (token === undefined) throw invalidFilter('Unexpected end of filter')
+    return token
+  }
+  const expect = (token: string) => {
+    if (next() !== token) throw invalidFilter(`Expected "${token}"`)
+  }
+
+  function or(): ScimFilter {
+    let left = and()
+    while (word() === 'or') {
+      pos++
+      left = { op: 'or', left, right: and() }
+    }
+    return left
+  }
+
+  function and(): ScimFilter {
+    let left = unary()
+    while (word() === 'and') {
+      pos++
+      left = { op: 'and', left, right: unary() }
+    }
+    return left
+  }
+
+  function unary(): ScimFilter {
+    if (word() === 'not') {
+      pos++
+      expect('(')
+      const filter = or()
+      expect(')')
+      return { op: 'not', filter }
+    }
+    if (tokens[pos] === '(') {
+      pos++
+      const filter = or()
+      expect(')')
+      return filter
+    }
+    const attr = next()
+    if (!ATTR_RE.test(attr)) throw invalidFilter(`Invalid attribute "${attr}"`)
+    if (tokens[pos] === '[') {
+      pos++
+      const filter = or()
+      expect(']')
+      return { op: 'has', attr, filter }
+    }
+    const op = next().toLowerCase()
+    if (op === 'pr') return { op: 'pr', attr }
+    if (!COMPARE_OPS.has(op)) throw invalidFilter(`Unknown operator "${op}"`)
+    return { op: op as CompareOp, attr, value: literal(next()) }
+  }
+
+  const filter = or()
+  if (pos < tokens.length) throw invalidFilter(`Unexpected "${tokens[pos]}"`)
+  return filter
+}
+
+export function parsePath(input: string): ScimPath {
+  const m = /^\s*([^[\]\s]+?)(?:\[(.*)\](?:\.([A-Za-z$][\w$-]*))?)?\s*$/.exec(input)
+  if (!m?.[1] || !ATTR_RE.test(m[1]))
+    throw new ScimError(400, `Invalid path "${input}"`, 'invalidPath')
+  const [attr = '', sub] = attrSegments(m[1])
+  if (m[2] === undefined) return { attr, ...(sub ? { sub } : {}) }
+  if (sub) throw new ScimError(400, `Invalid path "${input}"`, 'invalidPath')
+  return { attr, filter: parseFilter(m[2]), ...(m[3] ? { sub: m[3] } : {}) }
+}
+
+/** Values at `attr`, flattening multi-valued attributes along the way */
+function valuesAt(resource: unknown, attr: string) {
+  let values: unknown[] = [resource]
+  for (const segment of attrSegments(attr)) {
+    values = values.flatMap((v) => {
+      if (!isObject(v)) return []
+      const value = pick(v, segment)
+      return Array.isArray(value) ? value : value === undefined ? [] : [value]
+    })
+  }
+  return values
+}
+
+function compare(op: CompareOp, actual: unknown, expected: Literal, caseExact: boolean) {
+  // A multi-valued complex attribute compares by its `value` (`emails eq "a@b.c"`)
+  const value = isObject(actual) && 'value' in actual ? actual.value : actual
+  if (typeof value === 'string' && typeof expected === 'string') {
+    const a = caseExact ? value : value.toLowerCase()
+    const b = caseExact ? expected : expected.toLowerCase()
+    switch (op) {
+      case 'eq':
+        return a === b
+      case 'ne':
+        return a !== b
+      case 'co':
+        return a.includes(b)
+      case 'sw':
+        return a.startsWith(b)
+      case 'ew':
+        return a.endsWith(b)
+      case 'gt':
+        return a > b
+      case 'ge':
+        return a >= b
+      case 'lt':
+        return a < b
+      case 'le':
+        return a <= b
+    }
+  }
+  if (op === 'eq') return value === expected
+  if (op === 'ne') return value !== expected
+  if (typeof value !== 'number' || typeof expected !== 'number') return false
+  if (op === 'gt') return value > expected
+  if (op === 'ge') return value >= expected
+  if (op === 'lt') return value < expected
+  if (op === 'le') return value <= expected
+  return false
+}
+
+export function matchesFilter(filter: ScimFilter, resource: unknown): boolean {
+  switch (filter.op) {
+    case 'and':
+      return matchesFilter(filter.left, resource) && matchesFilter(filter.right, resource)
+    case 'or':
+      return matchesFilter(filter.left, resource) || matchesFilter(filter.right, resource)
+    case 'not':
+      return !matchesFilter(filter.filter, resource)
+    case 'has':
+      return valuesAt(resource, filter.attr).some((v) => matchesFilter(filter.filter, v))
+    case 'pr':
+      return valuesAt(resource, filter.attr).some(
+        (v) => v !== null && v !== '' && !(isObject(v) && !Object.keys(v).length),
+      )
+    case 'ne': {
+      const eq = { ...filter, op: 'eq' as const }
+      return !matchesFilter(eq, resource)
+    }
+    default: {
+      const caseExact = CASE_EXACT.has(attrSegments(filter.attr).at(-1)?.toLowerCase() ?? '')
+      return valuesAt(resource, filter.attr).some((v) =>
+        compare(filter.op, v, filter.value, caseExact),
+      )
+    }
+  }
+}
+
+/** Attribute values a filter pins with `eq`, e.g. `{ type: 'work' }` for `type eq "work"` */
+export function filterEqualities(filter: ScimFilter): Record<string, unknown> {
+  if (filter.op === 'and')
+    return { ...filterEqualities(filter.left), ...filterEqualities(filter.right) }
+  if (filter.op === 'eq') return { [filter.attr]: filter.value }
+  return {}
+}
@@ -0,0 +1,12 @@
+export { matchesFilter, parseFilter, parsePath, type ScimFilter, type ScimPath } from './filter'
+export { applyPatch } from './patch'
+export {
+  ERROR_SCHEMA,
+  GROUP_SCHEMA,
+  LIST_SCHEMA,
+  PATCH_SCHEMA,
+  SCIM_CONTENT_TYPE,
+  ScimError,
+  USER_SCHEMA,
+} from './schema'
+export { createScimPlugin, SCIM_PERMISSION, type ScimPluginOptions } from './server'
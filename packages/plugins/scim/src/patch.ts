@@ -0,0 +1,103 @@
+import { filterEqualities, isObject, keyOf, matchesFilter, parsePath } from './filter'
+import { ScimError } from './schema'
+
+type Op = 'add' | 'replace' | 'remove'
+
+const itemValue = (v: unknown) => (isObject(v) ? v[keyOf(v, 'value')] : v)
+
+function set(target: Record<string, unknown>, name: string, op: Op, value: unknown) {
+  const key = keyOf(target, name)
+  const current = target[key]
+  if (op === 'remove') {
+    // Azure AD removes group members with `{ path: "members", value: [{ value: id }] }`
+    if (Array.isArray(current) && Array.isArray(value)) {
+      const drop = new Set(value.map(itemValue))
+      target[key] = current.filter((v) => !drop.has(itemValue(v)))
+    } else {
+      delete target[key]
+    }
+    return
+  }
+  if (op === 'add' && Array.isArray(current)) {
+    const seen = new Set(current.map(itemValue))
+    const added = (Array.isArray(value) ? value : [value]).filter((v) => !seen.has(itemValue(v)))
+    target[key] = [...current, ...added]
+    return
+  }
+  if (op === 'add' && isObject(current) && isObject(value)) {
+    target[key] = { ...current, ...value }
+    return
+  }
+  target[key] = value
+}
+
+function apply(resource: Record<string, unknown>, op: Op, path: unknown, value: unknown) {
+  if (path === undefined || path === null || path === '') {
+    if (op === 'remove') throw new ScimError(400, 'remove requires a path', 'noTarget')
+    if (!isObject(value))
+      throw new ScimError(400, 'Operation value must be an object', 'invalidValue')
+    // Attribute names may themselves be paths (`{ "name.givenName": "Ada" }`)
+    for (const [name, v] of Object.entries(value)) apply(resource, op, name, v)
+    return
+  }
+  if (typeof path !== 'string') throw new ScimError(400, 'Invalid path', 'invalidPath')
+  const { attr, filter, sub } = parsePath(path)
+  const key = keyOf(resource, attr)
+
+  if (!filter) {
+    if (!sub) return set(resource, attr, op, value)
+    const parent = resource[key]
+    if (Array.isArray(parent)) {
+      for (const item of parent) if (isObject(item)) set(item, sub, op, value)
+    } else if (isObject(parent)) {
+      set(parent, sub, op, value)
+    } else if (op !== 'remove') {
+      resource[key] = { [sub]: value }
+    }
+    return
+  }
+
+  const list = Array.isArray(resource[key]) ? (resource[key] as unknown[]) : []
+  const hits = list.filter((item) => matchesFilter(filter, item))
+  if (op === 'remove') {
+    if (sub) {
+      for (const item of hits) if (isObject(item)) delete item[keyOf(item, sub)]
+    } else {
+      resource[key] = list.filter((item) => !hits.includes(item))
+    }
+    return
+  }
+  if (!hits.length) {
+    // Nothing matches yet (e.g. `emails[type eq "work"].value` on a user without one): add it
+    const item = {
+      ...filterEqualities(filter),
+      ...(sub ? { [sub]: value } : isObject(value) ? value : {}),
+    }
+    resource[key] = [...list, item]
+    return
+  }
+  for (const item of hits) {
+    if (!isObject(item)) continue
+    if (sub) item[keyOf(item, sub)] = value
+    else if (isObject(value)) Object.assign(item, value)
+  }
+}
+
+/**
+ * Apply a PatchOp message (RFC 7644 §3.5.2) to a copy of a resource's SCIM representation.
+ * Operation names are matched case-insensitively since several IdPs send `Replace`/`Add`.
+ */
+export function applyPatch(resource: Record<string, unknown>, body: unknown) {
+  const operations = isObject(body) ? body[keyOf(body, 'Operations')] : undefined
+  if (!Array.isArray(operations))
+    throw new ScimError(400, 'PatchOp requires an Operations array', 'invalidSyntax')
+  const next = structuredClone(resource)
+  for (const operation of operations) {
+    if (!isObject(operation)) throw new ScimError(400, 'Invalid operation', 'invalidSyntax')
+    const op = String(operation[keyOf(operation, 'op')] ?? '').toLowerCase()
+    if (op !== 'add' && op !== 'replace' && op !== 'remove')
+      throw new ScimError(400, `Unsupported operation "${op}"`, 'invalidSyntax')
+    apply(next, op, operation[keyOf(operation, 'path')], operation[keyOf(operation, 'value')])
+  }
+  return next
+}
@@ -0,0 +1,75 @@
+export const USER_SCHEMA = 'urn:ietf:params:scim:schemas:core:2.0:User'
+export const GROUP_SCHEMA = 'urn:ietf:params:scim:schemas:core:2.0:Group'
+export const LIST_SCHEMA = 'urn:ietf:params:scim:api:messages:2.0:ListResponse'
+export const PATCH_SCHEMA = 'urn:ietf:params:scim:api:messages:2.0:PatchOp'
+export const ERROR_SCHEMA = 'urn:ietf:params:scim:api:messages:2.0:Error'
+export const SERVICE_PROVIDER_CONFIG_SCHEMA =
+  'urn:ietf:params:scim:schemas:core:2.0:ServiceProviderConfig'
+export const RESOURCE_TYPE_SCHEMA = 'urn:ietf:params:scim:schemas:core:2.0:ResourceType'
+
+export const SCIM_CONTENT_TYPE = 'application/scim+json'
+
+/** Largest page `GET /Users` and `GET /Groups` return, whatever `count` asks for */
+export const MAX_RESULTS = 200
+
+/** RFC 7644 §3.12 `scimType` values used by this server */
+export type ScimErrorType =
+  | 'invalidFilter'
+  | 'invalidPath'
+  | 'invalidSyntax'
+  | 'invalidValue'
+  | 'mutability'
+  | 'noTarget'
+  | 'uniqueness'
+
+/** An error reported to the client as a SCIM Error message with this HTTP status */
+export class ScimError extends Error {
+  status: number
+  scimType: ScimErrorType | undefined
+  constructor(status: number, detail: string, scimType?: ScimErrorType) {
+    super(detail)
+    this.status = status
+    this.scimType = scimType
+  }
+}
+
+export function scimErrorBody(e: ScimError) {
+  return {
+    schemas: [ERROR_SCHEMA],
+    status: String(e.status),
+    ...(e.scimType ? { scimType: e.scimType } : {}),
+    detail: e.message,
+  }
+}
+
+export function serviceProviderConfig(baseUrl: string) {
+  return {
+    schemas: [SERVICE_PROVIDER_CONFIG_SCHEMA],
+    patch: { supported: true },
+    bulk: { supported: false, maxOperations: 0, maxPayloadSize: 0 },
+    filter: { supported: true, maxResults: MAX_RESULTS },
+    changePassword: { supported: false },
+    sort: { supported: false },
+    etag: { supported: false },
+    authenticationSchemes: [
+      {
+        type: 'oauthbearertoken',
+        name: 'OAuth Bearer Token',
+        description: 'Organization API key carrying the scim:provision permission',
+        primary: true,
+      },
+    ],
+    meta: { resourceType: 'ServiceProviderConfig', location: `${baseUrl}/ServiceProviderConfig` },
+  }
+}
+
+export function resourceTypes(baseUrl: string) {
+  return [
+    { id: 'User', name: 'User', endpoint: '/Users', schema: USER_SCHEMA },
+    { id: 'Group', name: 'Group', endpoint: '/Groups', schema: GROUP_SCHEMA },
+  ].map((t) => ({
+    schemas: [RESOURCE_TYPE_SCHEMA],
+    ...t,
+    meta: { resourceType: 'ResourceType', location: `${baseUrl}/ResourceTypes/${t.id}` },
+  }))
+}
@@ -0,0 +1,284 @@
+import { createApiKey, memoryAdapter } from '@keyloom/core'
+import { beforeEach, describe, expect, it } from 'vitest'
+import { matchesFilter, parseFilter } from './filter'
+import { applyPatch } from './patch'
+import { PATCH_SCHEMA, USER_SCHEMA } from './schema'
+import { createScimPlugin, SCIM_PERMISSION } from './server'
+
+const ORIGIN = 'https://app.example.com'
+const SECRET = 'test-secret-test-secret'
+const rbac = {
+  roles: {
+    owner: { permissions: [SCIM_PERMISSION] },
+    admin: { permissions: [] },
+    member: { permissions: [] },
+  },
+}
+const config = { baseUrl: ORIGIN, secrets: { authSecret: SECRET }, rbac } as any
+
+describe('scim filters', () => {
+  const user = {
+    userName: 'Ada@Acme.test',
+    externalId: 'ext-1',
+    active: true,
+    emails: [
+      { value: 'ada@acme.test', type: 'work' },
+      { value: 'ada@home.test', type: 'home' },
+    ],
+    meta: { created: '2024-05-01T00:00:00.000Z' },
+  }
+
+  it('evaluates comparisons, logic and value paths', () => {
+    const cases: [string, boolean][] = [
+      ['userName eq "ada@acme.test"', true],
+      ['externalId eq "EXT-1"', false],
+      ['emails[type eq "home" and value ew "@home.test"]', true],
+      ['emails.value co "home"', true],
+      ['not (active eq true) or userName sw "bob"', false],
+      ['(userName pr) and meta.created gt "2024-01-01T00:00:00Z"', true],
+      ['urn:ietf:params:scim:schemas:core:2.0:User:userName ne "ada@acme.test"', false],
+      ['title pr', false],
+    ]
+    for (const [filter, expected] of cases)
+      expect([filter, matchesFilter(parseFilter(filter), user)]).toEqual([filter, expected])
+  })
+
+  it('rejects malformed filters', () => {
+    for (const filter of ['userName eq', 'userName foo "x"', 'userName eq "x', '(active eq true'])
+      expect(() => parseFilter(filter)).toThrow(
+        expect.objectContaining({ scimType: 'invalidFilter' }),
+      )
+  })
+
+  it('applies patch operations to a copy', () => {
+    const before = { userName: 'a@acme.test', emails: [{ value: 'a@acme.test', type: 'work' }] }
+    const after = applyPatch(before, {
+      schemas: [PATCH_SCHEMA],
+      Operations: [
+        { op: 'Replace', path: 'emails[type eq "work"].value', value: 'b@acme.test' },
+        { op: 'add', path: 'emails[type eq "home"].value', value: 'b@home.test' },
+        { op: 'Add', value: { 'name.givenName': 'Bea', active: 'False' } },
+        { op: 'remove', path: 'userName' },
+      ],
+    })
+    expect(after).toEqual({
+      emails: [
+        { value: 'b@acme.test', type: 'work' },
+        { value: 'b@home.test', type: 'home' },
+      ],
+      name: { givenName: 'Bea' },
+      active: 'False',
+    })
+    expect(before.emails[0]?.value).toBe('a@acme.test')
+  })
+})
+
+describe('scim plugin', () => {
+  let adapter: ReturnType<typeof memoryAdapter>
+  let orgId: string
+  let ownerId: string
+  let token: string
+  const routes = createScimPlugin().nextRoutes?.() ?? []
+
+  async function call(method: string, path: string, body?: unknown, auth: string | null = token) {
+    const req = new Request(`${ORIGIN}/api/auth/scim/v2${path}`, {
+      method,
+      headers: {
+        ...(auth ? { authorization: `Bearer ${auth}` } : {}),
+        ...(body ? { 'content-type': 'application/scim+json' } : {}),
+      },
+      ...(body ? { body: JSON.stringify(body) } : {}),
+    })
+    const pathname = new URL(req.url).pathname
+    const route = routes.find((r) => r.method === method && r.path.test(pathname))
+    if (!route) throw new Error(`no route for ${method} ${path}`)
+    const res = (await route.handler(req, { config, adapter })) as Response
+    return {
+      status: res.status,
+      headers: res.headers,
+      body: res.status === 204 ? null : await res.json(),
+    }
+  }
+
+  const provision = (userName: string, extra: Record<string, unknown> = {}) =>
+    call('POST', '/Users', { schemas: [USER_SCHEMA], userName, ...extra })
+
+  beforeEach(async () => {
+    adapter = memoryAdapter()
+    orgId = (await adapter.createOrganization({ name: 'Acme' })).id
+    ownerId = (await adapter.createUser({ email: 'owner@acme.test' })).id
+    await adapter.addMember({ userId: ownerId, orgId, role: 'owner' })
+    ;({ key: token } = await createApiKey(
+      { name: 'Okta', userId: ownerId, orgId, permissions: [SCIM_PERMISSION] },
+      { adapter, secret: SECRET, rbac },
+    ))
+  })
+
+  it('serves discovery documents and requires an org key with the scim permission', async () => {
+    const spc = await call('GET', '/ServiceProviderConfig', undefined, null)
+    expect(spc.status).toBe(200)
+    expect(spc.body.patch.supported).toBe(true)
+    expect(spc.body.meta.location).toBe(`${ORIGIN}/api/auth/scim/v2/ServiceProviderConfig`)
+
+    const anonymous = await call('GET', '/Users', undefined, null)
+    expect(anonymous.status).toBe(401)
+    expect(anonymous.headers.get('www-authenticate')).toContain('Bearer')
+
+    const { key: personal } = await createApiKey(
+      { name: 'mine', userId: ownerId, permissions: [SCIM_PERMISSION] },
+      { adapter, secret: SECRET, rbac },
+    )
+    const refused = await call('GET', '/Users', undefined, personal)
+    expect(refused.status).toBe(403)
+    expect(refused.body.schemas).toEqual(['urn:ietf:params:scim:api:messages:2.0:Error'])
+  })
+
+  it('provisions users into the org and finds them by filter', async () => {
+    const created = await provision('Ada@Acme.test', {
+      externalId: 'okta-1',
+      name: { givenName: 'Ada', familyName: 'Lovelace' },
+    })
+    expect(created.status).toBe(201)
+    expect(created.headers.get('location')).toBe(created.body.meta.location)
+    expect(created.body).toMatchObject({
+      userName: 'ada@acme.test',
+      externalId: 'okta-1',
+      displayName: 'Ada Lovelace',
+      active: true,
+      groups: [{ value: 'member' }],
+    })
+    expect((await adapter.getMembership(created.body.id, orgId))?.role).toBe('member')
+
+    expect((await provision('ada@acme.test')).status).toBe(409)
+
+    const byName = await call(
+      'GET',
+      `/Users?filter=${encodeURIComponent('userName eq "ada@acme.test"')}`,
+    )
+    expect(byName.body.totalResults).toBe(1)
+    const byExternalId = await call(
+      'GET',
+      `/Users?filter=${encodeURIComponent('externalId eq "okta-1"')}`,
+    )
+    expect(byExternalId.body.Resources[0].id).toBe(created.body.id)
+
+    const page = await call('GET', '/Users?startIndex=2&count=1')
+    expect(page.body).toMatchObject({ totalResults: 2, startIndex: 2, itemsPerPage: 1 })
+
+    // Someone who signed up on their own is linked into the org by email, once it owns the domain
+    const existing = await adapter.createUser({ email: 'bob@acme.test', name: 'Bob' })
+    const unverified = await provision('bob@acme.test')
+    expect(unverified.status).toBe(409)
+    expect(await adapter.getMembership(existing.id, orgId)).toBeNull()
+
+    const claim = await adapter.createOrgDomain({
+      orgId,
+      domain: 'acme.test',
+      verificationToken: 't',
+    })
+    await adapter.updateOrgDomain(claim.id, { verifiedAt: new Date() })
+    const linked = await provision('bob@acme.test')
+    expect(linked.body.id).toBe(existing.id)
+  })
+
+  it('provisions and reactivates users only while the org has a free seat', async () => {
+    const { body } = await provision('ada@acme.test', { active: false })
+    await adapter.setEntitlements(orgId, { seats: 1 })
+
+    const full = await provision('bob@acme.test')
+    expect(full.status).toBe(403)
+    expect(full.body.detail).toMatch(/seats/)
+    expect(await adapter.getUserByEmail('bob@acme.test')).toBeNull()
+
+    const reactivate = await call('PATCH', `/Users/${body.id}`, {
+      Operations: [{ op: 'replace', value: { active: true } }],
+    })
+    expect(reactivate.status).toBe(403)
+    expect((await adapter.getMembership(body.id, orgId))?.status).toBe('suspended')
+  })
+
+  it('suspends deactivated users, revokes their sessions and reactivates them', async () => {
+    const { body } = await provision('ada@acme.test')
+    await adapter.createSession({ userId: body.id, expiresAt: new Date(Date.now() + 60_000) })
+
+    const off = await call('PATCH', `/Users/${body.id}`, {
+      schemas: [PATCH_SCHEMA],
+      Operations: [{ op: 'Replace', value: { active: 'False' } }],
+    })
+    expect(off.body.active).toBe(false)
+    expect((await adapter.getMembership(body.id, orgId))?.status).toBe('suspended')
+    expect(await adapter.listSessionsByUser(body.id)).toEqual([])
+
+    const on = await call('PUT', `/Users/${body.id}`, {
+      schemas: [USER_SCHEMA],
+      userName: 'ada@acme.test',
+      displayName: 'Ada L.',
+      active: true,
+    })
+    expect(on.body).toMatchObject({ active: true, displayName: 'Ada L.' })
+    expect((await adapter.getMembership(body.id, orgId))?.status).toBe('active')
+  })
+
+  it('only changes the email of users that belong to this org alone', async () => {
+    const { body } = await provision('ada@acme.test')
+    const renamed = await call('PATCH', `/Users/${body.id}`, {
+      Operations: [{ op: 'replace', path: 'emails[type eq "work"].value', value: 'ada@new.test' }],
+    })
+    expect(renamed.body.userName).toBe('ada@new.test')
+
+    const other = await adapter.createOrganization({ name: 'Other' })
+    await adapter.addMember({ userId: body.id, orgId: other.id, role: 'member' })
+    const refused = await call('PATCH', `/Users/${body.id}`, {
+      Operations: [{ op: 'replace', path: 'userName', value: 'ada@evil.test' }],
+    })
+    expect(refused.status).toBe(400)
+    expect(refused.body.scimType).toBe('mutability')
+  })
+
+  it('deprovisions users with DELETE', async () => {
+    const { body } = await provision('ada@acme.test', { externalId: 'okta-1' })
+    await adapter.createSession({ userId: body.id, expiresAt: new Date(Date.now() + 60_000) })
+    expect((await call('DELETE', `/Users/${body.id}`)).status).toBe(204)
+    expect(await adapter.getMembership(body.id, orgId)).toBeNull()
+    expect(await adapter.listSessionsByUser(body.id)).toEqual([])
+    expect(await adapter.getAccountByProvider(`scim:${orgId}`, 'okta-1')).toBeNull()
+    expect((await call('GET', `/Users/${body.id}`)).status).toBe(404)
+  })
+
+  it('maps groups to roles', async () => {
+    const ada = (await provision('ada@acme.test')).body.id
+    const bob = (await provision('bob@acme.test')).body.id
+
+    const listed = await call('GET', '/Groups?excludedAttributes=members')
+    expect(listed.body.Resources.map((g: any) => g.displayName)).toEqual([
+      'owner',
+      'admin',
+      'member',
+    ])
+    expect(listed.body.Resources[0].members).toBeUndefined()
+
+    const pushed = await call('POST', '/Groups', {
+      displayName: 'Admin',
+      members: [{ value: ada }],
+    })
+    expect(pushed.status).toBe(201)
+    expect(pushed.body.members.map((m: any) => m.value)).toEqual([ada])
+
+    await call('PATCH', '/Groups/admin', {
+      Operations: [
+        { op: 'add', path: 'members', value: [{ value: bob }] },
+        { op: 'remove', path: `members[value eq "${ada}"]` },
+      ],
+    })
+    expect((await adapter.getMembership(ada, orgId))?.role).toBe('member')
+    expect((await adapter.getMembership(bob, orgId))?.role).toBe('admin')
+
+    const lastOwner = await call('PUT', '/Groups/owner', { displayName: 'owner', members: [] })
+    expect(lastOwner.status).toBe(400)
+    expect((await adapter.getMembership(ownerId, orgId))?.role).toBe('owner')
+
+    expect((await call('POST', '/Groups', { displayName: 'Engineering' })).status).toBe(400)
+    expect((await call('DELETE', '/Groups/admin')).status).toBe(400)
+    expect((await call('GET', '/Groups/nope')).status).toBe(404)
+  })
+})
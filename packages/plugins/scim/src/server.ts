@@ -0,0 +1,700 @@
+import {
+  type Adapter,
+  type ApiKeyAdapter,
+  addOrgMember,
+  authenticateApiKey,
+  bearerApiKey,
+  createEventBus,
+  ERR,
+  type EventBus,
+  eventMeta,
+  findOrgDomainForEmail,
+  type ID,
+  type KeyloomConfig,
+  KeyloomError,
+  type Membership,
+  type RbacAdapter,
+  type RbacConfig,
+  type Role,
+  requestClientIp,
+  type User,
+  withSeat,
+} from '@keyloom/core'
+import type { KeyloomPlugin, NextRoute } from '@keyloom/core/plugins'
+import { attrSegments, isObject, matchesFilter, parseFilter, pick, type ScimFilter } from './filter'
+import { applyPatch } from './patch'
+import {
+  GROUP_SCHEMA,
+  LIST_SCHEMA,
+  MAX_RESULTS,
+  resourceTypes,
+  SCIM_CONTENT_TYPE,
+  ScimError,
+  scimErrorBody,
+  serviceProviderConfig,
+  USER_SCHEMA,
+} from './schema'
+
+/** Permission an organization API key must carry to call the SCIM endpoints */
+export const SCIM_PERMISSION = 'scim:provision'
+
+export type ScimPluginOptions = {
+  /** Where the endpoints live (default `/scim/v2`); matched against the end of the request path */
+  basePath?: string
+  /** Role for provisioned users, and for users removed from their role's group (default `member`) */
+  defaultRole?: Role
+}
+
+type ScimAdapter = Adapter & RbacAdapter & ApiKeyAdapter
+type RouteCtx = { config: KeyloomConfig; adapter: ScimAdapter }
+type Member = Membership & { userEmail?: string | null }
+
+/** The organization a request provisions into, resolved from its bearer token */
+type Scope = {
+  adapter: ScimAdapter
+  events: EventBus
+  orgId: ID
+  actorId: ID
+  roles: Role[]
+  rbac: RbacConfig | undefined
+  /** Absolute URL of the SCIM root, for `meta.location` */
+  base: string
+  meta: { ip: string | null; userAgent: string | null }
+}
+
+type UserInput = {
+  email: string | null
+  name: string | null
+  active: boolean
+  /** undefined leaves the stored externalId alone */
+  externalId: string | null | undefined
+}
+
+// The IdP's externalId is kept as an account of this provider, like the SAML plugin's `saml:<orgId>`
+const providerId = (orgId: ID) => `scim:${orgId}`
+
+const scim = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  body === null
+    ? new Response(null, { status, headers })
+    : new Response(JSON.stringify(body), {
+        status,
+        headers: { 'content-type': SCIM_CONTENT_TYPE, ...headers },
+      })
+
+const toIso = (d: Date | string) => new Date(d).toISOString()
+const str = (v: unknown) => (typeof v === 'string' && v.trim() ? v.trim() : null)
+
+function toBool(v: unknown) {
+  if (typeof v === 'boolean') return v
+  // Azure AD sends booleans as "True"/"False"
+  if (typeof v === 'string' && /^(true|false)$/i.test(v)) return v.toLowerCase() === 'true'
+  return undefined
+}
+
+function configuredRoles(config: KeyloomConfig): Role[] {
+  const roles = config.rbac?.roles
+  if (!roles) return ['owner', 'admin', 'member']
+  return Array.isArray(roles) ? roles : Object.keys(roles)
+}
+
+function listResponse(resources: unknown[], params: URLSearchParams) {
+  const startIndex = Math.max(1, Number.parseInt(params.get('startIndex') ?? '', 10) || 1)
+  const requested = Number.parseInt(params.get('count') ?? '', 10)
+  const count = Math.min(
+    MAX_RESULTS,
+    Math.max(0, Number.isNaN(requested) ? MAX_RESULTS : requested),
+  )
+  const page = resources.slice(startIndex - 1, startIndex - 1 + count)
+  return {
+    schemas: [LIST_SCHEMA],
+    totalResults: resources.length,
+    startIndex,
+    itemsPerPage: page.length,
+    Resources: page,
+  }
+}
+
+async function readBody(req: Request) {
+  const body = await req.json().catch(() => null)
+  if (!isObject(body))
+    throw new ScimError(400, 'Request body must be a JSON object', 'invalidSyntax')
+  return body
+}
+
+// The first candidate a PATCH changed, else the first one set: IdPs update whichever they map
+function preferChanged(next: (string | null)[], prev?: (string | null)[]) {
+  return next.find((v, i) => v && prev && v !== prev[i]) ?? next.find(Boolean) ?? null
+}
+
+function userCandidates(resource: Record<string, unknown>) {
+  const rawEmails = pick(resource, 'emails')
+  const emails = Array.isArray(rawEmails) ? rawEmails.filter(isObject) : []
+  const primary = emails.find((e) => toBool(pick(e, 'primary'))) ?? emails[0]
+  const asEmail = (v: unknown) => (str(v)?.includes('@') ? (str(v) as string).toLowerCase() : null)
+  const rawName = pick(resource, 'name')
+  const name = isObject(rawName) ? rawName : {}
+  const parts = [str(pick(name, 'givenName')), str(pick(name, 'familyName'))].filter(Boolean)
+  return {
+    emails: [asEmail(pick(resource, 'userName')), asEmail(primary && pick(primary, 'value'))],
+    names: [
+      str(pick(resource, 'displayName')),
+      str(pick(name, 'formatted')),
+      parts.length ? parts.join(' ') : null,
+    ],
+  }
+}
+
+/** Map a SCIM User onto Keyloom fields; `previous` is the representation a PATCH started from */
+function readUser(
+  resource: Record<string, unknown>,
+  previous?: Record<string, unknown>,
+): UserInput {
+  const next = userCandidates(resource)
+  const prev = previous ? userCandidates(previous) : undefined
+  const externalId = pick(resource, 'externalId')
+  return {
+    email: preferChanged(next.emails, prev?.emails),
+    name: preferChanged(next.names, prev?.names),
+    active: toBool(pick(resource, 'active')) ?? true,
+    externalId: externalId === undefined && !previous ? undefined : str(externalId),
+  }
+}
+
+function userJson(scope: Scope, user: User, membership: Membership, externalId: string | null) {
+  const [givenName, ...rest] = (user.name ?? '').split(' ')
+  return {
+    schemas: [USER_SCHEMA],
+    id: user.id,
+    ...(externalId ? { externalId } : {}),
+    userName: user.email,
+    ...(user.name
+      ? {
+          displayName: user.name,
+          name: {
+            formatted: user.name,
+            givenName,
+            ...(rest.length ? { familyName: rest.join(' ') } : {}),
+          },
+        }
+      : {}),
+    emails: user.email ? [{ value: user.email, type: 'work', primary: true }] : [],
+    active: membership.status !== 'suspended',
+    groups: [
+      {
+        value: membership.role,
+        display: membership.role,
+        $ref: `${scope.base}/Groups/${encodeURIComponent(membership.role)}`,
+      },
+    ],
+    meta: {
+      resourceType: 'User',
+      created: toIso(user.createdAt),
+      lastModified: toIso(user.updatedAt),
+      location: `${scope.base}/Users/${encodeURIComponent(user.id)}`,
+    },
+  }
+}
+
+function groupJson(scope: Scope, role: Role, members: Member[]) {
+  return {
+    schemas: [GROUP_SCHEMA],
+    id: role,
+    displayName: role,
+    members: members
+      .filter((m) => m.role === role)
+      .map((m) => ({
+        value: m.userId,
+        ...(m.userEmail ? { display: m.userEmail } : {}),
+        $ref: `${scope.base}/Users/${encodeURIComponent(m.userId)}`,
+      })),
+    meta: {
+      resourceType: 'Group',
+      location: `${scope.base}/Groups/${encodeURIComponent(role)}`,
+    },
+  }
+}
+
+const metaFor = (scope: Scope, userId: ID) => ({
+  ...eventMeta(userId, scope.meta),
+  orgId: scope.orgId,
+  actorId: scope.actorId,
+})
+
+/**
+ * SCIM 2.0 provisioning (RFC 7643/7644) of an organization's users and memberships. Each request
+ * is authenticated with an organization API key carrying `scim:provision`, and acts on that org:
+ * - Users are the org's members; `active: false` suspends the membership and signs the user out,
+ *   DELETE removes the membership
+ * - Groups are the org's roles; adding a user to a group gives them that role
+ */
+export function createScimPlugin(options: ScimPluginOptions = {}): KeyloomPlugin {
+  const basePath = (options.basePath ?? '/scim/v2').replace(/\/$/, '')
+  const defaultRole = options.defaultRole ?? 'member'
+  const escaped = basePath.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  const pathFor = (suffix: string) => new RegExp(`${escaped}${suffix}/?$`)
+
+  function scimBase(req: Request, config: KeyloomConfig, path: RegExp) {
+    const url = new URL(req.url)
+    const root = url.pathname.slice(0, (path.exec(url.pathname)?.index ?? 0) + basePath.length)
+    return `${new URL(config.baseUrl || url.origin).origin}${root}`
+  }
+
+  async function authenticate(req: Request, ctx: RouteCtx, path: RegExp): Promise<Scope> {
+    const { config, adapter } = ctx
+    const key = bearerApiKey(req.headers.get('authorization'))
+    const secret = config.secrets?.authSecret
+    const principal = key && secret ? await authenticateApiKey(key, { adapter, secret }) : null
+    if (!principal) throw new ScimError(401, 'Missing or invalid bearer token')
+    if (!principal.orgId || !principal.permissions.includes(SCIM_PERMISSION))
+      throw new ScimError(403, `Use an organization API key with the ${SCIM_PERMISSION} permission`)
+    if (!(await adapter.getOrganization(principal.orgId)))
+      throw new ScimError(401, 'Missing or invalid bearer token')
+    return {
+      adapter,
+      events: createEventBus({ hooks: config.hooks, adapter }),
+      orgId: principal.orgId,
+      actorId: principal.userId,
+      roles: configuredRoles(config),
+      rbac: config.rbac,
+      base: scimBase(req, config, path),
+      meta: {
+        ip: requestClientIp(req, config.rateLimit?.trustedProxies),
+        userAgent: req.headers.get('user-agent'),
+      },
+    }
+  }
+
+  // ---- Users ----
+
+  async function loadUser(scope: Scope, id: ID) {
+    const membership = await scope.adapter.getMembership(id, scope.orgId)
+    const user = membership ? await scope.adapter.getUser(id) : null
+    if (!membership || !user) throw new ScimError(404, `User ${id} not found`)
+    return { user, membership }
+  }
+
+  async function externalIdOf(scope: Scope, userId: ID) {
+    const accounts = await scope.adapter.getAccountsByUser(userId)
+    return accounts.find((a) => a.provider === providerId(scope.orgId))?.providerAccountId ?? null
+  }
+
+  async function setExternalId(
+    scope: Scope,
+    userId: ID,
+    previous: string | null,
+    next: string | null,
+  ) {
+    if (previous === next) return
+    const provider = providerId(scope.orgId)
+    if (next) {
+      const taken = await scope.adapter.getAccountByProvider(provider, next)
+      if (taken && taken.userId !== userId)
+        throw new ScimError(409, `externalId ${next} is already provisioned`, 'uniqueness')
+    }
+    if (previous) await scope.adapter.unlinkAccount(provider, previous)
+    if (next)
+      await scope.adapter.linkAccount({
+        id: undefined as any,
+        userId,
+        provider,
+        providerAccountId: next,
+      })
+  }
+
+  // Sessions aren't scoped to an organization, so deprovisioning signs the user out everywhere
+  async function revokeSessions(scope: Scope, userId: ID) {
+    const count = await scope.adapter.deleteSessionsByUser(userId)
+    if (count)
+      await scope.events.emit('session.deleted', { reason: 'revoked' }, metaFor(scope, userId))
+  }
+
+  async function setActive(scope: Scope, membership: Membership, active: boolean) {
+    const status = active ? 'active' : 'suspended'
+    if (membership.status === status) return membership
+    // Suspended members don't hold a seat, so reactivating one needs a free seat again
+    const updated =
+      membership.status === 'suspended'
+        ? await withSeat(scope.orgId, scope, (adapter) =>
+            adapter.updateMember(membership.id, { status }),
+          )
+        : await scope.adapter.updateMember(membership.id, { status })
+    if (active) {
+      await scope.events.emit(
+        'rbac.role.assigned',
+        { orgId: scope.orgId, role: membership.role },
+        metaFor(scope, membership.userId),
+      )
+    } else {
+      await scope.events.emit(
+        'rbac.role.revoked',
+        { orgId: scope.orgId },
+        metaFor(scope, membership.userId),
+      )
+      await revokeSessions(scope, membership.userId)
+    }
+    return updated
+  }
+
+  async function saveUser(
+    scope: Scope,
+    current: { user: User; membership: Membership },
+    input: UserInput,
+  ) {
+    const { adapter } = scope
+    let { user } = current
+    const changes: Partial<User> = {}
+    if (input.name && input.name !== user.name) changes.name = input.name
+    if (input.email && input.email !== user.email?.toLowerCase()) {
+      const taken = await adapter.getUserByEmail(input.email)
+      if (taken && taken.id !== user.id)
+        throw new ScimError(409, `${input.email} belongs to another user`, 'uniqueness')
+      // The org's IdP only controls the email of users that belong to no other organization
+      const orgs = await adapter.getOrganizationsByUser(user.id)
+      if (orgs.some((o) => o.id !== scope.orgId))
+        throw new ScimError(
+          400,
+          'The email of a user in other organizations cannot be changed',
+          'mutability',
+        )
+      changes.email = input.email
+      changes.emailVerified = null
+    }
+    if (Object.keys(changes).length) {
+      user = await adapter.updateUser(user.id, changes)
+      await scope.events.emit(
+        'user.updated',
+        { fields: Object.keys(changes) },
+        metaFor(scope, user.id),
+      )
+    }
+
+    let externalId = await externalIdOf(scope, user.id)
+    if (input.externalId !== undefined) {
+      await setExternalId(scope, user.id, externalId, input.externalId)
+      externalId = input.externalId
+    }
+    const membership = await setActive(scope, current.membership, input.active)
+    return userJson(scope, user, membership, externalId)
+  }
+
+  // `userName eq` / `externalId eq` (what IdPs send before creating a user) skip the member scan
+  async function membersMatching(scope: Scope, filter: ScimFilter | null): Promise<Member[]> {
+    const { adapter, orgId } = scope
+    if (filter?.op === 'eq' && typeof filter.value === 'string') {
+      const attr = attrSegments(filter.attr).join('.').toLowerCase()
+      if (attr === 'username') {
+        const user =
+          (await adapter.getUserByEmail(filter.value)) ??
+          (await adapter.getUserByEmail(filter.value.toLowerCase()))
+        const m = user ? await adapter.getMembership(user.id, orgId) : null
+        return m ? [m] : []
+      }
+      if (attr === 'externalid') {
+        const account = await adapter.getAccountByProvider(providerId(orgId), filter.value)
+        const m = account ? await adapter.getMembership(account.userId, orgId) : null
+        return m ? [m] : []
+      }
+    }
+    return adapter.listMembers(orgId)
+  }
+
+  async function listUsers(req: Request, scope: Scope) {
+    const params = new URL(req.url).searchParams
+    const raw = params.get('filter')
+    const filter = raw ? parseFilter(raw) : null
+    const resources: unknown[] = []
+    for (const m of await membersMatching(scope, filter)) {
+      const user = await scope.adapter.getUser(m.userId)
+      if (!user) continue
+      const resource = userJson(scope, user, m, await externalIdOf(scope, user.id))
+      if (!filter || matchesFilter(filter, resource)) resources.push(resource)
+    }
+    return scim(listResponse(resources, params))
+  }
+
+  async function createUser(req: Request, scope: Scope) {
+    const { adapter, events, orgId } = scope
+    const input = readUser(await readBody(req))
+    if (!input.email)
+      throw new ScimError(
+        400,
+        'userName or the primary email must be an email address',
+        'invalidValue',
+      )
+    const provider = providerId(orgId)
+    if (input.externalId && (await adapter.getAccountByProvider(provider, input.externalId)))
+      throw new ScimError(
+        409,
+        `externalId ${input.externalId} is already provisioned`,
+        'uniqueness',
+      )
+
+    // An existing user (e.g. one who signed up on their own) is linked into the org by email, but
+    // only on a domain the org has verified; otherwise any org's IdP could claim (and later
+    // deprovision) someone else's account
+    let user = await adapter.getUserByEmail(input.email)
+    if (user && (await adapter.getMembership(user.id, orgId)))
+      throw new ScimError(409, `${input.email} is already provisioned`, 'uniqueness')
+    if (user && (await findOrgDomainForEmail(input.email, adapter))?.orgId !== orgId)
+      throw new ScimError(
+        409,
+        `${input.email} already has an account outside this organization's verified domains`,
+        'uniqueness',
+      )
+    // Fail before creating anyone when the org is full; `addOrgMember` checks again under the lock
+    if (input.active) await withSeat(orgId, scope, async () => {})
+    if (!user) {
+      const { data } = await events.before('userCreate', {
+        data: { email: input.email, name: input.name, image: null, emailVerified: null },
+        method: 'scim',
+        provider,
+      })
+      user = await adapter.createUser(data as Partial<User>)
+      await events.emit(
+        'user.created',
+        { email: user.email, method: 'scim', provider },
+        metaFor(scope, user.id),
+      )
+    }
+    if (input.externalId) await setExternalId(scope, user.id, null, input.externalId)
+
+    // Inactive users are added suspended, so they don't need a seat
+    const member = { userId: user.id, orgId, role: defaultRole }
+    let membership = input.active
+      ? await addOrgMember(member, scope)
+      : await adapter.addMember(member)
+    await events.emit('rbac.role.assigned', { orgId, role: defaultRole }, metaFor(scope, user.id))
+    membership = await setActive(scope, membership, input.active)
+
+    const resource = userJson(scope, user, membership, input.externalId ?? null)
+    return scim(resource, 201, { location: resource.meta.location })
+  }
+
+  async function getUser(_req: Request, scope: Scope, id: ID) {
+    const { user, membership } = await loadUser(scope, id)
+    return scim(userJson(scope, user, membership, await externalIdOf(scope, user.id)))
+  }
+
+  async function replaceUser(req: Request, scope: Scope, id: ID) {
+    const current = await loadUser(scope, id)
+    return scim(await saveUser(scope, current, readUser(await readBody(req))))
+  }
+
+  async function patchUser(req: Request, scope: Scope, id: ID) {
+    const current = await loadUser(scope, id)
+    const before = userJson(
+      scope,
+      current.user,
+      current.membership,
+      await externalIdOf(scope, current.user.id),
+    )
+    const after = applyPatch(before, await readBody(req))
+    return scim(await saveUser(scope, current, readUser(after, before)))
+  }
+
+  async function deleteUser(_req: Request, scope: Scope, id: ID) {
+    const { user, membership } = await loadUser(scope, id)
+    await scope.adapter.removeMember(membership.id)
+    const externalId = await externalIdOf(scope, user.id)
+    if (externalId) await scope.adapter.unlinkAccount(providerId(scope.orgId), externalId)
+    await scope.events.emit('rbac.role.revoked', { orgId: scope.orgId }, metaFor(scope, user.id))
+    await revokeSessions(scope, user.id)
+    return scim(null, 204)
+  }
+
+  // ---- Groups (organization roles) ----
+
+  function roleOf(scope: Scope, name: unknown, status = 404) {
+    const lower = typeof name === 'string' ? name.toLowerCase() : ''
+    const role = scope.roles.find((r) => r.toLowerCase() === lower)
+    if (!role)
+      throw status === 404
+        ? new ScimError(404, `Group ${String(name)} not found`)
+        : new ScimError(
+            400,
+            `Groups must be named after a role: ${scope.roles.join(', ')}`,
+            'invalidValue',
+          )
+    return role
+  }
+
+  const withoutMembers = (req: Request) =>
+    (new URL(req.url).searchParams.get('excludedAttributes') ?? '')
+      .toLowerCase()
+      .split(',')
+      .some((a) => a.trim() === 'members')
+
+  function groupResponse(req: Request, scope: Scope, role: Role, members: Member[]) {
+    const { members: list, ...group } = groupJson(scope, role, members)
+    return withoutMembers(req) ? group : { ...group, members: list }
+  }
+
+  async function setRole(scope: Scope, membership: Membership, role: Role) {
+    await scope.adapter.updateMember(membership.id, { role })
+    await scope.events.emit(
+      'rbac.role.assigned',
+      { orgId: scope.orgId, role },
+      metaFor(scope, membership.userId),
+    )
+  }
+
+  /**
+   * Give `role` to every listed member; with `replace`, members no longer listed fall back to the
+   * default role. Users must be provisioned (members of the org) before they can join a group.
+   */
+  async function syncGroup(scope: Scope, role: Role, value: unknown, replace: boolean) {
+    const wanted = new Set(
+      (Array.isArray(value) ? value : [])
+        .map((m) => (isObject(m) ? pick(m, 'value') : m))
+        .filter((v): v is string => typeof v === 'string'),
+    )
+    const members = await scope.adapter.listMembers(scope.orgId)
+    const byUser = new Map(members.map((m) => [m.userId, m]))
+    for (const userId of wanted)
+      if (!byUser.has(userId))
+        throw new ScimError(400, `User ${userId} is not provisioned`, 'invalidValue')
+
+    for (const userId of wanted) {
+      const m = byUser.get(userId)
+      if (m && m.role !== role) await setRole(scope, m, role)
+    }
+    if (replace && role !== defaultRole)
+      for (const m of members)
+        if (m.role === role && !wanted.has(m.userId)) await setRole(scope, m, defaultRole)
+    return scope.adapter.listMembers(scope.orgId)
+  }
+
+  function assertDisplayName(role: Role, resource: Record<string, unknown>) {
+    const name = pick(resource, 'displayName')
+    if (name !== undefined && String(name).toLowerCase() !== role.toLowerCase())
+      throw new ScimError(400, 'Groups cannot be renamed', 'mutability')
+  }
+
+  async function listGroups(req: Request, scope: Scope) {
+    const params = new URL(req.url).searchParams
+    const raw = params.get('filter')
+    const filter = raw ? parseFilter(raw) : null
+    const members = await scope.adapter.listMembers(scope.orgId)
+    const groups = scope.roles
+      .map((role) => groupJson(scope, role, members))
+      .filter((g) => !filter || matchesFilter(filter, g))
+      .map((g) => groupResponse(req, scope, g.id, members))
+    return scim(listResponse(groups, params))
+  }
+
+  // Groups can't be created: POST finds the role's group and adds the listed members to it
+  async function createGroup(req: Request, scope: Scope) {
+    const body = await readBody(req)
+    const role = roleOf(scope, pick(body, 'displayName'), 400)
+    const members = await syncGroup(scope, role, pick(body, 'members'), false)
+    const group = groupResponse(req, scope, role, members)
+    return scim(group, 201, { location: group.meta.location })
+  }
+
+  async function getGroup(req: Request, scope: Scope, id: string) {
+    const role = roleOf(scope, id)
+    return scim(groupResponse(req, scope, role, await scope.adapter.listMembers(scope.orgId)))
+  }
+
+  async function replaceGroup(req: Request, scope: Scope, id: string) {
+    const role = roleOf(scope, id)
+    const body = await readBody(req)
+    assertDisplayName(role, body)
+    const members = await syncGroup(scope, role, pick(body, 'members'), true)
+    return scim(groupResponse(req, scope, role, members))
+  }
+
+  async function patchGroup(req: Request, scope: Scope, id: string) {
+    const role = roleOf(scope, id)
+    const before = groupJson(scope, role, await scope.adapter.listMembers(scope.orgId))
+    const after = applyPatch(before, await readBody(req))
+    assertDisplayName(role, after)
+    const members = await syncGroup(scope, role, pick(after, 'members'), true)
+    return scim(groupResponse(req, scope, role, members))
+  }
+
+  async function deleteGroup(_req: Request, scope: Scope, id: string): Promise<Response> {
+    roleOf(scope, id)
+    throw new ScimError(400, 'Groups are organization roles and cannot be deleted', 'mutability')
+  }
+
+  // ---- Routing ----
+
+  function errorResponse(e: unknown) {
+    if (e instanceof ScimError)
+      return scim(
+        scimErrorBody(e),
+        e.status,
+        e.status === 401 ? { 'www-authenticate': 'Bearer realm="scim"' } : {},
+      )
+    if (e instanceof Error && e.message === 'last_owner')
+      return errorResponse(
+        new ScimError(400, 'An organization must keep at least one owner', 'mutability'),
+      )
+    if (e instanceof KeyloomError && e.code === ERR.HOOK_REJECTED)
+      return errorResponse(new ScimError(403, e.message))
+    if (e instanceof KeyloomError && e.code === ERR.SEAT_LIMIT_REACHED)
+      return errorResponse(new ScimError(403, e.message))
+    throw e
+  }
+
+  const route = (
+    method: NextRoute['method'],
+    kind: string,
+    path: RegExp,
+    fn: (req: Request, scope: Scope, id: string) => Promise<Response>,
+  ): NextRoute => ({
+    method,
+    kind,
+    path,
+    handler: async (req, ctx) => {
+      const request = req as Request
+      try {
+        const scope = await authenticate(request, ctx as RouteCtx, path)
+        const id = path.exec(new URL(request.url).pathname)?.[1]
+        return await fn(request, scope, id ? decodeURIComponent(id) : '')
+      } catch (e) {
+        return errorResponse(e)
+      }
+    },
+  })
+
+  // Discovery documents carry no tenant data and are served without a token
+  const discovery = (kind: string, path: RegExp, body: (base: string) => unknown): NextRoute => ({
+    method: 'GET',
+    kind,
+    path,
+    handler: (req, ctx) => {
+      const request = req as Request
+      return scim(body(scimBase(request, (ctx as RouteCtx).config, path)))
+    },
+  })
+
+  const users = pathFor('/Users')
+  const user = pathFor('/Users/([^/]+)')
+  const groups = pathFor('/Groups')
+  const group = pathFor('/Groups/([^/]+)')
+
+  const routes: NextRoute[] = [
+    discovery('scim_service_provider_config', pathFor('/ServiceProviderConfig'), (base) =>
+      serviceProviderConfig(base),
+    ),
+    discovery('scim_resource_types', pathFor('/ResourceTypes'), (base) =>
+      listResponse(resourceTypes(base), new URLSearchParams()),
+    ),
+    route('GET', 'scim_users', users, listUsers),
+    route('POST', 'scim_users', users, createUser),
+    route('GET', 'scim_user', user, getUser),
+    route('PUT', 'scim_user', user, replaceUser),
+    route('PATCH', 'scim_user', user, patchUser),
+    route('DELETE', 'scim_user', user, deleteUser),
+    route('GET', 'scim_groups', groups, listGroups),
+    route('POST', 'scim_groups', groups, createGroup),
+    route('GET', 'scim_group', group, getGroup),
+    route('PUT', 'scim_group', group, replaceGroup),
+    route('PATCH', 'scim_group', group, patchGroup),
+    route('DELETE', 'scim_group', group, deleteGroup),
+  ]
+
+  return { name: 'scim', nextRoutes: () => routes }
+}
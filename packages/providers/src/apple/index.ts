@@ -36,6 +36,11 @@ export default function apple(opts: AppleOpts) {
         return params
       },
     },
+    // Apple has no discovery document; id_tokens are verified against its published keys
+    idToken: {
+      issuer: 'https://appleid.apple.com',
+      jwksUrl: 'https://appleid.apple.com/auth/keys',
+    },
     // No userinfo; map from id_token:
     profileFromIdToken: (claims) => ({
       id: claims.sub,
@@ -16,6 +16,7 @@ export type StandardProviderConfig = {
     | Promise<URLSearchParams | Record<string, unknown>>
   mapProfile?: (raw: any, tokens: Tokens) => Profile
   profileFromIdToken?: (claims: Record<string, any>) => Profile
+  idToken?: OAuthProvider['idToken'] // required alongside profileFromIdToken (issuer + keys)
   profileOverrides?: (profile: Profile) => Record<string, any>
 }
 
@@ -51,6 +52,7 @@ export function createOAuthProvider(cfg: StandardProviderConfig) {
           }
         : {}),
       ...(cfg.profileFromIdToken ? { profileFromIdToken: cfg.profileFromIdToken } : {}),
+      ...(cfg.idToken ? { idToken: cfg.idToken } : {}),
       ...(cfg.profileOverrides ? { profileOverrides: cfg.profileOverrides } : {}),
       ...(cfg.scopes ? { scopes: cfg.scopes } : {}),
       clientId: opts.clientId,
@@ -66,12 +68,13 @@ export function createOAuthProvider(cfg: StandardProviderConfig) {
 export function lintProviderShape(p: Partial<OAuthProvider> & Record<string, any>) {
   const errors: string[] = []
   if (!p.id) errors.push('missing id')
-  if (!p.authorization?.url) errors.push('missing authorization.url')
-  if (!p.token?.url) errors.push('missing token.url')
+  // Endpoints may come from OIDC discovery instead
+  if (!p.authorization?.url && !p.discovery?.issuer) errors.push('missing authorization.url')
+  if (!p.token?.url && !p.discovery?.issuer) errors.push('missing token.url')
   const style = p.token?.style
   if (style && style !== 'json' && style !== 'form')
     errors.push("token.style must be 'json' or 'form'")
-  if (!p.userinfo?.url && !p.profileFromIdToken) {
+  if (!p.userinfo?.url && !p.profileFromIdToken && !p.discovery?.issuer) {
     errors.push('either userinfo.url or profileFromIdToken must be provided')
   }
   return { ok: errors.length === 0, errors }
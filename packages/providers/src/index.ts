@@ -11,6 +11,7 @@ export { default as google } from './google/index'
 export { default as instagram } from './instagram/index'
 export { default as linkedin } from './linkedin/index'
 export { default as microsoft } from './microsoft/index'
+export { default as oidc, oidcProvider, profileFromOidcClaims } from './oidc/index'
 export { default as reddit } from './reddit/index'
 export { default as spotify } from './spotify/index'
 export { default as tiktok } from './tiktok/index'
@@ -0,0 +1,54 @@
+import type { OAuthProvider, Profile } from '@keyloom/core'
+
+type OidcProviderOptions = {
+  /** Issuer URL; endpoints and signing keys come from its `/.well-known/openid-configuration` */
+  issuer: string
+  clientId: string
+  clientSecret: string
+  /** Provider id in routes (`/oauth/:id/start`) and stored accounts; set one per IdP @default 'oidc' */
+  id?: string
+  scopes?: string[]
+  /** Extra authorization request params, e.g. `{ prompt: 'consent' }` */
+  params?: Record<string, string>
+  tokenStyle?: 'json' | 'form'
+  profileOverrides?: (profile: Profile) => Record<string, any>
+  accountLinking?: OAuthProvider['accountLinking']
+}
+
+/** Map standard OIDC claims (from userinfo or the id_token) to a Keyloom profile. */
+export function profileFromOidcClaims(claims: Record<string, any>): Profile {
+  const fullName = [claims.given_name, claims.family_name].filter(Boolean).join(' ')
+  return {
+    id: String(claims.sub),
+    email: claims.email ?? null,
+    name: claims.name ?? (fullName || claims.preferred_username) ?? null,
+    image: claims.picture ?? null,
+    // Some IdPs send the claim as a string
+    emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+  }
+}
+
+/**
+ * Generic OpenID Connect provider (Keycloak, Okta, Zitadel, internal IdPs, ...).
+ * Authorization, token, userinfo and JWKS endpoints are discovered from the issuer on first use and
+ * cached; the profile comes from userinfo, or from the verified id_token when there is none.
+ */
+export function oidcProvider(
+  opts: OidcProviderOptions,
+): OAuthProvider & { clientId: string; clientSecret: string } {
+  return {
+    id: opts.id ?? 'oidc',
+    discovery: { issuer: opts.issuer },
+    authorization: opts.params ? { params: opts.params } : {},
+    token: { style: opts.tokenStyle ?? 'form' },
+    userinfo: { map: profileFromOidcClaims },
+    profileFromIdToken: profileFromOidcClaims,
+    scopes: opts.scopes ?? ['openid', 'email', 'profile'],
+    ...(opts.profileOverrides ? { profileOverrides: opts.profileOverrides } : {}),
+    ...(opts.accountLinking ? { accountLinking: opts.accountLinking } : {}),
+    clientId: opts.clientId,
+    clientSecret: opts.clientSecret,
+  }
+}
+
+export default oidcProvider
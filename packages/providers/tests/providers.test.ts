@@ -1,4 +1,4 @@
-import { describe, expect, it, vi } from 'vitest'
+import { afterEach, describe, expect, it, vi } from 'vitest'
 
 vi.mock('@keyloom/core', async () => {
   const actual = await vi.importActual<any>('@keyloom/core')
@@ -16,6 +16,7 @@ import github, { github as githubFactory } from '../src/github'
 import gitlab from '../src/gitlab'
 import google from '../src/google'
 import microsoft from '../src/microsoft'
+import { oidcProvider } from '../src/oidc'
 import x from '../src/x'
 
 describe('provider factories', () => {
@@ -102,3 +103,53 @@ describe('provider factories', () => {
     expect(github).toBe(githubFactory)
   })
 })
+
+describe('oidcProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('resolves endpoints from discovery and maps standard claims', async () => {
+    const { lintProviderShape } = await import('../src/factory')
+    const { startOAuth } = await vi.importActual<typeof import('@keyloom/core')>('@keyloom/core')
+    const issuer = 'https://sso.example/realms/acme'
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        issuer,
+        authorization_endpoint: `${issuer}/protocol/openid-connect/auth`,
+        token_endpoint: `${issuer}/protocol/openid-connect/token`,
+        userinfo_endpoint: `${issuer}/protocol/openid-connect/userinfo`,
+        jwks_uri: `${issuer}/protocol/openid-connect/certs`,
+      }),
+    })
+    vi.stubGlobal('fetch', fetchMock)
+
+    const provider = oidcProvider({ issuer, clientId: 'id', clientSecret: 'secret', id: 'acme' })
+    expect(lintProviderShape(provider).ok).toBe(true)
+
+    const { authorizeUrl } = await startOAuth({
+      provider,
+      baseUrl: 'https://app.test',
+      callbackPath: '/api/auth/oauth/acme/callback',
+      secrets: { authSecret: 'MDEyMzQ1Njc4OWFiY2RlZjAxMjM0NTY3ODlhYmNkZWY' },
+    })
+    const url = new URL(authorizeUrl)
+    expect(`${url.origin}${url.pathname}`).toBe(`${issuer}/protocol/openid-connect/auth`)
+    expect(url.searchParams.get('scope')).toBe('openid email profile')
+    expect(fetchMock).toHaveBeenCalledWith(`${issuer}/.well-known/openid-configuration`)
+
+    expect(
+      provider.userinfo?.map?.(
+        {
+          sub: 42,
+          email: 'a@acme.dev',
+          email_verified: 'true',
+          given_name: 'Ada',
+          family_name: 'L',
+        },
+        { access_token: 'A' },
+      ),
+    ).toEqual({ id: '42', email: 'a@acme.dev', name: 'Ada L', image: null, emailVerified: true })
+  })
+})
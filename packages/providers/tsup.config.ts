@@ -15,6 +15,7 @@ export default defineConfig({
     instagram: 'src/instagram/index.ts',
     linkedin: 'src/linkedin/index.ts',
     microsoft: 'src/microsoft/index.ts',
+    oidc: 'src/oidc/index.ts',
     reddit: 'src/reddit/index.ts',
     spotify: 'src/spotify/index.ts',
     tiktok: 'src/tiktok/index.ts',
@@ -1,16 +1,17 @@
+import { TWO_FACTOR_COOKIE_NAME } from "@keyloom/core/constants";
 import { serializeSessionCookie } from "@keyloom/core/session/cookie";
 import type { FastifyReply } from "fastify";
 
 export function setSessionCookie(
   reply: FastifyReply,
   sessionId: string,
-  opts: { domain?: string; sameSite?: "lax" | "strict" | "none" }
+  opts: { domain?: string; sameSite?: "lax" | "strict" | "none"; maxAge?: number }
 ) {
   const cookieOptions: Record<string, unknown> = {
     secure: true,
     httpOnly: true,
     path: "/",
-    maxAge: 60 * 60,
+    maxAge: opts.maxAge ?? 60 * 60,
   };
 
   if (opts.domain !== undefined) {
@@ -44,3 +45,23 @@ export function clearSessionCookie(
 
   reply.header("Set-Cookie", serializeSessionCookie("", cookieOptions));
 }
+
+/** Short-lived cookie carrying the pending second-factor token between login and 2FA verify. */
+export function setPendingSecondFactorCookie(
+  reply: FastifyReply,
+  token: string,
+  opts: { domain?: string; sameSite?: "lax" | "strict" | "none"; maxAge: number }
+) {
+  const sameSite = opts.sameSite ?? "lax";
+  const parts = [
+    `${TWO_FACTOR_COOKIE_NAME}=${encodeURIComponent(token)}`,
+    "Path=/",
+    `SameSite=${sameSite.charAt(0).toUpperCase() + sameSite.slice(1)}`,
+    "Secure",
+    "HttpOnly",
+    `Max-Age=${Math.floor(opts.maxAge)}`,
+  ];
+  if (opts.domain !== undefined) parts.push(`Domain=${opts.domain}`);
+
+  reply.header("Set-Cookie", parts.join("; "));
+}
@@ -1,14 +1,36 @@
 import { z } from 'zod'
 
+// "true"/"false", a hop count, or comma-separated proxy IPs/CIDRs (Fastify `trustProxy`)
+function parseTrustedProxies(v: string | undefined): boolean | number | string[] {
+  if (!v || v === 'false') return false
+  if (v === 'true') return true
+  if (/^\d+$/.test(v)) return Number(v)
+  return v
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean)
+}
+
 export const Env = z.object({
   PORT: z.string().default('8787'),
   DATABASE_URL: z.string(),
   AUTH_SECRET: z.string().min(16),
   COOKIE_DOMAIN: z.string().optional(),
   COOKIE_SAMESITE: z.enum(['lax', 'strict', 'none']).default('lax'),
+  // Which X-Forwarded-For hops to believe for the client IP; unset ignores the header
+  TRUSTED_PROXIES: z.string().optional().transform(parseTrustedProxies),
 
   // JWT Configuration
   SESSION_STRATEGY: z.enum(['database', 'jwt']).default('database'),
+  // Database sessions: rolling renewal and idle/absolute limits (minutes)
+  SESSION_TTL_MINUTES: z.coerce.number().positive().default(60),
+  SESSION_ROLLING: z
+    .enum(['true', 'false'])
+    .default('true')
+    .transform((v) => v === 'true'),
+  SESSION_RENEW_THRESHOLD_MINUTES: z.coerce.number().positive().optional(),
+  SESSION_ABSOLUTE_TTL_MINUTES: z.coerce.number().positive().optional(),
+  SESSION_IDLE_TIMEOUT_MINUTES: z.coerce.number().positive().optional(),
   JWT_ISSUER: z.string().default('keyloom'),
   JWT_AUDIENCE: z.string().optional(),
   JWT_ACCESS_TTL: z.string().default('10m'),
@@ -19,6 +41,15 @@ export const Env = z.object({
 
   // Keystore Configuration
   JWKS_PATH: z.string().optional(),
+  // The JWKS_PATH file is sealed with AUTH_SECRET unless this opts into plaintext keys
+  JWKS_PLAINTEXT: z
+    .enum(['true', 'false'])
+    .default('false')
+    .transform((v) => v === 'true'),
+  // Where signing keys live: a local file (JWKS_PATH) or the database, shared by every instance
+  JWKS_STORE: z.enum(['file', 'database']).default('file'),
+  // How often each instance re-reads the keystore to pick up keys rotated elsewhere
+  JWKS_REFRESH_SECONDS: z.coerce.number().min(0).default(60),
   KEY_ROTATION_DAYS: z.coerce.number().default(90),
   KEY_OVERLAP_DAYS: z.coerce.number().default(7),
 })
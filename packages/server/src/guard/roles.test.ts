@@ -0,0 +1,66 @@
+import { memoryAdapter } from '@keyloom/core'
+import { createApiKey } from '@keyloom/core/api-keys'
+import { beforeEach, describe, expect, it } from 'vitest'
+import { withRole } from './roles'
+
+const secret = 'test-secret'
+const rbac = {
+  roles: {
+    admin: { permissions: ['members:read', 'projects:write'] },
+    member: { permissions: ['members:read'] },
+  },
+}
+
+function fakeReply() {
+  const reply = {
+    statusCode: 200,
+    code(status: number) {
+      reply.statusCode = status
+      return reply
+    },
+    send: () => reply,
+  }
+  return reply
+}
+
+describe('withRole', () => {
+  let adapter: ReturnType<typeof memoryAdapter>
+  let user: { id: string }
+  let orgId: string
+
+  beforeEach(async () => {
+    adapter = memoryAdapter()
+    user = await adapter.createUser({ email: 'member@test' })
+    orgId = (await adapter.createOrganization({ name: 'Acme' })).id
+    await adapter.addMember({ userId: user.id, orgId, role: 'member' })
+  })
+
+  const run = async (headers: Record<string, string> = {}) => {
+    const reply = fakeReply()
+    const guarded = withRole(async (_req, r) => r.code(200).send('ok'), {
+      requiredPermission: 'members:read',
+      getUser: async () => user,
+      adapter,
+      orgIdFrom: () => orgId,
+      apiKeySecret: secret,
+      rbac,
+    })
+    await guarded({ headers } as any, reply as any)
+    return reply.statusCode
+  }
+
+  it('treats suspended memberships as no membership', async () => {
+    const { key } = await createApiKey(
+      { name: 'CLI', userId: user.id, permissions: ['members:read'] },
+      { adapter, secret, rbac },
+    )
+    const bearer = { authorization: `Bearer ${key}` }
+    expect(await run()).toBe(200)
+    expect(await run(bearer)).toBe(200)
+
+    const membership = (await adapter.getMembership(user.id, orgId))!
+    await adapter.updateMember(membership.id, { status: 'suspended' })
+    expect(await run()).toBe(403)
+    expect(await run(bearer)).toBe(403)
+  })
+})
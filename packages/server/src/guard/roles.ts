@@ -1,5 +1,44 @@
+import type { PolicyResource, RbacConfig } from '@keyloom/core'
+import { apiKeyAllows, authenticateApiKey, bearerApiKey } from '@keyloom/core/api-keys'
+import {
+  activeMemberRole,
+  can,
+  type EntitlementRequirement,
+  entitlementAllows,
+  evaluate,
+  hasAnyRole,
+  isPolicyConfigured,
+  needsEntitlements,
+  resolveOrgRbac,
+} from '@keyloom/core/rbac'
 import type { FastifyReply, FastifyRequest } from 'fastify'
 
+/** An explicit `permMap` wins; otherwise `rbac` is evaluated (inheritance, deny lists, rules) */
+async function permits(
+  req: FastifyRequest,
+  role: string,
+  userId: string,
+  orgId: string | null,
+  opts: {
+    requiredPermission?: string
+    permMap?: Record<string, string[]>
+    rbac?: RbacConfig | undefined
+    adapter: any
+    resourceFrom?: (req: FastifyRequest) => PolicyResource | Promise<PolicyResource>
+  },
+) {
+  if (!opts.requiredPermission) return true
+  if (opts.permMap) return can(role, opts.requiredPermission, opts.permMap)
+  if (!isPolicyConfigured(opts.rbac)) return true
+  const entitlements =
+    orgId && needsEntitlements(opts.rbac)
+      ? ((await opts.adapter.getEntitlements?.(orgId)) ?? null)
+      : null
+  const resource = await opts.resourceFrom?.(req)
+  return evaluate({ userId, role, entitlements }, opts.requiredPermission, resource, opts.rbac)
+    .allowed
+}
+
 export function withRole(
   handler: (req: FastifyRequest, reply: FastifyReply) => Promise<unknown>,
   opts: {
@@ -10,9 +49,45 @@ export function withRole(
     adapter: any
     orgIdFrom?: (req: FastifyRequest) => string | null
     onDenied?: (reply: FastifyReply, code: number, msg: string) => unknown
+    /** Accept `Authorization: Bearer klk_...` API keys, verified with this secret */
+    apiKeySecret?: string
+    /**
+     * Roles config: role inheritance, permissions, deny lists and rules (also checks API keys).
+     * With `customRoles.enabled`, the org's own roles are loaded from the adapter too.
+     */
+    rbac?: RbacConfig
+    /** Load the resource acted on, for `rbac.rules` conditions such as ownership */
+    resourceFrom?: (req: FastifyRequest) => PolicyResource | Promise<PolicyResource>
   },
 ) {
   return async (req: FastifyRequest, reply: FastifyReply) => {
+    const bearer = opts.apiKeySecret ? bearerApiKey(req.headers.authorization) : null
+    if (bearer && opts.apiKeySecret) {
+      const principal = await authenticateApiKey(bearer, {
+        adapter: opts.adapter,
+        secret: opts.apiKeySecret,
+      })
+      if (!principal)
+        return (opts.onDenied ?? ((r) => r.code(401).send('unauthorized')))(
+          reply,
+          401,
+          'unauthorized',
+        )
+      const orgId = opts.orgIdFrom?.(req) ?? principal.orgId
+      if (!orgId)
+        return (opts.onDenied ?? ((r) => r.code(400).send('select_org')))(reply, 400, 'select_org')
+      const allowed = await apiKeyAllows(principal, {
+        orgId,
+        requiredRoles: opts.requiredRoles,
+        requiredPermission: opts.requiredPermission,
+        rbac: opts.rbac,
+        adapter: opts.adapter,
+      })
+      if (!allowed)
+        return (opts.onDenied ?? ((r) => r.code(403).send('forbidden')))(reply, 403, 'forbidden')
+      return handler(req, reply)
+    }
+
     const user = await opts.getUser(req)
     if (!user)
       return (opts.onDenied ?? ((r) => r.code(401).send('unauthorized')))(
@@ -23,17 +98,15 @@ export function withRole(
     const orgId = opts.orgIdFrom?.(req)
     if (!orgId)
       return (opts.onDenied ?? ((r) => r.code(400).send('select_org')))(reply, 400, 'select_org')
-    const m = await opts.adapter.getMembership(user.id, orgId)
-    const role = m?.role ?? null
+    // Invited or suspended (e.g. SCIM-deprovisioned) memberships grant nothing
+    const role = activeMemberRole(await opts.adapter.getMembership(user.id, orgId))
     if (!role)
       return (opts.onDenied ?? ((r) => r.code(403).send('forbidden')))(reply, 403, 'forbidden')
-    if (opts.requiredRoles?.length && !opts.requiredRoles.includes(role))
+    const rbac = await resolveOrgRbac(orgId, { rbac: opts.rbac, adapter: opts.adapter })
+    if (opts.requiredRoles?.length && !hasAnyRole(role, opts.requiredRoles, rbac))
+      return (opts.onDenied ?? ((r) => r.code(403).send('forbidden')))(reply, 403, 'forbidden')
+    if (!(await permits(req, role, user.id, orgId, { ...opts, rbac })))
       return (opts.onDenied ?? ((r) => r.code(403).send('forbidden')))(reply, 403, 'forbidden')
-    if (opts.requiredPermission && opts.permMap) {
-      const allowed = (opts.permMap[opts.requiredPermission] ?? []).includes(role)
-      if (!allowed)
-        return (opts.onDenied ?? ((r) => r.code(403).send('forbidden')))(reply, 403, 'forbidden')
-    }
     return handler(req, reply)
   }
 }
@@ -67,7 +140,7 @@ export function withGlobalRole(
       return (opts.onDenied ?? ((r) => r.code(403).send('forbidden')))(reply, 403, 'forbidden')
 
     if (opts.requiredPermission && opts.permMap) {
-      const allowed = (opts.permMap[opts.requiredPermission] ?? []).includes(globalRole)
+      const allowed = can(globalRole, opts.requiredPermission, opts.permMap)
       if (!allowed)
         return (opts.onDenied ?? ((r) => r.code(403).send('forbidden')))(reply, 403, 'forbidden')
     }
@@ -115,8 +188,7 @@ export function withAnyRole(
     if (!hasAccess && opts.requiredRoles?.length) {
       const orgId = opts.orgIdFrom?.(req)
       if (orgId) {
-        const m = await opts.adapter.getMembership(user.id, orgId)
-        const orgRole = m?.role ?? null
+        const orgRole = activeMemberRole(await opts.adapter.getMembership(user.id, orgId))
         if (orgRole && opts.requiredRoles.includes(orgRole)) {
           hasAccess = true
           userRole = orgRole
@@ -129,7 +201,7 @@ export function withAnyRole(
 
     // Check permissions if specified
     if (opts.requiredPermission && opts.permMap && userRole) {
-      const allowed = (opts.permMap[opts.requiredPermission] ?? []).includes(userRole)
+      const allowed = can(userRole, opts.requiredPermission, opts.permMap)
       if (!allowed)
         return (opts.onDenied ?? ((r) => r.code(403).send('forbidden')))(reply, 403, 'forbidden')
     }
@@ -137,3 +209,28 @@ export function withAnyRole(
     return handler(req, reply)
   }
 }
+
+/** Runs `handler` only when the org's entitlements include `entitlement`; 402 otherwise */
+export function requireEntitlement(
+  handler: (req: FastifyRequest, reply: FastifyReply) => Promise<unknown>,
+  opts: {
+    entitlement: EntitlementRequirement
+    adapter: any
+    orgIdFrom: (req: FastifyRequest) => string | null
+    onDenied?: (reply: FastifyReply, code: number, msg: string) => unknown
+  },
+) {
+  return async (req: FastifyRequest, reply: FastifyReply) => {
+    const orgId = opts.orgIdFrom(req)
+    if (!orgId)
+      return (opts.onDenied ?? ((r) => r.code(400).send('select_org')))(reply, 400, 'select_org')
+    const ent = (await opts.adapter.getEntitlements?.(orgId)) ?? null
+    if (!(await entitlementAllows(ent, opts.entitlement)))
+      return (opts.onDenied ?? ((r) => r.code(402).send('entitlement_required')))(
+        reply,
+        402,
+        'entitlement_required',
+      )
+    return handler(req, reply)
+  }
+}
@@ -0,0 +1,37 @@
+import { mkdtemp, readFile, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { createKeystoreManager } from './keystore'
+
+const secret = 'test-secret-test-secret'
+
+describe('createKeystoreManager', () => {
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'keyloom-jwks-'))
+  })
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('seals the keystore file unless plaintext is asked for', async () => {
+    const sealedPath = join(dir, 'sealed.json')
+    const sealed = createKeystoreManager({ jwksPath: sealedPath, secret })
+    await sealed.initialize()
+    const doc = JSON.parse(await readFile(sealedPath, 'utf8'))
+    expect(doc.v).toBe(1)
+    expect(typeof doc.active.privateJwk).toBe('string')
+
+    const reopened = createKeystoreManager({ jwksPath: sealedPath, secret })
+    await reopened.initialize()
+    expect(reopened.getActiveKey()).toEqual(sealed.getActiveKey())
+
+    const plainPath = join(dir, 'plain.json')
+    await createKeystoreManager({ jwksPath: plainPath, plaintext: true }).initialize()
+    expect(JSON.parse(await readFile(plainPath, 'utf8')).active.privateJwk.kty).toBeDefined()
+
+    expect(() => createKeystoreManager({ jwksPath: plainPath })).toThrow(/secret is required/)
+  })
+})
@@ -1,52 +1,94 @@
-import { promises as fs } from 'node:fs'
-import { join } from 'node:path'
 import {
   createDefaultRotationPolicy,
-  createKeystore,
+  ensureStoredKeystore,
+  fileKeystoreStore,
   type JwtAlg,
   type Keystore,
+  type KeystoreStore,
+  memoryKeystoreStore,
   needsRotation,
   type RotationPolicy,
-  rotateKeystore,
-  validateKeystore,
+  rotateStoredKeystore,
 } from '@keyloom/core/jwt'
 
+export type KeystoreManagerConfig = {
+  jwksPath?: string
+  /** Seals the private key in the `jwksPath` file (e.g. `AUTH_SECRET`) */
+  secret?: string
+  /** Write the `jwksPath` file unsealed instead; only for local development */
+  plaintext?: boolean
+  /** Where keys are kept; takes precedence over `jwksPath` (e.g. `adapterKeystoreStore`) */
+  store?: KeystoreStore
+  alg?: JwtAlg
+  rotationDays?: number
+  overlapDays?: number
+  /** Re-read the store this often to pick up keys rotated by other instances (0 disables) */
+  refreshSeconds?: number
+}
+
 /**
  * Server-side keystore manager for JWT signing keys
  */
 export class KeystoreManager {
   private keystore: Keystore | null = null
-  private keystorePath: string | null = null
+  private store: KeystoreStore
   private rotationPolicy: RotationPolicy
   private alg: JwtAlg
+  private refreshTimer: ReturnType<typeof setInterval> | null = null
+  private refreshedAt = 0
 
-  constructor(keystorePath: string | null, alg: JwtAlg = 'EdDSA', rotationPolicy?: RotationPolicy) {
-    this.keystorePath = keystorePath
+  /**
+   * @param store - Keystore store, a keystore file path (written unsealed), or null to keep keys
+   * in memory
+   */
+  constructor(
+    store: KeystoreStore | string | null,
+    alg: JwtAlg = 'EdDSA',
+    rotationPolicy?: RotationPolicy,
+  ) {
+    this.store =
+      typeof store === 'string' ? fileKeystoreStore(store) : (store ?? memoryKeystoreStore())
     this.alg = alg
     this.rotationPolicy = rotationPolicy || createDefaultRotationPolicy()
   }
 
   /**
-   * Initialize the keystore - load from disk or create new
+   * Initialize the keystore - load it from the store, or create and save a new one
    */
   async initialize(): Promise<void> {
-    if (this.keystorePath) {
-      try {
-        await this.loadFromDisk()
-      } catch (error) {
-        console.warn(`Failed to load keystore from ${this.keystorePath}, creating new one:`, error)
-        await this.createNew()
-      }
-    } else {
-      // No persistence - create in-memory keystore
-      await this.createNew()
-    }
+    this.keystore = await ensureStoredKeystore(this.store, this.alg)
+    console.log(`Keystore loaded with active key: ${this.keystore.active.kid}`)
+    await this.rotateIfNeeded()
+  }
 
-    // Check if rotation is needed
-    if (this.keystore && needsRotation(this.keystore, this.rotationPolicy)) {
-      console.log('Keystore rotation needed, rotating keys...')
-      await this.rotate()
-    }
+  /**
+   * Reload the keystore from the store, picking up keys rotated by other instances
+   *
+   * @param opts.ifOlderThanMs - Skip the reload when the last one was this recent
+   */
+  async refresh(opts: { ifOlderThanMs?: number } = {}): Promise<void> {
+    if (opts.ifOlderThanMs && Date.now() - this.refreshedAt < opts.ifOlderThanMs) return
+    this.refreshedAt = Date.now()
+    const latest = await this.store.load()
+    if (latest) this.keystore = latest
+    await this.rotateIfNeeded()
+  }
+
+  /**
+   * Refresh the keystore every `seconds` until `stopAutoRefresh` is called
+   */
+  startAutoRefresh(seconds: number): void {
+    this.stopAutoRefresh()
+    if (seconds <= 0) return
+    this.refreshTimer = setInterval(() => {
+      this.refresh().catch((error) => console.error('Failed to refresh keystore:', error))
+    }, seconds * 1000)
+    this.refreshTimer.unref?.()
+  }
+
+  stopAutoRefresh(): void {
+    if (this.refreshTimer) clearInterval(this.refreshTimer)
+    this.refreshTimer = null
   }
 
   /**
@@ -72,7 +114,7 @@ export class KeystoreManager {
   }
 
   /**
-   * Rotate the keystore keys
+   * Rotate the keystore keys, under the store's lock
    */
   async rotate(): Promise<void> {
     if (!this.keystore) {
@@ -80,12 +122,9 @@ export class KeystoreManager {
     }
 
     console.log('Rotating keystore keys...')
-    this.keystore = await rotateKeystore(this.keystore, this.alg, this.rotationPolicy)
-
-    if (this.keystorePath) {
-      await this.saveToDisk()
-    }
-
+    this.keystore = await rotateStoredKeystore(this.store, this.alg, this.rotationPolicy, {
+      force: true,
+    })
     console.log(`Keystore rotated. New active key: ${this.keystore.active.kid}`)
   }
 
@@ -119,56 +158,15 @@ export class KeystoreManager {
   }
 
   /**
-   * Create a new keystore
-   */
-  private async createNew(): Promise<void> {
-    console.log('Creating new keystore...')
-    this.keystore = await createKeystore(this.alg)
-
-    if (this.keystorePath) {
-      await this.saveToDisk()
-    }
-
-    console.log(`New keystore created with active key: ${this.keystore.active.kid}`)
-  }
-
-  /**
-   * Load keystore from disk
+   * Rotate when the active key is due; the first instance to get the lock rotates and the
+   * others load its keys
    */
-  private async loadFromDisk(): Promise<void> {
-    if (!this.keystorePath) {
-      throw new Error('No keystore path configured')
-    }
-
-    console.log(`Loading keystore from ${this.keystorePath}`)
-    const data = await fs.readFile(this.keystorePath, 'utf-8')
-    const parsed = JSON.parse(data)
-
-    if (!validateKeystore(parsed)) {
-      throw new Error('Invalid keystore format')
-    }
-
-    this.keystore = parsed
-    console.log(`Keystore loaded with active key: ${this.keystore.active.kid}`)
-  }
-
-  /**
-   * Save keystore to disk
-   */
-  private async saveToDisk(): Promise<void> {
-    if (!this.keystorePath || !this.keystore) {
-      return
-    }
-
-    // Ensure directory exists
-    const dir = join(this.keystorePath, '..')
-    await fs.mkdir(dir, { recursive: true })
-
-    // Write keystore with proper formatting
-    const data = JSON.stringify(this.keystore, null, 2)
-    await fs.writeFile(this.keystorePath, data, 'utf-8')
-
-    console.log(`Keystore saved to ${this.keystorePath}`)
+  private async rotateIfNeeded(): Promise<void> {
+    if (!this.keystore || !needsRotation(this.keystore, this.rotationPolicy)) return
+    const previousKid = this.keystore.active.kid
+    this.keystore = await rotateStoredKeystore(this.store, this.alg, this.rotationPolicy)
+    if (this.keystore.active.kid !== previousKid)
+      console.log(`Keystore rotated. New active key: ${this.keystore.active.kid}`)
   }
 
   /**
@@ -200,18 +198,22 @@ export class KeystoreManager {
 /**
  * Create a keystore manager from environment configuration
  */
-export function createKeystoreManager(config: {
-  jwksPath?: string
-  alg?: JwtAlg
-  rotationDays?: number
-  overlapDays?: number
-}): KeystoreManager {
+export function createKeystoreManager(config: KeystoreManagerConfig): KeystoreManager {
   const rotationPolicy: RotationPolicy = {
     rotationDays: config.rotationDays || 90,
     overlapDays: config.overlapDays || 7,
   }
 
-  return new KeystoreManager(config.jwksPath || null, config.alg || 'EdDSA', rotationPolicy)
+  return new KeystoreManager(keystoreStore(config), config.alg || 'EdDSA', rotationPolicy)
+}
+
+function keystoreStore(config: KeystoreManagerConfig): KeystoreStore | null {
+  if (config.store) return config.store
+  if (!config.jwksPath) return null
+  if (config.plaintext) return fileKeystoreStore(config.jwksPath)
+  if (!config.secret)
+    throw new Error('A secret is required to seal the keystore file (or set plaintext: true)')
+  return fileKeystoreStore(config.jwksPath, { secret: config.secret })
 }
 
 /**
@@ -222,12 +224,7 @@ let globalKeystoreManager: KeystoreManager | null = null
 /**
  * Get or create the global keystore manager
  */
-export function getKeystoreManager(config?: {
-  jwksPath?: string
-  alg?: JwtAlg
-  rotationDays?: number
-  overlapDays?: number
-}): KeystoreManager {
+export function getKeystoreManager(config?: KeystoreManagerConfig): KeystoreManager {
   if (!globalKeystoreManager && config) {
     globalKeystoreManager = createKeystoreManager(config)
   }
@@ -242,13 +239,11 @@ export function getKeystoreManager(config?: {
 /**
  * Initialize the global keystore manager
  */
-export async function initializeGlobalKeystore(config: {
-  jwksPath?: string
-  alg?: JwtAlg
-  rotationDays?: number
-  overlapDays?: number
-}): Promise<KeystoreManager> {
+export async function initializeGlobalKeystore(
+  config: KeystoreManagerConfig,
+): Promise<KeystoreManager> {
   const manager = getKeystoreManager(config)
   await manager.initialize()
+  if (config.refreshSeconds) manager.startAutoRefresh(config.refreshSeconds)
   return manager
 }
@@ -0,0 +1,52 @@
+import type { NextRoute } from '@keyloom/core/plugins'
+import type { FastifyInstance, FastifyRequest } from 'fastify'
+
+const METHODS: NextRoute['method'][] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE']
+
+function toRequest(req: FastifyRequest, url: string) {
+  const headers = new Headers()
+  for (const [name, value] of Object.entries(req.headers))
+    if (value !== undefined) headers.set(name, Array.isArray(value) ? value.join(', ') : value)
+  // Plugins resolve the client IP with `requestClientIp`; give them the one Fastify resolved via
+  // trustProxy, both as the socket address and as the only forwarded hop
+  headers.set('x-forwarded-for', req.ip)
+  const body = Buffer.isBuffer(req.body) && req.body.length ? new Uint8Array(req.body) : undefined
+  const request = new Request(url, { method: req.method, headers, ...(body ? { body } : {}) })
+  return Object.assign(request, { ip: req.ip })
+}
+
+/**
+ * Serve plugin routes (written against Web `Request`/`Response` for `createNextHandler`, e.g. SCIM
+ * or SAML) from Fastify. Unmatched paths answer 404; bodies reach the plugin unparsed.
+ */
+export function registerPluginRoutes(
+  app: FastifyInstance,
+  routes: NextRoute[],
+  ctx: { config: unknown; adapter: unknown },
+) {
+  if (!routes.length) return
+  app.register(async (scope) => {
+    // Only affects this encapsulated scope: the plugin parses JSON, forms or SCIM bodies itself
+    scope.removeAllContentTypeParsers()
+    scope.addContentTypeParser('*', { parseAs: 'buffer' }, (_req, body, done) => done(null, body))
+    scope.route({
+      method: METHODS,
+      url: '/*',
+      handler: async (req, reply) => {
+        const url = `${req.protocol}://${req.host}${req.url}`
+        const { pathname } = new URL(url)
+        const route = routes.find((r) => r.method === req.method && r.path.test(pathname))
+        if (!route) return reply.code(404).send({ error: 'not_found' })
+
+        const res = (await route.handler(toRequest(req, url), ctx)) as Response
+        reply.code(res.status)
+        res.headers.forEach((value, name) => {
+          if (name !== 'set-cookie') reply.header(name, value)
+        })
+        const cookies = res.headers.getSetCookie()
+        if (cookies.length) reply.header('set-cookie', cookies)
+        return reply.send(Buffer.from(await res.arrayBuffer()))
+      },
+    })
+  })
+}
@@ -0,0 +1,43 @@
+import {
+  checkRateLimit,
+  type RateLimitConfig,
+  type RateLimitRoute,
+  rateLimitHeaders,
+} from '@keyloom/core/guard/rate-limit'
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify'
+
+const ROUTES: Record<string, RateLimitRoute> = {
+  '/v1/auth/register': 'register',
+  '/v1/auth/login': 'login',
+  '/v1/auth/2fa/verify': 'two_factor',
+  '/v1/account/enable-2fa': 'two_factor',
+  '/v1/account/disable-2fa': 'two_factor',
+  '/v1/auth/token': 'session',
+  '/v1/auth/session': 'session',
+  '/v1/auth/sessions': 'session',
+  '/v1/auth/csrf': 'session',
+}
+
+/**
+ * Throttle every route of the app by client IP (`req.ip`, resolved through Fastify's `trustProxy`)
+ * and by the `email`/`identifier` in the body. Spent budgets get a 429 with `Retry-After` and
+ * `RateLimit-*` headers.
+ */
+export function registerRateLimit(
+  app: FastifyInstance,
+  config?: RateLimitConfig,
+  routes: Record<string, RateLimitRoute> = ROUTES,
+) {
+  app.addHook('preHandler', async (req: FastifyRequest, reply: FastifyReply) => {
+    const route = routes[req.routeOptions.url ?? ''] ?? 'default'
+    const body = req.body as { email?: unknown; identifier?: unknown } | undefined
+    const account = body?.email ?? body?.identifier
+    const result = await checkRateLimit(
+      route,
+      { ip: req.ip, account: typeof account === 'string' ? account : null },
+      config,
+    )
+    if (result && !result.allowed)
+      return reply.code(429).headers(rateLimitHeaders(result)).send({ error: 'rate_limited' })
+  })
+}
@@ -2,10 +2,28 @@ import { PrismaAdapter } from '@keyloom/adapters'
 import { register } from '@keyloom/core/runtime/register'
 import { login } from '@keyloom/core/runtime/login'
 import { logout } from '@keyloom/core/runtime/logout'
-import { getCurrentSession } from '@keyloom/core/runtime/current-session'
+import { getCurrentSession, type SessionPolicy } from '@keyloom/core/runtime/current-session'
+import {
+  listUserSessions,
+  revokeUserSession,
+  revokeUserSessions,
+} from '@keyloom/core/runtime/sessions'
+import { listLinkedAccounts, unlinkUserAccount } from '@keyloom/core/runtime/accounts'
+import {
+  beginTotpEnrollment,
+  completeSecondFactor,
+  confirmTotpEnrollment,
+  disableTwoFactor,
+  verifyPendingSecondFactor,
+} from '@keyloom/core/two-factor'
+import { ERR, KeyloomError, type RbacConfig } from '@keyloom/core'
+import { apiKeyJson, createApiKey, listApiKeys, revokeApiKey } from '@keyloom/core/api-keys'
+import { createEventBus, eventMeta, type HooksConfig } from '@keyloom/core/events'
+import { TWO_FACTOR_COOKIE_NAME } from '@keyloom/core/constants'
 import * as csrf from '@keyloom/core/guard/csrf'
-import * as rateLimit from '@keyloom/core/guard/rate-limit'
-import type { JwtAlg } from '@keyloom/core/jwt'
+import type { RateLimitConfig } from '@keyloom/core/guard/rate-limit'
+import { adapterKeystoreStore } from '@keyloom/core/jwt'
+import type { NextRoute } from '@keyloom/core/plugins'
 import * as Prisma from '@prisma/client'
 import Fastify, { type FastifyReply, type FastifyRequest } from 'fastify'
 import { createRefreshTokenStore } from '../prisma-refresh-store'
@@ -16,19 +34,32 @@ declare module 'fastify' {
   }
 }
 
-import { clearSessionCookie, setSessionCookie } from '../cookies'
+import { clearSessionCookie, setPendingSecondFactorCookie, setSessionCookie } from '../cookies'
 import type { Env } from '../env'
 import { clearJwtCookies, extractRefreshToken, setJwtCookies } from '../jwt-cookies'
 import { getJwtService, initializeJwtService } from '../jwt-service'
-import { initializeGlobalKeystore } from '../keystore'
+import { registerRateLimit } from '../rate-limit'
+import { initializeGlobalKeystore, type KeystoreManagerConfig } from '../keystore'
+import { registerPluginRoutes } from '../plugins'
 import { setupJwks } from './jwks'
 
-export function buildServer(env: Env) {
-  const app = Fastify({ trustProxy: true })
+export function buildServer(
+  env: Env,
+  options: {
+    hooks?: HooksConfig
+    rbac?: RbacConfig
+    rateLimit?: RateLimitConfig
+    /** Plugin routes, e.g. `createScimPlugin().nextRoutes?.()` */
+    plugins?: NextRoute[]
+  } = {},
+) {
+  const app = Fastify({ trustProxy: env.TRUSTED_PROXIES })
+  registerRateLimit(app, options.rateLimit)
   const db = new (Prisma as any).PrismaClient()
   const adapter = PrismaAdapter(db)
   const baseAdapter: any = adapter as any
   const credAdapter: any = adapter as any
+  const events = createEventBus({ hooks: options.hooks, adapter: baseAdapter })
   const hasher = {
     async hash(pw: string) {
       const { hash } = await import('bcryptjs')
@@ -44,17 +75,18 @@ export function buildServer(env: Env) {
   let _jwtService: ReturnType<typeof getJwtService> | null = null
   if (env.SESSION_STRATEGY === 'jwt') {
     // Initialize keystore
-    const ksOpts: {
-      jwksPath?: string
-      alg?: JwtAlg
-      rotationDays?: number
-      overlapDays?: number
-    } = {
+    const ksOpts: KeystoreManagerConfig = {
       alg: env.JWT_ALGORITHM || 'EdDSA',
       rotationDays: env.KEY_ROTATION_DAYS || 90,
       overlapDays: env.KEY_OVERLAP_DAYS || 7,
+      refreshSeconds: env.JWKS_REFRESH_SECONDS,
+      secret: env.AUTH_SECRET,
+      plaintext: env.JWKS_PLAINTEXT,
     }
     if (env.JWKS_PATH) ksOpts.jwksPath = env.JWKS_PATH
+    // Shared by every instance; the private key is sealed with a key derived from AUTH_SECRET
+    if (env.JWKS_STORE === 'database')
+      ksOpts.store = adapterKeystoreStore(adapter, { secret: env.AUTH_SECRET })
     initializeGlobalKeystore(ksOpts).catch(console.error)
 
     // Initialize JWT service
@@ -65,6 +97,133 @@ export function buildServer(env: Env) {
     setupJwks(app)
   }
 
+  function readCookie(req: FastifyRequest, name: string) {
+    const cookie = (req.headers.cookie ?? '').split('; ').find((s) => s.startsWith(`${name}=`))
+    return cookie?.split('=')[1] ?? null
+  }
+
+  async function verifyAccessClaims(req: FastifyRequest) {
+    const { extractAccessToken } = await import('../jwt-cookies')
+    const { verifyJwtFull, getPublicKeysForVerification, isJwtError, JWT_ERRORS } = await import(
+      '@keyloom/core/jwt'
+    )
+    const { getKeystoreManager } = await import('../keystore')
+
+    const accessToken = extractAccessToken(req.headers.authorization, req.headers.cookie)
+    if (!accessToken) return null
+
+    const keystoreManager = getKeystoreManager()
+
+    const verifyOpts: {
+      clockSkewSec?: number
+      expectedIssuer?: string
+      expectedAudience?: string | string[]
+    } = {}
+    if (env.JWT_ISSUER) verifyOpts.expectedIssuer = env.JWT_ISSUER
+    if (env.JWT_AUDIENCE) verifyOpts.expectedAudience = env.JWT_AUDIENCE
+    if (typeof env.JWT_CLOCK_SKEW_SEC === 'number') verifyOpts.clockSkewSec = env.JWT_CLOCK_SKEW_SEC
+    const verify = () =>
+      verifyJwtFull(
+        accessToken,
+        getPublicKeysForVerification(keystoreManager.getKeystore()),
+        verifyOpts,
+      )
+    try {
+      return (await verify()).claims
+    } catch (error) {
+      // Signed with a key another instance rotated in since our last refresh; unknown kids
+      // can't make us hit the store more than once every few seconds
+      if (!isJwtError(error) || error.code !== JWT_ERRORS.JWT_UNKNOWN_KID) throw error
+      await keystoreManager.refresh({ ifOlderThanMs: 5_000 })
+      return (await verify()).claims
+    }
+  }
+
+  const sessionPolicy: SessionPolicy = {
+    ttlMinutes: env.SESSION_TTL_MINUTES,
+    rolling: env.SESSION_ROLLING,
+  }
+  if (env.SESSION_RENEW_THRESHOLD_MINUTES)
+    sessionPolicy.renewThresholdMinutes = env.SESSION_RENEW_THRESHOLD_MINUTES
+  if (env.SESSION_ABSOLUTE_TTL_MINUTES)
+    sessionPolicy.absoluteTtlMinutes = env.SESSION_ABSOLUTE_TTL_MINUTES
+  if (env.SESSION_IDLE_TIMEOUT_MINUTES)
+    sessionPolicy.idleTimeoutMinutes = env.SESSION_IDLE_TIMEOUT_MINUTES
+
+  // Database session for the request; re-issues the cookie on renewal and clears it on expiry
+  async function currentSession(req: FastifyRequest, reply: FastifyReply) {
+    const { renewed, expired, ...current } = await getCurrentSession(
+      readCookie(req, '__keyloom_session'),
+      baseAdapter,
+      sessionPolicy,
+    )
+    const cookieOpts = env.COOKIE_DOMAIN ? { domain: env.COOKIE_DOMAIN } : {}
+    if (renewed && current.session) {
+      setSessionCookie(reply, current.session.id, {
+        ...cookieOpts,
+        sameSite: env.COOKIE_SAMESITE,
+        maxAge: Math.floor((new Date(current.session.expiresAt).getTime() - Date.now()) / 1000),
+      })
+    } else if (expired) {
+      clearSessionCookie(reply, { ...cookieOpts, sameSite: env.COOKIE_SAMESITE })
+    }
+    return current
+  }
+
+  // Current user for either session strategy
+  async function getUser(req: FastifyRequest, reply: FastifyReply) {
+    if (env.SESSION_STRATEGY === 'jwt') {
+      const claims = await verifyAccessClaims(req).catch(() => null)
+      return claims ? adapter.getUser(claims.sub) : null
+    }
+    const { user } = await currentSession(req, reply)
+    return user
+  }
+
+  // Device metadata recorded on new sessions / refresh tokens
+  function requestMeta(req: FastifyRequest) {
+    const meta: { ip?: string; userAgent?: string } = { ip: req.ip }
+    if (typeof req.headers['user-agent'] === 'string') meta.userAgent = req.headers['user-agent']
+    return meta
+  }
+
+  async function issueJwtLogin(req: FastifyRequest, reply: FastifyReply, userId: string) {
+    const jwtSvc = getJwtService()
+    const tokens = await jwtSvc.issueTokens(userId, requestMeta(req))
+
+    const cookieOpts = env.COOKIE_DOMAIN ? { domain: env.COOKIE_DOMAIN } : {}
+    setJwtCookies(
+      reply,
+      tokens,
+      {
+        accessTTLSec: tokens.accessTTLSec,
+        refreshTTLSec: tokens.refreshTTLSec,
+      },
+      {
+        ...cookieOpts,
+        sameSite: env.COOKIE_SAMESITE,
+      },
+    )
+
+    return {
+      accessToken: tokens.accessToken,
+      userId,
+    }
+  }
+
+  function sendTwoFactorError(reply: FastifyReply, error: unknown) {
+    if (!(error instanceof KeyloomError)) throw error
+    const status =
+      error.code === 'RATE_LIMITED' ? 429 : error.code === 'TWO_FACTOR_PENDING_INVALID' ? 401 : 400
+    return reply.code(status).send({ error: error.code })
+  }
+
+  // A before hook vetoed the action (e.g. sign-up from a blocked domain)
+  function sendHookRejected(reply: FastifyReply, error: unknown) {
+    if (!(error instanceof KeyloomError) || error.code !== ERR.HOOK_REJECTED) throw error
+    return reply.code(403).send({ error: 'hook_rejected', message: error.message })
+  }
+
   app.get('/v1/auth/csrf', async (_req, reply) => {
     const t = csrf.issueCsrfToken()
     reply.header('Set-Cookie', `__keyloom_csrf=${t}; Path=/; SameSite=Lax; HttpOnly; Secure`)
@@ -80,11 +239,6 @@ export function buildServer(env: Env) {
       }>,
       reply: FastifyReply,
     ) => {
-      const ip = req.ip
-      const rlKey = `reg:${ip}`
-      if (!rateLimit.rateLimit(rlKey, { capacity: 5, refillPerSec: 0.2 }))
-        return reply.code(429).send({ error: 'rate_limited' })
-
       const ok = csrf.validateDoubleSubmit({
         cookieToken: req.cookies?.__keyloom_csrf ?? null,
         headerToken: req.headers['x-keyloom-csrf'] as string,
@@ -95,10 +249,15 @@ export function buildServer(env: Env) {
         email: undefined as unknown as string,
         password: undefined as unknown as string,
       }
-      const out = await register(
-        { email, password, requireEmailVerify: false },
-        { adapter: credAdapter, hasher },
-      )
+      let out: Awaited<ReturnType<typeof register>>
+      try {
+        out = await register(
+          { email, password, requireEmailVerify: false, meta: requestMeta(req) },
+          { adapter: credAdapter, hasher, events },
+        )
+      } catch (error) {
+        return sendHookRejected(reply, error)
+      }
       return {
         userId: out.user.id,
         requiresVerification: out.requiresVerification,
@@ -115,11 +274,6 @@ export function buildServer(env: Env) {
       }>,
       reply: FastifyReply,
     ) => {
-      const ip = req.ip
-      const rlKey = `login:${ip}`
-      if (!rateLimit.rateLimit(rlKey, { capacity: 10, refillPerSec: 1 }))
-        return reply.code(429).send({ error: 'rate_limited' })
-
       const ok = csrf.validateDoubleSubmit({
         cookieToken: req.cookies?.__keyloom_csrf ?? null,
         headerToken: req.headers['x-keyloom-csrf'] as string,
@@ -131,42 +285,161 @@ export function buildServer(env: Env) {
         password: undefined as unknown as string,
       }
 
+      let result: Awaited<ReturnType<typeof login>>
+      try {
+        result = await login(
+          { email, password, ttlMinutes: env.SESSION_TTL_MINUTES, meta: requestMeta(req) },
+          { adapter: credAdapter, hasher, events },
+        )
+      } catch (error) {
+        return sendHookRejected(reply, error)
+      }
+      if (result.twoFactorRequired) {
+        // Password accepted; the session is only issued by /v1/auth/2fa/verify
+        const cookieOpts = env.COOKIE_DOMAIN ? { domain: env.COOKIE_DOMAIN } : {}
+        setPendingSecondFactorCookie(reply, result.pendingToken, {
+          ...cookieOpts,
+          sameSite: env.COOKIE_SAMESITE,
+          maxAge: (result.expiresAt.getTime() - Date.now()) / 1000,
+        })
+        return { twoFactorRequired: true }
+      }
+
       if (env.SESSION_STRATEGY === 'jwt') {
         // JWT strategy - issue tokens
-        const { user } = await login({ email, password }, { adapter: credAdapter, hasher })
-        const jwtSvc = getJwtService()
-        const loginMeta: { ip?: string; userAgent?: string } = { ip: req.ip }
-        if (typeof req.headers['user-agent'] === 'string')
-          loginMeta.userAgent = req.headers['user-agent']
-        const tokens = await jwtSvc.issueTokens(user.id, loginMeta)
-
+        return issueJwtLogin(req, reply, result.user.id)
+      } else {
+        // Database strategy - create session
         const cookieOpts = env.COOKIE_DOMAIN ? { domain: env.COOKIE_DOMAIN } : {}
-        setJwtCookies(
-          reply,
-          tokens,
-          {
-            accessTTLSec: tokens.accessTTLSec,
-            refreshTTLSec: tokens.refreshTTLSec,
-          },
-          {
+        setSessionCookie(reply, result.session.id, {
+          ...cookieOpts,
+          sameSite: env.COOKIE_SAMESITE,
+          maxAge: env.SESSION_TTL_MINUTES * 60,
+        })
+        return { sessionId: result.session.id }
+      }
+    },
+  )
+
+  // Second step of login for users with 2FA enabled
+  app.post(
+    '/v1/auth/2fa/verify',
+    async (req: FastifyRequest<{ Body: { code?: string } }>, reply: FastifyReply) => {
+      const ok = csrf.validateDoubleSubmit({
+        cookieToken: req.cookies?.__keyloom_csrf ?? null,
+        headerToken: req.headers['x-keyloom-csrf'] as string,
+      })
+      if (!ok) return reply.code(403).send({ error: 'csrf' })
+
+      const pendingToken = readCookie(req, TWO_FACTOR_COOKIE_NAME)
+      const code = req.body?.code
+      if (!pendingToken || !code) return reply.code(400).send({ error: 'invalid_request' })
+
+      const cookieOpts = env.COOKIE_DOMAIN ? { domain: env.COOKIE_DOMAIN } : {}
+      try {
+        const input = {
+          pendingToken: decodeURIComponent(pendingToken),
+          code: String(code),
+          ttlMinutes: env.SESSION_TTL_MINUTES,
+          meta: requestMeta(req),
+        }
+        const ctx = {
+          adapter: credAdapter,
+          authSecret: env.AUTH_SECRET,
+          events,
+          ...(options.rateLimit ? { rateLimit: options.rateLimit } : {}),
+        }
+        if (env.SESSION_STRATEGY === 'jwt') {
+          const { user } = await verifyPendingSecondFactor(input, ctx)
+          await events.emit(
+            'session.created',
+            { method: 'two_factor' },
+            eventMeta(user.id, input.meta),
+          )
+          setPendingSecondFactorCookie(reply, '', {
             ...cookieOpts,
             sameSite: env.COOKIE_SAMESITE,
-          },
-        )
-
-        return {
-          accessToken: tokens.accessToken,
-          userId: user.id,
+            maxAge: 0,
+          })
+          return issueJwtLogin(req, reply, user.id)
         }
-      } else {
-        // Database strategy - create session
-        const { session } = await login({ email, password }, { adapter: credAdapter, hasher })
-        const cookieOpts = env.COOKIE_DOMAIN ? { domain: env.COOKIE_DOMAIN } : {}
+        const { session } = await completeSecondFactor(input, ctx)
         setSessionCookie(reply, session.id, {
           ...cookieOpts,
           sameSite: env.COOKIE_SAMESITE,
+          maxAge: env.SESSION_TTL_MINUTES * 60,
+        })
+        setPendingSecondFactorCookie(reply, '', {
+          ...cookieOpts,
+          sameSite: env.COOKIE_SAMESITE,
+          maxAge: 0,
         })
         return { sessionId: session.id }
+      } catch (error) {
+        return sendTwoFactorError(reply, error)
+      }
+    },
+  )
+
+  // Enable TOTP: `{}` starts enrollment, `{ enrollmentToken, code }` confirms it
+  app.post(
+    '/v1/account/enable-2fa',
+    async (
+      req: FastifyRequest<{ Body?: { enrollmentToken?: string; code?: string } }>,
+      reply: FastifyReply,
+    ) => {
+      const ok = csrf.validateDoubleSubmit({
+        cookieToken: req.cookies?.__keyloom_csrf ?? null,
+        headerToken: req.headers['x-keyloom-csrf'] as string,
+      })
+      if (!ok) return reply.code(403).send({ error: 'csrf' })
+
+      const user = await getUser(req, reply)
+      if (!user) return reply.code(401).send({ error: 'unauthorized' })
+
+      const { enrollmentToken, code } = req.body ?? {}
+      try {
+        if (!enrollmentToken)
+          return await beginTotpEnrollment(user, { authSecret: env.AUTH_SECRET })
+        if (!code) return reply.code(400).send({ error: 'invalid_request' })
+        const { recoveryCodes } = await confirmTotpEnrollment(
+          { userId: user.id, enrollmentToken, code },
+          { adapter: credAdapter, authSecret: env.AUTH_SECRET },
+        )
+        return { ok: true, recoveryCodes }
+      } catch (error) {
+        return sendTwoFactorError(reply, error)
+      }
+    },
+  )
+
+  // Disable TOTP; requires a current TOTP or recovery code
+  app.post(
+    '/v1/account/disable-2fa',
+    async (req: FastifyRequest<{ Body?: { code?: string } }>, reply: FastifyReply) => {
+      const ok = csrf.validateDoubleSubmit({
+        cookieToken: req.cookies?.__keyloom_csrf ?? null,
+        headerToken: req.headers['x-keyloom-csrf'] as string,
+      })
+      if (!ok) return reply.code(403).send({ error: 'csrf' })
+
+      const user = await getUser(req, reply)
+      if (!user) return reply.code(401).send({ error: 'unauthorized' })
+
+      const code = req.body?.code
+      if (!code) return reply.code(400).send({ error: 'invalid_request' })
+      try {
+        await disableTwoFactor(
+          { userId: user.id, code },
+          {
+            adapter: credAdapter,
+            authSecret: env.AUTH_SECRET,
+            ...(options.rateLimit ? { rateLimit: options.rateLimit } : {}),
+          },
+        )
+        return { ok: true }
+      } catch (error) {
+        return sendTwoFactorError(reply, error)
       }
     },
   )
@@ -236,7 +509,7 @@ export function buildServer(env: Env) {
         .split('; ')
         .find((s) => s.startsWith('__keyloom_session='))
       const sid = cookie?.split('=')[1] ?? null
-      if (sid) await logout(sid, baseAdapter)
+      if (sid) await logout(sid, baseAdapter, events)
       const cookieOpts = env.COOKIE_DOMAIN ? { domain: env.COOKIE_DOMAIN } : {}
       clearSessionCookie(reply, {
         ...cookieOpts,
@@ -247,42 +520,14 @@ export function buildServer(env: Env) {
   })
 
   app.get('/v1/auth/session', async (req: FastifyRequest, reply: FastifyReply) => {
-    // Rate limit session validation; higher threshold than login to fit common polling
-    {
-      const ip = req.ip
-      const rlKey = `session:${ip}`
-      // Example: capacity 60, refill 5 tokens/sec (~300 req/min steady)
-      if (!rateLimit.rateLimit(rlKey, { capacity: 60, refillPerSec: 5 }))
-        return reply.code(429).send({ error: 'rate_limited' })
-    }
-
     if (env.SESSION_STRATEGY === 'jwt') {
       // JWT strategy - verify access token
       try {
-        const { extractAccessToken } = await import('../jwt-cookies')
-        const { verifyJwtFull, getPublicKeysForVerification } = await import('@keyloom/core/jwt')
-        const { getKeystoreManager } = await import('../keystore')
-
-        const accessToken = extractAccessToken(req.headers.authorization, req.headers.cookie)
-        if (!accessToken) {
+        const claims = await verifyAccessClaims(req)
+        if (!claims) {
           return { session: null, user: null }
         }
 
-        const keystoreManager = getKeystoreManager()
-        const keystore = keystoreManager.getKeystore()
-        const publicKeys = getPublicKeysForVerification(keystore)
-
-        const verifyOpts: {
-          clockSkewSec?: number
-          expectedIssuer?: string
-          expectedAudience?: string | string[]
-        } = {}
-        if (env.JWT_ISSUER) verifyOpts.expectedIssuer = env.JWT_ISSUER
-        if (env.JWT_AUDIENCE) verifyOpts.expectedAudience = env.JWT_AUDIENCE
-        if (typeof env.JWT_CLOCK_SKEW_SEC === 'number')
-          verifyOpts.clockSkewSec = env.JWT_CLOCK_SKEW_SEC
-        const { claims } = await verifyJwtFull(accessToken, publicKeys, verifyOpts)
-
         // Get user from database
         const user = await adapter.getUser(claims.sub)
         if (!user) {
@@ -303,11 +548,7 @@ export function buildServer(env: Env) {
       }
     } else {
       // Database strategy - check session
-      const cookie = (req.headers.cookie ?? '')
-        .split('; ')
-        .find((s) => s.startsWith('__keyloom_session='))
-      const sid = cookie?.split('=')[1] ?? null
-      const { session, user } = await getCurrentSession(sid, baseAdapter)
+      const { session, user } = await currentSession(req, reply)
       return {
         session,
         user: user ? { id: user.id, email: user.email } : null,
@@ -315,5 +556,158 @@ export function buildServer(env: Env) {
     }
   })
 
+  // Active sessions of the signed-in user (database strategy only)
+  app.get('/v1/auth/sessions', async (req: FastifyRequest, reply: FastifyReply) => {
+    if (env.SESSION_STRATEGY === 'jwt')
+      return reply.code(400).send({ error: 'unsupported_session_strategy' })
+    const { session, user } = await currentSession(req, reply)
+    if (!session || !user) return reply.code(401).send({ error: 'unauthorized' })
+    return { sessions: await listUserSessions(user.id, session.id, baseAdapter) }
+  })
+
+  // Revoke sessions: `{ id }` one, `{ all: true }` every session, `{}` all but the current one
+  app.delete(
+    '/v1/auth/sessions',
+    async (req: FastifyRequest<{ Body?: { id?: string; all?: boolean } }>, reply: FastifyReply) => {
+      const ok = csrf.validateDoubleSubmit({
+        cookieToken: req.cookies?.__keyloom_csrf ?? null,
+        headerToken: req.headers['x-keyloom-csrf'] as string,
+      })
+      if (!ok) return reply.code(403).send({ error: 'csrf' })
+
+      if (env.SESSION_STRATEGY === 'jwt')
+        return reply.code(400).send({ error: 'unsupported_session_strategy' })
+      const { session, user } = await currentSession(req, reply)
+      if (!session || !user) return reply.code(401).send({ error: 'unauthorized' })
+
+      const cookieOpts = env.COOKIE_DOMAIN ? { domain: env.COOKIE_DOMAIN } : {}
+      const body = req.body ?? {}
+      if (typeof body.id === 'string') {
+        if (!(await revokeUserSession(user.id, body.id, baseAdapter)))
+          return reply.code(404).send({ error: 'session_not_found' })
+        if (!(await baseAdapter.getSession(session.id)))
+          clearSessionCookie(reply, { ...cookieOpts, sameSite: env.COOKIE_SAMESITE })
+        return { ok: true, revoked: 1 }
+      }
+      if (body.all === true) {
+        const revoked = await revokeUserSessions(user.id, baseAdapter)
+        clearSessionCookie(reply, { ...cookieOpts, sameSite: env.COOKIE_SAMESITE })
+        return { ok: true, revoked }
+      }
+      return { ok: true, revoked: await revokeUserSessions(user.id, baseAdapter, session.id) }
+    },
+  )
+
+  // Linked OAuth accounts of the signed-in user
+  app.get('/v1/auth/accounts', async (req: FastifyRequest, reply: FastifyReply) => {
+    const user = await getUser(req, reply)
+    if (!user) return reply.code(401).send({ error: 'unauthorized' })
+    return { accounts: await listLinkedAccounts(user.id, adapter) }
+  })
+
+  // Unlink an account; refused while it is the user's only way to sign in
+  app.delete(
+    '/v1/auth/accounts/:id',
+    async (req: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      const ok = csrf.validateDoubleSubmit({
+        cookieToken: req.cookies?.__keyloom_csrf ?? null,
+        headerToken: req.headers['x-keyloom-csrf'] as string,
+      })
+      if (!ok) return reply.code(403).send({ error: 'csrf' })
+
+      const user = await getUser(req, reply)
+      if (!user) return reply.code(401).send({ error: 'unauthorized' })
+      try {
+        const unlinked = await unlinkUserAccount(user.id, req.params.id, {
+          adapter,
+          events,
+          meta: requestMeta(req),
+        })
+        if (!unlinked) return reply.code(404).send({ error: 'account_not_found' })
+        return { ok: true }
+      } catch (e) {
+        if (e instanceof KeyloomError && e.code === ERR.LAST_SIGN_IN_METHOD)
+          return reply.code(409).send({ error: 'last_sign_in_method' })
+        throw e
+      }
+    },
+  )
+
+  // Personal API keys of the signed-in user
+  app.get('/v1/auth/api-keys', async (req: FastifyRequest, reply: FastifyReply) => {
+    const user = await getUser(req, reply)
+    if (!user) return reply.code(401).send({ error: 'unauthorized' })
+    return { apiKeys: (await listApiKeys({ userId: user.id }, adapter)).map(apiKeyJson) }
+  })
+
+  // Create a key: `{ name, permissions?, role?, expiresAt? }`; the plaintext `key` is only returned here
+  app.post(
+    '/v1/auth/api-keys',
+    async (
+      req: FastifyRequest<{
+        Body: { name: string; permissions?: string[]; role?: string; expiresAt?: string }
+      }>,
+      reply: FastifyReply,
+    ) => {
+      const ok = csrf.validateDoubleSubmit({
+        cookieToken: req.cookies?.__keyloom_csrf ?? null,
+        headerToken: req.headers['x-keyloom-csrf'] as string,
+      })
+      if (!ok) return reply.code(403).send({ error: 'csrf' })
+
+      const user = await getUser(req, reply)
+      if (!user) return reply.code(401).send({ error: 'unauthorized' })
+      const { name, permissions, role, expiresAt } = req.body ?? ({} as typeof req.body)
+      try {
+        const created = await createApiKey(
+          {
+            name,
+            userId: user.id,
+            ...(permissions ? { permissions } : {}),
+            ...(role ? { role } : {}),
+            expiresAt: expiresAt ? new Date(expiresAt) : null,
+          },
+          { adapter, secret: env.AUTH_SECRET, rbac: options.rbac ?? null },
+        )
+        return reply.code(201).send({ ...apiKeyJson(created.apiKey), key: created.key })
+      } catch (e) {
+        if (e instanceof KeyloomError)
+          return reply.code(400).send({ error: e.code.toLowerCase(), message: e.message })
+        throw e
+      }
+    },
+  )
+
+  app.delete(
+    '/v1/auth/api-keys/:id',
+    async (req: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      const ok = csrf.validateDoubleSubmit({
+        cookieToken: req.cookies?.__keyloom_csrf ?? null,
+        headerToken: req.headers['x-keyloom-csrf'] as string,
+      })
+      if (!ok) return reply.code(403).send({ error: 'csrf' })
+
+      const user = await getUser(req, reply)
+      if (!user) return reply.code(401).send({ error: 'unauthorized' })
+      if (!(await revokeApiKey({ userId: user.id }, req.params.id, adapter)))
+        return reply.code(404).send({ error: 'api_key_not_found' })
+      return { ok: true }
+    },
+  )
+
+  registerPluginRoutes(app, options.plugins ?? [], {
+    adapter,
+    config: {
+      secrets: { authSecret: env.AUTH_SECRET },
+      session: { ttlMinutes: env.SESSION_TTL_MINUTES },
+      cookie: {
+        sameSite: env.COOKIE_SAMESITE,
+        ...(env.COOKIE_DOMAIN ? { domain: env.COOKIE_DOMAIN } : {}),
+      },
+      ...(options.hooks ? { hooks: options.hooks } : {}),
+      ...(options.rbac ? { rbac: options.rbac } : {}),
+    },
+  })
+
   return app
 }
@@ -1,13 +1,42 @@
+import { Readable } from 'node:stream'
 import { PrismaAdapter } from '@keyloom/adapters'
+import {
+  AUDIT_EXPORT_CONTENT_TYPES,
+  type AuditQuery,
+  acceptInvite,
+  activeMemberRole,
+  addOrgMember,
+  createOrgInvite,
+  deleteOrganization,
+  ERR,
+  formatAuditExport,
+  iterateAudit,
+  KeyloomError,
+  leaveOrganization,
+  type RbacConfig,
+  restoreOrganization,
+  transferOrgOwnership,
+  updateOrganization,
+} from '@keyloom/core'
+import { apiKeyJson, createApiKey, listApiKeys, revokeApiKey } from '@keyloom/core/api-keys'
 import { getCurrentSession } from '@keyloom/core/runtime/current-session'
 import { tokenHash } from '@keyloom/core/crypto/token-hash'
+import { createEventBus, type HooksConfig } from '@keyloom/core/events'
+import type { RateLimitConfig } from '@keyloom/core/guard/rate-limit'
 import * as Prisma from '@prisma/client'
 import Fastify, { type FastifyReply, type FastifyRequest } from 'fastify'
+import type { Env } from '../env'
+import { registerRateLimit } from '../rate-limit'
 
-export function buildOrgsServer(env: { AUTH_SECRET: string }) {
-  const app = Fastify({ trustProxy: true })
+export function buildOrgsServer(
+  env: Pick<Env, 'AUTH_SECRET'> & Partial<Pick<Env, 'TRUSTED_PROXIES'>>,
+  options: { hooks?: HooksConfig; rbac?: RbacConfig; rateLimit?: RateLimitConfig } = {},
+) {
+  const app = Fastify({ trustProxy: env.TRUSTED_PROXIES ?? false })
+  registerRateLimit(app, options.rateLimit)
   const db = new (Prisma as any).PrismaClient()
   const adapter: any = PrismaAdapter(db) as any
+  const events = createEventBus({ hooks: options.hooks, adapter })
 
   async function issueInviteTokenLocal(
     _email: string,
@@ -23,6 +52,20 @@ export function buildOrgsServer(env: { AUTH_SECRET: string }) {
     return { token, tokenHash: hash, expiresAt }
   }
 
+  const ORG_ERROR_STATUS: Record<string, number> = {
+    [ERR.ORG_NOT_FOUND]: 404,
+    [ERR.ORG_MEMBER_NOT_FOUND]: 404,
+    [ERR.ORG_LAST_OWNER]: 409,
+    [ERR.SEAT_LIMIT_REACHED]: 402,
+  }
+
+  function sendOrgError(reply: FastifyReply, e: unknown) {
+    if (!(e instanceof KeyloomError)) throw e
+    return reply
+      .code(ORG_ERROR_STATUS[e.code] ?? 400)
+      .send({ error: e.code.toLowerCase(), message: e.message })
+  }
+
   async function getUser(req: FastifyRequest) {
     const cookie = (req.headers.cookie ?? '')
       .split('; ')
@@ -50,6 +93,11 @@ export function buildOrgsServer(env: { AUTH_SECRET: string }) {
         orgId: org.id,
         role: 'owner',
       })
+      await events.emit(
+        'rbac.role.assigned',
+        { orgId: org.id, role: 'owner' },
+        { userId: user.id, orgId: org.id },
+      )
       return org
     },
   )
@@ -75,16 +123,25 @@ export function buildOrgsServer(env: { AUTH_SECRET: string }) {
       const user = await getUser(req)
       if (!user) return reply.code(401).send({ error: 'unauthorized' })
       const { id: orgId } = req.params
-      const m = await (adapter as any).getMembership(user.id, orgId)
-      if (!m || !['owner', 'admin'].includes(m.role))
+      const memberRole = activeMemberRole(await (adapter as any).getMembership(user.id, orgId))
+      if (!memberRole || !['owner', 'admin'].includes(memberRole))
         return reply.code(403).send({ error: 'forbidden' })
 
       if (req.body.userId) {
-        const mm = await (adapter as any).addMember({
-          userId: req.body.userId,
-          orgId,
-          role: req.body.role,
-        })
+        let mm: unknown
+        try {
+          mm = await addOrgMember(
+            { userId: req.body.userId, orgId, role: req.body.role },
+            { adapter, rbac: options.rbac },
+          )
+        } catch (e) {
+          return sendOrgError(reply, e)
+        }
+        await events.emit(
+          'rbac.role.assigned',
+          { orgId, role: req.body.role },
+          { userId: req.body.userId, actorId: user.id, orgId },
+        )
         return mm
       }
       if (req.body.email) {
@@ -95,13 +152,15 @@ export function buildOrgsServer(env: { AUTH_SECRET: string }) {
           req.body.role,
           env.AUTH_SECRET,
         )
-        const inv = await (adapter as any).createInvite({
-          orgId,
-          email: req.body.email,
-          role: req.body.role,
-          tokenHash,
-          expiresAt,
-        })
+        let inv: { id: string }
+        try {
+          inv = await createOrgInvite(
+            { orgId, email: req.body.email, role: req.body.role, tokenHash, expiresAt },
+            { adapter, rbac: options.rbac },
+          )
+        } catch (e) {
+          return sendOrgError(reply, e)
+        }
         // For dev: return the raw token to construct a link
         return { inviteId: inv.id, token }
       }
@@ -119,10 +178,255 @@ export function buildOrgsServer(env: { AUTH_SECRET: string }) {
       const user = await getUser(req)
       if (!user) return reply.code(401).send({ error: 'unauthorized' })
       const { id: orgId, memberId } = req.params
-      const m = await (adapter as any).getMembership(user.id, orgId)
-      if (!m || !['owner', 'admin'].includes(m.role))
+      const memberRole = activeMemberRole(await (adapter as any).getMembership(user.id, orgId))
+      if (!memberRole || !['owner', 'admin'].includes(memberRole))
         return reply.code(403).send({ error: 'forbidden' })
       await (adapter as any).removeMember(memberId)
+      await events.emit('rbac.role.revoked', { orgId }, { actorId: user.id, orgId })
+      return { ok: true }
+    },
+  )
+
+  // Rename or re-slug an org (owner/admin)
+  app.patch(
+    '/v1/orgs/:id',
+    async (
+      req: FastifyRequest<{
+        Params: { id: string }
+        Body: { name?: string; slug?: string | null }
+      }>,
+      reply: FastifyReply,
+    ) => {
+      const user = await getUser(req)
+      if (!user) return reply.code(401).send({ error: 'unauthorized' })
+      const { id: orgId } = req.params
+      const memberRole = activeMemberRole(await (adapter as any).getMembership(user.id, orgId))
+      if (!memberRole || !['owner', 'admin'].includes(memberRole))
+        return reply.code(403).send({ error: 'forbidden' })
+      const { name, slug } = req.body ?? {}
+      try {
+        return await updateOrganization(
+          orgId,
+          { ...(name !== undefined ? { name } : {}), ...(slug !== undefined ? { slug } : {}) },
+          { adapter },
+        )
+      } catch (e) {
+        return sendOrgError(reply, e)
+      }
+    },
+  )
+
+  // Delete an org (owner). With `rbac.orgDeletion.gracePeriodDays` it can be restored until `purgeAt`
+  app.delete(
+    '/v1/orgs/:id',
+    async (req: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      const user = await getUser(req)
+      if (!user) return reply.code(401).send({ error: 'unauthorized' })
+      const { id: orgId } = req.params
+      const memberRole = activeMemberRole(await (adapter as any).getMembership(user.id, orgId))
+      if (memberRole !== 'owner') return reply.code(403).send({ error: 'forbidden' })
+      try {
+        const { purgeAt } = await deleteOrganization(orgId, { adapter, rbac: options.rbac ?? null })
+        return { ok: true, purgeAt }
+      } catch (e) {
+        return sendOrgError(reply, e)
+      }
+    },
+  )
+
+  app.post(
+    '/v1/orgs/:id/restore',
+    async (req: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      const user = await getUser(req)
+      if (!user) return reply.code(401).send({ error: 'unauthorized' })
+      const { id: orgId } = req.params
+      const memberRole = activeMemberRole(await (adapter as any).getMembership(user.id, orgId))
+      if (memberRole !== 'owner') return reply.code(403).send({ error: 'forbidden' })
+      try {
+        return await restoreOrganization(orgId, { adapter })
+      } catch (e) {
+        return sendOrgError(reply, e)
+      }
+    },
+  )
+
+  // Hand ownership to another member (owner); the caller becomes `demoteTo` (default admin)
+  app.post(
+    '/v1/orgs/:id/transfer',
+    async (
+      req: FastifyRequest<{ Params: { id: string }; Body: { userId: string; demoteTo?: string } }>,
+      reply: FastifyReply,
+    ) => {
+      const user = await getUser(req)
+      if (!user) return reply.code(401).send({ error: 'unauthorized' })
+      const { id: orgId } = req.params
+      const { userId, demoteTo } = req.body ?? ({} as typeof req.body)
+      try {
+        const { from, to } = await transferOrgOwnership(
+          orgId,
+          { fromUserId: user.id, toUserId: userId, ...(demoteTo ? { demoteTo } : {}) },
+          { adapter },
+        )
+        await events.emit(
+          'rbac.role.assigned',
+          { orgId, role: to.role },
+          { userId: to.userId, actorId: user.id, orgId },
+        )
+        await events.emit(
+          'rbac.role.assigned',
+          { orgId, role: from.role },
+          { userId: from.userId, actorId: user.id, orgId },
+        )
+        return { ok: true }
+      } catch (e) {
+        return sendOrgError(reply, e)
+      }
+    },
+  )
+
+  // Leave an org; the last owner must transfer ownership or delete the org instead
+  app.post(
+    '/v1/orgs/:id/leave',
+    async (req: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      const user = await getUser(req)
+      if (!user) return reply.code(401).send({ error: 'unauthorized' })
+      const { id: orgId } = req.params
+      try {
+        await leaveOrganization(orgId, user.id, { adapter })
+        await events.emit('rbac.role.revoked', { orgId }, { userId: user.id, orgId })
+        return { ok: true }
+      } catch (e) {
+        return sendOrgError(reply, e)
+      }
+    },
+  )
+
+  // Audit log (owner/admin); `format=csv|ndjson` streams the full matching log
+  app.get(
+    '/v1/orgs/:id/audit',
+    async (
+      req: FastifyRequest<{
+        Params: { id: string }
+        Querystring: {
+          userId?: string
+          type?: string
+          since?: string
+          until?: string
+          cursor?: string
+          limit?: string
+          format?: string
+        }
+      }>,
+      reply: FastifyReply,
+    ) => {
+      const user = await getUser(req)
+      if (!user) return reply.code(401).send({ error: 'unauthorized' })
+      const { id: orgId } = req.params
+      const memberRole = activeMemberRole(await (adapter as any).getMembership(user.id, orgId))
+      if (!memberRole || !['owner', 'admin'].includes(memberRole))
+        return reply.code(403).send({ error: 'forbidden' })
+
+      const q = req.query
+      const since = q.since ? new Date(q.since) : undefined
+      const until = q.until ? new Date(q.until) : undefined
+      if (Number.isNaN(since?.getTime()) || Number.isNaN(until?.getTime()))
+        return reply.code(400).send({ error: 'invalid_request' })
+      const types = q.type?.split(',').filter(Boolean)
+      const filters: AuditQuery = {
+        orgId,
+        ...(q.userId ? { userId: q.userId } : {}),
+        ...(types?.length ? { type: types } : {}),
+        ...(since ? { since } : {}),
+        ...(until ? { until } : {}),
+      }
+
+      if (q.format === 'csv' || q.format === 'ndjson') {
+        const name = `audit-${orgId}-${new Date().toISOString().slice(0, 10)}.${q.format}`
+        return reply
+          .header('Content-Type', AUDIT_EXPORT_CONTENT_TYPES[q.format])
+          .header('Content-Disposition', `attachment; filename="${name}"`)
+          .header('Cache-Control', 'no-store')
+          .send(Readable.from(formatAuditExport(iterateAudit(adapter, filters), q.format)))
+      }
+      if (q.format) return reply.code(400).send({ error: 'unsupported_format' })
+
+      try {
+        return await adapter.listAudit({
+          ...filters,
+          ...(q.cursor ? { cursor: q.cursor } : {}),
+          ...(Number(q.limit) > 0 ? { limit: Number(q.limit) } : {}),
+        })
+      } catch (e) {
+        if (e instanceof KeyloomError && e.code === ERR.INVALID_CURSOR)
+          return reply.code(400).send({ error: 'invalid_cursor' })
+        throw e
+      }
+    },
+  )
+
+  // Org API keys (owner/admin). Keys are scoped to the org and limited to the creator's permissions
+  app.get(
+    '/v1/orgs/:id/api-keys',
+    async (req: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      const user = await getUser(req)
+      if (!user) return reply.code(401).send({ error: 'unauthorized' })
+      const { id: orgId } = req.params
+      const memberRole = activeMemberRole(await (adapter as any).getMembership(user.id, orgId))
+      if (!memberRole || !['owner', 'admin'].includes(memberRole))
+        return reply.code(403).send({ error: 'forbidden' })
+      return { apiKeys: (await listApiKeys({ orgId }, adapter)).map(apiKeyJson) }
+    },
+  )
+
+  app.post(
+    '/v1/orgs/:id/api-keys',
+    async (
+      req: FastifyRequest<{
+        Params: { id: string }
+        Body: { name: string; permissions?: string[]; role?: string; expiresAt?: string }
+      }>,
+      reply: FastifyReply,
+    ) => {
+      const user = await getUser(req)
+      if (!user) return reply.code(401).send({ error: 'unauthorized' })
+      const { id: orgId } = req.params
+      const memberRole = activeMemberRole(await (adapter as any).getMembership(user.id, orgId))
+      if (!memberRole || !['owner', 'admin'].includes(memberRole))
+        return reply.code(403).send({ error: 'forbidden' })
+
+      const { name, permissions, role, expiresAt } = req.body ?? ({} as typeof req.body)
+      try {
+        const created = await createApiKey(
+          {
+            name,
+            userId: user.id,
+            orgId,
+            ...(permissions ? { permissions } : {}),
+            ...(role ? { role } : {}),
+            expiresAt: expiresAt ? new Date(expiresAt) : null,
+          },
+          { adapter, secret: env.AUTH_SECRET, rbac: options.rbac ?? null },
+        )
+        return reply.code(201).send({ ...apiKeyJson(created.apiKey), key: created.key })
+      } catch (e) {
+        if (e instanceof KeyloomError)
+          return reply.code(400).send({ error: e.code.toLowerCase(), message: e.message })
+        throw e
+      }
+    },
+  )
+
+  app.delete(
+    '/v1/orgs/:id/api-keys/:keyId',
+    async (req: FastifyRequest<{ Params: { id: string; keyId: string } }>, reply: FastifyReply) => {
+      const user = await getUser(req)
+      if (!user) return reply.code(401).send({ error: 'unauthorized' })
+      const { id: orgId, keyId } = req.params
+      const memberRole = activeMemberRole(await (adapter as any).getMembership(user.id, orgId))
+      if (!memberRole || !['owner', 'admin'].includes(memberRole))
+        return reply.code(403).send({ error: 'forbidden' })
+      if (!(await revokeApiKey({ orgId }, keyId, adapter)))
+        return reply.code(404).send({ error: 'api_key_not_found' })
       return { ok: true }
     },
   )
@@ -137,16 +441,23 @@ export function buildOrgsServer(env: { AUTH_SECRET: string }) {
       const user = await getUser(req)
       if (!user) return reply.code(401).send({ error: 'unauthorized' })
       const { orgId, token } = req.body
-      const hash = await tokenHash(token, env.AUTH_SECRET)
-      const inv = await (adapter as any).getInviteByTokenHash(orgId, hash)
-      if (!inv || inv.expiresAt < new Date())
+      try {
+        await acceptInvite({
+          adapter,
+          orgId,
+          token,
+          userId: user.id,
+          secret: env.AUTH_SECRET,
+          rbac: options.rbac,
+          events,
+        })
+      } catch (e) {
+        if (e instanceof KeyloomError) return sendOrgError(reply, e)
+        // invite_not_found, invite_expired, invite_already_used, rate_limited
+        const code = e instanceof Error ? e.message : ''
+        if (code === 'rate_limited') return reply.code(429).send({ error: code })
         return reply.code(400).send({ error: 'invalid_token' })
-      await (adapter as any).consumeInvite(inv.id)
-      await (adapter as any).addMember({
-        userId: user.id,
-        orgId,
-        role: inv.role,
-      })
+      }
       return { ok: true }
     },
   )
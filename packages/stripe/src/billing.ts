@@ -0,0 +1,299 @@
+/**
+ * Billing routes for Stripe integration
+ *
+ * This module is a Keyloom plugin that adds hosted Checkout and Customer Portal routes for
+ * the signed-in user's organization. Each org gets one Stripe customer, stored on the org as
+ * `billingCustomerId`, so the entitlement sync can map its subscription back to the org.
+ */
+
+import {
+  type Adapter,
+  COOKIE_NAME,
+  evaluate,
+  getCurrentSession,
+  type ID,
+  isPolicyConfigured,
+  type KeyloomConfig,
+  needsEntitlements,
+  ORG_COOKIE_NAME,
+  type Organization,
+  type RbacAdapter,
+  resolveOrgRbac,
+} from '@keyloom/core'
+import type { KeyloomPlugin, NextRoute } from '@keyloom/core/plugins'
+import type Stripe from 'stripe'
+import { normalizeStripeError } from './errors'
+
+/**
+ * A plan offered to organizations
+ */
+export type BillingPlan = {
+  /** Id the client sends to start Checkout */
+  id: string
+  name: string
+  description?: string
+  /** Stripe price the plan is billed with */
+  priceId: string
+  /** Feature names listed for the plan in the UI */
+  features?: string[]
+}
+
+/**
+ * A plan as shown by the UI (`OrganizationBillingConfig.plans`); `price` is in major units
+ */
+export type BillingPlanView = {
+  id: string
+  name: string
+  description?: string
+  price: number
+  currency: string
+  interval: 'month' | 'year'
+  features: string[]
+}
+
+/**
+ * Configuration for the billing routes
+ */
+export type StripeBillingPluginOptions = {
+  plans: BillingPlan[]
+  /** Org permission needed to start Checkout or open the portal (default `billing:manage`) */
+  permission?: string
+  /** Roles allowed when `rbac` defines no permissions (default `['owner']`) */
+  roles?: string[]
+  /** Where the routes live (default `/api/auth/billing`); matched against the end of the path */
+  basePath?: string
+  /** Checkout redirects; default to `${baseUrl}/org/billing` */
+  successUrl?: string
+  cancelUrl?: string
+  /** Where the portal's "back" link goes (default `${baseUrl}/org/billing`) */
+  returnUrl?: string
+  /** Free trial for new subscriptions, in days */
+  trialDays?: number
+  /** Subscription metadata key carrying the org id (default `keyloomOrgId`, as the entitlement sync) */
+  orgMetadataKey?: string
+}
+
+type BillingAdapter = Adapter & RbacAdapter
+type RouteCtx = { config: KeyloomConfig; adapter: BillingAdapter }
+
+// Stripe amounts in these currencies have no minor unit
+const ZERO_DECIMAL = new Set(
+  'bif clp djf gnf jpy kmf krw mga pyg rwf ugx vnd vuv xaf xof xpf'.split(' '),
+)
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json' } })
+
+const escapeRegex = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+function readCookie(header: string | null, name: string) {
+  if (!header) return null
+  for (const part of header.split(/;\s*/)) {
+    const eq = part.indexOf('=')
+    if (eq > 0 && part.slice(0, eq) === name) return decodeURIComponent(part.slice(eq + 1))
+  }
+  return null
+}
+
+async function readJson(req: Request): Promise<Record<string, any>> {
+  try {
+    const body = await req.json()
+    return body && typeof body === 'object' ? body : {}
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Describe `plans` the way the UI expects, with amount, currency and interval from Stripe
+ */
+export async function billingPlanViews(
+  stripe: Stripe,
+  plans: BillingPlan[],
+): Promise<BillingPlanView[]> {
+  return Promise.all(
+    plans.map(async (plan) => {
+      const price = await stripe.prices.retrieve(plan.priceId)
+      const amount = price.unit_amount ?? 0
+      return {
+        id: plan.id,
+        name: plan.name,
+        ...(plan.description ? { description: plan.description } : {}),
+        price: ZERO_DECIMAL.has(price.currency) ? amount : amount / 100,
+        currency: price.currency,
+        interval: price.recurring?.interval === 'year' ? 'year' : 'month',
+        features: plan.features ?? [],
+      } satisfies BillingPlanView
+    }),
+  )
+}
+
+/**
+ * The org's Stripe customer, created on first use and stored as `billingCustomerId`
+ */
+export async function ensureOrgCustomer(
+  stripe: Stripe,
+  org: Organization,
+  ctx: {
+    adapter: Pick<RbacAdapter, 'updateOrganization'>
+    email?: string | null
+    orgMetadataKey?: string
+  },
+): Promise<string> {
+  if (org.billingCustomerId) return org.billingCustomerId
+  const customer = await stripe.customers.create(
+    {
+      name: org.name,
+      ...(ctx.email ? { email: ctx.email } : {}),
+      metadata: { [ctx.orgMetadataKey ?? 'keyloomOrgId']: org.id },
+    },
+    // Concurrent first requests get the same customer back
+    { idempotencyKey: `keyloom-org-customer-${org.id}` },
+  )
+  await ctx.adapter.updateOrganization(org.id, { billingCustomerId: customer.id })
+  return customer.id
+}
+
+/**
+ * Create the billing plugin
+ *
+ * @example
+ * ```typescript
+ * import { createStripeBillingPlugin } from '@keyloom/stripe/billing'
+ *
+ * export default defineKeyloom({
+ *   plugins: [
+ *     createStripeBillingPlugin(stripe, {
+ *       plans: [{ id: 'pro', name: 'Pro', priceId: 'price_123', features: ['SSO'] }],
+ *     }),
+ *   ],
+ * })
+ * ```
+ */
+export function createStripeBillingPlugin(
+  stripe: Stripe,
+  options: StripeBillingPluginOptions,
+): KeyloomPlugin {
+  const permission = options.permission ?? 'billing:manage'
+  const base = escapeRegex((options.basePath ?? '/api/auth/billing').replace(/\/$/, ''))
+  const orgMetadataKey = options.orgMetadataKey ?? 'keyloomOrgId'
+
+  // Prices are read from Stripe once; a failed read is retried on the next request
+  let planViews: Promise<BillingPlanView[]> | null = null
+
+  const guarded =
+    (fn: (req: Request, ctx: RouteCtx) => Promise<Response>) =>
+    async (req: unknown, ctx: { config: unknown; adapter: unknown }) => {
+      try {
+        return await fn(req as Request, ctx as RouteCtx)
+      } catch (e) {
+        const error = normalizeStripeError(e)
+        return json({ error: error.type, message: error.message }, 502)
+      }
+    }
+
+  const billingUrl = (config: KeyloomConfig, url?: string) =>
+    url ?? `${(config.baseUrl ?? '').replace(/\/$/, '')}/org/billing`
+
+  /** The signed-in user and the org they may bill for, or an error response */
+  async function authorize(req: Request, { config, adapter }: RouteCtx, body: Record<string, any>) {
+    const cookies = req.headers.get('cookie')
+    const { session, user } = await getCurrentSession(readCookie(cookies, COOKIE_NAME), adapter)
+    if (!session || !user || session.expiresAt.getTime() < Date.now())
+      return { error: json({ error: 'unauthorized' }, 401) }
+    const orgId: ID | null =
+      typeof body.orgId === 'string' ? body.orgId : readCookie(cookies, ORG_COOKIE_NAME)
+    if (!orgId) return { error: json({ error: 'select_org' }, 400) }
+    const org = await adapter.getOrganization(orgId)
+    const membership = org ? await adapter.getMembership(user.id, orgId) : null
+    if (!org || !membership) return { error: json({ error: 'forbidden' }, 403) }
+
+    const rbac = await resolveOrgRbac(orgId, { rbac: config.rbac, adapter })
+    const allowed = isPolicyConfigured(rbac)
+      ? evaluate(
+          {
+            userId: user.id,
+            role: membership.role,
+            entitlements: needsEntitlements(rbac) ? await adapter.getEntitlements(orgId) : null,
+          },
+          permission,
+          {},
+          rbac,
+        ).allowed
+      : (options.roles ?? ['owner']).includes(membership.role)
+    if (!allowed) return { error: json({ error: 'forbidden' }, 403) }
+    return { user, org }
+  }
+
+  const routes: NextRoute[] = [
+    {
+      method: 'GET',
+      kind: 'billing_plans',
+      path: new RegExp(`${base}/plans$`),
+      handler: guarded(async () => {
+        planViews ??= billingPlanViews(stripe, options.plans).catch((e) => {
+          planViews = null
+          throw e
+        })
+        return json({ plans: await planViews })
+      }),
+    },
+    {
+      method: 'POST',
+      kind: 'billing_checkout',
+      path: new RegExp(`${base}/checkout$`),
+      handler: guarded(async (req, ctx) => {
+        const body = await readJson(req)
+        const auth = await authorize(req, ctx, body)
+        if (auth.error) return auth.error
+        const { config, adapter } = ctx
+        const plan = options.plans.find((p) => p.id === body.planId)
+        if (!plan) return json({ error: 'unknown_plan' }, 400)
+        const quantity =
+          Number.isInteger(body.quantity) && body.quantity > 0 ? (body.quantity as number) : 1
+
+        const customer = await ensureOrgCustomer(stripe, auth.org, {
+          adapter,
+          email: auth.user.email,
+          orgMetadataKey,
+        })
+        const session = await stripe.checkout.sessions.create({
+          mode: 'subscription',
+          customer,
+          client_reference_id: auth.org.id,
+          line_items: [{ price: plan.priceId, quantity }],
+          subscription_data: {
+            metadata: { [orgMetadataKey]: auth.org.id },
+            ...(options.trialDays ? { trial_period_days: options.trialDays } : {}),
+          },
+          success_url: billingUrl(config, options.successUrl),
+          cancel_url: billingUrl(config, options.cancelUrl),
+        })
+        return json({ url: session.url })
+      }),
+    },
+    {
+      method: 'POST',
+      kind: 'billing_portal',
+      path: new RegExp(`${base}/portal$`),
+      handler: guarded(async (req, ctx) => {
+        const body = await readJson(req)
+        const auth = await authorize(req, ctx, body)
+        if (auth.error) return auth.error
+        const { config, adapter } = ctx
+        const customer = await ensureOrgCustomer(stripe, auth.org, {
+          adapter,
+          email: auth.user.email,
+          orgMetadataKey,
+        })
+        const session = await stripe.billingPortal.sessions.create({
+          customer,
+          return_url: billingUrl(config, options.returnUrl),
+        })
+        return json({ url: session.url })
+      }),
+    },
+  ]
+
+  return { name: 'stripe-billing', nextRoutes: () => routes }
+}
@@ -0,0 +1,192 @@
+/**
+ * Entitlement sync for Stripe integration
+ *
+ * This module keeps each organization's Keyloom entitlements in step with its Stripe
+ * subscription. Prices (or products) map to a plan's entitlements and webhook events
+ * rewrite the org's entitlements from the subscription they carry.
+ */
+
+import type { Entitlements, RbacAdapter } from '@keyloom/core'
+import type Stripe from 'stripe'
+import type { WebhookHandler } from './types'
+
+/**
+ * What a price or product grants; `validUntil` comes from the subscription period
+ */
+export type PlanEntitlements = Omit<Entitlements, 'validUntil'>
+
+/**
+ * Configuration for syncing subscriptions to entitlements
+ */
+export interface EntitlementSyncConfig {
+  /** Adapter holding organizations and their entitlements */
+  adapter: Pick<
+    RbacAdapter,
+    | 'getOrganization'
+    | 'getOrganizationByBillingCustomerId'
+    | 'updateOrganization'
+    | 'getEntitlements'
+    | 'setEntitlements'
+  >
+  /** Entitlements by Stripe price ID or product ID (a price match wins) */
+  plans: Record<string, PlanEntitlements>
+  /** Entitlements once a subscription ends or lapses (default: `{ plan: 'FREE' }`) */
+  fallback?: Entitlements
+  /** Subscription statuses that grant the plan (default: active, trialing, past_due) */
+  activeStatuses?: Stripe.Subscription.Status[]
+  /** Subscription metadata key holding the Keyloom org ID (default: `keyloomOrgId`) */
+  orgMetadataKey?: string
+}
+
+/**
+ * Result of syncing one subscription
+ */
+export interface EntitlementSyncResult {
+  orgId: string
+  entitlements: Entitlements
+  /** False when the org already had these entitlements */
+  changed: boolean
+}
+
+const DEFAULT_ACTIVE_STATUSES: Stripe.Subscription.Status[] = ['active', 'trialing', 'past_due']
+
+const idOf = (ref: string | { id: string } | null | undefined) =>
+  typeof ref === 'string' ? ref : (ref?.id ?? null)
+
+/**
+ * Work out the entitlements a subscription grants
+ *
+ * Every item whose price or product is in `plans` contributes: the first one sets `plan` and
+ * `seats`, features and limits are merged. A plan without `seats` takes the item's quantity,
+ * so per-seat prices work as-is. Ended or unmapped subscriptions get `fallback`.
+ *
+ * @param subscription - Stripe subscription
+ * @param config - Sync configuration
+ * @returns The org's entitlements
+ */
+export function entitlementsFromSubscription(
+  subscription: Stripe.Subscription,
+  config: Pick<EntitlementSyncConfig, 'plans' | 'fallback' | 'activeStatuses'>,
+): Entitlements {
+  const fallback = config.fallback ?? { plan: 'FREE' }
+  const statuses = config.activeStatuses ?? DEFAULT_ACTIVE_STATUSES
+  if (!statuses.includes(subscription.status)) return fallback
+
+  const matched = subscription.items.data.flatMap((item) => {
+    const plan = config.plans[item.price.id] ?? config.plans[idOf(item.price.product) ?? '']
+    return plan ? [{ plan, quantity: item.quantity }] : []
+  })
+  const [first] = matched
+  if (!first) return fallback
+
+  const result: Entitlements = {}
+  if (first.plan.plan !== undefined) result.plan = first.plan.plan
+  const seats = first.plan.seats ?? first.quantity
+  if (seats !== undefined) result.seats = seats
+  for (const { plan } of matched) {
+    if (plan.features) result.features = { ...result.features, ...plan.features }
+    if (plan.limits) result.limits = { ...result.limits, ...plan.limits }
+  }
+  const end = subscription.cancel_at ?? subscription.current_period_end
+  result.validUntil = end ? new Date(end * 1000) : null
+  return result
+}
+
+/**
+ * Write a subscription's entitlements to its organization
+ *
+ * The org is found from `metadata[orgMetadataKey]` on the subscription, then from the stored
+ * billing customer ID. The customer ID is saved on the org the first time it is seen, so later
+ * events without metadata (e.g. from the billing portal) still resolve. Writing the same
+ * subscription twice is a no-op.
+ *
+ * @param subscription - Stripe subscription, as carried by the webhook event
+ * @param config - Sync configuration
+ * @returns The sync result, or null if no organization matches
+ */
+export async function syncSubscriptionEntitlements(
+  subscription: Stripe.Subscription,
+  config: EntitlementSyncConfig,
+): Promise<EntitlementSyncResult | null> {
+  const { adapter } = config
+  const customerId = idOf(subscription.customer)
+  const orgIdFromMetadata = subscription.metadata?.[config.orgMetadataKey ?? 'keyloomOrgId']
+
+  const org = orgIdFromMetadata
+    ? await adapter.getOrganization(orgIdFromMetadata)
+    : customerId
+      ? await adapter.getOrganizationByBillingCustomerId(customerId)
+      : null
+  if (!org) return null
+
+  if (customerId && org.billingCustomerId !== customerId) {
+    await adapter.updateOrganization(org.id, { billingCustomerId: customerId })
+  }
+
+  const entitlements = entitlementsFromSubscription(subscription, config)
+  const current = await adapter.getEntitlements(org.id)
+  const changed = !current || !sameEntitlements(current, entitlements)
+  if (changed) await adapter.setEntitlements(org.id, entitlements)
+  return { orgId: org.id, entitlements, changed }
+}
+
+/**
+ * Create webhook handlers that keep entitlements in sync
+ *
+ * Subscription events sync the subscription they carry. Invoice events re-read the
+ * subscription from Stripe, so a renewal extends `validUntil` and a failed payment
+ * applies the subscription's new status.
+ *
+ * @param stripe - Stripe client instance
+ * @param config - Sync configuration
+ * @returns Webhook handler registry for `processWebhook`
+ *
+ * @example
+ * ```typescript
+ * const handlers = {
+ *   ...createEntitlementSyncHandlers(stripe, {
+ *     adapter,
+ *     plans: {
+ *       price_pro_monthly: { plan: 'PRO', features: { sso: true } },
+ *       price_business_seat: { plan: 'BUSINESS', features: { sso: true, scim: true } },
+ *     },
+ *   }),
+ *   ...createWebhookHandlers({ onPaymentSucceeded }),
+ * }
+ * await processWebhook(stripe, payload, signature, secret, handlers)
+ * ```
+ */
+export function createEntitlementSyncHandlers(
+  stripe: Stripe,
+  config: EntitlementSyncConfig,
+): Record<string, WebhookHandler> {
+  const onSubscription: WebhookHandler<Stripe.Subscription> = async (_event, subscription) => {
+    await syncSubscriptionEntitlements(subscription, config)
+  }
+  const onInvoice: WebhookHandler<Stripe.Invoice> = async (_event, invoice) => {
+    const subscriptionId = idOf(invoice.subscription)
+    if (!subscriptionId) return
+    await syncSubscriptionEntitlements(await stripe.subscriptions.retrieve(subscriptionId), config)
+  }
+
+  return {
+    'customer.subscription.created': onSubscription,
+    'customer.subscription.updated': onSubscription,
+    'customer.subscription.deleted': onSubscription,
+    'invoice.paid': onInvoice,
+    'invoice.payment_succeeded': onInvoice,
+    'invoice.payment_failed': onInvoice,
+  }
+}
+
+function sameEntitlements(a: Entitlements, b: Entitlements): boolean {
+  const normalize = (e: Entitlements) =>
+    JSON.stringify({
+      plan: e.plan ?? null,
+      seats: e.seats ?? null,
+      features: e.features ?? null,
+      limits: e.limits ?? null,
+      validUntil: e.validUntil ? new Date(e.validUntil).getTime() : null,
+    })
+  return normalize(a) === normalize(b)
+}
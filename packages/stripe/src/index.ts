@@ -49,6 +49,35 @@ export type {
   KeyloomSubscription,
 } from './types'
 
+// Entitlement sync exports
+export {
+  createEntitlementSyncHandlers,
+  syncSubscriptionEntitlements,
+  entitlementsFromSubscription,
+} from './entitlements'
+export type {
+  EntitlementSyncConfig,
+  EntitlementSyncResult,
+  PlanEntitlements,
+} from './entitlements'
+
+// Durable webhook processing exports
+export {
+  createWebhookProcessor,
+  processStoredEvent,
+  replayWebhookEvents,
+} from './webhook-events'
+export type {
+  ReplayOptions,
+  WebhookEventResult,
+  WebhookEventStoreConfig,
+  WebhookProcessor,
+} from './webhook-events'
+
+// Billing route exports
+export { createStripeBillingPlugin, billingPlanViews, ensureOrgCustomer } from './billing'
+export type { BillingPlan, BillingPlanView, StripeBillingPluginOptions } from './billing'
+
 // Error handling exports
 export {
   KeyloomStripeError,
@@ -66,3 +95,6 @@ export * as customers from './customers'
 export * as subscriptions from './subscriptions'
 export * as paymentMethods from './payment-methods'
 export * as webhooks from './webhooks'
+export * as webhookEvents from './webhook-events'
+export * as entitlements from './entitlements'
+export * as billing from './billing'
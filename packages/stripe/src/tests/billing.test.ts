@@ -0,0 +1,109 @@
+import { COOKIE_NAME, memoryAdapter, ORG_COOKIE_NAME } from '@keyloom/core'
+import type { NextRoute } from '@keyloom/core/plugins'
+import Stripe from 'stripe'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { createStripeBillingPlugin } from '../billing'
+
+const stripe = new Stripe('sk_test_123', { apiVersion: '2025-02-24.acacia' })
+const config = { baseUrl: 'https://app.test', rbac: {} } as any
+const plans = [{ id: 'pro', name: 'Pro', priceId: 'price_pro', features: ['SSO'] }]
+
+describe('Stripe billing plugin', () => {
+  let adapter: ReturnType<typeof memoryAdapter>
+  let routes: NextRoute[]
+  let orgId: string
+  let cookie: string
+
+  const call = async (kind: string, body: unknown = {}, headers = { cookie }) => {
+    const route = routes.find((r) => r.kind === kind)!
+    const req = new Request(`https://app.test/api/auth/billing/${kind.split('_')[1]}`, {
+      method: route.method,
+      headers,
+      ...(route.method === 'POST' ? { body: JSON.stringify(body) } : {}),
+    })
+    expect(route.path.test(new URL(req.url).pathname)).toBe(true)
+    return (await route.handler(req, { config, adapter })) as Response
+  }
+
+  const signIn = async (role: string) => {
+    const user = await adapter.createUser({ email: `${role}@acme.test` })
+    await adapter.addMember({ userId: user.id, orgId, role })
+    const session = await adapter.createSession({
+      userId: user.id,
+      expiresAt: new Date(Date.now() + 60_000),
+    })
+    cookie = `${COOKIE_NAME}=${session.id}; ${ORG_COOKIE_NAME}=${orgId}`
+  }
+
+  beforeEach(async () => {
+    vi.restoreAllMocks()
+    adapter = memoryAdapter()
+    orgId = (await adapter.createOrganization({ name: 'Acme' })).id
+    routes = createStripeBillingPlugin(stripe, { plans }).nextRoutes!()
+  })
+
+  it('lists plans with their Stripe prices', async () => {
+    vi.spyOn(stripe.prices, 'retrieve').mockResolvedValue({
+      currency: 'usd',
+      unit_amount: 2900,
+      recurring: { interval: 'month' },
+    } as any)
+    const res = await call('billing_plans')
+    expect(await res.json()).toEqual({
+      plans: [
+        {
+          id: 'pro',
+          name: 'Pro',
+          price: 29,
+          currency: 'usd',
+          interval: 'month',
+          features: ['SSO'],
+        },
+      ],
+    })
+  })
+
+  it('creates the org customer once and starts Checkout for it', async () => {
+    await signIn('owner')
+    const createCustomer = vi
+      .spyOn(stripe.customers, 'create')
+      .mockResolvedValue({ id: 'cus_1' } as any)
+    const createSession = vi
+      .spyOn(stripe.checkout.sessions, 'create')
+      .mockResolvedValue({ url: 'https://checkout.stripe.test/s' } as any)
+
+    const res = await call('billing_checkout', { planId: 'pro', quantity: 5 })
+    expect(await res.json()).toEqual({ url: 'https://checkout.stripe.test/s' })
+    expect((await adapter.getOrganization(orgId))?.billingCustomerId).toBe('cus_1')
+    expect(createSession).toHaveBeenCalledWith(
+      expect.objectContaining({
+        customer: 'cus_1',
+        line_items: [{ price: 'price_pro', quantity: 5 }],
+        subscription_data: { metadata: { keyloomOrgId: orgId } },
+      }),
+    )
+
+    await call('billing_checkout', { planId: 'pro' })
+    expect(createCustomer).toHaveBeenCalledTimes(1)
+    expect((await call('billing_checkout', { planId: 'gold' })).status).toBe(400)
+  })
+
+  it('opens the portal for billing managers only', async () => {
+    await signIn('member')
+    const portal = vi
+      .spyOn(stripe.billingPortal.sessions, 'create')
+      .mockResolvedValue({ url: 'https://billing.stripe.test/p' } as any)
+    await adapter.updateOrganization(orgId, { billingCustomerId: 'cus_1' })
+
+    expect((await call('billing_portal')).status).toBe(403)
+    expect((await call('billing_portal', {}, { cookie: '' })).status).toBe(401)
+
+    await signIn('owner')
+    const res = await call('billing_portal')
+    expect(await res.json()).toEqual({ url: 'https://billing.stripe.test/p' })
+    expect(portal).toHaveBeenCalledWith({
+      customer: 'cus_1',
+      return_url: 'https://app.test/org/billing',
+    })
+  })
+})
@@ -0,0 +1,115 @@
+import { memoryAdapter } from '@keyloom/core'
+import Stripe from 'stripe'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { createEntitlementSyncHandlers, entitlementsFromSubscription } from '../entitlements'
+import { processWebhook } from '../webhooks'
+
+const secret = 'whsec_test'
+const stripe = new Stripe('sk_test_123', { apiVersion: '2025-02-24.acacia' })
+
+const plans = {
+  price_pro: { plan: 'PRO', features: { sso: true }, limits: { projects: 50 } },
+  prod_addon: { features: { audit: true } },
+}
+
+const periodEnd = Math.floor(new Date('2026-02-01T00:00:00Z').getTime() / 1000)
+
+function subscription(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'sub_1',
+    object: 'subscription',
+    customer: 'cus_1',
+    status: 'active',
+    cancel_at: null,
+    current_period_end: periodEnd,
+    metadata: {},
+    items: {
+      data: [
+        { id: 'si_1', quantity: 5, price: { id: 'price_pro', product: 'prod_pro' } },
+        { id: 'si_2', quantity: 1, price: { id: 'price_addon', product: 'prod_addon' } },
+      ],
+    },
+    ...overrides,
+  } as unknown as Stripe.Subscription
+}
+
+function signed(type: string, object: unknown, id = `evt_${type}`) {
+  const payload = JSON.stringify({ id, object: 'event', type, data: { object } })
+  return { payload, signature: stripe.webhooks.generateTestHeaderString({ payload, secret }) }
+}
+
+describe('Entitlement sync', () => {
+  let adapter: ReturnType<typeof memoryAdapter>
+  let orgId: string
+  let handlers: ReturnType<typeof createEntitlementSyncHandlers>
+
+  const deliver = async (type: string, object: unknown) => {
+    const { payload, signature } = signed(type, object)
+    const result = await processWebhook(stripe, payload, signature, secret, handlers)
+    expect(result.success).toBe(true)
+  }
+
+  beforeEach(async () => {
+    adapter = memoryAdapter()
+    orgId = (await adapter.createOrganization({ name: 'Acme' })).id
+    handlers = createEntitlementSyncHandlers(stripe, { adapter, plans })
+  })
+
+  it('maps subscription items to entitlements', () => {
+    expect(entitlementsFromSubscription(subscription(), { plans })).toEqual({
+      plan: 'PRO',
+      seats: 5,
+      features: { sso: true, audit: true },
+      limits: { projects: 50 },
+      validUntil: new Date('2026-02-01T00:00:00Z'),
+    })
+    expect(entitlementsFromSubscription(subscription({ status: 'canceled' }), { plans })).toEqual({
+      plan: 'FREE',
+    })
+  })
+
+  it('stores the customer on the org and syncs later events by customer id', async () => {
+    await deliver(
+      'customer.subscription.created',
+      subscription({ metadata: { keyloomOrgId: orgId } }),
+    )
+    expect((await adapter.getOrganization(orgId))?.billingCustomerId).toBe('cus_1')
+    expect(await adapter.getEntitlements(orgId)).toMatchObject({ plan: 'PRO', seats: 5 })
+
+    await deliver(
+      'customer.subscription.updated',
+      subscription({
+        items: { data: [{ quantity: 12, price: { id: 'price_pro', product: 'p' } }] },
+      }),
+    )
+    expect(await adapter.getEntitlements(orgId)).toMatchObject({ plan: 'PRO', seats: 12 })
+
+    await deliver('customer.subscription.deleted', subscription({ status: 'canceled' }))
+    expect(await adapter.getEntitlements(orgId)).toEqual({ plan: 'FREE' })
+  })
+
+  it('is idempotent when an event is delivered twice', async () => {
+    await adapter.updateOrganization(orgId, { billingCustomerId: 'cus_1' })
+    const setEntitlements = vi.spyOn(adapter, 'setEntitlements')
+    await deliver('customer.subscription.updated', subscription())
+    await deliver('customer.subscription.updated', subscription())
+    expect(setEntitlements).toHaveBeenCalledTimes(1)
+  })
+
+  it('re-reads the subscription on invoice events', async () => {
+    await adapter.updateOrganization(orgId, { billingCustomerId: 'cus_1' })
+    const renewedEnd = periodEnd + 30 * 24 * 60 * 60
+    const retrieve = vi
+      .spyOn(stripe.subscriptions, 'retrieve')
+      .mockResolvedValue(subscription({ current_period_end: renewedEnd }) as any)
+
+    await deliver('invoice.paid', { id: 'in_1', object: 'invoice', subscription: 'sub_1' })
+    expect(retrieve).toHaveBeenCalledWith('sub_1')
+    expect((await adapter.getEntitlements(orgId))?.validUntil).toEqual(new Date(renewedEnd * 1000))
+  })
+
+  it('ignores subscriptions without a matching org', async () => {
+    await deliver('customer.subscription.created', subscription({ customer: 'cus_unknown' }))
+    expect(await adapter.getEntitlements(orgId)).toBeNull()
+  })
+})
@@ -0,0 +1,121 @@
+import { memoryAdapter } from '@keyloom/core'
+import Stripe from 'stripe'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { createWebhookProcessor, processStoredEvent, replayWebhookEvents } from '../webhook-events'
+import { processWebhook } from '../webhooks'
+
+const secret = 'whsec_test'
+const stripe = new Stripe('sk_test_123', { apiVersion: '2025-02-24.acacia' })
+
+const event = (id: string, created: number, type = 'customer.subscription.updated') =>
+  ({
+    id,
+    object: 'event',
+    type,
+    created,
+    data: { object: { id: 'sub_1', object: 'subscription' } },
+  }) as unknown as Stripe.Event
+
+describe('Durable webhook processing', () => {
+  let adapter: ReturnType<typeof memoryAdapter>
+
+  beforeEach(() => {
+    adapter = memoryAdapter()
+  })
+
+  it('runs a handler once per event id', async () => {
+    const handler = vi.fn()
+    const payload = JSON.stringify(event('evt_1', 100))
+    const signature = stripe.webhooks.generateTestHeaderString({ payload, secret })
+    const handlers = { 'customer.subscription.updated': handler }
+
+    for (let i = 0; i < 2; i++) {
+      const result = await processWebhook(stripe, payload, signature, secret, handlers, {
+        adapter,
+      })
+      expect(result.success).toBe(true)
+    }
+    expect(handler).toHaveBeenCalledTimes(1)
+    expect(await adapter.getWebhookEvent('evt_1')).toMatchObject({
+      status: 'processed',
+      attempts: 1,
+    })
+  })
+
+  it('keeps failed events for retries with backoff', async () => {
+    const handler = vi.fn().mockRejectedValueOnce(new Error('db down'))
+    const handlers = { 'customer.subscription.updated': handler }
+    const config = { adapter, maxAttempts: 2, backoff: () => 60_000 }
+
+    const first = await processStoredEvent(event('evt_1', 100), handlers, config)
+    expect(first).toMatchObject({ status: 'failed', error: 'db down' })
+    const stored = await adapter.getWebhookEvent('evt_1')
+    expect(stored?.nextAttemptAt).toBeInstanceOf(Date)
+
+    // Not due yet
+    expect(await replayWebhookEvents(handlers, config)).toEqual([])
+    const later = new Date(stored!.nextAttemptAt!.getTime() + 1)
+    const [replayed] = await replayWebhookEvents(handlers, config, { now: later })
+    expect(replayed).toMatchObject({ status: 'processed', duplicate: false })
+    expect(handler).toHaveBeenCalledTimes(2)
+  })
+
+  it('stops retrying once attempts run out', async () => {
+    const handlers = { 'customer.subscription.updated': vi.fn().mockRejectedValue(new Error('x')) }
+    const config = { adapter, maxAttempts: 1 }
+    await processStoredEvent(event('evt_1', 100), handlers, config)
+    expect((await adapter.getWebhookEvent('evt_1'))?.nextAttemptAt).toBeNull()
+    expect(
+      await replayWebhookEvents(handlers, config, { now: new Date(Date.now() + 1e9) }),
+    ).toEqual([])
+    expect(await replayWebhookEvents(handlers, config, { ids: ['evt_1'] })).toHaveLength(1)
+  })
+
+  it('skips events older than one already applied to the same object', async () => {
+    const handler = vi.fn()
+    const handlers = { 'customer.subscription.updated': handler }
+    await processStoredEvent(event('evt_new', 200), handlers, { adapter })
+    const stale = await processStoredEvent(event('evt_old', 100), handlers, { adapter })
+    expect(stale.status).toBe('skipped')
+    expect(handler).toHaveBeenCalledTimes(1)
+
+    const unordered = await processStoredEvent(event('evt_older', 50), handlers, {
+      adapter,
+      ordering: false,
+    })
+    expect(unordered.status).toBe('processed')
+  })
+
+  it('reports in-flight deliveries as duplicates', async () => {
+    const webhooks = createWebhookProcessor(stripe, { secret, adapter, handlers: {} })
+    await adapter.createWebhookEvent({
+      id: 'evt_1',
+      provider: 'stripe',
+      type: 'customer.subscription.updated',
+      objectId: 'sub_1',
+      occurredAt: new Date(100_000),
+      payload: JSON.stringify(event('evt_1', 100)),
+      status: 'pending',
+      attempts: 1,
+      lastError: null,
+      nextAttemptAt: null,
+      processedAt: null,
+    })
+    const payload = JSON.stringify(event('evt_1', 100))
+    const signature = stripe.webhooks.generateTestHeaderString({ payload, secret })
+    const result = await webhooks.process(payload, signature)
+    expect(result.success && result.data).toMatchObject({ status: 'pending', duplicate: true })
+    expect(await webhooks.list({ status: 'pending' })).toHaveLength(1)
+  })
+
+  it('refuses adapters without a webhook event log', async () => {
+    const { createWebhookEvent, listWebhookEvents, ...rest } = adapter
+    const bare = rest as any
+    expect(() => createWebhookProcessor(stripe, { secret, handlers: {}, adapter: bare })).toThrow(
+      /WebhookEventAdapter/,
+    )
+    await expect(processStoredEvent(event('evt_9', 100), {}, { adapter: bare })).rejects.toThrow(
+      /WebhookEventAdapter/,
+    )
+  })
+})
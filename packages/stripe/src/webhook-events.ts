@@ -0,0 +1,257 @@
+/**
+ * Durable webhook processing for Stripe integration
+ *
+ * This module records every verified Stripe event in an adapter-backed log before its
+ * handler runs. Redeliveries of a handled event are acknowledged without running it again,
+ * failed handlers are retried with backoff, and events older than one already applied to
+ * the same object are skipped.
+ */
+
+import type { WebhookEvent, WebhookEventAdapter, WebhookEventStatus } from '@keyloom/core'
+import type Stripe from 'stripe'
+import { normalizeStripeError } from './errors'
+import type { StripeResult, WebhookHandler } from './types'
+
+const PROVIDER = 'stripe'
+
+/**
+ * Configuration for the webhook event log
+ */
+export type WebhookEventStoreConfig = {
+  adapter: WebhookEventAdapter
+  /** Handler runs before a failed event stops being retried (default 5) */
+  maxAttempts?: number
+  /** Delay before retry number `attempt + 1`, in ms (default 30s, doubling, at most 6 hours) */
+  backoff?: (attempt: number) => number
+  /** Skip events older than one already processed for the same object (default true) */
+  ordering?: boolean
+  /** How long a `pending` event belongs to the delivery processing it (default 5 minutes) */
+  leaseMs?: number
+}
+
+/**
+ * Outcome of processing (or replaying) one event
+ */
+export type WebhookEventResult = {
+  event: Stripe.Event
+  status: WebhookEventStatus
+  /** The event was already handled, or is being handled by another delivery */
+  duplicate: boolean
+  /** Handler error message when `status` is `failed` */
+  error?: string
+}
+
+/**
+ * Options for replaying stored events
+ */
+export type ReplayOptions = {
+  /** Replay these events; without ids, failed events that are due for a retry are replayed */
+  ids?: string[]
+  /** Also replay failed events that ran out of attempts or are not due yet */
+  force?: boolean
+  limit?: number
+  now?: Date
+}
+
+const defaultBackoff = (attempt: number) => Math.min(30_000 * 2 ** (attempt - 1), 6 * 3_600_000)
+
+// The Drizzle, SQL and Mongo adapters don't store webhook events yet; fail with a clear message
+// instead of a missing-method TypeError on the first delivery
+function assertEventLog(adapter: Partial<WebhookEventAdapter>) {
+  if (
+    typeof adapter?.createWebhookEvent !== 'function' ||
+    typeof adapter.listWebhookEvents !== 'function'
+  )
+    throw new Error(
+      'The webhook event log needs an adapter implementing WebhookEventAdapter (Prisma or memory)',
+    )
+}
+
+function objectIdOf(event: Stripe.Event): string | null {
+  const id = (event.data.object as { id?: unknown }).id
+  return typeof id === 'string' ? id : null
+}
+
+// A newer event for the same object has already been applied
+async function isStale(row: WebhookEvent, adapter: WebhookEventAdapter) {
+  if (!row.objectId) return false
+  const processed = await adapter.listWebhookEvents({
+    provider: PROVIDER,
+    objectId: row.objectId,
+    status: 'processed',
+  })
+  return processed.some((e) => e.id !== row.id && e.occurredAt.getTime() > row.occurredAt.getTime())
+}
+
+async function runStoredEvent(
+  row: WebhookEvent,
+  event: Stripe.Event,
+  handlers: Record<string, WebhookHandler>,
+  config: WebhookEventStoreConfig,
+  now: Date,
+): Promise<WebhookEventResult> {
+  const { adapter } = config
+  if (config.ordering !== false && (await isStale(row, adapter))) {
+    await adapter.updateWebhookEvent(row.id, { status: 'skipped', nextAttemptAt: null })
+    return { event, status: 'skipped', duplicate: false }
+  }
+
+  const attempts = row.attempts + 1
+  await adapter.updateWebhookEvent(row.id, { status: 'pending', attempts })
+  try {
+    await handlers[event.type]?.(event, event.data.object)
+  } catch (e) {
+    const error = e instanceof Error ? e.message : String(e)
+    const retry = attempts < (config.maxAttempts ?? 5)
+    await adapter.updateWebhookEvent(row.id, {
+      status: 'failed',
+      lastError: error,
+      nextAttemptAt: retry
+        ? new Date(now.getTime() + (config.backoff ?? defaultBackoff)(attempts))
+        : null,
+    })
+    return { event, status: 'failed', duplicate: false, error }
+  }
+  await adapter.updateWebhookEvent(row.id, {
+    status: 'processed',
+    lastError: null,
+    nextAttemptAt: null,
+    processedAt: new Date(),
+  })
+  return { event, status: 'processed', duplicate: false }
+}
+
+/**
+ * Record a verified event and run its handler at most once
+ *
+ * @param event - Verified Stripe event
+ * @param handlers - Event handlers, keyed by event type
+ * @param config - Event log configuration
+ * @returns What happened to the event; `failed` events should be answered with an error
+ * status so Stripe delivers them again
+ */
+export async function processStoredEvent(
+  event: Stripe.Event,
+  handlers: Record<string, WebhookHandler>,
+  config: WebhookEventStoreConfig,
+): Promise<WebhookEventResult> {
+  const { adapter } = config
+  assertEventLog(adapter)
+  const now = new Date()
+  let row = await adapter.createWebhookEvent({
+    id: event.id,
+    provider: PROVIDER,
+    type: event.type,
+    objectId: objectIdOf(event),
+    occurredAt: new Date(event.created * 1000),
+    payload: JSON.stringify(event),
+    status: 'pending',
+    attempts: 0,
+    lastError: null,
+    nextAttemptAt: null,
+    processedAt: null,
+  })
+
+  if (!row) {
+    const existing = await adapter.getWebhookEvent(event.id)
+    if (!existing) throw new Error('webhook_event_not_found')
+    if (existing.status === 'processed' || existing.status === 'skipped')
+      return { event, status: existing.status, duplicate: true }
+    // Another delivery is still on it, unless it stopped without finishing
+    const leaseMs = config.leaseMs ?? 5 * 60_000
+    if (existing.status === 'pending' && now.getTime() - existing.updatedAt.getTime() < leaseMs)
+      return { event, status: 'pending', duplicate: true }
+    row = existing
+  }
+  return runStoredEvent(row, event, handlers, config, now)
+}
+
+/**
+ * Run stored events again, oldest first
+ *
+ * @param handlers - Event handlers, keyed by event type
+ * @param config - Event log configuration
+ * @param options - Which events to replay
+ * @returns One result per replayed event
+ *
+ * @example
+ * ```typescript
+ * // From a cron job: retry failed events whose backoff has elapsed
+ * const results = await replayWebhookEvents(handlers, { adapter })
+ * ```
+ */
+export async function replayWebhookEvents(
+  handlers: Record<string, WebhookHandler>,
+  config: WebhookEventStoreConfig,
+  options: ReplayOptions = {},
+): Promise<WebhookEventResult[]> {
+  const { adapter } = config
+  assertEventLog(adapter)
+  const now = options.now ?? new Date()
+  let rows: WebhookEvent[]
+  if (options.ids?.length) {
+    const found = await Promise.all(options.ids.map((id) => adapter.getWebhookEvent(id)))
+    rows = found
+      .filter((e): e is WebhookEvent => !!e)
+      .sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime())
+  } else {
+    rows = await adapter.listWebhookEvents({
+      provider: PROVIDER,
+      status: 'failed',
+      ...(options.force ? {} : { dueBefore: now }),
+      ...(options.limit ? { limit: options.limit } : {}),
+    })
+  }
+
+  const results: WebhookEventResult[] = []
+  for (const row of rows) {
+    const event = JSON.parse(row.payload) as Stripe.Event
+    if (row.status === 'processed' && !options.force) {
+      results.push({ event, status: row.status, duplicate: true })
+      continue
+    }
+    results.push(await runStoredEvent(row, event, handlers, config, now))
+  }
+  return results
+}
+
+/**
+ * Bundle verification, the event log and replays for one webhook endpoint
+ *
+ * @example
+ * ```typescript
+ * const webhooks = createWebhookProcessor(stripe, { secret, handlers, adapter })
+ *
+ * // In the endpoint
+ * const result = await webhooks.process(rawBody, signature)
+ * const failed = !result.success || result.data.status === 'failed'
+ * res.status(failed ? 500 : 200).end()
+ *
+ * // Export it from keyloom.webhooks.mjs for `keyloom webhooks replay`
+ * export default webhooks
+ * ```
+ */
+export function createWebhookProcessor(
+  stripe: Stripe,
+  config: WebhookEventStoreConfig & { secret: string; handlers: Record<string, WebhookHandler> },
+) {
+  assertEventLog(config.adapter)
+  return {
+    async process(
+      payload: string | Buffer,
+      signature: string,
+    ): Promise<StripeResult<WebhookEventResult>> {
+      try {
+        const event = stripe.webhooks.constructEvent(payload, signature, config.secret)
+        return { success: true, data: await processStoredEvent(event, config.handlers, config) }
+      } catch (error) {
+        return { success: false, error: normalizeStripeError(error) }
+      }
+    },
+    replay: (options?: ReplayOptions) => replayWebhookEvents(config.handlers, config, options),
+    list: (query: Parameters<WebhookEventAdapter['listWebhookEvents']>[0] = {}) =>
+      config.adapter.listWebhookEvents({ provider: PROVIDER, ...query }),
+  }
+}
+
+export type WebhookProcessor = ReturnType<typeof createWebhookProcessor>
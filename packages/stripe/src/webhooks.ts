@@ -8,6 +8,7 @@
 import type Stripe from 'stripe'
 import type { WebhookHandler, WebhookConfig, StripeResult } from './types'
 import { normalizeStripeError } from './errors'
+import { processStoredEvent, type WebhookEventStoreConfig } from './webhook-events'
 
 /**
  * Process a Stripe webhook with signature verification
@@ -17,6 +18,8 @@ import { normalizeStripeError } from './errors'
  * @param signature - Stripe signature header
  * @param secret - Webhook endpoint secret
  * @param handlers - Optional event handlers
+ * @param store - Optional event log: handlers then run once per event id, failures are kept
+ * for retries and stale events are skipped (see `processStoredEvent`)
  * @returns Promise resolving to the processed event
  * 
  * @example
@@ -57,10 +60,17 @@ export async function processWebhook(
   payload: string | Buffer,
   signature: string,
   secret: string,
-  handlers: Record<string, WebhookHandler> = {}
+  handlers: Record<string, WebhookHandler> = {},
+  store?: WebhookEventStoreConfig
 ): Promise<StripeResult<Stripe.Event>> {
   try {
     const event = stripe.webhooks.constructEvent(payload, signature, secret)
+
+    if (store) {
+      const result = await processStoredEvent(event, handlers, store)
+      if (result.status === 'failed') throw new Error(result.error)
+      return { success: true, data: event }
+    }
     
     // Execute handler if available
     const handler = handlers[event.type]
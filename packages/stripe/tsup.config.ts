@@ -9,6 +9,9 @@ export default defineConfig({
     subscriptions: 'src/subscriptions.ts',
     'payment-methods': 'src/payment-methods.ts',
     webhooks: 'src/webhooks.ts',
+    'webhook-events': 'src/webhook-events.ts',
+    entitlements: 'src/entitlements.ts',
+    billing: 'src/billing.ts',
   },
   format: ['cjs', 'esm'],
   dts: false,
@@ -13,6 +13,7 @@ import {
   PhoneIcon,
   MapPinIcon,
   LinkIcon,
+  UnlinkIcon,
   BuildingIcon
 } from "lucide-react"
 import { AuthUIProviderContext } from "../lib/auth-ui-provider"
@@ -21,6 +22,7 @@ import { Input } from "../components/input"
 import { Card } from "../components/card"
 import { FormRow, FieldErrorText } from "../primitives/form"
 import { UserAvatar } from "./user-avatar"
+import { useLinkedAccounts } from "../hooks/use-linked-accounts"
 import type { FetchError } from "../types"
 
 export interface AccountSettingsCardProps {
@@ -63,6 +65,13 @@ export interface AccountSettingsCardProps {
   onSuccess?: (result: any) => void
   /** Custom error handler */
   onError?: (error: FetchError) => void
+  /**
+   * OAuth providers the user can connect. When set, a "Connected accounts" section lists the
+   * linked accounts (via `useLinkedAccounts`) with connect/disconnect actions.
+   */
+  linkProviders?: Array<{ id: string; name: string }>
+  /** Linked accounts route @default "/api/auth/accounts" */
+  accountsEndpoint?: string
   /** Custom CSS classes for different parts */
   classNames?: {
     card?: string
@@ -74,6 +83,7 @@ export interface AccountSettingsCardProps {
     actions?: string
     button?: string
     error?: string
+    linkedAccounts?: string
   }
 }
 
@@ -87,6 +97,8 @@ export function AccountSettingsCard({
   className,
   onSuccess,
   onError,
+  linkProviders,
+  accountsEndpoint,
   classNames,
 }: AccountSettingsCardProps) {
   const context = useContext(AuthUIProviderContext)
@@ -96,6 +108,11 @@ export function AccountSettingsCard({
   const [isLoading, setIsLoading] = useState(false)
   const [formData, setFormData] = useState<Record<string, any>>(user || {})
   const [error, setError] = useState<string | null>(null)
+  const [unlinkingId, setUnlinkingId] = useState<string | null>(null)
+  const linked = useLinkedAccounts({
+    ...(accountsEndpoint ? { endpoint: accountsEndpoint } : {}),
+    enabled: !!linkProviders,
+  })
 
   // Default fields for profile settings
   const defaultFields = [
@@ -225,6 +242,22 @@ export function AccountSettingsCard({
     }
   }
 
+  const handleUnlink = async (id: string) => {
+    setUnlinkingId(id)
+    try {
+      await linked.unlink(id)
+      toast?.({
+        variant: "success",
+        message: localization?.ACCOUNT_UNLINKED || "Account disconnected",
+      })
+    } catch (err: any) {
+      toast?.({ variant: "error", message: err.message })
+      onError?.(err)
+    } finally {
+      setUnlinkingId(null)
+    }
+  }
+
   const handleCancel = () => {
     setFormData(user || {})
     setError(null)
@@ -357,6 +390,57 @@ export function AccountSettingsCard({
           <FieldErrorText error={error} className={classNames?.error} />
         )}
 
+        {/* Connected accounts */}
+        {linkProviders && (
+          <div className={clsx("space-y-3 pt-4 border-t", classNames?.linkedAccounts)}>
+            <p className="text-sm font-medium">
+              {localization?.CONNECTED_ACCOUNTS || "Connected accounts"}
+            </p>
+            {linked.isPending ? (
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            ) : (
+              linkProviders.map((provider) => {
+                const account = linked.accounts.find((a) => a.provider === provider.id)
+                return (
+                  <div key={provider.id} className="flex items-center justify-between gap-3">
+                    <div className="flex items-center gap-3">
+                      <LinkIcon className="h-4 w-4 text-muted-foreground" />
+                      <p className="text-sm">{provider.name}</p>
+                    </div>
+                    {account ? (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleUnlink(account.id)}
+                        disabled={unlinkingId !== null}
+                        className={classNames?.button}
+                      >
+                        {unlinkingId === account.id ? (
+                          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        ) : (
+                          <UnlinkIcon className="h-4 w-4 mr-2" />
+                        )}
+                        {localization?.DISCONNECT || "Disconnect"}
+                      </Button>
+                    ) : (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => {
+                          window.location.href = linked.linkUrl(provider.id, window.location.pathname)
+                        }}
+                        className={classNames?.button}
+                      >
+                        {localization?.CONNECT || "Connect"}
+                      </Button>
+                    )}
+                  </div>
+                )
+              })
+            )}
+          </div>
+        )}
+
         {/* Actions */}
         {isEditing && (
           <div className={clsx("flex gap-2 pt-4", classNames?.actions)}>
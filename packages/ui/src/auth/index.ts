@@ -23,6 +23,12 @@ export type { EmailVerificationFormProps } from "./email-verification-form";
 export { MagicLinkForm } from "./magic-link-form";
 export type { MagicLinkFormProps } from "./magic-link-form";
 
+export { TwoFactorSetup } from "./two-factor-setup";
+export type { TwoFactorSetupProps } from "./two-factor-setup";
+
+export { TwoFactorVerify } from "./two-factor-verify";
+export type { TwoFactorVerifyProps } from "./two-factor-verify";
+
 export {
   AuthLayout,
   SignInLayout,
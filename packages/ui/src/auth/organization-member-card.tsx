@@ -15,6 +15,7 @@ import {
   UserXIcon,
   Loader2
 } from "lucide-react"
+import { hasRole, type RbacConfig } from "@keyloom/core/rbac"
 import { AuthUIProviderContext } from "../lib/auth-ui-provider"
 import { UserAvatar } from "./user-avatar"
 import { Button } from "../components/button"
@@ -49,6 +50,8 @@ export interface OrganizationMemberCardProps {
   currentUserRole?: string
   /** Current user's ID */
   currentUserId?: string
+  /** Roles config deciding who manages whom through role inheritance */
+  rbac?: RbacConfig
   /** Card variant */
   variant?: 'card' | 'list' | 'compact'
   /** Whether to show member actions */
@@ -87,10 +90,20 @@ export interface OrganizationMemberCardProps {
   }
 }
 
+// The built-in roles: owner > admin > member
+const DEFAULT_RBAC: RbacConfig = {
+  roles: {
+    owner: { permissions: [], inherits: ["admin"] },
+    admin: { permissions: [], inherits: ["member"] },
+    member: { permissions: [] },
+  },
+}
+
 export function OrganizationMemberCard({
   member,
   currentUserRole,
   currentUserId,
+  rbac = DEFAULT_RBAC,
   variant = 'card',
   showActions = true,
   className,
@@ -112,11 +125,10 @@ export function OrganizationMemberCard({
     if (!currentUserRole || !currentUserId) return false
     if (member.userId === currentUserId) return false // Can't manage self
     
-    const roleHierarchy = { owner: 3, admin: 2, member: 1 }
-    const currentUserLevel = roleHierarchy[currentUserRole as keyof typeof roleHierarchy] || 0
-    const memberLevel = roleHierarchy[member.role as keyof typeof roleHierarchy] || 0
-    
-    return currentUserLevel > memberLevel
+    if (currentUserRole === member.role) return false
+
+    // Managers are above the member: their role inherits the member's role
+    return hasRole(currentUserRole, member.role, rbac)
   }
 
   // Role icons and colors
@@ -1,26 +1,27 @@
 "use client"
 
-import * as React from "react"
-import { useState, useContext } from "react"
 import clsx from "clsx"
-import { 
-  ShieldIcon, 
-  KeyIcon, 
-  SmartphoneIcon,
+import {
+  AlertTriangleIcon,
+  CheckIcon,
   EyeIcon,
   EyeOffIcon,
+  KeyIcon,
   Loader2,
-  CheckIcon,
-  AlertTriangleIcon,
-  LockIcon
+  LockIcon,
+  ShieldIcon,
+  SmartphoneIcon
 } from "lucide-react"
-import { AuthUIProviderContext } from "../lib/auth-ui-provider"
+import * as React from "react"
+import { useContext, useId, useState } from "react"
+import { Badge } from "../components/badge"
 import { Button } from "../components/button"
-import { Input } from "../components/input"
 import { Card } from "../components/card"
-import { Badge } from "../components/badge"
-import { FormRow, FieldErrorText } from "../primitives/form"
+import { Input } from "../components/input"
+import { AuthUIProviderContext } from "../lib/auth-ui-provider"
+import { FieldErrorText, FormRow } from "../primitives/form"
 import type { FetchError } from "../types"
+import { TwoFactorSetup } from "./two-factor-setup"
 
 export interface SecuritySettingsCardProps {
   /** User security data */
@@ -76,11 +77,17 @@ export function SecuritySettingsCard({
   const context = useContext(AuthUIProviderContext)
   const { localization, toast } = context || {}
 
+  const currentPasswordId = useId()
+  const newPasswordId = useId()
+  const confirmPasswordId = useId()
+  const disableCodeId = useId()
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [showCurrentPassword, setShowCurrentPassword] = useState(false)
   const [showNewPassword, setShowNewPassword] = useState(false)
   const [showConfirmPassword, setShowConfirmPassword] = useState(false)
+  const [showTwoFactorSetup, setShowTwoFactorSetup] = useState(false)
+  const [disableCode, setDisableCode] = useState("")
 
   // Password change form state
   const [passwordForm, setPasswordForm] = useState({
@@ -169,20 +176,25 @@ export function SecuritySettingsCard({
     }
   }
 
-  const handleToggle2FA = async () => {
+  // Enabling happens in TwoFactorSetup (secret -> confirm code -> recovery codes);
+  // disabling requires a current TOTP or recovery code.
+  const handleDisable2FA = async () => {
     setError(null)
+
+    if (!disableCode) {
+      setError(localization?.TWO_FACTOR_CODE_REQUIRED || "Enter a code from your authenticator app")
+      return
+    }
+
     setIsLoading(true)
 
     try {
-      const endpoint = user?.twoFactorEnabled 
-        ? endpoints.disable2FA || "/api/account/disable-2fa"
-        : endpoints.enable2FA || "/api/account/enable-2fa"
-
-      const response = await fetch(endpoint, {
+      const response = await fetch(endpoints.disable2FA || "/api/account/disable-2fa", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
+        body: JSON.stringify({ code: disableCode.trim() }),
       })
 
       const result = await response.json().catch(() => ({}))
@@ -192,13 +204,13 @@ export function SecuritySettingsCard({
         throw new Error(errorMessage)
       }
 
+      setDisableCode("")
+
       // Show success toast
       if (toast) {
         toast({
           variant: "success",
-          message: user?.twoFactorEnabled 
-            ? localization?.TWO_FACTOR_DISABLED || "Two-factor authentication disabled"
-            : localization?.TWO_FACTOR_ENABLED || "Two-factor authentication enabled",
+          message: localization?.TWO_FACTOR_DISABLED || "Two-factor authentication disabled",
         })
       }
 
@@ -244,12 +256,12 @@ export function SecuritySettingsCard({
       <div className="space-y-4">
         <FormRow
           label={localization?.CURRENT_PASSWORD || "Current password"}
-          htmlFor="current-password"
+          htmlFor={currentPasswordId}
           className={classNames?.field}
         >
           <div className="relative">
             <Input
-              id="current-password"
+              id={currentPasswordId}
               type={showCurrentPassword ? "text" : "password"}
               value={passwordForm.currentPassword}
               onChange={(e) => setPasswordForm(prev => ({ ...prev, currentPassword: e.target.value }))}
@@ -268,12 +280,12 @@ export function SecuritySettingsCard({
 
         <FormRow
           label={localization?.NEW_PASSWORD || "New password"}
-          htmlFor="new-password"
+          htmlFor={newPasswordId}
           className={classNames?.field}
         >
           <div className="relative">
             <Input
-              id="new-password"
+              id={newPasswordId}
               type={showNewPassword ? "text" : "password"}
               value={passwordForm.newPassword}
               onChange={(e) => setPasswordForm(prev => ({ ...prev, newPassword: e.target.value }))}
@@ -292,12 +304,12 @@ export function SecuritySettingsCard({
 
         <FormRow
           label={localization?.CONFIRM_PASSWORD || "Confirm password"}
-          htmlFor="confirm-password"
+          htmlFor={confirmPasswordId}
           className={classNames?.field}
         >
           <div className="relative">
             <Input
-              id="confirm-password"
+              id={confirmPasswordId}
               type={showConfirmPassword ? "text" : "password"}
               value={passwordForm.confirmPassword}
               onChange={(e) => setPasswordForm(prev => ({ ...prev, confirmPassword: e.target.value }))}
@@ -349,18 +361,52 @@ export function SecuritySettingsCard({
         </Badge>
       </div>
 
-      <Button
-        variant={user?.twoFactorEnabled ? "outline" : "default"}
-        onClick={handleToggle2FA}
-        disabled={isLoading}
-        className={classNames?.button}
-      >
-        {isLoading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
-        {user?.twoFactorEnabled 
-          ? localization?.DISABLE_2FA || "Disable 2FA"
-          : localization?.ENABLE_2FA || "Enable 2FA"
-        }
-      </Button>
+      {user?.twoFactorEnabled ? (
+        <div className="space-y-4">
+          <FormRow
+            label={localization?.AUTHENTICATION_CODE || "Authentication code"}
+            htmlFor={disableCodeId}
+            className={classNames?.field}
+          >
+            <Input
+              id={disableCodeId}
+              type="text"
+              autoComplete="one-time-code"
+              value={disableCode}
+              onChange={(e) => setDisableCode(e.target.value)}
+              placeholder={localization?.TWO_FACTOR_CODE_PLACEHOLDER || "6-digit code or recovery code"}
+              disabled={isLoading}
+            />
+          </FormRow>
+
+          {error && <FieldErrorText error={error} className={classNames?.error} />}
+
+          <Button
+            variant="outline"
+            onClick={handleDisable2FA}
+            disabled={isLoading}
+            className={classNames?.button}
+          >
+            {isLoading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {localization?.DISABLE_2FA || "Disable 2FA"}
+          </Button>
+        </div>
+      ) : showTwoFactorSetup ? (
+        <TwoFactorSetup
+          endpoint={endpoints.enable2FA || "/api/account/enable-2fa"}
+          {...(onSuccess ? { onSuccess } : {})}
+          {...(onError ? { onError } : {})}
+          onComplete={() => setShowTwoFactorSetup(false)}
+        />
+      ) : (
+        <Button
+          variant="default"
+          onClick={() => setShowTwoFactorSetup(true)}
+          className={classNames?.button}
+        >
+          {localization?.ENABLE_2FA || "Enable 2FA"}
+        </Button>
+      )}
     </div>
   )
 
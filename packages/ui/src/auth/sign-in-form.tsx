@@ -83,6 +83,20 @@ export function SignInForm({
         throw new Error(errorMessage)
       }
 
+      // Password accepted but a second factor is still required
+      if (result.twoFactorRequired) {
+        const verifyUrl = viewPaths?.auth?.["two-factor-verify"]
+          ? `${basePath}/${viewPaths.auth["two-factor-verify"]}`
+          : "/verify-2fa"
+        const target = `${verifyUrl}?redirectTo=${encodeURIComponent(redirectTo)}`
+        if (navigate) {
+          navigate(target)
+        } else if (typeof window !== "undefined") {
+          window.location.href = target
+        }
+        return
+      }
+
       // Show success toast
       if (toast) {
         toast({
@@ -0,0 +1,279 @@
+"use client"
+
+import clsx from "clsx"
+import { CheckIcon, CopyIcon, Loader2, SmartphoneIcon } from "lucide-react"
+import type * as React from "react"
+import { useContext, useId, useState } from "react"
+import { Button } from "../components/button"
+import { Input } from "../components/input"
+import { AuthUIProviderContext } from "../lib/auth-ui-provider"
+import { FieldErrorText, FormRow } from "../primitives/form"
+import type { FetchError } from "../types"
+
+type Enrollment = {
+  secret: string
+  otpauthUri: string
+  qrPayload: string
+  enrollmentToken: string
+}
+
+export interface TwoFactorSetupProps {
+  /** Custom API endpoint for enabling 2FA */
+  endpoint?: string
+  /** Redirect URL after the recovery codes are acknowledged */
+  redirectTo?: string
+  /** Render the otpauth:// payload as a QR code (no QR library is bundled) */
+  renderQrCode?: (payload: string) => React.ReactNode
+  /** Custom CSS classes */
+  className?: string
+  /** Custom success handler, called with `{ recoveryCodes }` once enrollment is confirmed */
+  onSuccess?: (result: any) => void
+  /** Custom error handler */
+  onError?: (error: FetchError) => void
+  /** Called when the user acknowledges the recovery codes */
+  onComplete?: () => void
+  /** Custom CSS classes for different parts */
+  classNames?: {
+    container?: string
+    form?: string
+    field?: string
+    input?: string
+    button?: string
+    secret?: string
+    recoveryCodes?: string
+    error?: string
+  }
+}
+
+export function TwoFactorSetup({
+  endpoint = "/api/account/enable-2fa",
+  redirectTo,
+  renderQrCode,
+  className,
+  onSuccess,
+  onError,
+  onComplete,
+  classNames,
+}: TwoFactorSetupProps) {
+  const context = useContext(AuthUIProviderContext)
+  const codeId = useId()
+  const { localization, toast, navigate } = context || {}
+
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [code, setCode] = useState("")
+  const [copied, setCopied] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const post = async (body: Record<string, string>) => {
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+    })
+
+    const result = await response.json().catch(() => ({}))
+
+    if (!response.ok) {
+      const errorMessage = result.error || result.message || "Failed to set up 2FA"
+      throw new Error(errorMessage)
+    }
+    return result
+  }
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null)
+    setIsLoading(true)
+
+    try {
+      await action()
+    } catch (err: any) {
+      const errorMessage = err.message || "Failed to set up 2FA"
+      setError(errorMessage)
+
+      // Show error toast
+      if (toast) {
+        toast({
+          variant: "error",
+          message: errorMessage,
+        })
+      }
+
+      // Call custom error handler
+      if (onError) {
+        onError(err)
+      }
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleBegin = () =>
+    run(async () => {
+      setEnrollment(await post({}))
+    })
+
+  const handleConfirm = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!enrollment) return
+    return run(async () => {
+      const result = await post({ enrollmentToken: enrollment.enrollmentToken, code: code.trim() })
+      setRecoveryCodes(result.recoveryCodes ?? [])
+
+      // Show success toast
+      if (toast) {
+        toast({
+          variant: "success",
+          message: localization?.TWO_FACTOR_ENABLED || "Two-factor authentication enabled",
+        })
+      }
+
+      // Call custom success handler
+      if (onSuccess) {
+        onSuccess(result)
+      }
+    })
+  }
+
+  const handleCopyCodes = async () => {
+    if (!recoveryCodes || typeof navigator === "undefined" || !navigator.clipboard) return
+    await navigator.clipboard.writeText(recoveryCodes.join("\n"))
+    setCopied(true)
+  }
+
+  const handleDone = () => {
+    if (onComplete) {
+      onComplete()
+    } else if (redirectTo) {
+      if (navigate) {
+        navigate(redirectTo)
+      } else if (typeof window !== "undefined") {
+        window.location.href = redirectTo
+      }
+    }
+  }
+
+  // Step 3: show the one-time recovery codes
+  if (recoveryCodes) {
+    return (
+      <div className={clsx("grid gap-4", classNames?.container, className)}>
+        <div className="space-y-2">
+          <h2 className="text-2xl font-semibold text-foreground">
+            {localization?.RECOVERY_CODES_TITLE || "Save your recovery codes"}
+          </h2>
+          <p className="text-muted-foreground">
+            {localization?.RECOVERY_CODES_DESCRIPTION ||
+              "Each code can be used once if you lose access to your authenticator app. They will not be shown again."}
+          </p>
+        </div>
+        <ul
+          className={clsx(
+            "grid grid-cols-2 gap-2 rounded-md border p-4 font-mono text-sm",
+            classNames?.recoveryCodes
+          )}
+        >
+          {recoveryCodes.map((c) => (
+            <li key={c}>{c}</li>
+          ))}
+        </ul>
+        <div className="flex gap-2">
+          <Button type="button" variant="outline" onClick={handleCopyCodes}>
+            {copied ? <CheckIcon className="mr-2 h-4 w-4" /> : <CopyIcon className="mr-2 h-4 w-4" />}
+            {copied ? localization?.COPIED || "Copied" : localization?.COPY_CODES || "Copy codes"}
+          </Button>
+          <Button type="button" onClick={handleDone} className={classNames?.button}>
+            {localization?.DONE || "Done"}
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  // Step 2: scan / enter the secret, then confirm with a code
+  if (enrollment) {
+    return (
+      <form
+        onSubmit={handleConfirm}
+        className={clsx("grid gap-4", classNames?.form, className)}
+        noValidate
+      >
+        <div className="space-y-2">
+          <h2 className="text-2xl font-semibold text-foreground">
+            {localization?.TWO_FACTOR_SCAN_TITLE || "Scan with your authenticator app"}
+          </h2>
+          <p className="text-muted-foreground">
+            {localization?.TWO_FACTOR_SCAN_DESCRIPTION ||
+              "Scan the QR code or enter the key manually, then enter the 6-digit code it shows."}
+          </p>
+        </div>
+
+        {renderQrCode && <div className="flex justify-center">{renderQrCode(enrollment.qrPayload)}</div>}
+
+        <div className={clsx("rounded-md border p-3 text-sm", classNames?.secret)}>
+          <div className="text-muted-foreground">{localization?.SETUP_KEY || "Setup key"}</div>
+          <code className="break-all font-mono">{enrollment.secret}</code>
+          <a href={enrollment.otpauthUri} className="mt-2 block text-primary hover:underline">
+            {localization?.OPEN_AUTHENTICATOR_APP || "Open in authenticator app"}
+          </a>
+        </div>
+
+        <FormRow
+          label={localization?.AUTHENTICATION_CODE || "Authentication code"}
+          htmlFor={codeId}
+          className={classNames?.field}
+        >
+          <Input
+            id={codeId}
+            name="code"
+            type="text"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            required
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="123456"
+            className={classNames?.input}
+            disabled={isLoading}
+          />
+        </FormRow>
+
+        {/* Error Message */}
+        {error && <FieldErrorText error={error} className={classNames?.error} />}
+
+        <Button type="submit" disabled={isLoading || !code} className={classNames?.button}>
+          {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {localization?.VERIFY_AND_ENABLE || "Verify and enable"}
+        </Button>
+      </form>
+    )
+  }
+
+  // Step 1: start enrollment
+  return (
+    <div className={clsx("grid gap-4", classNames?.container, className)}>
+      <div className="text-center space-y-2">
+        <div className="flex justify-center">
+          <SmartphoneIcon className="h-8 w-8 text-muted-foreground" />
+        </div>
+        <h2 className="text-2xl font-semibold text-foreground">
+          {localization?.TWO_FACTOR_AUTH || "Two-Factor Authentication"}
+        </h2>
+        <p className="text-muted-foreground">
+          {localization?.TWO_FACTOR_SETUP_DESCRIPTION ||
+            "Use an authenticator app to generate sign-in codes."}
+        </p>
+      </div>
+
+      {/* Error Message */}
+      {error && <FieldErrorText error={error} className={classNames?.error} />}
+
+      <Button type="button" onClick={handleBegin} disabled={isLoading} className={classNames?.button}>
+        {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        {localization?.ENABLE_2FA || "Enable 2FA"}
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,190 @@
+"use client"
+
+import clsx from "clsx"
+import { Loader2, ShieldCheckIcon } from "lucide-react"
+import type * as React from "react"
+import { useContext, useId, useState } from "react"
+import { Button } from "../components/button"
+import { Input } from "../components/input"
+import { AuthUIProviderContext } from "../lib/auth-ui-provider"
+import { FieldErrorText, FormRow } from "../primitives/form"
+import type { FetchError } from "../types"
+
+export interface TwoFactorVerifyProps {
+  /** Redirect URL after successful verification (defaults to `?redirectTo=` or "/") */
+  redirectTo?: string
+  /** Custom API endpoint for verifying the second factor */
+  endpoint?: string
+  /** Custom CSS classes */
+  className?: string
+  /** Custom success handler */
+  onSuccess?: (result: any) => void
+  /** Custom error handler */
+  onError?: (error: FetchError) => void
+  /** Custom CSS classes for different parts */
+  classNames?: {
+    form?: string
+    field?: string
+    input?: string
+    button?: string
+    link?: string
+    error?: string
+  }
+}
+
+export function TwoFactorVerify({
+  redirectTo,
+  endpoint = "/api/auth/2fa/verify",
+  className,
+  onSuccess,
+  onError,
+  classNames,
+}: TwoFactorVerifyProps) {
+  const context = useContext(AuthUIProviderContext)
+  const codeId = useId()
+  const { localization, toast, navigate } = context || {}
+
+  const [code, setCode] = useState("")
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setIsLoading(true)
+
+    try {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ code: code.trim() }),
+      })
+
+      const result = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        const errorMessage =
+          result.error === "TWO_FACTOR_PENDING_INVALID"
+            ? localization?.TWO_FACTOR_SESSION_EXPIRED || "Your sign-in expired. Please sign in again."
+            : result.error || result.message || "Invalid code"
+        throw new Error(errorMessage)
+      }
+
+      // Show success toast
+      if (toast) {
+        toast({
+          variant: "success",
+          message: localization?.SIGN_IN_SUCCESS || "Successfully signed in!",
+        })
+      }
+
+      // Call custom success handler
+      if (onSuccess) {
+        onSuccess(result)
+      } else {
+        // Default behavior: continue to the page that started sign in
+        const target =
+          redirectTo ??
+          (typeof window !== "undefined"
+            ? new URLSearchParams(window.location.search).get("redirectTo")
+            : null) ??
+          "/"
+        if (navigate) {
+          navigate(target)
+        } else if (typeof window !== "undefined") {
+          window.location.href = target
+        }
+      }
+    } catch (err: any) {
+      const errorMessage = err.message || "Invalid code"
+      setError(errorMessage)
+
+      // Show error toast
+      if (toast) {
+        toast({
+          variant: "error",
+          message: errorMessage,
+        })
+      }
+
+      // Call custom error handler
+      if (onError) {
+        onError(err)
+      }
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className={clsx("grid gap-4", classNames?.form, className)}
+      noValidate
+    >
+      <div className="text-center space-y-2">
+        <div className="flex justify-center">
+          <ShieldCheckIcon className="h-8 w-8 text-muted-foreground" />
+        </div>
+        <h2 className="text-2xl font-semibold text-foreground">
+          {localization?.TWO_FACTOR_VERIFY_TITLE || "Two-factor authentication"}
+        </h2>
+        <p className="text-muted-foreground">
+          {useRecoveryCode
+            ? localization?.TWO_FACTOR_RECOVERY_DESCRIPTION || "Enter one of your recovery codes."
+            : localization?.TWO_FACTOR_VERIFY_DESCRIPTION ||
+              "Enter the 6-digit code from your authenticator app."}
+        </p>
+      </div>
+
+      <FormRow
+        label={
+          useRecoveryCode
+            ? localization?.RECOVERY_CODE || "Recovery code"
+            : localization?.AUTHENTICATION_CODE || "Authentication code"
+        }
+        htmlFor={codeId}
+        className={classNames?.field}
+      >
+        <Input
+          id={codeId}
+          name="code"
+          type="text"
+          inputMode={useRecoveryCode ? "text" : "numeric"}
+          autoComplete="one-time-code"
+          required
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          placeholder={useRecoveryCode ? "xxxxx-xxxxx" : "123456"}
+          className={classNames?.input}
+          disabled={isLoading}
+        />
+      </FormRow>
+
+      {/* Error Message */}
+      {error && <FieldErrorText error={error} className={classNames?.error} />}
+
+      <Button type="submit" disabled={isLoading || !code} className={classNames?.button}>
+        {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        {localization?.VERIFY || "Verify"}
+      </Button>
+
+      <button
+        type="button"
+        onClick={() => {
+          setUseRecoveryCode(!useRecoveryCode)
+          setCode("")
+          setError(null)
+        }}
+        className={clsx("text-sm text-primary hover:underline", classNames?.link)}
+      >
+        {useRecoveryCode
+          ? localization?.USE_AUTHENTICATOR_APP || "Use your authenticator app"
+          : localization?.USE_RECOVERY_CODE || "Use a recovery code"}
+      </button>
+    </form>
+  )
+}
@@ -6,5 +6,7 @@
 export { useAuthenticate } from './use-authenticate'
 export { useAuthData } from './use-auth-data'
 export { useAuthForm } from './use-auth-form'
+export { useLinkedAccounts } from './use-linked-accounts'
+export type { LinkedAccount } from './use-linked-accounts'
 
 // Re-export types (these will be added when the interfaces are exported from the hook files)
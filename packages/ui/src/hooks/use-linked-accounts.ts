@@ -0,0 +1,89 @@
+import { useCallback } from "react"
+import { ACCOUNT_ERROR_CODES } from "../localization/account-error-codes"
+import { useAuthData } from "./use-auth-data"
+
+export interface LinkedAccount {
+  id: string
+  provider: string
+  providerAccountId: string
+  scope?: string | null
+}
+
+interface UseLinkedAccountsOptions {
+  /** Accounts route @default "/api/auth/accounts" */
+  endpoint?: string
+  /** CSRF token route; unlinking sends the token as `x-keyloom-csrf` @default "/api/auth/csrf" */
+  csrfEndpoint?: string
+  /** Prefix of the OAuth start routes @default "/api/auth/oauth" */
+  oauthPath?: string
+  enabled?: boolean
+}
+
+/**
+ * OAuth accounts linked to the signed-in user, with helpers to link another provider
+ * (through the OAuth link mode) and to unlink one.
+ */
+export function useLinkedAccounts({
+  endpoint = "/api/auth/accounts",
+  csrfEndpoint = "/api/auth/csrf",
+  oauthPath = "/api/auth/oauth",
+  enabled = true,
+}: UseLinkedAccountsOptions = {}) {
+  const queryFn = useCallback(async () => {
+    const response = await fetch(endpoint, { credentials: "include" })
+    const result = await response.json().catch(() => ({}))
+    if (!response.ok) throw new Error(result.error || "Failed to load linked accounts")
+    return (result.accounts ?? []) as LinkedAccount[]
+  }, [endpoint])
+
+  const { data, isPending, error, refetch } = useAuthData({
+    queryFn,
+    cacheKey: "linked-accounts",
+    enabled,
+  })
+
+  const unlink = useCallback(
+    async (id: string) => {
+      const csrf = await fetch(csrfEndpoint, { credentials: "include" })
+      const { csrfToken } = await csrf.json().catch(() => ({}))
+      const response = await fetch(endpoint, {
+        method: "DELETE",
+        credentials: "include",
+        headers: {
+          "Content-Type": "application/json",
+          "x-keyloom-csrf": csrfToken ?? "",
+        },
+        body: JSON.stringify({ id }),
+      })
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(
+          result.error === "last_sign_in_method"
+            ? ACCOUNT_ERROR_CODES.CANNOT_UNLINK_LAST_METHOD
+            : result.error || ACCOUNT_ERROR_CODES.ACCOUNT_UNLINKING_FAILED
+        )
+      }
+      await refetch()
+    },
+    [csrfEndpoint, endpoint, refetch]
+  )
+
+  /** URL that starts linking `providerId` to the current user, returning to `callbackUrl` */
+  const linkUrl = useCallback(
+    (providerId: string, callbackUrl?: string) => {
+      const params = new URLSearchParams({ mode: "link" })
+      if (callbackUrl) params.set("callbackUrl", callbackUrl)
+      return `${oauthPath}/${encodeURIComponent(providerId)}/start?${params}`
+    },
+    [oauthPath]
+  )
+
+  return {
+    accounts: data ?? [],
+    isPending,
+    error,
+    refetch,
+    unlink,
+    linkUrl,
+  }
+}
@@ -40,6 +40,7 @@ export type {
   OrganizationView,
   OrganizationRoleConfig,
   MemberInvitationConfig,
+  OrganizationDomainsConfig,
   OrganizationBillingConfig,
   OrganizationUIOptions,
   OrganizationUIContext,
@@ -80,6 +81,8 @@ export type {
 } from "./types";
 export * from "./localization";
 export * from "./lib";
+export { useLinkedAccounts } from "./hooks/use-linked-accounts";
+export type { LinkedAccount } from "./hooks/use-linked-accounts";
 
 // Legacy exports (to be removed in Phase 2)
 export {
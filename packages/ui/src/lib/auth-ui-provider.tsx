@@ -189,6 +189,7 @@ export const AuthUIProvider = ({
       settings: "settings",
       security: "security",
       "api-keys": "api-keys",
+      domains: "domains",
       billing: "billing",
       usage: "usage",
       "audit-log": "audit-log",
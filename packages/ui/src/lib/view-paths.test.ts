@@ -39,6 +39,7 @@ describe('default paths', () => {
     expect(DEFAULT_ORGANIZATION_PATHS.settings).toBe('settings')
     expect(DEFAULT_ORGANIZATION_PATHS.members).toBe('members')
     expect(DEFAULT_ORGANIZATION_PATHS['audit-log']).toBe('audit-log')
+    expect(DEFAULT_ORGANIZATION_PATHS.domains).toBe('domains')
   })
 
   it('should have correct default base paths', () => {
@@ -45,6 +45,7 @@ export const DEFAULT_ORGANIZATION_PATHS: Record<OrganizationView, string> = {
   roles: 'roles',
   invitations: 'invitations',
   'api-keys': 'api-keys',
+  domains: 'domains',
   billing: 'billing',
   usage: 'usage',
   'audit-log': 'audit-log',
@@ -60,6 +60,18 @@ export const GENERIC_OAUTH_ERROR_CODES = {
   /** Network error during OAuth flow */
   NETWORK_ERROR: "network error during authentication",
   
+  /** Email belongs to an existing account that doesn't allow automatic linking */
+  OAUTH_ACCOUNT_NOT_LINKED: "an account with this email already exists; sign in and connect this provider from your settings",
+  
+  /** Email matches an existing account; linking waits for confirmation by email or by signing in */
+  OAUTH_LINK_CONFIRMATION_REQUIRED: "confirm that you want to connect this provider to your existing account",
+  
+  /** Pending account link is invalid, expired or was already used */
+  OAUTH_LINK_INVALID: "account link request is invalid or expired",
+  
+  /** Pending account link was confirmed by a different signed-in user */
+  OAUTH_LINK_USER_MISMATCH: "account link was started for a different user",
+  
   /** Generic OAuth error when specific cause is unknown */
   UNKNOWN_OAUTH_ERROR: "authentication failed",
 } as const
@@ -129,6 +129,12 @@ export const ORGANIZATION_ERROR_CODES = {
   /** Organization feature not available */
   ORG_FEATURE_NOT_AVAILABLE: "organization feature not available",
   
+  /** Every seat on the organization's plan is taken by a member or pending invitation */
+  SEAT_LIMIT_REACHED: "seat limit reached",
+  
+  /** The organization's plan does not include this feature or limit */
+  ENTITLEMENT_REQUIRED: "plan upgrade required",
+  
   /** Organization is suspended */
   ORGANIZATION_SUSPENDED: "organization is suspended",
   
@@ -1,8 +1,13 @@
+import { hasRole, type RbacConfig } from '@keyloom/core/rbac'
 import * as React from 'react'
 import { Badge } from '../components/badge'
 
-export function RoleBadge({ role }: { role: string }) {
-  const variant = role === 'owner' ? 'primary' : role === 'admin' ? 'warning' : 'default'
+export function RoleBadge({ role, rbac }: { role: string; rbac?: RbacConfig }) {
+  // Custom roles take the look of the built-in role they inherit
+  const variant = hasRole(role, 'owner', rbac)
+    ? 'primary'
+    : hasRole(role, 'admin', rbac)
+      ? 'warning'
+      : 'default'
   return <Badge variant={variant as any}>{role}</Badge>
 }
-
@@ -8,7 +8,7 @@ export function FieldErrorText({
   className,
 }: {
   error?: string | FieldErr;
-  className?: string;
+  className?: string | undefined;
 }) {
   if (!error) return null;
   const msg = typeof error === "string" ? error : error.message;
@@ -32,7 +32,7 @@ export function FormRow({
   label?: string;
   htmlFor?: string;
   children: React.ReactNode;
-  className?: string;
+  className?: string | undefined;
 }) {
   return (
     <div className={`grid gap-2 ${className || ""}`}>
@@ -1,9 +1,36 @@
-import * as React from 'react'
+import { evaluate, hasAnyRole, type PolicyResource, type RbacConfig } from '@keyloom/core/rbac'
+import type * as React from 'react'
 
-export function RoleGate({ allow, current, children, fallback = null }: { allow: string | string[]; current?: string | string[] | null; children: React.ReactNode; fallback?: React.ReactNode }) {
-  const need = Array.isArray(allow) ? allow : [allow]
+/**
+ * Render `children` when one of the `current` roles is (or, given `rbac`, inherits) an `allow`ed
+ * role and, when `permission` is set, the policy grants it for `resource`.
+ */
+export function RoleGate({
+  allow,
+  current,
+  permission,
+  resource,
+  userId,
+  rbac,
+  children,
+  fallback = null,
+}: {
+  allow?: string | string[]
+  current?: string | string[] | null
+  permission?: string
+  resource?: PolicyResource
+  userId?: string | null
+  rbac?: RbacConfig
+  children: React.ReactNode
+  fallback?: React.ReactNode
+}) {
+  const need = allow === undefined ? [] : Array.isArray(allow) ? allow : [allow]
   const have = Array.isArray(current) ? current : current ? [current] : []
-  const ok = need.some((r) => have.includes(r))
+  const ok = have.some(
+    (role) =>
+      (!need.length || hasAnyRole(role, need, rbac)) &&
+      (!permission ||
+        evaluate({ userId: userId ?? null, role }, permission, resource, rbac).allowed),
+  )
   return <>{ok ? children : fallback}</>
 }
-
@@ -68,6 +68,7 @@ export type {
   OrganizationView,
   OrganizationRoleConfig,
   MemberInvitationConfig,
+  OrganizationDomainsConfig,
   OrganizationBillingConfig,
   OrganizationUIOptions,
   OrganizationUIContext,
@@ -13,6 +13,7 @@ export type OrganizationView =
   | 'roles'
   | 'invitations'
   | 'api-keys'
+  | 'domains'
   | 'billing'
   | 'usage'
   | 'audit-log'
@@ -60,6 +61,22 @@ export interface MemberInvitationConfig {
   sendWelcomeEmail?: boolean
 }
 
+/**
+ * Verified email domain configuration
+ */
+export interface OrganizationDomainsConfig {
+  /** Whether the domains section is shown @default false */
+  enabled?: boolean
+  /** Domain policies admins may choose from @default ['auto-join', 'sso'] */
+  policies?: Array<'auto-join' | 'sso'>
+  /** Role preselected for auto-joined members @default 'member' */
+  defaultRole?: string
+  /** Maximum claimed domains per organization @default 10 */
+  maxDomains?: number
+  /** Whether to show the DNS TXT record instructions for unverified domains @default true */
+  showDnsInstructions?: boolean
+}
+
 /**
  * Organization billing configuration
  */
@@ -76,6 +93,8 @@ export interface OrganizationBillingConfig {
     interval: 'month' | 'year'
     features: string[]
   }>
+  /** Endpoint answering `{ plans }` when `plans` is not set, e.g. `/api/auth/billing/plans` */
+  plansEndpoint?: string
   /** Whether to show usage metrics @default true */
   showUsage?: boolean
   /** Whether to allow plan changes @default true */
@@ -183,6 +202,9 @@ export interface OrganizationUIOptions {
     showUsage?: boolean
   }
 
+  /** Verified email domain configuration */
+  domains?: OrganizationDomainsConfig
+
   /** Billing configuration */
   billing?: OrganizationBillingConfig
 
@@ -346,6 +368,9 @@ export interface OrganizationUIContext {
     showUsage: boolean
   }
 
+  /** Resolved domain configuration */
+  domains: Required<OrganizationDomainsConfig>
+
   /** Resolved billing configuration */
   billing: Required<OrganizationBillingConfig>
 
@@ -19,6 +19,7 @@ export default defineConfig({
       'packages/adapters/tests/**/*.test.ts',
       'packages/adapters/**/tests/**/*.test.ts',
       'packages/ui/src/**/*.test.ts',
+      'packages/plugins/*/src/**/*.test.ts',
     ],
     exclude: ['**/node_modules/**', '**/dist/**'],
     environment: 'node',